@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Activity" ADD COLUMN "description" TEXT;
+
+-- Move descriptions that were previously folded into the JSON payload
+UPDATE "Activity"
+SET "description" = "data"->>'description',
+    "data" = NULLIF("data" - 'description', '{}'::jsonb)
+WHERE "data" ? 'description';
@@ -0,0 +1,31 @@
+-- Positions become fractional ranks, so a move only rewrites the moved row
+-- and two rows may briefly share a rank until the container is rebalanced
+DROP INDEX "List_boardId_position_key";
+DROP INDEX "Card_listId_position_key";
+
+-- AlterTable
+ALTER TABLE "List" ALTER COLUMN "position" SET DATA TYPE DOUBLE PRECISION;
+ALTER TABLE "Card" ALTER COLUMN "position" SET DATA TYPE DOUBLE PRECISION;
+
+-- Spread existing rows one rank step (1024) apart, keeping their current order
+UPDATE "List" AS l
+SET "position" = ranked."rank" * 1024
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "boardId" ORDER BY "position", "createdAt", "id") AS "rank"
+  FROM "List"
+) AS ranked
+WHERE l."id" = ranked."id";
+
+UPDATE "Card" AS c
+SET "position" = ranked."rank" * 1024
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "listId" ORDER BY "position", "createdAt", "id") AS "rank"
+  FROM "Card"
+) AS ranked
+WHERE c."id" = ranked."id";
+
+-- CreateIndex
+CREATE INDEX "List_boardId_position_idx" ON "List"("boardId", "position");
+
+-- CreateIndex
+CREATE INDEX "Card_listId_position_idx" ON "Card"("listId", "position");
@@ -0,0 +1,28 @@
+-- Search vectors are generated columns, so every write keeps them current.
+-- The 'simple' configuration skips stemming and stop words, which keeps
+-- matching predictable on boards that mix languages.
+
+-- AlterTable
+ALTER TABLE "Card" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("description", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("content", '')), 'C')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "ChecklistItem" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("content", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Card_searchVector_idx" ON "Card" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Comment_searchVector_idx" ON "Comment" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "ChecklistItem_searchVector_idx" ON "ChecklistItem" USING GIN ("searchVector");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "CardAssignee" (
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cardId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "CardAssignee_pkey" PRIMARY KEY ("cardId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "CardAssignee_userId_idx" ON "CardAssignee"("userId");
+
+-- AddForeignKey
+ALTER TABLE "CardAssignee" ADD CONSTRAINT "CardAssignee_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "Card"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CardAssignee" ADD CONSTRAINT "CardAssignee_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry every existing single assignee over, keeping when the card last changed as the assignment time
+INSERT INTO "CardAssignee" ("cardId", "userId", "assignedAt")
+SELECT "id", "assigneeId", "updatedAt" FROM "Card" WHERE "assigneeId" IS NOT NULL;
+
+-- DropForeignKey
+ALTER TABLE "Card" DROP CONSTRAINT "Card_assigneeId_fkey";
+
+-- DropIndex
+DROP INDEX "Card_assigneeId_idx";
+
+-- AlterTable
+ALTER TABLE "Card" DROP COLUMN "assigneeId";
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "DueDateReminderKind" AS ENUM ('DUE_SOON', 'OVERDUE');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "reminderLeadMinutes" INTEGER DEFAULT 1440;
+
+-- CreateTable
+CREATE TABLE "DueDateReminder" (
+    "id" TEXT NOT NULL,
+    "kind" "DueDateReminderKind" NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "cardId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+
+    CONSTRAINT "DueDateReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DueDateReminder_cardId_userId_kind_dueDate_key" ON "DueDateReminder"("cardId", "userId", "kind", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "DueDateReminder_userId_idx" ON "DueDateReminder"("userId");
+
+-- AddForeignKey
+ALTER TABLE "DueDateReminder" ADD CONSTRAINT "DueDateReminder_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "Card"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DueDateReminder" ADD CONSTRAINT "DueDateReminder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
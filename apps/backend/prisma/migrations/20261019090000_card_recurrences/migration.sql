@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY', 'CRON');
+
+-- CreateTable
+CREATE TABLE "CardRecurrence" (
+    "id" TEXT NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "hour" INTEGER,
+    "minute" INTEGER,
+    "weekdays" INTEGER[],
+    "dayOfMonth" INTEGER,
+    "cron" TEXT,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "cardId" TEXT NOT NULL,
+    "targetListId" TEXT,
+
+    CONSTRAINT "CardRecurrence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CardRecurrence_cardId_key" ON "CardRecurrence"("cardId");
+
+-- CreateIndex
+CREATE INDEX "CardRecurrence_nextRunAt_idx" ON "CardRecurrence"("nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "CardRecurrence" ADD CONSTRAINT "CardRecurrence_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "Card"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CardRecurrence" ADD CONSTRAINT "CardRecurrence_targetListId_fkey" FOREIGN KEY ("targetListId") REFERENCES "List"("id") ON DELETE SET NULL ON UPDATE CASCADE;
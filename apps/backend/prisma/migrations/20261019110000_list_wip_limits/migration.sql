@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "WipLimitMode" AS ENUM ('STRICT', 'SOFT');
+
+-- AlterTable
+ALTER TABLE "List" ADD COLUMN     "wipLimit" INTEGER,
+ADD COLUMN     "wipLimitMode" "WipLimitMode" NOT NULL DEFAULT 'SOFT';
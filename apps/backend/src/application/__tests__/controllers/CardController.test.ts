@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { Hono } from "hono";
+import { CardController } from "@/application/controllers/CardController";
+import { Card } from "@kanban/domain-core";
+
+describe("CardController", () => {
+  describe("updateCard", () => {
+    // Built directly: the test fixtures connect to the test database
+    const card = Card.create({ title: "Plan", position: 1, listId: "list-1", creatorId: "user-1", isArchived: false });
+    let updateCardUseCase: { execute: ReturnType<typeof mock> };
+    let app: Hono<{ Variables: { userId: string } }>;
+
+    const update = (body: Record<string, unknown>) =>
+      app.request(`/cards/${card.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    beforeEach(() => {
+      updateCardUseCase = { execute: mock(() => Promise.resolve(card)) };
+      const noop = {} as any;
+      const controller = new CardController(
+        noop,
+        noop,
+        updateCardUseCase as any,
+        noop,
+        noop,
+        noop,
+        noop,
+        noop,
+        noop,
+        { execute: mock(() => Promise.resolve({ progress: new Map() })) } as any,
+        { execute: mock(() => Promise.resolve({ labels: new Map() })) } as any,
+        { execute: mock(() => Promise.resolve({ watchedCardIds: new Set() })) } as any
+      );
+
+      app = new Hono<{ Variables: { userId: string } }>();
+      app.use("*", async (c, next) => {
+        c.set("userId", "user-1");
+        await next();
+      });
+      app.put("/cards/:id", (c) => controller.updateCard(c));
+    });
+
+    test("should leave a date that is not sent as it is", async () => {
+      // A timeline bar resized by its start edge
+      const response = await update({ startDate: "2026-03-02T09:00:00.000Z" });
+
+      expect(response.status).toBe(200);
+      const [, , data] = updateCardUseCase.execute.mock.calls[0]!;
+      expect(data.startDate).toEqual(new Date("2026-03-02T09:00:00.000Z"));
+      expect(data.dueDate).toBeUndefined();
+    });
+
+    test("should keep both dates when both are sent", async () => {
+      await update({ startDate: "2026-03-02T09:00:00.000Z", dueDate: "2026-03-06T17:00:00.000Z" });
+
+      const [, , data] = updateCardUseCase.execute.mock.calls[0]!;
+      expect(data.startDate).toEqual(new Date("2026-03-02T09:00:00.000Z"));
+      expect(data.dueDate).toEqual(new Date("2026-03-06T17:00:00.000Z"));
+    });
+
+    test("should clear a date sent as null", async () => {
+      const response = await update({ dueDate: null });
+
+      expect(response.status).toBe(200);
+      const [, , data] = updateCardUseCase.execute.mock.calls[0]!;
+      expect(data.dueDate).toBeNull();
+      expect(data.startDate).toBeUndefined();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { describe, test, expect } from "bun:test";
+import { ChecklistValidator } from "@/application/validators/ChecklistValidator";
+
+describe("ChecklistValidator", () => {
+  describe("validateReorderChecklists", () => {
+    test("should accept distinct non-negative integer positions", () => {
+      const data = {
+        checklists: [
+          { id: "checklist-1", position: 0 },
+          { id: "checklist-2", position: 1 },
+        ],
+      };
+
+      const result = ChecklistValidator.validateReorderChecklists(data);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(data);
+    });
+
+    test("should reject fractional positions", () => {
+      const result = ChecklistValidator.validateReorderChecklists({
+        checklists: [{ id: "checklist-1", position: 1.5 }],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]?.field).toBe("checklists[0].position");
+    });
+
+    test("should reject repeated positions", () => {
+      const result = ChecklistValidator.validateReorderChecklists({
+        checklists: [
+          { id: "checklist-1", position: 1 },
+          { id: "checklist-2", position: 1 },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]?.message).toBe("Duplicate position 1 found");
+    });
+  });
+
+  describe("validateReorderItems", () => {
+    test("should reject fractional and negative positions", () => {
+      const result = ChecklistValidator.validateReorderItems({
+        items: [
+          { id: "item-1", position: 0.5 },
+          { id: "item-2", position: -1 },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors?.map(error => error.field)).toEqual(["items[0].position", "items[1].position"]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,288 @@
+import { Context } from 'hono';
+import { GetBoardActivityUseCase } from '@kanban/use-cases';
+import { GetCardActivityUseCase } from '@kanban/use-cases';
+import { GetUserActivityUseCase } from '@kanban/use-cases';
+import { GetWatchingFeedUseCase } from '@kanban/use-cases';
+import { MarkWatchingFeedReadUseCase } from '@kanban/use-cases';
+import { ActivityFeedPage } from '@kanban/use-cases';
+import { ActivityLocale } from '@kanban/use-cases';
+import { renderActivity } from '@kanban/use-cases';
+import { resolveActivityLocale } from '@kanban/use-cases';
+import { ActivityValidator } from '@/application/validators/ActivityValidator';
+import { ActivityFeedResponseDto, WatchingFeedResponseDto } from '@/interfaces/http/dto/ActivityDto';
+
+export class ActivityController {
+  constructor(
+    private getBoardActivityUseCase: GetBoardActivityUseCase,
+    private getCardActivityUseCase: GetCardActivityUseCase,
+    private getUserActivityUseCase: GetUserActivityUseCase,
+    private getWatchingFeedUseCase: GetWatchingFeedUseCase,
+    private markWatchingFeedReadUseCase: MarkWatchingFeedReadUseCase
+  ) {}
+
+  async getBoardActivity(c: Context) {
+    try {
+      const boardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!boardId) {
+        return c.json({ error: 'Board ID is required' }, 400);
+      }
+
+      // Validate query parameters
+      const validation = ActivityValidator.validateFeedQuery(c.req.query());
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      const query = validation.data!;
+
+      // Execute use case
+      const result = await this.getBoardActivityUseCase.execute({
+        boardId,
+        userId,
+        cursor: query.cursor,
+        limit: query.limit,
+        actorId: query.actorId,
+        entityType: query.entityType,
+        action: query.action,
+        fromDate: query.from ? new Date(query.from) : undefined,
+        toDate: query.to ? new Date(query.to) : undefined,
+      });
+
+      // Return response
+      return c.json(this.mapFeedToResponse(result, this.getLocale(c)));
+
+    } catch (error) {
+      console.error('Error getting board activity:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Board not found') {
+          return c.json({ error: 'Board not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async getCardActivity(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      // Validate query parameters
+      const validation = ActivityValidator.validateFeedQuery(c.req.query());
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      const query = validation.data!;
+
+      // Execute use case
+      const result = await this.getCardActivityUseCase.execute({
+        cardId,
+        userId,
+        cursor: query.cursor,
+        limit: query.limit,
+        actorId: query.actorId,
+        action: query.action,
+      });
+
+      // Return response
+      return c.json(this.mapFeedToResponse(result, this.getLocale(c)));
+
+    } catch (error) {
+      console.error('Error getting card activity:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found') {
+          return c.json({ error: 'Card not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async getMyActivity(c: Context) {
+    try {
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Validate query parameters
+      const validation = ActivityValidator.validateFeedQuery(c.req.query());
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      const query = validation.data!;
+
+      // Execute use case
+      const result = await this.getUserActivityUseCase.execute({
+        userId,
+        boardId: query.boardId,
+        cursor: query.cursor,
+        limit: query.limit,
+        fromDate: query.from ? new Date(query.from) : undefined,
+        toDate: query.to ? new Date(query.to) : undefined,
+      });
+
+      // Return response
+      return c.json(this.mapFeedToResponse(result, this.getLocale(c)));
+
+    } catch (error) {
+      console.error('Error getting user activity:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Board not found') {
+          return c.json({ error: 'Board not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async getWatchingFeed(c: Context) {
+    try {
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Validate query parameters
+      const validation = ActivityValidator.validateFeedQuery(c.req.query());
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      const query = validation.data!;
+
+      // Execute use case
+      const result = await this.getWatchingFeedUseCase.execute({
+        userId,
+        cursor: query.cursor,
+        limit: query.limit,
+      });
+
+      // Return response
+      const feed = this.mapFeedToResponse(result, this.getLocale(c));
+      const response: WatchingFeedResponseDto = {
+        activities: feed.activities.map((activity, index) => ({
+          ...activity,
+          isUnread: result.entries[index]!.isUnread,
+        })),
+        nextCursor: feed.nextCursor,
+        unreadCount: result.unreadCount,
+      };
+      return c.json(response);
+
+    } catch (error) {
+      console.error('Error getting watching feed:', error);
+
+      if (error instanceof Error) {
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async markWatchingFeedRead(c: Context) {
+    try {
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Execute use case
+      const result = await this.markWatchingFeedReadUseCase.execute({ userId });
+
+      // Return response
+      return c.json({
+        readAt: result.readAt.toISOString(),
+        unreadCount: 0,
+      });
+
+    } catch (error) {
+      console.error('Error marking watching feed as read:', error);
+
+      if (error instanceof Error) {
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  private getLocale(c: Context): ActivityLocale {
+    return resolveActivityLocale(c.req.query('locale') || c.req.header('Accept-Language'));
+  }
+
+  private mapFeedToResponse(page: ActivityFeedPage, locale: ActivityLocale): ActivityFeedResponseDto {
+    return {
+      activities: page.entries.map(({ activity, actor }) => ({
+        id: activity.id,
+        action: activity.action,
+        entityType: activity.entityType,
+        entityId: activity.entityId,
+        entityTitle: activity.entityTitle,
+        message: renderActivity(activity, locale),
+        description: activity.description,
+        data: activity.data,
+        userId: activity.userId,
+        boardId: activity.boardId,
+        cardId: activity.cardId,
+        createdAt: activity.createdAt.toISOString(),
+        actor,
+      })),
+      nextCursor: page.nextCursor ?? null,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,217 @@
+import { Context } from 'hono';
+import { UploadAttachmentUseCase } from '@kanban/use-cases';
+import { GetCardAttachmentsUseCase } from '@kanban/use-cases';
+import { DownloadAttachmentUseCase } from '@kanban/use-cases';
+import { DeleteAttachmentUseCase } from '@kanban/use-cases';
+import { AttachmentResponseDto, AttachmentListResponseDto } from '@/interfaces/http/dto/AttachmentDto';
+import { Attachment } from '@kanban/domain-core';
+
+export class AttachmentController {
+  constructor(
+    private uploadAttachmentUseCase: UploadAttachmentUseCase,
+    private getCardAttachmentsUseCase: GetCardAttachmentsUseCase,
+    private downloadAttachmentUseCase: DownloadAttachmentUseCase,
+    private deleteAttachmentUseCase: DeleteAttachmentUseCase
+  ) {}
+
+  async uploadAttachment(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      // Parse multipart body
+      const body = await c.req.parseBody();
+      const file = body['file'];
+
+      if (!(file instanceof File)) {
+        return c.json({
+          error: 'Validation failed',
+          details: [{ field: 'file', message: 'file is required' }]
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.uploadAttachmentUseCase.execute({
+        cardId,
+        userId,
+        filename: file.name,
+        mimeType: file.type,
+        data: new Uint8Array(await file.arrayBuffer()),
+      });
+
+      // Return response
+      const response: AttachmentResponseDto = this.mapAttachmentToResponse(result.attachment);
+      return c.json(response, 201);
+
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found') {
+          return c.json({ error: 'Card not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        if (error.message === 'File is too large') {
+          return c.json({ error: error.message }, 413);
+        }
+        if (error.message === 'File type not allowed') {
+          return c.json({ error: error.message }, 415);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async getCardAttachments(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      // Execute use case
+      const result = await this.getCardAttachmentsUseCase.execute({
+        cardId,
+        userId,
+      });
+
+      // Return response
+      const response: AttachmentListResponseDto = {
+        attachments: result.attachments.map(attachment => this.mapAttachmentToResponse(attachment)),
+      };
+      return c.json(response);
+
+    } catch (error) {
+      console.error('Error getting card attachments:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found') {
+          return c.json({ error: 'Card not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async downloadAttachment(c: Context) {
+    try {
+      const attachmentId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!attachmentId) {
+        return c.json({ error: 'Attachment ID is required' }, 400);
+      }
+
+      // Execute use case
+      const result = await this.downloadAttachmentUseCase.execute({
+        attachmentId,
+        userId,
+      });
+
+      // Images are shown inline, everything else is downloaded
+      const disposition = result.attachment.isImage() ? 'inline' : 'attachment';
+      return c.body(result.data, 200, {
+        'Content-Type': result.attachment.mimeType,
+        'Content-Length': String(result.data.byteLength),
+        'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(result.attachment.filename)}`,
+        'X-Content-Type-Options': 'nosniff',
+      });
+
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Attachment not found' || error.message === 'Attachment file not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async deleteAttachment(c: Context) {
+    try {
+      const attachmentId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!attachmentId) {
+        return c.json({ error: 'Attachment ID is required' }, 400);
+      }
+
+      // Execute use case
+      await this.deleteAttachmentUseCase.execute({
+        attachmentId,
+        userId,
+      });
+
+      // Return success response
+      return c.json({ message: 'Attachment deleted successfully' }, 200);
+
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Attachment not found') {
+          return c.json({ error: 'Attachment not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  private mapAttachmentToResponse(attachment: Attachment): AttachmentResponseDto {
+    const attachmentData = attachment.toJSON();
+    return {
+      id: attachmentData.id,
+      filename: attachmentData.filename,
+      mimeType: attachmentData.mimeType,
+      size: attachmentData.size,
+      cardId: attachmentData.cardId,
+      uploaderId: attachmentData.uploaderId,
+      isImage: attachment.isImage(),
+      downloadUrl: `/api/attachments/${attachmentData.id}/download`,
+      createdAt: attachmentData.createdAt.toISOString(),
+    };
+  }
+}
\ No newline at end of file
@@ -2,15 +2,19 @@ import { Context } from 'hono';
 import { LogoutUserUseCase } from '@kanban/use-cases';
 import { GetUserProfileUseCase } from '@kanban/use-cases';
 import { UpdateUserProfileUseCase } from '@kanban/use-cases';
+import { RegenerateCalendarTokenUseCase } from '@kanban/use-cases';
+import { RevokeCalendarTokenUseCase } from '@kanban/use-cases';
 import { AuthValidator } from '@/application/validators/AuthValidator';
-import { UserResponseDto } from '@/interfaces/http/dto/UserDto';
+import { CalendarTokenResponseDto, UserResponseDto } from '@/interfaces/http/dto/UserDto';
 import { User } from '@kanban/domain-core';
 
 export class AuthController {
   constructor(
     private logoutUserUseCase: LogoutUserUseCase,
     private getUserProfileUseCase: GetUserProfileUseCase,
-    private updateUserProfileUseCase: UpdateUserProfileUseCase
+    private updateUserProfileUseCase: UpdateUserProfileUseCase,
+    private regenerateCalendarTokenUseCase: RegenerateCalendarTokenUseCase,
+    private revokeCalendarTokenUseCase: RevokeCalendarTokenUseCase
   ) {}
 
 
@@ -110,6 +114,61 @@ export class AuthController {
     }
   }
 
+  async regenerateCalendarToken(c: Context) {
+    try {
+      const userId = c.get('userId');
+      if (!userId) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      // Execute use case
+      const result = await this.regenerateCalendarTokenUseCase.execute({ userId });
+
+      // Return response
+      const response: CalendarTokenResponseDto = { calendarToken: result.calendarToken };
+      return c.json(response);
+
+    } catch (error) {
+      console.error('Error regenerating calendar token:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'User not found') {
+          return c.json({ error: 'User not found' }, 404);
+        }
+        if (error.message === 'Cannot update profile for inactive user') {
+          return c.json({ error: 'Account is inactive' }, 403);
+        }
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async revokeCalendarToken(c: Context) {
+    try {
+      const userId = c.get('userId');
+      if (!userId) {
+        return c.json({ error: 'Authentication required' }, 401);
+      }
+
+      // Execute use case
+      await this.revokeCalendarTokenUseCase.execute({ userId });
+
+      // Return response
+      return c.body(null, 204);
+
+    } catch (error) {
+      console.error('Error revoking calendar token:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'User not found') {
+          return c.json({ error: 'User not found' }, 404);
+        }
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
 
   private mapUserToResponse(user: User): UserResponseDto {
     const userData = user.toJSON();
@@ -119,6 +178,8 @@ export class AuthController {
       username: userData.username,
       name: userData.name,
       avatarUrl: userData.avatarUrl,
+      reminderLeadMinutes: userData.reminderLeadMinutes ?? null,
+      calendarToken: userData.calendarToken ?? null,
       isActive: userData.isActive,
       createdAt: userData.createdAt.toISOString(),
       updatedAt: userData.updatedAt.toISOString(),
@@ -7,8 +7,15 @@ import { GetUserBoardsUseCase } from '@kanban/use-cases';
 import { AddBoardMemberUseCase } from '@kanban/use-cases';
 import { UpdateMemberRoleUseCase } from '@kanban/use-cases';
 import { RemoveBoardMemberUseCase } from '@kanban/use-cases';
+import { GetBoardMembersUseCase } from '@kanban/use-cases';
+import { CopyBoardUseCase } from '@kanban/use-cases';
+import { ExportBoardUseCase } from '@kanban/use-cases';
+import { ImportBoardUseCase } from '@kanban/use-cases';
+import { ImportTrelloBoardUseCase } from '@kanban/use-cases';
+import { ExportCardsCsvUseCase } from '@kanban/use-cases';
+import { ImportCardsCsvUseCase } from '@kanban/use-cases';
 import { BoardValidator } from '@/application/validators/BoardValidator';
-import { BoardResponseDto } from '@/interfaces/http/dto/BoardDto';
+import { BoardResponseDto, BoardImportResponseDto, BoardMemberResponseDto, TrelloImportResponseDto, CardCsvImportResponseDto } from '@/interfaces/http/dto/BoardDto';
 import { Board } from '@kanban/domain-core';
 
 export class BoardController {
@@ -20,7 +27,14 @@ export class BoardController {
     private getUserBoardsUseCase: GetUserBoardsUseCase,
     private addBoardMemberUseCase: AddBoardMemberUseCase,
     private updateMemberRoleUseCase: UpdateMemberRoleUseCase,
-    private removeBoardMemberUseCase: RemoveBoardMemberUseCase
+    private removeBoardMemberUseCase: RemoveBoardMemberUseCase,
+    private getBoardMembersUseCase: GetBoardMembersUseCase,
+    private copyBoardUseCase: CopyBoardUseCase,
+    private exportBoardUseCase: ExportBoardUseCase,
+    private importBoardUseCase: ImportBoardUseCase,
+    private importTrelloBoardUseCase: ImportTrelloBoardUseCase,
+    private exportCardsCsvUseCase: ExportCardsCsvUseCase,
+    private importCardsCsvUseCase: ImportCardsCsvUseCase
   ) {}
 
   async createBoard(c: Context) {
@@ -56,6 +70,12 @@ export class BoardController {
       console.error('Error creating board:', error);
       
       if (error instanceof Error) {
+        if (error.message === 'Template not found') {
+          return c.json({ error: 'Template not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
         return c.json({ error: error.message }, 400);
       }
       
@@ -63,6 +83,276 @@ export class BoardController {
     }
   }
 
+  async copyBoard(c: Context) {
+    try {
+      const boardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!boardId) {
+        return c.json({ error: 'Board ID is required' }, 400);
+      }
+
+      // Every field is optional, so an empty body is fine
+      const body = await c.req.json().catch(() => ({}));
+      const validation = BoardValidator.validateCopyBoard(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.copyBoardUseCase.execute({
+        boardId,
+        userId,
+        ...validation.data!,
+      });
+
+      // Return response
+      const response: BoardResponseDto = this.mapBoardToResponse(result.board, 'OWNER');
+      return c.json(response, 201);
+
+    } catch (error) {
+      console.error('Error copying board:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Board not found') {
+          return c.json({ error: 'Board not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async exportBoard(c: Context) {
+    try {
+      const boardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!boardId) {
+        return c.json({ error: 'Board ID is required' }, 400);
+      }
+
+      // Execute use case
+      const result = await this.exportBoardUseCase.execute({ boardId, userId });
+
+      // Return response
+      c.header('Content-Disposition', `attachment; filename="board-${boardId}.json"`);
+      return c.json(result.document);
+
+    } catch (error) {
+      console.error('Error exporting board:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Board not found') {
+          return c.json({ error: 'Board not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async importBoard(c: Context) {
+    try {
+      const userId = c.get('userId');
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // The export document is checked field by field by the use case
+      const body = await c.req.json().catch(() => null);
+
+      // Execute use case
+      const result = await this.importBoardUseCase.execute({ userId, document: body });
+
+      // Return response
+      const response: BoardImportResponseDto = {
+        board: this.mapBoardToResponse(result.board, 'OWNER'),
+        matchedMembers: result.matchedMembers.map(match => ({
+          userId: match.userId,
+          email: match.member.email,
+          username: match.member.username,
+          name: match.member.name,
+          suggestedRole: match.suggestedRole,
+        })),
+        unmatchedMembers: result.unmatchedMembers.map(member => ({
+          email: member.email,
+          username: member.username,
+          name: member.name,
+        })),
+      };
+      return c.json(response, 201);
+
+    } catch (error) {
+      console.error('Error importing board:', error);
+
+      if (error instanceof Error) {
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async importTrelloBoard(c: Context) {
+    try {
+      const userId = c.get('userId');
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      const validation = BoardValidator.validateTrelloImportQuery(c.req.query());
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // The Trello export is checked by the use case
+      const body = await c.req.json().catch(() => null);
+
+      // Execute use case
+      const result = await this.importTrelloBoardUseCase.execute({
+        userId,
+        trello: body,
+        dryRun: validation.data!.dryRun,
+      });
+
+      // Return response
+      const response: TrelloImportResponseDto = {
+        report: result.report,
+        board: result.board ? this.mapBoardToResponse(result.board, 'OWNER') : undefined,
+      };
+      return c.json(response, result.board ? 201 : 200);
+
+    } catch (error) {
+      console.error('Error importing Trello board:', error);
+
+      if (error instanceof Error) {
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async exportCardsCsv(c: Context) {
+    try {
+      const boardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!boardId) {
+        return c.json({ error: 'Board ID is required' }, 400);
+      }
+
+      const validation = BoardValidator.validateCardCsvExportQuery(c.req.query());
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.exportCardsCsvUseCase.execute({
+        boardId,
+        userId,
+        columns: validation.data!.columns,
+      });
+
+      // Return response
+      return c.body(result.csv, 200, {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="board-${boardId}-cards.csv"`,
+      });
+
+    } catch (error) {
+      console.error('Error exporting cards as CSV:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Board not found') {
+          return c.json({ error: 'Board not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async importCardsCsv(c: Context) {
+    try {
+      const boardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!boardId) {
+        return c.json({ error: 'Board ID is required' }, 400);
+      }
+
+      // The body is the CSV file itself; its rows are checked by the use case
+      const csv = await c.req.text();
+
+      // Execute use case
+      const result = await this.importCardsCsvUseCase.execute({ boardId, userId, csv });
+
+      // Return response
+      const response: CardCsvImportResponseDto = {
+        created: result.cards.length,
+        errors: result.errors,
+      };
+      return c.json(response, result.errors.length > 0 ? 200 : 201);
+
+    } catch (error) {
+      console.error('Error importing cards from CSV:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Board not found') {
+          return c.json({ error: 'Board not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
   async getBoard(c: Context) {
     try {
       const boardId = c.req.param('id');
@@ -248,6 +538,68 @@ export class BoardController {
     }
   }
 
+  async getMembers(c: Context) {
+    try {
+      const boardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!boardId) {
+        return c.json({ error: 'Board ID is required' }, 400);
+      }
+
+      // Validate query parameters
+      const validation = BoardValidator.validateMemberQuery(c.req.query());
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.getBoardMembersUseCase.execute({
+        boardId,
+        userId,
+        role: validation.data!.role,
+      });
+
+      // Return response
+      const response: BoardMemberResponseDto[] = result.members.map(member => ({
+        userId: member.userId,
+        boardId,
+        role: member.role,
+        joinedAt: member.joinedAt.toISOString(),
+        user: {
+          id: member.user.id,
+          username: member.user.username,
+          name: member.user.name,
+          avatarUrl: member.user.avatarUrl,
+        },
+      }));
+      return c.json(response);
+
+    } catch (error) {
+      console.error('Error getting board members:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Board not found') {
+          return c.json({ error: 'Board not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
   async addMember(c: Context) {
     try {
       const boardId = c.req.param('id');
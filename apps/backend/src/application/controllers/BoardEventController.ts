@@ -0,0 +1,71 @@
+import { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { BoardEvent } from '@kanban/domain-core';
+import { SubscribeToBoardEventsUseCase } from '@kanban/use-cases';
+
+// Proxies and load balancers drop connections that stay silent for too long
+const KEEP_ALIVE_INTERVAL_MS = 25_000;
+
+export class BoardEventController {
+  constructor(
+    private subscribeToBoardEventsUseCase: SubscribeToBoardEventsUseCase
+  ) {}
+
+  async streamBoardEvents(c: Context) {
+    try {
+      const boardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!boardId) {
+        return c.json({ error: 'Board ID is required' }, 400);
+      }
+
+      // Subscribe before opening the stream so access errors still get a status code
+      let send: ((event: BoardEvent) => void) | undefined;
+      const { unsubscribe } = await this.subscribeToBoardEventsUseCase.execute({
+        boardId,
+        userId,
+        listener: (event) => send?.(event),
+      });
+
+      return streamSSE(c, async (stream) => {
+        stream.onAbort(unsubscribe);
+
+        send = (event) => {
+          stream.writeSSE({ event: event.type, data: JSON.stringify(event) }).catch(unsubscribe);
+        };
+
+        await stream.writeSSE({ event: 'ready', data: JSON.stringify({ boardId }) });
+
+        while (!stream.aborted && !stream.closed) {
+          await stream.sleep(KEEP_ALIVE_INTERVAL_MS);
+          await stream.writeSSE({ event: 'ping', data: '' });
+        }
+
+        unsubscribe();
+      }, async (error) => {
+        console.error('Error streaming board events:', error);
+        unsubscribe();
+      });
+
+    } catch (error) {
+      console.error('Error subscribing to board events:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Board not found') {
+          return c.json({ error: 'Board not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+}
\ No newline at end of file
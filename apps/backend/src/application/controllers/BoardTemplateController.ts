@@ -0,0 +1,135 @@
+import { Context } from 'hono';
+import { SaveBoardAsTemplateUseCase } from '@kanban/use-cases';
+import { GetUserBoardTemplatesUseCase } from '@kanban/use-cases';
+import { DeleteBoardTemplateUseCase } from '@kanban/use-cases';
+import { BoardTemplate } from '@kanban/domain-core';
+import { BoardTemplateValidator } from '@/application/validators/BoardTemplateValidator';
+import { BoardTemplateResponseDto } from '@/interfaces/http/dto/BoardTemplateDto';
+
+export class BoardTemplateController {
+  constructor(
+    private saveBoardAsTemplateUseCase: SaveBoardAsTemplateUseCase,
+    private getUserBoardTemplatesUseCase: GetUserBoardTemplatesUseCase,
+    private deleteBoardTemplateUseCase: DeleteBoardTemplateUseCase
+  ) {}
+
+  async getTemplates(c: Context) {
+    try {
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Execute use case
+      const result = await this.getUserBoardTemplatesUseCase.execute({ userId });
+
+      // Return response
+      return c.json(result.templates.map(template => this.mapTemplateToResponse(template)));
+
+    } catch (error) {
+      console.error('Error getting board templates:', error);
+
+      if (error instanceof Error) {
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async createTemplate(c: Context) {
+    try {
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = BoardTemplateValidator.validateCreateTemplate(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.saveBoardAsTemplateUseCase.execute({
+        ...validation.data!,
+        userId,
+      });
+
+      // Return response
+      return c.json(this.mapTemplateToResponse(result.template), 201);
+
+    } catch (error) {
+      console.error('Error saving board template:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Board not found') {
+          return c.json({ error: 'Board not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async deleteTemplate(c: Context) {
+    try {
+      const templateId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!templateId) {
+        return c.json({ error: 'Template ID is required' }, 400);
+      }
+
+      // Execute use case
+      await this.deleteBoardTemplateUseCase.execute({ templateId, userId });
+
+      // Return success response
+      return c.json({ message: 'Template deleted successfully' }, 200);
+
+    } catch (error) {
+      console.error('Error deleting board template:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Template not found') {
+          return c.json({ error: 'Template not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  private mapTemplateToResponse(template: BoardTemplate): BoardTemplateResponseDto {
+    return {
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      sourceBoardId: template.sourceBoardId,
+      lists: template.blueprint.lists.map(list => list.title),
+      labelCount: template.blueprint.labels.length,
+      cardCount: template.cardCount,
+      createdAt: template.createdAt.toISOString(),
+      updatedAt: template.updatedAt.toISOString(),
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { Context } from 'hono';
+import { GetCalendarFeedUseCase } from '@kanban/use-cases';
+
+// The token is the only credential, so an unknown token and a board the
+// user cannot see look the same from outside
+const NOT_FOUND_ERRORS = ['Calendar feed not found', 'Board not found', 'Access denied'];
+
+export class CalendarController {
+  constructor(
+    private getCalendarFeedUseCase: GetCalendarFeedUseCase
+  ) {}
+
+  async getUserFeed(c: Context) {
+    return this.getFeed(c);
+  }
+
+  async getBoardFeed(c: Context) {
+    const boardId = c.req.param('boardId');
+    if (!boardId) {
+      return c.json({ error: 'Board ID is required' }, 400);
+    }
+
+    return this.getFeed(c, boardId);
+  }
+
+  private async getFeed(c: Context, boardId?: string) {
+    try {
+      const token = c.req.param('token') ?? '';
+
+      // Execute use case
+      const result = await this.getCalendarFeedUseCase.execute({ token, boardId });
+
+      // Return response
+      return c.body(result.calendar, 200, {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=300',
+      });
+
+    } catch (error) {
+      console.error('Error getting calendar feed:', error);
+
+      if (error instanceof Error && NOT_FOUND_ERRORS.includes(error.message)) {
+        return c.json({ error: 'Calendar feed not found' }, 404);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+}
\ No newline at end of file
@@ -8,9 +8,15 @@ import { GetListCards } from '@kanban/use-cases';
 import { ArchiveCard } from '@kanban/use-cases';
 import { UnarchiveCard } from '@kanban/use-cases';
 import { ReorderCards } from '@kanban/use-cases';
+import { GetChecklistProgressUseCase } from '@kanban/use-cases';
+import { GetLabelsForCardsUseCase } from '@kanban/use-cases';
+import { GetWatchedCardsUseCase } from '@kanban/use-cases';
 import { CardValidator } from '@/application/validators/CardValidator';
-import { CardResponseDto, CardListResponseDto } from '@/interfaces/http/dto/CardDto';
+import { CardResponseDto, CardListResponseDto, PlacedCardResponseDto } from '@/interfaces/http/dto/CardDto';
 import { Card } from '@kanban/domain-core';
+import { BusinessRuleViolationError } from '@kanban/domain-core';
+import { ChecklistProgress } from '@kanban/domain-core';
+import { Label } from '@kanban/domain-core';
 
 export class CardController {
   constructor(
@@ -22,7 +28,10 @@ export class CardController {
     private getListCardsUseCase: GetListCards,
     private archiveCardUseCase: ArchiveCard,
     private unarchiveCardUseCase: UnarchiveCard,
-    private reorderCardsUseCase: ReorderCards
+    private reorderCardsUseCase: ReorderCards,
+    private getChecklistProgressUseCase: GetChecklistProgressUseCase,
+    private getLabelsForCardsUseCase: GetLabelsForCardsUseCase,
+    private getWatchedCardsUseCase: GetWatchedCardsUseCase
   ) {}
 
   async createCard(c: Context) {
@@ -56,18 +65,26 @@ export class CardController {
         description: cardData.description,
         listId,
         creatorId: userId,
-        assigneeId: cardData.assigneeId,
+        assigneeIds: cardData.assigneeIds,
         dueDate: cardData.dueDate ? new Date(cardData.dueDate) : undefined,
         startDate: cardData.startDate ? new Date(cardData.startDate) : undefined,
       });
 
       // Return response
-      const response: CardResponseDto = this.mapCardToResponse(result.card);
+      // The creator always starts out watching a new card
+      const response: PlacedCardResponseDto = {
+        ...this.mapCardToResponse(result.card, true),
+        ...(result.overWipLimit && { overWipLimit: true }),
+      };
       return c.json(response, 201);
 
     } catch (error) {
       console.error('Error creating card:', error);
       
+      // A list in strict mode that has reached its WIP limit
+      if (error instanceof BusinessRuleViolationError) {
+        return c.json({ error: error.message }, 422);
+      }
       if (error instanceof Error) {
         if (error.message === 'List not found') {
           return c.json({ error: 'List not found' }, 404);
@@ -99,7 +116,7 @@ export class CardController {
       const card = await this.getCardUseCase.execute(cardId, userId);
       
       // Return response
-      const response: CardResponseDto = this.mapCardToResponse(card);
+      const [response] = await this.mapCardsToResponse([card], userId);
       return c.json(response);
 
     } catch (error) {
@@ -132,22 +149,23 @@ export class CardController {
         }, 400);
       }
 
-      // Execute use case
+      // Execute use case; only dates sent as null are cleared
+      const { dueDate, startDate } = validation.data!;
       const updatedCard = await this.updateCardUseCase.execute(
         cardId,
         userId,
         {
           title: validation.data!.title,
           description: validation.data!.description,
-          dueDate: validation.data!.dueDate ? new Date(validation.data!.dueDate) : null,
-          startDate: validation.data!.startDate ? new Date(validation.data!.startDate) : null,
-          assignedToId: validation.data!.assigneeId,
+          dueDate: dueDate === undefined ? undefined : dueDate ? new Date(dueDate) : null,
+          startDate: startDate === undefined ? undefined : startDate ? new Date(startDate) : null,
+          assigneeIds: validation.data!.assigneeIds,
           archived: validation.data!.isArchived,
         }
       );
       
       // Return response
-      const response: CardResponseDto = this.mapCardToResponse(updatedCard);
+      const [response] = await this.mapCardsToResponse([updatedCard], userId);
       return c.json(response);
 
     } catch (error) {
@@ -181,7 +199,7 @@ export class CardController {
       }
 
       // Execute use case
-      const movedCard = await this.moveCardUseCase.execute(
+      const result = await this.moveCardUseCase.execute(
         cardId,
         userId,
         validation.data!.listId,
@@ -189,11 +207,81 @@ export class CardController {
       );
       
       // Return response
-      const response: CardResponseDto = this.mapCardToResponse(movedCard);
+      const [card] = await this.mapCardsToResponse([result.card], userId);
+      const response: PlacedCardResponseDto = {
+        ...card!,
+        ...(result.overWipLimit && { overWipLimit: true }),
+      };
       return c.json(response);
 
     } catch (error) {
       console.error('Error moving card:', error);
+
+      if (error instanceof BusinessRuleViolationError) {
+        return c.json({ error: error.message }, 422);
+      }
+      if (error instanceof Error) {
+        if (error.message.endsWith('not found')) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message.includes('permission')) {
+          return c.json({ error: error.message }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async reorderCard(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+      
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = CardValidator.validateReorderCard(body);
+      
+      if (!validation.success) {
+        return c.json({ 
+          error: 'Validation failed', 
+          details: validation.errors 
+        }, 400);
+      }
+
+      // Execute use case
+      await this.reorderCardsUseCase.execute(
+        validation.data!.listId,
+        userId,
+        cardId,
+        validation.data!.position
+      );
+
+      // Return 200 OK on successful reorder
+      return c.json({ message: 'Card reordered successfully' });
+
+    } catch (error) {
+      console.error('Error reordering card:', error);
+
+      if (error instanceof Error) {
+        if (error.message.endsWith('not found')) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message.includes('permission')) {
+          return c.json({ error: error.message }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
       return c.json({ error: 'Internal server error' }, 500);
     }
   }
@@ -251,7 +339,7 @@ export class CardController {
       const archivedCard = await this.archiveCardUseCase.execute(cardId, userId);
       
       // Return response
-      const response: CardResponseDto = this.mapCardToResponse(archivedCard);
+      const [response] = await this.mapCardsToResponse([archivedCard], userId);
       return c.json(response);
 
     } catch (error) {
@@ -291,12 +379,16 @@ export class CardController {
       const unarchivedCard = await this.unarchiveCardUseCase.execute(cardId, userId);
       
       // Return response
-      const response: CardResponseDto = this.mapCardToResponse(unarchivedCard);
+      const [response] = await this.mapCardsToResponse([unarchivedCard], userId);
       return c.json(response);
 
     } catch (error) {
       console.error('Error unarchiving card:', error);
       
+      // A list in strict mode that has reached its WIP limit
+      if (error instanceof BusinessRuleViolationError) {
+        return c.json({ error: error.message }, 422);
+      }
       if (error instanceof Error) {
         if (error.message === 'Card not found') {
           return c.json({ error: 'Card not found' }, 404);
@@ -332,7 +424,7 @@ export class CardController {
       
       // Return response
       const response: CardListResponseDto = {
-        cards: cards.map(card => this.mapCardToResponse(card)),
+        cards: await this.mapCardsToResponse(cards, userId),
         total: cards.length
       };
       return c.json(response);
@@ -354,7 +446,27 @@ export class CardController {
     }
   }
 
-  private mapCardToResponse(card: Card): CardResponseDto {
+  private async mapCardsToResponse(cards: Card[], userId: string): Promise<CardResponseDto[]> {
+    const cardIds = cards.map(card => card.id);
+    const [{ progress }, { labels }, { watchedCardIds }] = await Promise.all([
+      this.getChecklistProgressUseCase.execute({ cardIds }),
+      this.getLabelsForCardsUseCase.execute({ cardIds }),
+      this.getWatchedCardsUseCase.execute({ userId, cardIds }),
+    ]);
+    return cards.map(card => this.mapCardToResponse(
+      card,
+      watchedCardIds.has(card.id),
+      progress.get(card.id),
+      labels.get(card.id)
+    ));
+  }
+
+  private mapCardToResponse(
+    card: Card,
+    isWatching: boolean,
+    checklistProgress?: ChecklistProgress,
+    labels: Label[] = []
+  ): CardResponseDto {
     const cardData = card.toJSON();
     return {
       id: cardData.id,
@@ -367,10 +479,24 @@ export class CardController {
       coverUrl: cardData.coverUrl,
       listId: cardData.listId,
       creatorId: cardData.creatorId,
-      assigneeId: cardData.assigneeId,
+      assigneeIds: cardData.assigneeIds,
       createdAt: cardData.createdAt.toISOString(),
       updatedAt: cardData.updatedAt.toISOString(),
       isOverdue: cardData.dueDate ? new Date() > cardData.dueDate : false,
+      isWatching,
+      checklistProgress: checklistProgress && checklistProgress.total > 0
+        ? { ...checklistProgress, display: `${checklistProgress.completed}/${checklistProgress.total}` }
+        : undefined,
+      labels: labels.map(label => {
+        const labelData = label.toJSON();
+        return {
+          id: labelData.id,
+          name: labelData.name,
+          color: labelData.color,
+          boardId: labelData.boardId,
+          createdAt: labelData.createdAt.toISOString(),
+        };
+      }),
     };
   }
 }
\ No newline at end of file
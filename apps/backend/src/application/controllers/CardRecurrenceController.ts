@@ -0,0 +1,141 @@
+import { Context } from 'hono';
+import { CardRecurrence } from '@kanban/domain-core';
+import { SetCardRecurrenceUseCase } from '@kanban/use-cases';
+import { GetCardRecurrenceUseCase } from '@kanban/use-cases';
+import { DeleteCardRecurrenceUseCase } from '@kanban/use-cases';
+import { CardRecurrenceValidator } from '@/application/validators/CardRecurrenceValidator';
+import { CardRecurrenceResponseDto } from '@/interfaces/http/dto/CardRecurrenceDto';
+
+const NOT_FOUND_ERRORS = ['Card not found', 'List not found', 'Board not found', 'Recurrence not found'];
+
+export class CardRecurrenceController {
+  constructor(
+    private getCardRecurrenceUseCase: GetCardRecurrenceUseCase,
+    private setCardRecurrenceUseCase: SetCardRecurrenceUseCase,
+    private deleteCardRecurrenceUseCase: DeleteCardRecurrenceUseCase
+  ) {}
+
+  async getRecurrence(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Execute use case
+      const result = await this.getCardRecurrenceUseCase.execute({ cardId, userId });
+
+      // Return response; null when the card does not repeat
+      return c.json(result.recurrence && this.mapRecurrenceToResponse(result.recurrence));
+
+    } catch (error) {
+      console.error('Error getting card recurrence:', error);
+
+      if (error instanceof Error) {
+        if (NOT_FOUND_ERRORS.includes(error.message)) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async setRecurrence(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      const body = await c.req.json();
+      const validation = CardRecurrenceValidator.validateSetRecurrence(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors,
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.setCardRecurrenceUseCase.execute({
+        cardId,
+        userId,
+        rule: validation.data!.rule,
+        targetListId: validation.data!.targetListId ?? undefined,
+      });
+
+      // Return response
+      return c.json(this.mapRecurrenceToResponse(result.recurrence));
+
+    } catch (error) {
+      console.error('Error setting card recurrence:', error);
+
+      if (error instanceof Error) {
+        if (NOT_FOUND_ERRORS.includes(error.message)) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async deleteRecurrence(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Execute use case
+      await this.deleteCardRecurrenceUseCase.execute({ cardId, userId });
+
+      // Return success response
+      return c.json({ message: 'Recurrence deleted successfully' }, 200);
+
+    } catch (error) {
+      console.error('Error deleting card recurrence:', error);
+
+      if (error instanceof Error) {
+        if (NOT_FOUND_ERRORS.includes(error.message)) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  private mapRecurrenceToResponse(recurrence: CardRecurrence): CardRecurrenceResponseDto {
+    return {
+      id: recurrence.id,
+      cardId: recurrence.cardId,
+      rule: recurrence.rule,
+      targetListId: recurrence.targetListId ?? null,
+      nextRunAt: recurrence.nextRunAt.toISOString(),
+      lastRunAt: recurrence.lastRunAt?.toISOString(),
+      createdAt: recurrence.createdAt.toISOString(),
+      updatedAt: recurrence.updatedAt.toISOString(),
+    };
+  }
+}
\ No newline at end of file
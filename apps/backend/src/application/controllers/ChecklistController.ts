@@ -0,0 +1,689 @@
+import { Context } from 'hono';
+import { CreateChecklistUseCase } from '@kanban/use-cases';
+import { GetCardChecklistsUseCase } from '@kanban/use-cases';
+import { UpdateChecklistUseCase } from '@kanban/use-cases';
+import { DeleteChecklistUseCase } from '@kanban/use-cases';
+import { ReorderChecklistsUseCase } from '@kanban/use-cases';
+import { AddChecklistItemUseCase } from '@kanban/use-cases';
+import { UpdateChecklistItemUseCase } from '@kanban/use-cases';
+import { ToggleChecklistItemUseCase } from '@kanban/use-cases';
+import { DeleteChecklistItemUseCase } from '@kanban/use-cases';
+import { ReorderChecklistItemsUseCase } from '@kanban/use-cases';
+import { ConvertChecklistItemToCardUseCase } from '@kanban/use-cases';
+import { ChecklistValidator } from '@/application/validators/ChecklistValidator';
+import {
+  ChecklistResponseDto,
+  ChecklistWithItemsResponseDto,
+  ChecklistListResponseDto,
+  ChecklistItemResponseDto,
+  ConvertedCardResponseDto,
+} from '@/interfaces/http/dto/ChecklistDto';
+import { Checklist } from '@kanban/domain-core';
+import { ChecklistItem } from '@kanban/domain-core';
+import { BusinessRuleViolationError } from '@kanban/domain-core';
+
+export class ChecklistController {
+  constructor(
+    private createChecklistUseCase: CreateChecklistUseCase,
+    private getCardChecklistsUseCase: GetCardChecklistsUseCase,
+    private updateChecklistUseCase: UpdateChecklistUseCase,
+    private deleteChecklistUseCase: DeleteChecklistUseCase,
+    private reorderChecklistsUseCase: ReorderChecklistsUseCase,
+    private addChecklistItemUseCase: AddChecklistItemUseCase,
+    private updateChecklistItemUseCase: UpdateChecklistItemUseCase,
+    private toggleChecklistItemUseCase: ToggleChecklistItemUseCase,
+    private deleteChecklistItemUseCase: DeleteChecklistItemUseCase,
+    private reorderChecklistItemsUseCase: ReorderChecklistItemsUseCase,
+    private convertChecklistItemToCardUseCase: ConvertChecklistItemToCardUseCase
+  ) {}
+
+  async getCardChecklists(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      // Execute use case
+      const result = await this.getCardChecklistsUseCase.execute({
+        cardId,
+        userId,
+      });
+
+      // Return response
+      const response: ChecklistListResponseDto = {
+        checklists: result.checklists.map(({ checklist, items }) => this.mapChecklistWithItemsToResponse(checklist, items)),
+      };
+      return c.json(response);
+
+    } catch (error) {
+      console.error('Error getting card checklists:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async createChecklist(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = ChecklistValidator.validateCreateChecklist(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.createChecklistUseCase.execute({
+        cardId,
+        userId,
+        title: validation.data!.title,
+      });
+
+      // Return response
+      const response: ChecklistResponseDto = this.mapChecklistToResponse(result.checklist);
+      return c.json(response, 201);
+
+    } catch (error) {
+      console.error('Error creating checklist:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async reorderChecklists(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = ChecklistValidator.validateReorderChecklists(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      await this.reorderChecklistsUseCase.execute({
+        cardId,
+        checklistPositions: validation.data!.checklists,
+        userId,
+      });
+
+      // Return 200 OK on successful reorder
+      return c.json({ message: 'Checklists reordered successfully' });
+
+    } catch (error) {
+      console.error('Error reordering checklists:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async updateChecklist(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const checklistId = c.req.param('checklistId');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      if (!checklistId) {
+        return c.json({ error: 'Checklist ID is required' }, 400);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = ChecklistValidator.validateUpdateChecklist(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.updateChecklistUseCase.execute({
+        cardId,
+        checklistId,
+        userId,
+        title: validation.data!.title,
+      });
+
+      // Return response
+      const response: ChecklistResponseDto = this.mapChecklistToResponse(result.checklist);
+      return c.json(response);
+
+    } catch (error) {
+      console.error('Error updating checklist:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found' || error.message === 'Checklist not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async deleteChecklist(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const checklistId = c.req.param('checklistId');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      if (!checklistId) {
+        return c.json({ error: 'Checklist ID is required' }, 400);
+      }
+
+      // Execute use case
+      await this.deleteChecklistUseCase.execute({
+        cardId,
+        checklistId,
+        userId,
+      });
+
+      // Return success response
+      return c.json({ message: 'Checklist deleted successfully' }, 200);
+
+    } catch (error) {
+      console.error('Error deleting checklist:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found' || error.message === 'Checklist not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async addItem(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const checklistId = c.req.param('checklistId');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      if (!checklistId) {
+        return c.json({ error: 'Checklist ID is required' }, 400);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = ChecklistValidator.validateCreateItem(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.addChecklistItemUseCase.execute({
+        cardId,
+        checklistId,
+        userId,
+        content: validation.data!.content,
+      });
+
+      // Return response
+      const response: ChecklistItemResponseDto = this.mapItemToResponse(result.item);
+      return c.json(response, 201);
+
+    } catch (error) {
+      console.error('Error adding checklist item:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found' || error.message === 'Checklist not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async reorderItems(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const checklistId = c.req.param('checklistId');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      if (!checklistId) {
+        return c.json({ error: 'Checklist ID is required' }, 400);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = ChecklistValidator.validateReorderItems(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      await this.reorderChecklistItemsUseCase.execute({
+        cardId,
+        checklistId,
+        itemPositions: validation.data!.items,
+        userId,
+      });
+
+      // Return 200 OK on successful reorder
+      return c.json({ message: 'Checklist items reordered successfully' });
+
+    } catch (error) {
+      console.error('Error reordering checklist items:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found' || error.message === 'Checklist not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async updateItem(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const checklistId = c.req.param('checklistId');
+      const itemId = c.req.param('itemId');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      if (!checklistId) {
+        return c.json({ error: 'Checklist ID is required' }, 400);
+      }
+
+      if (!itemId) {
+        return c.json({ error: 'Checklist item ID is required' }, 400);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = ChecklistValidator.validateUpdateItem(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.updateChecklistItemUseCase.execute({
+        cardId,
+        checklistId,
+        itemId,
+        userId,
+        content: validation.data!.content,
+      });
+
+      // Return response
+      const response: ChecklistItemResponseDto = this.mapItemToResponse(result.item);
+      return c.json(response);
+
+    } catch (error) {
+      console.error('Error updating checklist item:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found' || error.message === 'Checklist not found' || error.message === 'Checklist item not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async toggleItem(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const checklistId = c.req.param('checklistId');
+      const itemId = c.req.param('itemId');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      if (!checklistId) {
+        return c.json({ error: 'Checklist ID is required' }, 400);
+      }
+
+      if (!itemId) {
+        return c.json({ error: 'Checklist item ID is required' }, 400);
+      }
+
+      // Parse and validate request body (optional for this endpoint)
+      const body = await c.req.json().catch(() => ({}));
+      const validation = ChecklistValidator.validateToggleItem(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.toggleChecklistItemUseCase.execute({
+        cardId,
+        checklistId,
+        itemId,
+        userId,
+        isCompleted: validation.data!.isCompleted,
+      });
+
+      // Return response
+      const response: ChecklistItemResponseDto = this.mapItemToResponse(result.item);
+      return c.json(response);
+
+    } catch (error) {
+      console.error('Error toggling checklist item:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found' || error.message === 'Checklist not found' || error.message === 'Checklist item not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async deleteItem(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const checklistId = c.req.param('checklistId');
+      const itemId = c.req.param('itemId');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      if (!checklistId) {
+        return c.json({ error: 'Checklist ID is required' }, 400);
+      }
+
+      if (!itemId) {
+        return c.json({ error: 'Checklist item ID is required' }, 400);
+      }
+
+      // Execute use case
+      await this.deleteChecklistItemUseCase.execute({
+        cardId,
+        checklistId,
+        itemId,
+        userId,
+      });
+
+      // Return success response
+      return c.json({ message: 'Checklist item deleted successfully' }, 200);
+
+    } catch (error) {
+      console.error('Error deleting checklist item:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found' || error.message === 'Checklist not found' || error.message === 'Checklist item not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async convertItemToCard(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const checklistId = c.req.param('checklistId');
+      const itemId = c.req.param('itemId');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      if (!checklistId) {
+        return c.json({ error: 'Checklist ID is required' }, 400);
+      }
+
+      if (!itemId) {
+        return c.json({ error: 'Checklist item ID is required' }, 400);
+      }
+
+      // Parse and validate request body (optional for this endpoint)
+      const body = await c.req.json().catch(() => ({}));
+      const validation = ChecklistValidator.validateConvertItem(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.convertChecklistItemToCardUseCase.execute({
+        cardId,
+        checklistId,
+        itemId,
+        userId,
+        listId: validation.data!.listId,
+      });
+
+      // Return the new card's identity; clients fetch the full card via /api/cards/:id
+      const response: ConvertedCardResponseDto = {
+        id: result.card.id,
+        title: result.card.title,
+        listId: result.card.listId,
+        position: result.card.position,
+      };
+      return c.json(response, 201);
+
+    } catch (error) {
+      console.error('Error converting checklist item:', error);
+
+      // A list in strict mode that has reached its WIP limit
+      if (error instanceof BusinessRuleViolationError) {
+        return c.json({ error: error.message }, 422);
+      }
+      if (error instanceof Error) {
+        if (error.message === 'Card not found' || error.message === 'Checklist not found' || error.message === 'Checklist item not found' || error.message === 'List not found') {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  private mapChecklistToResponse(checklist: Checklist): ChecklistResponseDto {
+    const checklistData = checklist.toJSON();
+    return {
+      id: checklistData.id,
+      title: checklistData.title,
+      position: checklistData.position,
+      cardId: checklistData.cardId,
+      createdAt: checklistData.createdAt.toISOString(),
+      updatedAt: checklistData.updatedAt.toISOString(),
+    };
+  }
+
+  private mapChecklistWithItemsToResponse(checklist: Checklist, items: ChecklistItem[]): ChecklistWithItemsResponseDto {
+    return {
+      ...this.mapChecklistToResponse(checklist),
+      items: items.map(item => this.mapItemToResponse(item)),
+      completedCount: items.filter(item => item.isCompleted).length,
+      totalCount: items.length,
+    };
+  }
+
+  private mapItemToResponse(item: ChecklistItem): ChecklistItemResponseDto {
+    const itemData = item.toJSON();
+    return {
+      id: itemData.id,
+      content: itemData.content,
+      isCompleted: itemData.isCompleted,
+      position: itemData.position,
+      completedAt: itemData.completedAt?.toISOString(),
+      checklistId: itemData.checklistId,
+      createdAt: itemData.createdAt.toISOString(),
+      updatedAt: itemData.updatedAt.toISOString(),
+    };
+  }
+}
\ No newline at end of file
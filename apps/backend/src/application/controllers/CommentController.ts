@@ -0,0 +1,224 @@
+import { Context } from 'hono';
+import { AddCommentUseCase } from '@kanban/use-cases';
+import { EditCommentUseCase } from '@kanban/use-cases';
+import { DeleteCommentUseCase } from '@kanban/use-cases';
+import { GetCardCommentsUseCase } from '@kanban/use-cases';
+import { CommentValidator } from '@/application/validators/CommentValidator';
+import { CommentResponseDto, CommentListResponseDto } from '@/interfaces/http/dto/CommentDto';
+import { Comment } from '@kanban/domain-core';
+
+export class CommentController {
+  constructor(
+    private addCommentUseCase: AddCommentUseCase,
+    private editCommentUseCase: EditCommentUseCase,
+    private deleteCommentUseCase: DeleteCommentUseCase,
+    private getCardCommentsUseCase: GetCardCommentsUseCase
+  ) {}
+
+  async addComment(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = CommentValidator.validateCreateComment(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.addCommentUseCase.execute({
+        cardId,
+        userId,
+        content: validation.data!.content,
+      });
+
+      // Return response
+      const response: CommentResponseDto = this.mapCommentToResponse(result.comment);
+      return c.json(response, 201);
+
+    } catch (error) {
+      console.error('Error adding comment:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found') {
+          return c.json({ error: 'Card not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async getCardComments(c: Context) {
+    try {
+      const cardId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!cardId) {
+        return c.json({ error: 'Card ID is required' }, 400);
+      }
+
+      // Get query parameters
+      const limit = c.req.query('limit') ? parseInt(c.req.query('limit')!) : undefined;
+      const offset = c.req.query('offset') ? parseInt(c.req.query('offset')!) : undefined;
+      const order = c.req.query('order') === 'desc' ? 'desc' : 'asc';
+
+      // Execute use case
+      const result = await this.getCardCommentsUseCase.execute({
+        cardId,
+        userId,
+        limit,
+        offset,
+        order,
+      });
+
+      // Return response
+      const response: CommentListResponseDto = {
+        comments: result.comments.map(comment => this.mapCommentToResponse(comment)),
+        total: result.total,
+      };
+      return c.json(response);
+
+    } catch (error) {
+      console.error('Error getting card comments:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Card not found') {
+          return c.json({ error: 'Card not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async editComment(c: Context) {
+    try {
+      const commentId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!commentId) {
+        return c.json({ error: 'Comment ID is required' }, 400);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = CommentValidator.validateUpdateComment(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.editCommentUseCase.execute({
+        commentId,
+        userId,
+        content: validation.data!.content,
+      });
+
+      // Return response
+      const response: CommentResponseDto = this.mapCommentToResponse(result.comment);
+      return c.json(response);
+
+    } catch (error) {
+      console.error('Error editing comment:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Comment not found') {
+          return c.json({ error: 'Comment not found' }, 404);
+        }
+        if (error.message === 'Access denied' || error.message === 'Only the author can edit this comment') {
+          return c.json({ error: error.message }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async deleteComment(c: Context) {
+    try {
+      const commentId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!commentId) {
+        return c.json({ error: 'Comment ID is required' }, 400);
+      }
+
+      // Execute use case
+      await this.deleteCommentUseCase.execute({
+        commentId,
+        userId,
+      });
+
+      // Return success response
+      return c.json({ message: 'Comment deleted successfully' }, 200);
+
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Comment not found') {
+          return c.json({ error: 'Comment not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  private mapCommentToResponse(comment: Comment): CommentResponseDto {
+    const commentData = comment.toJSON();
+    return {
+      id: commentData.id,
+      content: commentData.content,
+      cardId: commentData.cardId,
+      userId: commentData.userId,
+      isEdited: comment.isEdited(),
+      createdAt: commentData.createdAt.toISOString(),
+      updatedAt: commentData.updatedAt.toISOString(),
+    };
+  }
+}
\ No newline at end of file
@@ -306,6 +306,8 @@ export class ListController {
       title: listData.title,
       position: listData.position,
       color: listData.color,
+      wipLimit: listData.wipLimit,
+      wipLimitMode: list.wipLimitMode,
       boardId: listData.boardId,
       createdAt: listData.createdAt.toISOString(),
       updatedAt: listData.updatedAt.toISOString(),
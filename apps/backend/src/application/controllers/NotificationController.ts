@@ -0,0 +1,149 @@
+import { Context } from 'hono';
+import { Notification } from '@kanban/domain-core';
+import { GetNotificationsUseCase } from '@kanban/use-cases';
+import { MarkNotificationReadUseCase } from '@kanban/use-cases';
+import { MarkAllNotificationsReadUseCase } from '@kanban/use-cases';
+import { NotificationEntry } from '@kanban/use-cases';
+import { NotificationValidator } from '@/application/validators/NotificationValidator';
+import { NotificationResponseDto } from '@/interfaces/http/dto/NotificationDto';
+
+export class NotificationController {
+  constructor(
+    private getNotificationsUseCase: GetNotificationsUseCase,
+    private markNotificationReadUseCase: MarkNotificationReadUseCase,
+    private markAllNotificationsReadUseCase: MarkAllNotificationsReadUseCase
+  ) {}
+
+  async getNotifications(c: Context) {
+    try {
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Validate query parameters
+      const validation = NotificationValidator.validateQuery(c.req.query());
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      const query = validation.data!;
+
+      // Execute use case
+      const result = await this.getNotificationsUseCase.execute({
+        userId,
+        unreadOnly: query.unreadOnly,
+        cursor: query.cursor,
+        limit: query.limit,
+      });
+
+      // Return response
+      return c.json({
+        notifications: result.entries.map(entry => this.mapToResponse(entry)),
+        nextCursor: result.nextCursor ?? null,
+        unreadCount: result.unreadCount,
+      });
+
+    } catch (error) {
+      console.error('Error getting notifications:', error);
+
+      if (error instanceof Error) {
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async markRead(c: Context) {
+    try {
+      const notificationId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!notificationId) {
+        return c.json({ error: 'Notification ID is required' }, 400);
+      }
+
+      // Execute use case
+      const result = await this.markNotificationReadUseCase.execute({ notificationId, userId });
+
+      // Return response
+      return c.json({
+        notification: this.mapNotification(result.notification),
+        unreadCount: result.unreadCount,
+      });
+
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Notification not found') {
+          return c.json({ error: 'Notification not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async markAllRead(c: Context) {
+    try {
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Execute use case
+      const result = await this.markAllNotificationsReadUseCase.execute({ userId });
+
+      // Return response
+      return c.json({
+        updatedCount: result.updatedCount,
+        unreadCount: 0,
+      });
+
+    } catch (error) {
+      console.error('Error marking all notifications as read:', error);
+
+      if (error instanceof Error) {
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  private mapToResponse({ notification, actor }: NotificationEntry): NotificationResponseDto {
+    return {
+      ...this.mapNotification(notification),
+      actor,
+    };
+  }
+
+  private mapNotification(notification: Notification): Omit<NotificationResponseDto, 'actor'> {
+    return {
+      id: notification.id,
+      type: notification.type,
+      message: notification.message,
+      boardId: notification.boardId,
+      cardId: notification.cardId,
+      isRead: notification.isRead,
+      readAt: notification.readAt?.toISOString(),
+      createdAt: notification.createdAt.toISOString(),
+    };
+  }
+}
\ No newline at end of file
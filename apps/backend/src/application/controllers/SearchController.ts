@@ -0,0 +1,88 @@
+import { Context } from 'hono';
+import { SearchCardsUseCase } from '@kanban/use-cases';
+import { SearchCardsResponse } from '@kanban/use-cases';
+import { SearchValidator } from '@/application/validators/SearchValidator';
+import { SearchResponseDto } from '@/interfaces/http/dto/SearchDto';
+
+export class SearchController {
+  constructor(
+    private searchCardsUseCase: SearchCardsUseCase
+  ) {}
+
+  async search(c: Context) {
+    try {
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Validate query parameters
+      const validation = SearchValidator.validateQuery(c.req.query());
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      const query = validation.data!;
+
+      // Execute use case
+      const result = await this.searchCardsUseCase.execute({
+        userId,
+        query: query.q,
+        boardId: query.boardId,
+        listId: query.listId,
+        labelId: query.labelId,
+        assigneeId: query.assigneeId,
+        dueFrom: query.dueFrom ? new Date(query.dueFrom) : undefined,
+        dueTo: query.dueTo ? new Date(query.dueTo) : undefined,
+        limit: query.limit,
+        offset: query.offset,
+      });
+
+      // Return response
+      return c.json(this.mapToResponse(result));
+
+    } catch (error) {
+      console.error('Error searching cards:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Board not found') {
+          return c.json({ error: 'Board not found' }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  private mapToResponse(result: SearchCardsResponse): SearchResponseDto {
+    return {
+      results: result.results.map(hit => ({
+        card: {
+          id: hit.cardId,
+          title: hit.cardTitle,
+          dueDate: hit.dueDate?.toISOString(),
+        },
+        list: {
+          id: hit.listId,
+          title: hit.listTitle,
+        },
+        board: {
+          id: hit.boardId,
+          title: hit.boardTitle,
+        },
+        rank: hit.rank,
+        snippets: hit.snippets,
+      })),
+      hasMore: result.hasMore,
+    };
+  }
+}
\ No newline at end of file
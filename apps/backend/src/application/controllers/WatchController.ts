@@ -0,0 +1,85 @@
+import { Context } from 'hono';
+import { WatchTargetType } from '@kanban/domain-core';
+import { WatchUseCase } from '@kanban/use-cases';
+import { UnwatchUseCase } from '@kanban/use-cases';
+
+const NOT_FOUND_ERRORS = ['Card not found', 'List not found', 'Board not found'];
+
+export class WatchController {
+  constructor(
+    private watchUseCase: WatchUseCase,
+    private unwatchUseCase: UnwatchUseCase
+  ) {}
+
+  async watch(c: Context, targetType: WatchTargetType) {
+    try {
+      const targetId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!targetId) {
+        return c.json({ error: 'ID is required' }, 400);
+      }
+
+      // Execute use case
+      const result = await this.watchUseCase.execute({
+        userId,
+        target: { type: targetType, id: targetId },
+      });
+
+      // Return response
+      return c.json(result);
+
+    } catch (error) {
+      console.error('Error watching:', error);
+
+      if (error instanceof Error) {
+        if (NOT_FOUND_ERRORS.includes(error.message)) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async unwatch(c: Context, targetType: WatchTargetType) {
+    try {
+      const targetId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!targetId) {
+        return c.json({ error: 'ID is required' }, 400);
+      }
+
+      // Execute use case
+      const result = await this.unwatchUseCase.execute({
+        userId,
+        target: { type: targetType, id: targetId },
+      });
+
+      // Return response
+      return c.json(result);
+
+    } catch (error) {
+      console.error('Error unwatching:', error);
+
+      if (error instanceof Error) {
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+}
\ No newline at end of file
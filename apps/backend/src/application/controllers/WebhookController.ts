@@ -0,0 +1,295 @@
+import { Context } from 'hono';
+import { Webhook, WebhookDelivery } from '@kanban/domain-core';
+import { CreateWebhookUseCase } from '@kanban/use-cases';
+import { GetBoardWebhooksUseCase } from '@kanban/use-cases';
+import { UpdateWebhookUseCase } from '@kanban/use-cases';
+import { DeleteWebhookUseCase } from '@kanban/use-cases';
+import { GetWebhookDeliveriesUseCase } from '@kanban/use-cases';
+import { RedeliverWebhookDeliveryUseCase } from '@kanban/use-cases';
+import { WebhookValidator } from '@/application/validators/WebhookValidator';
+import { WebhookDeliveryResponseDto, WebhookResponseDto } from '@/interfaces/http/dto/WebhookDto';
+
+const NOT_FOUND_ERRORS = ['Board not found', 'Webhook not found', 'Webhook delivery not found'];
+
+export class WebhookController {
+  constructor(
+    private createWebhookUseCase: CreateWebhookUseCase,
+    private getBoardWebhooksUseCase: GetBoardWebhooksUseCase,
+    private updateWebhookUseCase: UpdateWebhookUseCase,
+    private deleteWebhookUseCase: DeleteWebhookUseCase,
+    private getWebhookDeliveriesUseCase: GetWebhookDeliveriesUseCase,
+    private redeliverWebhookDeliveryUseCase: RedeliverWebhookDeliveryUseCase
+  ) {}
+
+  async getWebhooks(c: Context) {
+    try {
+      const boardId = c.req.query('boardId');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      if (!boardId) {
+        return c.json({ error: 'boardId is required' }, 400);
+      }
+
+      // Execute use case
+      const result = await this.getBoardWebhooksUseCase.execute({ userId, boardId });
+
+      // Return response
+      return c.json(result.webhooks.map(webhook => this.mapWebhookToResponse(webhook)));
+
+    } catch (error) {
+      console.error('Error getting webhooks:', error);
+
+      if (error instanceof Error) {
+        if (NOT_FOUND_ERRORS.includes(error.message)) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async createWebhook(c: Context) {
+    try {
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = WebhookValidator.validateCreateWebhook(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.createWebhookUseCase.execute({
+        ...validation.data!,
+        userId,
+      });
+
+      // Return response; the secret is shown once, here
+      return c.json(this.mapWebhookToResponse(result.webhook, true), 201);
+
+    } catch (error) {
+      console.error('Error creating webhook:', error);
+
+      if (error instanceof Error) {
+        if (NOT_FOUND_ERRORS.includes(error.message)) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async updateWebhook(c: Context) {
+    try {
+      const webhookId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Parse and validate request body
+      const body = await c.req.json();
+      const validation = WebhookValidator.validateUpdateWebhook(body);
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.updateWebhookUseCase.execute({
+        ...validation.data!,
+        userId,
+        webhookId,
+      });
+
+      // Return response
+      return c.json(this.mapWebhookToResponse(result.webhook, validation.data!.rotateSecret === true));
+
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+
+      if (error instanceof Error) {
+        if (NOT_FOUND_ERRORS.includes(error.message)) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async deleteWebhook(c: Context) {
+    try {
+      const webhookId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Execute use case
+      await this.deleteWebhookUseCase.execute({ userId, webhookId });
+
+      // Return success response
+      return c.json({ message: 'Webhook deleted successfully' }, 200);
+
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+
+      if (error instanceof Error) {
+        if (NOT_FOUND_ERRORS.includes(error.message)) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async getDeliveries(c: Context) {
+    try {
+      const webhookId = c.req.param('id');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Validate query parameters
+      const validation = WebhookValidator.validateDeliveryQuery(c.req.query());
+
+      if (!validation.success) {
+        return c.json({
+          error: 'Validation failed',
+          details: validation.errors
+        }, 400);
+      }
+
+      // Execute use case
+      const result = await this.getWebhookDeliveriesUseCase.execute({
+        ...validation.data!,
+        userId,
+        webhookId,
+      });
+
+      // Return response
+      return c.json({
+        deliveries: result.deliveries.map(delivery => this.mapDeliveryToResponse(delivery)),
+        nextCursor: result.nextCursor ?? null,
+      });
+
+    } catch (error) {
+      console.error('Error getting webhook deliveries:', error);
+
+      if (error instanceof Error) {
+        if (NOT_FOUND_ERRORS.includes(error.message)) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  async redeliver(c: Context) {
+    try {
+      const deliveryId = c.req.param('deliveryId');
+      const userId = c.get('userId');
+
+      if (!userId) {
+        return c.json({ error: 'Unauthorized' }, 401);
+      }
+
+      // Execute use case
+      const result = await this.redeliverWebhookDeliveryUseCase.execute({ userId, deliveryId });
+
+      // Return response
+      return c.json(this.mapDeliveryToResponse(result.delivery), 202);
+
+    } catch (error) {
+      console.error('Error redelivering webhook delivery:', error);
+
+      if (error instanceof Error) {
+        if (NOT_FOUND_ERRORS.includes(error.message)) {
+          return c.json({ error: error.message }, 404);
+        }
+        if (error.message === 'Access denied') {
+          return c.json({ error: 'Access denied' }, 403);
+        }
+        return c.json({ error: error.message }, 400);
+      }
+
+      return c.json({ error: 'Internal server error' }, 500);
+    }
+  }
+
+  private mapWebhookToResponse(webhook: Webhook, includeSecret = false): WebhookResponseDto {
+    return {
+      id: webhook.id,
+      boardId: webhook.boardId,
+      url: webhook.url,
+      events: webhook.events,
+      isActive: webhook.isActive,
+      ...(includeSecret && { secret: webhook.secret }),
+      createdAt: webhook.createdAt.toISOString(),
+      updatedAt: webhook.updatedAt.toISOString(),
+    };
+  }
+
+  private mapDeliveryToResponse(delivery: WebhookDelivery): WebhookDeliveryResponseDto {
+    return {
+      id: delivery.id,
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt?.toISOString(),
+      lastAttemptAt: delivery.lastAttemptAt?.toISOString(),
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      redeliveryOf: delivery.redeliveryOf,
+      deliveredAt: delivery.deliveredAt?.toISOString(),
+      createdAt: delivery.createdAt.toISOString(),
+      payload: delivery.payload,
+    };
+  }
+}
\ No newline at end of file
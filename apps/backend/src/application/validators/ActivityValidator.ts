@@ -0,0 +1,42 @@
+import { ActivityType, EntityType } from '@kanban/domain-core';
+import { ActivityFeedQueryDto } from '@/interfaces/http/dto/ActivityDto';
+import { Validator, ValidationResult } from '@/application/validators/ValidationError';
+
+export const ACTIVITY_TYPES: ActivityType[] = [
+  'CREATE', 'UPDATE', 'DELETE', 'MOVE', 'ARCHIVE', 'UNARCHIVE', 'ASSIGN', 'UNASSIGN',
+  'COMMENT', 'ATTACH', 'DETACH', 'ADD_MEMBER', 'REMOVE_MEMBER', 'ADD_LABEL', 'REMOVE_LABEL',
+];
+
+const ENTITY_TYPES: EntityType[] = ['BOARD', 'LIST', 'CARD', 'COMMENT', 'ATTACHMENT', 'CHECKLIST', 'LABEL'];
+
+export class ActivityValidator {
+  static validateFeedQuery(query: Record<string, string | undefined>): ValidationResult<ActivityFeedQueryDto> {
+    const validator = new Validator();
+
+    const limit = query.limit !== undefined ? Number(query.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      validator.addError('limit must be a positive integer', 'limit', 'INVALID_NUMBER');
+    }
+
+    validator
+      .oneOf(query.action as ActivityType | undefined, ACTIVITY_TYPES, 'action')
+      .oneOf(query.entityType as EntityType | undefined, ENTITY_TYPES, 'entityType')
+      .date(query.from as string, 'from')
+      .date(query.to as string, 'to');
+
+    if (query.from && query.to && new Date(query.from) > new Date(query.to)) {
+      validator.addError('from must be before to', 'from', 'DATE_ORDER');
+    }
+
+    return validator.getResult({
+      limit,
+      cursor: query.cursor || undefined,
+      actorId: query.userId || undefined,
+      entityType: query.entityType as EntityType | undefined,
+      action: query.action as ActivityType | undefined,
+      boardId: query.boardId || undefined,
+      from: query.from || undefined,
+      to: query.to || undefined,
+    });
+  }
+}
\ No newline at end of file
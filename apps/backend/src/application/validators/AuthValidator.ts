@@ -1,8 +1,11 @@
+import { MAX_REMINDER_LEAD_MINUTES } from '@kanban/domain-core';
 import { ValidationResult, ValidationError } from '@/application/validators/ValidationError';
 
 export interface UpdateProfileInput {
   name?: string;
   avatarUrl?: string;
+  // null turns due-date reminder emails off
+  reminderLeadMinutes?: number | null;
 }
 
 export class AuthValidator {
@@ -34,6 +37,18 @@ export class AuthValidator {
       }
     }
 
+    // Validate reminderLeadMinutes (optional, null disables reminders)
+    if (data.reminderLeadMinutes !== undefined && data.reminderLeadMinutes !== null) {
+      if (!Number.isInteger(data.reminderLeadMinutes)) {
+        errors.push(new ValidationError('Reminder lead time must be a whole number of minutes', 'reminderLeadMinutes'));
+      } else if (data.reminderLeadMinutes < 0 || data.reminderLeadMinutes > MAX_REMINDER_LEAD_MINUTES) {
+        errors.push(new ValidationError(
+          `Reminder lead time must be between 0 and ${MAX_REMINDER_LEAD_MINUTES} minutes`,
+          'reminderLeadMinutes'
+        ));
+      }
+    }
+
     if (errors.length > 0) {
       return { success: false, errors };
     }
@@ -43,6 +58,7 @@ export class AuthValidator {
       data: {
         name: data.name?.trim(),
         avatarUrl: data.avatarUrl?.trim(),
+        reminderLeadMinutes: data.reminderLeadMinutes,
       },
     };
   }
@@ -0,0 +1,35 @@
+import { CreateBoardTemplateDto } from '@/interfaces/http/dto/BoardTemplateDto';
+import { Validator, ValidationResult } from '@/application/validators/ValidationError';
+
+export class BoardTemplateValidator {
+  static validateCreateTemplate(data: any): ValidationResult<CreateBoardTemplateDto> {
+    const validator = new Validator();
+
+    validator
+      .required(data.boardId, 'boardId')
+      .string(data.boardId, 'boardId');
+
+    if (data.name !== undefined) {
+      validator
+        .string(data.name, 'name')
+        .maxLength(data.name, 255, 'name');
+    }
+
+    if (data.description !== undefined) {
+      validator
+        .string(data.description, 'description')
+        .maxLength(data.description, 2000, 'description');
+    }
+
+    if (data.includeCards !== undefined) {
+      validator.boolean(data.includeCards, 'includeCards');
+    }
+
+    return validator.getResult({
+      boardId: data.boardId,
+      name: data.name?.trim(),
+      description: data.description?.trim(),
+      includeCards: data.includeCards ?? false,
+    });
+  }
+}
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { CreateBoardDto, UpdateBoardDto, AddMemberDto, UpdateMemberDto } from '@/interfaces/http/dto/BoardDto';
+import { CARD_CSV_COLUMNS, CardCsvColumn } from '@kanban/domain-core';
+import { CreateBoardDto, CopyBoardDto, UpdateBoardDto, AddMemberDto, UpdateMemberDto, BoardMemberQueryDto, TrelloImportQueryDto, CardCsvExportQueryDto } from '@/interfaces/http/dto/BoardDto';
 import { Validator, ValidationResult } from '@/application/validators/ValidationError';
 
 export class BoardValidator {
@@ -27,11 +28,37 @@ export class BoardValidator {
       validator.boolean(data.isPublic, 'isPublic');
     }
 
+    if (data.templateId !== undefined) {
+      validator
+        .string(data.templateId, 'templateId')
+        .minLength(data.templateId, 1, 'templateId');
+    }
+
     return validator.getResult({
       title: data.title?.trim(),
       description: data.description?.trim(),
       backgroundUrl: data.backgroundUrl,
       isPublic: data.isPublic ?? false,
+      templateId: data.templateId,
+    });
+  }
+
+  static validateCopyBoard(data: any): ValidationResult<CopyBoardDto> {
+    const validator = new Validator();
+
+    if (data.title !== undefined) {
+      validator
+        .string(data.title, 'title')
+        .maxLength(data.title, 255, 'title');
+    }
+
+    if (data.includeCards !== undefined) {
+      validator.boolean(data.includeCards, 'includeCards');
+    }
+
+    return validator.getResult({
+      title: data.title?.trim(),
+      includeCards: data.includeCards ?? false,
     });
   }
 
@@ -84,6 +111,41 @@ export class BoardValidator {
     });
   }
 
+  static validateMemberQuery(query: any): ValidationResult<BoardMemberQueryDto> {
+    const validator = new Validator();
+
+    validator.oneOf(query.role, ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'], 'role');
+
+    return validator.getResult({
+      role: query.role,
+    });
+  }
+
+  static validateTrelloImportQuery(query: any): ValidationResult<TrelloImportQueryDto> {
+    const validator = new Validator();
+
+    validator.oneOf(query.dryRun, ['true', 'false'], 'dryRun');
+
+    return validator.getResult({
+      dryRun: query.dryRun === 'true',
+    });
+  }
+
+  // `columns` is a comma-separated list of column keys, e.g. `title,list,dueDate`
+  static validateCardCsvExportQuery(query: any): ValidationResult<CardCsvExportQueryDto> {
+    const validator = new Validator();
+
+    validator.string(query.columns, 'columns');
+    const columns = typeof query.columns === 'string'
+      ? query.columns.split(',').map((column: string) => column.trim()).filter((column: string) => column !== '')
+      : undefined;
+    columns?.forEach((column: string) => validator.oneOf(column, [...CARD_CSV_COLUMNS] as string[], 'columns'));
+
+    return validator.getResult({
+      columns: columns?.length ? columns as CardCsvColumn[] : undefined,
+    });
+  }
+
   static validateUpdateMember(data: any): ValidationResult<UpdateMemberDto> {
     const validator = new Validator();
 
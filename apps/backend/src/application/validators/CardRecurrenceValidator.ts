@@ -0,0 +1,45 @@
+import { RECURRENCE_FREQUENCIES } from '@kanban/domain-core';
+import { SetCardRecurrenceDto } from '@/interfaces/http/dto/CardRecurrenceDto';
+import { Validator, ValidationResult } from '@/application/validators/ValidationError';
+
+export class CardRecurrenceValidator {
+  // Field types only; whether the rule is complete for its frequency is checked by the domain
+  static validateSetRecurrence(data: any): ValidationResult<SetCardRecurrenceDto> {
+    const validator = new Validator();
+    const rule = data.rule ?? {};
+
+    validator
+      .required(data.rule, 'rule')
+      .required(rule.frequency, 'rule.frequency')
+      .oneOf(rule.frequency, RECURRENCE_FREQUENCIES, 'rule.frequency')
+      .integer(rule.hour, 'rule.hour', 0, 23)
+      .integer(rule.minute, 'rule.minute', 0, 59)
+      .integer(rule.dayOfMonth, 'rule.dayOfMonth', 1, 31)
+      .string(rule.cron, 'rule.cron')
+      .maxLength(rule.cron, 100, 'rule.cron');
+
+    if (rule.weekdays !== undefined) {
+      if (!Array.isArray(rule.weekdays)) {
+        validator.addError('rule.weekdays must be an array', 'rule.weekdays', 'TYPE_ERROR');
+      } else {
+        rule.weekdays.forEach((weekday: unknown) => validator.integer(weekday, 'rule.weekdays', 0, 6));
+      }
+    }
+
+    if (data.targetListId !== null) {
+      validator.string(data.targetListId, 'targetListId');
+    }
+
+    return validator.getResult({
+      rule: {
+        frequency: rule.frequency,
+        hour: rule.hour,
+        minute: rule.minute,
+        weekdays: rule.weekdays,
+        dayOfMonth: rule.dayOfMonth,
+        cron: rule.cron,
+      },
+      targetListId: data.targetListId,
+    });
+  }
+}
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { CreateCardDto, UpdateCardDto, MoveCardDto } from '@/interfaces/http/dto/CardDto';
+import { CreateCardDto, UpdateCardDto, MoveCardDto, ReorderCardDto } from '@/interfaces/http/dto/CardDto';
 import { Validator, ValidationResult } from '@/application/validators/ValidationError';
 
 export class CardValidator {
@@ -17,8 +17,8 @@ export class CardValidator {
         .maxLength(data.description, 5000, 'description');
     }
 
-    if (data.assigneeId !== undefined) {
-      validator.string(data.assigneeId, 'assigneeId');
+    if (data.assigneeIds !== undefined) {
+      validator.stringArray(data.assigneeIds, 'assigneeIds');
     }
 
     if (data.dueDate !== undefined) {
@@ -39,18 +39,14 @@ export class CardValidator {
       const dueDate = new Date(data.dueDate);
       
       if (startDate >= dueDate) {
-        validator['errors'].push({
-          message: 'Start date must be before due date',
-          field: 'startDate',
-          code: 'DATE_ORDER',
-        } as any);
+        validator.addError('Start date must be before due date', 'startDate', 'DATE_ORDER');
       }
     }
 
     return validator.getResult({
       title: data.title?.trim(),
       description: data.description?.trim(),
-      assigneeId: data.assigneeId,
+      assigneeIds: data.assigneeIds,
       dueDate: data.dueDate,
       startDate: data.startDate,
     });
@@ -72,17 +68,18 @@ export class CardValidator {
         .maxLength(data.description, 5000, 'description');
     }
 
-    if (data.assigneeId !== undefined) {
-      validator.string(data.assigneeId, 'assigneeId');
+    if (data.assigneeIds !== undefined) {
+      validator.stringArray(data.assigneeIds, 'assigneeIds');
     }
 
-    if (data.dueDate !== undefined) {
+    // null clears a date
+    if (data.dueDate !== undefined && data.dueDate !== null) {
       validator
         .string(data.dueDate, 'dueDate')
         .date(data.dueDate, 'dueDate');
     }
 
-    if (data.startDate !== undefined) {
+    if (data.startDate !== undefined && data.startDate !== null) {
       validator
         .string(data.startDate, 'startDate')
         .date(data.startDate, 'startDate');
@@ -100,18 +97,14 @@ export class CardValidator {
       const dueDate = new Date(data.dueDate);
       
       if (startDate >= dueDate) {
-        validator['errors'].push({
-          message: 'Start date must be before due date',
-          field: 'startDate',
-          code: 'DATE_ORDER',
-        } as any);
+        validator.addError('Start date must be before due date', 'startDate', 'DATE_ORDER');
       }
     }
 
     return validator.getResult({
       title: data.title?.trim(),
       description: data.description?.trim(),
-      assigneeId: data.assigneeId,
+      assigneeIds: data.assigneeIds,
       dueDate: data.dueDate,
       startDate: data.startDate,
       coverUrl: data.coverUrl,
@@ -127,11 +120,25 @@ export class CardValidator {
       .required(data.position, 'position');
 
     if (typeof data.position !== 'number' || data.position < 0) {
-      validator['errors'].push({
-        message: 'Position must be a non-negative number',
-        field: 'position',
-        code: 'INVALID_POSITION',
-      } as any);
+      validator.addError('Position must be a non-negative number', 'position', 'INVALID_POSITION');
+    }
+
+    return validator.getResult({
+      listId: data.listId,
+      position: data.position,
+    });
+  }
+
+  static validateReorderCard(data: any): ValidationResult<ReorderCardDto> {
+    const validator = new Validator();
+
+    validator
+      .required(data.listId, 'listId')
+      .string(data.listId, 'listId')
+      .required(data.position, 'position');
+
+    if (typeof data.position !== 'number' || data.position < 0) {
+      validator.addError('Position must be a non-negative number', 'position', 'INVALID_POSITION');
     }
 
     return validator.getResult({
@@ -0,0 +1,131 @@
+import {
+  CreateChecklistDto,
+  UpdateChecklistDto,
+  CreateChecklistItemDto,
+  UpdateChecklistItemDto,
+  ToggleChecklistItemDto,
+  ConvertChecklistItemDto,
+  ReorderChecklistsDto,
+  ReorderChecklistItemsDto,
+} from '@/interfaces/http/dto/ChecklistDto';
+import { Validator, ValidationResult, ValidationError } from '@/application/validators/ValidationError';
+
+export class ChecklistValidator {
+  static validateCreateChecklist(data: any): ValidationResult<CreateChecklistDto> {
+    const validator = new Validator();
+
+    validator
+      .required(data.title, 'title')
+      .string(data.title, 'title')
+      .maxLength(data.title, 255, 'title');
+
+    return validator.getResult({
+      title: data.title?.trim(),
+    });
+  }
+
+  static validateUpdateChecklist(data: any): ValidationResult<UpdateChecklistDto> {
+    return ChecklistValidator.validateCreateChecklist(data);
+  }
+
+  static validateCreateItem(data: any): ValidationResult<CreateChecklistItemDto> {
+    const validator = new Validator();
+
+    validator
+      .required(data.content, 'content')
+      .string(data.content, 'content')
+      .maxLength(data.content, 255, 'content');
+
+    return validator.getResult({
+      content: data.content?.trim(),
+    });
+  }
+
+  static validateUpdateItem(data: any): ValidationResult<UpdateChecklistItemDto> {
+    return ChecklistValidator.validateCreateItem(data);
+  }
+
+  static validateToggleItem(data: any): ValidationResult<ToggleChecklistItemDto> {
+    const validator = new Validator();
+
+    validator.boolean(data.isCompleted, 'isCompleted');
+
+    return validator.getResult({
+      isCompleted: data.isCompleted,
+    });
+  }
+
+  static validateConvertItem(data: any): ValidationResult<ConvertChecklistItemDto> {
+    const validator = new Validator();
+
+    validator.string(data.listId, 'listId');
+
+    return validator.getResult({
+      listId: data.listId || undefined,
+    });
+  }
+
+  static validateReorderChecklists(data: any): ValidationResult<ReorderChecklistsDto> {
+    const errors = ChecklistValidator.validatePositions(data.checklists, 'checklists');
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    return {
+      success: true,
+      data: {
+        checklists: data.checklists,
+      },
+    };
+  }
+
+  static validateReorderItems(data: any): ValidationResult<ReorderChecklistItemsDto> {
+    const errors = ChecklistValidator.validatePositions(data.items, 'items');
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    return {
+      success: true,
+      data: {
+        items: data.items,
+      },
+    };
+  }
+
+  private static validatePositions(entries: any, field: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!entries || !Array.isArray(entries)) {
+      errors.push(new ValidationError(`${field} array is required`, field));
+      return errors;
+    }
+
+    if (entries.length === 0) {
+      errors.push(new ValidationError(`${field} array cannot be empty`, field));
+      return errors;
+    }
+
+    const positions = new Set<number>();
+
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+
+      if (!entry.id || typeof entry.id !== 'string') {
+        errors.push(new ValidationError(`Entry at index ${i} must have a valid id`, `${field}[${i}].id`));
+      }
+
+      // Positions are stored as integers
+      if (!Number.isInteger(entry.position) || entry.position < 0) {
+        errors.push(new ValidationError(`Entry at index ${i} must have a valid position (non-negative integer)`, `${field}[${i}].position`));
+      } else {
+        if (positions.has(entry.position)) {
+          errors.push(new ValidationError(`Duplicate position ${entry.position} found`, `${field}[${i}].position`));
+        }
+        positions.add(entry.position);
+      }
+    }
+
+    return errors;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,25 @@
+import { CreateCommentDto, UpdateCommentDto } from '@/interfaces/http/dto/CommentDto';
+import { Validator, ValidationResult } from '@/application/validators/ValidationError';
+
+export class CommentValidator {
+  static validateCreateComment(data: any): ValidationResult<CreateCommentDto> {
+    const validator = new Validator();
+
+    validator
+      .required(data.content, 'content')
+      .string(data.content, 'content')
+      .maxLength(data.content, 5000, 'content');
+
+    if (typeof data.content === 'string' && data.content.trim().length === 0) {
+      validator.required('', 'content');
+    }
+
+    return validator.getResult({
+      content: data.content?.trim(),
+    });
+  }
+
+  static validateUpdateComment(data: any): ValidationResult<UpdateCommentDto> {
+    return CommentValidator.validateCreateComment(data);
+  }
+}
\ No newline at end of file
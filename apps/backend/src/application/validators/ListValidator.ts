@@ -1,3 +1,4 @@
+import { WIP_LIMIT_MODES, WipLimitMode } from '@kanban/domain-core';
 import { ValidationResult, ValidationError, Validator } from '@/application/validators/ValidationError';
 
 export interface CreateListInput {
@@ -8,12 +9,17 @@ export interface CreateListInput {
 export interface UpdateListInput {
   title?: string;
   color?: string;
+  wipLimit?: number | null;
+  wipLimitMode?: WipLimitMode;
 }
 
 export interface ReorderListsInput {
   lists: { id: string; position: number }[];
 }
 
+// Upper bound for a list's WIP limit; anything larger is no limit at all
+const MAX_WIP_LIMIT = 999;
+
 export class ListValidator {
   static validateCreateList(data: any): ValidationResult<CreateListInput> {
     const validator = new Validator();
@@ -56,6 +62,11 @@ export class ListValidator {
         .maxLength(data.color, 7, 'color');
     }
 
+    // null removes the limit
+    validator
+      .integer(data.wipLimit, 'wipLimit', 1, MAX_WIP_LIMIT)
+      .oneOf(data.wipLimitMode, WIP_LIMIT_MODES, 'wipLimitMode');
+
     const resultData: UpdateListInput = {};
     
     if (data.title !== undefined) {
@@ -66,6 +77,14 @@ export class ListValidator {
       resultData.color = data.color?.trim() || undefined;
     }
 
+    if (data.wipLimit !== undefined) {
+      resultData.wipLimit = data.wipLimit;
+    }
+
+    if (data.wipLimitMode !== undefined) {
+      resultData.wipLimitMode = data.wipLimitMode;
+    }
+
     return validator.getResult(resultData);
   }
 
@@ -0,0 +1,21 @@
+import { NotificationQueryDto } from '@/interfaces/http/dto/NotificationDto';
+import { Validator, ValidationResult } from '@/application/validators/ValidationError';
+
+export class NotificationValidator {
+  static validateQuery(query: Record<string, string | undefined>): ValidationResult<NotificationQueryDto> {
+    const validator = new Validator();
+
+    validator.oneOf(query.unreadOnly, ['true', 'false'], 'unreadOnly');
+
+    const limit = query.limit !== undefined ? Number(query.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      validator.addError('limit must be a positive integer', 'limit', 'INVALID_NUMBER');
+    }
+
+    return validator.getResult({
+      unreadOnly: query.unreadOnly === 'true',
+      cursor: query.cursor || undefined,
+      limit,
+    });
+  }
+}
\ No newline at end of file
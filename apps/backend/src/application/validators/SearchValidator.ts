@@ -0,0 +1,43 @@
+import { SearchQueryDto } from '@/interfaces/http/dto/SearchDto';
+import { Validator, ValidationResult } from '@/application/validators/ValidationError';
+
+const MAX_QUERY_LENGTH = 200;
+
+export class SearchValidator {
+  static validateQuery(query: Record<string, string | undefined>): ValidationResult<SearchQueryDto> {
+    const validator = new Validator();
+    const q = query.q?.trim() ?? '';
+
+    validator
+      .required(q, 'q')
+      .maxLength(q, MAX_QUERY_LENGTH, 'q')
+      .date(query.dueFrom as string, 'dueFrom')
+      .date(query.dueTo as string, 'dueTo');
+
+    const limit = query.limit !== undefined ? Number(query.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      validator.addError('limit must be a positive integer', 'limit', 'INVALID_NUMBER');
+    }
+
+    const offset = query.offset !== undefined ? Number(query.offset) : undefined;
+    if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+      validator.addError('offset must be a non-negative integer', 'offset', 'INVALID_NUMBER');
+    }
+
+    if (query.dueFrom && query.dueTo && new Date(query.dueFrom) > new Date(query.dueTo)) {
+      validator.addError('dueFrom must be before dueTo', 'dueFrom', 'DATE_ORDER');
+    }
+
+    return validator.getResult({
+      q,
+      boardId: query.boardId || undefined,
+      listId: query.listId || undefined,
+      labelId: query.labelId || undefined,
+      assigneeId: query.assigneeId || undefined,
+      dueFrom: query.dueFrom || undefined,
+      dueTo: query.dueTo || undefined,
+      limit,
+      offset,
+    });
+  }
+}
\ No newline at end of file
@@ -32,6 +32,13 @@ export class Validator {
     return this;
   }
 
+  stringArray(value: any, field: string): this {
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+      this.errors.push(new ValidationError(`${field} must be an array of strings`, field, 'TYPE_ERROR'));
+    }
+    return this;
+  }
+
   minLength(value: string, min: number, field: string): this {
     if (value && value.length < min) {
       this.errors.push(new ValidationError(`${field} must be at least ${min} characters`, field, 'MIN_LENGTH'));
@@ -74,6 +81,18 @@ export class Validator {
     return this;
   }
 
+  integer(value: any, field: string, min: number, max: number): this {
+    if (value === undefined || value === null) {
+      return this;
+    }
+    if (!Number.isInteger(value)) {
+      this.errors.push(new ValidationError(`${field} must be an integer`, field, 'TYPE_ERROR'));
+    } else if (value < min || value > max) {
+      this.errors.push(new ValidationError(`${field} must be between ${min} and ${max}`, field, 'OUT_OF_RANGE'));
+    }
+    return this;
+  }
+
   date(value: string, field: string): this {
     if (value) {
       const date = new Date(value);
@@ -91,6 +110,12 @@ export class Validator {
     return this;
   }
 
+  // For rules the checks above do not cover
+  addError(message: string, field: string, code: string): this {
+    this.errors.push(new ValidationError(message, field, code));
+    return this;
+  }
+
   getResult<T>(data: T): ValidationResult<T> {
     if (this.errors.length > 0) {
       return {
@@ -0,0 +1,73 @@
+import { ActivityType } from '@kanban/domain-core';
+import { CreateWebhookDto, UpdateWebhookDto, WebhookDeliveryQueryDto } from '@/interfaces/http/dto/WebhookDto';
+import { ACTIVITY_TYPES } from '@/application/validators/ActivityValidator';
+import { Validator, ValidationResult } from '@/application/validators/ValidationError';
+
+export class WebhookValidator {
+  static validateCreateWebhook(data: any): ValidationResult<CreateWebhookDto> {
+    const validator = new Validator();
+
+    validator
+      .required(data.boardId, 'boardId')
+      .string(data.boardId, 'boardId')
+      .required(data.url, 'url')
+      .string(data.url, 'url')
+      .maxLength(data.url, 2048, 'url')
+      .url(data.url, 'url')
+      .required(data.events, 'events');
+
+    WebhookValidator.validateEvents(validator, data.events);
+
+    return validator.getResult({
+      boardId: data.boardId,
+      url: data.url,
+      events: data.events,
+    });
+  }
+
+  static validateUpdateWebhook(data: any): ValidationResult<UpdateWebhookDto> {
+    const validator = new Validator();
+
+    if (data.url !== undefined) {
+      validator
+        .string(data.url, 'url')
+        .maxLength(data.url, 2048, 'url')
+        .url(data.url, 'url');
+    }
+
+    WebhookValidator.validateEvents(validator, data.events);
+
+    validator
+      .boolean(data.isActive, 'isActive')
+      .boolean(data.rotateSecret, 'rotateSecret');
+
+    return validator.getResult({
+      url: data.url,
+      events: data.events,
+      isActive: data.isActive,
+      rotateSecret: data.rotateSecret,
+    });
+  }
+
+  static validateDeliveryQuery(query: Record<string, string | undefined>): ValidationResult<WebhookDeliveryQueryDto> {
+    const validator = new Validator();
+
+    const limit = query.limit !== undefined ? Number(query.limit) : undefined;
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      validator.addError('limit must be a positive integer', 'limit', 'INVALID_NUMBER');
+    }
+
+    return validator.getResult({
+      cursor: query.cursor || undefined,
+      limit,
+    });
+  }
+
+  private static validateEvents(validator: Validator, events: unknown): void {
+    validator.stringArray(events, 'events');
+
+    if (Array.isArray(events)) {
+      events.forEach(event => validator.oneOf(event as ActivityType, ACTIVITY_TYPES, 'events'));
+    }
+  }
+}
\ No newline at end of file
@@ -3,6 +3,7 @@ import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 import { serverConfig, appConfig } from '@/infrastructure/config/env'
 import { prisma, connectDatabase } from '@/infrastructure/database/prisma'
+import { createContainer } from '@/infrastructure/di/container'
 import { createApiRoutes } from '@/interfaces/http/routes/index'
 import { errorHandler } from '@/interfaces/http/middleware/errorHandler'
 // authMiddleware is now created inside createApiRoutes
@@ -35,7 +36,8 @@ app.get('/api/message', async(c) => {
 })
 
 // Mount API routes (authentication middleware is applied selectively within routes)
-const apiRoutes = createApiRoutes(prisma)
+const container = createContainer(prisma)
+const apiRoutes = createApiRoutes(container)
 app.route('/api', apiRoutes)
 
 // Global error handler
@@ -65,6 +67,13 @@ async function startServer() {
       console.log(`📊 Health check: http://localhost:${info.port}/api/health`)
       console.log(`🌍 Environment: ${serverConfig.nodeEnv}`)
     })
+
+    // Deliver queued webhooks in the background
+    container.webhookDeliveryWorker.start()
+    // Email assignees about approaching and missed due dates
+    container.dueDateReminderScheduler.start()
+    // Copy recurring cards when their rules fire
+    container.cardRecurrenceJob.start()
   } catch (error) {
     console.error('Failed to start server:', error)
     process.exit(1)
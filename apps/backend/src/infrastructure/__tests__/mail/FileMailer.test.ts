@@ -0,0 +1,30 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { FileMailer } from "@/infrastructure/mail/FileMailer";
+
+describe("FileMailer", () => {
+  let dir: string;
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("should write each message as an .eml file", async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "kanban-mail-"));
+    const mailer = new FileMailer(path.join(dir, "outbox"), "Kanban App <no-reply@example.com>");
+
+    await mailer.send({ to: "alice@example.com", subject: "Überfällig: Fix login", text: "Line one\nLine two" });
+
+    const files = await readdir(path.join(dir, "outbox"));
+    expect(files).toHaveLength(1);
+    expect(files[0]).toEndWith(".eml");
+
+    const contents = await readFile(path.join(dir, "outbox", files[0]!), "utf8");
+    expect(contents).toContain("From: Kanban App <no-reply@example.com>\r\n");
+    expect(contents).toContain("To: alice@example.com\r\n");
+    expect(contents).toContain(`Subject: =?UTF-8?B?${Buffer.from("Überfällig: Fix login").toString("base64")}?=\r\n`);
+    expect(contents).toEndWith("\r\n\r\nLine one\r\nLine two");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createServer, Server, AddressInfo } from "node:net";
+import { SmtpMailer } from "@/infrastructure/mail/SmtpMailer";
+
+interface Session {
+  commands: string[];
+  data: string;
+}
+
+describe("SmtpMailer", () => {
+  let server: Server;
+  let sessions: Session[];
+  let rejectRecipient: boolean;
+
+  beforeAll(async () => {
+    // Just enough of an SMTP server to record what the client sends
+    server = createServer((socket) => {
+      const session: Session = { commands: [], data: "" };
+      sessions.push(session);
+      let buffer = "";
+      let inData = false;
+
+      socket.setEncoding("utf8");
+      socket.write("220 test ESMTP\r\n");
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        if (inData) {
+          const end = buffer.indexOf("\r\n.\r\n");
+          if (end < 0) return;
+          session.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write("250 queued\r\n");
+        }
+
+        while (!inData) {
+          const lineEnd = buffer.indexOf("\r\n");
+          if (lineEnd < 0) break;
+          const line = buffer.slice(0, lineEnd);
+          buffer = buffer.slice(lineEnd + 2);
+          session.commands.push(line);
+
+          if (line.startsWith("EHLO")) {
+            socket.write("250-test\r\n250 8BITMIME\r\n");
+          } else if (line.startsWith("RCPT") && rejectRecipient) {
+            socket.write("550 no such user\r\n");
+          } else if (line === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") {
+            socket.end("221 bye\r\n");
+          } else {
+            socket.write("250 ok\r\n");
+          }
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  const mailer = () => new SmtpMailer({
+    host: "127.0.0.1",
+    port: (server.address() as AddressInfo).port,
+    from: "Kanban App <no-reply@example.com>",
+    timeoutMs: 2000,
+  });
+
+  test("should deliver the message through the SMTP dialogue", async () => {
+    sessions = [];
+    rejectRecipient = false;
+
+    await mailer().send({
+      to: "alice@example.com",
+      subject: "Due soon: Fix login",
+      text: "Fix login is due tomorrow.\n.hidden line",
+    });
+
+    const [session] = sessions;
+    expect(session!.commands[0]).toStartWith("EHLO ");
+    expect(session!.commands.slice(1)).toEqual([
+      "MAIL FROM:<no-reply@example.com>",
+      "RCPT TO:<alice@example.com>",
+      "DATA",
+      "QUIT",
+    ]);
+    expect(session!.data).toContain("Subject: Due soon: Fix login\r\n");
+    expect(session!.data).toContain("\r\nFix login is due tomorrow.\r\n..hidden line");
+  });
+
+  test("should fail when the server rejects the recipient", async () => {
+    sessions = [];
+    rejectRecipient = true;
+
+    await expect(mailer().send({
+      to: "nobody@example.com",
+      subject: "Overdue: Fix login",
+      text: "Fix login is overdue.",
+    })).rejects.toThrow("SMTP server replied: 550 no such user");
+  });
+});
\ No newline at end of file
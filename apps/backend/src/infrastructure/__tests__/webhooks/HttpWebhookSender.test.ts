@@ -0,0 +1,84 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { createHmac } from "node:crypto";
+import { Activity, WebhookDelivery } from "@kanban/domain-core";
+import { HttpWebhookSender } from "@/infrastructure/webhooks/HttpWebhookSender";
+
+interface ReceivedRequest {
+  headers: Headers;
+  body: string;
+}
+
+describe("HttpWebhookSender", () => {
+  let receiver: ReturnType<typeof Bun.serve>;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+
+  const delivery = WebhookDelivery.forActivity("webhook-123", Activity.create({
+    action: "CREATE",
+    entityType: "CARD",
+    entityId: "card-123",
+    entityTitle: "Fix login",
+    userId: "user-123",
+    boardId: "board-123",
+  }));
+
+  beforeAll(() => {
+    // A local receiver standing in for a chat bot or CI endpoint
+    receiver = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        received.push({ headers: request.headers, body: await request.text() });
+        return new Response(null, { status: responseStatus });
+      },
+    });
+  });
+
+  afterAll(() => {
+    receiver.stop(true);
+  });
+
+  const send = () => new HttpWebhookSender(2000).send({
+    url: `http://localhost:${receiver.port}/hooks`,
+    secret: "top-secret",
+    deliveryId: delivery.id,
+    event: delivery.event,
+    payload: delivery.payload,
+  });
+
+  test("should post a JSON body signed with the webhook secret", async () => {
+    received = [];
+    responseStatus = 204;
+
+    const result = await send();
+
+    expect(result).toEqual({ status: 204 });
+    expect(received).toHaveLength(1);
+
+    const [request] = received;
+    const expectedSignature = createHmac("sha256", "top-secret").update(request!.body).digest("hex");
+    expect(request!.headers.get("x-kanban-signature-256")).toBe(`sha256=${expectedSignature}`);
+    expect(request!.headers.get("x-kanban-event")).toBe("CREATE");
+    expect(request!.headers.get("x-kanban-delivery")).toBe(delivery.id);
+    expect(JSON.parse(request!.body)).toEqual(delivery.payload);
+  });
+
+  test("should report error responses by status", async () => {
+    received = [];
+    responseStatus = 500;
+
+    expect(await send()).toEqual({ status: 500 });
+  });
+
+  test("should report unreachable receivers as an error instead of throwing", async () => {
+    const result = await new HttpWebhookSender(2000).send({
+      url: "http://localhost:1/hooks",
+      secret: "top-secret",
+      deliveryId: delivery.id,
+      event: delivery.event,
+      payload: delivery.payload,
+    });
+
+    expect(result.status).toBeUndefined();
+    expect(result.error).toBeDefined();
+  });
+});
\ No newline at end of file
@@ -22,6 +22,27 @@ const envSchema = z.object({
   MAX_LOGIN_ATTEMPTS: z.string().default('5').transform(Number),
   LOGIN_LOCKOUT_DURATION: z.string().default('15').transform(Number), // minutes
   
+  // File storage
+  UPLOAD_DIR: z.string().default('./uploads'),
+
+  // Webhooks
+  WEBHOOK_POLL_INTERVAL: z.string().default('10').transform(Number), // seconds
+  WEBHOOK_TIMEOUT: z.string().default('10').transform(Number), // seconds
+
+  // Due-date reminders
+  REMINDER_INTERVAL: z.string().default('300').transform(Number), // seconds
+
+  // Recurring cards
+  RECURRENCE_INTERVAL: z.string().default('60').transform(Number), // seconds
+
+  // Outgoing mail
+  MAIL_TRANSPORT: z.enum(['file', 'smtp']).default('file'),
+  MAIL_DIR: z.string().default('./mail'),
+  MAIL_FROM: z.string().default('Kanban App <no-reply@localhost>'),
+  SMTP_HOST: z.string().default('localhost'),
+  SMTP_PORT: z.string().default('1025').transform(Number),
+  SMTP_TIMEOUT: z.string().default('10').transform(Number), // seconds
+  
   // Redis (optional for token blacklist)
   REDIS_URL: z.string().optional(),
   REDIS_PASSWORD: z.string().optional(),
@@ -77,6 +98,32 @@ export const appConfig = {
   loginLockoutDuration: env.LOGIN_LOCKOUT_DURATION,
 } as const;
 
+export const storageConfig = {
+  uploadDir: env.UPLOAD_DIR,
+} as const;
+
+export const webhookConfig = {
+  pollIntervalMs: env.WEBHOOK_POLL_INTERVAL * 1000,
+  timeoutMs: env.WEBHOOK_TIMEOUT * 1000,
+} as const;
+
+export const reminderConfig = {
+  intervalMs: env.REMINDER_INTERVAL * 1000,
+} as const;
+
+export const recurrenceConfig = {
+  intervalMs: env.RECURRENCE_INTERVAL * 1000,
+} as const;
+
+export const mailConfig = {
+  transport: env.MAIL_TRANSPORT,
+  dir: env.MAIL_DIR,
+  from: env.MAIL_FROM,
+  smtpHost: env.SMTP_HOST,
+  smtpPort: env.SMTP_PORT,
+  smtpTimeoutMs: env.SMTP_TIMEOUT * 1000,
+} as const;
+
 export const redisConfig = {
   url: env.REDIS_URL,
   password: env.REDIS_PASSWORD,
@@ -108,7 +108,11 @@ async function main() {
       position: 0,
       listId: inProgressList.id,
       creatorId: user1.id,
-      assigneeId: user2.id,
+      assignees: {
+        create: [
+          { userId: user2.id },
+        ],
+      },
       labels: {
         create: [
           { labelId: featureLabel.id },
@@ -1,5 +1,5 @@
 import { PrismaClient } from '@prisma/client';
-import { cognitoConfig } from '@/infrastructure/config/env';
+import { cognitoConfig, storageConfig, webhookConfig, reminderConfig, recurrenceConfig, mailConfig, appConfig } from '@/infrastructure/config/env';
 
 // Import repositories
 import { UserRepository } from '@kanban/domain-core';
@@ -8,12 +8,47 @@ import { CardRepository } from '@kanban/domain-core';
 import { ListRepository } from '@kanban/domain-core';
 import { LabelRepository } from '@kanban/domain-core';
 import { ActivityRepository } from '@kanban/domain-core';
+import { CommentRepository } from '@kanban/domain-core';
+import { AttachmentRepository } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { SearchRepository } from '@kanban/domain-core';
+import { NotificationRepository } from '@kanban/domain-core';
+import { WatchRepository } from '@kanban/domain-core';
+import { WebhookRepository } from '@kanban/domain-core';
+import { WebhookDeliveryRepository } from '@kanban/domain-core';
+import { DueDateReminderRepository } from '@kanban/domain-core';
+import { CardRecurrenceRepository } from '@kanban/domain-core';
+import { BoardTemplateRepository } from '@kanban/domain-core';
+import { FileStorage } from '@kanban/domain-core';
+import { BoardEventPublisher } from '@kanban/domain-core';
+import { BoardEventSubscriber } from '@kanban/domain-core';
+import { WebhookSender } from '@kanban/domain-core';
+import { Mailer } from '@kanban/domain-core';
 import { PrismaUserRepository } from '@/infrastructure/repositories/PrismaUserRepository';
 import { PrismaBoardRepository } from '@/infrastructure/repositories/PrismaBoardRepository';
 import { PrismaCardRepository } from '@/infrastructure/repositories/PrismaCardRepository';
 import { PrismaListRepository } from '@/infrastructure/repositories/PrismaListRepository';
 import { PrismaLabelRepository } from '@/infrastructure/repositories/PrismaLabelRepository';
 import { PrismaActivityRepository } from '@/infrastructure/repositories/PrismaActivityRepository';
+import { PrismaCommentRepository } from '@/infrastructure/repositories/PrismaCommentRepository';
+import { PrismaAttachmentRepository } from '@/infrastructure/repositories/PrismaAttachmentRepository';
+import { PrismaChecklistRepository } from '@/infrastructure/repositories/PrismaChecklistRepository';
+import { PrismaChecklistItemRepository } from '@/infrastructure/repositories/PrismaChecklistItemRepository';
+import { PrismaSearchRepository } from '@/infrastructure/repositories/PrismaSearchRepository';
+import { PrismaNotificationRepository } from '@/infrastructure/repositories/PrismaNotificationRepository';
+import { PrismaWatchRepository } from '@/infrastructure/repositories/PrismaWatchRepository';
+import { PrismaWebhookRepository } from '@/infrastructure/repositories/PrismaWebhookRepository';
+import { PrismaWebhookDeliveryRepository } from '@/infrastructure/repositories/PrismaWebhookDeliveryRepository';
+import { PrismaDueDateReminderRepository } from '@/infrastructure/repositories/PrismaDueDateReminderRepository';
+import { PrismaCardRecurrenceRepository } from '@/infrastructure/repositories/PrismaCardRecurrenceRepository';
+import { PrismaBoardTemplateRepository } from '@/infrastructure/repositories/PrismaBoardTemplateRepository';
+import { LocalFileStorage } from '@/infrastructure/storage/LocalFileStorage';
+import { InMemoryBoardEventBus } from '@/infrastructure/events/InMemoryBoardEventBus';
+import { HttpWebhookSender } from '@/infrastructure/webhooks/HttpWebhookSender';
+import { FileMailer } from '@/infrastructure/mail/FileMailer';
+import { SmtpMailer } from '@/infrastructure/mail/SmtpMailer';
+import { PeriodicJob } from '@/infrastructure/jobs/PeriodicJob';
 
 // Import use cases
 import { VerifyCognitoTokenUseCase } from '@kanban/use-cases';
@@ -29,6 +64,17 @@ import { GetUserBoardsUseCase } from '@kanban/use-cases';
 import { AddBoardMemberUseCase } from '@kanban/use-cases';
 import { UpdateMemberRoleUseCase } from '@kanban/use-cases';
 import { RemoveBoardMemberUseCase } from '@kanban/use-cases';
+import { GetBoardMembersUseCase } from '@kanban/use-cases';
+import { SubscribeToBoardEventsUseCase } from '@kanban/use-cases';
+import { CopyBoardUseCase } from '@kanban/use-cases';
+import { ExportBoardUseCase } from '@kanban/use-cases';
+import { ImportBoardUseCase } from '@kanban/use-cases';
+import { ImportTrelloBoardUseCase } from '@kanban/use-cases';
+import { ExportCardsCsvUseCase } from '@kanban/use-cases';
+import { ImportCardsCsvUseCase } from '@kanban/use-cases';
+import { SaveBoardAsTemplateUseCase } from '@kanban/use-cases';
+import { GetUserBoardTemplatesUseCase } from '@kanban/use-cases';
+import { DeleteBoardTemplateUseCase } from '@kanban/use-cases';
 import { CreateCardUseCase } from '@kanban/use-cases';
 import { GetCard } from '@kanban/use-cases';
 import { UpdateCard } from '@kanban/use-cases';
@@ -51,6 +97,54 @@ import { DeleteLabelUseCase } from '@kanban/use-cases';
 import { AddLabelToCardUseCase } from '@kanban/use-cases';
 import { RemoveLabelFromCardUseCase } from '@kanban/use-cases';
 import { GetCardLabelsUseCase } from '@kanban/use-cases';
+import { AddCommentUseCase } from '@kanban/use-cases';
+import { EditCommentUseCase } from '@kanban/use-cases';
+import { DeleteCommentUseCase } from '@kanban/use-cases';
+import { GetCardCommentsUseCase } from '@kanban/use-cases';
+import { UploadAttachmentUseCase } from '@kanban/use-cases';
+import { GetCardAttachmentsUseCase } from '@kanban/use-cases';
+import { DownloadAttachmentUseCase } from '@kanban/use-cases';
+import { DeleteAttachmentUseCase } from '@kanban/use-cases';
+import { CreateChecklistUseCase } from '@kanban/use-cases';
+import { GetCardChecklistsUseCase } from '@kanban/use-cases';
+import { UpdateChecklistUseCase } from '@kanban/use-cases';
+import { DeleteChecklistUseCase } from '@kanban/use-cases';
+import { ReorderChecklistsUseCase } from '@kanban/use-cases';
+import { AddChecklistItemUseCase } from '@kanban/use-cases';
+import { UpdateChecklistItemUseCase } from '@kanban/use-cases';
+import { ToggleChecklistItemUseCase } from '@kanban/use-cases';
+import { DeleteChecklistItemUseCase } from '@kanban/use-cases';
+import { ReorderChecklistItemsUseCase } from '@kanban/use-cases';
+import { ConvertChecklistItemToCardUseCase } from '@kanban/use-cases';
+import { GetChecklistProgressUseCase } from '@kanban/use-cases';
+import { GetLabelsForCardsUseCase } from '@kanban/use-cases';
+import { GetBoardActivityUseCase } from '@kanban/use-cases';
+import { GetCardActivityUseCase } from '@kanban/use-cases';
+import { GetUserActivityUseCase } from '@kanban/use-cases';
+import { SearchCardsUseCase } from '@kanban/use-cases';
+import { GetNotificationsUseCase } from '@kanban/use-cases';
+import { MarkNotificationReadUseCase } from '@kanban/use-cases';
+import { MarkAllNotificationsReadUseCase } from '@kanban/use-cases';
+import { WatchUseCase } from '@kanban/use-cases';
+import { UnwatchUseCase } from '@kanban/use-cases';
+import { GetWatchedCardsUseCase } from '@kanban/use-cases';
+import { GetWatchingFeedUseCase } from '@kanban/use-cases';
+import { MarkWatchingFeedReadUseCase } from '@kanban/use-cases';
+import { CreateWebhookUseCase } from '@kanban/use-cases';
+import { GetBoardWebhooksUseCase } from '@kanban/use-cases';
+import { UpdateWebhookUseCase } from '@kanban/use-cases';
+import { DeleteWebhookUseCase } from '@kanban/use-cases';
+import { GetWebhookDeliveriesUseCase } from '@kanban/use-cases';
+import { RedeliverWebhookDeliveryUseCase } from '@kanban/use-cases';
+import { ProcessWebhookDeliveriesUseCase } from '@kanban/use-cases';
+import { SendDueDateRemindersUseCase } from '@kanban/use-cases';
+import { SetCardRecurrenceUseCase } from '@kanban/use-cases';
+import { GetCardRecurrenceUseCase } from '@kanban/use-cases';
+import { DeleteCardRecurrenceUseCase } from '@kanban/use-cases';
+import { ProcessCardRecurrencesUseCase } from '@kanban/use-cases';
+import { GetCalendarFeedUseCase } from '@kanban/use-cases';
+import { RegenerateCalendarTokenUseCase } from '@kanban/use-cases';
+import { RevokeCalendarTokenUseCase } from '@kanban/use-cases';
 
 // Import controllers
 import { AuthController } from '@/application/controllers/AuthController';
@@ -58,6 +152,18 @@ import { BoardController } from '@/application/controllers/BoardController';
 import { CardController } from '@/application/controllers/CardController';
 import { ListController } from '@/application/controllers/ListController';
 import { LabelController } from '@/application/controllers/LabelController';
+import { CommentController } from '@/application/controllers/CommentController';
+import { AttachmentController } from '@/application/controllers/AttachmentController';
+import { ChecklistController } from '@/application/controllers/ChecklistController';
+import { ActivityController } from '@/application/controllers/ActivityController';
+import { BoardEventController } from '@/application/controllers/BoardEventController';
+import { SearchController } from '@/application/controllers/SearchController';
+import { BoardTemplateController } from '@/application/controllers/BoardTemplateController';
+import { NotificationController } from '@/application/controllers/NotificationController';
+import { WatchController } from '@/application/controllers/WatchController';
+import { WebhookController } from '@/application/controllers/WebhookController';
+import { CardRecurrenceController } from '@/application/controllers/CardRecurrenceController';
+import { CalendarController } from '@/application/controllers/CalendarController';
 
 export interface Container {
   // Database
@@ -70,6 +176,28 @@ export interface Container {
   listRepository: ListRepository;
   labelRepository: LabelRepository;
   activityRepository: ActivityRepository;
+  commentRepository: CommentRepository;
+  attachmentRepository: AttachmentRepository;
+  checklistRepository: ChecklistRepository;
+  checklistItemRepository: ChecklistItemRepository;
+  searchRepository: SearchRepository;
+  boardTemplateRepository: BoardTemplateRepository;
+  notificationRepository: NotificationRepository;
+  watchRepository: WatchRepository;
+  webhookRepository: WebhookRepository;
+  webhookDeliveryRepository: WebhookDeliveryRepository;
+  dueDateReminderRepository: DueDateReminderRepository;
+  cardRecurrenceRepository: CardRecurrenceRepository;
+  
+  // Services
+  fileStorage: FileStorage;
+  boardEventPublisher: BoardEventPublisher;
+  boardEventSubscriber: BoardEventSubscriber;
+  webhookSender: WebhookSender;
+  mailer: Mailer;
+  webhookDeliveryWorker: PeriodicJob;
+  dueDateReminderScheduler: PeriodicJob;
+  cardRecurrenceJob: PeriodicJob;
   
   // Auth Use Cases
   logoutUserUseCase: LogoutUserUseCase;
@@ -87,6 +215,19 @@ export interface Container {
   addBoardMemberUseCase: AddBoardMemberUseCase;
   updateMemberRoleUseCase: UpdateMemberRoleUseCase;
   removeBoardMemberUseCase: RemoveBoardMemberUseCase;
+  getBoardMembersUseCase: GetBoardMembersUseCase;
+  subscribeToBoardEventsUseCase: SubscribeToBoardEventsUseCase;
+  copyBoardUseCase: CopyBoardUseCase;
+  exportBoardUseCase: ExportBoardUseCase;
+  importBoardUseCase: ImportBoardUseCase;
+  importTrelloBoardUseCase: ImportTrelloBoardUseCase;
+  exportCardsCsvUseCase: ExportCardsCsvUseCase;
+  importCardsCsvUseCase: ImportCardsCsvUseCase;
+  
+  // Board Template Use Cases
+  saveBoardAsTemplateUseCase: SaveBoardAsTemplateUseCase;
+  getUserBoardTemplatesUseCase: GetUserBoardTemplatesUseCase;
+  deleteBoardTemplateUseCase: DeleteBoardTemplateUseCase;
   
   // Card Use Cases
   createCardUseCase: CreateCardUseCase;
@@ -116,12 +257,94 @@ export interface Container {
   removeLabelFromCardUseCase: RemoveLabelFromCardUseCase;
   getCardLabelsUseCase: GetCardLabelsUseCase;
   
+  // Comment Use Cases
+  addCommentUseCase: AddCommentUseCase;
+  editCommentUseCase: EditCommentUseCase;
+  deleteCommentUseCase: DeleteCommentUseCase;
+  getCardCommentsUseCase: GetCardCommentsUseCase;
+  
+  // Attachment Use Cases
+  uploadAttachmentUseCase: UploadAttachmentUseCase;
+  getCardAttachmentsUseCase: GetCardAttachmentsUseCase;
+  downloadAttachmentUseCase: DownloadAttachmentUseCase;
+  deleteAttachmentUseCase: DeleteAttachmentUseCase;
+  
+  // Checklist Use Cases
+  createChecklistUseCase: CreateChecklistUseCase;
+  getCardChecklistsUseCase: GetCardChecklistsUseCase;
+  updateChecklistUseCase: UpdateChecklistUseCase;
+  deleteChecklistUseCase: DeleteChecklistUseCase;
+  reorderChecklistsUseCase: ReorderChecklistsUseCase;
+  addChecklistItemUseCase: AddChecklistItemUseCase;
+  updateChecklistItemUseCase: UpdateChecklistItemUseCase;
+  toggleChecklistItemUseCase: ToggleChecklistItemUseCase;
+  deleteChecklistItemUseCase: DeleteChecklistItemUseCase;
+  reorderChecklistItemsUseCase: ReorderChecklistItemsUseCase;
+  convertChecklistItemToCardUseCase: ConvertChecklistItemToCardUseCase;
+  getChecklistProgressUseCase: GetChecklistProgressUseCase;
+  getLabelsForCardsUseCase: GetLabelsForCardsUseCase;
+  
+  // Activity Use Cases
+  getBoardActivityUseCase: GetBoardActivityUseCase;
+  getCardActivityUseCase: GetCardActivityUseCase;
+  getUserActivityUseCase: GetUserActivityUseCase;
+  
+  // Search Use Cases
+  searchCardsUseCase: SearchCardsUseCase;
+  
+  // Notification Use Cases
+  getNotificationsUseCase: GetNotificationsUseCase;
+  markNotificationReadUseCase: MarkNotificationReadUseCase;
+  markAllNotificationsReadUseCase: MarkAllNotificationsReadUseCase;
+  
+  // Watching Use Cases
+  watchUseCase: WatchUseCase;
+  unwatchUseCase: UnwatchUseCase;
+  getWatchedCardsUseCase: GetWatchedCardsUseCase;
+  getWatchingFeedUseCase: GetWatchingFeedUseCase;
+  markWatchingFeedReadUseCase: MarkWatchingFeedReadUseCase;
+  
+  // Webhook Use Cases
+  createWebhookUseCase: CreateWebhookUseCase;
+  getBoardWebhooksUseCase: GetBoardWebhooksUseCase;
+  updateWebhookUseCase: UpdateWebhookUseCase;
+  deleteWebhookUseCase: DeleteWebhookUseCase;
+  getWebhookDeliveriesUseCase: GetWebhookDeliveriesUseCase;
+  redeliverWebhookDeliveryUseCase: RedeliverWebhookDeliveryUseCase;
+  processWebhookDeliveriesUseCase: ProcessWebhookDeliveriesUseCase;
+  
+  // Reminder Use Cases
+  sendDueDateRemindersUseCase: SendDueDateRemindersUseCase;
+  
+  // Recurring Card Use Cases
+  setCardRecurrenceUseCase: SetCardRecurrenceUseCase;
+  getCardRecurrenceUseCase: GetCardRecurrenceUseCase;
+  deleteCardRecurrenceUseCase: DeleteCardRecurrenceUseCase;
+  processCardRecurrencesUseCase: ProcessCardRecurrencesUseCase;
+  
+  // Calendar Feed Use Cases
+  getCalendarFeedUseCase: GetCalendarFeedUseCase;
+  regenerateCalendarTokenUseCase: RegenerateCalendarTokenUseCase;
+  revokeCalendarTokenUseCase: RevokeCalendarTokenUseCase;
+  
   // Controllers
   authController: AuthController;
   boardController: BoardController;
   cardController: CardController;
   listController: ListController;
   labelController: LabelController;
+  commentController: CommentController;
+  attachmentController: AttachmentController;
+  checklistController: ChecklistController;
+  activityController: ActivityController;
+  boardEventController: BoardEventController;
+  searchController: SearchController;
+  boardTemplateController: BoardTemplateController;
+  notificationController: NotificationController;
+  watchController: WatchController;
+  webhookController: WebhookController;
+  cardRecurrenceController: CardRecurrenceController;
+  calendarController: CalendarController;
 }
 
 export function createContainer(prisma: PrismaClient): Container {
@@ -132,6 +355,31 @@ export function createContainer(prisma: PrismaClient): Container {
   const listRepository = new PrismaListRepository(prisma);
   const labelRepository = new PrismaLabelRepository(prisma);
   const activityRepository = new PrismaActivityRepository(prisma);
+  const commentRepository = new PrismaCommentRepository(prisma);
+  const attachmentRepository = new PrismaAttachmentRepository(prisma);
+  const checklistRepository = new PrismaChecklistRepository(prisma);
+  const checklistItemRepository = new PrismaChecklistItemRepository(prisma);
+  const searchRepository = new PrismaSearchRepository(prisma);
+  const boardTemplateRepository = new PrismaBoardTemplateRepository(prisma);
+  const notificationRepository = new PrismaNotificationRepository(prisma);
+  const watchRepository = new PrismaWatchRepository(prisma);
+  const webhookRepository = new PrismaWebhookRepository(prisma);
+  const webhookDeliveryRepository = new PrismaWebhookDeliveryRepository(prisma);
+  const dueDateReminderRepository = new PrismaDueDateReminderRepository(prisma);
+  const cardRecurrenceRepository = new PrismaCardRecurrenceRepository(prisma);
+  
+  // Create services
+  const fileStorage = new LocalFileStorage(storageConfig.uploadDir);
+  const boardEventBus = new InMemoryBoardEventBus();
+  const webhookSender = new HttpWebhookSender(webhookConfig.timeoutMs);
+  const mailer = mailConfig.transport === 'smtp'
+    ? new SmtpMailer({
+        host: mailConfig.smtpHost,
+        port: mailConfig.smtpPort,
+        from: mailConfig.from,
+        timeoutMs: mailConfig.smtpTimeoutMs,
+      })
+    : new FileMailer(mailConfig.dir, mailConfig.from);
   
   // Create auth use cases
   const logoutUserUseCase = new LogoutUserUseCase();
@@ -144,7 +392,8 @@ export function createContainer(prisma: PrismaClient): Container {
   const createBoardUseCase = new CreateBoardUseCase(
     boardRepository,
     userRepository,
-    activityRepository
+    activityRepository,
+    boardTemplateRepository
   );
   const getBoardUseCase = new GetBoardUseCase(boardRepository);
   const updateBoardUseCase = new UpdateBoardUseCase(
@@ -162,25 +411,98 @@ export function createContainer(prisma: PrismaClient): Container {
   const addBoardMemberUseCase = new AddBoardMemberUseCase(
     boardRepository,
     userRepository,
-    activityRepository
+    activityRepository,
+    notificationRepository
   );
   const updateMemberRoleUseCase = new UpdateMemberRoleUseCase(
     boardRepository,
     userRepository,
-    activityRepository
+    activityRepository,
+    notificationRepository
   );
   const removeBoardMemberUseCase = new RemoveBoardMemberUseCase(
     boardRepository,
     userRepository,
     activityRepository
   );
+  const getBoardMembersUseCase = new GetBoardMembersUseCase(
+    boardRepository,
+    userRepository
+  );
+  const subscribeToBoardEventsUseCase = new SubscribeToBoardEventsUseCase(
+    boardRepository,
+    boardEventBus
+  );
+  const copyBoardUseCase = new CopyBoardUseCase(
+    boardRepository,
+    listRepository,
+    labelRepository,
+    cardRepository,
+    checklistRepository,
+    checklistItemRepository,
+    activityRepository
+  );
+  const exportBoardUseCase = new ExportBoardUseCase(
+    boardRepository,
+    listRepository,
+    labelRepository,
+    cardRepository,
+    checklistRepository,
+    checklistItemRepository,
+    commentRepository,
+    userRepository
+  );
+  const importBoardUseCase = new ImportBoardUseCase(
+    boardRepository,
+    userRepository,
+    activityRepository
+  );
+  const importTrelloBoardUseCase = new ImportTrelloBoardUseCase(
+    boardRepository,
+    userRepository,
+    activityRepository
+  );
+  const exportCardsCsvUseCase = new ExportCardsCsvUseCase(
+    boardRepository,
+    listRepository,
+    labelRepository,
+    cardRepository,
+    userRepository
+  );
+  const importCardsCsvUseCase = new ImportCardsCsvUseCase(
+    boardRepository,
+    listRepository,
+    labelRepository,
+    cardRepository,
+    userRepository,
+    activityRepository,
+    boardEventBus,
+    watchRepository
+  );
+  
+  // Create board template use cases
+  const saveBoardAsTemplateUseCase = new SaveBoardAsTemplateUseCase(
+    boardRepository,
+    boardTemplateRepository,
+    listRepository,
+    labelRepository,
+    cardRepository,
+    checklistRepository,
+    checklistItemRepository
+  );
+  const getUserBoardTemplatesUseCase = new GetUserBoardTemplatesUseCase(boardTemplateRepository);
+  const deleteBoardTemplateUseCase = new DeleteBoardTemplateUseCase(boardTemplateRepository);
   
   // Create card use cases
   const createCardUseCase = new CreateCardUseCase(
     cardRepository,
     listRepository,
     boardRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus,
+    userRepository,
+    notificationRepository,
+    watchRepository
   );
   const getCardUseCase = new GetCard(
     cardRepository,
@@ -194,21 +516,27 @@ export function createContainer(prisma: PrismaClient): Container {
     userRepository,
     boardRepository,
     listRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus,
+    notificationRepository,
+    watchRepository
   );
   const moveCardUseCase = new MoveCard(
     cardRepository,
     userRepository,
     boardRepository,
     listRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus,
+    notificationRepository
   );
   const deleteCardUseCase = new DeleteCard(
     cardRepository,
     userRepository,
     boardRepository,
     listRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus
   );
   const getListCardsUseCase = new GetListCards(
     cardRepository,
@@ -221,28 +549,33 @@ export function createContainer(prisma: PrismaClient): Container {
     userRepository,
     boardRepository,
     listRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus,
+    notificationRepository
   );
   const unarchiveCardUseCase = new UnarchiveCard(
     cardRepository,
     userRepository,
     boardRepository,
     listRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus
   );
   const reorderCardsUseCase = new ReorderCards(
     cardRepository,
     userRepository,
     boardRepository,
     listRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus
   );
   
   // Create list use cases
   const createListUseCase = new CreateListUseCase(
     listRepository,
     boardRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus
   );
   const getListUseCase = new GetListUseCase(
     listRepository,
@@ -251,12 +584,14 @@ export function createContainer(prisma: PrismaClient): Container {
   const updateListUseCase = new UpdateListUseCase(
     listRepository,
     boardRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus
   );
   const deleteListUseCase = new DeleteListUseCase(
     listRepository,
     boardRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus
   );
   const getBoardListsUseCase = new GetBoardListsUseCase(
     listRepository,
@@ -265,7 +600,8 @@ export function createContainer(prisma: PrismaClient): Container {
   const reorderListsUseCase = new ReorderListsUseCase(
     listRepository,
     boardRepository,
-    activityRepository
+    activityRepository,
+    boardEventBus
   );
   
   // Create label use cases
@@ -309,11 +645,298 @@ export function createContainer(prisma: PrismaClient): Container {
     listRepository
   );
   
+  // Create comment use cases
+  const addCommentUseCase = new AddCommentUseCase(
+    commentRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    activityRepository
+  );
+  const editCommentUseCase = new EditCommentUseCase(
+    commentRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    activityRepository
+  );
+  const deleteCommentUseCase = new DeleteCommentUseCase(
+    commentRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    activityRepository
+  );
+  const getCardCommentsUseCase = new GetCardCommentsUseCase(
+    commentRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  
+  // Create attachment use cases
+  const uploadAttachmentUseCase = new UploadAttachmentUseCase(
+    attachmentRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    activityRepository,
+    fileStorage
+  );
+  const getCardAttachmentsUseCase = new GetCardAttachmentsUseCase(
+    attachmentRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  const downloadAttachmentUseCase = new DownloadAttachmentUseCase(
+    attachmentRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    fileStorage
+  );
+  const deleteAttachmentUseCase = new DeleteAttachmentUseCase(
+    attachmentRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    activityRepository,
+    fileStorage
+  );
+  
+  // Create checklist use cases
+  const createChecklistUseCase = new CreateChecklistUseCase(
+    checklistRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    activityRepository
+  );
+  const getCardChecklistsUseCase = new GetCardChecklistsUseCase(
+    checklistRepository,
+    checklistItemRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  const updateChecklistUseCase = new UpdateChecklistUseCase(
+    checklistRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    activityRepository
+  );
+  const deleteChecklistUseCase = new DeleteChecklistUseCase(
+    checklistRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    activityRepository
+  );
+  const reorderChecklistsUseCase = new ReorderChecklistsUseCase(
+    checklistRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  const addChecklistItemUseCase = new AddChecklistItemUseCase(
+    checklistItemRepository,
+    checklistRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  const updateChecklistItemUseCase = new UpdateChecklistItemUseCase(
+    checklistItemRepository,
+    checklistRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  const toggleChecklistItemUseCase = new ToggleChecklistItemUseCase(
+    checklistItemRepository,
+    checklistRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    activityRepository
+  );
+  const deleteChecklistItemUseCase = new DeleteChecklistItemUseCase(
+    checklistItemRepository,
+    checklistRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  const reorderChecklistItemsUseCase = new ReorderChecklistItemsUseCase(
+    checklistItemRepository,
+    checklistRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  const convertChecklistItemToCardUseCase = new ConvertChecklistItemToCardUseCase(
+    checklistItemRepository,
+    checklistRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    activityRepository,
+    boardEventBus
+  );
+  const getChecklistProgressUseCase = new GetChecklistProgressUseCase(
+    checklistRepository
+  );
+  const getLabelsForCardsUseCase = new GetLabelsForCardsUseCase(
+    labelRepository
+  );
+  
+  // Create activity use cases
+  const getBoardActivityUseCase = new GetBoardActivityUseCase(
+    activityRepository,
+    boardRepository,
+    userRepository
+  );
+  const getCardActivityUseCase = new GetCardActivityUseCase(
+    activityRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    userRepository
+  );
+  const getUserActivityUseCase = new GetUserActivityUseCase(
+    activityRepository,
+    boardRepository,
+    userRepository
+  );
+  
+  // Create search use cases
+  const searchCardsUseCase = new SearchCardsUseCase(
+    boardRepository,
+    searchRepository
+  );
+  
+  // Create notification use cases
+  const getNotificationsUseCase = new GetNotificationsUseCase(
+    notificationRepository,
+    userRepository
+  );
+  const markNotificationReadUseCase = new MarkNotificationReadUseCase(notificationRepository);
+  const markAllNotificationsReadUseCase = new MarkAllNotificationsReadUseCase(notificationRepository);
+  
+  // Create watching use cases
+  const watchUseCase = new WatchUseCase(
+    watchRepository,
+    boardRepository,
+    listRepository,
+    cardRepository
+  );
+  const unwatchUseCase = new UnwatchUseCase(watchRepository);
+  const getWatchedCardsUseCase = new GetWatchedCardsUseCase(watchRepository);
+  const getWatchingFeedUseCase = new GetWatchingFeedUseCase(
+    activityRepository,
+    watchRepository,
+    userRepository
+  );
+  const markWatchingFeedReadUseCase = new MarkWatchingFeedReadUseCase(watchRepository);
+  
+  // Create webhook use cases
+  const createWebhookUseCase = new CreateWebhookUseCase(webhookRepository, boardRepository);
+  const getBoardWebhooksUseCase = new GetBoardWebhooksUseCase(webhookRepository, boardRepository);
+  const updateWebhookUseCase = new UpdateWebhookUseCase(webhookRepository, boardRepository);
+  const deleteWebhookUseCase = new DeleteWebhookUseCase(webhookRepository, boardRepository);
+  const getWebhookDeliveriesUseCase = new GetWebhookDeliveriesUseCase(
+    webhookDeliveryRepository,
+    webhookRepository,
+    boardRepository
+  );
+  const redeliverWebhookDeliveryUseCase = new RedeliverWebhookDeliveryUseCase(
+    webhookDeliveryRepository,
+    webhookRepository,
+    boardRepository
+  );
+  const processWebhookDeliveriesUseCase = new ProcessWebhookDeliveriesUseCase(
+    webhookDeliveryRepository,
+    webhookRepository,
+    webhookSender
+  );
+  const webhookDeliveryWorker = new PeriodicJob(
+    'Webhook delivery',
+    () => processWebhookDeliveriesUseCase.execute(),
+    webhookConfig.pollIntervalMs
+  );
+  
+  // Create reminder use cases
+  const sendDueDateRemindersUseCase = new SendDueDateRemindersUseCase(
+    cardRepository,
+    listRepository,
+    boardRepository,
+    userRepository,
+    dueDateReminderRepository,
+    mailer,
+    { appUrl: appConfig.frontendUrl }
+  );
+  const dueDateReminderScheduler = new PeriodicJob(
+    'Due-date reminder',
+    () => sendDueDateRemindersUseCase.execute(),
+    reminderConfig.intervalMs
+  );
+  
+  // Create recurring card use cases
+  const setCardRecurrenceUseCase = new SetCardRecurrenceUseCase(
+    cardRecurrenceRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  const getCardRecurrenceUseCase = new GetCardRecurrenceUseCase(
+    cardRecurrenceRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  const deleteCardRecurrenceUseCase = new DeleteCardRecurrenceUseCase(
+    cardRecurrenceRepository,
+    cardRepository,
+    listRepository,
+    boardRepository
+  );
+  const processCardRecurrencesUseCase = new ProcessCardRecurrencesUseCase(
+    cardRecurrenceRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    labelRepository,
+    checklistRepository,
+    checklistItemRepository,
+    activityRepository,
+    boardEventBus
+  );
+  const cardRecurrenceJob = new PeriodicJob(
+    'Card recurrence',
+    () => processCardRecurrencesUseCase.execute(),
+    recurrenceConfig.intervalMs
+  );
+  
+  // Create calendar feed use cases
+  const getCalendarFeedUseCase = new GetCalendarFeedUseCase(
+    userRepository,
+    cardRepository,
+    listRepository,
+    boardRepository,
+    { appUrl: appConfig.frontendUrl }
+  );
+  const regenerateCalendarTokenUseCase = new RegenerateCalendarTokenUseCase(userRepository);
+  const revokeCalendarTokenUseCase = new RevokeCalendarTokenUseCase(userRepository);
+  
   // Create controllers
   const authController = new AuthController(
     logoutUserUseCase,
     getUserProfileUseCase,
-    updateUserProfileUseCase
+    updateUserProfileUseCase,
+    regenerateCalendarTokenUseCase,
+    revokeCalendarTokenUseCase
   );
   const boardController = new BoardController(
     createBoardUseCase,
@@ -323,7 +946,14 @@ export function createContainer(prisma: PrismaClient): Container {
     getUserBoardsUseCase,
     addBoardMemberUseCase,
     updateMemberRoleUseCase,
-    removeBoardMemberUseCase
+    removeBoardMemberUseCase,
+    getBoardMembersUseCase,
+    copyBoardUseCase,
+    exportBoardUseCase,
+    importBoardUseCase,
+    importTrelloBoardUseCase,
+    exportCardsCsvUseCase,
+    importCardsCsvUseCase
   );
   const cardController = new CardController(
     createCardUseCase,
@@ -334,7 +964,10 @@ export function createContainer(prisma: PrismaClient): Container {
     getListCardsUseCase,
     archiveCardUseCase,
     unarchiveCardUseCase,
-    reorderCardsUseCase
+    reorderCardsUseCase,
+    getChecklistProgressUseCase,
+    getLabelsForCardsUseCase,
+    getWatchedCardsUseCase
   );
   const listController = new ListController(
     createListUseCase,
@@ -353,6 +986,72 @@ export function createContainer(prisma: PrismaClient): Container {
     removeLabelFromCardUseCase,
     getCardLabelsUseCase
   );
+  const commentController = new CommentController(
+    addCommentUseCase,
+    editCommentUseCase,
+    deleteCommentUseCase,
+    getCardCommentsUseCase
+  );
+  const attachmentController = new AttachmentController(
+    uploadAttachmentUseCase,
+    getCardAttachmentsUseCase,
+    downloadAttachmentUseCase,
+    deleteAttachmentUseCase
+  );
+  const checklistController = new ChecklistController(
+    createChecklistUseCase,
+    getCardChecklistsUseCase,
+    updateChecklistUseCase,
+    deleteChecklistUseCase,
+    reorderChecklistsUseCase,
+    addChecklistItemUseCase,
+    updateChecklistItemUseCase,
+    toggleChecklistItemUseCase,
+    deleteChecklistItemUseCase,
+    reorderChecklistItemsUseCase,
+    convertChecklistItemToCardUseCase
+  );
+  const activityController = new ActivityController(
+    getBoardActivityUseCase,
+    getCardActivityUseCase,
+    getUserActivityUseCase,
+    getWatchingFeedUseCase,
+    markWatchingFeedReadUseCase
+  );
+  const boardEventController = new BoardEventController(
+    subscribeToBoardEventsUseCase
+  );
+  const searchController = new SearchController(
+    searchCardsUseCase
+  );
+  const boardTemplateController = new BoardTemplateController(
+    saveBoardAsTemplateUseCase,
+    getUserBoardTemplatesUseCase,
+    deleteBoardTemplateUseCase
+  );
+  const notificationController = new NotificationController(
+    getNotificationsUseCase,
+    markNotificationReadUseCase,
+    markAllNotificationsReadUseCase
+  );
+  const watchController = new WatchController(
+    watchUseCase,
+    unwatchUseCase
+  );
+  const webhookController = new WebhookController(
+    createWebhookUseCase,
+    getBoardWebhooksUseCase,
+    updateWebhookUseCase,
+    deleteWebhookUseCase,
+    getWebhookDeliveriesUseCase,
+    redeliverWebhookDeliveryUseCase
+  );
+  const cardRecurrenceController = new CardRecurrenceController(
+    getCardRecurrenceUseCase,
+    setCardRecurrenceUseCase,
+    deleteCardRecurrenceUseCase
+  );
+  const calendarController = new CalendarController(getCalendarFeedUseCase);
   
   return {
     // Database
@@ -365,6 +1064,28 @@ export function createContainer(prisma: PrismaClient): Container {
     listRepository,
     labelRepository,
     activityRepository,
+    commentRepository,
+    attachmentRepository,
+    checklistRepository,
+    checklistItemRepository,
+    searchRepository,
+    boardTemplateRepository,
+    notificationRepository,
+    watchRepository,
+    webhookRepository,
+    webhookDeliveryRepository,
+    dueDateReminderRepository,
+    cardRecurrenceRepository,
+    
+    // Services
+    fileStorage,
+    boardEventPublisher: boardEventBus,
+    boardEventSubscriber: boardEventBus,
+    webhookSender,
+    mailer,
+    webhookDeliveryWorker,
+    dueDateReminderScheduler,
+    cardRecurrenceJob,
     
     // Auth Use Cases
     logoutUserUseCase,
@@ -382,6 +1103,19 @@ export function createContainer(prisma: PrismaClient): Container {
     addBoardMemberUseCase,
     updateMemberRoleUseCase,
     removeBoardMemberUseCase,
+    getBoardMembersUseCase,
+    subscribeToBoardEventsUseCase,
+    copyBoardUseCase,
+    exportBoardUseCase,
+    importBoardUseCase,
+    importTrelloBoardUseCase,
+    exportCardsCsvUseCase,
+    importCardsCsvUseCase,
+    
+    // Board Template Use Cases
+    saveBoardAsTemplateUseCase,
+    getUserBoardTemplatesUseCase,
+    deleteBoardTemplateUseCase,
     
     // Card Use Cases
     createCardUseCase,
@@ -411,11 +1145,93 @@ export function createContainer(prisma: PrismaClient): Container {
     removeLabelFromCardUseCase,
     getCardLabelsUseCase,
     
+    // Comment Use Cases
+    addCommentUseCase,
+    editCommentUseCase,
+    deleteCommentUseCase,
+    getCardCommentsUseCase,
+    
+    // Attachment Use Cases
+    uploadAttachmentUseCase,
+    getCardAttachmentsUseCase,
+    downloadAttachmentUseCase,
+    deleteAttachmentUseCase,
+    
+    // Checklist Use Cases
+    createChecklistUseCase,
+    getCardChecklistsUseCase,
+    updateChecklistUseCase,
+    deleteChecklistUseCase,
+    reorderChecklistsUseCase,
+    addChecklistItemUseCase,
+    updateChecklistItemUseCase,
+    toggleChecklistItemUseCase,
+    deleteChecklistItemUseCase,
+    reorderChecklistItemsUseCase,
+    convertChecklistItemToCardUseCase,
+    getChecklistProgressUseCase,
+    getLabelsForCardsUseCase,
+    
+    // Activity Use Cases
+    getBoardActivityUseCase,
+    getCardActivityUseCase,
+    getUserActivityUseCase,
+    
+    // Search Use Cases
+    searchCardsUseCase,
+    
+    // Notification Use Cases
+    getNotificationsUseCase,
+    markNotificationReadUseCase,
+    markAllNotificationsReadUseCase,
+    
+    // Watching Use Cases
+    watchUseCase,
+    unwatchUseCase,
+    getWatchedCardsUseCase,
+    getWatchingFeedUseCase,
+    markWatchingFeedReadUseCase,
+    
+    // Webhook Use Cases
+    createWebhookUseCase,
+    getBoardWebhooksUseCase,
+    updateWebhookUseCase,
+    deleteWebhookUseCase,
+    getWebhookDeliveriesUseCase,
+    redeliverWebhookDeliveryUseCase,
+    processWebhookDeliveriesUseCase,
+    
+    // Reminder Use Cases
+    sendDueDateRemindersUseCase,
+    
+    // Recurring Card Use Cases
+    setCardRecurrenceUseCase,
+    getCardRecurrenceUseCase,
+    deleteCardRecurrenceUseCase,
+    processCardRecurrencesUseCase,
+    
+    // Calendar Feed Use Cases
+    getCalendarFeedUseCase,
+    regenerateCalendarTokenUseCase,
+    revokeCalendarTokenUseCase,
+    
     // Controllers
     authController,
     boardController,
     cardController,
     listController,
     labelController,
+    commentController,
+    attachmentController,
+    checklistController,
+    activityController,
+    boardEventController,
+    searchController,
+    boardTemplateController,
+    notificationController,
+    watchController,
+    webhookController,
+    cardRecurrenceController,
+    calendarController,
   };
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { BoardEvent } from '@kanban/domain-core';
+import { BoardEventListener } from '@kanban/domain-core';
+import { BoardEventPublisher } from '@kanban/domain-core';
+import { BoardEventSubscriber } from '@kanban/domain-core';
+
+/**
+ * Fans board events out to listeners in this process. Viewers connected to
+ * another instance will not see them, so running more than one backend
+ * needs a shared transport (e.g. Postgres LISTEN/NOTIFY) behind the same ports.
+ */
+export class InMemoryBoardEventBus implements BoardEventPublisher, BoardEventSubscriber {
+  private listeners = new Map<string, Set<BoardEventListener>>();
+
+  async publish(event: BoardEvent): Promise<void> {
+    const listeners = this.listeners.get(event.boardId);
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of [...listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Board event listener failed:', error);
+      }
+    }
+  }
+
+  subscribe(boardId: string, listener: BoardEventListener): () => void {
+    let listeners = this.listeners.get(boardId);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(boardId, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.listeners.get(boardId) === listeners) {
+        this.listeners.delete(boardId);
+      }
+    };
+  }
+}
\ No newline at end of file
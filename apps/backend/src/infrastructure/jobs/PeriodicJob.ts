@@ -0,0 +1,41 @@
+/**
+ * Runs a background task in this process every `intervalMs`. Runs never
+ * overlap, so a slow run delays the next one instead of doing the same work
+ * twice. Running more than one backend needs row locking in the tasks first.
+ */
+export class PeriodicJob {
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
+
+  constructor(
+    private name: string,
+    private task: () => Promise<unknown>,
+    private intervalMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => void this.tick(), this.intervalMs);
+    // Never keep the process alive just for background work
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  async tick(): Promise<void> {
+    if (this.running) return;
+
+    this.running = true;
+    try {
+      await this.task();
+    } catch (error) {
+      console.error(`${this.name} failed:`, error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { Mailer, MailMessage } from '@kanban/domain-core';
+import { formatMailMessage } from '@/infrastructure/mail/formatMailMessage';
+
+/**
+ * Development stand-in that writes each message to `<dir>/<time>-<id>.eml`
+ * instead of sending it; any mail client can open the files.
+ */
+export class FileMailer implements Mailer {
+  constructor(private dir: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const filePath = path.join(this.dir, `${timestamp}-${crypto.randomUUID()}.eml`);
+    await writeFile(filePath, formatMailMessage(this.from, message));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { createConnection, Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { Mailer, MailMessage } from '@kanban/domain-core';
+import { formatMailMessage } from '@/infrastructure/mail/formatMailMessage';
+
+export interface SmtpMailerConfig {
+  host: string;
+  port: number;
+  from: string;
+  timeoutMs: number;
+}
+
+/**
+ * Minimal SMTP client without TLS or authentication, meant for a local
+ * catcher such as Mailpit or MailHog, or a relay on a private network.
+ * One connection is opened per message.
+ */
+export class SmtpMailer implements Mailer {
+  constructor(private config: SmtpMailerConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const socket = createConnection({ host: this.config.host, port: this.config.port });
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.config.timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+    const replies = new SmtpReplyReader(socket);
+
+    const command = async (line: string, ...expected: number[]) => {
+      socket.write(`${line}\r\n`);
+      await replies.expect(...expected);
+    };
+
+    try {
+      await replies.expect(220);
+      await command(`EHLO ${hostname()}`, 250);
+      await command(`MAIL FROM:<${addressOf(this.config.from)}>`, 250);
+      await command(`RCPT TO:<${addressOf(message.to)}>`, 250, 251);
+      await command('DATA', 354);
+
+      // Lines starting with a dot are doubled so they cannot end the message early
+      const data = formatMailMessage(this.config.from, message).replace(/^\./gm, '..');
+      await command(`${data}\r\n.`, 250);
+      await command('QUIT', 221);
+    } finally {
+      socket.destroy();
+    }
+  }
+}
+
+// "Kanban App <no-reply@example.com>" -> "no-reply@example.com"
+function addressOf(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+/**
+ * Collects complete SMTP replies from the socket; continuation lines
+ * (`250-...`) are skipped so each reply resolves once, on its last line.
+ */
+class SmtpReplyReader {
+  private buffer = '';
+  private replies: string[] = [];
+  private waiting?: { resolve: (line: string) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(socket: Socket) {
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      for (;;) {
+        const end = this.buffer.indexOf('\r\n');
+        if (end < 0) break;
+        const line = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        if (line.charAt(3) !== '-') {
+          this.push(line);
+        }
+      }
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  async expect(...codes: number[]): Promise<void> {
+    const line = await this.next();
+    if (!codes.includes(Number(line.slice(0, 3)))) {
+      throw new Error(`SMTP server replied: ${line}`);
+    }
+  }
+
+  private next(): Promise<string> {
+    const line = this.replies.shift();
+    if (line !== undefined) {
+      return Promise.resolve(line);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  private push(line: string): void {
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    if (waiting) {
+      waiting.resolve(line);
+    } else {
+      this.replies.push(line);
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.reject(this.failure);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { hostname } from 'node:os';
+import { MailMessage } from '@kanban/domain-core';
+
+// Non-ASCII header values are sent as RFC 2047 encoded words
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * Renders a plain-text message as RFC 5322 with CRLF line endings, ready to
+ * be written to an .eml file or sent as SMTP DATA.
+ */
+export function formatMailMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+
+  return [...headers, '', ...message.text.split(/\r?\n/)].join('\r\n');
+}
\ No newline at end of file
@@ -1,6 +1,8 @@
-import { PrismaClient } from '@prisma/client';
-import { Activity, ActivityType, EntityType } from '@kanban/domain-core';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { Activity, ActivityType, EntityType, WebhookDelivery } from '@kanban/domain-core';
 import { ActivityRepository, CreateActivityData } from '@kanban/domain-core';
+import { PrismaWebhookRepository } from '@/infrastructure/repositories/PrismaWebhookRepository';
+import { PrismaWebhookDeliveryRepository } from '@/infrastructure/repositories/PrismaWebhookDeliveryRepository';
 
 export class PrismaActivityRepository implements ActivityRepository {
   constructor(private prisma: PrismaClient) {}
@@ -18,6 +20,7 @@ export class PrismaActivityRepository implements ActivityRepository {
       entityType: activityData.entityType as EntityType,
       entityId: activityData.entityId,
       entityTitle: activityData.entityTitle,
+      description: activityData.description || undefined,
       data: activityData.data ? (activityData.data as Record<string, any>) : undefined,
       userId: activityData.userId,
       boardId: activityData.boardId,
@@ -29,6 +32,7 @@ export class PrismaActivityRepository implements ActivityRepository {
   async findByBoard(boardId: string, options?: {
     limit?: number;
     offset?: number;
+    cursor?: string;
     userId?: string;
     entityType?: EntityType;
     action?: ActivityType;
@@ -62,8 +66,7 @@ export class PrismaActivityRepository implements ActivityRepository {
     const activitiesData = await this.prisma.activity.findMany({
       where,
       take: options?.limit,
-      skip: options?.offset,
-      orderBy: { createdAt: 'desc' },
+      ...this.paginationArgs(options),
     });
 
     return this.mapToDomainActivities(activitiesData);
@@ -72,6 +75,7 @@ export class PrismaActivityRepository implements ActivityRepository {
   async findByCard(cardId: string, options?: {
     limit?: number;
     offset?: number;
+    cursor?: string;
     userId?: string;
     action?: ActivityType;
   }): Promise<Activity[]> {
@@ -88,8 +92,7 @@ export class PrismaActivityRepository implements ActivityRepository {
     const activitiesData = await this.prisma.activity.findMany({
       where,
       take: options?.limit,
-      skip: options?.offset,
-      orderBy: { createdAt: 'desc' },
+      ...this.paginationArgs(options),
     });
 
     return this.mapToDomainActivities(activitiesData);
@@ -99,6 +102,7 @@ export class PrismaActivityRepository implements ActivityRepository {
     boardId?: string;
     limit?: number;
     offset?: number;
+    cursor?: string;
     fromDate?: Date;
     toDate?: Date;
   }): Promise<Activity[]> {
@@ -121,26 +125,44 @@ export class PrismaActivityRepository implements ActivityRepository {
     const activitiesData = await this.prisma.activity.findMany({
       where,
       take: options?.limit,
-      skip: options?.offset,
-      orderBy: { createdAt: 'desc' },
+      ...this.paginationArgs(options),
     });
 
     return this.mapToDomainActivities(activitiesData);
   }
 
-  async create(data: CreateActivityData): Promise<Activity> {
-    // Create Activity entity with provided data
-    const activityData = {
-      description: data.description,
-      ...data.data
-    };
+  async findWatchedBy(userId: string, options?: {
+    limit?: number;
+    cursor?: string;
+  }): Promise<Activity[]> {
+    const activitiesData = await this.prisma.activity.findMany({
+      where: await this.watchedWhere(userId),
+      take: options?.limit,
+      ...this.paginationArgs(options),
+    });
+
+    return this.mapToDomainActivities(activitiesData);
+  }
+
+  async countWatchedBy(userId: string, options?: {
+    since?: Date;
+  }): Promise<number> {
+    const where = await this.watchedWhere(userId);
+
+    return this.prisma.activity.count({
+      where: options?.since ? { ...where, createdAt: { gt: options.since } } : where,
+    });
+  }
 
-    const activity = Activity.create({
+  async create<T extends ActivityType>(data: CreateActivityData<T>): Promise<Activity> {
+    // Create Activity entity with provided data
+    const activity = Activity.create<T>({
       action: data.type,
       entityType: data.entityType,
       entityId: data.entityId,
       entityTitle: data.entityTitle,
-      data: activityData,
+      description: data.description,
+      data: data.data,
       userId: data.userId,
       boardId: data.boardId,
       cardId: data.cardId,
@@ -155,19 +177,39 @@ export class PrismaActivityRepository implements ActivityRepository {
   async save(activity: Activity): Promise<void> {
     const activityData = activity.toJSON();
 
-    await this.prisma.activity.create({
-      data: {
-        id: activityData.id,
-        action: activityData.action,
-        entityType: activityData.entityType,
-        entityId: activityData.entityId,
-        entityTitle: activityData.entityTitle,
-        data: activityData.data,
-        userId: activityData.userId,
-        boardId: activityData.boardId,
-        cardId: activityData.cardId || undefined,
-        createdAt: activityData.createdAt,
-      },
+    // Webhook deliveries are queued in the same transaction, so every
+    // recorded activity reaches its subscribers even if the process stops
+    // before the delivery worker runs
+    await this.prisma.$transaction(async (tx) => {
+      await tx.activity.create({
+        data: {
+          id: activityData.id,
+          action: activityData.action,
+          entityType: activityData.entityType,
+          entityId: activityData.entityId,
+          entityTitle: activityData.entityTitle,
+          description: activityData.description,
+          data: activityData.data,
+          userId: activityData.userId,
+          boardId: activityData.boardId,
+          cardId: activityData.cardId || undefined,
+          createdAt: activityData.createdAt,
+        },
+      });
+
+      const webhooks = await tx.webhook.findMany({
+        where: { boardId: activityData.boardId, isActive: true, events: { has: activityData.action } },
+      });
+      const deliveries = webhooks
+        .map(webhookData => PrismaWebhookRepository.mapToDomain(webhookData))
+        .filter(webhook => webhook.subscribesTo(activity.action))
+        .map(webhook => WebhookDelivery.forActivity(webhook.id, activity));
+
+      if (deliveries.length > 0) {
+        await tx.webhookDelivery.createMany({
+          data: deliveries.map(delivery => PrismaWebhookDeliveryRepository.toCreateData(delivery.toJSON())),
+        });
+      }
     });
   }
 
@@ -186,6 +228,44 @@ export class PrismaActivityRepository implements ActivityRepository {
     });
   }
 
+  // Activity by others on watched boards, on watched cards, on cards in watched
+  // lists and on watched lists themselves, mirroring Board.canBeViewedBy
+  private async watchedWhere(userId: string): Promise<Prisma.ActivityWhereInput> {
+    const listWatches = await this.prisma.watch.findMany({
+      where: { userId, listId: { not: null } },
+      select: { listId: true },
+    });
+    const watchedListIds = listWatches.flatMap(watch => watch.listId ?? []);
+    const watchedBy = { some: { userId } };
+
+    return {
+      userId: { not: userId },
+      OR: [
+        { board: { watchers: watchedBy } },
+        { card: { watchers: watchedBy } },
+        { card: { list: { watchers: watchedBy } } },
+        { entityType: 'LIST', entityId: { in: watchedListIds } },
+      ],
+      board: {
+        OR: [
+          { ownerId: userId },
+          { isArchived: false, isPublic: true },
+          { isArchived: false, members: { some: { userId } } },
+        ],
+      },
+    };
+  }
+
+  // Newest first; the id tiebreaker keeps cursor pages stable when timestamps collide
+  private paginationArgs(options?: { offset?: number; cursor?: string }) {
+    return {
+      orderBy: [{ createdAt: 'desc' as const }, { id: 'desc' as const }],
+      ...(options?.cursor
+        ? { cursor: { id: options.cursor }, skip: 1 }
+        : { skip: options?.offset }),
+    };
+  }
+
   private mapToDomainActivities(activitiesData: any[]): Activity[] {
     return activitiesData.map(activityData => Activity.fromPersistence({
       id: activityData.id,
@@ -193,6 +273,7 @@ export class PrismaActivityRepository implements ActivityRepository {
       entityType: activityData.entityType as EntityType,
       entityId: activityData.entityId,
       entityTitle: activityData.entityTitle,
+      description: activityData.description || undefined,
       data: activityData.data ? (activityData.data as Record<string, any>) : undefined,
       userId: activityData.userId,
       boardId: activityData.boardId,
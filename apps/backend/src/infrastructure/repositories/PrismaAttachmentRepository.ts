@@ -0,0 +1,47 @@
+import { PrismaClient } from '@prisma/client';
+import { Attachment } from '@kanban/domain-core';
+import { AttachmentRepository } from '@kanban/domain-core';
+
+export class PrismaAttachmentRepository implements AttachmentRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<Attachment | null> {
+    const attachmentData = await this.prisma.attachment.findUnique({
+      where: { id },
+    });
+
+    if (!attachmentData) return null;
+
+    return Attachment.fromPersistence(attachmentData);
+  }
+
+  async findByCard(cardId: string): Promise<Attachment[]> {
+    const attachmentsData = await this.prisma.attachment.findMany({
+      where: { cardId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return attachmentsData.map(attachmentData => Attachment.fromPersistence(attachmentData));
+  }
+
+  async save(attachment: Attachment): Promise<void> {
+    const attachmentData = attachment.toJSON();
+
+    await this.prisma.attachment.upsert({
+      where: { id: attachmentData.id },
+      create: attachmentData,
+      update: {
+        filename: attachmentData.filename,
+        url: attachmentData.url,
+        mimeType: attachmentData.mimeType,
+        size: attachmentData.size,
+      },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.attachment.delete({
+      where: { id },
+    });
+  }
+}
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { Board, BoardRole } from '@kanban/domain-core';
-import { BoardRepository, BoardMember } from '@kanban/domain-core';
+import { BoardRepository, BoardMember, BoardContents } from '@kanban/domain-core';
 
 export class PrismaBoardRepository implements BoardRepository {
   constructor(private prisma: PrismaClient) {}
@@ -145,6 +145,64 @@ export class PrismaBoardRepository implements BoardRepository {
     });
   }
 
+  async createWithContents(contents: BoardContents): Promise<void> {
+    const boardData = contents.board.toJSON();
+
+    // Parents before children, so every foreign key already exists
+    await this.prisma.$transaction([
+      this.prisma.board.create({
+        data: {
+          id: boardData.id,
+          title: boardData.title,
+          description: boardData.description,
+          backgroundUrl: boardData.backgroundUrl,
+          isPublic: boardData.isPublic,
+          isArchived: boardData.isArchived,
+          ownerId: boardData.ownerId,
+          createdAt: boardData.createdAt,
+          updatedAt: boardData.updatedAt,
+        },
+      }),
+      this.prisma.boardMember.create({
+        data: {
+          boardId: boardData.id,
+          userId: boardData.ownerId,
+          role: 'OWNER',
+        },
+      }),
+      this.prisma.boardMember.createMany({
+        data: contents.members.map(member => ({ boardId: boardData.id, ...member })),
+      }),
+      this.prisma.label.createMany({
+        data: contents.labels.map(label => label.toJSON()),
+      }),
+      this.prisma.list.createMany({
+        data: contents.lists.map(list => list.toJSON()),
+      }),
+      this.prisma.card.createMany({
+        data: contents.cards.map(card => {
+          const { assigneeIds: _assigneeIds, ...data } = card.toJSON();
+          return data;
+        }),
+      }),
+      this.prisma.cardAssignee.createMany({
+        data: contents.cards.flatMap(card => card.assigneeIds.map(userId => ({ cardId: card.id, userId }))),
+      }),
+      this.prisma.cardLabel.createMany({
+        data: contents.cardLabels,
+      }),
+      this.prisma.checklist.createMany({
+        data: contents.checklists.map(checklist => checklist.toJSON()),
+      }),
+      this.prisma.checklistItem.createMany({
+        data: contents.checklistItems.map(item => item.toJSON()),
+      }),
+      this.prisma.comment.createMany({
+        data: contents.comments.map(comment => comment.toJSON()),
+      }),
+    ]);
+  }
+
   async delete(id: string): Promise<void> {
     await this.prisma.board.delete({
       where: { id },
@@ -226,4 +284,23 @@ export class PrismaBoardRepository implements BoardRepository {
     });
     return count > 0;
   }
+
+  async findCoMemberIds(userId: string): Promise<string[]> {
+    const shared = { OR: [{ ownerId: userId }, { members: { some: { userId } } }] };
+    const [members, boards] = await Promise.all([
+      this.prisma.boardMember.findMany({
+        where: { board: shared, userId: { not: userId } },
+        select: { userId: true },
+        distinct: ['userId'],
+      }),
+      // Boards created before owners were stored as members have no OWNER row
+      this.prisma.board.findMany({
+        where: { members: { some: { userId } }, ownerId: { not: userId } },
+        select: { ownerId: true },
+        distinct: ['ownerId'],
+      }),
+    ]);
+
+    return [...new Set([...members.map(member => member.userId), ...boards.map(board => board.ownerId)])];
+  }
 }
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { BoardBlueprint, BoardTemplate } from '@kanban/domain-core';
+import { BoardTemplateRepository } from '@kanban/domain-core';
+
+export class PrismaBoardTemplateRepository implements BoardTemplateRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<BoardTemplate | null> {
+    const templateData = await this.prisma.boardTemplate.findUnique({
+      where: { id },
+    });
+
+    if (!templateData) return null;
+
+    return this.mapToDomain(templateData);
+  }
+
+  async findByOwner(ownerId: string): Promise<BoardTemplate[]> {
+    const templatesData = await this.prisma.boardTemplate.findMany({
+      where: { ownerId },
+      orderBy: { name: 'asc' },
+    });
+
+    return templatesData.map(templateData => this.mapToDomain(templateData));
+  }
+
+  async save(template: BoardTemplate): Promise<void> {
+    const templateData = template.toJSON();
+    const blueprint = templateData.blueprint as unknown as Prisma.InputJsonValue;
+
+    await this.prisma.boardTemplate.upsert({
+      where: { id: templateData.id },
+      create: {
+        id: templateData.id,
+        name: templateData.name,
+        description: templateData.description,
+        sourceBoardId: templateData.sourceBoardId,
+        blueprint,
+        ownerId: templateData.ownerId,
+        createdAt: templateData.createdAt,
+        updatedAt: templateData.updatedAt,
+      },
+      update: {
+        name: templateData.name,
+        description: templateData.description,
+        blueprint,
+        updatedAt: templateData.updatedAt,
+      },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.boardTemplate.delete({
+      where: { id },
+    });
+  }
+
+  private mapToDomain(templateData: {
+    id: string;
+    name: string;
+    description: string | null;
+    sourceBoardId: string | null;
+    blueprint: Prisma.JsonValue;
+    ownerId: string;
+    createdAt: Date;
+    updatedAt: Date;
+  }): BoardTemplate {
+    return BoardTemplate.fromPersistence({
+      id: templateData.id,
+      name: templateData.name,
+      description: templateData.description || undefined,
+      sourceBoardId: templateData.sourceBoardId || undefined,
+      blueprint: templateData.blueprint as unknown as BoardBlueprint,
+      ownerId: templateData.ownerId,
+      createdAt: templateData.createdAt,
+      updatedAt: templateData.updatedAt,
+    });
+  }
+}
\ No newline at end of file
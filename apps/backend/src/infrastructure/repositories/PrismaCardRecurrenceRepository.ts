@@ -0,0 +1,101 @@
+import { CardRecurrence as PrismaCardRecurrence, PrismaClient } from '@prisma/client';
+import { CardRecurrence, RecurrenceRule } from '@kanban/domain-core';
+import { CardRecurrenceRepository } from '@kanban/domain-core';
+
+export class PrismaCardRecurrenceRepository implements CardRecurrenceRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findByCard(cardId: string): Promise<CardRecurrence | null> {
+    const recurrenceData = await this.prisma.cardRecurrence.findUnique({
+      where: { cardId },
+    });
+
+    if (!recurrenceData) return null;
+
+    return this.mapToDomain(recurrenceData);
+  }
+
+  async findDue(now: Date, limit: number): Promise<CardRecurrence[]> {
+    const recurrencesData = await this.prisma.cardRecurrence.findMany({
+      where: { nextRunAt: { lte: now } },
+      take: limit,
+      orderBy: [{ nextRunAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return recurrencesData.map(recurrenceData => this.mapToDomain(recurrenceData));
+  }
+
+  async save(recurrence: CardRecurrence): Promise<void> {
+    const recurrenceData = recurrence.toJSON();
+    const data = {
+      ...this.toRuleData(recurrenceData.rule),
+      targetListId: recurrenceData.targetListId ?? null,
+      nextRunAt: recurrenceData.nextRunAt,
+      lastRunAt: recurrenceData.lastRunAt,
+      updatedAt: recurrenceData.updatedAt,
+    };
+
+    await this.prisma.cardRecurrence.upsert({
+      where: { id: recurrenceData.id },
+      create: {
+        ...data,
+        id: recurrenceData.id,
+        cardId: recurrenceData.cardId,
+        createdAt: recurrenceData.createdAt,
+      },
+      update: data,
+    });
+  }
+
+  async claimRun(recurrence: CardRecurrence, previousRunAt: Date): Promise<boolean> {
+    const result = await this.prisma.cardRecurrence.updateMany({
+      where: { id: recurrence.id, nextRunAt: previousRunAt },
+      data: {
+        nextRunAt: recurrence.nextRunAt,
+        lastRunAt: recurrence.lastRunAt,
+        updatedAt: recurrence.updatedAt,
+      },
+    });
+
+    return result.count === 1;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.cardRecurrence.delete({
+      where: { id },
+    });
+  }
+
+  // Columns a frequency does not use are cleared, so a changed rule leaves nothing behind
+  private toRuleData(rule: RecurrenceRule) {
+    return {
+      frequency: rule.frequency,
+      hour: rule.hour ?? null,
+      minute: rule.minute ?? null,
+      weekdays: rule.weekdays ?? [],
+      dayOfMonth: rule.dayOfMonth ?? null,
+      cron: rule.cron ?? null,
+    };
+  }
+
+  private mapToDomain(recurrenceData: PrismaCardRecurrence): CardRecurrence {
+    const time = { hour: recurrenceData.hour ?? 0, minute: recurrenceData.minute ?? 0 };
+    const rules: Record<PrismaCardRecurrence['frequency'], RecurrenceRule> = {
+      DAILY: { frequency: 'DAILY', ...time },
+      WEEKLY: { frequency: 'WEEKLY', ...time, weekdays: recurrenceData.weekdays },
+      MONTHLY: { frequency: 'MONTHLY', ...time, dayOfMonth: recurrenceData.dayOfMonth ?? 1 },
+      CRON: { frequency: 'CRON', cron: recurrenceData.cron ?? '' },
+    };
+
+    return CardRecurrence.fromPersistence({
+      id: recurrenceData.id,
+      cardId: recurrenceData.cardId,
+      rule: rules[recurrenceData.frequency],
+      targetListId: recurrenceData.targetListId || undefined,
+      nextRunAt: recurrenceData.nextRunAt,
+      lastRunAt: recurrenceData.lastRunAt || undefined,
+      createdAt: recurrenceData.createdAt,
+      updatedAt: recurrenceData.updatedAt,
+    });
+  }
+}
\ No newline at end of file
@@ -1,6 +1,24 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { Card } from '@kanban/domain-core';
-import { CardRepository } from '@kanban/domain-core';
+import { CardContents, CardRepository } from '@kanban/domain-core';
+import { rankAfter } from '@kanban/domain-core';
+import { spreadRanks } from '@kanban/domain-core';
+
+// Assignees come back in the order they were assigned
+const WITH_ASSIGNEES = {
+  assignees: {
+    select: { userId: true },
+    orderBy: { assignedAt: 'asc' },
+  },
+} satisfies Prisma.CardInclude;
+
+type CardWithAssignees = Prisma.CardGetPayload<{ include: typeof WITH_ASSIGNEES }>;
+
+// Cards with a start or due date
+const SCHEDULED = [
+  { startDate: { not: null } },
+  { dueDate: { not: null } },
+] satisfies Prisma.CardWhereInput[];
 
 export class PrismaCardRepository implements CardRepository {
   constructor(private prisma: PrismaClient) {}
@@ -8,25 +26,12 @@ export class PrismaCardRepository implements CardRepository {
   async findById(id: string): Promise<Card | null> {
     const cardData = await this.prisma.card.findUnique({
       where: { id },
+      include: WITH_ASSIGNEES,
     });
 
     if (!cardData) return null;
 
-    return Card.fromPersistence({
-      id: cardData.id,
-      title: cardData.title,
-      description: cardData.description || undefined,
-      position: cardData.position,
-      dueDate: cardData.dueDate || undefined,
-      startDate: cardData.startDate || undefined,
-      isArchived: cardData.isArchived,
-      coverUrl: cardData.coverUrl || undefined,
-      listId: cardData.listId,
-      creatorId: cardData.creatorId,
-      assigneeId: cardData.assigneeId || undefined,
-      createdAt: cardData.createdAt,
-      updatedAt: cardData.updatedAt,
-    });
+    return this.mapToDomainCard(cardData);
   }
 
   async findByList(listId: string, options?: {
@@ -45,6 +50,7 @@ export class PrismaCardRepository implements CardRepository {
 
     const cardsData = await this.prisma.card.findMany({
       where,
+      include: WITH_ASSIGNEES,
       orderBy: { [orderBy]: order },
     });
 
@@ -58,6 +64,7 @@ export class PrismaCardRepository implements CardRepository {
       from?: Date;
       to?: Date;
     };
+    scheduled?: boolean;
     limit?: number;
     offset?: number;
   }): Promise<Card[]> {
@@ -70,7 +77,7 @@ export class PrismaCardRepository implements CardRepository {
     }
 
     if (options?.assigneeId) {
-      where.assigneeId = options.assigneeId;
+      where.assignees = { some: { userId: options.assigneeId } };
     }
 
     if (options?.dueDate) {
@@ -83,8 +90,13 @@ export class PrismaCardRepository implements CardRepository {
       }
     }
 
+    if (options?.scheduled) {
+      where.OR = SCHEDULED;
+    }
+
     const cardsData = await this.prisma.card.findMany({
       where,
+      include: WITH_ASSIGNEES,
       take: options?.limit,
       skip: options?.offset,
       orderBy: { createdAt: 'desc' },
@@ -96,10 +108,18 @@ export class PrismaCardRepository implements CardRepository {
   async findByAssignee(assigneeId: string, options?: {
     includeArchived?: boolean;
     boardId?: string;
+    includeWatched?: boolean;
+    scheduled?: boolean;
     limit?: number;
     offset?: number;
   }): Promise<Card[]> {
-    const where: any = { assigneeId };
+    const assigned = { assignees: { some: { userId: assigneeId } } };
+    const where: any = {
+      AND: [
+        options?.includeWatched ? { OR: [assigned, { watchers: { some: { userId: assigneeId } } }] } : assigned,
+        ...(options?.scheduled ? [{ OR: SCHEDULED }] : []),
+      ],
+    };
     
     if (!options?.includeArchived) {
       where.isArchived = false;
@@ -111,6 +131,7 @@ export class PrismaCardRepository implements CardRepository {
 
     const cardsData = await this.prisma.card.findMany({
       where,
+      include: WITH_ASSIGNEES,
       take: options?.limit,
       skip: options?.offset,
       orderBy: { dueDate: 'asc' },
@@ -122,16 +143,18 @@ export class PrismaCardRepository implements CardRepository {
   async findOverdueCards(options?: {
     boardId?: string;
     assigneeId?: string;
+    dueAfter?: Date;
   }): Promise<Card[]> {
     const where: any = {
       dueDate: {
         lt: new Date(),
+        ...(options?.dueAfter ? { gt: options.dueAfter } : {}),
       },
       isArchived: false,
     };
 
     if (options?.assigneeId) {
-      where.assigneeId = options.assigneeId;
+      where.assignees = { some: { userId: options.assigneeId } };
     }
 
     if (options?.boardId) {
@@ -140,6 +163,20 @@ export class PrismaCardRepository implements CardRepository {
 
     const cardsData = await this.prisma.card.findMany({
       where,
+      include: WITH_ASSIGNEES,
+      orderBy: { dueDate: 'asc' },
+    });
+
+    return this.mapToDomainCards(cardsData);
+  }
+
+  async findCardsDueBetween(from: Date, to: Date): Promise<Card[]> {
+    const cardsData = await this.prisma.card.findMany({
+      where: {
+        dueDate: { gte: from, lt: to },
+        isArchived: false,
+      },
+      include: WITH_ASSIGNEES,
       orderBy: { dueDate: 'asc' },
     });
 
@@ -149,7 +186,7 @@ export class PrismaCardRepository implements CardRepository {
   async save(card: Card): Promise<void> {
     const cardData = card.toJSON();
 
-    await this.prisma.card.upsert({
+    const upsert = this.prisma.card.upsert({
       where: { id: cardData.id },
       create: {
         id: cardData.id,
@@ -162,7 +199,6 @@ export class PrismaCardRepository implements CardRepository {
         coverUrl: cardData.coverUrl,
         listId: cardData.listId,
         creatorId: cardData.creatorId,
-        assigneeId: cardData.assigneeId,
         createdAt: cardData.createdAt,
         updatedAt: cardData.updatedAt,
       },
@@ -175,10 +211,45 @@ export class PrismaCardRepository implements CardRepository {
         isArchived: cardData.isArchived,
         coverUrl: cardData.coverUrl,
         listId: cardData.listId,
-        assigneeId: cardData.assigneeId,
         updatedAt: cardData.updatedAt,
       },
     });
+
+    // Only the difference is written, so existing assignments keep their timestamps
+    await this.prisma.$transaction([
+      upsert,
+      this.prisma.cardAssignee.deleteMany({
+        where: { cardId: cardData.id, userId: { notIn: cardData.assigneeIds } },
+      }),
+      this.prisma.cardAssignee.createMany({
+        data: cardData.assigneeIds.map(userId => ({ cardId: cardData.id, userId })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }
+
+  async createWithContents(contents: CardContents): Promise<void> {
+    // Parents before children, so every foreign key already exists
+    await this.prisma.$transaction([
+      this.prisma.card.createMany({
+        data: contents.cards.map(card => {
+          const { assigneeIds: _assigneeIds, ...data } = card.toJSON();
+          return data;
+        }),
+      }),
+      this.prisma.cardAssignee.createMany({
+        data: contents.cards.flatMap(card => card.assigneeIds.map(userId => ({ cardId: card.id, userId }))),
+      }),
+      this.prisma.cardLabel.createMany({
+        data: contents.cardLabels,
+      }),
+      this.prisma.checklist.createMany({
+        data: contents.checklists.map(checklist => checklist.toJSON()),
+      }),
+      this.prisma.checklistItem.createMany({
+        data: contents.checklistItems.map(item => item.toJSON()),
+      }),
+    ]);
   }
 
   async delete(id: string): Promise<void> {
@@ -202,7 +273,7 @@ export class PrismaCardRepository implements CardRepository {
     await this.prisma.$transaction(
       cardPositions.map(({ id, position }) =>
         this.prisma.card.update({
-          where: { id },
+          where: { id, listId },
           data: {
             position,
             updatedAt: new Date(),
@@ -212,13 +283,58 @@ export class PrismaCardRepository implements CardRepository {
     );
   }
 
+  async findNeighbourPositions(listId: string, position: number, excludeCardId: string): Promise<{ before?: number; after?: number }> {
+    // Inclusive bounds so a card sharing the rank counts as a neighbour
+    const [before, after] = await Promise.all([
+      this.prisma.card.findFirst({
+        where: { listId, position: { lte: position }, id: { not: excludeCardId } },
+        orderBy: { position: 'desc' },
+        select: { position: true },
+      }),
+      this.prisma.card.findFirst({
+        where: { listId, position: { gte: position }, id: { not: excludeCardId } },
+        orderBy: { position: 'asc' },
+        select: { position: true },
+      }),
+    ]);
+
+    return { before: before?.position, after: after?.position };
+  }
+
+  async rebalancePositions(listId: string): Promise<{ id: string; position: number }[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const cards = await tx.card.findMany({
+        where: { listId },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+        select: { id: true },
+      });
+
+      const ranks = spreadRanks(cards.length);
+      const positions = cards.map((card, index) => ({ id: card.id, position: ranks[index]! }));
+      for (const { id, position } of positions) {
+        await tx.card.update({
+          where: { id },
+          data: { position },
+        });
+      }
+
+      return positions;
+    });
+  }
+
   async getNextPosition(listId: string): Promise<number> {
     const lastCard = await this.prisma.card.findFirst({
       where: { listId },
       orderBy: { position: 'desc' },
     });
 
-    return (lastCard?.position ?? -1) + 1;
+    return rankAfter(lastCard?.position);
+  }
+
+  async countOpenInList(listId: string): Promise<number> {
+    return this.prisma.card.count({
+      where: { listId, isArchived: false },
+    });
   }
 
   async existsInList(cardId: string, listId: string): Promise<boolean> {
@@ -228,8 +344,12 @@ export class PrismaCardRepository implements CardRepository {
     return count > 0;
   }
 
-  private mapToDomainCards(cardsData: any[]): Card[] {
-    return cardsData.map(cardData => Card.fromPersistence({
+  private mapToDomainCards(cardsData: CardWithAssignees[]): Card[] {
+    return cardsData.map(cardData => this.mapToDomainCard(cardData));
+  }
+
+  private mapToDomainCard(cardData: CardWithAssignees): Card {
+    return Card.fromPersistence({
       id: cardData.id,
       title: cardData.title,
       description: cardData.description || undefined,
@@ -240,9 +360,9 @@ export class PrismaCardRepository implements CardRepository {
       coverUrl: cardData.coverUrl || undefined,
       listId: cardData.listId,
       creatorId: cardData.creatorId,
-      assigneeId: cardData.assigneeId || undefined,
+      assigneeIds: cardData.assignees.map(assignee => assignee.userId),
       createdAt: cardData.createdAt,
       updatedAt: cardData.updatedAt,
-    }));
+    });
   }
 }
\ No newline at end of file
@@ -0,0 +1,126 @@
+import { PrismaClient } from '@prisma/client';
+import { ChecklistItem } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+
+export class PrismaChecklistItemRepository implements ChecklistItemRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<ChecklistItem | null> {
+    const itemData = await this.prisma.checklistItem.findUnique({
+      where: { id },
+    });
+
+    if (!itemData) return null;
+
+    return this.toDomain(itemData);
+  }
+
+  async findByChecklist(checklistId: string): Promise<ChecklistItem[]> {
+    const itemsData = await this.prisma.checklistItem.findMany({
+      where: { checklistId },
+      orderBy: { position: 'asc' },
+    });
+
+    return itemsData.map(itemData => this.toDomain(itemData));
+  }
+
+  async findByChecklists(checklistIds: string[]): Promise<ChecklistItem[]> {
+    if (checklistIds.length === 0) return [];
+
+    const itemsData = await this.prisma.checklistItem.findMany({
+      where: { checklistId: { in: checklistIds } },
+      orderBy: { position: 'asc' },
+    });
+
+    return itemsData.map(itemData => this.toDomain(itemData));
+  }
+
+  async save(item: ChecklistItem): Promise<void> {
+    const itemData = item.toJSON();
+
+    await this.prisma.checklistItem.upsert({
+      where: { id: itemData.id },
+      create: {
+        id: itemData.id,
+        content: itemData.content,
+        isCompleted: itemData.isCompleted,
+        position: itemData.position,
+        completedAt: itemData.completedAt ?? null,
+        checklistId: itemData.checklistId,
+        createdAt: itemData.createdAt,
+        updatedAt: itemData.updatedAt,
+      },
+      update: {
+        content: itemData.content,
+        isCompleted: itemData.isCompleted,
+        position: itemData.position,
+        completedAt: itemData.completedAt ?? null,
+        updatedAt: itemData.updatedAt,
+      },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.checklistItem.delete({
+      where: { id },
+    });
+  }
+
+  async reorderItems(checklistId: string, itemPositions: { id: string; position: number }[]): Promise<void> {
+    // Move rows out of the way first so the (checklistId, position) unique index never collides mid-update
+    await this.prisma.$transaction([
+      ...itemPositions.map(({ id }, index) =>
+        this.prisma.checklistItem.update({
+          where: { id, checklistId },
+          data: { position: -(index + 1) },
+        })
+      ),
+      ...itemPositions.map(({ id, position }) =>
+        this.prisma.checklistItem.update({
+          where: { id, checklistId },
+          data: { position },
+        })
+      ),
+    ]);
+  }
+
+  async getNextPosition(checklistId: string): Promise<number> {
+    const maxPosition = await this.prisma.checklistItem.aggregate({
+      where: { checklistId },
+      _max: { position: true },
+    });
+
+    return (maxPosition._max.position || 0) + 1;
+  }
+
+  async existsInChecklist(itemId: string, checklistId: string): Promise<boolean> {
+    const item = await this.prisma.checklistItem.findFirst({
+      where: { id: itemId, checklistId },
+      select: { id: true },
+    });
+
+    return item !== null;
+  }
+
+  private toDomain(itemData: {
+    id: string;
+    content: string;
+    isCompleted: boolean;
+    position: number;
+    completedAt: Date | null;
+    checklistId: string;
+    createdAt: Date;
+    updatedAt: Date;
+  }): ChecklistItem {
+    return ChecklistItem.fromPersistence({
+      id: itemData.id,
+      content: itemData.content,
+      isCompleted: itemData.isCompleted,
+      position: itemData.position,
+      completedAt: itemData.completedAt ?? undefined,
+      checklistId: itemData.checklistId,
+      createdAt: itemData.createdAt,
+      updatedAt: itemData.updatedAt,
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { PrismaClient } from '@prisma/client';
+import { Checklist } from '@kanban/domain-core';
+import { ChecklistRepository, ChecklistProgress } from '@kanban/domain-core';
+
+export class PrismaChecklistRepository implements ChecklistRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<Checklist | null> {
+    const checklistData = await this.prisma.checklist.findUnique({
+      where: { id },
+    });
+
+    if (!checklistData) return null;
+
+    return Checklist.fromPersistence({
+      id: checklistData.id,
+      title: checklistData.title,
+      position: checklistData.position,
+      cardId: checklistData.cardId,
+      createdAt: checklistData.createdAt,
+      updatedAt: checklistData.updatedAt,
+    });
+  }
+
+  async findByCard(cardId: string): Promise<Checklist[]> {
+    const checklistsData = await this.prisma.checklist.findMany({
+      where: { cardId },
+      orderBy: { position: 'asc' },
+    });
+
+    return checklistsData.map(checklistData => Checklist.fromPersistence({
+      id: checklistData.id,
+      title: checklistData.title,
+      position: checklistData.position,
+      cardId: checklistData.cardId,
+      createdAt: checklistData.createdAt,
+      updatedAt: checklistData.updatedAt,
+    }));
+  }
+
+  async save(checklist: Checklist): Promise<void> {
+    const checklistData = checklist.toJSON();
+
+    await this.prisma.checklist.upsert({
+      where: { id: checklistData.id },
+      create: {
+        id: checklistData.id,
+        title: checklistData.title,
+        position: checklistData.position,
+        cardId: checklistData.cardId,
+        createdAt: checklistData.createdAt,
+        updatedAt: checklistData.updatedAt,
+      },
+      update: {
+        title: checklistData.title,
+        position: checklistData.position,
+        updatedAt: checklistData.updatedAt,
+      },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.checklist.delete({
+      where: { id },
+    });
+  }
+
+  async reorderChecklists(cardId: string, checklistPositions: { id: string; position: number }[]): Promise<void> {
+    // Move rows out of the way first so the (cardId, position) unique index never collides mid-update
+    await this.prisma.$transaction([
+      ...checklistPositions.map(({ id }, index) =>
+        this.prisma.checklist.update({
+          where: { id, cardId },
+          data: { position: -(index + 1) },
+        })
+      ),
+      ...checklistPositions.map(({ id, position }) =>
+        this.prisma.checklist.update({
+          where: { id, cardId },
+          data: { position },
+        })
+      ),
+    ]);
+  }
+
+  async getNextPosition(cardId: string): Promise<number> {
+    const maxPosition = await this.prisma.checklist.aggregate({
+      where: { cardId },
+      _max: { position: true },
+    });
+
+    return (maxPosition._max.position || 0) + 1;
+  }
+
+  async existsInCard(checklistId: string, cardId: string): Promise<boolean> {
+    const checklist = await this.prisma.checklist.findFirst({
+      where: { id: checklistId, cardId },
+      select: { id: true },
+    });
+
+    return checklist !== null;
+  }
+
+  async getProgressByCards(cardIds: string[]): Promise<Map<string, ChecklistProgress>> {
+    const items = await this.prisma.checklistItem.findMany({
+      where: { checklist: { cardId: { in: cardIds } } },
+      select: {
+        isCompleted: true,
+        checklist: { select: { cardId: true } },
+      },
+    });
+
+    const progress = new Map<string, ChecklistProgress>();
+    for (const item of items) {
+      const entry = progress.get(item.checklist.cardId) ?? { completed: 0, total: 0 };
+      entry.total += 1;
+      if (item.isCompleted) {
+        entry.completed += 1;
+      }
+      progress.set(item.checklist.cardId, entry);
+    }
+
+    return progress;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { PrismaClient } from '@prisma/client';
+import { Comment } from '@kanban/domain-core';
+import { CommentRepository } from '@kanban/domain-core';
+
+export class PrismaCommentRepository implements CommentRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<Comment | null> {
+    const commentData = await this.prisma.comment.findUnique({
+      where: { id },
+    });
+
+    if (!commentData) return null;
+
+    return Comment.fromPersistence({
+      id: commentData.id,
+      content: commentData.content,
+      cardId: commentData.cardId,
+      userId: commentData.userId,
+      createdAt: commentData.createdAt,
+      updatedAt: commentData.updatedAt,
+    });
+  }
+
+  async findByCard(cardId: string, options?: {
+    limit?: number;
+    offset?: number;
+    order?: 'asc' | 'desc';
+  }): Promise<Comment[]> {
+    const commentsData = await this.prisma.comment.findMany({
+      where: { cardId },
+      take: options?.limit,
+      skip: options?.offset,
+      orderBy: { createdAt: options?.order || 'asc' },
+    });
+
+    return commentsData.map(commentData => Comment.fromPersistence({
+      id: commentData.id,
+      content: commentData.content,
+      cardId: commentData.cardId,
+      userId: commentData.userId,
+      createdAt: commentData.createdAt,
+      updatedAt: commentData.updatedAt,
+    }));
+  }
+
+  async countByCard(cardId: string): Promise<number> {
+    return this.prisma.comment.count({
+      where: { cardId },
+    });
+  }
+
+  async save(comment: Comment): Promise<void> {
+    const commentData = comment.toJSON();
+
+    await this.prisma.comment.upsert({
+      where: { id: commentData.id },
+      create: {
+        id: commentData.id,
+        content: commentData.content,
+        cardId: commentData.cardId,
+        userId: commentData.userId,
+        createdAt: commentData.createdAt,
+        updatedAt: commentData.updatedAt,
+      },
+      update: {
+        content: commentData.content,
+        updatedAt: commentData.updatedAt,
+      },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.comment.delete({
+      where: { id },
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { PrismaClient } from '@prisma/client';
+import { DueDateReminder } from '@kanban/domain-core';
+import { DueDateReminderRepository } from '@kanban/domain-core';
+
+export class PrismaDueDateReminderRepository implements DueDateReminderRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async claim(reminder: DueDateReminder): Promise<boolean> {
+    const reminderData = reminder.toJSON();
+
+    // The unique (card, user, kind, due date) index turns a second claim into a no-op
+    const result = await this.prisma.dueDateReminder.createMany({
+      data: [{
+        id: reminderData.id,
+        kind: reminderData.kind,
+        dueDate: reminderData.dueDate,
+        sentAt: reminderData.sentAt,
+        cardId: reminderData.cardId,
+        userId: reminderData.userId,
+      }],
+      skipDuplicates: true,
+    });
+
+    return result.count === 1;
+  }
+
+  async release(id: string): Promise<void> {
+    await this.prisma.dueDateReminder.deleteMany({
+      where: { id },
+    });
+  }
+}
\ No newline at end of file
@@ -98,6 +98,31 @@ export class PrismaLabelRepository implements LabelRepository {
     }));
   }
 
+  async getLabelsByCards(cardIds: string[]): Promise<Map<string, Label[]>> {
+    const cardLabels = await this.prisma.cardLabel.findMany({
+      where: { cardId: { in: cardIds } },
+      include: {
+        label: true,
+      },
+      orderBy: { label: { createdAt: 'asc' } },
+    });
+
+    const labels = new Map<string, Label[]>();
+    for (const cardLabel of cardLabels) {
+      const entry = labels.get(cardLabel.cardId) ?? [];
+      entry.push(Label.fromPersistence({
+        id: cardLabel.label.id,
+        name: cardLabel.label.name,
+        color: cardLabel.label.color,
+        boardId: cardLabel.label.boardId,
+        createdAt: cardLabel.label.createdAt,
+      }));
+      labels.set(cardLabel.cardId, entry);
+    }
+
+    return labels;
+  }
+
   async isAttachedToCard(cardId: string, labelId: string): Promise<boolean> {
     const count = await this.prisma.cardLabel.count({
       where: {
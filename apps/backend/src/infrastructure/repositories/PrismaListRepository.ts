@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import { List } from '@kanban/domain-core';
 import { ListRepository } from '@kanban/domain-core';
+import { rankAfter } from '@kanban/domain-core';
+import { spreadRanks } from '@kanban/domain-core';
 
 export class PrismaListRepository implements ListRepository {
   constructor(private prisma: PrismaClient) {}
@@ -17,6 +19,8 @@ export class PrismaListRepository implements ListRepository {
       title: listData.title,
       position: listData.position,
       color: listData.color || undefined,
+      wipLimit: listData.wipLimit ?? undefined,
+      wipLimitMode: listData.wipLimitMode,
       boardId: listData.boardId,
       createdAt: listData.createdAt,
       updatedAt: listData.updatedAt,
@@ -40,6 +44,8 @@ export class PrismaListRepository implements ListRepository {
       title: listData.title,
       position: listData.position,
       color: listData.color || undefined,
+      wipLimit: listData.wipLimit ?? undefined,
+      wipLimitMode: listData.wipLimitMode,
       boardId: listData.boardId,
       createdAt: listData.createdAt,
       updatedAt: listData.updatedAt,
@@ -56,6 +62,8 @@ export class PrismaListRepository implements ListRepository {
         title: listData.title,
         position: listData.position,
         color: listData.color,
+        wipLimit: listData.wipLimit ?? null,
+        wipLimitMode: listData.wipLimitMode,
         boardId: listData.boardId,
         createdAt: listData.createdAt,
         updatedAt: listData.updatedAt,
@@ -64,6 +72,8 @@ export class PrismaListRepository implements ListRepository {
         title: listData.title,
         position: listData.position,
         color: listData.color,
+        wipLimit: listData.wipLimit ?? null,
+        wipLimitMode: listData.wipLimitMode,
         updatedAt: listData.updatedAt,
       },
     });
@@ -87,13 +97,34 @@ export class PrismaListRepository implements ListRepository {
     );
   }
 
+  async rebalancePositions(boardId: string): Promise<{ id: string; position: number }[]> {
+    return this.prisma.$transaction(async (tx) => {
+      const lists = await tx.list.findMany({
+        where: { boardId },
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+        select: { id: true },
+      });
+
+      const ranks = spreadRanks(lists.length);
+      const positions = lists.map((list, index) => ({ id: list.id, position: ranks[index]! }));
+      for (const { id, position } of positions) {
+        await tx.list.update({
+          where: { id },
+          data: { position },
+        });
+      }
+
+      return positions;
+    });
+  }
+
   async getNextPosition(boardId: string): Promise<number> {
     const maxPosition = await this.prisma.list.aggregate({
       where: { boardId },
       _max: { position: true },
     });
 
-    return (maxPosition._max.position || 0) + 1;
+    return rankAfter(maxPosition._max.position);
   }
 
   async existsInBoard(listId: string, boardId: string): Promise<boolean> {
@@ -0,0 +1,97 @@
+import { Notification as PrismaNotification, PrismaClient } from '@prisma/client';
+import { Notification, NotificationProps } from '@kanban/domain-core';
+import { NotificationRepository } from '@kanban/domain-core';
+
+export class PrismaNotificationRepository implements NotificationRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<Notification | null> {
+    const notificationData = await this.prisma.notification.findUnique({
+      where: { id },
+    });
+
+    if (!notificationData) return null;
+
+    return this.mapToDomain(notificationData);
+  }
+
+  async findByUser(userId: string, options?: {
+    unreadOnly?: boolean;
+    limit?: number;
+    cursor?: string;
+  }): Promise<Notification[]> {
+    const notificationsData = await this.prisma.notification.findMany({
+      where: {
+        userId,
+        ...(options?.unreadOnly ? { readAt: null } : {}),
+      },
+      take: options?.limit,
+      // Newest first; the id tiebreaker keeps cursor pages stable when timestamps collide
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...(options?.cursor ? { cursor: { id: options.cursor }, skip: 1 } : {}),
+    });
+
+    return notificationsData.map(notificationData => this.mapToDomain(notificationData));
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return this.prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+  }
+
+  async save(notification: Notification): Promise<void> {
+    const notificationData = notification.toJSON();
+
+    await this.prisma.notification.upsert({
+      where: { id: notificationData.id },
+      create: this.toCreateData(notificationData),
+      update: {
+        readAt: notificationData.readAt,
+      },
+    });
+  }
+
+  async createMany(notifications: Notification[]): Promise<void> {
+    await this.prisma.notification.createMany({
+      data: notifications.map(notification => this.toCreateData(notification.toJSON())),
+    });
+  }
+
+  async markAllAsRead(userId: string): Promise<number> {
+    const result = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    return result.count;
+  }
+
+  private toCreateData(notificationData: NotificationProps) {
+    return {
+      id: notificationData.id,
+      type: notificationData.type,
+      message: notificationData.message,
+      readAt: notificationData.readAt,
+      createdAt: notificationData.createdAt,
+      userId: notificationData.userId,
+      actorId: notificationData.actorId,
+      boardId: notificationData.boardId,
+      cardId: notificationData.cardId,
+    };
+  }
+
+  private mapToDomain(notificationData: PrismaNotification): Notification {
+    return Notification.fromPersistence({
+      id: notificationData.id,
+      type: notificationData.type,
+      userId: notificationData.userId,
+      actorId: notificationData.actorId || undefined,
+      message: notificationData.message,
+      boardId: notificationData.boardId || undefined,
+      cardId: notificationData.cardId || undefined,
+      readAt: notificationData.readAt || undefined,
+      createdAt: notificationData.createdAt,
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,204 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  CardSearchFilters,
+  CardSearchHit,
+  SearchMatchSource,
+  SearchRepository,
+  SearchSnippet,
+} from '@kanban/domain-core';
+
+// ts_headline wraps matched terms in these markers. Any that are already in
+// the text are stripped before highlighting, so the markers turn into offsets
+// unambiguously
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const MARKER_CHARS = `${HIGHLIGHT_START}${HIGHLIGHT_STOP}`;
+const MARKERS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}`;
+const TITLE_HEADLINE_OPTIONS = `${MARKERS}, HighlightAll=true`;
+const BODY_HEADLINE_OPTIONS = `${MARKERS}, MaxWords=30, MinWords=10, MaxFragments=2`;
+
+const MAX_SNIPPETS_PER_CARD = 3;
+
+interface RankedCardRow {
+  cardId: string;
+  cardTitle: string;
+  dueDate: Date | null;
+  listId: string;
+  listTitle: string;
+  boardId: string;
+  boardTitle: string;
+  rank: number;
+}
+
+interface SnippetRow {
+  cardId: string;
+  source: SearchMatchSource;
+  sourceId: string | null;
+  text: string;
+}
+
+export class PrismaSearchRepository implements SearchRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async searchCards(query: string, filters: CardSearchFilters, options?: {
+    limit?: number;
+    offset?: number;
+  }): Promise<CardSearchHit[]> {
+    if (filters.boardIds.length === 0) {
+      return [];
+    }
+
+    // A card ranks by the sum of everything on it that matched
+    const rows = await this.prisma.$queryRaw<RankedCardRow[]>`
+      WITH search AS (SELECT websearch_to_tsquery('simple', ${query}) AS tsq),
+      matches AS (
+        SELECT c."id" AS "cardId", ts_rank(c."searchVector", search.tsq) AS rank
+        FROM "Card" c, search
+        WHERE c."searchVector" @@ search.tsq
+        UNION ALL
+        SELECT cm."cardId", ts_rank(cm."searchVector", search.tsq)
+        FROM "Comment" cm, search
+        WHERE cm."searchVector" @@ search.tsq
+        UNION ALL
+        SELECT cl."cardId", ts_rank(ci."searchVector", search.tsq)
+        FROM "ChecklistItem" ci
+        JOIN "Checklist" cl ON cl."id" = ci."checklistId"
+        CROSS JOIN search
+        WHERE ci."searchVector" @@ search.tsq
+      )
+      SELECT
+        c."id" AS "cardId",
+        c."title" AS "cardTitle",
+        c."dueDate" AS "dueDate",
+        l."id" AS "listId",
+        l."title" AS "listTitle",
+        b."id" AS "boardId",
+        b."title" AS "boardTitle",
+        SUM(m.rank)::float8 AS rank
+      FROM matches m
+      JOIN "Card" c ON c."id" = m."cardId"
+      JOIN "List" l ON l."id" = c."listId"
+      JOIN "Board" b ON b."id" = l."boardId"
+      WHERE b."id" IN (${Prisma.join(filters.boardIds)})
+        AND c."isArchived" = false
+        ${this.filterClauses(filters)}
+      GROUP BY c."id", l."id", b."id"
+      ORDER BY rank DESC, c."updatedAt" DESC, c."id"
+      LIMIT ${options?.limit ?? 20}
+      OFFSET ${options?.offset ?? 0}
+    `;
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const snippets = await this.findSnippets(query, rows.map(row => row.cardId));
+
+    return rows.map(row => ({
+      cardId: row.cardId,
+      cardTitle: row.cardTitle,
+      dueDate: row.dueDate || undefined,
+      listId: row.listId,
+      listTitle: row.listTitle,
+      boardId: row.boardId,
+      boardTitle: row.boardTitle,
+      rank: row.rank,
+      snippets: snippets.get(row.cardId) ?? [],
+    }));
+  }
+
+  private filterClauses(filters: CardSearchFilters): Prisma.Sql {
+    const clauses: Prisma.Sql[] = [];
+
+    if (filters.listId) {
+      clauses.push(Prisma.sql`AND c."listId" = ${filters.listId}`);
+    }
+
+    if (filters.labelId) {
+      clauses.push(Prisma.sql`AND EXISTS (
+        SELECT 1 FROM "CardLabel" lbl WHERE lbl."cardId" = c."id" AND lbl."labelId" = ${filters.labelId}
+      )`);
+    }
+
+    if (filters.assigneeId) {
+      clauses.push(Prisma.sql`AND EXISTS (
+        SELECT 1 FROM "CardAssignee" ca WHERE ca."cardId" = c."id" AND ca."userId" = ${filters.assigneeId}
+      )`);
+    }
+
+    if (filters.dueDate?.from) {
+      clauses.push(Prisma.sql`AND c."dueDate" >= ${filters.dueDate.from}`);
+    }
+
+    if (filters.dueDate?.to) {
+      clauses.push(Prisma.sql`AND c."dueDate" <= ${filters.dueDate.to}`);
+    }
+
+    return clauses.length > 0 ? Prisma.join(clauses, ' ') : Prisma.empty;
+  }
+
+  private async findSnippets(query: string, cardIds: string[]): Promise<Map<string, SearchSnippet[]>> {
+    const ids = Prisma.join(cardIds);
+
+    const rows = await this.prisma.$queryRaw<SnippetRow[]>`
+      WITH search AS (SELECT websearch_to_tsquery('simple', ${query}) AS tsq)
+      SELECT c."id" AS "cardId", 'title' AS source, NULL AS "sourceId",
+        ts_headline('simple', translate(c."title", ${MARKER_CHARS}, ''), search.tsq, ${TITLE_HEADLINE_OPTIONS}) AS text
+      FROM "Card" c, search
+      WHERE c."id" IN (${ids}) AND to_tsvector('simple', c."title") @@ search.tsq
+      UNION ALL
+      SELECT c."id", 'description', NULL,
+        ts_headline('simple', translate(c."description", ${MARKER_CHARS}, ''), search.tsq, ${BODY_HEADLINE_OPTIONS})
+      FROM "Card" c, search
+      WHERE c."id" IN (${ids}) AND to_tsvector('simple', coalesce(c."description", '')) @@ search.tsq
+      UNION ALL
+      SELECT cm."cardId", 'comment', cm."id",
+        ts_headline('simple', translate(cm."content", ${MARKER_CHARS}, ''), search.tsq, ${BODY_HEADLINE_OPTIONS})
+      FROM "Comment" cm, search
+      WHERE cm."cardId" IN (${ids}) AND cm."searchVector" @@ search.tsq
+      UNION ALL
+      SELECT cl."cardId", 'checklist', ci."id",
+        ts_headline('simple', translate(ci."content", ${MARKER_CHARS}, ''), search.tsq, ${BODY_HEADLINE_OPTIONS})
+      FROM "ChecklistItem" ci
+      JOIN "Checklist" cl ON cl."id" = ci."checklistId"
+      CROSS JOIN search
+      WHERE cl."cardId" IN (${ids}) AND ci."searchVector" @@ search.tsq
+    `;
+
+    const snippetsByCard = new Map<string, SearchSnippet[]>();
+    for (const row of rows) {
+      const snippets = snippetsByCard.get(row.cardId) ?? [];
+      if (snippets.length < MAX_SNIPPETS_PER_CARD) {
+        snippets.push(this.toSnippet(row));
+        snippetsByCard.set(row.cardId, snippets);
+      }
+    }
+    return snippetsByCard;
+  }
+
+  private toSnippet(row: SnippetRow): SearchSnippet {
+    const highlights: SearchSnippet['highlights'] = [];
+    let text = '';
+    let start = -1;
+
+    for (const char of row.text) {
+      if (char === HIGHLIGHT_START) {
+        start = text.length;
+      } else if (char === HIGHLIGHT_STOP) {
+        if (start >= 0) {
+          highlights.push({ start, length: text.length - start });
+        }
+        start = -1;
+      } else {
+        text += char;
+      }
+    }
+
+    return {
+      source: row.source,
+      sourceId: row.sourceId || undefined,
+      text,
+      highlights,
+    };
+  }
+}
\ No newline at end of file
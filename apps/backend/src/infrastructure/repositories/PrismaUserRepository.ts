@@ -14,6 +14,8 @@ export class PrismaUserRepository implements UserRepository {
       name: userData.name || undefined,
       avatarUrl: userData.avatarUrl || undefined,
       isActive: userData.isActive,
+      reminderLeadMinutes: userData.reminderLeadMinutes ?? undefined,
+      calendarToken: userData.calendarToken ?? undefined,
       createdAt: userData.createdAt,
       updatedAt: userData.updatedAt,
     });
@@ -59,6 +61,16 @@ export class PrismaUserRepository implements UserRepository {
     return this.mapToUser(userData);
   }
 
+  async findByCalendarToken(calendarToken: string): Promise<User | null> {
+    const userData = await this.prisma.user.findUnique({
+      where: { calendarToken },
+    });
+
+    if (!userData) return null;
+
+    return this.mapToUser(userData);
+  }
+
   async create(user: User): Promise<User> {
     const userData = user.toJSON();
 
@@ -71,6 +83,8 @@ export class PrismaUserRepository implements UserRepository {
         name: userData.name,
         avatarUrl: userData.avatarUrl,
         isActive: userData.isActive,
+        reminderLeadMinutes: userData.reminderLeadMinutes ?? null,
+        calendarToken: userData.calendarToken ?? null,
         createdAt: userData.createdAt,
         updatedAt: userData.updatedAt,
       },
@@ -91,6 +105,8 @@ export class PrismaUserRepository implements UserRepository {
         name: userData.name,
         avatarUrl: userData.avatarUrl,
         isActive: userData.isActive,
+        reminderLeadMinutes: userData.reminderLeadMinutes ?? null,
+        calendarToken: userData.calendarToken ?? null,
         updatedAt: userData.updatedAt,
       },
     });
@@ -111,6 +127,8 @@ export class PrismaUserRepository implements UserRepository {
         name: userData.name,
         avatarUrl: userData.avatarUrl,
         isActive: userData.isActive,
+        reminderLeadMinutes: userData.reminderLeadMinutes ?? null,
+        calendarToken: userData.calendarToken ?? null,
         createdAt: userData.createdAt,
         updatedAt: userData.updatedAt,
       },
@@ -121,6 +139,8 @@ export class PrismaUserRepository implements UserRepository {
         name: userData.name,
         avatarUrl: userData.avatarUrl,
         isActive: userData.isActive,
+        reminderLeadMinutes: userData.reminderLeadMinutes ?? null,
+        calendarToken: userData.calendarToken ?? null,
         updatedAt: userData.updatedAt,
       },
     });
@@ -132,6 +152,16 @@ export class PrismaUserRepository implements UserRepository {
     });
   }
 
+  async findByIds(ids: string[]): Promise<User[]> {
+    if (ids.length === 0) return [];
+
+    const usersData = await this.prisma.user.findMany({
+      where: { id: { in: ids } },
+    });
+
+    return usersData.map(userData => this.mapToUser(userData));
+  }
+
   async findMany(filters?: {
     isActive?: boolean;
     limit?: number;
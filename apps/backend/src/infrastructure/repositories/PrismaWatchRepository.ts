@@ -0,0 +1,63 @@
+import { PrismaClient } from '@prisma/client';
+import { WatchTarget, WatchTargetType } from '@kanban/domain-core';
+import { WatchRepository } from '@kanban/domain-core';
+
+// Each watch row sets exactly one of these foreign keys
+const TARGET_COLUMNS = {
+  CARD: 'cardId',
+  LIST: 'listId',
+  BOARD: 'boardId',
+} as const satisfies Record<WatchTargetType, string>;
+
+export class PrismaWatchRepository implements WatchRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async isWatching(userId: string, target: WatchTarget): Promise<boolean> {
+    const count = await this.prisma.watch.count({
+      where: { userId, [TARGET_COLUMNS[target.type]]: target.id },
+    });
+
+    return count > 0;
+  }
+
+  async watch(userIds: string[], target: WatchTarget): Promise<void> {
+    if (userIds.length === 0) return;
+
+    await this.prisma.watch.createMany({
+      data: [...new Set(userIds)].map(userId => ({ userId, [TARGET_COLUMNS[target.type]]: target.id })),
+      skipDuplicates: true,
+    });
+  }
+
+  async unwatch(userId: string, target: WatchTarget): Promise<void> {
+    await this.prisma.watch.deleteMany({
+      where: { userId, [TARGET_COLUMNS[target.type]]: target.id },
+    });
+  }
+
+  async findWatchedIds(userId: string, type: WatchTargetType, targetIds: string[]): Promise<Set<string>> {
+    const column = TARGET_COLUMNS[type];
+    const watches = await this.prisma.watch.findMany({
+      where: { userId, [column]: { in: targetIds } },
+      select: { [column]: true },
+    });
+
+    return new Set(watches.flatMap(watch => (watch as Record<string, string | null>)[column] ?? []));
+  }
+
+  async getFeedReadAt(userId: string): Promise<Date | null> {
+    const state = await this.prisma.watchingFeedState.findUnique({
+      where: { userId },
+    });
+
+    return state?.readAt ?? null;
+  }
+
+  async setFeedReadAt(userId: string, readAt: Date): Promise<void> {
+    await this.prisma.watchingFeedState.upsert({
+      where: { userId },
+      create: { userId, readAt },
+      update: { readAt },
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { Prisma, WebhookDelivery as PrismaWebhookDelivery, PrismaClient } from '@prisma/client';
+import { WebhookDelivery, WebhookDeliveryProps, WebhookPayload } from '@kanban/domain-core';
+import { WebhookDeliveryRepository } from '@kanban/domain-core';
+
+export class PrismaWebhookDeliveryRepository implements WebhookDeliveryRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<WebhookDelivery | null> {
+    const deliveryData = await this.prisma.webhookDelivery.findUnique({
+      where: { id },
+    });
+
+    if (!deliveryData) return null;
+
+    return this.mapToDomain(deliveryData);
+  }
+
+  async findByWebhook(webhookId: string, options?: {
+    limit?: number;
+    cursor?: string;
+  }): Promise<WebhookDelivery[]> {
+    const deliveriesData = await this.prisma.webhookDelivery.findMany({
+      where: { webhookId },
+      take: options?.limit,
+      // Newest first; the id tiebreaker keeps cursor pages stable when timestamps collide
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...(options?.cursor ? { cursor: { id: options.cursor }, skip: 1 } : {}),
+    });
+
+    return deliveriesData.map(deliveryData => this.mapToDomain(deliveryData));
+  }
+
+  async findDue(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    const deliveriesData = await this.prisma.webhookDelivery.findMany({
+      where: {
+        status: 'PENDING',
+        nextAttemptAt: { lte: now },
+        webhook: { isActive: true },
+      },
+      take: limit,
+      orderBy: { nextAttemptAt: 'asc' },
+    });
+
+    return deliveriesData.map(deliveryData => this.mapToDomain(deliveryData));
+  }
+
+  async save(delivery: WebhookDelivery): Promise<void> {
+    const deliveryData = delivery.toJSON();
+
+    await this.prisma.webhookDelivery.upsert({
+      where: { id: deliveryData.id },
+      create: PrismaWebhookDeliveryRepository.toCreateData(deliveryData),
+      update: {
+        status: deliveryData.status,
+        attempts: deliveryData.attempts,
+        nextAttemptAt: deliveryData.nextAttemptAt ?? null,
+        lastAttemptAt: deliveryData.lastAttemptAt,
+        responseStatus: deliveryData.responseStatus ?? null,
+        error: deliveryData.error ?? null,
+        deliveredAt: deliveryData.deliveredAt,
+      },
+    });
+  }
+
+  // Shared with the activity repository, which queues deliveries in the same transaction as the activity
+  static toCreateData(deliveryData: WebhookDeliveryProps): Prisma.WebhookDeliveryUncheckedCreateInput {
+    return {
+      id: deliveryData.id,
+      activityId: deliveryData.activityId,
+      event: deliveryData.event,
+      payload: deliveryData.payload as unknown as Prisma.InputJsonValue,
+      status: deliveryData.status,
+      attempts: deliveryData.attempts,
+      nextAttemptAt: deliveryData.nextAttemptAt,
+      lastAttemptAt: deliveryData.lastAttemptAt,
+      responseStatus: deliveryData.responseStatus,
+      error: deliveryData.error,
+      redeliveryOf: deliveryData.redeliveryOf,
+      deliveredAt: deliveryData.deliveredAt,
+      createdAt: deliveryData.createdAt,
+      webhookId: deliveryData.webhookId,
+    };
+  }
+
+  private mapToDomain(deliveryData: PrismaWebhookDelivery): WebhookDelivery {
+    return WebhookDelivery.fromPersistence({
+      id: deliveryData.id,
+      webhookId: deliveryData.webhookId,
+      activityId: deliveryData.activityId || undefined,
+      event: deliveryData.event,
+      payload: deliveryData.payload as unknown as WebhookPayload,
+      status: deliveryData.status,
+      attempts: deliveryData.attempts,
+      nextAttemptAt: deliveryData.nextAttemptAt || undefined,
+      lastAttemptAt: deliveryData.lastAttemptAt || undefined,
+      responseStatus: deliveryData.responseStatus ?? undefined,
+      error: deliveryData.error || undefined,
+      redeliveryOf: deliveryData.redeliveryOf || undefined,
+      deliveredAt: deliveryData.deliveredAt || undefined,
+      createdAt: deliveryData.createdAt,
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { Webhook as PrismaWebhook, PrismaClient } from '@prisma/client';
+import { Webhook } from '@kanban/domain-core';
+import { WebhookRepository } from '@kanban/domain-core';
+
+export class PrismaWebhookRepository implements WebhookRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<Webhook | null> {
+    const webhookData = await this.prisma.webhook.findUnique({
+      where: { id },
+    });
+
+    if (!webhookData) return null;
+
+    return PrismaWebhookRepository.mapToDomain(webhookData);
+  }
+
+  async findByBoard(boardId: string): Promise<Webhook[]> {
+    const webhooksData = await this.prisma.webhook.findMany({
+      where: { boardId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return webhooksData.map(webhookData => PrismaWebhookRepository.mapToDomain(webhookData));
+  }
+
+  async save(webhook: Webhook): Promise<void> {
+    const webhookData = webhook.toJSON();
+
+    await this.prisma.webhook.upsert({
+      where: { id: webhookData.id },
+      create: {
+        id: webhookData.id,
+        url: webhookData.url,
+        secret: webhookData.secret,
+        events: webhookData.events,
+        isActive: webhookData.isActive,
+        createdAt: webhookData.createdAt,
+        updatedAt: webhookData.updatedAt,
+        boardId: webhookData.boardId,
+        creatorId: webhookData.creatorId,
+      },
+      update: {
+        url: webhookData.url,
+        secret: webhookData.secret,
+        events: webhookData.events,
+        isActive: webhookData.isActive,
+        updatedAt: webhookData.updatedAt,
+      },
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.webhook.delete({
+      where: { id },
+    });
+  }
+
+  // Shared with the activity repository, which reads webhooks inside its own transaction
+  static mapToDomain(webhookData: PrismaWebhook): Webhook {
+    return Webhook.fromPersistence({
+      id: webhookData.id,
+      boardId: webhookData.boardId,
+      url: webhookData.url,
+      secret: webhookData.secret,
+      events: webhookData.events,
+      isActive: webhookData.isActive,
+      creatorId: webhookData.creatorId || undefined,
+      createdAt: webhookData.createdAt,
+      updatedAt: webhookData.updatedAt,
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { FileStorage } from '@kanban/domain-core';
+
+/**
+ * Stores files on the local filesystem under a single root directory.
+ * The returned location is the path relative to that root.
+ */
+export class LocalFileStorage implements FileStorage {
+  private rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async put(key: string, data: Uint8Array, _mimeType: string): Promise<string> {
+    const filePath = this.resolve(key);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+    return key;
+  }
+
+  async get(location: string): Promise<Uint8Array | null> {
+    try {
+      return new Uint8Array(await readFile(this.resolve(location)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(location: string): Promise<void> {
+    await rm(this.resolve(location), { force: true });
+  }
+
+  // Keep every key inside the root directory
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return filePath;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { createHmac } from 'node:crypto';
+import { WebhookAttemptResult } from '@kanban/domain-core';
+import { WebhookRequest, WebhookSender } from '@kanban/domain-core';
+
+/**
+ * Posts deliveries as JSON. Receivers verify `X-Kanban-Signature-256`, the
+ * hex HMAC-SHA256 of the raw body keyed with the webhook secret, the same
+ * way GitHub signs its webhooks.
+ */
+export class HttpWebhookSender implements WebhookSender {
+  constructor(private timeoutMs: number) {}
+
+  async send(request: WebhookRequest): Promise<WebhookAttemptResult> {
+    const body = JSON.stringify(request.payload);
+    const signature = createHmac('sha256', request.secret).update(body).digest('hex');
+
+    try {
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Kanban-Webhooks/1.0',
+          'X-Kanban-Event': request.event,
+          'X-Kanban-Delivery': request.deliveryId,
+          'X-Kanban-Signature-256': `sha256=${signature}`,
+        },
+        body,
+        // A redirect is reported as a failed attempt rather than followed
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      // Only the status matters; release the connection
+      await response.body?.cancel();
+
+      return { status: response.status };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
\ No newline at end of file
@@ -22,7 +22,13 @@ describe("Board Routes", () => {
     // Create test app
     app = new Hono();
     app.use("*", mockAuthMiddleware);
-    app.route("/boards", createBoardRoutes(container.boardController, container.listController));
+    app.route("/boards", createBoardRoutes(
+      container.boardController,
+      container.listController,
+      container.activityController,
+      container.boardEventController,
+      container.watchController
+    ));
 
     // Create unique test user with fixed cognito sub for auth
     const userBuilder = UserBuilder.valid();
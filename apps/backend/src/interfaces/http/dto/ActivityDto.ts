@@ -0,0 +1,51 @@
+import { ActivityType, EntityType } from '@kanban/domain-core';
+
+export interface ActivityFeedQueryDto {
+  limit?: number;
+  cursor?: string;
+  actorId?: string;
+  entityType?: EntityType;
+  action?: ActivityType;
+  boardId?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface ActivityActorDto {
+  id: string;
+  username: string;
+  name?: string;
+  avatarUrl?: string;
+}
+
+export interface ActivityResponseDto {
+  id: string;
+  action: ActivityType;
+  entityType: EntityType;
+  entityId: string;
+  entityTitle: string;
+  // Rendered in the locale requested via ?locale= or Accept-Language
+  message: string;
+  description?: string;
+  data?: Record<string, any>;
+  userId: string;
+  boardId: string;
+  cardId?: string;
+  createdAt: string;
+  actor: ActivityActorDto | null;
+}
+
+export interface ActivityFeedResponseDto {
+  activities: ActivityResponseDto[];
+  nextCursor: string | null;
+}
+
+export interface WatchingFeedActivityDto extends ActivityResponseDto {
+  isUnread: boolean;
+}
+
+export interface WatchingFeedResponseDto {
+  activities: WatchingFeedActivityDto[];
+  nextCursor: string | null;
+  unreadCount: number;
+}
\ No newline at end of file
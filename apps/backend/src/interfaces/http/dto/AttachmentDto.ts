@@ -0,0 +1,15 @@
+export interface AttachmentResponseDto {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  cardId: string;
+  uploaderId: string;
+  isImage: boolean;
+  downloadUrl: string;
+  createdAt: string;
+}
+
+export interface AttachmentListResponseDto {
+  attachments: AttachmentResponseDto[];
+}
\ No newline at end of file
@@ -1,8 +1,16 @@
+import { CardCsvColumn } from '@kanban/domain-core';
+
 export interface CreateBoardDto {
   title: string;
   description?: string;
   backgroundUrl?: string;
   isPublic?: boolean;
+  templateId?: string;
+}
+
+export interface CopyBoardDto {
+  title?: string;
+  includeCards?: boolean;
 }
 
 export interface UpdateBoardDto {
@@ -25,6 +33,57 @@ export interface BoardResponseDto {
   updatedAt: string;
 }
 
+export interface BoardImportResponseDto {
+  board: BoardResponseDto;
+  // Exported members who share a board with the importer; they are not added, but can be invited with the suggested role
+  matchedMembers: {
+    userId: string;
+    email: string;
+    username: string;
+    name?: string;
+    suggestedRole: 'ADMIN' | 'MEMBER' | 'VIEWER';
+  }[];
+  // Exported people who share no board with the importer
+  unmatchedMembers: {
+    email: string;
+    username: string;
+    name?: string;
+  }[];
+}
+
+export interface TrelloImportQueryDto {
+  dryRun: boolean;
+}
+
+export interface TrelloImportResponseDto {
+  report: {
+    boardTitle: string;
+    lists: number;
+    cards: number;
+    archivedCards: number;
+    labels: number;
+    checklists: number;
+    checklistItems: number;
+    comments: number;
+    skippedLists: string[];
+    suggestedMembers: { username: string; fullName?: string; userId: string; suggestedRole: 'ADMIN' | 'MEMBER' | 'VIEWER' }[];
+    unmappedMembers: { username: string; fullName?: string }[];
+  };
+  // Absent on a dry run
+  board?: BoardResponseDto;
+}
+
+export interface CardCsvExportQueryDto {
+  // Column keys in the order they should appear; all columns when absent
+  columns?: CardCsvColumn[];
+}
+
+export interface CardCsvImportResponseDto {
+  // Nothing is created while any row has errors
+  created: number;
+  errors: { row: number; message: string }[];
+}
+
 export interface BoardListResponseDto {
   boards: BoardResponseDto[];
   total: number;
@@ -39,4 +98,21 @@ export interface AddMemberDto {
 
 export interface UpdateMemberDto {
   role: 'ADMIN' | 'MEMBER' | 'VIEWER';
+}
+
+export interface BoardMemberQueryDto {
+  role?: 'OWNER' | 'ADMIN' | 'MEMBER' | 'VIEWER';
+}
+
+export interface BoardMemberResponseDto {
+  userId: string;
+  boardId: string;
+  role: string;
+  joinedAt: string;
+  user: {
+    id: string;
+    username: string;
+    name?: string;
+    avatarUrl?: string;
+  };
 }
\ No newline at end of file
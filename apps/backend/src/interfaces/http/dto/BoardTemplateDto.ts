@@ -0,0 +1,19 @@
+export interface CreateBoardTemplateDto {
+  boardId: string;
+  name?: string;
+  description?: string;
+  includeCards?: boolean;
+}
+
+export interface BoardTemplateResponseDto {
+  id: string;
+  name: string;
+  description?: string;
+  sourceBoardId?: string;
+  // List titles in board order, for previews
+  lists: string[];
+  labelCount: number;
+  cardCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
\ No newline at end of file
@@ -1,7 +1,9 @@
+import { LabelResponseDto } from '@/interfaces/http/dto/LabelDto';
+
 export interface CreateCardDto {
   title: string;
   description?: string;
-  assigneeId?: string;
+  assigneeIds?: string[];
   dueDate?: string;
   startDate?: string;
 }
@@ -9,9 +11,10 @@ export interface CreateCardDto {
 export interface UpdateCardDto {
   title?: string;
   description?: string;
-  assigneeId?: string;
-  dueDate?: string;
-  startDate?: string;
+  assigneeIds?: string[];
+  // null clears the date; a missing field leaves it as it is
+  dueDate?: string | null;
+  startDate?: string | null;
   coverUrl?: string;
   isArchived?: boolean;
 }
@@ -21,6 +24,11 @@ export interface MoveCardDto {
   position: number;
 }
 
+export interface ReorderCardDto {
+  listId: string;
+  position: number;
+}
+
 export interface CardResponseDto {
   id: string;
   title: string;
@@ -32,10 +40,26 @@ export interface CardResponseDto {
   coverUrl?: string;
   listId: string;
   creatorId: string;
-  assigneeId?: string;
+  assigneeIds: string[];
   createdAt: string;
   updatedAt: string;
   isOverdue: boolean;
+  // Whether the requesting user watches this card directly
+  isWatching: boolean;
+  checklistProgress?: ChecklistProgressDto;
+  labels: LabelResponseDto[];
+}
+
+// A card that has just been created in or moved into a list
+export interface PlacedCardResponseDto extends CardResponseDto {
+  // Set when it takes the list over a soft WIP limit
+  overWipLimit?: boolean;
+}
+
+export interface ChecklistProgressDto {
+  completed: number;
+  total: number;
+  display: string; // e.g. "3/7"
 }
 
 export interface CardListResponseDto {
@@ -0,0 +1,18 @@
+import { RecurrenceRule } from '@kanban/domain-core';
+
+export interface SetCardRecurrenceDto {
+  rule: RecurrenceRule;
+  // Null or absent sends copies to the card's own list
+  targetListId?: string | null;
+}
+
+export interface CardRecurrenceResponseDto {
+  id: string;
+  cardId: string;
+  rule: RecurrenceRule;
+  targetListId: string | null;
+  nextRunAt: string;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+export interface CreateChecklistDto {
+  title: string;
+}
+
+export interface UpdateChecklistDto {
+  title: string;
+}
+
+export interface CreateChecklistItemDto {
+  content: string;
+}
+
+export interface UpdateChecklistItemDto {
+  content: string;
+}
+
+export interface ToggleChecklistItemDto {
+  isCompleted?: boolean;
+}
+
+export interface ConvertChecklistItemDto {
+  listId?: string;
+}
+
+export interface ReorderChecklistsDto {
+  checklists: { id: string; position: number }[];
+}
+
+export interface ReorderChecklistItemsDto {
+  items: { id: string; position: number }[];
+}
+
+export interface ChecklistItemResponseDto {
+  id: string;
+  content: string;
+  isCompleted: boolean;
+  position: number;
+  completedAt?: string;
+  checklistId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChecklistResponseDto {
+  id: string;
+  title: string;
+  position: number;
+  cardId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChecklistWithItemsResponseDto extends ChecklistResponseDto {
+  items: ChecklistItemResponseDto[];
+  completedCount: number;
+  totalCount: number;
+}
+
+export interface ChecklistListResponseDto {
+  checklists: ChecklistWithItemsResponseDto[];
+}
+
+export interface ConvertedCardResponseDto {
+  id: string;
+  title: string;
+  listId: string;
+  position: number;
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+export interface CreateCommentDto {
+  content: string;
+}
+
+export interface UpdateCommentDto {
+  content: string;
+}
+
+export interface CommentResponseDto {
+  id: string;
+  content: string;
+  cardId: string;
+  userId: string;
+  isEdited: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CommentListResponseDto {
+  comments: CommentResponseDto[];
+  total: number;
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { WipLimitMode } from '@kanban/domain-core';
+
 export interface CreateListDto {
   title: string;
   color?: string;
@@ -6,6 +8,8 @@ export interface CreateListDto {
 export interface UpdateListDto {
   title?: string;
   color?: string;
+  wipLimit?: number | null;
+  wipLimitMode?: WipLimitMode;
 }
 
 export interface ReorderListsDto {
@@ -17,6 +21,8 @@ export interface ListResponseDto {
   title: string;
   position: number;
   color?: string;
+  wipLimit?: number;
+  wipLimitMode: WipLimitMode;
   boardId: string;
   createdAt: string;
   updatedAt: string;
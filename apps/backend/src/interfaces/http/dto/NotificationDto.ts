@@ -0,0 +1,27 @@
+import { NotificationType } from '@kanban/domain-core';
+import { ActivityActorDto } from '@/interfaces/http/dto/ActivityDto';
+
+export interface NotificationQueryDto {
+  unreadOnly: boolean;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface NotificationResponseDto {
+  id: string;
+  type: NotificationType;
+  // Reads after the actor's name
+  message: string;
+  boardId?: string;
+  cardId?: string;
+  isRead: boolean;
+  readAt?: string;
+  createdAt: string;
+  actor: ActivityActorDto | null;
+}
+
+export interface NotificationListResponseDto {
+  notifications: NotificationResponseDto[];
+  nextCursor: string | null;
+  unreadCount: number;
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { SearchMatchSource } from '@kanban/domain-core';
+
+export interface SearchQueryDto {
+  q: string;
+  boardId?: string;
+  listId?: string;
+  labelId?: string;
+  assigneeId?: string;
+  dueFrom?: string;
+  dueTo?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchSnippetDto {
+  source: SearchMatchSource;
+  sourceId?: string;
+  text: string;
+  // Character ranges of `text` that matched the query
+  highlights: { start: number; length: number }[];
+}
+
+export interface SearchResultDto {
+  card: {
+    id: string;
+    title: string;
+    dueDate?: string;
+  };
+  list: {
+    id: string;
+    title: string;
+  };
+  board: {
+    id: string;
+    title: string;
+  };
+  rank: number;
+  snippets: SearchSnippetDto[];
+}
+
+export interface SearchResponseDto {
+  results: SearchResultDto[];
+  hasMore: boolean;
+}
\ No newline at end of file
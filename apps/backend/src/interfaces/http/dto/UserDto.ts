@@ -20,11 +20,18 @@ export interface UserResponseDto {
   username: string;
   name?: string;
   avatarUrl?: string;
+  reminderLeadMinutes: number | null;
+  // Secret in the calendar feed URLs; null while the feeds are off
+  calendarToken: string | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CalendarTokenResponseDto {
+  calendarToken: string;
+}
+
 export interface LoginResponseDto {
   user: UserResponseDto;
   token: string;
@@ -0,0 +1,52 @@
+import { ActivityType, WebhookDeliveryStatus, WebhookPayload } from '@kanban/domain-core';
+
+export interface CreateWebhookDto {
+  boardId: string;
+  url: string;
+  events: ActivityType[];
+}
+
+export interface UpdateWebhookDto {
+  url?: string;
+  events?: ActivityType[];
+  isActive?: boolean;
+  rotateSecret?: boolean;
+}
+
+export interface WebhookDeliveryQueryDto {
+  cursor?: string;
+  limit?: number;
+}
+
+export interface WebhookResponseDto {
+  id: string;
+  boardId: string;
+  url: string;
+  events: ActivityType[];
+  isActive: boolean;
+  // Only returned when the webhook is created or its secret is rotated
+  secret?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryResponseDto {
+  id: string;
+  webhookId: string;
+  event: ActivityType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastAttemptAt?: string;
+  responseStatus?: number;
+  error?: string;
+  redeliveryOf?: string;
+  deliveredAt?: string;
+  createdAt: string;
+  payload: WebhookPayload;
+}
+
+export interface WebhookDeliveryListResponseDto {
+  deliveries: WebhookDeliveryResponseDto[];
+  nextCursor: string | null;
+}
\ No newline at end of file
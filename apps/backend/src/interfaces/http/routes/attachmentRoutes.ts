@@ -0,0 +1,18 @@
+import { Hono } from 'hono';
+import { AttachmentController } from '@/application/controllers/AttachmentController';
+
+export function createAttachmentRoutes(attachmentController: AttachmentController) {
+  const app = new Hono();
+
+  // GET /api/attachments/:id/download - Download an attachment
+  app.get('/:id/download', async (c) => {
+    return attachmentController.downloadAttachment(c);
+  });
+
+  // DELETE /api/attachments/:id - Delete an attachment
+  app.delete('/:id', async (c) => {
+    return attachmentController.deleteAttachment(c);
+  });
+
+  return app;
+}
\ No newline at end of file
@@ -19,5 +19,15 @@ export function createAuthRoutes(authController: AuthController) {
     return authController.updateProfile(c);
   });
 
+  // POST /api/auth/profile/calendar-token - Turn calendar feeds on, or replace their URLs
+  app.post('/profile/calendar-token', async (c) => {
+    return authController.regenerateCalendarToken(c);
+  });
+
+  // DELETE /api/auth/profile/calendar-token - Turn calendar feeds off
+  app.delete('/profile/calendar-token', async (c) => {
+    return authController.revokeCalendarToken(c);
+  });
+
   return app;
 }
\ No newline at end of file
@@ -1,8 +1,17 @@
 import { Hono } from 'hono';
 import { BoardController } from '@/application/controllers/BoardController';
 import { ListController } from '@/application/controllers/ListController';
+import { ActivityController } from '@/application/controllers/ActivityController';
+import { BoardEventController } from '@/application/controllers/BoardEventController';
+import { WatchController } from '@/application/controllers/WatchController';
 
-export function createBoardRoutes(boardController: BoardController, listController: ListController) {
+export function createBoardRoutes(
+  boardController: BoardController,
+  listController: ListController,
+  activityController: ActivityController,
+  boardEventController: BoardEventController,
+  watchController: WatchController
+) {
   const app = new Hono();
 
   // GET /api/boards - Get user's boards
@@ -15,6 +24,16 @@ export function createBoardRoutes(boardController: BoardController, listControll
     return boardController.createBoard(c);
   });
 
+  // POST /api/boards/import - Recreate a board from an export document
+  app.post('/import', async (c) => {
+    return boardController.importBoard(c);
+  });
+
+  // POST /api/boards/import/trello - Import a Trello board export (?dryRun=true only reports what would be imported)
+  app.post('/import/trello', async (c) => {
+    return boardController.importTrelloBoard(c);
+  });
+
   // GET /api/boards/:id - Get a specific board
   app.get('/:id', async (c) => {
     return boardController.getBoard(c);
@@ -30,6 +49,31 @@ export function createBoardRoutes(boardController: BoardController, listControll
     return boardController.deleteBoard(c);
   });
 
+  // POST /api/boards/:id/copy - Copy a board's lists and labels (and optionally cards) into a new board
+  app.post('/:id/copy', async (c) => {
+    return boardController.copyBoard(c);
+  });
+
+  // GET /api/boards/:id/export - Download the board and everything on it as a versioned JSON document
+  app.get('/:id/export', async (c) => {
+    return boardController.exportBoard(c);
+  });
+
+  // GET /api/boards/:id/cards.csv - Download the board's cards as CSV (optional ?columns=title,list,...)
+  app.get('/:id/cards.csv', async (c) => {
+    return boardController.exportCardsCsv(c);
+  });
+
+  // POST /api/boards/:id/cards.csv - Create cards from CSV rows; nothing is created while any row has errors
+  app.post('/:id/cards.csv', async (c) => {
+    return boardController.importCardsCsv(c);
+  });
+
+  // GET /api/boards/:id/members - List members with their profiles (optional ?role= filter)
+  app.get('/:id/members', async (c) => {
+    return boardController.getMembers(c);
+  });
+
   // POST /api/boards/:id/members - Add a member to the board
   app.post('/:id/members', async (c) => {
     return boardController.addMember(c);
@@ -60,5 +104,25 @@ export function createBoardRoutes(boardController: BoardController, listControll
     return listController.reorderLists(c);
   });
 
+  // GET /api/boards/:id/activity - Get the board's activity feed
+  app.get('/:id/activity', async (c) => {
+    return activityController.getBoardActivity(c);
+  });
+
+  // GET /api/boards/:id/events - Stream live board changes as Server-Sent Events
+  app.get('/:id/events', async (c) => {
+    return boardEventController.streamBoardEvents(c);
+  });
+
+  // POST /api/boards/:id/watch - Start watching the board
+  app.post('/:id/watch', async (c) => {
+    return watchController.watch(c, 'BOARD');
+  });
+
+  // DELETE /api/boards/:id/watch - Stop watching the board
+  app.delete('/:id/watch', async (c) => {
+    return watchController.unwatch(c, 'BOARD');
+  });
+
   return app;
 }
\ No newline at end of file
@@ -0,0 +1,18 @@
+import { Hono } from 'hono';
+import { CalendarController } from '@/application/controllers/CalendarController';
+
+export function createCalendarRoutes(calendarController: CalendarController) {
+  const app = new Hono();
+
+  // GET /api/calendar/:token/cards.ics - Cards the token's owner is assigned to or watches, as iCalendar
+  app.get('/:token/cards.ics', async (c) => {
+    return calendarController.getUserFeed(c);
+  });
+
+  // GET /api/calendar/:token/boards/:boardId/cards.ics - One board's cards, as iCalendar
+  app.get('/:token/boards/:boardId/cards.ics', async (c) => {
+    return calendarController.getBoardFeed(c);
+  });
+
+  return app;
+}
\ No newline at end of file
@@ -1,19 +1,25 @@
 import { Hono } from 'hono';
 import { CardController } from '@/application/controllers/CardController';
+import { bodyLimit } from 'hono/body-limit';
+import { MAX_ATTACHMENT_SIZE } from '@kanban/use-cases';
+import { CommentController } from '@/application/controllers/CommentController';
+import { AttachmentController } from '@/application/controllers/AttachmentController';
+import { ChecklistController } from '@/application/controllers/ChecklistController';
+import { ActivityController } from '@/application/controllers/ActivityController';
+import { WatchController } from '@/application/controllers/WatchController';
+import { CardRecurrenceController } from '@/application/controllers/CardRecurrenceController';
 
-export function createCardRoutes(cardController: CardController) {
+export function createCardRoutes(
+  cardController: CardController,
+  commentController: CommentController,
+  attachmentController: AttachmentController,
+  checklistController: ChecklistController,
+  activityController: ActivityController,
+  watchController: WatchController,
+  cardRecurrenceController: CardRecurrenceController
+) {
   const app = new Hono();
 
-  // POST /api/lists/:listId/cards - Create a new card in a list
-  app.post('/lists/:listId/cards', async (c) => {
-    return cardController.createCard(c);
-  });
-
-  // GET /api/lists/:listId/cards - Get all cards in a list
-  app.get('/lists/:listId/cards', async (c) => {
-    return cardController.getListCards(c);
-  });
-
   // GET /api/cards/:id - Get a specific card
   app.get('/:id', async (c) => {
     return cardController.getCard(c);
@@ -29,6 +35,11 @@ export function createCardRoutes(cardController: CardController) {
     return cardController.moveCard(c);
   });
 
+  // PUT /api/cards/:id/reorder - Change a card's position within its list
+  app.put('/:id/reorder', async (c) => {
+    return cardController.reorderCard(c);
+  });
+
   // DELETE /api/cards/:id - Delete a card
   app.delete('/:id', async (c) => {
     return cardController.deleteCard(c);
@@ -44,24 +55,117 @@ export function createCardRoutes(cardController: CardController) {
     return cardController.unarchiveCard(c);
   });
 
-  // GET /api/cards/:id/comments - Get card comments (TODO: implement)
+  // GET /api/cards/:id/comments - Get card comments
   app.get('/:id/comments', async (c) => {
-    return c.json({ error: 'Not implemented yet' }, 501);
+    return commentController.getCardComments(c);
   });
 
-  // POST /api/cards/:id/comments - Add a comment to card (TODO: implement)
+  // POST /api/cards/:id/comments - Add a comment to card
   app.post('/:id/comments', async (c) => {
-    return c.json({ error: 'Not implemented yet' }, 501);
+    return commentController.addComment(c);
   });
 
-  // GET /api/cards/:id/attachments - Get card attachments (TODO: implement)
+  // GET /api/cards/:id/attachments - Get card attachments
   app.get('/:id/attachments', async (c) => {
-    return c.json({ error: 'Not implemented yet' }, 501);
+    return attachmentController.getCardAttachments(c);
+  });
+
+  // POST /api/cards/:id/attachments - Upload an attachment (multipart/form-data, field "file")
+  app.post(
+    '/:id/attachments',
+    // Allow some headroom for multipart boundaries and headers
+    bodyLimit({
+      maxSize: MAX_ATTACHMENT_SIZE + 64 * 1024,
+      onError: (c) => c.json({ error: 'File is too large' }, 413),
+    }),
+    async (c) => {
+      return attachmentController.uploadAttachment(c);
+    }
+  );
+
+  // GET /api/cards/:id/checklists - Get card checklists with their items
+  app.get('/:id/checklists', async (c) => {
+    return checklistController.getCardChecklists(c);
+  });
+
+  // POST /api/cards/:id/checklists - Add a checklist to card
+  app.post('/:id/checklists', async (c) => {
+    return checklistController.createChecklist(c);
+  });
+
+  // PUT /api/cards/:id/checklists/reorder - Reorder checklists on card
+  app.put('/:id/checklists/reorder', async (c) => {
+    return checklistController.reorderChecklists(c);
+  });
+
+  // PUT /api/cards/:id/checklists/:checklistId - Rename a checklist
+  app.put('/:id/checklists/:checklistId', async (c) => {
+    return checklistController.updateChecklist(c);
+  });
+
+  // DELETE /api/cards/:id/checklists/:checklistId - Delete a checklist and its items
+  app.delete('/:id/checklists/:checklistId', async (c) => {
+    return checklistController.deleteChecklist(c);
+  });
+
+  // POST /api/cards/:id/checklists/:checklistId/items - Add an item to a checklist
+  app.post('/:id/checklists/:checklistId/items', async (c) => {
+    return checklistController.addItem(c);
+  });
+
+  // PUT /api/cards/:id/checklists/:checklistId/items/reorder - Reorder checklist items
+  app.put('/:id/checklists/:checklistId/items/reorder', async (c) => {
+    return checklistController.reorderItems(c);
+  });
+
+  // PUT /api/cards/:id/checklists/:checklistId/items/:itemId - Edit a checklist item
+  app.put('/:id/checklists/:checklistId/items/:itemId', async (c) => {
+    return checklistController.updateItem(c);
+  });
+
+  // DELETE /api/cards/:id/checklists/:checklistId/items/:itemId - Delete a checklist item
+  app.delete('/:id/checklists/:checklistId/items/:itemId', async (c) => {
+    return checklistController.deleteItem(c);
+  });
+
+  // POST /api/cards/:id/checklists/:checklistId/items/:itemId/toggle - Toggle item completion
+  app.post('/:id/checklists/:checklistId/items/:itemId/toggle', async (c) => {
+    return checklistController.toggleItem(c);
+  });
+
+  // POST /api/cards/:id/checklists/:checklistId/items/:itemId/convert - Convert item into a card
+  app.post('/:id/checklists/:checklistId/items/:itemId/convert', async (c) => {
+    return checklistController.convertItemToCard(c);
+  });
+
+  // GET /api/cards/:id/activity - Get the card's activity feed
+  app.get('/:id/activity', async (c) => {
+    return activityController.getCardActivity(c);
+  });
+
+  // POST /api/cards/:id/watch - Start watching the card
+  app.post('/:id/watch', async (c) => {
+    return watchController.watch(c, 'CARD');
+  });
+
+  // DELETE /api/cards/:id/watch - Stop watching the card
+  app.delete('/:id/watch', async (c) => {
+    return watchController.unwatch(c, 'CARD');
+  });
+
+  // GET /api/cards/:id/recurrence - Get the card's recurrence rule (null when it does not repeat)
+  app.get('/:id/recurrence', async (c) => {
+    return cardRecurrenceController.getRecurrence(c);
+  });
+
+  // PUT /api/cards/:id/recurrence - Make the card recurring or replace its rule
+  app.put('/:id/recurrence', async (c) => {
+    return cardRecurrenceController.setRecurrence(c);
   });
 
-  // POST /api/cards/:id/attachments - Add attachment to card (TODO: implement)
-  app.post('/:id/attachments', async (c) => {
-    return c.json({ error: 'Not implemented yet' }, 501);
+  // DELETE /api/cards/:id/recurrence - Stop the card from repeating
+  app.delete('/:id/recurrence', async (c) => {
+    return cardRecurrenceController.deleteRecurrence(c);
   });
 
   return app;
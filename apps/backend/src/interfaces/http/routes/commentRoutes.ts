@@ -0,0 +1,18 @@
+import { Hono } from 'hono';
+import { CommentController } from '@/application/controllers/CommentController';
+
+export function createCommentRoutes(commentController: CommentController) {
+  const app = new Hono();
+
+  // PUT /api/comments/:id - Edit a comment
+  app.put('/:id', async (c) => {
+    return commentController.editComment(c);
+  });
+
+  // DELETE /api/comments/:id - Delete a comment
+  app.delete('/:id', async (c) => {
+    return commentController.deleteComment(c);
+  });
+
+  return app;
+}
\ No newline at end of file
@@ -1,6 +1,5 @@
 import { Hono } from 'hono';
-import { PrismaClient } from '@prisma/client';
-import { createContainer } from '@/infrastructure/di/container';
+import { Container } from '@/infrastructure/di/container';
 import { createAuthMiddleware } from '@/interfaces/http/middleware/auth';
 
 // Import route creators
@@ -9,28 +8,62 @@ import { createCardRoutes } from '@/interfaces/http/routes/cardRoutes';
 import { createListRoutes } from '@/interfaces/http/routes/listRoutes';
 import { createAuthRoutes } from '@/interfaces/http/routes/authRoutes';
 import { createLabelRoutes } from '@/interfaces/http/routes/labelRoutes';
+import { createCommentRoutes } from '@/interfaces/http/routes/commentRoutes';
+import { createAttachmentRoutes } from '@/interfaces/http/routes/attachmentRoutes';
+import { createMeRoutes } from '@/interfaces/http/routes/meRoutes';
+import { createSearchRoutes } from '@/interfaces/http/routes/searchRoutes';
+import { createTemplateRoutes } from '@/interfaces/http/routes/templateRoutes';
+import { createNotificationRoutes } from '@/interfaces/http/routes/notificationRoutes';
+import { createWebhookRoutes } from '@/interfaces/http/routes/webhookRoutes';
+import { createCalendarRoutes } from '@/interfaces/http/routes/calendarRoutes';
 
-export function createApiRoutes(prisma: PrismaClient) {
+export function createApiRoutes(container: Container) {
   const app = new Hono();
   
-  // Create DI container
-  const container = createContainer(prisma);
-  
   // Create auth middleware with injected dependencies
   // Use Cognito-only authentication
   const authMiddleware = createAuthMiddleware(
     container.verifyCognitoTokenUseCase
   );
-  
+
+  // Calendar apps cannot log in, so feeds carry their own token and are
+  // mounted ahead of the auth middleware
+  app.route('/calendar', createCalendarRoutes(container.calendarController));
+
   app.use('*', authMiddleware);
   
   app.route('/auth', createAuthRoutes(container.authController));
 
   
-  app.route('/boards', createBoardRoutes(container.boardController, container.listController));
-  app.route('/cards', createCardRoutes(container.cardController));
-  app.route('/lists', createListRoutes(container.listController));
+  app.route('/boards', createBoardRoutes(
+    container.boardController,
+    container.listController,
+    container.activityController,
+    container.boardEventController,
+    container.watchController
+  ));
+  app.route('/cards', createCardRoutes(
+    container.cardController,
+    container.commentController,
+    container.attachmentController,
+    container.checklistController,
+    container.activityController,
+    container.watchController,
+    container.cardRecurrenceController
+  ));
+  app.route('/lists', createListRoutes(
+    container.listController,
+    container.cardController,
+    container.watchController
+  ));
   app.route('/labels', createLabelRoutes(container.labelController));
+  app.route('/comments', createCommentRoutes(container.commentController));
+  app.route('/attachments', createAttachmentRoutes(container.attachmentController));
+  app.route('/me', createMeRoutes(container.activityController));
+  app.route('/search', createSearchRoutes(container.searchController));
+  app.route('/templates', createTemplateRoutes(container.boardTemplateController));
+  app.route('/notifications', createNotificationRoutes(container.notificationController));
+  app.route('/webhooks', createWebhookRoutes(container.webhookController));
 
   // Health check endpoint
   app.get('/health', (c) => {
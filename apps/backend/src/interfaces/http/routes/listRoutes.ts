@@ -1,7 +1,13 @@
 import { Hono } from 'hono';
 import { ListController } from '@/application/controllers/ListController';
+import { CardController } from '@/application/controllers/CardController';
+import { WatchController } from '@/application/controllers/WatchController';
 
-export function createListRoutes(listController: ListController) {
+export function createListRoutes(
+  listController: ListController,
+  cardController: CardController,
+  watchController: WatchController
+) {
   const app = new Hono();
 
   // GET /api/lists/:id - Get a specific list
@@ -19,5 +25,25 @@ export function createListRoutes(listController: ListController) {
     return listController.deleteList(c);
   });
 
+  // GET /api/lists/:listId/cards - Get all cards in a list
+  app.get('/:listId/cards', async (c) => {
+    return cardController.getListCards(c);
+  });
+
+  // POST /api/lists/:listId/cards - Create a new card in a list
+  app.post('/:listId/cards', async (c) => {
+    return cardController.createCard(c);
+  });
+
+  // POST /api/lists/:id/watch - Start watching the list
+  app.post('/:id/watch', async (c) => {
+    return watchController.watch(c, 'LIST');
+  });
+
+  // DELETE /api/lists/:id/watch - Stop watching the list
+  app.delete('/:id/watch', async (c) => {
+    return watchController.unwatch(c, 'LIST');
+  });
+
   return app;
 }
\ No newline at end of file
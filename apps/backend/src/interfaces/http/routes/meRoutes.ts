@@ -0,0 +1,23 @@
+import { Hono } from 'hono';
+import { ActivityController } from '@/application/controllers/ActivityController';
+
+export function createMeRoutes(activityController: ActivityController) {
+  const app = new Hono();
+
+  // GET /api/me/activity - Get the current user's own activity across boards
+  app.get('/activity', async (c) => {
+    return activityController.getMyActivity(c);
+  });
+
+  // GET /api/me/watching - Get activity on the cards, lists and boards the current user watches
+  app.get('/watching', async (c) => {
+    return activityController.getWatchingFeed(c);
+  });
+
+  // POST /api/me/watching/read - Mark the watching feed as read
+  app.post('/watching/read', async (c) => {
+    return activityController.markWatchingFeedRead(c);
+  });
+
+  return app;
+}
\ No newline at end of file
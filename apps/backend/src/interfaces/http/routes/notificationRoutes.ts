@@ -0,0 +1,23 @@
+import { Hono } from 'hono';
+import { NotificationController } from '@/application/controllers/NotificationController';
+
+export function createNotificationRoutes(notificationController: NotificationController) {
+  const app = new Hono();
+
+  // GET /api/notifications - Get the current user's notifications and unread count
+  app.get('/', async (c) => {
+    return notificationController.getNotifications(c);
+  });
+
+  // POST /api/notifications/read-all - Mark all of the current user's notifications as read
+  app.post('/read-all', async (c) => {
+    return notificationController.markAllRead(c);
+  });
+
+  // POST /api/notifications/:id/read - Mark a notification as read
+  app.post('/:id/read', async (c) => {
+    return notificationController.markRead(c);
+  });
+
+  return app;
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { Hono } from 'hono';
+import { SearchController } from '@/application/controllers/SearchController';
+
+export function createSearchRoutes(searchController: SearchController) {
+  const app = new Hono();
+
+  // GET /api/search - Search cards, comments and checklist items across viewable boards
+  app.get('/', async (c) => {
+    return searchController.search(c);
+  });
+
+  return app;
+}
\ No newline at end of file
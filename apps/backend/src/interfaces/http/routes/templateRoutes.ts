@@ -0,0 +1,23 @@
+import { Hono } from 'hono';
+import { BoardTemplateController } from '@/application/controllers/BoardTemplateController';
+
+export function createTemplateRoutes(boardTemplateController: BoardTemplateController) {
+  const app = new Hono();
+
+  // GET /api/templates - Get the current user's board templates
+  app.get('/', async (c) => {
+    return boardTemplateController.getTemplates(c);
+  });
+
+  // POST /api/templates - Save a board as a template
+  app.post('/', async (c) => {
+    return boardTemplateController.createTemplate(c);
+  });
+
+  // DELETE /api/templates/:id - Delete a template
+  app.delete('/:id', async (c) => {
+    return boardTemplateController.deleteTemplate(c);
+  });
+
+  return app;
+}
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { Hono } from 'hono';
+import { WebhookController } from '@/application/controllers/WebhookController';
+
+export function createWebhookRoutes(webhookController: WebhookController) {
+  const app = new Hono();
+
+  // GET /api/webhooks?boardId= - Get a board's webhooks (board admins only)
+  app.get('/', async (c) => {
+    return webhookController.getWebhooks(c);
+  });
+
+  // POST /api/webhooks - Register a webhook for a board
+  app.post('/', async (c) => {
+    return webhookController.createWebhook(c);
+  });
+
+  // POST /api/webhooks/deliveries/:deliveryId/redeliver - Queue a delivery again
+  app.post('/deliveries/:deliveryId/redeliver', async (c) => {
+    return webhookController.redeliver(c);
+  });
+
+  // PUT /api/webhooks/:id - Update URL, events or active state, or rotate the secret
+  app.put('/:id', async (c) => {
+    return webhookController.updateWebhook(c);
+  });
+
+  // DELETE /api/webhooks/:id - Delete a webhook and its delivery log
+  app.delete('/:id', async (c) => {
+    return webhookController.deleteWebhook(c);
+  });
+
+  // GET /api/webhooks/:id/deliveries - Get the delivery log, newest first
+  app.get('/:id/deliveries', async (c) => {
+    return webhookController.getDeliveries(c);
+  });
+
+  return app;
+}
\ No newline at end of file
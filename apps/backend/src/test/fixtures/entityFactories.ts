@@ -213,8 +213,8 @@ export class CardBuilder {
     return this;
   }
 
-  assignedTo(assigneeId: string): CardBuilder {
-    (this.props as any).assigneeId = assigneeId;
+  assignedTo(...assigneeIds: string[]): CardBuilder {
+    (this.props as any).assigneeIds = assigneeIds;
     return this;
   }
 
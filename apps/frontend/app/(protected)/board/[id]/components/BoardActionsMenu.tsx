@@ -0,0 +1,274 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { useRouter } from "next/navigation"
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  Menu,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material"
+import MoreVertIcon from "@mui/icons-material/MoreVert"
+import {
+  type CardCsvRowError,
+  copyBoard,
+  exportBoard,
+  importCardsCsv,
+  saveBoardAsTemplate,
+} from "@/lib/actions/boards"
+import { getProfile } from "@/lib/actions/profile"
+import { useServerActionErrorHandler } from "@/lib/actions/errorHandler"
+import { CardCsvExportDialog } from "./CardCsvExportDialog"
+
+type Action = "copy" | "template"
+
+interface BoardActionsMenuProps {
+  boardId: string
+  boardTitle: string
+}
+
+export function BoardActionsMenu({ boardId, boardTitle }: BoardActionsMenuProps) {
+  const router = useRouter()
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
+  const [action, setAction] = useState<Action | null>(null)
+  const [name, setName] = useState("")
+  const [includeCards, setIncludeCards] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [csvExportOpen, setCsvExportOpen] = useState(false)
+  const [csvErrors, setCsvErrors] = useState<CardCsvRowError[] | null>(null)
+  const csvInputRef = useRef<HTMLInputElement>(null)
+  const { handleWithReauth } = useServerActionErrorHandler()
+
+  const openDialog = (next: Action) => {
+    setAnchorEl(null)
+    setAction(next)
+    setName(next === "copy" ? `${boardTitle} (copy)` : boardTitle)
+    setIncludeCards(false)
+    setError(null)
+  }
+
+  const handleExport = async () => {
+    setAnchorEl(null)
+
+    try {
+      const exported = await exportBoard(boardId)
+      const blob = new Blob([JSON.stringify(exported, null, 2)], { type: "application/json" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `${boardTitle.replace(/[^\w.-]+/g, "-") || "board"}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setExportError(parsedError.userMessage)
+    }
+  }
+
+  const handleCsvFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const result = await importCardsCsv(boardId, await file.text())
+      if (result.errors.length > 0) {
+        setCsvErrors(result.errors)
+      } else {
+        setNotice(`Imported ${result.created} ${result.created === 1 ? "card" : "cards"}`)
+        router.refresh()
+      }
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setExportError(parsedError.userMessage)
+    }
+  }
+
+  // The board feed shares the token of the user's own feed, which is turned on from the profile page
+  const handleCopyCalendarFeed = async () => {
+    setAnchorEl(null)
+
+    try {
+      const profile = await getProfile()
+      if (!profile?.calendarToken) {
+        setExportError("Turn on the calendar feed on your profile page first")
+        return
+      }
+
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/api/calendar/${profile.calendarToken}/boards/${boardId}/cards.ics`
+      )
+      setNotice("Calendar feed link copied")
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setExportError(parsedError.userMessage)
+    }
+  }
+
+  const closeDialog = () => {
+    if (!saving) {
+      setAction(null)
+    }
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!action || !name.trim()) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      if (action === "copy") {
+        const result = await copyBoard(boardId, { title: name.trim(), includeCards })
+        setAction(null)
+        if (result.boardId) {
+          router.push(`/board/${result.boardId}`)
+        }
+      } else {
+        await saveBoardAsTemplate(boardId, { name: name.trim(), includeCards })
+        setAction(null)
+        setNotice(`Saved "${name.trim()}" as a template`)
+      }
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setError(parsedError.userMessage)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <IconButton aria-label="Board actions" onClick={(event) => setAnchorEl(event.currentTarget)}>
+        <MoreVertIcon />
+      </IconButton>
+
+      <Menu anchorEl={anchorEl} open={Boolean(anchorEl)} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={() => openDialog("copy")}>Copy board</MenuItem>
+        <MenuItem onClick={() => openDialog("template")}>Save as template</MenuItem>
+        <MenuItem onClick={handleExport}>Export as JSON</MenuItem>
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null)
+            setCsvExportOpen(true)
+          }}
+        >
+          Export cards as CSV
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            setAnchorEl(null)
+            csvInputRef.current?.click()
+          }}
+        >
+          Import cards from CSV
+        </MenuItem>
+        <MenuItem onClick={handleCopyCalendarFeed}>Copy calendar feed link</MenuItem>
+      </Menu>
+      <input ref={csvInputRef} type="file" accept="text/csv,.csv" hidden onChange={handleCsvFile} />
+
+      <CardCsvExportDialog
+        open={csvExportOpen}
+        boardId={boardId}
+        boardTitle={boardTitle}
+        onClose={() => setCsvExportOpen(false)}
+      />
+
+      <Dialog open={csvErrors !== null} onClose={() => setCsvErrors(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>No Cards Imported</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            Fix these rows and import the file again:
+          </Typography>
+          {csvErrors?.map(rowError => (
+            // A row can have several problems, but never the same one twice
+            <Typography key={`${rowError.row}-${rowError.message}`} variant="body2">
+              Row {rowError.row}: {rowError.message}
+            </Typography>
+          ))}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCsvErrors(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      <Dialog open={action !== null} onClose={closeDialog} maxWidth="sm" fullWidth>
+        <form onSubmit={handleSubmit}>
+          <DialogTitle>{action === "copy" ? "Copy Board" : "Save as Template"}</DialogTitle>
+          <DialogContent>
+            <Box sx={{ display: "flex", flexDirection: "column", gap: 2, mt: 1 }}>
+              {error && (
+                <Alert severity="error" onClose={() => setError(null)}>
+                  {error}
+                </Alert>
+              )}
+
+              <TextField
+                label={action === "copy" ? "Board Title" : "Template Name"}
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                required
+                fullWidth
+                autoFocus
+                disabled={saving}
+              />
+
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={includeCards}
+                    onChange={(event) => setIncludeCards(event.target.checked)}
+                    disabled={saving}
+                  />
+                }
+                label="Include cards and checklists"
+              />
+            </Box>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={closeDialog} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="contained" disabled={saving || !name.trim()}>
+              {saving ? "Saving..." : action === "copy" ? "Copy Board" : "Save Template"}
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+
+      {exportError && (
+        <Alert
+          severity="error"
+          onClose={() => setExportError(null)}
+          sx={{ position: "fixed", bottom: 24, right: 24, zIndex: "snackbar" }}
+        >
+          {exportError}
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert
+          severity="success"
+          onClose={() => setNotice(null)}
+          sx={{ position: "fixed", bottom: 24, right: 24, zIndex: "snackbar" }}
+        >
+          {notice}
+        </Alert>
+      )}
+    </>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,298 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  Box,
+  Button,
+  ButtonBase,
+  IconButton,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from "@mui/material"
+import ChevronLeftIcon from "@mui/icons-material/ChevronLeft"
+import ChevronRightIcon from "@mui/icons-material/ChevronRight"
+import type { Card, UpdateCardRequest } from "@/lib/actions/cards"
+import type { List } from "@/lib/actions/lists"
+import { formatDate } from "@/lib/utils/date"
+import {
+  type CalendarMode,
+  calendarDays,
+  cardDays,
+  cardsByDay,
+  dayKey,
+  isSameDay,
+  rescheduleCard,
+  shiftAnchor,
+} from "./calendarLayout"
+
+interface BoardCalendarViewProps {
+  cards: Card[]
+  lists: List[]
+  onOpenCard: (cardId: string) => void
+  onReschedule: (cardId: string, data: UpdateCardRequest) => void
+}
+
+interface CalendarCardProps {
+  card: Card
+  onOpen: () => void
+  onDragStart: () => void
+  onDragEnd: () => void
+  isDragging: boolean
+  detail?: string
+}
+
+// Cards are colored by their first label; the tooltip names them all
+function CalendarCard({ card, onOpen, onDragStart, onDragEnd, isDragging, detail }: CalendarCardProps) {
+  const label = card.labels[0]
+
+  const handleDragStart = (event: React.DragEvent<HTMLButtonElement>) => {
+    // Firefox only starts a drag when some data is set
+    event.dataTransfer.setData("text/plain", card.id)
+    event.dataTransfer.effectAllowed = "move"
+    onDragStart()
+  }
+
+  return (
+    <Tooltip title={card.labels.map(item => item.name).join(", ")} disableHoverListener={card.labels.length === 0}>
+      <ButtonBase
+        draggable
+        onDragStart={handleDragStart}
+        onDragEnd={onDragEnd}
+        onClick={onOpen}
+        data-card-id={card.id}
+        sx={{
+          display: "block",
+          width: "100%",
+          px: 0.75,
+          py: 0.25,
+          borderRadius: 1,
+          textAlign: "left",
+          fontSize: 12,
+          bgcolor: label?.color ?? "grey.200",
+          color: label ? "common.white" : "text.primary",
+          opacity: isDragging ? 0.4 : 1,
+          cursor: "grab",
+        }}
+      >
+        <Box component="span" sx={{ display: "block", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+          {card.title}
+        </Box>
+        {detail && (
+          <Box component="span" sx={{ display: "block", opacity: 0.8 }}>
+            {detail}
+          </Box>
+        )}
+      </ButtonBase>
+    </Tooltip>
+  )
+}
+
+function periodTitle(anchor: Date, mode: CalendarMode, days: Date[]): string {
+  if (mode !== "week") {
+    return anchor.toLocaleDateString("en-US", { month: "long", year: "numeric" })
+  }
+  return `${formatDate(days[0]!)} – ${formatDate(days[days.length - 1]!)}`
+}
+
+function dateRange(card: Card): string {
+  const span = cardDays(card)
+  if (!span) return ""
+  return isSameDay(span.first, span.last)
+    ? formatDate(span.first)
+    : `${formatDate(span.first)} – ${formatDate(span.last)}`
+}
+
+export function BoardCalendarView({ cards, lists, onOpenCard, onReschedule }: BoardCalendarViewProps) {
+  const [mode, setMode] = useState<CalendarMode>("month")
+  const [anchor, setAnchor] = useState(() => new Date())
+  const [draggingCardId, setDraggingCardId] = useState<string | null>(null)
+  const [dropDay, setDropDay] = useState<string | null>(null)
+
+  const days = useMemo(() => calendarDays(anchor, mode), [anchor, mode])
+  const byDay = useMemo(() => cardsByDay(cards, days), [cards, days])
+  const undated = useMemo(() => cards.filter(card => !cardDays(card)), [cards])
+  const listTitles = useMemo(() => new Map(lists.map(list => [list.id, list.title])), [lists])
+  const today = new Date()
+
+  const handleDragEnd = () => {
+    setDraggingCardId(null)
+    setDropDay(null)
+  }
+
+  const handleDayDragOver = (event: React.DragEvent<HTMLDivElement>, day: Date) => {
+    if (!draggingCardId) return
+
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "move"
+    const key = dayKey(day)
+    setDropDay(prev => (prev === key ? prev : key))
+  }
+
+  const handleDayDrop = (event: React.DragEvent<HTMLDivElement>, day: Date) => {
+    const card = cards.find(item => item.id === draggingCardId)
+    if (card) {
+      event.preventDefault()
+      const data = rescheduleCard(card, day)
+      if (data) {
+        onReschedule(card.id, data)
+      }
+    }
+    handleDragEnd()
+  }
+
+  const renderCard = (card: Card, detail?: string) => (
+    <CalendarCard
+      key={card.id}
+      card={card}
+      detail={detail}
+      onOpen={() => onOpenCard(card.id)}
+      onDragStart={() => setDraggingCardId(card.id)}
+      onDragEnd={handleDragEnd}
+      isDragging={draggingCardId === card.id}
+    />
+  )
+
+  const renderGrid = () => (
+    <Box sx={{ display: "grid", gridTemplateColumns: "repeat(7, minmax(0, 1fr))", gap: 0.5 }}>
+      {days.slice(0, 7).map(day => (
+        <Typography key={day.getDay()} variant="caption" color="text.secondary" sx={{ px: 0.5 }}>
+          {day.toLocaleDateString("en-US", { weekday: "short" })}
+        </Typography>
+      ))}
+      {days.map(day => {
+        const key = dayKey(day)
+        const inPeriod = mode === "week" || day.getMonth() === anchor.getMonth()
+        return (
+          <Box
+            key={key}
+            onDragOver={(event) => handleDayDragOver(event, day)}
+            onDrop={(event) => handleDayDrop(event, day)}
+            sx={{
+              minHeight: mode === "week" ? 360 : 110,
+              p: 0.5,
+              display: "flex",
+              flexDirection: "column",
+              gap: 0.5,
+              border: 1,
+              borderColor: dropDay === key ? "primary.main" : "divider",
+              borderRadius: 1,
+              bgcolor: inPeriod ? "background.paper" : "grey.50",
+            }}
+          >
+            <Typography
+              variant="caption"
+              sx={{
+                alignSelf: "flex-start",
+                px: 0.5,
+                borderRadius: 1,
+                color: inPeriod ? "text.primary" : "text.disabled",
+                ...(isSameDay(day, today) && { bgcolor: "primary.main", color: "primary.contrastText" }),
+              }}
+            >
+              {day.getDate()}
+            </Typography>
+            {(byDay.get(key) ?? []).map(card => renderCard(card))}
+          </Box>
+        )
+      })}
+    </Box>
+  )
+
+  const renderAgenda = () => {
+    const agendaDays = days.filter(day => (byDay.get(dayKey(day)) ?? []).length > 0)
+    if (agendaDays.length === 0) {
+      return (
+        <Typography color="text.secondary" sx={{ py: 4, textAlign: "center" }}>
+          No cards with dates this month
+        </Typography>
+      )
+    }
+
+    return agendaDays.map(day => (
+      <Box
+        key={dayKey(day)}
+        onDragOver={(event) => handleDayDragOver(event, day)}
+        onDrop={(event) => handleDayDrop(event, day)}
+        sx={{
+          display: "flex",
+          gap: 2,
+          py: 1,
+          borderBottom: 1,
+          borderColor: dropDay === dayKey(day) ? "primary.main" : "divider",
+        }}
+      >
+        <Typography
+          variant="body2"
+          sx={{ width: 120, flexShrink: 0, fontWeight: isSameDay(day, today) ? 600 : 400 }}
+        >
+          {day.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" })}
+        </Typography>
+        <Box sx={{ flexGrow: 1, minWidth: 0, display: "flex", flexDirection: "column", gap: 0.5 }}>
+          {(byDay.get(dayKey(day)) ?? []).map(card =>
+            renderCard(card, `${listTitles.get(card.listId) ?? ""} · ${dateRange(card)}`)
+          )}
+        </Box>
+      </Box>
+    ))
+  }
+
+  return (
+    <Box sx={{ display: "flex", alignItems: "flex-start", gap: 2 }}>
+      <Paper variant="outlined" sx={{ flexGrow: 1, minWidth: 0, p: 2 }}>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 2, flexWrap: "wrap" }}>
+          <IconButton
+            size="small"
+            aria-label="Previous"
+            onClick={() => setAnchor(prev => shiftAnchor(prev, mode, -1))}
+          >
+            <ChevronLeftIcon />
+          </IconButton>
+          <IconButton
+            size="small"
+            aria-label="Next"
+            onClick={() => setAnchor(prev => shiftAnchor(prev, mode, 1))}
+          >
+            <ChevronRightIcon />
+          </IconButton>
+          <Button size="small" variant="outlined" onClick={() => setAnchor(new Date())}>
+            Today
+          </Button>
+          <Typography variant="h6" component="h2" sx={{ flexGrow: 1, ml: 1 }}>
+            {periodTitle(anchor, mode, days)}
+          </Typography>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={mode}
+            onChange={(_, value: CalendarMode | null) => value && setMode(value)}
+          >
+            <ToggleButton value="month">Month</ToggleButton>
+            <ToggleButton value="week">Week</ToggleButton>
+            <ToggleButton value="agenda">Agenda</ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+
+        {mode === "agenda" ? renderAgenda() : renderGrid()}
+      </Paper>
+
+      {/* Cards without dates wait here until they are dragged onto a day */}
+      <Paper variant="outlined" sx={{ width: 240, flexShrink: 0, p: 1.5, bgcolor: "grey.100" }}>
+        <Typography variant="subtitle2" gutterBottom>
+          No dates ({undated.length})
+        </Typography>
+        <Box sx={{ display: "flex", flexDirection: "column", gap: 0.5, maxHeight: "calc(100vh - 360px)", overflowY: "auto" }}>
+          {undated.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              Every card has a date
+            </Typography>
+          ) : (
+            undated.map(card => renderCard(card, listTitles.get(card.listId)))
+          )}
+        </Box>
+      </Paper>
+    </Box>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,592 @@
+"use client"
+
+import { Fragment, useEffect, useMemo, useRef, useState } from "react"
+import {
+  Box,
+  Alert,
+  Paper,
+  TextField,
+  Button,
+  IconButton,
+  ToggleButton,
+  ToggleButtonGroup,
+} from "@mui/material"
+import AddIcon from "@mui/icons-material/Add"
+import CloseIcon from "@mui/icons-material/Close"
+import ViewColumnIcon from "@mui/icons-material/ViewColumn"
+import CalendarMonthIcon from "@mui/icons-material/CalendarMonth"
+import ViewTimelineIcon from "@mui/icons-material/ViewTimeline"
+import type { BoardMember } from "@/lib/actions/boards"
+import {
+  type List,
+  type UpdateListRequest,
+  createList,
+  updateList,
+  deleteList,
+  reorderLists,
+  getBoardLists,
+} from "@/lib/actions/lists"
+import {
+  type Card,
+  type UpdateCardRequest,
+  createCard,
+  updateCard,
+  deleteCard,
+  moveCard,
+  reorderCard,
+  getListCards,
+  setCardWatching,
+} from "@/lib/actions/cards"
+import { useServerActionErrorHandler } from "@/lib/actions/errorHandler"
+import { ListColumn } from "./ListColumn"
+import { CardDetailDialog } from "./CardDetailDialog"
+import { BoardCalendarView } from "./BoardCalendarView"
+import { BoardTimelineView } from "./BoardTimelineView"
+import {
+  type MoveDirection,
+  placeCard,
+  placeList,
+  restoreCard,
+  restoreList,
+  dropIndexFromPointer,
+  scrollNearEdge,
+} from "./dragAndDrop"
+import { type BoardEvent, applyEventToCards, applyEventToLists, useBoardEvents } from "./boardEvents"
+
+type BoardView = "board" | "calendar" | "timeline"
+
+type DragState =
+  | { type: "card"; cardId: string }
+  | { type: "list"; listId: string }
+
+interface BoardClientProps {
+  boardId: string
+  initialLists: List[]
+  initialCards: Record<string, Card[]>
+  members: BoardMember[]
+  // Opens a card straight away, e.g. when arriving from search results
+  initialOpenCardId?: string
+}
+
+function ListDropIndicator() {
+  return <Box sx={{ width: 4, alignSelf: "stretch", flexShrink: 0, borderRadius: 1, bgcolor: "primary.main" }} />
+}
+
+export function BoardClient({ boardId, initialLists, initialCards, members, initialOpenCardId }: BoardClientProps) {
+  const [lists, setLists] = useState<List[]>(initialLists)
+  const [cardsByList, setCardsByList] = useState<Record<string, Card[]>>(initialCards)
+  const [view, setView] = useState<BoardView>("board")
+  const [error, setError] = useState<string | null>(null)
+  const [wipWarning, setWipWarning] = useState<string | null>(null)
+  const [isAddingList, setIsAddingList] = useState(false)
+  const [listTitle, setListTitle] = useState("")
+  const [savingList, setSavingList] = useState(false)
+  const [deletingListId, setDeletingListId] = useState<string | null>(null)
+  const [openCardId, setOpenCardId] = useState<string | null>(initialOpenCardId ?? null)
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const [cardDropTarget, setCardDropTarget] = useState<{ listId: string; index: number } | null>(null)
+  const [listDropIndex, setListDropIndex] = useState<number | null>(null)
+  const [announcement, setAnnouncement] = useState("")
+  const [focusCardId, setFocusCardId] = useState<string | null>(null)
+  const boardRef = useRef<HTMLDivElement>(null)
+  const { handleWithReauth } = useServerActionErrorHandler()
+
+  const membersById = useMemo(
+    () => new Map(members.map(member => [member.userId, member])),
+    [members]
+  )
+
+  const openCard = useMemo(() => {
+    if (!openCardId) return null
+    return Object.values(cardsByList).flat().find(card => card.id === openCardId) ?? null
+  }, [cardsByList, openCardId])
+
+  const reportError = async (err: unknown) => {
+    const parsedError = await handleWithReauth(err)
+    setError(parsedError.userMessage)
+  }
+
+  // Soft WIP limits let the card in; say which list it went over
+  const warnOverWipLimit = (listId: string) => {
+    const list = lists.find(item => item.id === listId)
+    if (!list?.wipLimit) return
+    setWipWarning(`"${list.title}" is over its WIP limit of ${list.wipLimit} ${list.wipLimit === 1 ? "card" : "cards"}`)
+  }
+
+  // Apply changes made by everyone else looking at this board
+  const applyEvent = (event: BoardEvent) => {
+    setLists(prev => applyEventToLists(prev, event))
+    setCardsByList(prev => applyEventToCards(prev, event))
+  }
+
+  // Events sent while the stream was down are gone, so reload the board
+  const reloadBoard = async () => {
+    try {
+      const freshLists = await getBoardLists(boardId)
+      const freshCards = await Promise.all(freshLists.map(list => getListCards(list.id)))
+      setLists(freshLists)
+      setCardsByList(Object.fromEntries(
+        freshLists.map((list, index) => [list.id, freshCards[index] ?? []])
+      ))
+    } catch (err) {
+      await reportError(err)
+    }
+  }
+
+  useBoardEvents(boardId, applyEvent, reloadBoard)
+
+  // A card moved with the keyboard is remounted in its new list; give it focus back
+  useEffect(() => {
+    if (!focusCardId || !boardRef.current) return
+
+    boardRef.current
+      .querySelector<HTMLElement>(`[data-card-id="${focusCardId}"] .MuiCardActionArea-root`)
+      ?.focus()
+    setFocusCardId(null)
+  }, [focusCardId])
+
+  const commitCardMove = async (cardId: string, toListId: string, index: number) => {
+    const placement = placeCard(cardsByList, cardId, toListId, index)
+    if (!placement) return false
+
+    // Show the move right away and roll back if the server rejects it. The
+    // rollback only undoes this move, so live events that arrived while the
+    // request was out are kept
+    setCardsByList(placement.cardsByList)
+    setError(null)
+
+    try {
+      if (placement.fromListId === toListId) {
+        await reorderCard(boardId, cardId, toListId, placement.position)
+      } else {
+        const { overWipLimit } = await moveCard(boardId, cardId, toListId, placement.position)
+        if (overWipLimit) warnOverWipLimit(toListId)
+      }
+    } catch (err) {
+      setCardsByList(prev => restoreCard(prev, placement.card))
+      await reportError(err)
+    }
+    return true
+  }
+
+  const commitListMove = async (listId: string, index: number) => {
+    const original = lists.find(list => list.id === listId)
+    const reordered = placeList(lists, listId, index)
+    const moved = reordered?.find(list => list.id === listId)
+    if (!original || !reordered || !moved) return false
+
+    setLists(reordered)
+    setError(null)
+
+    // Only the moved list gets a new rank
+    try {
+      await reorderLists(boardId, [{ id: moved.id, position: moved.position }])
+    } catch (err) {
+      setLists(prev => restoreList(prev, original))
+      await reportError(err)
+    }
+    return true
+  }
+
+  const handleDragEnd = () => {
+    setDrag(null)
+    setCardDropTarget(null)
+    setListDropIndex(null)
+  }
+
+  const handleCardDragOver = (listId: string, index: number) => {
+    setCardDropTarget(prev =>
+      prev?.listId === listId && prev.index === index ? prev : { listId, index }
+    )
+  }
+
+  const handleCardDrop = () => {
+    if (drag?.type === "card" && cardDropTarget) {
+      // The drop index counts the dragged card itself when it stays in its list
+      const source = cardsByList[cardDropTarget.listId] ?? []
+      const currentIndex = source.findIndex(card => card.id === drag.cardId)
+      const index = currentIndex !== -1 && cardDropTarget.index > currentIndex
+        ? cardDropTarget.index - 1
+        : cardDropTarget.index
+      commitCardMove(drag.cardId, cardDropTarget.listId, index)
+    }
+    handleDragEnd()
+  }
+
+  // Lists are dropped on the board itself; cards only use it to scroll sideways
+  const handleBoardDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!drag || !boardRef.current) return
+
+    scrollNearEdge(boardRef.current, event.clientX, event.clientY, "x")
+    if (drag.type !== "list") return
+
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "move"
+    const index = dropIndexFromPointer(boardRef.current, ":scope > [data-list-id]", event.clientX, "x")
+    setListDropIndex(prev => (prev === index ? prev : index))
+  }
+
+  const handleBoardDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    if (drag?.type === "list" && listDropIndex !== null) {
+      event.preventDefault()
+      const currentIndex = lists.findIndex(list => list.id === drag.listId)
+      const index = listDropIndex > currentIndex ? listDropIndex - 1 : listDropIndex
+      commitListMove(drag.listId, index)
+    }
+    handleDragEnd()
+  }
+
+  const handleCardKeyboardMove = async (cardId: string, listId: string, direction: MoveDirection) => {
+    const listIndex = lists.findIndex(list => list.id === listId)
+    const cardIndex = (cardsByList[listId] ?? []).findIndex(card => card.id === cardId)
+    const card = cardsByList[listId]?.[cardIndex]
+    if (listIndex === -1 || !card) return
+
+    const targetList = direction === "left"
+      ? lists[listIndex - 1]
+      : direction === "right"
+        ? lists[listIndex + 1]
+        : lists[listIndex]
+    if (!targetList) return
+
+    const index = direction === "up"
+      ? cardIndex - 1
+      : direction === "down"
+        ? cardIndex + 1
+        : cardIndex
+    if (index < 0) return
+
+    // Set together with the optimistic move, so the effect runs once the card is remounted
+    setFocusCardId(cardId)
+    const targetCount = (cardsByList[targetList.id] ?? []).length
+    const finalIndex = targetList.id === listId ? index : Math.min(index, targetCount)
+    if (await commitCardMove(cardId, targetList.id, finalIndex)) {
+      setAnnouncement(`Moved "${card.title}" to ${targetList.title}, position ${finalIndex + 1}`)
+    }
+  }
+
+  const handleListKeyboardMove = async (listId: string, direction: "left" | "right") => {
+    const listIndex = lists.findIndex(list => list.id === listId)
+    const list = lists[listIndex]
+    if (!list) return
+
+    const index = direction === "left" ? listIndex - 1 : listIndex + 1
+    if (index < 0) return
+
+    if (await commitListMove(listId, index)) {
+      setAnnouncement(`Moved list "${list.title}" to position ${Math.min(index, lists.length - 1) + 1}`)
+    }
+  }
+
+  const handleAddList = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    if (!listTitle.trim()) {
+      return
+    }
+
+    try {
+      setSavingList(true)
+      setError(null)
+
+      const { list } = await createList(boardId, { title: listTitle.trim() })
+
+      // The live event for this list may already have added it
+      setLists(prev => [...prev.filter(item => item.id !== list.id), list])
+      setCardsByList(prev => ({ ...prev, [list.id]: prev[list.id] ?? [] }))
+      setListTitle("")
+    } catch (err) {
+      await reportError(err)
+    } finally {
+      setSavingList(false)
+    }
+  }
+
+  const handleRenameList = async (listId: string, title: string) => {
+    try {
+      setError(null)
+      const { list } = await updateList(listId, { title })
+      setLists(prev => prev.map(item => (item.id === listId ? list : item)))
+    } catch (err) {
+      await reportError(err)
+    }
+  }
+
+  // Errors are left to the dialog so they show next to the form
+  const handleUpdateWipLimit = async (listId: string, data: UpdateListRequest) => {
+    const { list } = await updateList(listId, data)
+    setLists(prev => prev.map(item => (item.id === listId ? list : item)))
+  }
+
+  const handleDeleteList = async (list: List) => {
+    const cardCount = cardsByList[list.id]?.length ?? 0
+    const message = cardCount > 0
+      ? `Delete "${list.title}" and its ${cardCount} card${cardCount !== 1 ? "s" : ""}?`
+      : `Delete "${list.title}"?`
+    if (!confirm(message)) {
+      return
+    }
+
+    try {
+      setDeletingListId(list.id)
+      setError(null)
+
+      await deleteList(boardId, list.id)
+
+      setLists(prev => prev.filter(item => item.id !== list.id))
+      setCardsByList(prev => Object.fromEntries(
+        Object.entries(prev).filter(([listId]) => listId !== list.id)
+      ))
+    } catch (err) {
+      await reportError(err)
+    } finally {
+      setDeletingListId(null)
+    }
+  }
+
+  const handleAddCard = async (listId: string, title: string) => {
+    try {
+      setError(null)
+      const { card, overWipLimit } = await createCard(boardId, listId, { title })
+      if (overWipLimit) warnOverWipLimit(listId)
+      setCardsByList(prev => ({
+        ...prev,
+        [listId]: [...(prev[listId] ?? []).filter(item => item.id !== card.id), card],
+      }))
+      return true
+    } catch (err) {
+      await reportError(err)
+      return false
+    }
+  }
+
+  // Errors are left to the dialog so they show next to the form
+  const handleSaveCard = async (cardId: string, data: UpdateCardRequest) => {
+    const { card } = await updateCard(boardId, cardId, data)
+    setCardsByList(prev => ({
+      ...prev,
+      [card.listId]: (prev[card.listId] ?? []).map(item => (item.id === cardId ? card : item)),
+    }))
+  }
+
+  // Date changes dragged in the calendar or timeline show at once and roll back on failure
+  const handleRescheduleCard = async (cardId: string, data: UpdateCardRequest) => {
+    const original = Object.values(cardsByList).flat().find(card => card.id === cardId)
+    if (!original) return
+
+    setCardsByList(prev => Object.fromEntries(
+      Object.entries(prev).map(([listId, cards]) => [
+        listId,
+        cards.map(card => (card.id === cardId ? { ...card, ...data } : card)),
+      ])
+    ))
+    setError(null)
+
+    try {
+      await handleSaveCard(cardId, data)
+    } catch (err) {
+      setCardsByList(prev => restoreCard(prev, original))
+      await reportError(err)
+    }
+  }
+
+  const handleToggleWatch = async (cardId: string, watching: boolean) => {
+    const result = await setCardWatching(boardId, cardId, watching)
+    setCardsByList(prev => Object.fromEntries(
+      Object.entries(prev).map(([listId, cards]) => [
+        listId,
+        cards.map(card => (card.id === cardId ? { ...card, isWatching: result.watching } : card)),
+      ])
+    ))
+  }
+
+  const handleDeleteCard = async (cardId: string) => {
+    await deleteCard(boardId, cardId)
+    setCardsByList(prev => Object.fromEntries(
+      Object.entries(prev).map(([listId, cards]) => [listId, cards.filter(card => card.id !== cardId)])
+    ))
+  }
+
+  return (
+    <>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {wipWarning && (
+        <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setWipWarning(null)}>
+          {wipWarning}
+        </Alert>
+      )}
+
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={view}
+        onChange={(_, value: BoardView | null) => value && setView(value)}
+        aria-label="Board view"
+        sx={{ mb: 2 }}
+      >
+        <ToggleButton value="board">
+          <ViewColumnIcon fontSize="small" sx={{ mr: 1 }} />
+          Board
+        </ToggleButton>
+        <ToggleButton value="calendar">
+          <CalendarMonthIcon fontSize="small" sx={{ mr: 1 }} />
+          Calendar
+        </ToggleButton>
+        <ToggleButton value="timeline">
+          <ViewTimelineIcon fontSize="small" sx={{ mr: 1 }} />
+          Timeline
+        </ToggleButton>
+      </ToggleButtonGroup>
+
+      {view === "calendar" && (
+        <BoardCalendarView
+          cards={Object.values(cardsByList).flat()}
+          lists={lists}
+          onOpenCard={setOpenCardId}
+          onReschedule={handleRescheduleCard}
+        />
+      )}
+
+      {view === "timeline" && (
+        <BoardTimelineView
+          cards={Object.values(cardsByList).flat()}
+          lists={lists}
+          members={members}
+          onOpenCard={setOpenCardId}
+          onReschedule={handleRescheduleCard}
+        />
+      )}
+
+      {/* Lists scroll horizontally; each list scrolls its own cards */}
+      <Box
+        ref={boardRef}
+        onDragOver={handleBoardDragOver}
+        onDrop={handleBoardDrop}
+        sx={{
+          // Kept mounted while the calendar shows so list scroll positions survive switching back
+          display: view === "board" ? "flex" : "none",
+          alignItems: "flex-start",
+          gap: 2,
+          overflowX: "auto",
+          pb: 2,
+          height: "calc(100vh - 280px)",
+          minHeight: 400,
+        }}
+      >
+        {lists.map((list, index) => (
+          <Fragment key={list.id}>
+            {listDropIndex === index && <ListDropIndicator />}
+            <ListColumn
+              list={list}
+              cards={cardsByList[list.id] ?? []}
+              membersById={membersById}
+              onRename={(title) => handleRenameList(list.id, title)}
+              onUpdateWipLimit={(data) => handleUpdateWipLimit(list.id, data)}
+              onDelete={() => handleDeleteList(list)}
+              onAddCard={(title) => handleAddCard(list.id, title)}
+              onOpenCard={(card) => setOpenCardId(card.id)}
+              isDeleting={deletingListId === list.id}
+              isCardDragActive={drag?.type === "card"}
+              draggingCardId={drag?.type === "card" ? drag.cardId : null}
+              cardDropIndex={cardDropTarget?.listId === list.id ? cardDropTarget.index : null}
+              onCardDragStart={(cardId) => setDrag({ type: "card", cardId })}
+              onCardDragOver={(cardIndex) => handleCardDragOver(list.id, cardIndex)}
+              onCardDrop={handleCardDrop}
+              onCardKeyboardMove={(cardId, direction) => handleCardKeyboardMove(cardId, list.id, direction)}
+              isListDragging={drag?.type === "list" && drag.listId === list.id}
+              onListDragStart={() => setDrag({ type: "list", listId: list.id })}
+              onListKeyboardMove={(direction) => handleListKeyboardMove(list.id, direction)}
+              onDragEnd={handleDragEnd}
+            />
+          </Fragment>
+        ))}
+        {listDropIndex === lists.length && <ListDropIndicator />}
+
+        {/* Add List */}
+        <Paper sx={{ width: 280, flexShrink: 0, p: 1.5, bgcolor: "grey.100" }}>
+          {isAddingList ? (
+            <form onSubmit={handleAddList}>
+              <TextField
+                value={listTitle}
+                onChange={(event) => setListTitle(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Escape") {
+                    setIsAddingList(false)
+                    setListTitle("")
+                  }
+                }}
+                placeholder="Enter list title"
+                size="small"
+                fullWidth
+                autoFocus
+                disabled={savingList}
+                sx={{ bgcolor: "background.paper" }}
+              />
+              <Box sx={{ display: "flex", alignItems: "center", gap: 1, mt: 1 }}>
+                <Button
+                  type="submit"
+                  variant="contained"
+                  size="small"
+                  disabled={savingList || !listTitle.trim()}
+                >
+                  {savingList ? "Adding..." : "Add List"}
+                </Button>
+                <IconButton
+                  size="small"
+                  onClick={() => {
+                    setIsAddingList(false)
+                    setListTitle("")
+                  }}
+                  disabled={savingList}
+                >
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              </Box>
+            </form>
+          ) : (
+            <Button
+              startIcon={<AddIcon />}
+              onClick={() => setIsAddingList(true)}
+              fullWidth
+              sx={{ justifyContent: "flex-start", color: "text.secondary" }}
+            >
+              {lists.length === 0 ? "Add your first list" : "Add another list"}
+            </Button>
+          )}
+        </Paper>
+      </Box>
+
+      {/* Announces keyboard moves to screen readers */}
+      <Box
+        component="output"
+        aria-live="polite"
+        sx={{
+          position: "absolute",
+          width: 1,
+          height: 1,
+          overflow: "hidden",
+          clip: "rect(0 0 0 0)",
+          whiteSpace: "nowrap",
+        }}
+      >
+        {announcement}
+      </Box>
+
+      <CardDetailDialog
+        boardId={boardId}
+        card={openCard}
+        lists={lists}
+        members={members}
+        onClose={() => setOpenCardId(null)}
+        onSave={handleSaveCard}
+        onDelete={handleDeleteCard}
+        onToggleWatch={handleToggleWatch}
+      />
+    </>
+  )
+}
\ No newline at end of file
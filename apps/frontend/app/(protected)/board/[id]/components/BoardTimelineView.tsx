@@ -0,0 +1,355 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import {
+  Box,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from "@mui/material"
+import type { BoardMember } from "@/lib/actions/boards"
+import type { Card, UpdateCardRequest } from "@/lib/actions/cards"
+import type { List } from "@/lib/actions/lists"
+import { formatDate } from "@/lib/utils/date"
+import { cardDays, daysBetween, isSameDay } from "./calendarLayout"
+import {
+  type BarDrag,
+  type TimelineGrouping,
+  type TimelineZoom,
+  DAY_WIDTH,
+  draggedSpan,
+  dragCard,
+  groupTimelineCards,
+  timelineRange,
+  timelineTicks,
+} from "./timelineLayout"
+
+interface BoardTimelineViewProps {
+  cards: Card[]
+  lists: List[]
+  members: BoardMember[]
+  onOpenCard: (cardId: string) => void
+  onReschedule: (cardId: string, data: UpdateCardRequest) => void
+}
+
+interface DragState {
+  cardId: string
+  drag: BarDrag
+  startX: number
+  offset: number
+}
+
+const LABEL_WIDTH = 220
+const ROW_HEIGHT = 32
+const HANDLE_WIDTH = 6
+
+// Alt + arrow keys move the focused bar a day; with Shift they move its due date
+const KEYBOARD_OFFSETS: Record<string, number> = {
+  ArrowLeft: -1,
+  ArrowRight: 1,
+}
+
+export function BoardTimelineView({ cards, lists, members, onOpenCard, onReschedule }: BoardTimelineViewProps) {
+  const [grouping, setGrouping] = useState<TimelineGrouping>("list")
+  const [zoom, setZoom] = useState<TimelineZoom>("week")
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  const today = useMemo(() => new Date(), [])
+  const range = useMemo(() => timelineRange(cards, today), [cards, today])
+  const ticks = useMemo(() => timelineTicks(range, zoom), [range, zoom])
+  const groups = useMemo(
+    () => groupTimelineCards(cards, grouping, lists, members),
+    [cards, grouping, lists, members]
+  )
+  const undatedCount = useMemo(() => cards.filter(card => !cardDays(card)).length, [cards])
+  const dayWidth = DAY_WIDTH[zoom]
+  const rangeStart = range.first.getTime()
+  const isDragging = drag !== null
+
+  // Start scrolled to today rather than to the earliest card, and again after zooming
+  useEffect(() => {
+    const container = scrollRef.current
+    if (!container) return
+    container.scrollLeft = Math.max(0, daysBetween(new Date(rangeStart), today) * dayWidth - container.clientWidth / 3)
+  }, [rangeStart, today, dayWidth])
+
+  // Pointer moves are followed on the window so a fast drag cannot slip off the bar
+  useEffect(() => {
+    if (!isDragging) return
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const current = dragRef.current
+      if (!current) return
+      const offset = Math.round((event.clientX - current.startX) / dayWidth)
+      if (offset !== current.offset) {
+        dragRef.current = { ...current, offset }
+        setDrag(dragRef.current)
+      }
+    }
+
+    const handlePointerUp = () => {
+      const current = dragRef.current
+      dragRef.current = null
+      setDrag(null)
+      if (!current) return
+
+      // A bar released where it started was clicked
+      if (current.offset === 0) {
+        if (current.drag === "move") onOpenCard(current.cardId)
+        return
+      }
+      const card = cards.find(item => item.id === current.cardId)
+      const data = card && dragCard(card, current.drag, current.offset)
+      if (data) {
+        onReschedule(current.cardId, data)
+      }
+    }
+
+    window.addEventListener("pointermove", handlePointerMove)
+    window.addEventListener("pointerup", handlePointerUp)
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove)
+      window.removeEventListener("pointerup", handlePointerUp)
+    }
+  }, [isDragging, cards, dayWidth, onOpenCard, onReschedule])
+
+  const startDrag = (event: React.PointerEvent, cardId: string, barDrag: BarDrag) => {
+    if (event.button !== 0) return
+    event.preventDefault()
+    event.stopPropagation()
+    dragRef.current = { cardId, drag: barDrag, startX: event.clientX, offset: 0 }
+    setDrag(dragRef.current)
+  }
+
+  const handleBarKeyDown = (event: React.KeyboardEvent, card: Card) => {
+    if (event.key === "Enter") {
+      onOpenCard(card.id)
+      return
+    }
+    const offset = KEYBOARD_OFFSETS[event.key]
+    if (!event.altKey || !offset) return
+
+    event.preventDefault()
+    const data = dragCard(card, event.shiftKey ? "end" : "move", offset)
+    if (data) {
+      onReschedule(card.id, data)
+    }
+  }
+
+  const renderBar = (card: Card) => {
+    const span = cardDays(card)
+    if (!span) return null
+
+    const shown = drag?.cardId === card.id ? draggedSpan(span, drag.drag, drag.offset) : span
+    const length = daysBetween(shown.first, shown.last) + 1
+    const label = card.labels[0]
+    const title = isSameDay(shown.first, shown.last)
+      ? `${card.title}: ${formatDate(shown.first)}`
+      : `${card.title}: ${formatDate(shown.first)} – ${formatDate(shown.last)}`
+
+    return (
+      <Tooltip title={title} disableHoverListener={drag !== null}>
+        <Box
+          role="button"
+          tabIndex={0}
+          aria-label={title}
+          aria-keyshortcuts="Alt+ArrowLeft Alt+ArrowRight Alt+Shift+ArrowLeft Alt+Shift+ArrowRight"
+          onPointerDown={(event) => startDrag(event, card.id, "move")}
+          onKeyDown={(event) => handleBarKeyDown(event, card)}
+          sx={{
+            position: "absolute",
+            top: 4,
+            height: ROW_HEIGHT - 8,
+            left: daysBetween(range.first, shown.first) * dayWidth,
+            width: Math.max(length * dayWidth, HANDLE_WIDTH * 2 + 2),
+            borderRadius: 1,
+            bgcolor: label?.color ?? "primary.main",
+            opacity: drag?.cardId === card.id ? 0.7 : 1,
+            cursor: drag?.cardId === card.id ? "grabbing" : "grab",
+            touchAction: "none",
+            overflow: "hidden",
+            "&:focus-visible": { outline: 2, outlineColor: "primary.dark", outlineStyle: "solid" },
+          }}
+        >
+          {(["start", "end"] as const).map(edge => (
+            <Box
+              key={edge}
+              onPointerDown={(event) => startDrag(event, card.id, edge)}
+              sx={{
+                position: "absolute",
+                top: 0,
+                bottom: 0,
+                [edge === "start" ? "left" : "right"]: 0,
+                width: HANDLE_WIDTH,
+                cursor: "ew-resize",
+                "&:hover": { bgcolor: "rgba(0, 0, 0, 0.2)" },
+              }}
+            />
+          ))}
+          {zoom !== "month" && (
+            <Typography
+              variant="caption"
+              noWrap
+              sx={{ display: "block", px: 1, lineHeight: `${ROW_HEIGHT - 8}px`, color: "common.white" }}
+            >
+              {card.title}
+            </Typography>
+          )}
+        </Box>
+      </Tooltip>
+    )
+  }
+
+  const trackWidth = range.days * dayWidth
+  const todayLeft = LABEL_WIDTH + daysBetween(range.first, today) * dayWidth + dayWidth / 2
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2 }}>
+      <Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 2, flexWrap: "wrap" }}>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={grouping}
+          onChange={(_, value: TimelineGrouping | null) => value && setGrouping(value)}
+          aria-label="Group by"
+        >
+          <ToggleButton value="list">By list</ToggleButton>
+          <ToggleButton value="assignee">By assignee</ToggleButton>
+        </ToggleButtonGroup>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={zoom}
+          onChange={(_, value: TimelineZoom | null) => value && setZoom(value)}
+          aria-label="Zoom"
+        >
+          <ToggleButton value="day">Days</ToggleButton>
+          <ToggleButton value="week">Weeks</ToggleButton>
+          <ToggleButton value="month">Months</ToggleButton>
+        </ToggleButtonGroup>
+        {undatedCount > 0 && (
+          <Typography variant="body2" color="text.secondary">
+            {undatedCount} {undatedCount === 1 ? "card has" : "cards have"} no dates and {undatedCount === 1 ? "is" : "are"} not shown
+          </Typography>
+        )}
+      </Box>
+
+      {groups.length === 0 ? (
+        <Typography color="text.secondary" sx={{ py: 4, textAlign: "center" }}>
+          No cards have a start or due date yet
+        </Typography>
+      ) : (
+        // Card titles stay pinned on the left while the dates scroll sideways
+        <Box ref={scrollRef} sx={{ overflow: "auto", maxHeight: "calc(100vh - 360px)", minHeight: 240 }}>
+          <Box sx={{ position: "relative", width: LABEL_WIDTH + trackWidth }}>
+            <Box
+              sx={{
+                display: "flex",
+                position: "sticky",
+                top: 0,
+                zIndex: 2,
+                height: ROW_HEIGHT,
+                bgcolor: "background.paper",
+                borderBottom: 1,
+                borderColor: "divider",
+              }}
+            >
+              <Box sx={{ width: LABEL_WIDTH, flexShrink: 0, position: "sticky", left: 0, bgcolor: "background.paper" }} />
+              <Box sx={{ position: "relative", width: trackWidth }}>
+                {ticks.map(tick => (
+                  <Typography
+                    key={tick.day.getTime()}
+                    variant="caption"
+                    color="text.secondary"
+                    sx={{
+                      position: "absolute",
+                      left: daysBetween(range.first, tick.day) * dayWidth,
+                      lineHeight: `${ROW_HEIGHT}px`,
+                      pl: 0.5,
+                      borderLeft: 1,
+                      borderColor: "divider",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {tick.label}
+                  </Typography>
+                ))}
+              </Box>
+            </Box>
+
+            {groups.map(group => (
+              <Box key={group.id}>
+                <Box
+                  sx={{
+                    position: "sticky",
+                    left: 0,
+                    width: LABEL_WIDTH,
+                    height: ROW_HEIGHT,
+                    px: 1,
+                    display: "flex",
+                    alignItems: "center",
+                  }}
+                >
+                  <Typography variant="subtitle2" noWrap>
+                    {group.title} ({group.cards.length})
+                  </Typography>
+                </Box>
+                {group.cards.map(card => (
+                  <Box key={card.id} sx={{ display: "flex", height: ROW_HEIGHT }}>
+                    <Box
+                      component="button"
+                      type="button"
+                      onClick={() => onOpenCard(card.id)}
+                      sx={{
+                        width: LABEL_WIDTH,
+                        flexShrink: 0,
+                        position: "sticky",
+                        left: 0,
+                        zIndex: 1,
+                        px: 2,
+                        border: 0,
+                        borderRight: 1,
+                        borderColor: "divider",
+                        bgcolor: "background.paper",
+                        font: "inherit",
+                        fontSize: 14,
+                        textAlign: "left",
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
+                        whiteSpace: "nowrap",
+                        cursor: "pointer",
+                      }}
+                    >
+                      {card.title}
+                    </Box>
+                    <Box sx={{ position: "relative", width: trackWidth }}>
+                      {renderBar(card)}
+                    </Box>
+                  </Box>
+                ))}
+              </Box>
+            ))}
+
+            {/* Today */}
+            <Box
+              sx={{
+                position: "absolute",
+                top: ROW_HEIGHT,
+                bottom: 0,
+                left: todayLeft,
+                width: 2,
+                bgcolor: "error.main",
+                opacity: 0.5,
+                pointerEvents: "none",
+              }}
+            />
+          </Box>
+        </Box>
+      )}
+    </Paper>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,109 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+} from "@mui/material"
+import { exportCardsCsv } from "@/lib/actions/boards"
+import { useServerActionErrorHandler } from "@/lib/actions/errorHandler"
+
+// Same keys and order as the backend's CSV columns
+const COLUMNS = [
+  { key: "title", label: "Title" },
+  { key: "list", label: "List" },
+  { key: "labels", label: "Labels" },
+  { key: "assignees", label: "Assignees" },
+  { key: "startDate", label: "Start date" },
+  { key: "dueDate", label: "Due date" },
+  { key: "archived", label: "Archived" },
+  { key: "createdAt", label: "Created" },
+]
+
+interface CardCsvExportDialogProps {
+  open: boolean
+  boardId: string
+  boardTitle: string
+  onClose: () => void
+}
+
+export function CardCsvExportDialog({ open, boardId, boardTitle, onClose }: CardCsvExportDialogProps) {
+  const [selected, setSelected] = useState<string[]>(COLUMNS.map((column) => column.key))
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { handleWithReauth } = useServerActionErrorHandler()
+
+  const toggleColumn = (key: string) => {
+    setSelected((current) =>
+      current.includes(key) ? current.filter((column) => column !== key) : [...current, key]
+    )
+  }
+
+  const handleExport = async () => {
+    setExporting(true)
+    setError(null)
+
+    try {
+      // Keep the table's column order whatever order the boxes were ticked in
+      const columns = COLUMNS.map((column) => column.key).filter((key) => selected.includes(key))
+      const csv = await exportCardsCsv(boardId, columns)
+      const blob = new Blob([csv], { type: "text/csv" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `${boardTitle.replace(/[^\w.-]+/g, "-") || "board"}-cards.csv`
+      link.click()
+      URL.revokeObjectURL(url)
+      onClose()
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setError(parsedError.userMessage)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={exporting ? undefined : onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Export Cards as CSV</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: "flex", flexDirection: "column" }}>
+          {error && (
+            <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 1 }}>
+              {error}
+            </Alert>
+          )}
+
+          {COLUMNS.map((column) => (
+            <FormControlLabel
+              key={column.key}
+              control={
+                <Checkbox
+                  checked={selected.includes(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                  disabled={exporting}
+                />
+              }
+              label={column.label}
+            />
+          ))}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={exporting}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleExport} disabled={exporting || selected.length === 0}>
+          {exporting ? "Exporting..." : "Export"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,281 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+  Alert,
+  Chip,
+  Avatar,
+  Typography,
+  Autocomplete,
+  Divider,
+} from "@mui/material"
+import ScheduleIcon from "@mui/icons-material/Schedule"
+import VisibilityIcon from "@mui/icons-material/Visibility"
+import VisibilityOutlinedIcon from "@mui/icons-material/VisibilityOutlined"
+import type { Card, UpdateCardRequest } from "@/lib/actions/cards"
+import type { BoardMember } from "@/lib/actions/boards"
+import type { List } from "@/lib/actions/lists"
+import { getInitials } from "@/lib/utils"
+import { formatDate } from "@/lib/utils/date"
+import { useServerActionErrorHandler } from "@/lib/actions/errorHandler"
+import { CardRecurrenceSection } from "./CardRecurrenceSection"
+
+interface CardDetailDialogProps {
+  boardId: string
+  card: Card | null
+  lists: List[]
+  members: BoardMember[]
+  onClose: () => void
+  onSave: (cardId: string, data: UpdateCardRequest) => Promise<void>
+  onDelete: (cardId: string) => Promise<void>
+  onToggleWatch: (cardId: string, watching: boolean) => Promise<void>
+}
+
+export function CardDetailDialog({
+  boardId,
+  card,
+  lists,
+  members,
+  onClose,
+  onSave,
+  onDelete,
+  onToggleWatch,
+}: CardDetailDialogProps) {
+  const [title, setTitle] = useState("")
+  const [description, setDescription] = useState("")
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { handleWithReauth } = useServerActionErrorHandler()
+
+  // Reset the form whenever a different card is opened
+  useEffect(() => {
+    setTitle(card?.title ?? "")
+    setDescription(card?.description ?? "")
+    setAssigneeIds(card?.assigneeIds ?? [])
+    setError(null)
+  }, [card])
+
+  if (!card) {
+    return null
+  }
+
+  const listTitle = lists.find(list => list.id === card.listId)?.title
+  const memberName = (member: BoardMember) => member.user.name || member.user.username
+  const assignees = assigneeIds
+    .map(id => members.find(member => member.userId === id))
+    .filter((member): member is BoardMember => member !== undefined)
+  const assigneesChanged = assigneeIds.length !== card.assigneeIds.length
+    || assigneeIds.some(id => !card.assigneeIds.includes(id))
+  const hasChanges = title.trim() !== card.title
+    || description.trim() !== (card.description ?? "")
+    || assigneesChanged
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    if (!title.trim()) {
+      setError("Card title is required")
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      await onSave(card.id, {
+        title: title.trim(),
+        description: description.trim(),
+        ...(assigneesChanged && { assigneeIds }),
+      })
+      onClose()
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setError(parsedError.userMessage)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm("Are you sure you want to delete this card?")) {
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      await onDelete(card.id)
+      onClose()
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setError(parsedError.userMessage)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToggleWatch = async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      await onToggleWatch(card.id, !card.isWatching)
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setError(parsedError.userMessage)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      onClose()
+    }
+  }
+
+  return (
+    <Dialog open onClose={handleClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle sx={{ display: "flex", alignItems: "flex-start", justifyContent: "space-between", gap: 2 }}>
+          <Box>
+            Card Details
+            {listTitle && (
+              <Typography variant="body2" color="text.secondary">
+                in list {listTitle}
+              </Typography>
+            )}
+          </Box>
+          <Button
+            size="small"
+            variant={card.isWatching ? "contained" : "outlined"}
+            startIcon={card.isWatching ? <VisibilityIcon /> : <VisibilityOutlinedIcon />}
+            onClick={handleToggleWatch}
+            disabled={loading}
+          >
+            {card.isWatching ? "Watching" : "Watch"}
+          </Button>
+        </DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2, mt: 1 }}>
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            <TextField
+              label="Title"
+              value={title}
+              onChange={(event) => setTitle(event.target.value)}
+              required
+              fullWidth
+              autoFocus
+              disabled={loading}
+            />
+
+            <TextField
+              label="Description"
+              value={description}
+              onChange={(event) => setDescription(event.target.value)}
+              multiline
+              rows={4}
+              fullWidth
+              disabled={loading}
+            />
+
+            <Autocomplete
+              multiple
+              options={members}
+              value={assignees}
+              onChange={(_event, selected) => setAssigneeIds(selected.map(member => member.userId))}
+              getOptionLabel={memberName}
+              isOptionEqualToValue={(option, value) => option.userId === value.userId}
+              disabled={loading}
+              renderOption={({ key, ...props }, member) => (
+                <Box component="li" key={key} {...props} sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                  <Avatar src={member.user.avatarUrl} alt={memberName(member)} sx={{ width: 24, height: 24, fontSize: 12 }}>
+                    {getInitials(memberName(member))}
+                  </Avatar>
+                  {memberName(member)}
+                </Box>
+              )}
+              renderValue={(selected, getItemProps) => selected.map((member, index) => {
+                const { key, ...itemProps } = getItemProps({ index })
+                return (
+                  <Chip
+                    key={key}
+                    {...itemProps}
+                    avatar={
+                      <Avatar src={member.user.avatarUrl} alt={memberName(member)}>
+                        {getInitials(memberName(member))}
+                      </Avatar>
+                    }
+                    label={memberName(member)}
+                    size="small"
+                  />
+                )
+              })}
+              renderInput={(params) => <TextField {...params} label="Assignees" />}
+            />
+
+            {(card.labels.length > 0 || card.dueDate) && (
+              <Box sx={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 1 }}>
+                {card.labels.map(label => (
+                  <Chip
+                    key={label.id}
+                    label={label.name}
+                    size="small"
+                    sx={{ bgcolor: label.color, color: "common.white" }}
+                  />
+                ))}
+                {card.dueDate && (
+                  <Chip
+                    icon={<ScheduleIcon />}
+                    label={`Due ${formatDate(card.dueDate)}`}
+                    size="small"
+                    color={card.isOverdue ? "error" : "default"}
+                    variant={card.isOverdue ? "filled" : "outlined"}
+                  />
+                )}
+              </Box>
+            )}
+
+            <Divider />
+
+            <CardRecurrenceSection boardId={boardId} cardId={card.id} lists={lists} disabled={loading} />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={handleDelete}
+            color="error"
+            disabled={loading}
+            sx={{ mr: "auto" }}
+          >
+            Delete Card
+          </Button>
+          <Button onClick={handleClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={loading || !title.trim() || !hasChanges}
+          >
+            {loading ? "Saving..." : "Save"}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,157 @@
+"use client"
+
+import {
+  Card as MuiCard,
+  CardActionArea,
+  CardContent,
+  Typography,
+  Box,
+  Chip,
+  Avatar,
+  AvatarGroup,
+  Tooltip,
+} from "@mui/material"
+import ScheduleIcon from "@mui/icons-material/Schedule"
+import ChecklistIcon from "@mui/icons-material/Checklist"
+import type { Card } from "@/lib/actions/cards"
+import type { BoardMember } from "@/lib/actions/boards"
+import { getInitials } from "@/lib/utils"
+import { formatDate } from "@/lib/utils/date"
+import type { MoveDirection } from "./dragAndDrop"
+
+interface CardItemProps {
+  card: Card
+  assignees: BoardMember[]
+  onOpen: () => void
+  onDragStart: () => void
+  onDragEnd: () => void
+  onKeyboardMove: (direction: MoveDirection) => void
+  isDragging?: boolean
+}
+
+const KEYBOARD_MOVES: Record<string, MoveDirection> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
+}
+
+export function CardItem({
+  card,
+  assignees,
+  onOpen,
+  onDragStart,
+  onDragEnd,
+  onKeyboardMove,
+  isDragging,
+}: CardItemProps) {
+  const checklistDone = card.checklistProgress
+    ? card.checklistProgress.completed === card.checklistProgress.total
+    : false
+
+  const handleDragStart = (event: React.DragEvent<HTMLDivElement>) => {
+    // Firefox only starts a drag when some data is set
+    event.dataTransfer.setData("text/plain", card.id)
+    event.dataTransfer.effectAllowed = "move"
+    onDragStart()
+  }
+
+  // Alt + arrow keys move the focused card without a pointer
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const direction = KEYBOARD_MOVES[event.key]
+    if (event.altKey && direction) {
+      event.preventDefault()
+      onKeyboardMove(direction)
+    }
+  }
+
+  return (
+    <MuiCard
+      variant="outlined"
+      data-card-id={card.id}
+      draggable
+      onDragStart={handleDragStart}
+      onDragEnd={onDragEnd}
+      sx={{ flexShrink: 0, opacity: isDragging ? 0.4 : 1, cursor: "grab" }}
+    >
+      {/* Rendered as a div so Firefox lets the card be dragged from anywhere */}
+      <CardActionArea
+        component="div"
+        onClick={onOpen}
+        onKeyDown={handleKeyDown}
+        aria-keyshortcuts="Alt+ArrowUp Alt+ArrowDown Alt+ArrowLeft Alt+ArrowRight"
+      >
+        {card.coverUrl && (
+          <Box
+            sx={{
+              height: 80,
+              backgroundImage: `url(${card.coverUrl})`,
+              backgroundSize: "cover",
+              backgroundPosition: "center",
+            }}
+          />
+        )}
+        <CardContent sx={{ p: 1.5, "&:last-child": { pb: 1.5 } }}>
+          {card.labels.length > 0 && (
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.5, mb: 1 }}>
+              {card.labels.map(label => (
+                <Chip
+                  key={label.id}
+                  label={label.name}
+                  size="small"
+                  sx={{ bgcolor: label.color, color: "common.white", height: 20, fontSize: 12 }}
+                />
+              ))}
+            </Box>
+          )}
+
+          <Typography variant="body2" sx={{ wordBreak: "break-word" }}>
+            {card.title}
+          </Typography>
+
+          {(card.dueDate || card.checklistProgress || assignees.length > 0) && (
+            <Box sx={{ display: "flex", alignItems: "center", gap: 1, mt: 1 }}>
+              {card.dueDate && (
+                <Chip
+                  icon={<ScheduleIcon />}
+                  label={formatDate(card.dueDate)}
+                  size="small"
+                  color={card.isOverdue ? "error" : "default"}
+                  variant={card.isOverdue ? "filled" : "outlined"}
+                  sx={{ height: 22 }}
+                />
+              )}
+              {card.checklistProgress && (
+                <Chip
+                  icon={<ChecklistIcon />}
+                  label={card.checklistProgress.display}
+                  size="small"
+                  color={checklistDone ? "success" : "default"}
+                  variant="outlined"
+                  sx={{ height: 22 }}
+                />
+              )}
+              {assignees.length > 0 && (
+                <AvatarGroup
+                  max={3}
+                  sx={{ ml: "auto", "& .MuiAvatar-root": { width: 24, height: 24, fontSize: 12 } }}
+                >
+                  {assignees.map(assignee => {
+                    const assigneeName = assignee.user.name || assignee.user.username
+                    return (
+                      <Tooltip key={assignee.userId} title={assigneeName}>
+                        <Avatar src={assignee.user.avatarUrl} alt={assigneeName}>
+                          {getInitials(assigneeName)}
+                        </Avatar>
+                      </Tooltip>
+                    )
+                  })}
+                </AvatarGroup>
+              )}
+            </Box>
+          )}
+        </CardContent>
+      </CardActionArea>
+    </MuiCard>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,237 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  Alert,
+  Box,
+  Button,
+  MenuItem,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material"
+import RepeatIcon from "@mui/icons-material/Repeat"
+import {
+  type CardRecurrence,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+  deleteCardRecurrence,
+  getCardRecurrence,
+  setCardRecurrence,
+} from "@/lib/actions/cards"
+import type { List } from "@/lib/actions/lists"
+import { useServerActionErrorHandler } from "@/lib/actions/errorHandler"
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency | "NONE"; label: string }[] = [
+  { value: "NONE", label: "Does not repeat" },
+  { value: "DAILY", label: "Daily" },
+  { value: "WEEKLY", label: "Weekly" },
+  { value: "MONTHLY", label: "Monthly" },
+  { value: "CRON", label: "Custom (cron)" },
+]
+
+interface CardRecurrenceSectionProps {
+  boardId: string
+  cardId: string
+  lists: List[]
+  disabled?: boolean
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+export function CardRecurrenceSection({ boardId, cardId, lists, disabled }: CardRecurrenceSectionProps) {
+  const [recurrence, setRecurrence] = useState<CardRecurrence | null>(null)
+  const [frequency, setFrequency] = useState<RecurrenceFrequency | "NONE">("NONE")
+  const [time, setTime] = useState("09:00")
+  const [weekdays, setWeekdays] = useState<number[]>([1])
+  const [dayOfMonth, setDayOfMonth] = useState("1")
+  const [cron, setCron] = useState("0 9 * * 1")
+  const [targetListId, setTargetListId] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { handleWithReauth } = useServerActionErrorHandler()
+
+  // Only calls state setters, so it stays the same function across renders
+  const applyRecurrence = useCallback((value: CardRecurrence | null) => {
+    setRecurrence(value)
+    setFrequency(value?.rule.frequency ?? "NONE")
+    if (value?.rule.hour !== undefined && value.rule.minute !== undefined) {
+      setTime(`${pad(value.rule.hour)}:${pad(value.rule.minute)}`)
+    }
+    if (value?.rule.weekdays) setWeekdays(value.rule.weekdays)
+    if (value?.rule.dayOfMonth) setDayOfMonth(String(value.rule.dayOfMonth))
+    if (value?.rule.cron) setCron(value.rule.cron)
+    setTargetListId(value?.targetListId ?? "")
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    setError(null)
+    getCardRecurrence(cardId)
+      .then((value) => {
+        if (!cancelled) applyRecurrence(value)
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load repeat settings")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [cardId, applyRecurrence])
+
+  const buildRule = (): RecurrenceRule | null => {
+    if (frequency === "NONE") return null
+    if (frequency === "CRON") return { frequency, cron: cron.trim() }
+
+    const [hour, minute] = time.split(":").map(Number)
+    const rule: RecurrenceRule = { frequency, hour, minute }
+    if (frequency === "WEEKLY") rule.weekdays = weekdays
+    if (frequency === "MONTHLY") rule.dayOfMonth = Number(dayOfMonth)
+    return rule
+  }
+
+  const handleSave = async () => {
+    const rule = buildRule()
+    setSaving(true)
+    setError(null)
+
+    try {
+      if (rule) {
+        applyRecurrence(await setCardRecurrence(boardId, cardId, rule, targetListId || null))
+      } else if (recurrence) {
+        await deleteCardRecurrence(boardId, cardId)
+        applyRecurrence(null)
+      }
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setError(parsedError.userMessage)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const busy = disabled || saving
+
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", gap: 1.5 }}>
+      <Typography variant="subtitle2" sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+        <RepeatIcon fontSize="small" /> Repeat
+      </Typography>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1.5 }}>
+        <TextField
+          select
+          size="small"
+          label="Frequency"
+          value={frequency}
+          onChange={(event) => setFrequency(event.target.value as RecurrenceFrequency | "NONE")}
+          disabled={busy}
+          sx={{ minWidth: 180 }}
+        >
+          {FREQUENCY_OPTIONS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {frequency !== "NONE" && frequency !== "CRON" && (
+          <TextField
+            size="small"
+            type="time"
+            label="Time (UTC)"
+            value={time}
+            onChange={(event) => setTime(event.target.value)}
+            disabled={busy}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        )}
+
+        {frequency === "MONTHLY" && (
+          <TextField
+            size="small"
+            type="number"
+            label="Day of month"
+            value={dayOfMonth}
+            onChange={(event) => setDayOfMonth(event.target.value)}
+            disabled={busy}
+            slotProps={{ htmlInput: { min: 1, max: 31 } }}
+            sx={{ width: 130 }}
+          />
+        )}
+
+        {frequency === "CRON" && (
+          <TextField
+            size="small"
+            label="Cron expression (UTC)"
+            value={cron}
+            onChange={(event) => setCron(event.target.value)}
+            disabled={busy}
+            helperText="minute hour day-of-month month day-of-week"
+            sx={{ minWidth: 240 }}
+          />
+        )}
+
+        {frequency !== "NONE" && (
+          <TextField
+            select
+            size="small"
+            label="Copy into"
+            value={targetListId}
+            onChange={(event) => setTargetListId(event.target.value)}
+            disabled={busy}
+            sx={{ minWidth: 180 }}
+          >
+            <MenuItem value="">This card&apos;s list</MenuItem>
+            {lists.map((list) => (
+              <MenuItem key={list.id} value={list.id}>
+                {list.title}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+      </Box>
+
+      {frequency === "WEEKLY" && (
+        <ToggleButtonGroup
+          size="small"
+          value={weekdays}
+          onChange={(_event, value: number[]) => setWeekdays([...value].sort((a, b) => a - b))}
+          disabled={busy}
+          aria-label="Weekdays"
+        >
+          {WEEKDAYS.map((label, index) => (
+            <ToggleButton key={label} value={index} aria-label={label}>
+              {label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      )}
+
+      <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={handleSave}
+          disabled={busy || (frequency === "NONE" && !recurrence)}
+        >
+          {frequency === "NONE" ? "Stop repeating" : recurrence ? "Update repeat" : "Repeat card"}
+        </Button>
+        {recurrence && (
+          <Typography variant="caption" color="text.secondary">
+            Next copy {new Date(recurrence.nextRunAt).toLocaleString()}
+          </Typography>
+        )}
+      </Box>
+    </Box>
+  )
+}
\ No newline at end of file
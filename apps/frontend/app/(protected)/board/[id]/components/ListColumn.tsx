@@ -0,0 +1,371 @@
+"use client"
+
+import { Fragment, useRef, useState } from "react"
+import {
+  Paper,
+  Box,
+  Typography,
+  IconButton,
+  Menu,
+  MenuItem,
+  TextField,
+  Button,
+  Tooltip,
+} from "@mui/material"
+import MoreVertIcon from "@mui/icons-material/MoreVert"
+import AddIcon from "@mui/icons-material/Add"
+import CloseIcon from "@mui/icons-material/Close"
+import DragIndicatorIcon from "@mui/icons-material/DragIndicator"
+import type { List, UpdateListRequest } from "@/lib/actions/lists"
+import type { Card } from "@/lib/actions/cards"
+import type { BoardMember } from "@/lib/actions/boards"
+import { CardItem } from "./CardItem"
+import { ListWipLimitDialog } from "./ListWipLimitDialog"
+import { type MoveDirection, dropIndexFromPointer, scrollNearEdge } from "./dragAndDrop"
+
+interface ListColumnProps {
+  list: List
+  cards: Card[]
+  membersById: Map<string, BoardMember>
+  onRename: (title: string) => Promise<void>
+  onUpdateWipLimit: (data: UpdateListRequest) => Promise<void>
+  onDelete: () => void
+  onAddCard: (title: string) => Promise<boolean>
+  onOpenCard: (card: Card) => void
+  isDeleting?: boolean
+  // Card drag-and-drop; the drop index counts the rendered cards, dragged card included
+  isCardDragActive: boolean
+  draggingCardId: string | null
+  cardDropIndex: number | null
+  onCardDragStart: (cardId: string) => void
+  onCardDragOver: (index: number) => void
+  onCardDrop: () => void
+  onCardKeyboardMove: (cardId: string, direction: MoveDirection) => void
+  // List drag-and-drop
+  isListDragging: boolean
+  onListDragStart: () => void
+  onListKeyboardMove: (direction: "left" | "right") => void
+  onDragEnd: () => void
+}
+
+function DropIndicator() {
+  return <Box sx={{ height: 4, flexShrink: 0, borderRadius: 1, bgcolor: "primary.main" }} />
+}
+
+export function ListColumn({
+  list,
+  cards,
+  membersById,
+  onRename,
+  onUpdateWipLimit,
+  onDelete,
+  onAddCard,
+  onOpenCard,
+  isDeleting,
+  isCardDragActive,
+  draggingCardId,
+  cardDropIndex,
+  onCardDragStart,
+  onCardDragOver,
+  onCardDrop,
+  onCardKeyboardMove,
+  isListDragging,
+  onListDragStart,
+  onListKeyboardMove,
+  onDragEnd,
+}: ListColumnProps) {
+  const paperRef = useRef<HTMLDivElement>(null)
+  const cardsRef = useRef<HTMLDivElement>(null)
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [title, setTitle] = useState(list.title)
+  const [isAddingCard, setIsAddingCard] = useState(false)
+  const [cardTitle, setCardTitle] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [isLimitDialogOpen, setIsLimitDialogOpen] = useState(false)
+
+  // Archived cards do not count against the limit
+  const openCount = cards.filter(card => !card.isArchived).length
+  const isOverLimit = list.wipLimit !== undefined && openCount > list.wipLimit
+  const isAtLimit = list.wipLimit !== undefined && openCount === list.wipLimit
+
+  const handleMenuClose = () => {
+    setAnchorEl(null)
+  }
+
+  const handleStartRename = () => {
+    handleMenuClose()
+    setTitle(list.title)
+    setIsRenaming(true)
+  }
+
+  const handleOpenLimitDialog = () => {
+    handleMenuClose()
+    setIsLimitDialogOpen(true)
+  }
+
+  const handleDelete = () => {
+    handleMenuClose()
+    onDelete()
+  }
+
+  const handleRename = async () => {
+    const trimmed = title.trim()
+    setIsRenaming(false)
+
+    if (!trimmed || trimmed === list.title) {
+      setTitle(list.title)
+      return
+    }
+
+    await onRename(trimmed)
+  }
+
+  const handleAddCard = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    if (!cardTitle.trim()) {
+      return
+    }
+
+    setSaving(true)
+    try {
+      // Keep the composer open so several cards can be added in a row
+      if (await onAddCard(cardTitle.trim())) {
+        setCardTitle("")
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancelAddCard = () => {
+    setIsAddingCard(false)
+    setCardTitle("")
+  }
+
+  const handleListDragStart = (event: React.DragEvent<HTMLDivElement>) => {
+    event.dataTransfer.setData("text/plain", list.id)
+    event.dataTransfer.effectAllowed = "move"
+    // Drag the whole column rather than just its header
+    if (paperRef.current) {
+      const rect = paperRef.current.getBoundingClientRect()
+      event.dataTransfer.setDragImage(paperRef.current, event.clientX - rect.left, event.clientY - rect.top)
+    }
+    onListDragStart()
+  }
+
+  const handleHandleKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+      event.preventDefault()
+      onListKeyboardMove(event.key === "ArrowLeft" ? "left" : "right")
+    }
+  }
+
+  const handleCardDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!isCardDragActive || !cardsRef.current) return
+
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "move"
+    scrollNearEdge(cardsRef.current, event.clientX, event.clientY, "y")
+    onCardDragOver(dropIndexFromPointer(cardsRef.current, "[data-card-id]", event.clientY, "y"))
+  }
+
+  const handleCardDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!isCardDragActive) return
+
+    event.preventDefault()
+    onCardDrop()
+  }
+
+  return (
+    <Paper
+      ref={paperRef}
+      data-list-id={list.id}
+      onDragOver={handleCardDragOver}
+      onDrop={handleCardDrop}
+      sx={{
+        width: 280,
+        flexShrink: 0,
+        display: "flex",
+        flexDirection: "column",
+        maxHeight: "100%",
+        bgcolor: "grey.100",
+        // Lists over their WIP limit are outlined
+        outline: isOverLimit ? 2 : 0,
+        outlineColor: "error.main",
+        outlineStyle: "solid",
+        outlineOffset: -2,
+        opacity: isDeleting || isListDragging ? 0.6 : 1,
+        pointerEvents: isDeleting ? "none" : "auto",
+      }}
+    >
+      {/* List Header (drag it to move the list) */}
+      <Box
+        draggable={!isRenaming}
+        onDragStart={handleListDragStart}
+        onDragEnd={onDragEnd}
+        sx={{ display: "flex", alignItems: "center", gap: 0.5, px: 1, pt: 1.5, pb: 1, cursor: isRenaming ? "auto" : "grab" }}
+      >
+        <IconButton
+          size="small"
+          aria-label={`Move list ${list.title}`}
+          aria-keyshortcuts="ArrowLeft ArrowRight"
+          onKeyDown={handleHandleKeyDown}
+          sx={{ cursor: "grab" }}
+        >
+          <DragIndicatorIcon fontSize="small" />
+        </IconButton>
+        {isRenaming ? (
+          <TextField
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            onBlur={handleRename}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                event.preventDefault()
+                handleRename()
+              }
+              if (event.key === "Escape") {
+                setTitle(list.title)
+                setIsRenaming(false)
+              }
+            }}
+            size="small"
+            fullWidth
+            autoFocus
+          />
+        ) : (
+          <Typography
+            variant="subtitle1"
+            sx={{ flexGrow: 1, fontWeight: 600, cursor: "pointer", wordBreak: "break-word" }}
+            onClick={handleStartRename}
+          >
+            {list.title}
+          </Typography>
+        )}
+        {list.wipLimit === undefined ? (
+          <Typography variant="body2" color="text.secondary">
+            {cards.length}
+          </Typography>
+        ) : (
+          <Tooltip
+            title={isOverLimit
+              ? `Over its WIP limit of ${list.wipLimit}`
+              : `WIP limit ${list.wipLimit}${list.wipLimitMode === "STRICT" ? ", strict" : ""}`}
+          >
+            <Typography
+              variant="body2"
+              color={isOverLimit ? "error.main" : isAtLimit ? "warning.main" : "text.secondary"}
+              sx={{ fontWeight: isOverLimit || isAtLimit ? 600 : 400, whiteSpace: "nowrap" }}
+            >
+              {openCount} / {list.wipLimit}
+            </Typography>
+          </Tooltip>
+        )}
+        <IconButton size="small" onClick={(event) => setAnchorEl(event.currentTarget)}>
+          <MoreVertIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      {/* Cards */}
+      <Box
+        ref={cardsRef}
+        sx={{
+          display: "flex",
+          flexDirection: "column",
+          gap: 1,
+          px: 1.5,
+          overflowY: "auto",
+          flexGrow: 1,
+          minHeight: 8,
+        }}
+      >
+        {cards.map((card, index) => (
+          <Fragment key={card.id}>
+            {cardDropIndex === index && <DropIndicator />}
+            <CardItem
+              card={card}
+              assignees={card.assigneeIds.flatMap(id => membersById.get(id) ?? [])}
+              onOpen={() => onOpenCard(card)}
+              onDragStart={() => onCardDragStart(card.id)}
+              onDragEnd={onDragEnd}
+              onKeyboardMove={(direction) => onCardKeyboardMove(card.id, direction)}
+              isDragging={draggingCardId === card.id}
+            />
+          </Fragment>
+        ))}
+        {cardDropIndex === cards.length && <DropIndicator />}
+      </Box>
+
+      {/* Add Card */}
+      <Box sx={{ p: 1.5 }}>
+        {isAddingCard ? (
+          <form onSubmit={handleAddCard}>
+            <TextField
+              value={cardTitle}
+              onChange={(event) => setCardTitle(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Escape") {
+                  handleCancelAddCard()
+                }
+              }}
+              placeholder="Enter a title for this card"
+              size="small"
+              fullWidth
+              multiline
+              autoFocus
+              disabled={saving}
+              sx={{ bgcolor: "background.paper" }}
+            />
+            <Box sx={{ display: "flex", alignItems: "center", gap: 1, mt: 1 }}>
+              <Button
+                type="submit"
+                variant="contained"
+                size="small"
+                disabled={saving || !cardTitle.trim()}
+              >
+                {saving ? "Adding..." : "Add Card"}
+              </Button>
+              <IconButton size="small" onClick={handleCancelAddCard} disabled={saving}>
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          </form>
+        ) : (
+          <Button
+            startIcon={<AddIcon />}
+            onClick={() => setIsAddingCard(true)}
+            fullWidth
+            sx={{ justifyContent: "flex-start", color: "text.secondary" }}
+          >
+            Add a card
+          </Button>
+        )}
+      </Box>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={handleMenuClose}
+      >
+        <MenuItem onClick={handleStartRename}>Rename List</MenuItem>
+        <MenuItem onClick={handleOpenLimitDialog}>Set WIP Limit</MenuItem>
+        <MenuItem
+          onClick={handleDelete}
+          sx={{ color: "error.main" }}
+          disabled={isDeleting}
+        >
+          {isDeleting ? "Deleting..." : "Delete List"}
+        </MenuItem>
+      </Menu>
+
+      <ListWipLimitDialog
+        open={isLimitDialogOpen}
+        list={list}
+        onClose={() => setIsLimitDialogOpen(false)}
+        onSave={onUpdateWipLimit}
+      />
+    </Paper>
+  )
+}
\ No newline at end of file
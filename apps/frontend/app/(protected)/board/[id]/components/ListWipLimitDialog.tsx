@@ -0,0 +1,120 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  TextField,
+} from "@mui/material"
+import type { List, UpdateListRequest, WipLimitMode } from "@/lib/actions/lists"
+import { useServerActionErrorHandler } from "@/lib/actions/errorHandler"
+
+// Same bounds as the backend's list validator
+const MAX_WIP_LIMIT = 999
+
+interface ListWipLimitDialogProps {
+  open: boolean
+  list: List
+  onClose: () => void
+  onSave: (data: UpdateListRequest) => Promise<void>
+}
+
+export function ListWipLimitDialog({ open, list, onClose, onSave }: ListWipLimitDialogProps) {
+  const [limit, setLimit] = useState("")
+  const [mode, setMode] = useState<WipLimitMode>(list.wipLimitMode)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { handleWithReauth } = useServerActionErrorHandler()
+
+  // Start from the list's current limit each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setLimit(list.wipLimit?.toString() ?? "")
+      setMode(list.wipLimitMode)
+      setError(null)
+    }
+  }, [open, list.wipLimit, list.wipLimitMode])
+
+  const parsed = Number(limit)
+  const isValid = limit.trim() === "" || (Number.isInteger(parsed) && parsed >= 1 && parsed <= MAX_WIP_LIMIT)
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!isValid) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      // An empty field removes the limit
+      await onSave({ wipLimit: limit.trim() === "" ? null : parsed, wipLimitMode: mode })
+      onClose()
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setError(parsedError.userMessage)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={saving ? undefined : onClose} maxWidth="xs" fullWidth>
+      <form onSubmit={handleSave}>
+        <DialogTitle>WIP Limit for {list.title}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+            {error && (
+              <Alert severity="error" onClose={() => setError(null)}>
+                {error}
+              </Alert>
+            )}
+
+            <TextField
+              label="Most cards in this list"
+              type="number"
+              value={limit}
+              onChange={(event) => setLimit(event.target.value)}
+              error={!isValid}
+              helperText={isValid ? "Leave empty for no limit" : `Enter a whole number from 1 to ${MAX_WIP_LIMIT}`}
+              slotProps={{ htmlInput: { min: 1, max: MAX_WIP_LIMIT, step: 1 } }}
+              disabled={saving}
+              autoFocus
+              fullWidth
+            />
+
+            <RadioGroup value={mode} onChange={(event) => setMode(event.target.value as WipLimitMode)}>
+              <FormControlLabel
+                value="SOFT"
+                control={<Radio />}
+                label="Warn: let cards in and highlight the list"
+                disabled={saving}
+              />
+              <FormControlLabel
+                value="STRICT"
+                control={<Radio />}
+                label="Strict: refuse cards once the list is full"
+                disabled={saving}
+              />
+            </RadioGroup>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="contained" disabled={saving || !isValid}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  )
+}
\ No newline at end of file
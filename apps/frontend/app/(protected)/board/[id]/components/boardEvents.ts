@@ -0,0 +1,240 @@
+import { useEffect, useRef } from "react"
+import type { Card } from "@/lib/actions/cards"
+import type { List } from "@/lib/actions/lists"
+import type { CardsByList } from "./dragAndDrop"
+
+// Cards and lists as the backend publishes them, before the board adds
+// labels, checklist progress and the overdue flag
+type CardData = Omit<Card, "isOverdue" | "checklistProgress" | "labels">
+type ListData = List
+
+interface BoardEventPayloads {
+  "card.created": { card: CardData }
+  "card.updated": { card: CardData }
+  "card.moved": { cardId: string; fromListId: string; toListId: string; position: number }
+  "card.archived": { cardId: string; listId: string }
+  "card.unarchived": { card: CardData }
+  "card.deleted": { cardId: string; listId: string }
+  "cards.reordered": { listId: string; cards: { id: string; position: number }[] }
+  "list.created": { list: ListData }
+  "list.updated": { list: ListData }
+  "list.deleted": { listId: string }
+  "lists.reordered": { lists: { id: string; position: number }[] }
+}
+
+export type BoardEventType = keyof BoardEventPayloads
+
+export type BoardEvent = {
+  [K in BoardEventType]: {
+    type: K
+    boardId: string
+    actorId: string
+    occurredAt: string
+    payload: BoardEventPayloads[K]
+  }
+}[BoardEventType]
+
+export const BOARD_EVENT_TYPES: BoardEventType[] = [
+  "card.created",
+  "card.updated",
+  "card.moved",
+  "card.archived",
+  "card.unarchived",
+  "card.deleted",
+  "cards.reordered",
+  "list.created",
+  "list.updated",
+  "list.deleted",
+  "lists.reordered",
+]
+
+// Reconnect delays after the server refuses the stream (e.g. an expired session)
+const MIN_RETRY_MS = 2_000
+const MAX_RETRY_MS = 60_000
+
+const byPosition = <T extends { position: number }>(a: T, b: T) => a.position - b.position
+
+function findCard(cardsByList: CardsByList, cardId: string) {
+  for (const cards of Object.values(cardsByList)) {
+    const card = cards.find(item => item.id === cardId)
+    if (card) return card
+  }
+  return undefined
+}
+
+function withoutCard(cardsByList: CardsByList, cardId: string): CardsByList {
+  return Object.fromEntries(
+    Object.entries(cardsByList).map(([listId, cards]) => [listId, cards.filter(card => card.id !== cardId)])
+  )
+}
+
+// Keeps what only the board endpoints know about a card the viewer already has
+function toCard(data: CardData, existing?: Card): Card {
+  return {
+    ...data,
+    isOverdue: data.dueDate ? new Date(data.dueDate).getTime() < Date.now() : false,
+    checklistProgress: existing?.checklistProgress,
+    labels: existing?.labels ?? [],
+  }
+}
+
+function putCard(cardsByList: CardsByList, data: CardData): CardsByList {
+  const card = toCard(data, findCard(cardsByList, data.id))
+  const rest = withoutCard(cardsByList, card.id)
+  return {
+    ...rest,
+    [card.listId]: [...(rest[card.listId] ?? []), card].sort(byPosition),
+  }
+}
+
+/**
+ * Applies an event from another viewer (or an echo of our own change) to the
+ * cards on the board. Every branch is idempotent, so an event that only
+ * confirms what an optimistic update already shows returns the same object.
+ */
+export function applyEventToCards(cardsByList: CardsByList, event: BoardEvent): CardsByList {
+  switch (event.type) {
+    case "card.created":
+    case "card.updated":
+    case "card.unarchived":
+      return putCard(cardsByList, event.payload.card)
+
+    case "card.moved": {
+      const { cardId, toListId, position } = event.payload
+      const card = findCard(cardsByList, cardId)
+      if (!card || (card.listId === toListId && card.position === position)) {
+        return cardsByList
+      }
+
+      // Ranks are fractional, so no other card moves
+      const rest = withoutCard(cardsByList, cardId)
+      return {
+        ...rest,
+        [toListId]: [...(rest[toListId] ?? []), { ...card, listId: toListId, position }].sort(byPosition),
+      }
+    }
+
+    case "cards.reordered": {
+      const { listId, cards } = event.payload
+      const positions = new Map(cards.map(({ id, position }) => [id, position]))
+      const current = cardsByList[listId]
+      if (!current) {
+        return cardsByList
+      }
+      return {
+        ...cardsByList,
+        [listId]: current
+          .map(card => ({ ...card, position: positions.get(card.id) ?? card.position }))
+          .sort(byPosition),
+      }
+    }
+
+    case "card.archived":
+    case "card.deleted":
+      return findCard(cardsByList, event.payload.cardId)
+        ? withoutCard(cardsByList, event.payload.cardId)
+        : cardsByList
+
+    case "list.created":
+      return cardsByList[event.payload.list.id]
+        ? cardsByList
+        : { ...cardsByList, [event.payload.list.id]: [] }
+
+    case "list.deleted":
+      return cardsByList[event.payload.listId]
+        ? Object.fromEntries(Object.entries(cardsByList).filter(([id]) => id !== event.payload.listId))
+        : cardsByList
+
+    default:
+      return cardsByList
+  }
+}
+
+/**
+ * The list counterpart of `applyEventToCards`.
+ */
+export function applyEventToLists(lists: List[], event: BoardEvent): List[] {
+  switch (event.type) {
+    case "list.created":
+    case "list.updated": {
+      const list = event.payload.list
+      return [...lists.filter(item => item.id !== list.id), list].sort(byPosition)
+    }
+
+    case "list.deleted":
+      return lists.some(list => list.id === event.payload.listId)
+        ? lists.filter(list => list.id !== event.payload.listId)
+        : lists
+
+    case "lists.reordered": {
+      const positions = new Map(event.payload.lists.map(({ id, position }) => [id, position]))
+      return lists
+        .map(list => ({ ...list, position: positions.get(list.id) ?? list.position }))
+        .sort(byPosition)
+    }
+
+    default:
+      return lists
+  }
+}
+
+/**
+ * Follows the board's event stream. `onEvent` receives every change;
+ * `onReconnect` runs when the stream comes back after a drop, since any
+ * events published in between are lost and the board should reload.
+ */
+export function useBoardEvents(
+  boardId: string,
+  onEvent: (event: BoardEvent) => void,
+  onReconnect: () => void
+) {
+  const handlers = useRef({ onEvent, onReconnect })
+  useEffect(() => {
+    handlers.current = { onEvent, onReconnect }
+  })
+
+  useEffect(() => {
+    let source: EventSource | null = null
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    let retryDelay = MIN_RETRY_MS
+    let connectedBefore = false
+
+    const handleMessage = (message: MessageEvent<string>) => {
+      try {
+        handlers.current.onEvent(JSON.parse(message.data) as BoardEvent)
+      } catch (error) {
+        console.error("Ignoring malformed board event:", error)
+      }
+    }
+
+    const connect = () => {
+      source = new EventSource(`/api/boards/${encodeURIComponent(boardId)}/events`)
+
+      source.addEventListener("ready", () => {
+        retryDelay = MIN_RETRY_MS
+        if (connectedBefore) {
+          handlers.current.onReconnect()
+        }
+        connectedBefore = true
+      })
+
+      BOARD_EVENT_TYPES.forEach(type => source?.addEventListener(type, handleMessage))
+
+      // EventSource retries dropped connections itself but gives up on error responses
+      source.onerror = () => {
+        if (source?.readyState !== EventSource.CLOSED) return
+
+        source = null
+        retryTimer = setTimeout(connect, retryDelay)
+        retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS)
+      }
+    }
+
+    connect()
+
+    return () => {
+      clearTimeout(retryTimer)
+      source?.close()
+    }
+  }, [boardId])
+}
\ No newline at end of file
@@ -0,0 +1,141 @@
+import type { Card, UpdateCardRequest } from "@/lib/actions/cards"
+
+export type CalendarMode = "month" | "week" | "agenda"
+
+export interface CardDays {
+  first: Date
+  last: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Cards dropped on a day without a time are due at local noon, so the date reads the same in nearby time zones
+const DEFAULT_DUE_HOUR = 12
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+// Works on calendar days, so clock times survive daylight saving changes
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+/**
+ * Whole calendar days from `from` to `to`, ignoring the time of day.
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS)
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return startOfDay(a).getTime() === startOfDay(b).getTime()
+}
+
+/**
+ * Local date as YYYY-MM-DD, used to group cards by the day they fall on.
+ */
+export function dayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * The days shown for `anchor`: whole weeks (Sunday first) covering its
+ * month, or the week it falls in. The agenda lists the days of its month.
+ */
+export function calendarDays(anchor: Date, mode: CalendarMode): Date[] {
+  const monthStart = new Date(anchor.getFullYear(), anchor.getMonth(), 1)
+  const monthEnd = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0)
+
+  let first: Date
+  let last: Date
+  if (mode === "week") {
+    first = addDays(startOfDay(anchor), -anchor.getDay())
+    last = addDays(first, 6)
+  } else if (mode === "month") {
+    first = addDays(monthStart, -monthStart.getDay())
+    last = addDays(monthEnd, 6 - monthEnd.getDay())
+  } else {
+    first = monthStart
+    last = monthEnd
+  }
+
+  const days: Date[] = []
+  for (let day = first; day <= last; day = addDays(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+/**
+ * Moves the anchor one page back or forward in the given mode.
+ */
+export function shiftAnchor(anchor: Date, mode: CalendarMode, step: 1 | -1): Date {
+  if (mode === "week") {
+    return addDays(anchor, 7 * step)
+  }
+  return new Date(anchor.getFullYear(), anchor.getMonth() + step, 1)
+}
+
+/**
+ * The days a card covers: from its start date to its due date, or the one
+ * date it has. Returns null for cards without dates.
+ */
+export function cardDays(card: Card): CardDays | null {
+  const start = card.startDate ? new Date(card.startDate) : null
+  const due = card.dueDate ? new Date(card.dueDate) : null
+  const first = start ?? due
+  const last = due ?? start
+  if (!first || !last) return null
+
+  return { first: startOfDay(first), last: startOfDay(last < first ? first : last) }
+}
+
+/**
+ * Groups cards under every shown day they cover, soonest first.
+ */
+export function cardsByDay(cards: Card[], days: Date[]): Map<string, Card[]> {
+  const byDay = new Map<string, Card[]>(days.map(day => [dayKey(day), []]))
+  const sorted = cards
+    .map(card => ({ card, days: cardDays(card) }))
+    .filter((entry): entry is { card: Card; days: CardDays } => entry.days !== null)
+    .sort((a, b) => a.days.first.getTime() - b.days.first.getTime() || a.card.title.localeCompare(b.card.title))
+
+  // Only the shown part of a long span is walked
+  const shownFirst = days[0]
+  const shownLast = days[days.length - 1]
+  if (!shownFirst || !shownLast) return byDay
+
+  for (const { card, days: span } of sorted) {
+    const first = span.first < shownFirst ? shownFirst : span.first
+    const last = span.last > shownLast ? shownLast : span.last
+    for (let day = first; day <= last; day = addDays(day, 1)) {
+      byDay.get(dayKey(day))?.push(card)
+    }
+  }
+  return byDay
+}
+
+/**
+ * The date changes that move a card so its first day is `day`. Cards with
+ * both dates keep their length; a card without dates becomes due that day.
+ */
+export function rescheduleCard(card: Card, day: Date): UpdateCardRequest | null {
+  const span = cardDays(card)
+  if (!span) {
+    const dueDate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), DEFAULT_DUE_HOUR)
+    return { dueDate: dueDate.toISOString() }
+  }
+
+  const offset = daysBetween(span.first, day)
+  if (offset === 0) return null
+
+  return {
+    ...(card.startDate && { startDate: addDays(new Date(card.startDate), offset).toISOString() }),
+    ...(card.dueDate && { dueDate: addDays(new Date(card.dueDate), offset).toISOString() }),
+  }
+}
\ No newline at end of file
@@ -0,0 +1,158 @@
+import { rankBetween } from "@kanban/domain-core"
+import type { Card } from "@/lib/actions/cards"
+import type { List } from "@/lib/actions/lists"
+
+export type CardsByList = Record<string, Card[]>
+
+export type MoveDirection = "up" | "down" | "left" | "right"
+
+export interface CardPlacement {
+  cardsByList: CardsByList
+  // The card as it was before the move
+  card: Card
+  fromListId: string
+  position: number
+}
+
+// Distance from a scroll container's edge (px) at which dragging starts to scroll it
+const EDGE_SIZE = 64
+const SCROLL_STEP = 24
+
+/**
+ * Moves a card to `index` of the target list, counted as if the card had
+ * already been taken out, and returns the new state together with the
+ * position to send to the backend. Positions are fractional ranks, so the
+ * card lands halfway between its new neighbours and no other card changes.
+ * Returns null when the card would not move.
+ */
+export function placeCard(
+  cardsByList: CardsByList,
+  cardId: string,
+  toListId: string,
+  index: number
+): CardPlacement | null {
+  const fromListId = Object.keys(cardsByList).find(listId =>
+    cardsByList[listId]?.some(card => card.id === cardId)
+  )
+  if (!fromListId) return null
+
+  const source = cardsByList[fromListId] ?? []
+  const card = source.find(item => item.id === cardId)
+  if (!card) return null
+
+  const remaining = (cardsByList[toListId] ?? []).filter(item => item.id !== cardId)
+  const targetIndex = Math.max(0, Math.min(index, remaining.length))
+  if (fromListId === toListId && source.indexOf(card) === targetIndex) {
+    return null
+  }
+
+  const position = rankBetween(remaining[targetIndex - 1]?.position, remaining[targetIndex]?.position)
+  const moved = { ...card, listId: toListId, position }
+
+  const result: CardsByList = {
+    ...cardsByList,
+    [toListId]: [...remaining.slice(0, targetIndex), moved, ...remaining.slice(targetIndex)],
+  }
+  if (fromListId !== toListId) {
+    result[fromListId] = source.filter(item => item.id !== cardId)
+  }
+
+  return { cardsByList: result, card, fromListId, position }
+}
+
+/**
+ * Puts a card back the way it was before an optimistic change, wherever
+ * that change left it. Whatever else changed on the board in the meantime,
+ * e.g. through live events, is kept; a card deleted meanwhile stays deleted.
+ */
+export function restoreCard(cardsByList: CardsByList, card: Card): CardsByList {
+  if (!Object.values(cardsByList).some(cards => cards.some(item => item.id === card.id))) {
+    return cardsByList
+  }
+
+  const rest = Object.fromEntries(
+    Object.entries(cardsByList).map(([listId, cards]) => [listId, cards.filter(item => item.id !== card.id)])
+  )
+  return {
+    ...rest,
+    [card.listId]: [...(rest[card.listId] ?? []), card].sort((a, b) => a.position - b.position),
+  }
+}
+
+/**
+ * Gives a list back the position it had before an optimistic move, keeping
+ * every other change to the lists.
+ */
+export function restoreList(lists: List[], list: List): List[] {
+  return lists
+    .map(item => (item.id === list.id ? { ...item, position: list.position } : item))
+    .sort((a, b) => a.position - b.position)
+}
+
+/**
+ * Moves a list to `index`, giving it a rank halfway between its new
+ * neighbours; every other list keeps its position. Returns null when the
+ * list would not move.
+ */
+export function placeList(lists: List[], listId: string, index: number): List[] | null {
+  const from = lists.findIndex(list => list.id === listId)
+  const list = lists[from]
+  if (!list) return null
+
+  const targetIndex = Math.max(0, Math.min(index, lists.length - 1))
+  if (targetIndex === from) return null
+
+  const remaining = lists.filter(item => item.id !== listId)
+  const position = rankBetween(remaining[targetIndex - 1]?.position, remaining[targetIndex]?.position)
+  const moved = { ...list, position }
+
+  return [...remaining.slice(0, targetIndex), moved, ...remaining.slice(targetIndex)]
+}
+
+/**
+ * Finds where a dragged item would be inserted among the elements matching
+ * `selector`, by comparing the pointer with each element's midpoint.
+ */
+export function dropIndexFromPointer(
+  container: HTMLElement,
+  selector: string,
+  pointer: number,
+  axis: "x" | "y"
+): number {
+  const items = Array.from(container.querySelectorAll<HTMLElement>(selector))
+  const index = items.findIndex(item => {
+    const rect = item.getBoundingClientRect()
+    return axis === "x"
+      ? pointer < rect.left + rect.width / 2
+      : pointer < rect.top + rect.height / 2
+  })
+  return index === -1 ? items.length : index
+}
+
+/**
+ * Scrolls a container while something is dragged close to one of its edges.
+ * Called from `dragover`, which fires continuously while the pointer hovers.
+ */
+export function scrollNearEdge(
+  container: HTMLElement,
+  clientX: number,
+  clientY: number,
+  axis: "x" | "y"
+) {
+  const rect = container.getBoundingClientRect()
+
+  if (axis === "x") {
+    if (clientX < rect.left + EDGE_SIZE) {
+      container.scrollBy({ left: -SCROLL_STEP })
+    } else if (clientX > rect.right - EDGE_SIZE) {
+      container.scrollBy({ left: SCROLL_STEP })
+    }
+    return
+  }
+
+  if (clientY < rect.top + EDGE_SIZE) {
+    container.scrollBy({ top: -SCROLL_STEP })
+  } else if (clientY > rect.bottom - EDGE_SIZE) {
+    container.scrollBy({ top: SCROLL_STEP })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,156 @@
+import type { BoardMember } from "@/lib/actions/boards"
+import type { Card, UpdateCardRequest } from "@/lib/actions/cards"
+import type { List } from "@/lib/actions/lists"
+import { type CardDays, addDays, cardDays, daysBetween, rescheduleCard, startOfDay } from "./calendarLayout"
+
+export type TimelineZoom = "day" | "week" | "month"
+
+export type TimelineGrouping = "list" | "assignee"
+
+// "move" drags the whole bar; "start" and "end" drag one of its edges
+export type BarDrag = "move" | "start" | "end"
+
+export interface TimelineGroup {
+  id: string
+  title: string
+  cards: Card[]
+}
+
+export interface TimelineRange {
+  first: Date
+  days: number
+}
+
+export interface TimelineTick {
+  day: Date
+  label: string
+}
+
+// Width of one day in pixels at each zoom level
+export const DAY_WIDTH: Record<TimelineZoom, number> = {
+  day: 40,
+  week: 16,
+  month: 4,
+}
+
+// Empty days kept on either side of the cards so bars can be dragged past them
+const RANGE_PADDING_DAYS = 14
+
+/**
+ * The days the timeline spans: every scheduled card and today, with some
+ * room on either side.
+ */
+export function timelineRange(cards: Card[], today: Date): TimelineRange {
+  let first = startOfDay(today)
+  let last = first
+  for (const card of cards) {
+    const span = cardDays(card)
+    if (span && span.first < first) first = span.first
+    if (span && span.last > last) last = span.last
+  }
+
+  first = addDays(first, -RANGE_PADDING_DAYS)
+  return { first, days: daysBetween(first, last) + RANGE_PADDING_DAYS + 1 }
+}
+
+/**
+ * Header labels: every day, every Sunday or every first of the month,
+ * depending on the zoom level.
+ */
+export function timelineTicks(range: TimelineRange, zoom: TimelineZoom): TimelineTick[] {
+  const ticks: TimelineTick[] = []
+  for (let index = 0; index < range.days; index++) {
+    const day = addDays(range.first, index)
+    if (zoom === "day") {
+      ticks.push({ day, label: String(day.getDate()) })
+    } else if (zoom === "week" && day.getDay() === 0) {
+      ticks.push({ day, label: day.toLocaleDateString("en-US", { month: "short", day: "numeric" }) })
+    } else if (zoom === "month" && day.getDate() === 1) {
+      ticks.push({ day, label: day.toLocaleDateString("en-US", { month: "short", year: "numeric" }) })
+    }
+  }
+  return ticks
+}
+
+/**
+ * Sorts scheduled cards into rows by list, in board order, or by assignee.
+ * A card with several assignees shows under each of them; groups without
+ * cards are left out.
+ */
+export function groupTimelineCards(
+  cards: Card[],
+  grouping: TimelineGrouping,
+  lists: List[],
+  members: BoardMember[]
+): TimelineGroup[] {
+  const scheduled = cards
+    .filter(card => cardDays(card))
+    .sort((a, b) => cardDays(a)!.first.getTime() - cardDays(b)!.first.getTime())
+
+  const groups: TimelineGroup[] = grouping === "list"
+    ? lists.map(list => ({
+        id: list.id,
+        title: list.title,
+        cards: scheduled.filter(card => card.listId === list.id),
+      }))
+    : [
+        ...members.map(member => ({
+          id: member.userId,
+          title: member.user.name || member.user.username,
+          cards: scheduled.filter(card => card.assigneeIds.includes(member.userId)),
+        })),
+        {
+          id: "unassigned",
+          title: "Unassigned",
+          cards: scheduled.filter(card => card.assigneeIds.length === 0),
+        },
+      ]
+
+  return groups.filter(group => group.cards.length > 0)
+}
+
+/**
+ * The span a bar shows while being dragged `offset` days. An edge cannot be
+ * dragged past the other one.
+ */
+export function draggedSpan(span: CardDays, drag: BarDrag, offset: number): CardDays {
+  if (drag === "move") {
+    return { first: addDays(span.first, offset), last: addDays(span.last, offset) }
+  }
+  if (drag === "start") {
+    const first = addDays(span.first, offset)
+    return { first: first > span.last ? span.last : first, last: span.last }
+  }
+  const last = addDays(span.last, offset)
+  return { first: span.first, last: last < span.first ? span.first : last }
+}
+
+/**
+ * The date changes for a bar dragged `offset` days. Moving keeps the
+ * card's length. Dragging an edge sends both dates, so the other one is
+ * kept, or added at the same time of day on a card with a single date.
+ * Returns null when nothing changes.
+ */
+export function dragCard(card: Card, drag: BarDrag, offset: number): UpdateCardRequest | null {
+  const span = cardDays(card)
+  if (!span) return null
+
+  const dragged = draggedSpan(span, drag, offset)
+  if (drag === "move") {
+    return rescheduleCard(card, dragged.first)
+  }
+
+  // A single-date card's other edge starts from that date
+  const start = new Date(card.startDate ?? card.dueDate!)
+  const due = new Date(card.dueDate ?? card.startDate!)
+  if (drag === "start") {
+    const startDate = addDays(start, daysBetween(span.first, dragged.first))
+    // The backend wants the start strictly before the due date
+    if (startDate.getTime() === start.getTime() || startDate >= due) return null
+    return { startDate: startDate.toISOString(), dueDate: due.toISOString() }
+  }
+
+  const dueDate = addDays(due, daysBetween(span.last, dragged.last))
+  if (dueDate.getTime() === due.getTime() || dueDate <= start) return null
+  return { startDate: start.toISOString(), dueDate: dueDate.toISOString() }
+}
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { notFound } from "next/navigation"
 import { Container, Typography, Box, Chip, Paper } from "@mui/material"
-import { getBoard } from "@/lib/actions/boards"
+import { getBoard, getBoardMembers } from "@/lib/actions/boards"
+import { getBoardLists } from "@/lib/actions/lists"
+import { getListCards } from "@/lib/actions/cards"
+import { BoardClient } from "./components/BoardClient"
+import { BoardActionsMenu } from "./components/BoardActionsMenu"
 import LockIcon from "@mui/icons-material/Lock"
 import PublicIcon from "@mui/icons-material/Public"
 
@@ -8,10 +12,14 @@ interface BoardPageProps {
   params: Promise<{
     id: string
   }>
+  searchParams: Promise<{
+    card?: string
+  }>
 }
 
-export default async function BoardPage({ params }: BoardPageProps) {
+export default async function BoardPage({ params, searchParams }: BoardPageProps) {
   const { id } = await params
+  const { card: openCardId } = await searchParams
   
   // Fetch board data
   const board = await getBoard(id)
@@ -20,6 +28,16 @@ export default async function BoardPage({ params }: BoardPageProps) {
     notFound()
   }
 
+  // Load lists and members together, then every list's cards in parallel
+  const [lists, members] = await Promise.all([
+    getBoardLists(id),
+    getBoardMembers(id),
+  ])
+  const cards = await Promise.all(lists.map(list => getListCards(list.id)))
+  const initialCards = Object.fromEntries(
+    lists.map((list, index) => [list.id, cards[index] ?? []])
+  )
+
   return (
     <Container maxWidth="xl" sx={{ py: 3 }}>
       {/* Board Header */}
@@ -35,6 +53,8 @@ export default async function BoardPage({ params }: BoardPageProps) {
             color={board.isPrivate ? "warning" : "success"}
             variant="outlined"
           />
+
+          <BoardActionsMenu boardId={board.id} boardTitle={board.title} />
         </Box>
 
         {board.description && (
@@ -63,27 +83,13 @@ export default async function BoardPage({ params }: BoardPageProps) {
       </Paper>
 
       {/* Kanban Board Content Area */}
-      <Paper sx={{ p: 3, minHeight: "60vh" }}>
-        <Box
-          sx={{
-            display: "flex",
-            alignItems: "center",
-            justifyContent: "center",
-            minHeight: "400px",
-            flexDirection: "column",
-            gap: 2,
-          }}
-        >
-          <Typography variant="h5" color="text.secondary">
-            Kanban Board Coming Soon
-          </Typography>
-          <Typography variant="body1" color="text.secondary" textAlign="center">
-            The Kanban board functionality will be implemented here.
-            <br />
-            This will include lists, cards, drag & drop, and collaboration features.
-          </Typography>
-        </Box>
-      </Paper>
+      <BoardClient
+        boardId={board.id}
+        initialLists={lists}
+        initialCards={initialCards}
+        members={members}
+        initialOpenCardId={openCardId}
+      />
     </Container>
   )
 }
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useRef, useState } from "react"
 import { useRouter } from "next/navigation"
 import {
   Typography,
@@ -10,10 +10,19 @@ import {
   Fab,
 } from "@mui/material"
 import AddIcon from "@mui/icons-material/Add"
-import { type Board, deleteBoard } from "@/lib/actions/boards"
+import UploadFileIcon from "@mui/icons-material/UploadFile"
+import {
+  type Board,
+  type TrelloImportReport,
+  deleteBoard,
+  importBoard,
+  importTrelloBoard,
+} from "@/lib/actions/boards"
 import { BoardCard } from "@/app/components/BoardCard"
 import { CreateBoardDialog } from "@/app/components/CreateBoardDialog"
 import { useServerActionErrorHandler } from "@/lib/actions/errorHandler"
+import { type ImportInvite, ImportedMembersAlert } from "./ImportedMembersAlert"
+import { TrelloImportDialog } from "./TrelloImportDialog"
 
 interface DashboardClientProps {
   initialBoards: Board[]
@@ -24,6 +33,15 @@ export function DashboardClient({ initialBoards }: DashboardClientProps) {
   const [error, setError] = useState<string | null>(null)
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
   const [deletingBoardId, setDeletingBoardId] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [imported, setImported] = useState<{
+    boardId: string
+    suggested: ImportInvite[]
+    unmatched: string[]
+  } | null>(null)
+  const [trelloImport, setTrelloImport] = useState<{ document: unknown; report: TrelloImportReport } | null>(null)
+  const [trelloError, setTrelloError] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
   const { handleWithReauth } = useServerActionErrorHandler()
   const router = useRouter()
 
@@ -40,6 +58,96 @@ export function DashboardClient({ initialBoards }: DashboardClientProps) {
     }
   }
 
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    setError(null)
+    setImported(null)
+
+    let document: unknown
+    try {
+      document = JSON.parse(await file.text())
+    } catch {
+      setError(`${file.name} is not a JSON file`)
+      return
+    }
+
+    // Anything that is not one of our own exports is read as a Trello export
+    const isBoardExport =
+      typeof document === "object" && document !== null && (document as { format?: unknown }).format === "kanban-board-export"
+
+    try {
+      setImporting(true)
+      if (!isBoardExport) {
+        // Dry run first so the user can check the mapping before anything is created
+        const { report } = await importTrelloBoard(document, true)
+        setTrelloError(null)
+        setTrelloImport({ document, report })
+        return
+      }
+
+      const result = await importBoard(document)
+      if (!result.boardId) {
+        router.refresh()
+      } else if (result.matchedMembers.length === 0 && result.unmatchedMembers.length === 0) {
+        router.push(`/board/${result.boardId}`)
+      } else {
+        // Stay here so the people from the export can be invited or at least seen
+        setImported({
+          boardId: result.boardId,
+          suggested: result.matchedMembers.map((member) => ({
+            userId: member.userId,
+            name: member.name || member.username || member.email,
+            suggestedRole: member.suggestedRole,
+          })),
+          unmatched: result.unmatchedMembers.map((member) => member.name || member.username || member.email),
+        })
+        router.refresh()
+      }
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setError(parsedError.userMessage)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const handleConfirmTrelloImport = async () => {
+    if (!trelloImport) return
+
+    try {
+      setImporting(true)
+      setTrelloError(null)
+      const result = await importTrelloBoard(trelloImport.document, false)
+      setTrelloImport(null)
+      const { suggestedMembers, unmappedMembers } = result.report
+      if (!result.boardId) {
+        router.refresh()
+      } else if (suggestedMembers.length === 0 && unmappedMembers.length === 0) {
+        router.push(`/board/${result.boardId}`)
+      } else {
+        // Same as a board import: nobody matched by username joins until invited
+        setImported({
+          boardId: result.boardId,
+          suggested: suggestedMembers.map((member) => ({
+            userId: member.userId,
+            name: member.fullName || member.username,
+            suggestedRole: member.suggestedRole,
+          })),
+          unmatched: unmappedMembers.map((member) => member.fullName || member.username),
+        })
+        router.refresh()
+      }
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setTrelloError(parsedError.userMessage)
+    } finally {
+      setImporting(false)
+    }
+  }
+
   const handleDeleteBoard = async (boardId: string) => {
     if (!confirm("Are you sure you want to delete this board?")) {
       return
@@ -68,8 +176,8 @@ export function DashboardClient({ initialBoards }: DashboardClientProps) {
       <Box sx={{ mb: 4 }}>
         <Box
           display="flex"
-          justifyContent="space-between"
           alignItems="center"
+          gap={1}
           mb={2}
         >
           <Button
@@ -80,6 +188,21 @@ export function DashboardClient({ initialBoards }: DashboardClientProps) {
           >
             Create Board
           </Button>
+          <Button
+            variant="outlined"
+            startIcon={<UploadFileIcon />}
+            onClick={() => importInputRef.current?.click()}
+            disabled={importing}
+          >
+            {importing ? "Importing..." : "Import Board"}
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={handleImportFile}
+          />
         </Box>
 
         {error && (
@@ -87,6 +210,16 @@ export function DashboardClient({ initialBoards }: DashboardClientProps) {
             {error}
           </Alert>
         )}
+
+        {imported && (
+          <ImportedMembersAlert
+            boardId={imported.boardId}
+            suggested={imported.suggested}
+            unmatched={imported.unmatched}
+            onOpenBoard={() => router.push(`/board/${imported.boardId}`)}
+            onClose={() => setImported(null)}
+          />
+        )}
       </Box>
 
       {boards.length === 0 ? (
@@ -157,6 +290,14 @@ export function DashboardClient({ initialBoards }: DashboardClientProps) {
         onClose={() => setCreateDialogOpen(false)}
         onBoardCreated={handleBoardCreated}
       />
+
+      <TrelloImportDialog
+        report={trelloImport?.report ?? null}
+        importing={importing}
+        error={trelloError}
+        onConfirm={handleConfirmTrelloImport}
+        onClose={() => setTrelloImport(null)}
+      />
     </>
   )
 }
\ No newline at end of file
@@ -0,0 +1,93 @@
+"use client"
+
+import { useState } from "react"
+import { Alert, Box, Button, Typography } from "@mui/material"
+import { type SuggestedBoardMember, addBoardMember } from "@/lib/actions/boards"
+import { useServerActionErrorHandler } from "@/lib/actions/errorHandler"
+
+// Someone from an imported board who is on one of your boards
+export interface ImportInvite {
+  userId: string
+  name: string
+  suggestedRole: SuggestedBoardMember["suggestedRole"]
+}
+
+interface ImportedMembersAlertProps {
+  boardId: string
+  suggested: ImportInvite[]
+  // Names of the people on none of your boards
+  unmatched: string[]
+  onOpenBoard: () => void
+  onClose: () => void
+}
+
+export function ImportedMembersAlert({ boardId, suggested, unmatched, onOpenBoard, onClose }: ImportedMembersAlertProps) {
+  const [invited, setInvited] = useState<Set<string>>(new Set())
+  const [inviting, setInviting] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const { handleWithReauth } = useServerActionErrorHandler()
+
+  const handleInvite = async (invite: ImportInvite) => {
+    try {
+      setInviting(invite.userId)
+      setError(null)
+      await addBoardMember(boardId, { userId: invite.userId, role: invite.suggestedRole })
+      setInvited(prev => new Set(prev).add(invite.userId))
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setError(parsedError.userMessage)
+    } finally {
+      setInviting(null)
+    }
+  }
+
+  return (
+    <Alert
+      severity="info"
+      sx={{ mb: 2 }}
+      onClose={onClose}
+      action={
+        <Button color="inherit" size="small" onClick={onOpenBoard}>
+          Open board
+        </Button>
+      }
+    >
+      <Typography variant="body2">
+        Board imported. Its cards and comments are yours now, each comment names who wrote it, and only your own
+        assignments were kept.
+      </Typography>
+
+      {suggested.length > 0 && (
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="body2">These people are on your other boards and can be invited:</Typography>
+          {suggested.map((invite) => (
+            <Box key={invite.userId} sx={{ display: "flex", alignItems: "center", gap: 1, mt: 0.5 }}>
+              <Typography variant="body2">{invite.name}</Typography>
+              <Button
+                size="small"
+                color="inherit"
+                variant="outlined"
+                onClick={() => handleInvite(invite)}
+                disabled={invited.has(invite.userId) || inviting !== null}
+              >
+                {invited.has(invite.userId) ? "Invited" : `Invite as ${invite.suggestedRole.toLowerCase()}`}
+              </Button>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {unmatched.length > 0 && (
+        <Typography variant="body2" sx={{ mt: 1 }}>
+          These people are not on any of your boards: {unmatched.join(", ")}
+        </Typography>
+      )}
+
+      {error && (
+        <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+          {error}
+        </Typography>
+      )}
+    </Alert>
+  )
+}
@@ -0,0 +1,78 @@
+"use client"
+
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from "@mui/material"
+import { type TrelloImportReport } from "@/lib/actions/boards"
+
+interface TrelloImportDialogProps {
+  // The dry-run report; the dialog is open while there is one
+  report: TrelloImportReport | null
+  importing: boolean
+  error: string | null
+  onConfirm: () => void
+  onClose: () => void
+}
+
+const memberName = (member: { username: string; fullName?: string }) =>
+  member.fullName ? `${member.fullName} (@${member.username})` : `@${member.username}`
+
+export function TrelloImportDialog({ report, importing, error, onConfirm, onClose }: TrelloImportDialogProps) {
+  return (
+    <Dialog open={report !== null} onClose={importing ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Import from Trello</DialogTitle>
+      {report && (
+        <DialogContent>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+            {error && <Alert severity="error">{error}</Alert>}
+
+            <Typography variant="body1">
+              <strong>{report.boardTitle}</strong> will be created as a private board with {report.lists} lists,{" "}
+              {report.cards} cards ({report.archivedCards} archived), {report.labels} labels, {report.checklists}{" "}
+              checklists with {report.checklistItems} items and {report.comments} comments.
+            </Typography>
+
+            {report.skippedLists.length > 0 && (
+              <Typography variant="body2" color="text.secondary">
+                Archived lists are skipped with their cards: {report.skippedLists.join(", ")}
+              </Typography>
+            )}
+
+            <Typography variant="body2" color="text.secondary">
+              Everything is posted by you. Comments keep their author&apos;s name in front, and only your own
+              assignments carry over.
+            </Typography>
+
+            {report.suggestedMembers.length > 0 && (
+              <Typography variant="body2">
+                People on your other boards with the same username, whom you can invite once the board is imported:{" "}
+                {report.suggestedMembers.map(memberName).join(", ")}
+              </Typography>
+            )}
+
+            {report.unmappedMembers.length > 0 && (
+              <Alert severity="warning">
+                Nobody on your boards has the username of {report.unmappedMembers.map(memberName).join(", ")}.
+              </Alert>
+            )}
+          </Box>
+        </DialogContent>
+      )}
+      <DialogActions>
+        <Button onClick={onClose} disabled={importing}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={onConfirm} disabled={importing}>
+          {importing ? "Importing..." : "Import"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
\ No newline at end of file
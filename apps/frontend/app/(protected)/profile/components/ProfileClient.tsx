@@ -11,20 +11,46 @@ import {
   Button,
   Alert,
   Grid,
+  Divider,
+  MenuItem,
 } from "@mui/material"
-import { updateProfile } from "@/lib/actions/profile"
+import {
+  type ProfileData,
+  regenerateCalendarToken,
+  revokeCalendarToken,
+  updateProfile,
+} from "@/lib/actions/profile"
 import { useServerActionErrorHandler } from "@/lib/actions/errorHandler"
 
 interface ProfileClientProps {
   session: any
+  profile: ProfileData | null
 }
 
-export default function ProfileClient({ session }: ProfileClientProps) {
+// "off" stands in for null, which turns reminders off
+const REMINDER_OPTIONS = [
+  { value: "off", label: "Off" },
+  { value: "0", label: "When the card is due" },
+  { value: "60", label: "1 hour before" },
+  { value: "240", label: "4 hours before" },
+  { value: "1440", label: "1 day before" },
+  { value: "2880", label: "2 days before" },
+  { value: "10080", label: "1 week before" },
+]
+
+const toReminderOption = (minutes: number | null | undefined) =>
+  minutes === null || minutes === undefined ? "off" : String(minutes)
+
+export default function ProfileClient({ session, profile }: ProfileClientProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [name, setName] = useState(session.user?.name || "")
   const [email] = useState(session.user?.email || "")
   const [loading, setLoading] = useState(false)
   const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [reminderLead, setReminderLead] = useState(toReminderOption(profile?.reminderLeadMinutes))
+  const [savingReminder, setSavingReminder] = useState(false)
+  const [calendarToken, setCalendarToken] = useState(profile?.calendarToken ?? null)
+  const [savingCalendar, setSavingCalendar] = useState(false)
   const { handleWithReauth } = useServerActionErrorHandler()
   
   const handleSave = async () => {
@@ -55,6 +81,64 @@ export default function ProfileClient({ session }: ProfileClientProps) {
     }
   }
 
+  // Lead times set through the API still show up even without a preset
+  const reminderOptions = REMINDER_OPTIONS.some((option) => option.value === reminderLead)
+    ? REMINDER_OPTIONS
+    : [...REMINDER_OPTIONS, { value: reminderLead, label: `${reminderLead} minutes before` }]
+
+  const handleReminderChange = async (value: string) => {
+    const previous = reminderLead
+    setReminderLead(value)
+    setSavingReminder(true)
+    setMessage(null)
+
+    try {
+      await updateProfile({ reminderLeadMinutes: value === "off" ? null : Number(value) })
+      setMessage({ type: "success", text: "Reminder settings updated" })
+    } catch (err) {
+      setReminderLead(previous)
+      const parsedError = await handleWithReauth(err)
+      setMessage({ type: "error", text: parsedError.userMessage })
+    } finally {
+      setSavingReminder(false)
+    }
+  }
+
+  // The feeds are served by this app's own route handlers, so calendar apps never talk to the backend
+  const calendarFeedUrl = calendarToken && typeof window !== "undefined"
+    ? `${window.location.origin}/api/calendar/${calendarToken}/cards.ics`
+    : ""
+
+  const handleCalendarToken = async (enable: boolean) => {
+    setSavingCalendar(true)
+    setMessage(null)
+
+    try {
+      if (enable) {
+        setCalendarToken(await regenerateCalendarToken())
+        setMessage({ type: "success", text: calendarToken ? "Calendar feed link replaced" : "Calendar feed turned on" })
+      } else {
+        await revokeCalendarToken()
+        setCalendarToken(null)
+        setMessage({ type: "success", text: "Calendar feed turned off" })
+      }
+    } catch (err) {
+      const parsedError = await handleWithReauth(err)
+      setMessage({ type: "error", text: parsedError.userMessage })
+    } finally {
+      setSavingCalendar(false)
+    }
+  }
+
+  const handleCopyCalendarFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl)
+      setMessage({ type: "success", text: "Calendar feed link copied" })
+    } catch {
+      setMessage({ type: "error", text: "Could not copy the link; select it and copy it instead" })
+    }
+  }
+
   const handleCancel = () => {
     setName(session.user?.name || "")
     setIsEditing(false)
@@ -154,6 +238,67 @@ export default function ProfileClient({ session }: ProfileClientProps) {
             </>
           )}
         </Box>
+
+        <Divider sx={{ my: 4 }} />
+
+        <Typography variant="h6" gutterBottom>
+          Email reminders
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Get an email about cards assigned to you before they are due, and once more if they become overdue.
+        </Typography>
+        <TextField
+          select
+          label="Remind me"
+          value={reminderLead}
+          onChange={(e) => handleReminderChange(e.target.value)}
+          disabled={!profile || savingReminder}
+          sx={{ minWidth: 240 }}
+        >
+          {reminderOptions.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <Divider sx={{ my: 4 }} />
+
+        <Typography variant="h6" gutterBottom>
+          Calendar feed
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Subscribe to this link in Google Calendar, Outlook or Apple Calendar to see the due dates of cards you are
+          assigned to or watch. Anyone with the link can see those cards, so keep it private; replacing it stops the old
+          link from working.
+        </Typography>
+        {calendarToken ? (
+          <>
+            <TextField
+              fullWidth
+              label="Feed link"
+              value={calendarFeedUrl}
+              slotProps={{ input: { readOnly: true } }}
+              onFocus={(e) => e.target.select()}
+              sx={{ mb: 2 }}
+            />
+            <Box sx={{ display: "flex", gap: 2, flexWrap: "wrap" }}>
+              <Button variant="contained" onClick={handleCopyCalendarFeedUrl}>
+                Copy link
+              </Button>
+              <Button variant="outlined" onClick={() => handleCalendarToken(true)} disabled={savingCalendar}>
+                Replace link
+              </Button>
+              <Button color="error" onClick={() => handleCalendarToken(false)} disabled={savingCalendar}>
+                Turn off
+              </Button>
+            </Box>
+          </>
+        ) : (
+          <Button variant="contained" onClick={() => handleCalendarToken(true)} disabled={!profile || savingCalendar}>
+            {savingCalendar ? "Turning on..." : "Turn on calendar feed"}
+          </Button>
+        )}
       </Paper>
     </Container>
   )
@@ -1,7 +1,10 @@
 import ProfileClient from "./components/ProfileClient"
 import { getSession } from "@/lib/server/auth"
+import { getProfile } from "@/lib/actions/profile"
 
 export default async function ProfilePage() {
   const session = await getSession()
-  return <ProfileClient session={session} />
-}
\ No newline at end of file
+  // The page still renders from the session if the profile cannot be loaded
+  const profile = await getProfile().catch(() => null)
+  return <ProfileClient session={session} profile={profile} />
+}
@@ -0,0 +1,200 @@
+"use client"
+
+import { type FormEvent, Fragment, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  MenuItem,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material"
+import SearchIcon from "@mui/icons-material/Search"
+import type { Board } from "@/lib/actions/boards"
+import type { SearchFilters, SearchResponse, SearchSnippet } from "@/lib/actions/search"
+
+const PAGE_SIZE = 20
+
+const SOURCE_LABELS: Record<SearchSnippet["source"], string> = {
+  title: "Title",
+  description: "Description",
+  comment: "Comment",
+  checklist: "Checklist",
+}
+
+interface SearchClientProps {
+  query: string
+  filters: SearchFilters
+  boards: Board[]
+  // null until a query has been entered
+  response: SearchResponse | null
+}
+
+function searchHref(query: string, filters: SearchFilters) {
+  const params = new URLSearchParams({ q: query })
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== "" && !(key === "offset" && value === 0)) {
+      params.set(key, String(value))
+    }
+  })
+  return `/search?${params.toString()}`
+}
+
+// Renders the snippet text with the matched terms marked; each part is keyed by its offset
+function HighlightedText({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = []
+  let cursor = 0
+
+  snippet.highlights.forEach(({ start, length }) => {
+    parts.push(<Fragment key={`text-${cursor}`}>{snippet.text.slice(cursor, start)}</Fragment>)
+    parts.push(
+      <Box key={`mark-${start}`} component="mark" sx={{ bgcolor: "warning.light", px: 0.25, borderRadius: 0.5 }}>
+        {snippet.text.slice(start, start + length)}
+      </Box>
+    )
+    cursor = start + length
+  })
+  parts.push(<Fragment key={`text-${cursor}`}>{snippet.text.slice(cursor)}</Fragment>)
+
+  return <>{parts}</>
+}
+
+export function SearchClient({ query, filters, boards, response }: SearchClientProps) {
+  const router = useRouter()
+  const [text, setText] = useState(query)
+  const [boardId, setBoardId] = useState(filters.boardId ?? "")
+  const [dueFrom, setDueFrom] = useState(filters.dueFrom?.slice(0, 10) ?? "")
+  const [dueTo, setDueTo] = useState(filters.dueTo?.slice(0, 10) ?? "")
+
+  const offset = filters.offset ?? 0
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    if (!text.trim()) return
+
+    // List, label and assignee filters only make sense within the same board
+    const keepBoardScoped = boardId === (filters.boardId ?? "")
+    router.push(searchHref(text.trim(), {
+      boardId: boardId || undefined,
+      listId: keepBoardScoped ? filters.listId : undefined,
+      labelId: keepBoardScoped ? filters.labelId : undefined,
+      assigneeId: keepBoardScoped ? filters.assigneeId : undefined,
+      dueFrom: dueFrom || undefined,
+      // Include cards due at any time on the last day
+      dueTo: dueTo ? `${dueTo}T23:59:59.999Z` : undefined,
+    }))
+  }
+
+  return (
+    <>
+      <Paper component="form" onSubmit={handleSubmit} sx={{ p: 2, mb: 3 }}>
+        <Stack direction={{ xs: "column", sm: "row" }} spacing={2}>
+          <TextField
+            label="Search cards, comments and checklists"
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            fullWidth
+            autoFocus
+            size="small"
+          />
+          <Button type="submit" variant="contained" startIcon={<SearchIcon />} disabled={!text.trim()}>
+            Search
+          </Button>
+        </Stack>
+        <Stack direction={{ xs: "column", sm: "row" }} spacing={2} sx={{ mt: 2 }}>
+          <TextField
+            select
+            label="Board"
+            value={boardId}
+            onChange={(event) => setBoardId(event.target.value)}
+            size="small"
+            sx={{ minWidth: 200 }}
+          >
+            <MenuItem value="">All boards</MenuItem>
+            {boards.map(board => (
+              <MenuItem key={board.id} value={board.id}>{board.title}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            type="date"
+            label="Due from"
+            value={dueFrom}
+            onChange={(event) => setDueFrom(event.target.value)}
+            size="small"
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            type="date"
+            label="Due to"
+            value={dueTo}
+            onChange={(event) => setDueTo(event.target.value)}
+            size="small"
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+        </Stack>
+      </Paper>
+
+      {response && response.results.length === 0 && (
+        <Alert severity="info">No cards match &quot;{query}&quot;.</Alert>
+      )}
+
+      <Stack spacing={2}>
+        {response?.results.map(result => {
+          const titleSnippet = result.snippets.find(snippet => snippet.source === "title")
+          return (
+            <Paper
+              key={result.card.id}
+              component={Link}
+              href={`/board/${result.board.id}?card=${encodeURIComponent(result.card.id)}`}
+              sx={{ p: 2, display: "block", textDecoration: "none", color: "inherit", "&:hover": { boxShadow: 4 } }}
+            >
+              <Typography variant="subtitle1" fontWeight={600}>
+                {titleSnippet ? <HighlightedText snippet={titleSnippet} /> : result.card.title}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {result.board.title} / {result.list.title}
+                {result.card.dueDate && ` · Due ${new Date(result.card.dueDate).toLocaleDateString()}`}
+              </Typography>
+
+              {result.snippets
+                .filter(snippet => snippet.source !== "title")
+                .map(snippet => (
+                  // A card has at most one description snippet, and comments and checklist items carry their id
+                  <Box key={`${result.card.id}-${snippet.source}-${snippet.sourceId ?? ""}`} sx={{ display: "flex", gap: 1, mt: 1, alignItems: "baseline" }}>
+                    <Chip label={SOURCE_LABELS[snippet.source]} size="small" variant="outlined" />
+                    <Typography variant="body2" color="text.secondary">
+                      <HighlightedText snippet={snippet} />
+                    </Typography>
+                  </Box>
+                ))}
+            </Paper>
+          )
+        })}
+      </Stack>
+
+      {response && (offset > 0 || response.hasMore) && (
+        <Box sx={{ display: "flex", justifyContent: "space-between", mt: 3 }}>
+          <Button
+            component={Link}
+            href={searchHref(query, { ...filters, offset: Math.max(offset - PAGE_SIZE, 0) })}
+            disabled={offset === 0}
+          >
+            Previous
+          </Button>
+          <Button
+            component={Link}
+            href={searchHref(query, { ...filters, offset: offset + PAGE_SIZE })}
+            disabled={!response.hasMore}
+          >
+            Next
+          </Button>
+        </Box>
+      )}
+    </>
+  )
+}
\ No newline at end of file
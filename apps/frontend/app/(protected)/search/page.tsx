@@ -0,0 +1,50 @@
+import { Container, Typography, Box } from "@mui/material"
+import { getBoards } from "@/lib/actions/boards"
+import { type SearchFilters, searchCards } from "@/lib/actions/search"
+import { SearchClient } from "./components/SearchClient"
+
+interface SearchPageProps {
+  searchParams: Promise<{
+    q?: string
+    boardId?: string
+    listId?: string
+    labelId?: string
+    assigneeId?: string
+    dueFrom?: string
+    dueTo?: string
+    offset?: string
+  }>
+}
+
+export default async function SearchPage({ searchParams }: SearchPageProps) {
+  const { q = "", offset, ...rest } = await searchParams
+  const filters: SearchFilters = { ...rest, offset: offset ? Number(offset) || 0 : undefined }
+  const query = q.trim()
+
+  // The board picker and the results load together
+  const [boards, response] = await Promise.all([
+    getBoards(),
+    query ? searchCards(query, filters) : Promise.resolve(null),
+  ])
+
+  return (
+    <Container maxWidth="md" sx={{ py: 3 }}>
+      <Box sx={{ mb: 3 }}>
+        <Typography variant="h4" component="h1" fontWeight={600}>
+          Search
+        </Typography>
+      </Box>
+
+      <SearchClient
+        query={query}
+        filters={filters}
+        boards={boards}
+        response={response}
+      />
+    </Container>
+  )
+}
+
+export const metadata = {
+  title: "Search | Kanban",
+}
\ No newline at end of file
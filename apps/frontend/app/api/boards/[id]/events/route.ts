@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getToken } from "next-auth/jwt"
+import { openBackendStream } from "@/lib/server/api"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Relays the board's live event stream from the backend. EventSource cannot
+ * send an Authorization header, so the access token stays on this side.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  const token = await getToken({
+    req: request,
+    secret: process.env.NEXTAUTH_SECRET
+  })
+  if (!token?.accessToken) {
+    return NextResponse.json({ error: "Authentication required" }, { status: 401 })
+  }
+
+  try {
+    const upstream = await openBackendStream(
+      `/boards/${encodeURIComponent(id)}/events`,
+      token.accessToken as string,
+      request.signal
+    )
+
+    if (!upstream.ok || !upstream.body) {
+      const data = await upstream.json().catch(() => undefined)
+      return NextResponse.json(
+        { error: data?.error ?? `Request failed with status ${upstream.status}` },
+        { status: upstream.status }
+      )
+    }
+
+    return new Response(upstream.body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    })
+  } catch (error) {
+    console.error("Board event stream error:", error)
+    return NextResponse.json({ error: "Event stream unavailable" }, { status: 502 })
+  }
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server"
+import { relayCalendarFeed } from "@/lib/server/api"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Serves the calendar feed of every dated card on one board, for calendar
+ * apps to subscribe to.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string; boardId: string }> }
+) {
+  const { token, boardId } = await params
+
+  return relayCalendarFeed(
+    `/calendar/${encodeURIComponent(token)}/boards/${encodeURIComponent(boardId)}/cards.ics`
+  )
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server"
+import { relayCalendarFeed } from "@/lib/server/api"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Serves the calendar feed of the cards the token's owner is assigned to or
+ * watches, for calendar apps to subscribe to.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params
+
+  return relayCalendarFeed(`/calendar/${encodeURIComponent(token)}/cards.ics`)
+}
\ No newline at end of file
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import {
   Dialog,
   DialogTitle,
@@ -12,8 +12,14 @@ import {
   Switch,
   Box,
   Alert,
+  MenuItem,
 } from "@mui/material"
-import { createBoard, type CreateBoardRequest } from "@/lib/actions/boards"
+import {
+  createBoard,
+  getBoardTemplates,
+  type BoardTemplate,
+  type CreateBoardRequest,
+} from "@/lib/actions/boards"
 import { useServerActionErrorHandler } from "@/lib/actions/errorHandler"
 
 interface CreateBoardDialogProps {
@@ -34,8 +40,29 @@ export function CreateBoardDialog({
   })
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [templates, setTemplates] = useState<BoardTemplate[]>([])
+  const [templateId, setTemplateId] = useState("")
   const { handleWithReauth } = useServerActionErrorHandler()
 
+  // Templates can change between openings, so reload them each time
+  useEffect(() => {
+    if (!open) return
+
+    let cancelled = false
+    getBoardTemplates()
+      .then(result => {
+        if (!cancelled) setTemplates(result)
+      })
+      .catch(() => {
+        if (!cancelled) setTemplates([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open])
+
+  const selectedTemplate = templates.find(template => template.id === templateId)
+
   const handleChange = (field: keyof CreateBoardRequest) => (
     event: React.ChangeEvent<HTMLInputElement>
   ) => {
@@ -59,10 +86,12 @@ export function CreateBoardDialog({
         title: formData.title.trim(),
         description: formData.description?.trim() || undefined,
         isPrivate: formData.isPrivate,
+        templateId: templateId || undefined,
       })
       
       // Reset form and close dialog
       setFormData({ title: "", description: "", isPrivate: false })
+      setTemplateId("")
       
       // Pass the board ID to the parent component for redirect
       const boardId = result.boardId || result.board?.id
@@ -80,6 +109,7 @@ export function CreateBoardDialog({
   const handleClose = () => {
     if (!loading) {
       setFormData({ title: "", description: "", isPrivate: false })
+      setTemplateId("")
       setError(null)
       onClose()
     }
@@ -117,6 +147,27 @@ export function CreateBoardDialog({
               disabled={loading}
             />
             
+            {templates.length > 0 && (
+              <TextField
+                select
+                label="Template"
+                value={templateId}
+                onChange={(event) => setTemplateId(event.target.value)}
+                fullWidth
+                disabled={loading}
+                helperText={selectedTemplate
+                  ? `Starts with ${selectedTemplate.lists.length} list${selectedTemplate.lists.length !== 1 ? "s" : ""}, ${selectedTemplate.labelCount} label${selectedTemplate.labelCount !== 1 ? "s" : ""} and ${selectedTemplate.cardCount} card${selectedTemplate.cardCount !== 1 ? "s" : ""}`
+                  : undefined}
+              >
+                <MenuItem value="">Blank board</MenuItem>
+                {templates.map(template => (
+                  <MenuItem key={template.id} value={template.id}>
+                    {template.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+
             <FormControlLabel
               control={
                 <Switch
@@ -1,6 +1,7 @@
 "use client"
 
-import { useState } from "react"
+import { type FormEvent, useState } from "react"
+import { useRouter } from "next/navigation"
 import {
   AppBar,
   Toolbar,
@@ -12,6 +13,7 @@ import {
   IconButton,
   Box,
   Chip,
+  InputBase,
 } from "@mui/material"
 import { signOut } from "next-auth/react"
 import { useAuthenticatedSession } from "@/lib/auth/useAuthenticatedSession"
@@ -20,10 +22,14 @@ import AccountCircleIcon from "@mui/icons-material/AccountCircle"
 import LogoutIcon from "@mui/icons-material/Logout"
 import DashboardIcon from "@mui/icons-material/Dashboard"
 import WarningIcon from "@mui/icons-material/Warning"
+import SearchIcon from "@mui/icons-material/Search"
+import { NotificationMenu } from "./NotificationMenu"
 
 export function Header() {
   const { data: authenticatedSession, status, isTokenExpired, signInRequired } = useAuthenticatedSession()
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
+  const [searchText, setSearchText] = useState("")
+  const router = useRouter()
 
   const handleMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
     setAnchorEl(event.currentTarget)
@@ -38,6 +44,13 @@ export function Header() {
     await signOut({ callbackUrl: "/" })
   }
 
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault()
+    const query = searchText.trim()
+    if (!query) return
+    router.push(`/search?q=${encodeURIComponent(query)}`)
+  }
+
   return (
     <AppBar position="static" elevation={1}>
       <Toolbar>
@@ -55,6 +68,32 @@ export function Header() {
           Kanban
         </Typography>
 
+        {authenticatedSession?.user && (
+          <Box
+            component="form"
+            role="search"
+            onSubmit={handleSearch}
+            sx={{
+              display: { xs: "none", sm: "flex" },
+              alignItems: "center",
+              mr: 2,
+              px: 1,
+              borderRadius: 1,
+              bgcolor: "rgba(255, 255, 255, 0.15)",
+              "&:hover": { bgcolor: "rgba(255, 255, 255, 0.25)" },
+            }}
+          >
+            <SearchIcon fontSize="small" sx={{ mr: 1 }} />
+            <InputBase
+              placeholder="Search cards…"
+              value={searchText}
+              onChange={(event) => setSearchText(event.target.value)}
+              inputProps={{ "aria-label": "Search cards" }}
+              sx={{ color: "inherit", width: 200 }}
+            />
+          </Box>
+        )}
+
         <Button
           component={Link}
           href="/dashboard"
@@ -82,6 +121,8 @@ export function Header() {
             <Chip label="Loading..." size="small" />
           )}
 
+          {authenticatedSession?.user && <NotificationMenu />}
+
           {authenticatedSession?.user ? (
             <Box>
               <IconButton
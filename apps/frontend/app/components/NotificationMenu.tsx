@@ -0,0 +1,160 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import {
+  Avatar,
+  Badge,
+  Box,
+  Button,
+  Divider,
+  IconButton,
+  ListItemAvatar,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Typography,
+} from "@mui/material"
+import NotificationsIcon from "@mui/icons-material/Notifications"
+import {
+  type AppNotification,
+  getNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "@/lib/actions/notifications"
+
+// Unread counts are refreshed in the background this often
+const POLL_INTERVAL_MS = 60_000
+
+export function NotificationMenu() {
+  const router = useRouter()
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      const result = await getNotifications()
+      setNotifications(result.notifications)
+      setUnreadCount(result.unreadCount)
+    } catch (error) {
+      console.error("Failed to load notifications:", error)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    const timer = setInterval(refresh, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [refresh])
+
+  const handleOpen = async (event: React.MouseEvent<HTMLElement>) => {
+    setAnchorEl(event.currentTarget)
+    setLoading(true)
+    await refresh()
+    setLoading(false)
+  }
+
+  const handleSelect = async (notification: AppNotification) => {
+    setAnchorEl(null)
+
+    if (!notification.isRead) {
+      setNotifications((current) =>
+        current.map((item) => (item.id === notification.id ? { ...item, isRead: true } : item))
+      )
+      try {
+        setUnreadCount(await markNotificationRead(notification.id))
+      } catch (error) {
+        console.error("Failed to mark notification as read:", error)
+      }
+    }
+
+    if (notification.boardId) {
+      const cardQuery = notification.cardId ? `?card=${encodeURIComponent(notification.cardId)}` : ""
+      router.push(`/board/${notification.boardId}${cardQuery}`)
+    }
+  }
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead()
+      setNotifications((current) => current.map((item) => ({ ...item, isRead: true })))
+      setUnreadCount(0)
+    } catch (error) {
+      console.error("Failed to mark notifications as read:", error)
+    }
+  }
+
+  return (
+    <>
+      <IconButton
+        color="inherit"
+        onClick={handleOpen}
+        aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : "Notifications"}
+        aria-controls={anchorEl ? "notification-menu" : undefined}
+        aria-haspopup="true"
+      >
+        <Badge badgeContent={unreadCount} color="error" max={99}>
+          <NotificationsIcon />
+        </Badge>
+      </IconButton>
+
+      <Menu
+        anchorEl={anchorEl}
+        id="notification-menu"
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        transformOrigin={{ horizontal: "right", vertical: "top" }}
+        anchorOrigin={{ horizontal: "right", vertical: "bottom" }}
+        slotProps={{ paper: { sx: { width: 360, maxHeight: 480 } } }}
+      >
+        <Box sx={{ display: "flex", alignItems: "center", justifyContent: "space-between", px: 2, py: 1 }}>
+          <Typography variant="subtitle1" fontWeight={600}>
+            Notifications
+          </Typography>
+          <Button size="small" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+            Mark all as read
+          </Button>
+        </Box>
+        <Divider />
+
+        {notifications.length === 0 && (
+          <Typography variant="body2" color="text.secondary" sx={{ px: 2, py: 3, textAlign: "center" }}>
+            {loading ? "Loading..." : "You're all caught up"}
+          </Typography>
+        )}
+
+        {notifications.map((notification) => {
+          const actorName = notification.actor?.name || notification.actor?.username || "Someone"
+          return (
+            <MenuItem
+              key={notification.id}
+              onClick={() => handleSelect(notification)}
+              sx={{
+                alignItems: "flex-start",
+                whiteSpace: "normal",
+                bgcolor: notification.isRead ? undefined : "action.hover",
+              }}
+            >
+              <ListItemAvatar sx={{ minWidth: 44 }}>
+                <Avatar src={notification.actor?.avatarUrl} sx={{ width: 32, height: 32 }}>
+                  {actorName.charAt(0).toUpperCase()}
+                </Avatar>
+              </ListItemAvatar>
+              <ListItemText
+                primary={
+                  <>
+                    <strong>{actorName}</strong> {notification.message}
+                  </>
+                }
+                secondary={new Date(notification.createdAt).toLocaleString()}
+                slotProps={{ primary: { variant: "body2", fontWeight: notification.isRead ? 400 : 600 } }}
+              />
+            </MenuItem>
+          )
+        })}
+      </Menu>
+    </>
+  )
+}
\ No newline at end of file
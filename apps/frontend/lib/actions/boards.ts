@@ -22,6 +22,64 @@ export interface CreateBoardRequest {
   description?: string
   isPrivate?: boolean
   backgroundUrl?: string
+  templateId?: string
+}
+
+export interface CopyBoardRequest {
+  title?: string
+  includeCards?: boolean
+}
+
+// Someone named in an imported board who is on none of the importer's boards
+export interface UnmatchedBoardMember {
+  email: string
+  username: string
+  name?: string
+}
+
+// Someone from an imported board who is on one of the importer's boards and can be invited
+export interface SuggestedBoardMember extends UnmatchedBoardMember {
+  userId: string
+  suggestedRole: 'ADMIN' | 'MEMBER' | 'VIEWER'
+}
+
+// What a Trello import creates, or would create on a dry run
+export interface TrelloImportReport {
+  boardTitle: string
+  lists: number
+  cards: number
+  archivedCards: number
+  labels: number
+  checklists: number
+  checklistItems: number
+  comments: number
+  skippedLists: string[]
+  suggestedMembers: { username: string; fullName?: string; userId: string; suggestedRole: SuggestedBoardMember['suggestedRole'] }[]
+  unmappedMembers: { username: string; fullName?: string }[]
+}
+
+// A problem with one row of a card CSV import; the header is row 1
+export interface CardCsvRowError {
+  row: number
+  message: string
+}
+
+export interface BoardTemplate {
+  id: string
+  name: string
+  description?: string
+  sourceBoardId?: string
+  lists: string[]
+  labelCount: number
+  cardCount: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SaveBoardTemplateRequest {
+  name?: string
+  description?: string
+  includeCards?: boolean
 }
 
 export interface UpdateBoardRequest {
@@ -32,7 +90,6 @@ export interface UpdateBoardRequest {
 }
 
 export interface BoardMember {
-  id: string
   userId: string
   boardId: string
   role: "OWNER" | "ADMIN" | "MEMBER" | "VIEWER"
@@ -139,23 +196,207 @@ export async function deleteBoard(boardId: string) {
   }
 }
 
+/**
+ * Server Action to copy a board into a new board owned by the current user
+ */
+export async function copyBoard(boardId: string, data: CopyBoardRequest = {}) {
+  try {
+    // Copy board via API
+    const result = await api.boards.copy(boardId, data)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    // Revalidate boards list
+    revalidatePath('/dashboard')
+    revalidateTag('boards')
+
+    return { success: true, board: result.data, boardId: result.data?.id }
+  } catch (error) {
+    console.error('Failed to copy board:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to copy board')
+  }
+}
+
+/**
+ * Server Action to fetch a board's versioned JSON export
+ */
+export async function exportBoard(boardId: string) {
+  try {
+    // Export board via API
+    const result = await api.boards.export(boardId)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    return result.data as Record<string, unknown>
+  } catch (error) {
+    console.error('Failed to export board:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to export board')
+  }
+}
+
+/**
+ * Server Action to recreate a board from an export document
+ */
+export async function importBoard(document: unknown) {
+  try {
+    // Import board via API
+    const result = await api.boards.import(document)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    // Revalidate boards list
+    revalidatePath('/dashboard')
+    revalidateTag('boards')
+
+    return {
+      success: true,
+      boardId: result.data?.board?.id as string | undefined,
+      matchedMembers: (result.data?.matchedMembers ?? []) as SuggestedBoardMember[],
+      unmatchedMembers: (result.data?.unmatchedMembers ?? []) as UnmatchedBoardMember[],
+    }
+  } catch (error) {
+    console.error('Failed to import board:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to import board')
+  }
+}
+
+/**
+ * Server Action to import a Trello board export, or with `dryRun` only report what it would create
+ */
+export async function importTrelloBoard(trello: unknown, dryRun: boolean) {
+  try {
+    // Import Trello board via API
+    const result = await api.boards.importTrello(trello, dryRun)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    if (!dryRun) {
+      // Revalidate boards list
+      revalidatePath('/dashboard')
+      revalidateTag('boards')
+    }
+
+    return {
+      success: true,
+      report: result.data?.report as TrelloImportReport,
+      boardId: result.data?.board?.id as string | undefined,
+    }
+  } catch (error) {
+    console.error('Failed to import Trello board:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to import Trello board')
+  }
+}
+
+/**
+ * Server Action to download a board's cards as CSV
+ */
+export async function exportCardsCsv(boardId: string, columns?: string[]) {
+  try {
+    // Export cards via API
+    const result = await api.boards.exportCardsCsv(boardId, columns)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    return result.data as string
+  } catch (error) {
+    console.error('Failed to export cards as CSV:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to export cards as CSV')
+  }
+}
+
+/**
+ * Server Action to create cards from a CSV file; nothing is created while any row has errors
+ */
+export async function importCardsCsv(boardId: string, csv: string) {
+  try {
+    // Import cards via API
+    const result = await api.boards.importCardsCsv(boardId, csv)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    const errors = (result.data?.errors ?? []) as CardCsvRowError[]
+    if (errors.length === 0) {
+      revalidatePath(`/board/${boardId}`)
+    }
+
+    return { success: true, created: result.data?.created as number, errors }
+  } catch (error) {
+    console.error('Failed to import cards from CSV:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to import cards from CSV')
+  }
+}
+
+/**
+ * Server Action to save a board as a reusable template
+ */
+export async function saveBoardAsTemplate(boardId: string, data: SaveBoardTemplateRequest = {}) {
+  try {
+    // Create template via API
+    const result = await api.templates.create({ ...data, boardId })
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidateTag('board-templates')
+
+    return { success: true, template: result.data as BoardTemplate }
+  } catch (error) {
+    console.error('Failed to save board as template:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to save template')
+  }
+}
+
+/**
+ * Server Action to delete a board template
+ */
+export async function deleteBoardTemplate(templateId: string) {
+  try {
+    // Delete template via API
+    const result = await api.templates.delete(templateId)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidateTag('board-templates')
+
+    return { success: true, message: 'Template deleted successfully' }
+  } catch (error) {
+    console.error('Failed to delete board template:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to delete template')
+  }
+}
+
 /**
  * Server Action to add a member to a board
  */
 export async function addBoardMember(
   boardId: string, 
-  formData: FormData | { email: string; role?: string }
+  formData: FormData | { userId: string; role?: string }
 ) {
   try {
     // Extract data from FormData or use object directly
     const data = formData instanceof FormData ? {
-      email: formData.get('email') as string,
+      userId: formData.get('userId') as string,
       role: formData.get('role') as string || 'MEMBER',
-    } : formData
+    } : { ...formData, role: formData.role || 'MEMBER' }
 
-    // Validate email
-    if (!data.email?.trim()) {
-      throw new Error('Email is required')
+    // The members endpoint takes the user's id
+    if (!data.userId?.trim()) {
+      throw new Error('User is required')
     }
 
     // Add member via API
@@ -271,6 +512,25 @@ export async function getBoards(): Promise<Board[]> {
   }
 }
 
+/**
+ * Utility function to get the current user's board templates
+ */
+export async function getBoardTemplates(): Promise<BoardTemplate[]> {
+  try {
+    const result = await api.templates.list()
+
+    if (result.error) {
+      console.error('Failed to fetch board templates:', result.error)
+      return []
+    }
+
+    return result.data?.templates || []
+  } catch (error) {
+    console.error('Error fetching board templates:', error)
+    return []
+  }
+}
+
 /**
  * Utility function to get a single board for Server Components
  */
@@ -293,9 +553,12 @@ export async function getBoard(boardId: string): Promise<Board | null> {
 /**
  * Utility function to get board members for Server Components
  */
-export async function getBoardMembers(boardId: string): Promise<BoardMember[]> {
+export async function getBoardMembers(
+  boardId: string,
+  role?: BoardMember['role']
+): Promise<BoardMember[]> {
   try {
-    const result = await api.boards.members.list(boardId)
+    const result = await api.boards.members.list(boardId, role)
 
     if (result.error) {
       console.error('Failed to fetch board members:', result.error)
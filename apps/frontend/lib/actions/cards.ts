@@ -0,0 +1,308 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { api } from '../server/api'
+
+export interface CardLabel {
+  id: string
+  name: string
+  color: string
+  boardId: string
+  createdAt: string
+}
+
+export interface Card {
+  id: string
+  title: string
+  description?: string
+  position: number
+  dueDate?: string
+  startDate?: string
+  isArchived: boolean
+  coverUrl?: string
+  listId: string
+  creatorId: string
+  assigneeIds: string[]
+  createdAt: string
+  updatedAt: string
+  isOverdue: boolean
+  isWatching: boolean
+  checklistProgress?: {
+    completed: number
+    total: number
+    display: string
+  }
+  labels: CardLabel[]
+}
+
+export interface CreateCardRequest {
+  title: string
+  description?: string
+  assigneeIds?: string[]
+  dueDate?: string
+  startDate?: string
+}
+
+export interface UpdateCardRequest {
+  title?: string
+  description?: string
+  assigneeIds?: string[]
+  dueDate?: string
+  startDate?: string
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'CRON'
+
+// Times are UTC; hour and minute apply to every frequency but CRON
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  hour?: number
+  minute?: number
+  // 0 (Sunday) to 6, for WEEKLY
+  weekdays?: number[]
+  // 1-31, for MONTHLY
+  dayOfMonth?: number
+  // minute hour day-of-month month day-of-week, for CRON
+  cron?: string
+}
+
+export interface CardRecurrence {
+  id: string
+  cardId: string
+  rule: RecurrenceRule
+  targetListId: string | null
+  nextRunAt: string
+  lastRunAt?: string
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * Server Action to add a card to a list
+ */
+export async function createCard(boardId: string, listId: string, data: CreateCardRequest) {
+  try {
+    // Validate required fields
+    if (!data.title?.trim()) {
+      throw new Error('Card title is required')
+    }
+
+    // Create card via API
+    const result = await api.lists.cards.create(listId, {
+      ...data,
+      title: data.title.trim(),
+    })
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    // The flag is about the list, so it is kept off the card
+    const { overWipLimit, ...card } = result.data as Card & { overWipLimit?: boolean }
+    return { success: true, card: card as Card, overWipLimit: Boolean(overWipLimit) }
+  } catch (error) {
+    console.error('Failed to create card:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to create card')
+  }
+}
+
+/**
+ * Server Action to update a card
+ */
+export async function updateCard(boardId: string, cardId: string, data: UpdateCardRequest) {
+  try {
+    if (data.title !== undefined && !data.title.trim()) {
+      throw new Error('Card title is required')
+    }
+
+    // Update card via API
+    const result = await api.cards.update(cardId, {
+      ...data,
+      title: data.title?.trim(),
+    })
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    return { success: true, card: result.data as Card }
+  } catch (error) {
+    console.error('Failed to update card:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to update card')
+  }
+}
+
+/**
+ * Server Action to delete a card
+ */
+export async function deleteCard(boardId: string, cardId: string) {
+  try {
+    // Delete card via API
+    const result = await api.cards.delete(cardId)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    return { success: true, message: 'Card deleted successfully' }
+  } catch (error) {
+    console.error('Failed to delete card:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to delete card')
+  }
+}
+
+/**
+ * Server Action to start or stop watching a card
+ */
+export async function setCardWatching(boardId: string, cardId: string, watching: boolean) {
+  try {
+    const result = watching
+      ? await api.cards.watch(cardId)
+      : await api.cards.unwatch(cardId)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    return { watching: Boolean(result.data?.watching) }
+  } catch (error) {
+    console.error('Failed to update card watching:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to update card watching')
+  }
+}
+
+/**
+ * Server Action to move a card into another list at the given position
+ */
+export async function moveCard(boardId: string, cardId: string, listId: string, position: number) {
+  try {
+    // Move card via API
+    const result = await api.cards.move(cardId, { listId, position })
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    const { overWipLimit, ...card } = result.data as Card & { overWipLimit?: boolean }
+    return { success: true, card: card as Card, overWipLimit: Boolean(overWipLimit) }
+  } catch (error) {
+    console.error('Failed to move card:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to move card')
+  }
+}
+
+/**
+ * Server Action to change a card's position within its list
+ */
+export async function reorderCard(boardId: string, cardId: string, listId: string, position: number) {
+  try {
+    // Reorder card via API
+    const result = await api.cards.reorder(cardId, { listId, position })
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to reorder card:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to reorder card')
+  }
+}
+
+/**
+ * Server Action to get a card's recurrence rule; null when the card does not repeat
+ */
+export async function getCardRecurrence(cardId: string): Promise<CardRecurrence | null> {
+  try {
+    const result = await api.cards.recurrence.get(cardId)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    return result.data ?? null
+  } catch (error) {
+    console.error('Failed to fetch card recurrence:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to fetch card recurrence')
+  }
+}
+
+/**
+ * Server Action to make a card recurring or replace its rule
+ */
+export async function setCardRecurrence(
+  boardId: string,
+  cardId: string,
+  rule: RecurrenceRule,
+  targetListId: string | null
+): Promise<CardRecurrence> {
+  try {
+    const result = await api.cards.recurrence.set(cardId, { rule, targetListId })
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    return result.data as CardRecurrence
+  } catch (error) {
+    console.error('Failed to save card recurrence:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to save card recurrence')
+  }
+}
+
+/**
+ * Server Action to stop a card from repeating
+ */
+export async function deleteCardRecurrence(boardId: string, cardId: string) {
+  try {
+    const result = await api.cards.recurrence.delete(cardId)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to delete card recurrence:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to delete card recurrence')
+  }
+}
+
+/**
+ * Utility function to get the cards of a list for Server Components
+ */
+export async function getListCards(listId: string): Promise<Card[]> {
+  try {
+    const result = await api.lists.cards.list(listId)
+
+    if (result.error) {
+      if (result.status === 401) {
+        throw new Error('Authentication session expired')
+      }
+      console.error('Failed to fetch cards:', result.error)
+      return []
+    }
+
+    return result.data?.cards || []
+  } catch (error) {
+    console.error('Error fetching cards:', error)
+    throw error
+  }
+}
\ No newline at end of file
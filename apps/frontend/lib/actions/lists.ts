@@ -0,0 +1,155 @@
+'use server'
+
+import { revalidatePath } from 'next/cache'
+import { api } from '../server/api'
+
+// STRICT refuses cards over the limit; SOFT lets them in and the column is highlighted
+export type WipLimitMode = 'STRICT' | 'SOFT'
+
+export interface List {
+  id: string
+  title: string
+  position: number
+  color?: string
+  wipLimit?: number
+  wipLimitMode: WipLimitMode
+  boardId: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateListRequest {
+  title: string
+  color?: string
+}
+
+export interface UpdateListRequest {
+  title?: string
+  color?: string
+  // null removes the limit
+  wipLimit?: number | null
+  wipLimitMode?: WipLimitMode
+}
+
+/**
+ * Server Action to add a list to a board
+ */
+export async function createList(boardId: string, data: CreateListRequest) {
+  try {
+    // Validate required fields
+    if (!data.title?.trim()) {
+      throw new Error('List title is required')
+    }
+
+    // Create list via API
+    const result = await api.boards.lists.create(boardId, {
+      ...data,
+      title: data.title.trim(),
+    })
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    return { success: true, list: result.data as List }
+  } catch (error) {
+    console.error('Failed to create list:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to create list')
+  }
+}
+
+/**
+ * Server Action to rename, recolor or limit a list
+ */
+export async function updateList(listId: string, data: UpdateListRequest) {
+  try {
+    if (data.title !== undefined && !data.title.trim()) {
+      throw new Error('List title is required')
+    }
+
+    // Update list via API
+    const result = await api.lists.update(listId, {
+      ...data,
+      title: data.title?.trim(),
+    })
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    if (result.data?.boardId) {
+      revalidatePath(`/board/${result.data.boardId}`)
+    }
+
+    return { success: true, list: result.data as List }
+  } catch (error) {
+    console.error('Failed to update list:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to update list')
+  }
+}
+
+/**
+ * Server Action to delete a list together with its cards
+ */
+export async function deleteList(boardId: string, listId: string) {
+  try {
+    // Delete list via API
+    const result = await api.lists.delete(listId)
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    return { success: true, message: 'List deleted successfully' }
+  } catch (error) {
+    console.error('Failed to delete list:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to delete list')
+  }
+}
+
+/**
+ * Server Action to persist a new list order for a board
+ */
+export async function reorderLists(boardId: string, lists: { id: string; position: number }[]) {
+  try {
+    // Reorder lists via API
+    const result = await api.boards.lists.reorder(boardId, { lists })
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath(`/board/${boardId}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to reorder lists:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to reorder lists')
+  }
+}
+
+/**
+ * Utility function to get a board's lists for Server Components
+ */
+export async function getBoardLists(boardId: string): Promise<List[]> {
+  try {
+    const result = await api.boards.lists.list(boardId)
+
+    if (result.error) {
+      if (result.status === 401) {
+        throw new Error('Authentication session expired')
+      }
+      console.error('Failed to fetch lists:', result.error)
+      return []
+    }
+
+    return result.data || []
+  } catch (error) {
+    console.error('Error fetching lists:', error)
+    throw error
+  }
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+'use server'
+
+import { api } from '../server/api'
+
+export type NotificationType =
+  | 'CARD_ASSIGNED'
+  | 'CARD_MOVED'
+  | 'CARD_ARCHIVED'
+  | 'BOARD_MEMBER_ADDED'
+  | 'BOARD_ROLE_CHANGED'
+
+export interface NotificationActor {
+  id: string
+  username: string
+  name?: string
+  avatarUrl?: string
+}
+
+export interface AppNotification {
+  id: string
+  type: NotificationType
+  // Reads after the actor's name, e.g. `assigned you to "Fix login"`
+  message: string
+  boardId?: string
+  cardId?: string
+  isRead: boolean
+  readAt?: string
+  createdAt: string
+  actor: NotificationActor | null
+}
+
+export interface NotificationsResponse {
+  notifications: AppNotification[]
+  nextCursor: string | null
+  unreadCount: number
+}
+
+/**
+ * Server Action to fetch the current user's latest notifications
+ */
+export async function getNotifications(options: { unreadOnly?: boolean; cursor?: string } = {}): Promise<NotificationsResponse> {
+  try {
+    const params: Record<string, string> = {}
+    if (options.unreadOnly) params.unreadOnly = 'true'
+    if (options.cursor) params.cursor = options.cursor
+
+    const result = await api.notifications.list(params)
+
+    if (result.error) {
+      if (result.status === 401) {
+        throw new Error('Authentication session expired')
+      }
+      throw new Error(result.error)
+    }
+
+    return result.data || { notifications: [], nextCursor: null, unreadCount: 0 }
+  } catch (error) {
+    console.error('Error fetching notifications:', error)
+    throw error
+  }
+}
+
+/**
+ * Server Action to mark one notification as read; returns the new unread count
+ */
+export async function markNotificationRead(notificationId: string): Promise<number> {
+  try {
+    const result = await api.notifications.markRead(notificationId)
+
+    if (result.error) {
+      if (result.status === 401) {
+        throw new Error('Authentication session expired')
+      }
+      throw new Error(result.error)
+    }
+
+    return result.data?.unreadCount ?? 0
+  } catch (error) {
+    console.error('Error marking notification as read:', error)
+    throw error
+  }
+}
+
+/**
+ * Server Action to mark all of the current user's notifications as read
+ */
+export async function markAllNotificationsRead(): Promise<void> {
+  try {
+    const result = await api.notifications.markAllRead()
+
+    if (result.error) {
+      if (result.status === 401) {
+        throw new Error('Authentication session expired')
+      }
+      throw new Error(result.error)
+    }
+  } catch (error) {
+    console.error('Error marking all notifications as read:', error)
+    throw error
+  }
+}
\ No newline at end of file
@@ -6,6 +6,8 @@ import { api } from '../server/api'
 export interface UpdateProfileRequest {
   name?: string
   avatarUrl?: string
+  // Minutes before a due date to email a reminder; null turns reminders off
+  reminderLeadMinutes?: number | null
 }
 
 export interface ProfileData {
@@ -14,6 +16,9 @@ export interface ProfileData {
   name?: string
   email: string
   avatarUrl?: string
+  reminderLeadMinutes: number | null
+  // Secret in the calendar feed URLs; null while the feeds are off
+  calendarToken: string | null
   createdAt: string
   updatedAt: string
 }
@@ -43,7 +48,7 @@ export async function getProfile(): Promise<ProfileData | null> {
 export async function updateProfile(data: UpdateProfileRequest) {
   try {    
     // Validate at least one field is being updated
-    if (!data.name && !data.avatarUrl) {
+    if (!data.name && !data.avatarUrl && data.reminderLeadMinutes === undefined) {
       throw new Error('No fields to update')
     }
 
@@ -73,4 +78,42 @@ export async function updateProfile(data: UpdateProfileRequest) {
     // Re-throw the error to preserve the original error message
     throw error
   }
+}
+
+/**
+ * Server Action to turn on calendar feeds or replace their token
+ */
+export async function regenerateCalendarToken(): Promise<string> {
+  try {
+    const result = await api.auth.regenerateCalendarToken()
+
+    if (result.error || !result.data) {
+      throw new Error(result.error || 'No data received from server')
+    }
+
+    revalidatePath('/profile')
+
+    return result.data.calendarToken
+  } catch (error) {
+    console.error('Failed to regenerate calendar token:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to regenerate calendar token')
+  }
+}
+
+/**
+ * Server Action to turn calendar feeds off
+ */
+export async function revokeCalendarToken(): Promise<void> {
+  try {
+    const result = await api.auth.revokeCalendarToken()
+
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    revalidatePath('/profile')
+  } catch (error) {
+    console.error('Failed to revoke calendar token:', error)
+    throw new Error(error instanceof Error ? error.message : 'Failed to revoke calendar token')
+  }
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+'use server'
+
+import { api } from '../server/api'
+
+export interface SearchSnippet {
+  source: 'title' | 'description' | 'comment' | 'checklist'
+  sourceId?: string
+  text: string
+  highlights: { start: number; length: number }[]
+}
+
+export interface SearchResult {
+  card: {
+    id: string
+    title: string
+    dueDate?: string
+  }
+  list: {
+    id: string
+    title: string
+  }
+  board: {
+    id: string
+    title: string
+  }
+  rank: number
+  snippets: SearchSnippet[]
+}
+
+export interface SearchFilters {
+  boardId?: string
+  listId?: string
+  labelId?: string
+  assigneeId?: string
+  dueFrom?: string
+  dueTo?: string
+  offset?: number
+}
+
+export interface SearchResponse {
+  results: SearchResult[]
+  hasMore: boolean
+}
+
+/**
+ * Utility function to search cards across the user's boards for Server Components
+ */
+export async function searchCards(query: string, filters: SearchFilters = {}): Promise<SearchResponse> {
+  try {
+    const params: Record<string, string> = { q: query }
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params[key] = String(value)
+      }
+    })
+
+    const result = await api.search(params)
+
+    if (result.error) {
+      if (result.status === 401) {
+        throw new Error('Authentication session expired')
+      }
+      console.error('Failed to search cards:', result.error)
+      return { results: [], hasMore: false }
+    }
+
+    return result.data || { results: [], hasMore: false }
+  } catch (error) {
+    console.error('Error searching cards:', error)
+    throw error
+  }
+}
\ No newline at end of file
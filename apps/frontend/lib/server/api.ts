@@ -55,9 +55,9 @@ export async function backendApi<T = any>(
     if (accessToken) {
       headers["Authorization"] = `Bearer ${accessToken}`
     }
-    // Prepare body for POST/PUT requests
+    // Prepare body for POST/PUT requests; strings (e.g. CSV files) go as they are
     const requestBody = (method === "POST" || method === "PUT") && body
-      ? JSON.stringify(body)
+      ? typeof body === "string" ? body : JSON.stringify(body)
       : undefined
     // Make request to backend
     const response = await fetch(url.toString(), {
@@ -76,6 +76,16 @@ export async function backendApi<T = any>(
       data = (await response.text()) as T
     }
 
+    // Surface backend error messages so callers can rely on `error`
+    if (!response.ok) {
+      const message = (data as { error?: string } | undefined)?.error
+      return {
+        data,
+        error: typeof message === "string" ? message : `Request failed with status ${response.status}`,
+        status: response.status,
+      }
+    }
+
     return {
       data,
       status: response.status,
@@ -89,6 +99,44 @@ export async function backendApi<T = any>(
   }
 }
 
+/**
+ * Opens a long-lived backend response (e.g. Server-Sent Events) without
+ * buffering it, so route handlers can pipe the body straight to the browser
+ */
+export async function openBackendStream(
+  endpoint: string,
+  accessToken: string,
+  signal?: AbortSignal
+): Promise<Response> {
+  return fetch(new URL(`/api${endpoint}`, BACKEND_URL).toString(), {
+    headers: {
+      Accept: "text/event-stream",
+      Authorization: `Bearer ${accessToken}`,
+    },
+    cache: "no-store",
+    signal,
+  })
+}
+
+/**
+ * Fetches an iCalendar feed from the backend for a public route handler.
+ * The token in the feed path is its only credential: calendar apps cannot sign in
+ */
+export async function relayCalendarFeed(endpoint: string): Promise<Response> {
+  const result = await backendApi<string>(endpoint)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+
+  return new Response(result.data, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Cache-Control": "private, max-age=300",
+    },
+  })
+}
+
 /**
  * Authenticated API call for Server Components
  * Automatically gets access token from NextAuth JWT with token refresh retry
@@ -292,6 +340,12 @@ export const api = {
       body: data,
     }),
     logout: () => serverApi<any>('/auth/logout', { method: 'POST' }),
+    regenerateCalendarToken: () => serverApi<{ calendarToken: string }>('/auth/profile/calendar-token', {
+      method: 'POST',
+    }),
+    revokeCalendarToken: () => serverApi<void>('/auth/profile/calendar-token', {
+      method: 'DELETE',
+    }),
   },
 
   // Board operations
@@ -309,8 +363,31 @@ export const api = {
     delete: (id: string) => serverApi<any>(`/boards/${id}`, {
       method: 'DELETE',
     }),
+    copy: (id: string, data: any) => serverApi<any>(`/boards/${id}/copy`, {
+      method: 'POST',
+      body: data,
+    }),
+    export: (id: string) => serverApi<any>(`/boards/${id}/export`),
+    import: (document: unknown) => serverApi<any>('/boards/import', {
+      method: 'POST',
+      body: document,
+    }),
+    importTrello: (trello: unknown, dryRun: boolean) => serverApi<any>('/boards/import/trello', {
+      method: 'POST',
+      body: trello,
+      searchParams: { dryRun: String(dryRun) },
+    }),
+    exportCardsCsv: (id: string, columns?: string[]) => serverApi<string>(`/boards/${id}/cards.csv`, {
+      searchParams: columns ? { columns: columns.join(',') } : undefined,
+    }),
+    importCardsCsv: (id: string, csv: string) => serverApi<any>(`/boards/${id}/cards.csv`, {
+      method: 'POST',
+      body: csv,
+      headers: { 'Content-Type': 'text/csv' },
+    }),
     members: {
-      list: (boardId: string) => serverApi<any[]>(`/boards/${boardId}/members`),
+      list: (boardId: string, role?: string) =>
+        serverApi<any[]>(`/boards/${boardId}/members${role ? `?role=${role}` : ''}`),
       add: (boardId: string, data: any) => serverApi<any>(`/boards/${boardId}/members`, {
         method: 'POST',
         body: data,
@@ -325,5 +402,100 @@ export const api = {
           method: 'DELETE',
         }),
     },
+    lists: {
+      list: (boardId: string) => serverApi<any[]>(`/boards/${boardId}/lists`),
+      create: (boardId: string, data: any) => serverApi<any>(`/boards/${boardId}/lists`, {
+        method: 'POST',
+        body: data,
+      }),
+      reorder: (boardId: string, data: any) => serverApi<any>(`/boards/${boardId}/lists/reorder`, {
+        method: 'PUT',
+        body: data,
+      }),
+    },
   },
+
+  // Board template operations
+  templates: {
+    list: () => serverApi<{templates: any[]}>('/templates'),
+    create: (data: any) => serverApi<any>('/templates', {
+      method: 'POST',
+      body: data,
+    }),
+    delete: (id: string) => serverApi<any>(`/templates/${id}`, {
+      method: 'DELETE',
+    }),
+  },
+
+  // List operations
+  lists: {
+    update: (id: string, data: any) => serverApi<any>(`/lists/${id}`, {
+      method: 'PUT',
+      body: data,
+    }),
+    delete: (id: string) => serverApi<any>(`/lists/${id}`, {
+      method: 'DELETE',
+    }),
+    cards: {
+      list: (listId: string) => serverApi<{cards: any[], total: number}>(`/lists/${listId}/cards`),
+      create: (listId: string, data: any) => serverApi<any>(`/lists/${listId}/cards`, {
+        method: 'POST',
+        body: data,
+      }),
+    },
+  },
+
+  // Card operations
+  cards: {
+    get: (id: string) => serverApi<any>(`/cards/${id}`),
+    update: (id: string, data: any) => serverApi<any>(`/cards/${id}`, {
+      method: 'PUT',
+      body: data,
+    }),
+    delete: (id: string) => serverApi<any>(`/cards/${id}`, {
+      method: 'DELETE',
+    }),
+    move: (id: string, data: any) => serverApi<any>(`/cards/${id}/move`, {
+      method: 'PUT',
+      body: data,
+    }),
+    reorder: (id: string, data: any) => serverApi<any>(`/cards/${id}/reorder`, {
+      method: 'PUT',
+      body: data,
+    }),
+    watch: (id: string) => serverApi<any>(`/cards/${id}/watch`, {
+      method: 'POST',
+    }),
+    unwatch: (id: string) => serverApi<any>(`/cards/${id}/watch`, {
+      method: 'DELETE',
+    }),
+    recurrence: {
+      get: (id: string) => serverApi<any>(`/cards/${id}/recurrence`),
+      set: (id: string, data: any) => serverApi<any>(`/cards/${id}/recurrence`, {
+        method: 'PUT',
+        body: data,
+      }),
+      delete: (id: string) => serverApi<any>(`/cards/${id}/recurrence`, {
+        method: 'DELETE',
+      }),
+    },
+  },
+
+  // Notification operations
+  notifications: {
+    list: (params: Record<string, string> = {}) => serverApi<any>('/notifications', {
+      searchParams: params,
+    }),
+    markRead: (id: string) => serverApi<any>(`/notifications/${id}/read`, {
+      method: 'POST',
+    }),
+    markAllRead: () => serverApi<any>('/notifications/read-all', {
+      method: 'POST',
+    }),
+  },
+
+  // Search operations
+  search: (params: Record<string, string>) => serverApi<any>('/search', {
+    searchParams: params,
+  }),
 }
\ No newline at end of file
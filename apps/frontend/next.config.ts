@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Board imports send the whole export document through a Server Action
+      bodySizeLimit: "10mb",
+    },
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,74 @@
+import { describe, test, expect } from "bun:test";
+import { formatICalendar } from "../../calendar/ICalendar";
+
+const now = new Date("2026-01-02T03:04:05.678Z");
+
+describe("ICalendar", () => {
+  describe("formatICalendar", () => {
+    test("should write one VEVENT per event with UTC times", () => {
+      const ics = formatICalendar({
+        name: "Roadmap",
+        events: [
+          {
+            uid: "card-1@kanban",
+            summary: "Ship it",
+            url: "https://kanban.example.com/board/b1?card=card-1",
+            start: new Date("2026-01-05T09:00:00.000Z"),
+            end: new Date("2026-01-06T17:30:00.000Z"),
+            lastModified: new Date("2026-01-01T00:00:00.000Z"),
+          },
+        ],
+      }, now);
+
+      expect(ics.split("\r\n")).toEqual([
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Kanban//Card dates//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "X-WR-CALNAME:Roadmap",
+        "BEGIN:VEVENT",
+        "UID:card-1@kanban",
+        "DTSTAMP:20260102T030405Z",
+        "DTSTART:20260105T090000Z",
+        "DTEND:20260106T173000Z",
+        "SUMMARY:Ship it",
+        "URL:https://kanban.example.com/board/b1?card=card-1",
+        "LAST-MODIFIED:20260101T000000Z",
+        "END:VEVENT",
+        "END:VCALENDAR",
+        "",
+      ]);
+    });
+
+    test("should leave out DTEND unless the event ends after it starts", () => {
+      const start = new Date("2026-01-05T09:00:00.000Z");
+      const ics = formatICalendar({
+        name: "Cards",
+        events: [{ uid: "card-1@kanban", summary: "Due", start, end: start, lastModified: start }],
+      }, now);
+
+      expect(ics).not.toContain("DTEND");
+    });
+
+    test("should escape text and fold long lines", () => {
+      const ics = formatICalendar({
+        name: "Cards",
+        events: [
+          {
+            uid: "card-1@kanban",
+            summary: "Fix login; then, ship\\deploy",
+            description: `List: To Do\n${"é".repeat(50)}`,
+            start: now,
+            lastModified: now,
+          },
+        ],
+      }, now);
+      const lines = ics.split("\r\n");
+
+      expect(lines).toContain("SUMMARY:Fix login\\; then\\, ship\\\\deploy");
+      expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+      expect(ics.replace(/\r\n /g, "")).toContain(`DESCRIPTION:List: To Do\\n${"é".repeat(50)}\r\n`);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { describe, test, expect } from "bun:test";
+import { BoardTemplate } from "../../entities/BoardTemplate";
+
+describe("BoardTemplate Entity", () => {
+  const blueprint = {
+    labels: [{ name: "Bug", color: "#ff0000" }],
+    lists: [
+      {
+        title: "To Do",
+        cards: [
+          { title: "Triage", labels: ["Bug"], checklists: [{ title: "Steps", items: ["Reproduce"] }] },
+          { title: "Write postmortem", labels: [], checklists: [] },
+        ],
+      },
+      { title: "Done", cards: [] },
+    ],
+  };
+
+  describe("create", () => {
+    test("should create a template owned by the given user", () => {
+      const template = BoardTemplate.create({
+        name: "Incident",
+        ownerId: "user-123",
+        sourceBoardId: "board-123",
+        blueprint,
+      });
+
+      expect(template.id).toBeDefined();
+      expect(template.name).toBe("Incident");
+      expect(template.sourceBoardId).toBe("board-123");
+      expect(template.createdAt).toBeInstanceOf(Date);
+      expect(template.isOwnedBy("user-123")).toBe(true);
+      expect(template.isOwnedBy("user-456")).toBe(false);
+    });
+  });
+
+  describe("counts", () => {
+    test("should count the lists and cards in the blueprint", () => {
+      const template = BoardTemplate.create({ name: "Incident", ownerId: "user-123", blueprint });
+
+      expect(template.listCount).toBe(2);
+      expect(template.cardCount).toBe(2);
+    });
+  });
+});
\ No newline at end of file
@@ -14,7 +14,7 @@ describe("Card Entity", () => {
         isArchived: false,
         listId: "list-123",
         creatorId: "user-123",
-        assigneeId: "user-456",
+        assigneeIds: ["user-456", "user-789", "user-456"],
       };
 
       const card = Card.create(props);
@@ -28,7 +28,7 @@ describe("Card Entity", () => {
       expect(card.isArchived).toBe(props.isArchived);
       expect(card.listId).toBe(props.listId);
       expect(card.creatorId).toBe(props.creatorId);
-      expect(card.assigneeId).toBe(props.assigneeId);
+      expect(card.assigneeIds).toEqual(["user-456", "user-789"]);
       expect(card.id).toBeDefined();
       expect(card.createdAt).toBeInstanceOf(Date);
       expect(card.updatedAt).toBeInstanceOf(Date);
@@ -52,7 +52,7 @@ describe("Card Entity", () => {
       expect(card.creatorId).toBe(props.creatorId);
       expect(card.description).toBeUndefined();
       expect(card.dueDate).toBeUndefined();
-      expect(card.assigneeId).toBeUndefined();
+      expect(card.assigneeIds).toEqual([]);
     });
   });
 
@@ -69,7 +69,7 @@ describe("Card Entity", () => {
         isArchived: true,
         listId: "existing-list",
         creatorId: "existing-creator",
-        assigneeId: "existing-assignee",
+        assigneeIds: ["existing-assignee"],
         createdAt: new Date("2024-01-01"),
         updatedAt: new Date("2024-01-02"),
       };
@@ -86,7 +86,7 @@ describe("Card Entity", () => {
       expect(card.isArchived).toBe(props.isArchived);
       expect(card.listId).toBe(props.listId);
       expect(card.creatorId).toBe(props.creatorId);
-      expect(card.assigneeId).toBe(props.assigneeId);
+      expect(card.assigneeIds).toEqual(props.assigneeIds);
       expect(card.createdAt).toBe(props.createdAt);
       expect(card.updatedAt).toBe(props.updatedAt);
     });
@@ -164,12 +164,31 @@ describe("Card Entity", () => {
         creatorId: "user-123",
       });
 
-      const assigneeId = "user-456";
-      card.assignTo(assigneeId);
-      expect(card.assigneeId).toBe(assigneeId);
+      card.assign("user-456");
+      card.assign("user-789");
+      card.assign("user-456");
+      expect(card.assigneeIds).toEqual(["user-456", "user-789"]);
+      expect(card.isAssignedTo("user-789")).toBe(true);
 
-      card.unassign();
-      expect(card.assigneeId).toBeUndefined();
+      card.unassign("user-456");
+      expect(card.assigneeIds).toEqual(["user-789"]);
+      expect(card.isAssignedTo("user-456")).toBe(false);
+    });
+
+    test("should not expose assignees for mutation", () => {
+      const card = Card.create({
+        title: "Test Card",
+        position: 1000,
+        isArchived: false,
+        listId: "list-123",
+        creatorId: "user-123",
+        assigneeIds: ["user-456"],
+      });
+
+      card.assigneeIds.push("user-789");
+      card.toJSON().assigneeIds.push("user-789");
+
+      expect(card.assigneeIds).toEqual(["user-456"]);
     });
 
     test("should set and clear due date", () => {
@@ -242,14 +261,14 @@ describe("Card Entity", () => {
       expect(noDueDateCard.isOverdue()).toBe(false);
     });
 
-    test("should check if card has assignee", () => {
+    test("should check if card has assignees", () => {
       const assignedCard = Card.create({
         title: "Assigned Card",
         position: 1000,
         isArchived: false,
         listId: "list-123",
         creatorId: "user-123",
-        assigneeId: "user-456",
+        assigneeIds: ["user-456"],
       });
 
       const unassignedCard = Card.create({
@@ -260,8 +279,8 @@ describe("Card Entity", () => {
         creatorId: "user-123",
       });
 
-      expect(assignedCard.hasAssignee()).toBe(true);
-      expect(unassignedCard.hasAssignee()).toBe(false);
+      expect(assignedCard.hasAssignees()).toBe(true);
+      expect(unassignedCard.hasAssignees()).toBe(false);
     });
   });
 });
\ No newline at end of file
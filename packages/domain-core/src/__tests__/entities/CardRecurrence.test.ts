@@ -0,0 +1,56 @@
+import { describe, test, expect } from "bun:test";
+import { CardRecurrence } from "../../entities/CardRecurrence";
+
+describe("CardRecurrence Entity", () => {
+  describe("create", () => {
+    test("should schedule the first run from the rule", () => {
+      const recurrence = CardRecurrence.create({
+        cardId: "card-123",
+        rule: { frequency: "DAILY", hour: 9, minute: 0 },
+      });
+
+      expect(recurrence.id).toBeDefined();
+      expect(recurrence.targetListId).toBeUndefined();
+      expect(recurrence.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+      expect(recurrence.nextRunAt.getUTCHours()).toBe(9);
+      expect(recurrence.lastRunAt).toBeUndefined();
+      expect(recurrence.isDue()).toBe(false);
+    });
+
+    test("should reject an invalid rule", () => {
+      expect(() => CardRecurrence.create({
+        cardId: "card-123",
+        rule: { frequency: "MONTHLY", hour: 9, minute: 0, dayOfMonth: 0 },
+      })).toThrow("Monthly recurrence needs a day of the month from 1 to 31");
+    });
+  });
+
+  describe("advance", () => {
+    const recurrence = () => CardRecurrence.fromPersistence({
+      id: "recurrence-123",
+      cardId: "card-123",
+      rule: { frequency: "WEEKLY", hour: 9, minute: 0, weekdays: [1] },
+      nextRunAt: new Date("2024-06-03T09:00:00Z"),
+      createdAt: new Date("2024-05-01"),
+      updatedAt: new Date("2024-05-01"),
+    });
+
+    test("should move to the following run", () => {
+      const due = recurrence();
+      expect(due.isDue(new Date("2024-06-03T09:01:00Z"))).toBe(true);
+
+      due.advance(new Date("2024-06-03T09:01:00Z"));
+
+      expect(due.lastRunAt).toEqual(new Date("2024-06-03T09:00:00Z"));
+      expect(due.nextRunAt).toEqual(new Date("2024-06-10T09:00:00Z"));
+    });
+
+    test("should skip runs missed while nothing was processing them", () => {
+      const due = recurrence();
+
+      due.advance(new Date("2024-06-20T00:00:00Z"));
+
+      expect(due.nextRunAt).toEqual(new Date("2024-06-24T09:00:00Z"));
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { describe, test, expect } from "bun:test";
+import { ChecklistItem } from "../../entities/ChecklistItem";
+
+describe("ChecklistItem Entity", () => {
+  describe("create", () => {
+    test("should create an open item", () => {
+      const item = ChecklistItem.create({
+        content: "Write docs",
+        position: 1,
+        checklistId: "checklist-123",
+      });
+
+      expect(item.id).toBeDefined();
+      expect(item.content).toBe("Write docs");
+      expect(item.position).toBe(1);
+      expect(item.checklistId).toBe("checklist-123");
+      expect(item.isCompleted).toBe(false);
+      expect(item.completedAt).toBeUndefined();
+    });
+  });
+
+  describe("completion", () => {
+    test("should set completedAt when completed", () => {
+      const item = ChecklistItem.create({ content: "Task", position: 1, checklistId: "checklist-123" });
+
+      item.complete();
+
+      expect(item.isCompleted).toBe(true);
+      expect(item.completedAt).toBeInstanceOf(Date);
+    });
+
+    test("should keep the original completedAt when completed twice", () => {
+      const item = ChecklistItem.create({ content: "Task", position: 1, checklistId: "checklist-123" });
+      item.complete();
+      const completedAt = item.completedAt!;
+
+      item.complete();
+
+      expect(item.completedAt).toBe(completedAt);
+    });
+
+    test("should clear completedAt when reopened", () => {
+      const item = ChecklistItem.create({ content: "Task", position: 1, checklistId: "checklist-123" });
+      item.complete();
+
+      item.uncomplete();
+
+      expect(item.isCompleted).toBe(false);
+      expect(item.completedAt).toBeUndefined();
+    });
+
+    test("should flip state on toggle", () => {
+      const item = ChecklistItem.create({ content: "Task", position: 1, checklistId: "checklist-123" });
+
+      item.toggle();
+      expect(item.isCompleted).toBe(true);
+
+      item.toggle();
+      expect(item.isCompleted).toBe(false);
+    });
+  });
+
+  describe("belongsToChecklist", () => {
+    test("should match its checklist id", () => {
+      const item = ChecklistItem.create({ content: "Task", position: 1, checklistId: "checklist-123" });
+
+      expect(item.belongsToChecklist("checklist-123")).toBe(true);
+      expect(item.belongsToChecklist("checklist-456")).toBe(false);
+    });
+  });
+});
\ No newline at end of file
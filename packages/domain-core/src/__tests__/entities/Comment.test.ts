@@ -0,0 +1,70 @@
+import { describe, test, expect } from "bun:test";
+import { Comment } from "../../entities/Comment";
+
+describe("Comment Entity", () => {
+  describe("create", () => {
+    test("should create a new comment with valid properties", () => {
+      const comment = Comment.create({
+        content: "Looks good",
+        cardId: "card-123",
+        userId: "user-123",
+      });
+
+      expect(comment.id).toBeDefined();
+      expect(comment.content).toBe("Looks good");
+      expect(comment.cardId).toBe("card-123");
+      expect(comment.userId).toBe("user-123");
+      expect(comment.createdAt).toBeInstanceOf(Date);
+      expect(comment.updatedAt).toBeInstanceOf(Date);
+      expect(comment.isEdited()).toBe(false);
+    });
+  });
+
+  describe("updateContent", () => {
+    test("should update content and mark the comment as edited", () => {
+      const comment = Comment.fromPersistence({
+        id: "comment-123",
+        content: "Original",
+        cardId: "card-123",
+        userId: "user-123",
+        createdAt: new Date("2024-01-01T00:00:00Z"),
+        updatedAt: new Date("2024-01-01T00:00:00Z"),
+      });
+
+      comment.updateContent("Edited");
+
+      expect(comment.content).toBe("Edited");
+      expect(comment.isEdited()).toBe(true);
+    });
+  });
+
+  describe("ownership", () => {
+    test("should identify its author and card", () => {
+      const comment = Comment.create({
+        content: "Hi",
+        cardId: "card-123",
+        userId: "user-123",
+      });
+
+      expect(comment.isAuthoredBy("user-123")).toBe(true);
+      expect(comment.isAuthoredBy("user-456")).toBe(false);
+      expect(comment.belongsToCard("card-123")).toBe(true);
+      expect(comment.belongsToCard("card-456")).toBe(false);
+    });
+  });
+
+  describe("toJSON", () => {
+    test("should return a copy of the props", () => {
+      const comment = Comment.create({
+        content: "Hi",
+        cardId: "card-123",
+        userId: "user-123",
+      });
+
+      const json = comment.toJSON();
+      json.content = "Mutated";
+
+      expect(comment.content).toBe("Hi");
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { describe, test, expect } from "bun:test";
+import { List } from "../../entities/List";
+
+describe("List Entity", () => {
+  const createList = () => List.create({
+    title: "Doing",
+    position: 1000,
+    boardId: "board-123",
+  });
+
+  describe("create", () => {
+    test("should start without a WIP limit in soft mode", () => {
+      const list = createList();
+
+      expect(list.wipLimit).toBeUndefined();
+      expect(list.wipLimitMode).toBe("SOFT");
+      expect(list.wouldExceedWipLimit(100)).toBe(false);
+    });
+  });
+
+  describe("updateWipLimit", () => {
+    test("should set the limit and mode, and clear them again", () => {
+      const list = createList();
+
+      list.updateWipLimit(3, "STRICT");
+      expect(list.wipLimit).toBe(3);
+      expect(list.wipLimitMode).toBe("STRICT");
+
+      list.updateWipLimit(undefined);
+      expect(list.wipLimit).toBeUndefined();
+      expect(list.wipLimitMode).toBe("STRICT");
+    });
+
+    test("should reject limits that are not positive whole numbers", () => {
+      const list = createList();
+
+      expect(() => list.updateWipLimit(0)).toThrow("WIP limit must be a positive whole number");
+      expect(() => list.updateWipLimit(2.5)).toThrow("WIP limit must be a positive whole number");
+    });
+  });
+
+  describe("wouldExceedWipLimit", () => {
+    test("should report when one more card goes over the limit", () => {
+      const list = createList();
+      list.updateWipLimit(3);
+
+      expect(list.wouldExceedWipLimit(2)).toBe(false);
+      expect(list.wouldExceedWipLimit(3)).toBe(true);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { describe, test, expect } from "bun:test";
+import { Notification } from "../../entities/Notification";
+
+describe("Notification Entity", () => {
+  describe("create", () => {
+    test("should create an unread notification for the recipient", () => {
+      const notification = Notification.create({
+        type: "CARD_ASSIGNED",
+        userId: "user-456",
+        actorId: "user-123",
+        message: 'assigned you to "Fix login"',
+        boardId: "board-123",
+        cardId: "card-123",
+      });
+
+      expect(notification.id).toBeDefined();
+      expect(notification.type).toBe("CARD_ASSIGNED");
+      expect(notification.isFor("user-456")).toBe(true);
+      expect(notification.isFor("user-123")).toBe(false);
+      expect(notification.isRead).toBe(false);
+      expect(notification.readAt).toBeUndefined();
+      expect(notification.createdAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe("markAsRead", () => {
+    test("should keep the first read time", () => {
+      const readAt = new Date("2024-01-01");
+      const notification = Notification.fromPersistence({
+        id: "notification-123",
+        type: "CARD_MOVED",
+        userId: "user-456",
+        message: 'moved your card "Fix login" to Done',
+        readAt,
+        createdAt: new Date("2023-12-31"),
+      });
+
+      notification.markAsRead();
+
+      expect(notification.isRead).toBe(true);
+      expect(notification.readAt).toBe(readAt);
+    });
+
+    test("should mark an unread notification as read", () => {
+      const notification = Notification.create({
+        type: "BOARD_MEMBER_ADDED",
+        userId: "user-456",
+        message: 'added you to "Roadmap" as MEMBER',
+      });
+
+      notification.markAsRead();
+
+      expect(notification.isRead).toBe(true);
+      expect(notification.readAt).toBeInstanceOf(Date);
+    });
+  });
+});
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { describe, test, expect } from "bun:test";
-import { User } from "../../entities/User";
+import { DEFAULT_REMINDER_LEAD_MINUTES, User } from "../../entities/User";
 
 describe("User Entity", () => {
   describe("create", () => {
@@ -59,6 +59,7 @@ describe("User Entity", () => {
       expect(user.cognitoSub).toBe(props.cognitoSub);
       expect(user.name).toBe(props.name);
       expect(user.isActive).toBe(true);
+      expect(user.reminderLeadMinutes).toBe(DEFAULT_REMINDER_LEAD_MINUTES);
     });
 
     test("should create Cognito user with minimal properties", () => {
@@ -146,5 +147,39 @@ describe("User Entity", () => {
 
       expect(user.isActive).toBe(true);
     });
+
+    test("should change or turn off the reminder lead time", () => {
+      const user = User.createCognitoUser({
+        email: "test@example.com",
+        username: "testuser",
+        cognitoSub: "cognito-123",
+      });
+
+      user.updateReminderLeadTime(60);
+      expect(user.reminderLeadMinutes).toBe(60);
+
+      user.updateReminderLeadTime(undefined);
+      expect(user.reminderLeadMinutes).toBeUndefined();
+
+      expect(() => user.updateReminderLeadTime(-5)).toThrow("Reminder lead time must be between");
+    });
+
+    test("should replace and revoke the calendar token", () => {
+      const user = User.createCognitoUser({
+        email: "test@example.com",
+        username: "testuser",
+        cognitoSub: "cognito-123",
+      });
+      expect(user.calendarToken).toBeUndefined();
+
+      const first = user.regenerateCalendarToken();
+      const second = user.regenerateCalendarToken();
+      expect(first).toMatch(/^[0-9a-f]{48}$/);
+      expect(second).not.toBe(first);
+      expect(user.calendarToken).toBe(second);
+
+      user.revokeCalendarToken();
+      expect(user.calendarToken).toBeUndefined();
+    });
   });
 });
\ No newline at end of file
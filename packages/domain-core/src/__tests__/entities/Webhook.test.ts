@@ -0,0 +1,40 @@
+import { describe, test, expect } from "bun:test";
+import { Webhook } from "../../entities/Webhook";
+
+describe("Webhook Entity", () => {
+  test("should create an active webhook with a random secret", () => {
+    const webhook = Webhook.create({
+      boardId: "board-123",
+      url: "https://example.com/hooks/kanban",
+      events: ["CREATE", "MOVE", "CREATE"],
+      creatorId: "user-123",
+    });
+    const other = Webhook.create({
+      boardId: "board-123",
+      url: "https://example.com/hooks/kanban",
+      events: ["CREATE"],
+      creatorId: "user-123",
+    });
+
+    expect(webhook.isActive).toBe(true);
+    expect(webhook.events).toEqual(["CREATE", "MOVE"]);
+    expect(webhook.secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(webhook.secret).not.toBe(other.secret);
+  });
+
+  test("should only subscribe to selected events while active", () => {
+    const webhook = Webhook.create({
+      boardId: "board-123",
+      url: "https://example.com/hooks/kanban",
+      events: ["MOVE"],
+      creatorId: "user-123",
+    });
+
+    expect(webhook.subscribesTo("MOVE")).toBe(true);
+    expect(webhook.subscribesTo("COMMENT")).toBe(false);
+
+    webhook.update({ isActive: false });
+
+    expect(webhook.subscribesTo("MOVE")).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { describe, test, expect } from "bun:test";
+import { Activity } from "../../entities/Activity";
+import { WEBHOOK_MAX_ATTEMPTS, WebhookDelivery, webhookRetryDelay } from "../../entities/WebhookDelivery";
+
+const createDelivery = () => WebhookDelivery.forActivity("webhook-123", Activity.create({
+  action: "MOVE",
+  entityType: "CARD",
+  entityId: "card-123",
+  entityTitle: "Fix login",
+  userId: "user-123",
+  boardId: "board-123",
+  cardId: "card-123",
+}));
+
+describe("WebhookDelivery Entity", () => {
+  test("should snapshot the activity into a pending payload", () => {
+    const delivery = createDelivery();
+
+    expect(delivery.status).toBe("PENDING");
+    expect(delivery.attempts).toBe(0);
+    expect(delivery.event).toBe("MOVE");
+    expect(delivery.payload.activity.entityTitle).toBe("Fix login");
+    expect(typeof delivery.payload.activity.createdAt).toBe("string");
+  });
+
+  test("should succeed on a 2xx response", () => {
+    const delivery = createDelivery();
+    const at = new Date("2026-01-01T00:00:00Z");
+
+    delivery.recordAttempt({ status: 204 }, at);
+
+    expect(delivery.status).toBe("SUCCEEDED");
+    expect(delivery.deliveredAt).toBe(at);
+    expect(delivery.nextAttemptAt).toBeUndefined();
+  });
+
+  test("should back off exponentially and give up after the last attempt", () => {
+    const delivery = createDelivery();
+    const at = new Date("2026-01-01T00:00:00Z");
+
+    delivery.recordAttempt({ status: 500 }, at);
+    expect(delivery.nextAttemptAt?.getTime()).toBe(at.getTime() + webhookRetryDelay(1));
+
+    delivery.recordAttempt({ error: "connect ECONNREFUSED" }, at);
+    expect(delivery.nextAttemptAt?.getTime()).toBe(at.getTime() + 2 * webhookRetryDelay(1));
+
+    for (let attempt = 3; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      delivery.recordAttempt({ status: 503 }, at);
+    }
+
+    expect(delivery.status).toBe("FAILED");
+    expect(delivery.attempts).toBe(WEBHOOK_MAX_ATTEMPTS);
+    expect(delivery.nextAttemptAt).toBeUndefined();
+    expect(() => delivery.recordAttempt({ status: 200 }, at)).toThrow("Webhook delivery is already finished");
+  });
+
+  test("should redeliver the same payload as a new delivery", () => {
+    const delivery = createDelivery();
+    delivery.recordAttempt({ status: 410 });
+
+    const redelivery = delivery.redeliver();
+
+    expect(redelivery.id).not.toBe(delivery.id);
+    expect(redelivery.redeliveryOf).toBe(delivery.id);
+    expect(redelivery.payload).toEqual(delivery.payload);
+    expect(redelivery.status).toBe("PENDING");
+  });
+});
\ No newline at end of file
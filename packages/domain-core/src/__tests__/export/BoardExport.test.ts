@@ -0,0 +1,160 @@
+import { describe, test, expect } from "bun:test";
+import { parseBoardExport } from "../../export/BoardExport";
+
+const timestamp = "2024-06-05T09:30:00.000Z";
+
+const validExport = (): any => ({
+  format: "kanban-board-export",
+  version: 1,
+  exportedAt: timestamp,
+  board: {
+    id: "board-1",
+    title: "Roadmap",
+    isPublic: false,
+    isArchived: false,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  },
+  members: [
+    { id: "user-1", email: "owner@example.com", username: "owner", role: "OWNER" },
+    { id: "user-2", email: "former@example.com", username: "former" },
+  ],
+  labels: [{ id: "label-1", name: "Bug", color: "#ff0000", createdAt: timestamp }],
+  lists: [{ id: "list-1", title: "To Do", position: 1024, createdAt: timestamp, updatedAt: timestamp }],
+  cards: [
+    {
+      id: "card-1",
+      listId: "list-1",
+      title: "Fix login",
+      position: 1024,
+      dueDate: timestamp,
+      isArchived: false,
+      creatorId: "user-2",
+      assigneeIds: ["user-1"],
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    },
+  ],
+  cardLabels: [{ cardId: "card-1", labelId: "label-1" }],
+  checklists: [{ id: "checklist-1", cardId: "card-1", title: "Steps", position: 1, createdAt: timestamp, updatedAt: timestamp }],
+  checklistItems: [
+    {
+      id: "item-1",
+      checklistId: "checklist-1",
+      content: "Reproduce",
+      isCompleted: true,
+      completedAt: timestamp,
+      position: 1,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    },
+  ],
+  comments: [
+    { id: "comment-1", cardId: "card-1", authorId: "user-2", content: "On it", createdAt: timestamp, updatedAt: timestamp },
+  ],
+});
+
+describe("BoardExport", () => {
+  describe("parseBoardExport", () => {
+    test("should accept a complete export and drop unknown fields", () => {
+      const input = validExport();
+      input.board.theme = "dark";
+      input.cards[0].watchers = ["user-1"];
+
+      const parsed = parseBoardExport(input);
+
+      expect(parsed.board).toEqual({
+        id: "board-1",
+        title: "Roadmap",
+        description: undefined,
+        backgroundUrl: undefined,
+        isPublic: false,
+        isArchived: false,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+      expect(parsed.members[1]!.role).toBeUndefined();
+      expect(parsed.cards[0]!.assigneeIds).toEqual(["user-1"]);
+      expect("watchers" in parsed.cards[0]!).toBe(false);
+      expect(parsed.comments).toHaveLength(1);
+    });
+
+    test("should reject documents that are not board exports", () => {
+      expect(() => parseBoardExport([])).toThrow("Board export must be a JSON object");
+      expect(() => parseBoardExport({ ...validExport(), format: "trello" })).toThrow("Not a board export");
+    });
+
+    test("should reject versions newer than it understands", () => {
+      expect(() => parseBoardExport({ ...validExport(), version: 2 }))
+        .toThrow("Board export version 2 is newer than this server supports (1)");
+      expect(() => parseBoardExport({ ...validExport(), version: "1" }))
+        .toThrow("Invalid board export: version must be a positive integer");
+    });
+
+    test("should name the field that is malformed", () => {
+      const input = validExport();
+      input.cards[0].position = "first";
+      expect(() => parseBoardExport(input)).toThrow("Invalid board export: cards[0].position must be a number");
+
+      const badDate = validExport();
+      badDate.comments[0].createdAt = "yesterday";
+      expect(() => parseBoardExport(badDate)).toThrow("Invalid board export: comments[0].createdAt must be an ISO 8601 date");
+
+      const badRole = validExport();
+      badRole.members[0].role = "GUEST";
+      expect(() => parseBoardExport(badRole)).toThrow("Invalid board export: members[0].role must be one of");
+    });
+
+    test("should reject references to records missing from the document", () => {
+      const input = validExport();
+      input.cardLabels.push({ cardId: "card-1", labelId: "label-9" });
+      expect(() => parseBoardExport(input))
+        .toThrow('Invalid board export: cardLabels[1].labelId refers to a missing label "label-9"');
+
+      const strangerComment = validExport();
+      strangerComment.comments[0].authorId = "user-9";
+      expect(() => parseBoardExport(strangerComment))
+        .toThrow('Invalid board export: comments[0].authorId refers to a missing member "user-9"');
+    });
+
+    test("should reject repeated ids and label names", () => {
+      const input = validExport();
+      input.lists.push({ ...input.lists[0] });
+
+      expect(() => parseBoardExport(input)).toThrow('Invalid board export: lists[1].id repeats "list-1"');
+
+      const sameName = validExport();
+      sameName.labels.push({ ...sameName.labels[0], id: "label-2", color: "#00ff00" });
+      expect(() => parseBoardExport(sameName)).toThrow('Invalid board export: labels[1].name repeats "Bug"');
+    });
+
+    test("should reject checklist and item positions that are not whole numbers", () => {
+      const checklist = validExport();
+      checklist.checklists[0].position = 1.5;
+      expect(() => parseBoardExport(checklist)).toThrow("Invalid board export: checklists[0].position must be an integer");
+
+      const item = validExport();
+      item.checklistItems[0].position = 0.25;
+      expect(() => parseBoardExport(item)).toThrow("Invalid board export: checklistItems[0].position must be an integer");
+    });
+
+    test("should reject checklist positions repeated within a card and item positions repeated within a checklist", () => {
+      const checklist = validExport();
+      checklist.checklists.push({ ...checklist.checklists[0], id: "checklist-2" });
+      expect(() => parseBoardExport(checklist))
+        .toThrow('Invalid board export: checklists[1].position repeats position 1 in card "card-1"');
+
+      const item = validExport();
+      item.checklistItems.push({ ...item.checklistItems[0], id: "item-2" });
+      expect(() => parseBoardExport(item))
+        .toThrow('Invalid board export: checklistItems[1].position repeats position 1 in checklist "checklist-1"');
+
+      // The same position is fine on another card or in another checklist
+      const elsewhere = validExport();
+      elsewhere.cards.push({ ...elsewhere.cards[0], id: "card-2" });
+      elsewhere.checklists.push({ ...elsewhere.checklists[0], id: "checklist-2", cardId: "card-2" });
+      elsewhere.checklistItems.push({ ...elsewhere.checklistItems[0], id: "item-2", checklistId: "checklist-2" });
+      expect(() => parseBoardExport(elsewhere)).not.toThrow();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { describe, test, expect } from "bun:test";
+import { cardCsvColumn, formatCsv, joinCsvList, parseCsv, splitCsvList } from "../../export/CardCsv";
+
+describe("CardCsv", () => {
+  describe("formatCsv", () => {
+    test("should quote fields with commas, quotes and line breaks", () => {
+      expect(formatCsv([
+        ["Title", "List"],
+        ["Fix, then ship", 'The "big" one'],
+        ["Two\nlines", "Plain"],
+      ])).toBe('Title,List\r\n"Fix, then ship","The ""big"" one"\r\n"Two\nlines",Plain\r\n');
+    });
+
+    test("should keep spreadsheets from running cells as formulas", () => {
+      expect(formatCsv([["=SUM(A1:A2)", "-1", "@here"]])).toBe("'=SUM(A1:A2),'-1,'@here\r\n");
+    });
+  });
+
+  describe("parseCsv", () => {
+    test("should read quoted fields, CRLF endings and skip blank lines", () => {
+      const text = '\uFEFFTitle,List\r\n"Fix, then ship","The ""big"" one"\r\n\r\n"Two\nlines",Plain';
+
+      expect(parseCsv(text)).toEqual([
+        ["Title", "List"],
+        ["Fix, then ship", 'The "big" one'],
+        ["Two\nlines", "Plain"],
+      ]);
+    });
+
+    test("should read back what formatCsv wrote", () => {
+      const rows = [["=SUM(A1:A2)", "'quoted'", ""], ["-1", "a,b", "x"]];
+
+      expect(parseCsv(formatCsv(rows))).toEqual(rows);
+    });
+
+    test("should reject a quoted field that is never closed", () => {
+      expect(() => parseCsv('Title\r\n"Open')).toThrow("Invalid CSV: a quoted field is never closed");
+    });
+  });
+
+  describe("cardCsvColumn", () => {
+    test("should match column keys and headers loosely", () => {
+      expect(cardCsvColumn("dueDate")).toBe("dueDate");
+      expect(cardCsvColumn(" Due date ")).toBe("dueDate");
+      expect(cardCsvColumn("ASSIGNEES")).toBe("assignees");
+      expect(cardCsvColumn("Notes")).toBeUndefined();
+    });
+  });
+
+  describe("splitCsvList", () => {
+    test("should split what joinCsvList joined and drop empty names", () => {
+      expect(splitCsvList(joinCsvList(["Bug", "Urgent"]))).toEqual(["Bug", "Urgent"]);
+      expect(splitCsvList(" Bug ;; ")).toEqual(["Bug"]);
+      expect(splitCsvList("")).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { describe, test, expect } from "bun:test";
+import { parseTrelloBoard, trelloLabelColor } from "../../export/TrelloBoard";
+
+const trelloExport = (): any => ({
+  id: "t-board",
+  name: "Team board",
+  desc: "",
+  labels: [
+    { id: "t-label-1", name: "Bug", color: "red" },
+    { id: "t-label-2", name: "", color: null },
+  ],
+  lists: [
+    { id: "t-list-2", name: "Done", closed: false, pos: 32768 },
+    { id: "t-list-1", name: "To Do", closed: false, pos: 16384 },
+  ],
+  cards: [
+    {
+      id: "t-card-2",
+      idList: "t-list-1",
+      name: "Second",
+      desc: "",
+      closed: true,
+      pos: 2,
+      due: null,
+      idLabels: [],
+      idMembers: [],
+    },
+    {
+      id: "t-card-1",
+      idList: "t-list-1",
+      name: "First",
+      desc: "Details",
+      closed: false,
+      pos: 1,
+      due: "2024-06-05T09:30:00.000Z",
+      idLabels: ["t-label-1", "t-label-9"],
+      idMembers: ["t-member-1"],
+    },
+  ],
+  checklists: [
+    {
+      id: "t-checklist-1",
+      idCard: "t-card-1",
+      name: "Steps",
+      pos: 1,
+      checkItems: [
+        { id: "t-item-2", name: "Fix", state: "incomplete", pos: 2 },
+        { id: "t-item-1", name: "Reproduce", state: "complete", pos: 1 },
+      ],
+    },
+  ],
+  actions: [
+    {
+      id: "t-action-3",
+      type: "commentCard",
+      date: "2024-06-03T00:00:00.000Z",
+      idMemberCreator: "t-member-1",
+      data: { text: "On a deleted card", card: { id: "t-card-gone" } },
+    },
+    {
+      id: "t-action-2",
+      type: "commentCard",
+      date: "2024-06-02T00:00:00.000Z",
+      idMemberCreator: "t-member-2",
+      data: { text: "Thanks", card: { id: "t-card-1" } },
+    },
+    { id: "t-action-1b", type: "updateCard", date: "2024-06-01T12:00:00.000Z", data: { card: { id: "t-card-1" } } },
+    {
+      id: "t-action-1",
+      type: "commentCard",
+      date: "2024-06-01T00:00:00.000Z",
+      idMemberCreator: "t-member-1",
+      data: { text: "On it", card: { id: "t-card-1" } },
+    },
+  ],
+  members: [
+    { id: "t-member-1", username: "alice", fullName: "Alice Example" },
+    { id: "t-member-2", username: "bob", fullName: "Bob Example" },
+  ],
+  memberships: [
+    { id: "m-1", idMember: "t-member-1", memberType: "admin" },
+    { id: "m-2", idMember: "t-member-2", memberType: "observer", deactivated: true },
+  ],
+});
+
+describe("TrelloBoard", () => {
+  describe("parseTrelloBoard", () => {
+    test("should read lists, cards, checklists and items in Trello's order", () => {
+      const board = parseTrelloBoard(trelloExport());
+
+      expect(board.name).toBe("Team board");
+      expect(board.description).toBeUndefined();
+      expect(board.lists.map(list => list.name)).toEqual(["To Do", "Done"]);
+      expect(board.cards.map(card => [card.name, card.closed])).toEqual([
+        ["First", false],
+        ["Second", true],
+      ]);
+      expect(board.cards[0]!.due).toEqual(new Date("2024-06-05T09:30:00.000Z"));
+      expect(board.cards[1]!.due).toBeUndefined();
+      expect(board.checklists[0]!.items).toEqual([
+        { name: "Reproduce", complete: true },
+        { name: "Fix", complete: false },
+      ]);
+    });
+
+    test("should drop links to labels the export does not contain", () => {
+      const board = parseTrelloBoard(trelloExport());
+
+      expect(board.cards[0]!.labelIds).toEqual(["t-label-1"]);
+      expect(board.labels[1]).toEqual({ id: "t-label-2", name: "", color: undefined });
+    });
+
+    test("should keep comments on exported cards, oldest first", () => {
+      const board = parseTrelloBoard(trelloExport());
+
+      expect(board.comments.map(comment => [comment.text, comment.memberId])).toEqual([
+        ["On it", "t-member-1"],
+        ["Thanks", "t-member-2"],
+      ]);
+    });
+
+    test("should take member roles from active memberships", () => {
+      const board = parseTrelloBoard(trelloExport());
+
+      expect(board.members.map(member => [member.username, member.role])).toEqual([
+        ["alice", "ADMIN"],
+        ["bob", undefined],
+      ]);
+    });
+
+    test("should reject input that is not a Trello board", () => {
+      expect(() => parseTrelloBoard("board")).toThrow("Trello export must be a JSON object");
+      expect(() => parseTrelloBoard({ name: "Board" })).toThrow("Invalid Trello export: lists must be an array");
+
+      const orphan = trelloExport();
+      orphan.cards[0].idList = "t-list-9";
+      expect(() => parseTrelloBoard(orphan)).toThrow('Invalid Trello export: cards[0].idList refers to a missing list "t-list-9"');
+    });
+  });
+
+  describe("trelloLabelColor", () => {
+    test("should map Trello colors and their shades to hex", () => {
+      expect(trelloLabelColor("green")).toBe("#61BD4F");
+      expect(trelloLabelColor("sky_dark")).toBe("#00C2E0");
+      expect(trelloLabelColor(undefined)).toBe("#B3BAC5");
+      expect(trelloLabelColor("mauve")).toBe("#B3BAC5");
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { describe, test, expect } from "bun:test";
+import { RANK_STEP, MIN_RANK_GAP, rankAfter, rankBetween, isRankCrowded, spreadRanks } from "../../ranking/Rank";
+
+describe("Rank", () => {
+  describe("rankAfter", () => {
+    test("should start an empty container at one step", () => {
+      expect(rankAfter()).toBe(RANK_STEP);
+      expect(rankAfter(null)).toBe(RANK_STEP);
+    });
+
+    test("should leave a full step after the last item", () => {
+      expect(rankAfter(3072)).toBe(3072 + RANK_STEP);
+    });
+  });
+
+  describe("rankBetween", () => {
+    test("should pick the midpoint between two neighbours", () => {
+      expect(rankBetween(1024, 2048)).toBe(1536);
+      expect(rankBetween(1, 1.5)).toBe(1.25);
+    });
+
+    test("should halve the first rank when placing at the front", () => {
+      expect(rankBetween(undefined, 1024)).toBe(512);
+    });
+
+    test("should append when there is no next neighbour", () => {
+      expect(rankBetween(2048)).toBe(2048 + RANK_STEP);
+      expect(rankBetween()).toBe(RANK_STEP);
+    });
+
+    test("should keep ordering across many inserts into the same gap", () => {
+      let after = 2048;
+      for (let i = 0; i < 20; i++) {
+        const rank = rankBetween(1024, after);
+        expect(rank).toBeGreaterThan(1024);
+        expect(rank).toBeLessThan(after);
+        after = rank;
+      }
+    });
+  });
+
+  describe("isRankCrowded", () => {
+    test("should accept ranks with room on both sides", () => {
+      expect(isRankCrowded(1536, 1024, 2048)).toBe(false);
+      expect(isRankCrowded(4096, 3072)).toBe(false);
+    });
+
+    test("should flag a rank tied with a neighbour", () => {
+      expect(isRankCrowded(1024, 1024, 2048)).toBe(true);
+      expect(isRankCrowded(1024, 512, 1024)).toBe(true);
+    });
+
+    test("should flag neighbours closer than the minimum gap", () => {
+      expect(isRankCrowded(1024 + MIN_RANK_GAP / 2, 1024, 2048)).toBe(true);
+    });
+
+    test("should flag a first rank too close to zero", () => {
+      expect(isRankCrowded(MIN_RANK_GAP / 2, undefined, 1024)).toBe(true);
+    });
+  });
+
+  describe("spreadRanks", () => {
+    test("should space ranks one step apart", () => {
+      expect(spreadRanks(3)).toEqual([RANK_STEP, 2 * RANK_STEP, 3 * RANK_STEP]);
+      expect(spreadRanks(0)).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { describe, test, expect } from "bun:test";
+import { nextOccurrence, normalizeRecurrenceRule } from "../../recurrence/Recurrence";
+
+// 2024-06-05 is a Wednesday
+const at = (iso: string) => new Date(`${iso}Z`);
+
+describe("Recurrence", () => {
+  describe("nextOccurrence", () => {
+    test("should fire daily at the given time", () => {
+      const rule = { frequency: "DAILY" as const, hour: 9, minute: 30 };
+
+      expect(nextOccurrence(rule, at("2024-06-05T08:00:00"))).toEqual(at("2024-06-05T09:30:00"));
+      expect(nextOccurrence(rule, at("2024-06-05T09:30:00"))).toEqual(at("2024-06-06T09:30:00"));
+    });
+
+    test("should fire on the chosen weekdays", () => {
+      const rule = { frequency: "WEEKLY" as const, hour: 9, minute: 0, weekdays: [1, 5] };
+
+      expect(nextOccurrence(rule, at("2024-06-05T12:00:00"))).toEqual(at("2024-06-07T09:00:00"));
+      expect(nextOccurrence(rule, at("2024-06-07T09:00:00"))).toEqual(at("2024-06-10T09:00:00"));
+    });
+
+    test("should fire on the last day of shorter months", () => {
+      const rule = { frequency: "MONTHLY" as const, hour: 0, minute: 0, dayOfMonth: 31 };
+
+      expect(nextOccurrence(rule, at("2024-02-01T00:00:00"))).toEqual(at("2024-02-29T00:00:00"));
+      expect(nextOccurrence(rule, at("2024-02-29T00:00:00"))).toEqual(at("2024-03-31T00:00:00"));
+    });
+
+    test("should follow cron steps, ranges and lists", () => {
+      const rule = { frequency: "CRON" as const, cron: "*/15 9-10 * * 1-5" };
+
+      expect(nextOccurrence(rule, at("2024-06-05T09:07:00"))).toEqual(at("2024-06-05T09:15:00"));
+      expect(nextOccurrence(rule, at("2024-06-05T10:45:00"))).toEqual(at("2024-06-06T09:00:00"));
+      expect(nextOccurrence(rule, at("2024-06-07T10:50:00"))).toEqual(at("2024-06-10T09:00:00"));
+    });
+
+    test("should fire on either day field when both are restricted", () => {
+      const rule = { frequency: "CRON" as const, cron: "0 12 1 * 0" };
+
+      expect(nextOccurrence(rule, at("2024-06-05T00:00:00"))).toEqual(at("2024-06-09T12:00:00"));
+      expect(nextOccurrence(rule, at("2024-06-30T12:00:00"))).toEqual(at("2024-07-01T12:00:00"));
+    });
+
+    test("should reject a rule that never fires", () => {
+      expect(() => nextOccurrence({ frequency: "CRON", cron: "0 0 31 2 *" }, at("2024-01-01T00:00:00")))
+        .toThrow("Recurrence rule never fires");
+    });
+  });
+
+  describe("normalizeRecurrenceRule", () => {
+    test("should keep only the fields the frequency uses", () => {
+      expect(normalizeRecurrenceRule({
+        frequency: "WEEKLY",
+        hour: 9,
+        minute: 0,
+        weekdays: [5, 1, 5],
+        dayOfMonth: 3,
+        cron: "* * * * *",
+      })).toEqual({ frequency: "WEEKLY", hour: 9, minute: 0, weekdays: [1, 5] });
+    });
+
+    test("should reject incomplete rules", () => {
+      expect(() => normalizeRecurrenceRule({ frequency: "WEEKLY", hour: 9, minute: 0, weekdays: [] }))
+        .toThrow("Weekly recurrence needs at least one weekday from 0 (Sunday) to 6");
+      expect(() => normalizeRecurrenceRule({ frequency: "DAILY", hour: 24, minute: 0 }))
+        .toThrow("Recurrence time must be a valid hour and minute");
+      expect(() => normalizeRecurrenceRule({ frequency: "CRON", cron: "0 9 * *" }))
+        .toThrow("Cron expression must have five fields");
+      expect(() => normalizeRecurrenceRule({ frequency: "CRON", cron: "0 25 * * *" }))
+        .toThrow('Invalid cron hour field "25"');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,91 @@
+/**
+ * Writes iCalendar (RFC 5545) feeds for calendar apps to subscribe to.
+ * Times are written in UTC; text is escaped and long lines are folded at 75
+ * octets as the RFC requires.
+ */
+export interface CalendarEvent {
+  // Stable across feed refreshes so apps update the event instead of adding another
+  uid: string;
+  summary: string;
+  description?: string;
+  url?: string;
+  start: Date;
+  // Absent for an event at a single point in time
+  end?: Date;
+  lastModified: Date;
+}
+
+export interface CalendarFeed {
+  name: string;
+  events: CalendarEvent[];
+}
+
+const PRODUCT_ID = '-//Kanban//Card dates//EN';
+const MAX_LINE_OCTETS = 75;
+
+function formatTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Continuation lines start with a space, which counts towards their 75 octets
+function fold(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+}
+
+/**
+ * Writes the feed as an iCalendar document with one VEVENT per event.
+ */
+export function formatICalendar(feed: CalendarFeed, now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(feed.name)}`,
+  ];
+
+  feed.events.forEach(event => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatTime(now)}`,
+      `DTSTART:${formatTime(event.start)}`,
+      ...(event.end && event.end > event.start ? [`DTEND:${formatTime(event.end)}`] : []),
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      `LAST-MODIFIED:${formatTime(event.lastModified)}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
\ No newline at end of file
@@ -1,12 +1,87 @@
 export type ActivityType = 'CREATE' | 'UPDATE' | 'DELETE' | 'MOVE' | 'ARCHIVE' | 'UNARCHIVE' | 'ASSIGN' | 'UNASSIGN' | 'COMMENT' | 'ATTACH' | 'DETACH' | 'ADD_MEMBER' | 'REMOVE_MEMBER' | 'ADD_LABEL' | 'REMOVE_LABEL';
 export type EntityType = 'BOARD' | 'LIST' | 'CARD' | 'COMMENT' | 'ATTACHMENT' | 'CHECKLIST' | 'LABEL';
 
+export interface ActivityFieldChange {
+  from: unknown;
+  to: unknown;
+  // Identifies the child record the field belongs to, e.g. a board member or checklist item
+  subjectId?: string;
+  subjectTitle?: string;
+}
+
+// Field name -> before/after values
+export type UpdateActivityData = Record<string, ActivityFieldChange>;
+
+export interface MoveActivityData {
+  fromListId?: string;
+  fromListTitle?: string;
+  toListId?: string;
+  toListTitle?: string;
+  fromPosition?: number;
+  toPosition?: number;
+  listCount?: number;
+  // Set when a soft WIP limit let the card into the list over it
+  overWipLimit?: boolean;
+}
+
+export interface AssignActivityData {
+  assigneeId: string;
+  assigneeName?: string;
+}
+
+export interface CommentActivityData {
+  commentId: string;
+}
+
+export interface AttachmentActivityData {
+  attachmentId: string;
+  filename: string;
+}
+
+export interface AddMemberActivityData {
+  memberUserId: string;
+  role: string;
+}
+
+export interface RemoveMemberActivityData {
+  memberUserId: string;
+  removedRole?: string;
+  selfRemoval?: boolean;
+}
+
+export interface LabelActivityData {
+  labelId: string;
+  labelName: string;
+  labelColor?: string;
+}
+
+export interface ActivityDataMap {
+  CREATE: Record<string, unknown>;
+  UPDATE: UpdateActivityData;
+  DELETE: Record<string, unknown>;
+  MOVE: MoveActivityData;
+  ARCHIVE: Record<string, unknown>;
+  UNARCHIVE: Record<string, unknown>;
+  ASSIGN: AssignActivityData;
+  UNASSIGN: AssignActivityData;
+  COMMENT: CommentActivityData;
+  ATTACH: AttachmentActivityData;
+  DETACH: AttachmentActivityData;
+  ADD_MEMBER: AddMemberActivityData;
+  REMOVE_MEMBER: RemoveMemberActivityData;
+  ADD_LABEL: LabelActivityData;
+  REMOVE_LABEL: LabelActivityData;
+}
+
+export type ActivityData<T extends ActivityType = ActivityType> = ActivityDataMap[T];
+
 export interface ActivityProps {
   id: string;
   action: ActivityType;
   entityType: EntityType;
   entityId: string;
   entityTitle: string;
+  description?: string;
   data?: Record<string, any>;
   userId: string;
   boardId: string;
@@ -14,10 +89,15 @@ export interface ActivityProps {
   createdAt: Date;
 }
 
+export type CreateActivityProps<T extends ActivityType = ActivityType> = Omit<ActivityProps, 'id' | 'createdAt' | 'action' | 'data'> & {
+  action: T;
+  data?: ActivityData<T>;
+};
+
 export class Activity {
   private constructor(private props: ActivityProps) {}
 
-  static create(props: Omit<ActivityProps, 'id' | 'createdAt'>): Activity {
+  static create<T extends ActivityType>(props: CreateActivityProps<T>): Activity {
     return new Activity({
       ...props,
       id: crypto.randomUUID(),
@@ -49,6 +129,10 @@ export class Activity {
     return this.props.entityTitle;
   }
 
+  get description(): string | undefined {
+    return this.props.description;
+  }
+
   get data(): Record<string, any> | undefined {
     return this.props.data;
   }
@@ -81,6 +165,14 @@ export class Activity {
     return this.props.userId === userId;
   }
 
+  // Typed view of the payload; undefined when the activity is of another type
+  dataFor<T extends ActivityType>(action: T): ActivityData<T> | undefined {
+    if (this.props.action !== action || !this.props.data) {
+      return undefined;
+    }
+    return this.props.data as ActivityData<T>;
+  }
+
   toJSON(): ActivityProps {
     return { ...this.props };
   }
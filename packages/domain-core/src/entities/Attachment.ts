@@ -0,0 +1,74 @@
+export interface AttachmentProps {
+  id: string;
+  filename: string;
+  url: string;
+  mimeType: string;
+  size: number;
+  cardId: string;
+  uploaderId: string;
+  createdAt: Date;
+}
+
+export class Attachment {
+  private constructor(private props: AttachmentProps) {}
+
+  static create(props: Omit<AttachmentProps, 'id' | 'createdAt'> & { id?: string }): Attachment {
+    return new Attachment({
+      ...props,
+      id: props.id ?? crypto.randomUUID(),
+      createdAt: new Date(),
+    });
+  }
+
+  static fromPersistence(props: AttachmentProps): Attachment {
+    return new Attachment(props);
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get filename(): string {
+    return this.props.filename;
+  }
+
+  get url(): string {
+    return this.props.url;
+  }
+
+  get mimeType(): string {
+    return this.props.mimeType;
+  }
+
+  get size(): number {
+    return this.props.size;
+  }
+
+  get cardId(): string {
+    return this.props.cardId;
+  }
+
+  get uploaderId(): string {
+    return this.props.uploaderId;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  belongsToCard(cardId: string): boolean {
+    return this.props.cardId === cardId;
+  }
+
+  isUploadedBy(userId: string): boolean {
+    return this.props.uploaderId === userId;
+  }
+
+  isImage(): boolean {
+    return this.props.mimeType.startsWith('image/');
+  }
+
+  toJSON(): AttachmentProps {
+    return { ...this.props };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,107 @@
+// A board's structure without ids, positions or people, so it can be
+// replayed into any number of new boards
+export interface BoardBlueprint {
+  labels: BoardBlueprintLabel[];
+  lists: BoardBlueprintList[];
+}
+
+export interface BoardBlueprintLabel {
+  name: string;
+  color: string;
+}
+
+export interface BoardBlueprintList {
+  title: string;
+  color?: string;
+  cards: BoardBlueprintCard[];
+}
+
+export interface BoardBlueprintCard {
+  title: string;
+  description?: string;
+  // Label names, resolved against the blueprint's labels
+  labels: string[];
+  checklists: BoardBlueprintChecklist[];
+}
+
+export interface BoardBlueprintChecklist {
+  title: string;
+  items: string[];
+}
+
+export interface BoardTemplateProps {
+  id: string;
+  name: string;
+  description?: string;
+  ownerId: string;
+  sourceBoardId?: string;
+  blueprint: BoardBlueprint;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class BoardTemplate {
+  private constructor(private props: BoardTemplateProps) {}
+
+  static create(props: Omit<BoardTemplateProps, 'id' | 'createdAt' | 'updatedAt'>): BoardTemplate {
+    const now = new Date();
+    return new BoardTemplate({
+      ...props,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  static fromPersistence(props: BoardTemplateProps): BoardTemplate {
+    return new BoardTemplate(props);
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get description(): string | undefined {
+    return this.props.description;
+  }
+
+  get ownerId(): string {
+    return this.props.ownerId;
+  }
+
+  get sourceBoardId(): string | undefined {
+    return this.props.sourceBoardId;
+  }
+
+  get blueprint(): BoardBlueprint {
+    return this.props.blueprint;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  get listCount(): number {
+    return this.props.blueprint.lists.length;
+  }
+
+  get cardCount(): number {
+    return this.props.blueprint.lists.reduce((total, list) => total + list.cards.length, 0);
+  }
+
+  isOwnedBy(userId: string): boolean {
+    return this.props.ownerId === userId;
+  }
+
+  toJSON(): BoardTemplateProps {
+    return { ...this.props };
+  }
+}
\ No newline at end of file
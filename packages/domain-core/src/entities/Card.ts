@@ -9,7 +9,8 @@ export interface CardProps {
   coverUrl?: string;
   listId: string;
   creatorId: string;
-  assigneeId?: string;
+  // In the order people were assigned
+  assigneeIds: string[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,10 +18,11 @@ export interface CardProps {
 export class Card {
   private constructor(private props: CardProps) {}
 
-  static create(props: Omit<CardProps, 'id' | 'createdAt' | 'updatedAt'>): Card {
+  static create(props: Omit<CardProps, 'id' | 'createdAt' | 'updatedAt' | 'assigneeIds'> & { assigneeIds?: string[] }): Card {
     const now = new Date();
     return new Card({
       ...props,
+      assigneeIds: [...new Set(props.assigneeIds ?? [])],
       id: crypto.randomUUID(),
       createdAt: now,
       updatedAt: now,
@@ -71,8 +73,8 @@ export class Card {
     return this.props.creatorId;
   }
 
-  get assigneeId(): string | undefined {
-    return this.props.assigneeId;
+  get assigneeIds(): string[] {
+    return [...this.props.assigneeIds];
   }
 
   get createdAt(): Date {
@@ -119,13 +121,15 @@ export class Card {
     this.props.updatedAt = new Date();
   }
 
-  assignTo(assigneeId?: string): void {
-    this.props.assigneeId = assigneeId;
+  assign(userId: string): void {
+    if (this.isAssignedTo(userId)) return;
+    this.props.assigneeIds = [...this.props.assigneeIds, userId];
     this.props.updatedAt = new Date();
   }
 
-  unassign(): void {
-    this.props.assigneeId = undefined;
+  unassign(userId: string): void {
+    if (!this.isAssignedTo(userId)) return;
+    this.props.assigneeIds = this.props.assigneeIds.filter(id => id !== userId);
     this.props.updatedAt = new Date();
   }
 
@@ -139,8 +143,8 @@ export class Card {
     this.props.updatedAt = new Date();
   }
 
-  hasAssignee(): boolean {
-    return this.props.assigneeId !== undefined;
+  hasAssignees(): boolean {
+    return this.props.assigneeIds.length > 0;
   }
 
   archive(): void {
@@ -162,7 +166,7 @@ export class Card {
   }
 
   isAssignedTo(userId: string): boolean {
-    return this.props.assigneeId === userId;
+    return this.props.assigneeIds.includes(userId);
   }
 
   isOverdue(): boolean {
@@ -171,6 +175,6 @@ export class Card {
   }
 
   toJSON(): CardProps {
-    return { ...this.props };
+    return { ...this.props, assigneeIds: [...this.props.assigneeIds] };
   }
 }
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { nextOccurrence, normalizeRecurrenceRule, RecurrenceRule } from '../recurrence/Recurrence';
+
+export interface CardRecurrenceProps {
+  id: string;
+  // The card that is copied; it stays where it is as the template
+  cardId: string;
+  rule: RecurrenceRule;
+  // Where copies go; absent means the template card's own list
+  targetListId?: string;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class CardRecurrence {
+  private constructor(private props: CardRecurrenceProps) {}
+
+  static create(props: { cardId: string; rule: RecurrenceRule; targetListId?: string }): CardRecurrence {
+    const now = new Date();
+    const rule = normalizeRecurrenceRule(props.rule);
+    return new CardRecurrence({
+      cardId: props.cardId,
+      rule,
+      targetListId: props.targetListId,
+      id: crypto.randomUUID(),
+      nextRunAt: nextOccurrence(rule, now),
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  static fromPersistence(props: CardRecurrenceProps): CardRecurrence {
+    return new CardRecurrence(props);
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get cardId(): string {
+    return this.props.cardId;
+  }
+
+  get rule(): RecurrenceRule {
+    const { weekdays } = this.props.rule;
+    return weekdays ? { ...this.props.rule, weekdays: [...weekdays] } : { ...this.props.rule };
+  }
+
+  get targetListId(): string | undefined {
+    return this.props.targetListId;
+  }
+
+  get nextRunAt(): Date {
+    return this.props.nextRunAt;
+  }
+
+  get lastRunAt(): Date | undefined {
+    return this.props.lastRunAt;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  isDue(now: Date = new Date()): boolean {
+    return this.props.nextRunAt <= now;
+  }
+
+  /**
+   * Replaces the rule and target list; the next run is worked out afresh
+   * from now.
+   */
+  update(changes: { rule: RecurrenceRule; targetListId?: string }): void {
+    const now = new Date();
+    this.props.rule = normalizeRecurrenceRule(changes.rule);
+    this.props.targetListId = changes.targetListId;
+    this.props.nextRunAt = nextOccurrence(this.props.rule, now);
+    this.props.updatedAt = now;
+  }
+
+  /**
+   * Records the due run and schedules the next one after `now`. Runs missed
+   * while the backend was down are skipped, so a card is copied once per
+   * catch-up rather than once per missed run.
+   */
+  advance(now: Date = new Date()): void {
+    this.props.lastRunAt = this.props.nextRunAt;
+    const after = now > this.props.nextRunAt ? now : this.props.nextRunAt;
+    this.props.nextRunAt = nextOccurrence(this.props.rule, after);
+    this.props.updatedAt = new Date();
+  }
+
+  toJSON(): CardRecurrenceProps {
+    return { ...this.props, rule: this.rule };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+export interface ChecklistProps {
+  id: string;
+  title: string;
+  position: number;
+  cardId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class Checklist {
+  private constructor(private props: ChecklistProps) {}
+
+  static create(props: Omit<ChecklistProps, 'id' | 'createdAt' | 'updatedAt'>): Checklist {
+    const now = new Date();
+    return new Checklist({
+      ...props,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  static fromPersistence(props: ChecklistProps): Checklist {
+    return new Checklist(props);
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get title(): string {
+    return this.props.title;
+  }
+
+  get position(): number {
+    return this.props.position;
+  }
+
+  get cardId(): string {
+    return this.props.cardId;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  updateTitle(title: string): void {
+    this.props.title = title;
+    this.props.updatedAt = new Date();
+  }
+
+  updatePosition(position: number): void {
+    this.props.position = position;
+    this.props.updatedAt = new Date();
+  }
+
+  belongsToCard(cardId: string): boolean {
+    return this.props.cardId === cardId;
+  }
+
+  toJSON(): ChecklistProps {
+    return { ...this.props };
+  }
+}
\ No newline at end of file
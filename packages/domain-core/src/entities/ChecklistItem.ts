@@ -0,0 +1,101 @@
+export interface ChecklistItemProps {
+  id: string;
+  content: string;
+  isCompleted: boolean;
+  position: number;
+  completedAt?: Date;
+  checklistId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class ChecklistItem {
+  private constructor(private props: ChecklistItemProps) {}
+
+  static create(props: Omit<ChecklistItemProps, 'id' | 'isCompleted' | 'completedAt' | 'createdAt' | 'updatedAt'>): ChecklistItem {
+    const now = new Date();
+    return new ChecklistItem({
+      ...props,
+      id: crypto.randomUUID(),
+      isCompleted: false,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  static fromPersistence(props: ChecklistItemProps): ChecklistItem {
+    return new ChecklistItem(props);
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get content(): string {
+    return this.props.content;
+  }
+
+  get isCompleted(): boolean {
+    return this.props.isCompleted;
+  }
+
+  get position(): number {
+    return this.props.position;
+  }
+
+  get completedAt(): Date | undefined {
+    return this.props.completedAt;
+  }
+
+  get checklistId(): string {
+    return this.props.checklistId;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  updateContent(content: string): void {
+    this.props.content = content;
+    this.props.updatedAt = new Date();
+  }
+
+  updatePosition(position: number): void {
+    this.props.position = position;
+    this.props.updatedAt = new Date();
+  }
+
+  complete(): void {
+    if (this.props.isCompleted) return;
+    this.props.isCompleted = true;
+    this.props.completedAt = new Date();
+    this.props.updatedAt = new Date();
+  }
+
+  uncomplete(): void {
+    if (!this.props.isCompleted) return;
+    this.props.isCompleted = false;
+    this.props.completedAt = undefined;
+    this.props.updatedAt = new Date();
+  }
+
+  toggle(): void {
+    if (this.props.isCompleted) {
+      this.uncomplete();
+    } else {
+      this.complete();
+    }
+  }
+
+  belongsToChecklist(checklistId: string): boolean {
+    return this.props.checklistId === checklistId;
+  }
+
+  toJSON(): ChecklistItemProps {
+    return { ...this.props };
+  }
+}
\ No newline at end of file
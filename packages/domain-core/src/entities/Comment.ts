@@ -0,0 +1,71 @@
+export interface CommentProps {
+  id: string;
+  content: string;
+  cardId: string;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class Comment {
+  private constructor(private props: CommentProps) {}
+
+  static create(props: Omit<CommentProps, 'id' | 'createdAt' | 'updatedAt'>): Comment {
+    const now = new Date();
+    return new Comment({
+      ...props,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  static fromPersistence(props: CommentProps): Comment {
+    return new Comment(props);
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get content(): string {
+    return this.props.content;
+  }
+
+  get cardId(): string {
+    return this.props.cardId;
+  }
+
+  get userId(): string {
+    return this.props.userId;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  updateContent(content: string): void {
+    this.props.content = content;
+    this.props.updatedAt = new Date();
+  }
+
+  belongsToCard(cardId: string): boolean {
+    return this.props.cardId === cardId;
+  }
+
+  isAuthoredBy(userId: string): boolean {
+    return this.props.userId === userId;
+  }
+
+  isEdited(): boolean {
+    return this.props.updatedAt.getTime() > this.props.createdAt.getTime();
+  }
+
+  toJSON(): CommentProps {
+    return { ...this.props };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+// DUE_SOON goes out within the assignee's lead time, OVERDUE once the date has passed
+export type DueDateReminderKind = 'DUE_SOON' | 'OVERDUE';
+
+export interface DueDateReminderProps {
+  id: string;
+  kind: DueDateReminderKind;
+  cardId: string;
+  // Recipient
+  userId: string;
+  // The due date the reminder was for; moving the date arms a new reminder
+  dueDate: Date;
+  sentAt: Date;
+}
+
+export class DueDateReminder {
+  private constructor(private props: DueDateReminderProps) {}
+
+  static create(props: Omit<DueDateReminderProps, 'id' | 'sentAt'>): DueDateReminder {
+    return new DueDateReminder({
+      ...props,
+      id: crypto.randomUUID(),
+      sentAt: new Date(),
+    });
+  }
+
+  static fromPersistence(props: DueDateReminderProps): DueDateReminder {
+    return new DueDateReminder(props);
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get kind(): DueDateReminderKind {
+    return this.props.kind;
+  }
+
+  get cardId(): string {
+    return this.props.cardId;
+  }
+
+  get userId(): string {
+    return this.props.userId;
+  }
+
+  get dueDate(): Date {
+    return this.props.dueDate;
+  }
+
+  get sentAt(): Date {
+    return this.props.sentAt;
+  }
+
+  toJSON(): DueDateReminderProps {
+    return { ...this.props };
+  }
+}
\ No newline at end of file
@@ -1,8 +1,16 @@
+// STRICT refuses cards over the limit; SOFT lets them in with a warning
+export type WipLimitMode = 'STRICT' | 'SOFT';
+
+export const WIP_LIMIT_MODES: WipLimitMode[] = ['STRICT', 'SOFT'];
+
 export interface ListProps {
   id: string;
   title: string;
   position: number;
   color?: string;
+  // Most open cards the list should hold; absent for no limit
+  wipLimit?: number;
+  wipLimitMode?: WipLimitMode;
   boardId: string;
   createdAt: Date;
   updatedAt: Date;
@@ -14,6 +22,7 @@ export class List {
   static create(props: Omit<ListProps, 'id' | 'createdAt' | 'updatedAt'>): List {
     const now = new Date();
     return new List({
+      wipLimitMode: 'SOFT',
       ...props,
       id: crypto.randomUUID(),
       createdAt: now,
@@ -41,6 +50,14 @@ export class List {
     return this.props.color;
   }
 
+  get wipLimit(): number | undefined {
+    return this.props.wipLimit;
+  }
+
+  get wipLimitMode(): WipLimitMode {
+    return this.props.wipLimitMode ?? 'SOFT';
+  }
+
   get boardId(): string {
     return this.props.boardId;
   }
@@ -63,6 +80,20 @@ export class List {
     this.props.updatedAt = new Date();
   }
 
+  updateWipLimit(wipLimit: number | undefined, mode: WipLimitMode = this.wipLimitMode): void {
+    if (wipLimit !== undefined && (!Number.isInteger(wipLimit) || wipLimit < 1)) {
+      throw new Error('WIP limit must be a positive whole number');
+    }
+    this.props.wipLimit = wipLimit;
+    this.props.wipLimitMode = mode;
+    this.props.updatedAt = new Date();
+  }
+
+  // Whether one more card would take a list holding `openCardCount` open cards over its limit
+  wouldExceedWipLimit(openCardCount: number): boolean {
+    return this.props.wipLimit !== undefined && openCardCount >= this.props.wipLimit;
+  }
+
   updatePosition(position: number): void {
     this.props.position = position;
     this.props.updatedAt = new Date();
@@ -0,0 +1,90 @@
+export type NotificationType =
+  | 'CARD_ASSIGNED'
+  | 'CARD_MOVED'
+  | 'CARD_ARCHIVED'
+  | 'BOARD_MEMBER_ADDED'
+  | 'BOARD_ROLE_CHANGED';
+
+export interface NotificationProps {
+  id: string;
+  type: NotificationType;
+  // Recipient
+  userId: string;
+  // Who caused it; absent once that user is deleted
+  actorId?: string;
+  // Reads after the actor's name, e.g. `assigned you to "Fix login"`
+  message: string;
+  boardId?: string;
+  cardId?: string;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+export class Notification {
+  private constructor(private props: NotificationProps) {}
+
+  static create(props: Omit<NotificationProps, 'id' | 'readAt' | 'createdAt'>): Notification {
+    return new Notification({
+      ...props,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+    });
+  }
+
+  static fromPersistence(props: NotificationProps): Notification {
+    return new Notification(props);
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get type(): NotificationType {
+    return this.props.type;
+  }
+
+  get userId(): string {
+    return this.props.userId;
+  }
+
+  get actorId(): string | undefined {
+    return this.props.actorId;
+  }
+
+  get message(): string {
+    return this.props.message;
+  }
+
+  get boardId(): string | undefined {
+    return this.props.boardId;
+  }
+
+  get cardId(): string | undefined {
+    return this.props.cardId;
+  }
+
+  get readAt(): Date | undefined {
+    return this.props.readAt;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get isRead(): boolean {
+    return this.props.readAt !== undefined;
+  }
+
+  isFor(userId: string): boolean {
+    return this.props.userId === userId;
+  }
+
+  markAsRead(): void {
+    if (this.props.readAt) return;
+    this.props.readAt = new Date();
+  }
+
+  toJSON(): NotificationProps {
+    return { ...this.props };
+  }
+}
\ No newline at end of file
@@ -1,3 +1,7 @@
+// Reminders go out a day before a card is due unless the user picks otherwise
+export const DEFAULT_REMINDER_LEAD_MINUTES = 24 * 60;
+export const MAX_REMINDER_LEAD_MINUTES = 7 * 24 * 60;
+
 export interface UserProps {
   id: string;
   email: string;
@@ -6,6 +10,11 @@ export interface UserProps {
   name?: string;
   avatarUrl?: string;  
   isActive: boolean;
+  // How long before a card's due date its assignees are emailed; absent when
+  // the user has turned due-date reminders off
+  reminderLeadMinutes?: number;
+  // Secret in the user's calendar feed URLs; absent until they turn the feed on
+  calendarToken?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -39,6 +48,7 @@ export class User {
       name: props.name,
       avatarUrl: props.avatarUrl,
       isActive: true,
+      reminderLeadMinutes: DEFAULT_REMINDER_LEAD_MINUTES,
       createdAt: now,
       updatedAt: now,
     });
@@ -76,6 +86,14 @@ export class User {
     return this.props.isActive;
   }
 
+  get reminderLeadMinutes(): number | undefined {
+    return this.props.reminderLeadMinutes;
+  }
+
+  get calendarToken(): string | undefined {
+    return this.props.calendarToken;
+  }
+
   get createdAt(): Date {
     return this.props.createdAt;
   }
@@ -90,6 +108,28 @@ export class User {
     this.props.updatedAt = new Date();
   }
 
+  // Pass undefined to turn due-date reminders off
+  updateReminderLeadTime(minutes: number | undefined): void {
+    if (minutes !== undefined && (!Number.isInteger(minutes) || minutes < 0 || minutes > MAX_REMINDER_LEAD_MINUTES)) {
+      throw new Error(`Reminder lead time must be between 0 and ${MAX_REMINDER_LEAD_MINUTES} minutes`);
+    }
+    this.props.reminderLeadMinutes = minutes;
+    this.props.updatedAt = new Date();
+  }
+
+  // Replaces the calendar token, so feed URLs handed out before stop working
+  regenerateCalendarToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    this.props.calendarToken = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    this.props.updatedAt = new Date();
+    return this.props.calendarToken;
+  }
+
+  revokeCalendarToken(): void {
+    this.props.calendarToken = undefined;
+    this.props.updatedAt = new Date();
+  }
+
   deactivate(): void {
     this.props.isActive = false;
     this.props.updatedAt = new Date();
@@ -0,0 +1,108 @@
+import { ActivityType } from './Activity';
+
+export interface WebhookProps {
+  id: string;
+  boardId: string;
+  url: string;
+  // Shared with the receiver to verify the HMAC signature on each delivery
+  secret: string;
+  // Activity actions to deliver; never empty
+  events: ActivityType[];
+  isActive: boolean;
+  // Absent once the creator's account is deleted
+  creatorId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class Webhook {
+  private constructor(private props: WebhookProps) {}
+
+  static create(props: Omit<WebhookProps, 'id' | 'secret' | 'isActive' | 'createdAt' | 'updatedAt'>): Webhook {
+    const now = new Date();
+    return new Webhook({
+      ...props,
+      events: [...new Set(props.events)],
+      id: crypto.randomUUID(),
+      secret: Webhook.generateSecret(),
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  static fromPersistence(props: WebhookProps): Webhook {
+    return new Webhook(props);
+  }
+
+  private static generateSecret(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get boardId(): string {
+    return this.props.boardId;
+  }
+
+  get url(): string {
+    return this.props.url;
+  }
+
+  get secret(): string {
+    return this.props.secret;
+  }
+
+  get events(): ActivityType[] {
+    return [...this.props.events];
+  }
+
+  get isActive(): boolean {
+    return this.props.isActive;
+  }
+
+  get creatorId(): string | undefined {
+    return this.props.creatorId;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this.props.updatedAt;
+  }
+
+  subscribesTo(event: ActivityType): boolean {
+    return this.props.isActive && this.props.events.includes(event);
+  }
+
+  belongsToBoard(boardId: string): boolean {
+    return this.props.boardId === boardId;
+  }
+
+  update(changes: { url?: string; events?: ActivityType[]; isActive?: boolean }): void {
+    if (changes.url !== undefined) {
+      this.props.url = changes.url;
+    }
+    if (changes.events !== undefined) {
+      this.props.events = [...new Set(changes.events)];
+    }
+    if (changes.isActive !== undefined) {
+      this.props.isActive = changes.isActive;
+    }
+    this.props.updatedAt = new Date();
+  }
+
+  rotateSecret(): void {
+    this.props.secret = Webhook.generateSecret();
+    this.props.updatedAt = new Date();
+  }
+
+  toJSON(): WebhookProps {
+    return { ...this.props, events: [...this.props.events] };
+  }
+}
\ No newline at end of file
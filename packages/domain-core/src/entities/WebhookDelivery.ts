@@ -0,0 +1,185 @@
+import { Activity, ActivityProps, ActivityType } from './Activity';
+
+export type WebhookDeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED';
+
+// A delivery is given up after this many attempts, the first included
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 30_000;
+
+/**
+ * Wait before the next attempt once `attempts` have failed:
+ * 30s, 1m, 2m, 4m, 8m.
+ */
+export function webhookRetryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0);
+}
+
+// Body posted to the receiver
+export interface WebhookPayload {
+  event: ActivityType;
+  activity: Omit<ActivityProps, 'createdAt'> & { createdAt: string };
+}
+
+export interface WebhookAttemptResult {
+  // HTTP status from the receiver; absent when no response arrived
+  status?: number;
+  error?: string;
+}
+
+export interface WebhookDeliveryProps {
+  id: string;
+  webhookId: string;
+  activityId?: string;
+  event: ActivityType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  // Set while the delivery is pending
+  nextAttemptAt?: Date;
+  lastAttemptAt?: Date;
+  responseStatus?: number;
+  error?: string;
+  // The delivery this one was manually redelivered from
+  redeliveryOf?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+}
+
+export class WebhookDelivery {
+  private constructor(private props: WebhookDeliveryProps) {}
+
+  static create(props: Pick<WebhookDeliveryProps, 'webhookId' | 'activityId' | 'event' | 'payload' | 'redeliveryOf'>): WebhookDelivery {
+    const now = new Date();
+    return new WebhookDelivery({
+      ...props,
+      id: crypto.randomUUID(),
+      status: 'PENDING',
+      attempts: 0,
+      nextAttemptAt: now,
+      createdAt: now,
+    });
+  }
+
+  static forActivity(webhookId: string, activity: Activity): WebhookDelivery {
+    const activityData = activity.toJSON();
+    return WebhookDelivery.create({
+      webhookId,
+      activityId: activity.id,
+      event: activity.action,
+      payload: {
+        event: activity.action,
+        activity: { ...activityData, createdAt: activityData.createdAt.toISOString() },
+      },
+    });
+  }
+
+  static fromPersistence(props: WebhookDeliveryProps): WebhookDelivery {
+    return new WebhookDelivery(props);
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get webhookId(): string {
+    return this.props.webhookId;
+  }
+
+  get activityId(): string | undefined {
+    return this.props.activityId;
+  }
+
+  get event(): ActivityType {
+    return this.props.event;
+  }
+
+  get payload(): WebhookPayload {
+    return this.props.payload;
+  }
+
+  get status(): WebhookDeliveryStatus {
+    return this.props.status;
+  }
+
+  get attempts(): number {
+    return this.props.attempts;
+  }
+
+  get nextAttemptAt(): Date | undefined {
+    return this.props.nextAttemptAt;
+  }
+
+  get lastAttemptAt(): Date | undefined {
+    return this.props.lastAttemptAt;
+  }
+
+  get responseStatus(): number | undefined {
+    return this.props.responseStatus;
+  }
+
+  get error(): string | undefined {
+    return this.props.error;
+  }
+
+  get redeliveryOf(): string | undefined {
+    return this.props.redeliveryOf;
+  }
+
+  get deliveredAt(): Date | undefined {
+    return this.props.deliveredAt;
+  }
+
+  get createdAt(): Date {
+    return this.props.createdAt;
+  }
+
+  get isPending(): boolean {
+    return this.props.status === 'PENDING';
+  }
+
+  /**
+   * Records one attempt. A 2xx response succeeds; anything else is retried
+   * with exponential backoff until WEBHOOK_MAX_ATTEMPTS is reached.
+   */
+  recordAttempt(result: WebhookAttemptResult, at: Date = new Date()): void {
+    if (!this.isPending) {
+      throw new Error('Webhook delivery is already finished');
+    }
+
+    this.props.attempts += 1;
+    this.props.lastAttemptAt = at;
+    this.props.responseStatus = result.status;
+    this.props.error = result.error;
+
+    const succeeded = result.error === undefined
+      && result.status !== undefined
+      && result.status >= 200
+      && result.status < 300;
+
+    if (succeeded) {
+      this.props.status = 'SUCCEEDED';
+      this.props.deliveredAt = at;
+      this.props.nextAttemptAt = undefined;
+    } else if (this.props.attempts >= WEBHOOK_MAX_ATTEMPTS) {
+      this.props.status = 'FAILED';
+      this.props.nextAttemptAt = undefined;
+    } else {
+      this.props.nextAttemptAt = new Date(at.getTime() + webhookRetryDelay(this.props.attempts));
+    }
+  }
+
+  // Queues a fresh delivery of the same payload, leaving this one in the log
+  redeliver(): WebhookDelivery {
+    return WebhookDelivery.create({
+      webhookId: this.props.webhookId,
+      activityId: this.props.activityId,
+      event: this.props.event,
+      payload: this.props.payload,
+      redeliveryOf: this.props.id,
+    });
+  }
+
+  toJSON(): WebhookDeliveryProps {
+    return { ...this.props };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,367 @@
+import { BoardRole } from '../entities/Board';
+
+/**
+ * A board export is a self-contained JSON snapshot of one board: its lists,
+ * cards, labels, checklists and comments, plus references to the people
+ * they mention. Ids are the exporting server's and only link records within
+ * the document; an import gives everything fresh ids. Dates are ISO 8601
+ * strings.
+ */
+export const BOARD_EXPORT_FORMAT = 'kanban-board-export';
+
+// Bumped whenever the shape changes; older versions must keep importing
+export const BOARD_EXPORT_VERSION = 1;
+
+export interface BoardExportDocument {
+  format: typeof BOARD_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  board: BoardExportBoard;
+  members: BoardExportMember[];
+  labels: BoardExportLabel[];
+  lists: BoardExportList[];
+  cards: BoardExportCard[];
+  cardLabels: { cardId: string; labelId: string }[];
+  checklists: BoardExportChecklist[];
+  checklistItems: BoardExportChecklistItem[];
+  comments: BoardExportComment[];
+}
+
+export interface BoardExportBoard {
+  id: string;
+  title: string;
+  description?: string;
+  backgroundUrl?: string;
+  isPublic: boolean;
+  isArchived: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Matched to local accounts by email when importing
+export interface BoardExportMember {
+  id: string;
+  email: string;
+  username: string;
+  name?: string;
+  // Absent for people who have left the board but still created cards or comments on it
+  role?: BoardRole;
+}
+
+export interface BoardExportLabel {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: string;
+}
+
+export interface BoardExportList {
+  id: string;
+  title: string;
+  position: number;
+  color?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BoardExportCard {
+  id: string;
+  listId: string;
+  title: string;
+  description?: string;
+  position: number;
+  dueDate?: string;
+  startDate?: string;
+  isArchived: boolean;
+  coverUrl?: string;
+  creatorId: string;
+  assigneeIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BoardExportChecklist {
+  id: string;
+  cardId: string;
+  title: string;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BoardExportChecklistItem {
+  id: string;
+  checklistId: string;
+  content: string;
+  isCompleted: boolean;
+  completedAt?: string;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BoardExportComment {
+  id: string;
+  cardId: string;
+  authorId: string;
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const BOARD_ROLES: BoardRole[] = ['OWNER', 'ADMIN', 'MEMBER', 'VIEWER'];
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid board export: ${path} ${problem}`);
+}
+
+function object(value: unknown, path: string): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(path, 'must be an object');
+  }
+  return value as JsonObject;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    fail(path, 'must be a string');
+  }
+  return value;
+}
+
+function optionalString(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null ? undefined : string(value, path);
+}
+
+function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') {
+    fail(path, 'must be true or false');
+  }
+  return value;
+}
+
+function number(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    fail(path, 'must be a number');
+  }
+  return value;
+}
+
+function integer(value: unknown, path: string): number {
+  if (!Number.isInteger(value)) {
+    fail(path, 'must be an integer');
+  }
+  return value as number;
+}
+
+function date(value: unknown, path: string): string {
+  const text = string(value, path);
+  if (Number.isNaN(Date.parse(text))) {
+    fail(path, 'must be an ISO 8601 date');
+  }
+  return text;
+}
+
+function optionalDate(value: unknown, path: string): string | undefined {
+  return value === undefined || value === null ? undefined : date(value, path);
+}
+
+function records<T>(document: JsonObject, key: string, parse: (record: JsonObject, path: string) => T): T[] {
+  const value = document[key];
+  if (!Array.isArray(value)) {
+    fail(key, 'must be an array');
+  }
+  return value.map((item, index) => parse(object(item, `${key}[${index}]`), `${key}[${index}]`));
+}
+
+// Checklists are ordered within their card and items within their checklist
+function uniquePositions<T extends { position: number }>(items: T[], key: string, parent: (item: T) => string, target: string): void {
+  const positions = new Set<string>();
+  items.forEach((item, index) => {
+    const slot = `${parent(item)}:${item.position}`;
+    if (positions.has(slot)) {
+      fail(`${key}[${index}].position`, `repeats position ${item.position} in ${target} "${parent(item)}"`);
+    }
+    positions.add(slot);
+  });
+}
+
+function uniqueIds(items: { id: string }[], key: string): Set<string> {
+  const ids = new Set<string>();
+  items.forEach((item, index) => {
+    if (ids.has(item.id)) {
+      fail(`${key}[${index}].id`, `repeats "${item.id}"`);
+    }
+    ids.add(item.id);
+  });
+  return ids;
+}
+
+function reference(ids: Set<string>, id: string, path: string, target: string): void {
+  if (!ids.has(id)) {
+    fail(path, `refers to a missing ${target} "${id}"`);
+  }
+}
+
+/**
+ * Checks that `input` is a board export this server can import and returns
+ * it with unknown fields dropped. Every id a record refers to must exist in
+ * the document, so an import never has to guess.
+ */
+export function parseBoardExport(input: unknown): BoardExportDocument {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Board export must be a JSON object');
+  }
+
+  const document = input as JsonObject;
+  if (document.format !== BOARD_EXPORT_FORMAT) {
+    throw new Error(`Not a board export: format must be "${BOARD_EXPORT_FORMAT}"`);
+  }
+
+  const version = document.version;
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    fail('version', 'must be a positive integer');
+  }
+  if ((version as number) > BOARD_EXPORT_VERSION) {
+    throw new Error(`Board export version ${version} is newer than this server supports (${BOARD_EXPORT_VERSION})`);
+  }
+
+  const board = object(document.board, 'board');
+  const parsed: BoardExportDocument = {
+    format: BOARD_EXPORT_FORMAT,
+    version: version as number,
+    exportedAt: date(document.exportedAt, 'exportedAt'),
+    board: {
+      id: string(board.id, 'board.id'),
+      title: string(board.title, 'board.title'),
+      description: optionalString(board.description, 'board.description'),
+      backgroundUrl: optionalString(board.backgroundUrl, 'board.backgroundUrl'),
+      isPublic: boolean(board.isPublic, 'board.isPublic'),
+      isArchived: boolean(board.isArchived, 'board.isArchived'),
+      createdAt: date(board.createdAt, 'board.createdAt'),
+      updatedAt: date(board.updatedAt, 'board.updatedAt'),
+    },
+    members: records(document, 'members', (member, path) => {
+      const role = member.role === undefined || member.role === null ? undefined : member.role;
+      if (role !== undefined && !BOARD_ROLES.includes(role as BoardRole)) {
+        fail(`${path}.role`, `must be one of ${BOARD_ROLES.join(', ')}`);
+      }
+      return {
+        id: string(member.id, `${path}.id`),
+        email: string(member.email, `${path}.email`),
+        username: string(member.username, `${path}.username`),
+        name: optionalString(member.name, `${path}.name`),
+        role: role as BoardRole | undefined,
+      };
+    }),
+    labels: records(document, 'labels', (label, path) => ({
+      id: string(label.id, `${path}.id`),
+      name: string(label.name, `${path}.name`),
+      color: string(label.color, `${path}.color`),
+      createdAt: date(label.createdAt, `${path}.createdAt`),
+    })),
+    lists: records(document, 'lists', (list, path) => ({
+      id: string(list.id, `${path}.id`),
+      title: string(list.title, `${path}.title`),
+      position: number(list.position, `${path}.position`),
+      color: optionalString(list.color, `${path}.color`),
+      createdAt: date(list.createdAt, `${path}.createdAt`),
+      updatedAt: date(list.updatedAt, `${path}.updatedAt`),
+    })),
+    cards: records(document, 'cards', (card, path) => {
+      if (!Array.isArray(card.assigneeIds)) {
+        fail(`${path}.assigneeIds`, 'must be an array');
+      }
+      return {
+        id: string(card.id, `${path}.id`),
+        listId: string(card.listId, `${path}.listId`),
+        title: string(card.title, `${path}.title`),
+        description: optionalString(card.description, `${path}.description`),
+        position: number(card.position, `${path}.position`),
+        dueDate: optionalDate(card.dueDate, `${path}.dueDate`),
+        startDate: optionalDate(card.startDate, `${path}.startDate`),
+        isArchived: boolean(card.isArchived, `${path}.isArchived`),
+        coverUrl: optionalString(card.coverUrl, `${path}.coverUrl`),
+        creatorId: string(card.creatorId, `${path}.creatorId`),
+        assigneeIds: card.assigneeIds.map((id, index) => string(id, `${path}.assigneeIds[${index}]`)),
+        createdAt: date(card.createdAt, `${path}.createdAt`),
+        updatedAt: date(card.updatedAt, `${path}.updatedAt`),
+      };
+    }),
+    cardLabels: records(document, 'cardLabels', (link, path) => ({
+      cardId: string(link.cardId, `${path}.cardId`),
+      labelId: string(link.labelId, `${path}.labelId`),
+    })),
+    checklists: records(document, 'checklists', (checklist, path) => ({
+      id: string(checklist.id, `${path}.id`),
+      cardId: string(checklist.cardId, `${path}.cardId`),
+      title: string(checklist.title, `${path}.title`),
+      position: integer(checklist.position, `${path}.position`),
+      createdAt: date(checklist.createdAt, `${path}.createdAt`),
+      updatedAt: date(checklist.updatedAt, `${path}.updatedAt`),
+    })),
+    checklistItems: records(document, 'checklistItems', (item, path) => ({
+      id: string(item.id, `${path}.id`),
+      checklistId: string(item.checklistId, `${path}.checklistId`),
+      content: string(item.content, `${path}.content`),
+      isCompleted: boolean(item.isCompleted, `${path}.isCompleted`),
+      completedAt: optionalDate(item.completedAt, `${path}.completedAt`),
+      position: integer(item.position, `${path}.position`),
+      createdAt: date(item.createdAt, `${path}.createdAt`),
+      updatedAt: date(item.updatedAt, `${path}.updatedAt`),
+    })),
+    comments: records(document, 'comments', (comment, path) => ({
+      id: string(comment.id, `${path}.id`),
+      cardId: string(comment.cardId, `${path}.cardId`),
+      authorId: string(comment.authorId, `${path}.authorId`),
+      content: string(comment.content, `${path}.content`),
+      createdAt: date(comment.createdAt, `${path}.createdAt`),
+      updatedAt: date(comment.updatedAt, `${path}.updatedAt`),
+    })),
+  };
+
+  const memberIds = uniqueIds(parsed.members, 'members');
+  const labelIds = uniqueIds(parsed.labels, 'labels');
+  const listIds = uniqueIds(parsed.lists, 'lists');
+  const cardIds = uniqueIds(parsed.cards, 'cards');
+  const checklistIds = uniqueIds(parsed.checklists, 'checklists');
+  uniqueIds(parsed.checklistItems, 'checklistItems');
+  uniqueIds(parsed.comments, 'comments');
+
+  // Label names are unique within a board
+  const labelNames = new Set<string>();
+  parsed.labels.forEach((label, index) => {
+    if (labelNames.has(label.name)) {
+      fail(`labels[${index}].name`, `repeats "${label.name}"`);
+    }
+    labelNames.add(label.name);
+  });
+
+  parsed.cards.forEach((card, index) => {
+    reference(listIds, card.listId, `cards[${index}].listId`, 'list');
+    reference(memberIds, card.creatorId, `cards[${index}].creatorId`, 'member');
+    card.assigneeIds.forEach((id, assigneeIndex) => {
+      reference(memberIds, id, `cards[${index}].assigneeIds[${assigneeIndex}]`, 'member');
+    });
+  });
+  parsed.cardLabels.forEach((link, index) => {
+    reference(cardIds, link.cardId, `cardLabels[${index}].cardId`, 'card');
+    reference(labelIds, link.labelId, `cardLabels[${index}].labelId`, 'label');
+  });
+  parsed.checklists.forEach((checklist, index) => {
+    reference(cardIds, checklist.cardId, `checklists[${index}].cardId`, 'card');
+  });
+  parsed.checklistItems.forEach((item, index) => {
+    reference(checklistIds, item.checklistId, `checklistItems[${index}].checklistId`, 'checklist');
+  });
+  uniquePositions(parsed.checklists, 'checklists', checklist => checklist.cardId, 'card');
+  uniquePositions(parsed.checklistItems, 'checklistItems', item => item.checklistId, 'checklist');
+  parsed.comments.forEach((comment, index) => {
+    reference(cardIds, comment.cardId, `comments[${index}].cardId`, 'card');
+    reference(memberIds, comment.authorId, `comments[${index}].authorId`, 'member');
+  });
+
+  return parsed;
+}
\ No newline at end of file
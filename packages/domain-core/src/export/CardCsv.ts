@@ -0,0 +1,127 @@
+/**
+ * Cards as CSV, for people who plan in spreadsheets. One row per card; the
+ * first row names the columns. Labels and assignees share a cell, separated
+ * by semicolons, and dates are ISO 8601. Files follow RFC 4180: fields with
+ * commas, quotes or line breaks are quoted and quotes inside are doubled.
+ */
+export const CARD_CSV_COLUMNS = ['title', 'list', 'labels', 'assignees', 'startDate', 'dueDate', 'archived', 'createdAt'] as const;
+
+export type CardCsvColumn = typeof CARD_CSV_COLUMNS[number];
+
+export const CARD_CSV_HEADERS: Record<CardCsvColumn, string> = {
+  title: 'Title',
+  list: 'List',
+  labels: 'Labels',
+  assignees: 'Assignees',
+  startDate: 'Start date',
+  dueDate: 'Due date',
+  archived: 'Archived',
+  createdAt: 'Created',
+};
+
+const LIST_SEPARATOR = ';';
+
+// Spreadsheets run cells starting with these as formulas, so exported cells
+// that do are prefixed with an apostrophe, which parsing takes off again
+const FORMULA_PREFIX = /^'?[=+\-@\t\r]/;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Finds the column a header names, by key (`dueDate`) or by its header
+ * (`Due date`), ignoring case, spaces and punctuation.
+ */
+export function cardCsvColumn(header: string): CardCsvColumn | undefined {
+  const wanted = normalizeHeader(header);
+  return CARD_CSV_COLUMNS.find(column =>
+    normalizeHeader(column) === wanted || normalizeHeader(CARD_CSV_HEADERS[column]) === wanted
+  );
+}
+
+function formatField(value: string): string {
+  const field = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Writes rows as CSV with CRLF line endings.
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows.map(row => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
+
+function unescapeField(field: string): string {
+  return field.startsWith("'") && FORMULA_PREFIX.test(field) && field.length > 1 ? field.slice(1) : field;
+}
+
+/**
+ * Reads CSV text into rows of fields. A byte order mark and blank lines are
+ * skipped; rows may have different lengths.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(unescapeField(field));
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  while (index < text.length) {
+    const char = text[index]!;
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(unescapeField(field));
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+    index++;
+  }
+
+  if (quoted) {
+    throw new Error('Invalid CSV: a quoted field is never closed');
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Joins the names that share a labels or assignees cell.
+ */
+export function joinCsvList(values: string[]): string {
+  return values.join(`${LIST_SEPARATOR} `);
+}
+
+/**
+ * Splits a labels or assignees cell into its names, dropping empty ones.
+ */
+export function splitCsvList(value: string): string[] {
+  return value.split(LIST_SEPARATOR).map(item => item.trim()).filter(item => item !== '');
+}
\ No newline at end of file
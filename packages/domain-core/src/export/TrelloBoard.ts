@@ -0,0 +1,260 @@
+import { BoardRole } from '../entities/Board';
+
+/**
+ * The parts of a Trello board export ("Print, export and share > Export as
+ * JSON") this app has a place for. Lists, cards, checklists and items come
+ * sorted by Trello's `pos`; comments are the export's `commentCard` actions,
+ * oldest first. Records pointing at something the export leaves out, such
+ * as comments on deleted cards, are dropped.
+ */
+export interface TrelloBoard {
+  name: string;
+  description?: string;
+  labels: TrelloLabel[];
+  lists: TrelloList[];
+  cards: TrelloCard[];
+  checklists: TrelloChecklist[];
+  comments: TrelloComment[];
+  members: TrelloMember[];
+}
+
+export interface TrelloLabel {
+  id: string;
+  name: string;
+  // Trello's color name, e.g. `green` or `sky_dark`; absent for colorless labels
+  color?: string;
+}
+
+export interface TrelloList {
+  id: string;
+  name: string;
+  closed: boolean;
+}
+
+export interface TrelloCard {
+  id: string;
+  listId: string;
+  name: string;
+  description?: string;
+  closed: boolean;
+  due?: Date;
+  start?: Date;
+  labelIds: string[];
+  memberIds: string[];
+}
+
+export interface TrelloChecklist {
+  id: string;
+  cardId: string;
+  name: string;
+  items: { name: string; complete: boolean }[];
+}
+
+export interface TrelloComment {
+  cardId: string;
+  memberId?: string;
+  text: string;
+  date: Date;
+}
+
+export interface TrelloMember {
+  id: string;
+  username: string;
+  fullName?: string;
+  // From the board's memberships; absent for people who have left it
+  role?: BoardRole;
+}
+
+type JsonObject = Record<string, unknown>;
+
+// Trello's label palette; the `_light` and `_dark` shades map to the base color
+const TRELLO_LABEL_COLORS: Record<string, string> = {
+  green: '#61BD4F',
+  yellow: '#F2D600',
+  orange: '#FF9F1A',
+  red: '#EB5A46',
+  purple: '#C377E0',
+  blue: '#0079BF',
+  sky: '#00C2E0',
+  lime: '#51E898',
+  pink: '#FF78CB',
+  black: '#344563',
+};
+const COLORLESS_LABEL = '#B3BAC5';
+
+const TRELLO_ROLES: Record<string, BoardRole> = {
+  admin: 'ADMIN',
+  normal: 'MEMBER',
+  observer: 'VIEWER',
+};
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid Trello export: ${path} ${problem}`);
+}
+
+function object(value: unknown, path: string): JsonObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    fail(path, 'must be an object');
+  }
+  return value as JsonObject;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== 'string') {
+    fail(path, 'must be a string');
+  }
+  return value;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function optionalDate(value: unknown): Date | undefined {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time);
+}
+
+function position(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+// Sections other than lists and cards may be missing from older exports
+function records(board: JsonObject, key: string, required = false): { record: JsonObject; path: string }[] {
+  const value = board[key];
+  if (value === undefined && !required) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    fail(key, 'must be an array');
+  }
+  return value.map((item, index) => ({ record: object(item, `${key}[${index}]`), path: `${key}[${index}]` }));
+}
+
+function byPosition<T>(items: { item: T; pos: number }[]): T[] {
+  return [...items].sort((a, b) => a.pos - b.pos).map(({ item }) => item);
+}
+
+/**
+ * Maps a Trello label color to a hex color; colorless and unknown colors
+ * become grey.
+ */
+export function trelloLabelColor(color?: string): string {
+  const base = color?.replace(/_(light|dark)$/, '');
+  return (base && TRELLO_LABEL_COLORS[base]) || COLORLESS_LABEL;
+}
+
+/**
+ * Checks that `input` looks like a Trello board export and reads it into a
+ * `TrelloBoard`.
+ */
+export function parseTrelloBoard(input: unknown): TrelloBoard {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('Trello export must be a JSON object');
+  }
+
+  const board = input as JsonObject;
+  const name = string(board.name, 'name');
+
+  const lists = byPosition(records(board, 'lists', true).map(({ record, path }) => ({
+    item: {
+      id: string(record.id, `${path}.id`),
+      name: string(record.name, `${path}.name`),
+      closed: record.closed === true,
+    },
+    pos: position(record.pos),
+  })));
+  const listIds = new Set(lists.map(list => list.id));
+
+  const labels = records(board, 'labels').map(({ record, path }) => ({
+    id: string(record.id, `${path}.id`),
+    name: optionalString(record.name) ?? '',
+    color: optionalString(record.color),
+  }));
+  const labelIds = new Set(labels.map(label => label.id));
+
+  const cards = byPosition(records(board, 'cards', true).map(({ record, path }) => {
+    const listId = string(record.idList, `${path}.idList`);
+    if (!listIds.has(listId)) {
+      fail(`${path}.idList`, `refers to a missing list "${listId}"`);
+    }
+    return {
+      item: {
+        id: string(record.id, `${path}.id`),
+        listId,
+        name: string(record.name, `${path}.name`),
+        description: optionalString(record.desc),
+        closed: record.closed === true,
+        due: optionalDate(record.due),
+        start: optionalDate(record.start),
+        labelIds: stringArray(record.idLabels).filter(id => labelIds.has(id)),
+        memberIds: stringArray(record.idMembers),
+      },
+      pos: position(record.pos),
+    };
+  }));
+  const cardIds = new Set(cards.map(card => card.id));
+
+  const checklists = byPosition(records(board, 'checklists').map(({ record, path }) => ({
+    item: {
+      id: string(record.id, `${path}.id`),
+      cardId: string(record.idCard, `${path}.idCard`),
+      name: string(record.name, `${path}.name`),
+      items: byPosition(records(record, 'checkItems').map(({ record: checkItem, path: itemPath }) => ({
+        item: {
+          name: string(checkItem.name, `${path}.${itemPath}.name`),
+          complete: checkItem.state === 'complete',
+        },
+        pos: position(checkItem.pos),
+      }))),
+    },
+    pos: position(record.pos),
+  }))).filter(checklist => cardIds.has(checklist.cardId));
+
+  // Trello lists actions newest first; comments read better the other way round
+  const comments: TrelloComment[] = records(board, 'actions')
+    .filter(({ record }) => record.type === 'commentCard')
+    .flatMap(({ record }) => {
+      const data = typeof record.data === 'object' && record.data !== null ? record.data as JsonObject : {};
+      const card = typeof data.card === 'object' && data.card !== null ? data.card as JsonObject : {};
+      const date = optionalDate(record.date);
+      if (typeof data.text !== 'string' || typeof card.id !== 'string' || !cardIds.has(card.id) || !date) {
+        return [];
+      }
+      return [{ cardId: card.id, memberId: optionalString(record.idMemberCreator), text: data.text, date }];
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const roles = new Map<string, BoardRole>();
+  records(board, 'memberships').forEach(({ record }) => {
+    const role = typeof record.memberType === 'string' ? TRELLO_ROLES[record.memberType] : undefined;
+    if (typeof record.idMember === 'string' && role && record.deactivated !== true) {
+      roles.set(record.idMember, role);
+    }
+  });
+
+  const members = records(board, 'members').map(({ record, path }) => {
+    const id = string(record.id, `${path}.id`);
+    return {
+      id,
+      username: string(record.username, `${path}.username`),
+      fullName: optionalString(record.fullName),
+      role: roles.get(id),
+    };
+  });
+
+  return {
+    name,
+    description: optionalString(board.desc),
+    labels,
+    lists,
+    cards,
+    checklists,
+    comments,
+    members,
+  };
+}
\ No newline at end of file
@@ -1,18 +1,63 @@
 // Entities
 export * from './entities/Activity';
+export * from './entities/Attachment';
 export * from './entities/Board';
+export * from './entities/BoardTemplate';
 export * from './entities/Card';
+export * from './entities/CardRecurrence';
+export * from './entities/Checklist';
+export * from './entities/ChecklistItem';
+export * from './entities/Comment';
+export * from './entities/DueDateReminder';
 export * from './entities/Label';
 export * from './entities/List';
+export * from './entities/Notification';
 export * from './entities/User';
+export * from './entities/Webhook';
+export * from './entities/WebhookDelivery';
 
 // Repositories
 export * from './types/repositories/ActivityRepository';
+export * from './types/repositories/AttachmentRepository';
 export * from './types/repositories/BoardRepository';
+export * from './types/repositories/BoardTemplateRepository';
 export * from './types/repositories/CardRepository';
+export * from './types/repositories/CardRecurrenceRepository';
+export * from './types/repositories/ChecklistRepository';
+export * from './types/repositories/ChecklistItemRepository';
+export * from './types/repositories/CommentRepository';
+export * from './types/repositories/DueDateReminderRepository';
 export * from './types/repositories/LabelRepository';
 export * from './types/repositories/ListRepository';
+export * from './types/repositories/NotificationRepository';
+export * from './types/repositories/SearchRepository';
 export * from './types/repositories/UserRepository';
+export * from './types/repositories/WatchRepository';
+export * from './types/repositories/WebhookRepository';
+export * from './types/repositories/WebhookDeliveryRepository';
+
+// Services
+export * from './types/services/FileStorage';
+export * from './types/services/BoardEventPublisher';
+export * from './types/services/WebhookSender';
+export * from './types/services/Mailer';
+
+// Events
+export * from './types/events/BoardEvent';
+
+// Ranking
+export * from './ranking/Rank';
+
+// Recurrence
+export * from './recurrence/Recurrence';
+
+// Calendar
+export * from './calendar/ICalendar';
+
+// Export
+export * from './export/BoardExport';
+export * from './export/TrelloBoard';
+export * from './export/CardCsv';
 
 // Types
 export type { BoardRole, BoardMember, CreateBoardMemberData, UpdateBoardMemberData } from './types/BoardMember';
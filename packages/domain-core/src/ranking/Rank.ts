@@ -0,0 +1,45 @@
+/**
+ * Fractional ranks order lists within a board and cards within a list.
+ * Placing an item only rewrites its own rank, halfway between its new
+ * neighbours, so a move is a single row write. Each insert into the same
+ * gap halves it; once neighbours are too close to split, the container is
+ * spread out again with `spreadRanks`.
+ */
+
+// Distance between neighbours after spreading, and after the last item on append
+export const RANK_STEP = 1024;
+
+// Below this, halving a gap any further starts to lose double precision
+export const MIN_RANK_GAP = 1e-6;
+
+export function rankAfter(last?: number | null): number {
+  return last == null ? RANK_STEP : last + RANK_STEP;
+}
+
+/**
+ * The rank halfway between two neighbours. A missing `before` means the
+ * item goes first (ranks stay positive); a missing `after` appends.
+ */
+export function rankBetween(before?: number | null, after?: number | null): number {
+  if (after == null) {
+    return rankAfter(before);
+  }
+
+  const lower = before ?? 0;
+  return lower + (after - lower) / 2;
+}
+
+/**
+ * Whether `rank` sits too close to a neighbour (or shares its rank after
+ * concurrent moves) for the next insert to find room.
+ */
+export function isRankCrowded(rank: number, before?: number | null, after?: number | null): boolean {
+  if (rank - (before ?? 0) < MIN_RANK_GAP) {
+    return true;
+  }
+  return after != null && after - rank < MIN_RANK_GAP;
+}
+
+export function spreadRanks(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => (index + 1) * RANK_STEP);
+}
\ No newline at end of file
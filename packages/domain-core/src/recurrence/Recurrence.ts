@@ -0,0 +1,192 @@
+/**
+ * Recurrence rules say when a recurring card is copied. Every time is in
+ * UTC; DAILY, WEEKLY and MONTHLY fire once on each matching day at
+ * `hour:minute`, CRON takes a five-field expression
+ * (minute hour day-of-month month day-of-week) with `*`, lists, ranges and
+ * `/` steps.
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'CRON';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'CRON'];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // Time of day for DAILY, WEEKLY and MONTHLY
+  hour?: number;
+  minute?: number;
+  // 0 (Sunday) to 6 for WEEKLY
+  weekdays?: number[];
+  // 1-31 for MONTHLY; shorter months fire on their last day
+  dayOfMonth?: number;
+  // Expression for CRON
+  cron?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Far enough to reach the next 29 February from anywhere in a leap cycle
+const MAX_DAYS_AHEAD = 8 * 366;
+
+interface Schedule {
+  hours: number[];
+  minutes: number[];
+  matchesDay(day: Date): boolean;
+}
+
+interface CronField {
+  values: number[];
+  // False for `*`, which matters for the day-of-month / day-of-week rule
+  restricted: boolean;
+}
+
+function isIntegerBetween(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function parseCronField(field: string, min: number, max: number, name: string): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron ${name} field "${field}"`);
+    }
+
+    const [, range, from, to, stepText] = match;
+    const start = range === '*' ? min : Number(from);
+    // `5/15` runs from 5 to the end of the range, like `5-59/15`
+    const end = range === '*' || (to === undefined && stepText !== undefined) ? max : Number(to ?? from);
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron ${name} field "${field}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values: [...values].sort((a, b) => a - b), restricted: field !== '*' };
+}
+
+function parseCron(expression: string): Schedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have five fields: minute hour day-of-month month day-of-week');
+  }
+
+  const minutes = parseCronField(fields[0]!, 0, 59, 'minute');
+  const hours = parseCronField(fields[1]!, 0, 23, 'hour');
+  const daysOfMonth = parseCronField(fields[2]!, 1, 31, 'day-of-month');
+  const months = parseCronField(fields[3]!, 1, 12, 'month');
+  // 7 is accepted as another Sunday
+  const weekdayField = parseCronField(fields[4]!, 0, 7, 'day-of-week');
+  const weekdays = new Set(weekdayField.values.map(day => day % 7));
+
+  return {
+    hours: hours.values,
+    minutes: minutes.values,
+    matchesDay(day) {
+      if (!months.values.includes(day.getUTCMonth() + 1)) {
+        return false;
+      }
+      const domMatches = daysOfMonth.values.includes(day.getUTCDate());
+      const dowMatches = weekdays.has(day.getUTCDay());
+      // As in cron, restricting both day fields fires on either
+      if (daysOfMonth.restricted && weekdayField.restricted) {
+        return domMatches || dowMatches;
+      }
+      return domMatches && dowMatches;
+    },
+  };
+}
+
+function daysInMonth(day: Date): number {
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+function toSchedule(rule: RecurrenceRule): Schedule {
+  if (rule.frequency === 'CRON') {
+    return parseCron(rule.cron ?? '');
+  }
+
+  const time = { hours: [rule.hour ?? 0], minutes: [rule.minute ?? 0] };
+  switch (rule.frequency) {
+    case 'DAILY':
+      return { ...time, matchesDay: () => true };
+    case 'WEEKLY':
+      return { ...time, matchesDay: day => (rule.weekdays ?? []).includes(day.getUTCDay()) };
+    case 'MONTHLY':
+      return {
+        ...time,
+        matchesDay: day => day.getUTCDate() === Math.min(rule.dayOfMonth ?? 1, daysInMonth(day)),
+      };
+  }
+}
+
+/**
+ * Checks a rule and returns it with only the fields its frequency uses.
+ * Throws with a message fit for the user when it is incomplete or invalid.
+ */
+export function normalizeRecurrenceRule(rule: RecurrenceRule): RecurrenceRule {
+  if (!RECURRENCE_FREQUENCIES.includes(rule.frequency)) {
+    throw new Error('Invalid recurrence frequency');
+  }
+
+  if (rule.frequency === 'CRON') {
+    const cron = rule.cron?.trim().replace(/\s+/g, ' ') ?? '';
+    parseCron(cron);
+    return { frequency: 'CRON', cron };
+  }
+
+  if (!isIntegerBetween(rule.hour, 0, 23) || !isIntegerBetween(rule.minute, 0, 59)) {
+    throw new Error('Recurrence time must be a valid hour and minute');
+  }
+  const time = { hour: rule.hour, minute: rule.minute };
+
+  if (rule.frequency === 'WEEKLY') {
+    const weekdays = [...new Set(rule.weekdays ?? [])].sort((a, b) => a - b);
+    if (weekdays.length === 0 || !weekdays.every(day => isIntegerBetween(day, 0, 6))) {
+      throw new Error('Weekly recurrence needs at least one weekday from 0 (Sunday) to 6');
+    }
+    return { frequency: 'WEEKLY', ...time, weekdays };
+  }
+
+  if (rule.frequency === 'MONTHLY') {
+    if (!isIntegerBetween(rule.dayOfMonth, 1, 31)) {
+      throw new Error('Monthly recurrence needs a day of the month from 1 to 31');
+    }
+    return { frequency: 'MONTHLY', ...time, dayOfMonth: rule.dayOfMonth };
+  }
+
+  return { frequency: 'DAILY', ...time };
+}
+
+/**
+ * The first time strictly after `after` at which the rule fires, to the
+ * minute.
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date): Date {
+  const schedule = toSchedule(rule);
+  const earliest = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const firstDay = Math.floor(earliest / DAY_MS) * DAY_MS;
+
+  for (let dayIndex = 0; dayIndex <= MAX_DAYS_AHEAD; dayIndex++) {
+    const day = new Date(firstDay + dayIndex * DAY_MS);
+    if (!schedule.matchesDay(day)) {
+      continue;
+    }
+
+    for (const hour of schedule.hours) {
+      for (const minute of schedule.minutes) {
+        const candidate = day.getTime() + hour * 60 * MINUTE_MS + minute * MINUTE_MS;
+        if (candidate >= earliest) {
+          return new Date(candidate);
+        }
+      }
+    }
+  }
+
+  throw new Error('Recurrence rule never fires');
+}
\ No newline at end of file
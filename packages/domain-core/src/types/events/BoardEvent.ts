@@ -0,0 +1,41 @@
+import { CardProps } from '../../entities/Card';
+import { ListProps } from '../../entities/List';
+
+export interface BoardEventPayloads {
+  'card.created': { card: CardProps };
+  'card.updated': { card: CardProps };
+  'card.moved': { cardId: string; fromListId: string; toListId: string; position: number };
+  'card.archived': { cardId: string; listId: string };
+  'card.unarchived': { card: CardProps };
+  'card.deleted': { cardId: string; listId: string };
+  'cards.reordered': { listId: string; cards: { id: string; position: number }[] };
+  'list.created': { list: ListProps };
+  'list.updated': { list: ListProps };
+  'list.deleted': { listId: string };
+  'lists.reordered': { lists: { id: string; position: number }[] };
+}
+
+export type BoardEventType = keyof BoardEventPayloads;
+
+/**
+ * Something that changed on a board, published by use cases after a
+ * successful mutation so other viewers can apply it live.
+ */
+export type BoardEvent<T extends BoardEventType = BoardEventType> = {
+  [K in T]: {
+    type: K;
+    boardId: string;
+    actorId: string;
+    occurredAt: Date;
+    payload: BoardEventPayloads[K];
+  };
+}[T];
+
+export function createBoardEvent<T extends BoardEventType>(
+  type: T,
+  boardId: string,
+  actorId: string,
+  payload: BoardEventPayloads[T]
+): BoardEvent<T> {
+  return { type, boardId, actorId, occurredAt: new Date(), payload } as BoardEvent<T>;
+}
\ No newline at end of file
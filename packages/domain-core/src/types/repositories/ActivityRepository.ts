@@ -1,7 +1,7 @@
-import { Activity, ActivityType, EntityType } from '../../entities/Activity';
+import { Activity, ActivityData, ActivityType, EntityType } from '../../entities/Activity';
 
-export interface CreateActivityData {
-  type: ActivityType;
+export interface CreateActivityData<T extends ActivityType = ActivityType> {
+  type: T;
   userId: string;
   boardId: string;
   entityType: EntityType;
@@ -9,7 +9,7 @@ export interface CreateActivityData {
   entityTitle: string;
   description?: string;
   cardId?: string;
-  data?: Record<string, any>;
+  data?: ActivityData<T>;
 }
 
 export interface ActivityRepository {
@@ -17,6 +17,7 @@ export interface ActivityRepository {
   findByBoard(boardId: string, options?: {
     limit?: number;
     offset?: number;
+    cursor?: string;
     userId?: string;
     entityType?: EntityType;
     action?: ActivityType;
@@ -26,6 +27,7 @@ export interface ActivityRepository {
   findByCard(cardId: string, options?: {
     limit?: number;
     offset?: number;
+    cursor?: string;
     userId?: string;
     action?: ActivityType;
   }): Promise<Activity[]>;
@@ -33,10 +35,20 @@ export interface ActivityRepository {
     boardId?: string;
     limit?: number;
     offset?: number;
+    cursor?: string;
     fromDate?: Date;
     toDate?: Date;
   }): Promise<Activity[]>;
-  create(data: CreateActivityData): Promise<Activity>;
+  // Other people's activity on the cards, lists and boards the user watches,
+  // limited to boards they can still view
+  findWatchedBy(userId: string, options?: {
+    limit?: number;
+    cursor?: string;
+  }): Promise<Activity[]>;
+  countWatchedBy(userId: string, options?: {
+    since?: Date;
+  }): Promise<number>;
+  create<T extends ActivityType>(data: CreateActivityData<T>): Promise<Activity>;
   save(activity: Activity): Promise<void>;
   delete(id: string): Promise<void>;
   deleteByEntity(entityType: EntityType, entityId: string): Promise<void>;
@@ -0,0 +1,8 @@
+import { Attachment } from '../../entities/Attachment';
+
+export interface AttachmentRepository {
+  findById(id: string): Promise<Attachment | null>;
+  findByCard(cardId: string): Promise<Attachment[]>;
+  save(attachment: Attachment): Promise<void>;
+  delete(id: string): Promise<void>;
+}
\ No newline at end of file
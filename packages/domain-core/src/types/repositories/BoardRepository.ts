@@ -1,6 +1,26 @@
 import { Board, BoardRole } from '../../entities/Board';
+import { Card } from '../../entities/Card';
+import { Checklist } from '../../entities/Checklist';
+import { ChecklistItem } from '../../entities/ChecklistItem';
+import { Comment } from '../../entities/Comment';
+import { Label } from '../../entities/Label';
+import { List } from '../../entities/List';
 import { BoardMember } from '../BoardMember';
 
+// A new board together with everything created inside it
+export interface BoardContents {
+  board: Board;
+  lists: List[];
+  labels: Label[];
+  cards: Card[];
+  cardLabels: { cardId: string; labelId: string }[];
+  checklists: Checklist[];
+  checklistItems: ChecklistItem[];
+  comments: Comment[];
+  // Memberships besides the owner's, which is always created
+  members: { userId: string; role: BoardRole }[];
+}
+
 export interface BoardRepository {
   findById(id: string): Promise<Board | null>;
   findByOwner(ownerId: string, options?: {
@@ -18,6 +38,8 @@ export interface BoardRepository {
     offset?: number;
   }): Promise<Board[]>;
   save(board: Board): Promise<void>;
+  // Creates the board, its owner membership and all contents in one transaction
+  createWithContents(contents: BoardContents): Promise<void>;
   delete(id: string): Promise<void>;
   addMember(boardId: string, userId: string, role: BoardRole): Promise<void>;
   removeMember(boardId: string, userId: string): Promise<void>;
@@ -25,4 +47,6 @@ export interface BoardRepository {
   getMemberRole(boardId: string, userId: string): Promise<BoardRole | null>;
   getMembers(boardId: string): Promise<BoardMember[]>;
   isMember(boardId: string, userId: string): Promise<boolean>;
+  // Everyone who shares a board with the user, owners included, the user left out
+  findCoMemberIds(userId: string): Promise<string[]>;
 }
\ No newline at end of file
@@ -0,0 +1,8 @@
+import { BoardTemplate } from '../../entities/BoardTemplate';
+
+export interface BoardTemplateRepository {
+  findById(id: string): Promise<BoardTemplate | null>;
+  findByOwner(ownerId: string): Promise<BoardTemplate[]>;
+  save(template: BoardTemplate): Promise<void>;
+  delete(id: string): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { CardRecurrence } from '../../entities/CardRecurrence';
+
+export interface CardRecurrenceRepository {
+  findByCard(cardId: string): Promise<CardRecurrence | null>;
+  // Recurrences whose next run is at or before `now`, earliest first
+  findDue(now: Date, limit: number): Promise<CardRecurrence[]>;
+  save(recurrence: CardRecurrence): Promise<void>;
+  /**
+   * Saves an advanced recurrence only if its next run is still
+   * `previousRunAt`. Returns false when another run got there first, so each
+   * run copies the card once.
+   */
+  claimRun(recurrence: CardRecurrence, previousRunAt: Date): Promise<boolean>;
+  delete(id: string): Promise<void>;
+}
\ No newline at end of file
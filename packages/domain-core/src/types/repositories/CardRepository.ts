@@ -1,4 +1,14 @@
 import { Card } from '../../entities/Card';
+import { Checklist } from '../../entities/Checklist';
+import { ChecklistItem } from '../../entities/ChecklistItem';
+
+// New cards together with the labels and checklists created on them
+export interface CardContents {
+  cards: Card[];
+  cardLabels: { cardId: string; labelId: string }[];
+  checklists: Checklist[];
+  checklistItems: ChecklistItem[];
+}
 
 export interface CardRepository {
   findById(id: string): Promise<Card | null>;
@@ -14,23 +24,42 @@ export interface CardRepository {
       from?: Date;
       to?: Date;
     };
+    // Only cards with a start or due date
+    scheduled?: boolean;
     limit?: number;
     offset?: number;
   }): Promise<Card[]>;
+  // Cards the user is one of the assignees of
   findByAssignee(assigneeId: string, options?: {
     includeArchived?: boolean;
     boardId?: string;
+    // Also cards the user watches directly
+    includeWatched?: boolean;
+    // Only cards with a start or due date
+    scheduled?: boolean;
     limit?: number;
     offset?: number;
   }): Promise<Card[]>;
   findOverdueCards(options?: {
     boardId?: string;
     assigneeId?: string;
+    // Skips cards that fell overdue before this time
+    dueAfter?: Date;
   }): Promise<Card[]>;
+  // Open cards due at or after `from` and before `to`, soonest first
+  findCardsDueBetween(from: Date, to: Date): Promise<Card[]>;
   save(card: Card): Promise<void>;
+  // Creates the cards, their assignees and all contents in one transaction
+  createWithContents(contents: CardContents): Promise<void>;
   delete(id: string): Promise<void>;
+  // Writes only the moved card; siblings keep their ranks
   moveCard(cardId: string, targetListId: string, position: number): Promise<void>;
   reorderCards(listId: string, cardPositions: { id: string; position: number }[]): Promise<void>;
+  findNeighbourPositions(listId: string, position: number, excludeCardId: string): Promise<{ before?: number; after?: number }>;
+  // Respreads every card in the list (archived ones included) and returns the new ranks
+  rebalancePositions(listId: string): Promise<{ id: string; position: number }[]>;
   getNextPosition(listId: string): Promise<number>;
+  // Cards in the list that are not archived, as counted against its WIP limit
+  countOpenInList(listId: string): Promise<number>;
   existsInList(cardId: string, listId: string): Promise<boolean>;
 }
\ No newline at end of file
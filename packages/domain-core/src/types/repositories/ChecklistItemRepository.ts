@@ -0,0 +1,12 @@
+import { ChecklistItem } from '../../entities/ChecklistItem';
+
+export interface ChecklistItemRepository {
+  findById(id: string): Promise<ChecklistItem | null>;
+  findByChecklist(checklistId: string): Promise<ChecklistItem[]>;
+  findByChecklists(checklistIds: string[]): Promise<ChecklistItem[]>;
+  save(item: ChecklistItem): Promise<void>;
+  delete(id: string): Promise<void>;
+  reorderItems(checklistId: string, itemPositions: { id: string; position: number }[]): Promise<void>;
+  getNextPosition(checklistId: string): Promise<number>;
+  existsInChecklist(itemId: string, checklistId: string): Promise<boolean>;
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { Checklist } from '../../entities/Checklist';
+
+export interface ChecklistProgress {
+  completed: number;
+  total: number;
+}
+
+export interface ChecklistRepository {
+  findById(id: string): Promise<Checklist | null>;
+  findByCard(cardId: string): Promise<Checklist[]>;
+  save(checklist: Checklist): Promise<void>;
+  delete(id: string): Promise<void>;
+  reorderChecklists(cardId: string, checklistPositions: { id: string; position: number }[]): Promise<void>;
+  getNextPosition(cardId: string): Promise<number>;
+  existsInCard(checklistId: string, cardId: string): Promise<boolean>;
+  getProgressByCards(cardIds: string[]): Promise<Map<string, ChecklistProgress>>;
+}
\ No newline at end of file
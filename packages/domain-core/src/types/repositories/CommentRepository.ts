@@ -0,0 +1,13 @@
+import { Comment } from '../../entities/Comment';
+
+export interface CommentRepository {
+  findById(id: string): Promise<Comment | null>;
+  findByCard(cardId: string, options?: {
+    limit?: number;
+    offset?: number;
+    order?: 'asc' | 'desc';
+  }): Promise<Comment[]>;
+  countByCard(cardId: string): Promise<number>;
+  save(comment: Comment): Promise<void>;
+  delete(id: string): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { DueDateReminder } from '../../entities/DueDateReminder';
+
+export interface DueDateReminderRepository {
+  /**
+   * Records the reminder before it is sent. Returns false when the same
+   * reminder (card, recipient, kind and due date) was already recorded, so
+   * concurrent or repeated runs never send it twice.
+   */
+  claim(reminder: DueDateReminder): Promise<boolean>;
+  // Drops a claim whose email could not be sent, so the next run retries it
+  release(id: string): Promise<void>;
+}
\ No newline at end of file
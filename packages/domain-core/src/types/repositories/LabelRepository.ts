@@ -8,6 +8,7 @@ export interface LabelRepository {
   addToCard(cardId: string, labelId: string): Promise<void>;
   removeFromCard(cardId: string, labelId: string): Promise<void>;
   getCardLabels(cardId: string): Promise<Label[]>;
+  getLabelsByCards(cardIds: string[]): Promise<Map<string, Label[]>>;
   isAttachedToCard(cardId: string, labelId: string): Promise<boolean>;
   existsInBoard(labelId: string, boardId: string): Promise<boolean>;
 }
\ No newline at end of file
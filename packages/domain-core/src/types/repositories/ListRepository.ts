@@ -9,6 +9,8 @@ export interface ListRepository {
   save(list: List): Promise<void>;
   delete(id: string): Promise<void>;
   reorderLists(boardId: string, listPositions: { id: string; position: number }[]): Promise<void>;
+  // Respreads every list on the board and returns the new ranks
+  rebalancePositions(boardId: string): Promise<{ id: string; position: number }[]>;
   getNextPosition(boardId: string): Promise<number>;
   existsInBoard(listId: string, boardId: string): Promise<boolean>;
 }
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { Notification } from '../../entities/Notification';
+
+export interface NotificationRepository {
+  findById(id: string): Promise<Notification | null>;
+  // Newest first
+  findByUser(userId: string, options?: {
+    unreadOnly?: boolean;
+    limit?: number;
+    cursor?: string;
+  }): Promise<Notification[]>;
+  countUnread(userId: string): Promise<number>;
+  save(notification: Notification): Promise<void>;
+  createMany(notifications: Notification[]): Promise<void>;
+  // Returns how many notifications changed
+  markAllAsRead(userId: string): Promise<number>;
+}
\ No newline at end of file
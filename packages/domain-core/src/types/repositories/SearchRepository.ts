@@ -0,0 +1,46 @@
+export type SearchMatchSource = 'title' | 'description' | 'comment' | 'checklist';
+
+// Offsets into the snippet text of a matched query term
+export interface SearchHighlight {
+  start: number;
+  length: number;
+}
+
+export interface SearchSnippet {
+  source: SearchMatchSource;
+  // The comment or checklist item the text came from
+  sourceId?: string;
+  text: string;
+  highlights: SearchHighlight[];
+}
+
+export interface CardSearchFilters {
+  boardIds: string[];
+  listId?: string;
+  labelId?: string;
+  assigneeId?: string;
+  dueDate?: {
+    from?: Date;
+    to?: Date;
+  };
+}
+
+export interface CardSearchHit {
+  cardId: string;
+  cardTitle: string;
+  dueDate?: Date;
+  listId: string;
+  listTitle: string;
+  boardId: string;
+  boardTitle: string;
+  rank: number;
+  snippets: SearchSnippet[];
+}
+
+export interface SearchRepository {
+  // Best matches first; archived cards are never returned
+  searchCards(query: string, filters: CardSearchFilters, options?: {
+    limit?: number;
+    offset?: number;
+  }): Promise<CardSearchHit[]>;
+}
\ No newline at end of file
@@ -5,6 +5,8 @@ export interface UserRepository {
   findByEmail(email: string): Promise<User | null>;
   findByUsername(username: string): Promise<User | null>;
   findByCognitoSub(cognitoSub: string): Promise<User | null>;
+  findByCalendarToken(calendarToken: string): Promise<User | null>;
+  findByIds(ids: string[]): Promise<User[]>;
   create(user: User): Promise<User>;
   update(user: User): Promise<User>;
   save(user: User): Promise<void>;
@@ -0,0 +1,18 @@
+export type WatchTargetType = 'CARD' | 'LIST' | 'BOARD';
+
+export interface WatchTarget {
+  type: WatchTargetType;
+  id: string;
+}
+
+export interface WatchRepository {
+  isWatching(userId: string, target: WatchTarget): Promise<boolean>;
+  // Users already watching the target are left as they are
+  watch(userIds: string[], target: WatchTarget): Promise<void>;
+  unwatch(userId: string, target: WatchTarget): Promise<void>;
+  // The subset of `targetIds` the user watches directly
+  findWatchedIds(userId: string, type: WatchTargetType, targetIds: string[]): Promise<Set<string>>;
+  // When the user last caught up on their watching feed
+  getFeedReadAt(userId: string): Promise<Date | null>;
+  setFeedReadAt(userId: string, readAt: Date): Promise<void>;
+}
\ No newline at end of file
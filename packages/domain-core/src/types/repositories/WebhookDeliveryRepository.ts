@@ -0,0 +1,13 @@
+import { WebhookDelivery } from '../../entities/WebhookDelivery';
+
+export interface WebhookDeliveryRepository {
+  findById(id: string): Promise<WebhookDelivery | null>;
+  // Newest first
+  findByWebhook(webhookId: string, options?: {
+    limit?: number;
+    cursor?: string;
+  }): Promise<WebhookDelivery[]>;
+  // Pending deliveries of active webhooks whose next attempt is at or before `now`, oldest first
+  findDue(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  save(delivery: WebhookDelivery): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { Webhook } from '../../entities/Webhook';
+
+export interface WebhookRepository {
+  findById(id: string): Promise<Webhook | null>;
+  // Oldest first
+  findByBoard(boardId: string): Promise<Webhook[]>;
+  save(webhook: Webhook): Promise<void>;
+  // Removes the webhook together with its delivery log
+  delete(id: string): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { BoardEvent } from '../events/BoardEvent';
+
+export type BoardEventListener = (event: BoardEvent) => void;
+
+/**
+ * Port for fanning board events out to live viewers.
+ * Publishing is best effort: implementations must not throw, so a failed
+ * delivery never undoes a mutation that has already been saved.
+ */
+export interface BoardEventPublisher {
+  publish(event: BoardEvent): Promise<void>;
+}
+
+/**
+ * Port for listening to a single board's events. `subscribe` returns a
+ * function that removes the listener again.
+ */
+export interface BoardEventSubscriber {
+  subscribe(boardId: string, listener: BoardEventListener): () => void;
+}
\ No newline at end of file
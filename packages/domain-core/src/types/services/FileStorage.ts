@@ -0,0 +1,10 @@
+/**
+ * Port for binary file storage (attachments etc.).
+ * Implementations return an opaque location string from `put`, which is
+ * persisted alongside the record and passed back to `get` / `delete`.
+ */
+export interface FileStorage {
+  put(key: string, data: Uint8Array, mimeType: string): Promise<string>;
+  get(location: string): Promise<Uint8Array | null>;
+  delete(location: string): Promise<void>;
+}
\ No newline at end of file
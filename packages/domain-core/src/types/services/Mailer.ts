@@ -0,0 +1,13 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * Port for sending email. `send` rejects when the message could not be
+ * handed over, so callers can retry later.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { ActivityType } from '../../entities/Activity';
+import { WebhookAttemptResult, WebhookPayload } from '../../entities/WebhookDelivery';
+
+export interface WebhookRequest {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  event: ActivityType;
+  payload: WebhookPayload;
+}
+
+/**
+ * Port for posting a signed delivery to a receiver. `send` never throws:
+ * timeouts and network failures come back as `error` so the attempt can
+ * be recorded and retried.
+ */
+export interface WebhookSender {
+  send(request: WebhookRequest): Promise<WebhookAttemptResult>;
+}
\ No newline at end of file
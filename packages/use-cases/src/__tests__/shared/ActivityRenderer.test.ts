@@ -0,0 +1,106 @@
+import { describe, test, expect } from "bun:test";
+import { renderActivity, resolveActivityLocale } from "../../shared/ActivityRenderer";
+import { Activity } from "@kanban/domain-core";
+
+const baseProps = {
+  entityType: "CARD" as const,
+  entityId: "card-1",
+  entityTitle: "Fix login",
+  userId: "user-1",
+  boardId: "board-1",
+  cardId: "card-1",
+};
+
+describe("renderActivity", () => {
+  test("should render a move between lists", () => {
+    const activity = Activity.create({
+      ...baseProps,
+      action: "MOVE",
+      data: { fromListId: "list-1", fromListTitle: "To Do", toListId: "list-2", toListTitle: "Doing" },
+    });
+
+    expect(renderActivity(activity, "en")).toBe('moved card "Fix login" from To Do to Doing');
+    expect(renderActivity(activity, "ja")).toBe("カード「Fix login」をTo DoからDoingへ移動しました");
+  });
+
+  test("should render a move within the same list", () => {
+    const activity = Activity.create({
+      ...baseProps,
+      action: "MOVE",
+      data: { fromListId: "list-1", fromListTitle: "To Do", toListId: "list-1", toListTitle: "To Do" },
+    });
+
+    expect(renderActivity(activity)).toBe('moved card "Fix login" within To Do');
+  });
+
+  test("should render a single title change as a rename", () => {
+    const activity = Activity.create({
+      ...baseProps,
+      action: "UPDATE",
+      data: { title: { from: "Fix logn", to: "Fix login" } },
+    });
+
+    expect(renderActivity(activity, "en")).toBe('renamed card "Fix logn" to "Fix login"');
+  });
+
+  test("should list localized field names for multi-field updates", () => {
+    const activity = Activity.create({
+      ...baseProps,
+      action: "UPDATE",
+      data: {
+        dueDate: { from: null, to: "2026-10-20T00:00:00.000Z" },
+        description: { from: null, to: "Steps to reproduce" },
+      },
+    });
+
+    expect(renderActivity(activity, "en")).toBe('updated due date, description on card "Fix login"');
+    expect(renderActivity(activity, "ja")).toBe("カード「Fix login」の期日、説明を更新しました");
+  });
+
+  test("should render checklist item completion", () => {
+    const activity = Activity.create({
+      ...baseProps,
+      entityType: "CHECKLIST",
+      entityTitle: "Release",
+      action: "UPDATE",
+      data: { isCompleted: { from: false, to: true, subjectId: "item-1", subjectTitle: "Tag build" } },
+    });
+
+    expect(renderActivity(activity, "en")).toBe('completed "Tag build" on checklist "Release"');
+  });
+
+  test("should fall back to the stored description for unstructured English activities", () => {
+    const activity = Activity.create({
+      ...baseProps,
+      action: "MOVE",
+      description: "moved card from To Do to Doing",
+    });
+
+    expect(renderActivity(activity, "en")).toBe("moved card from To Do to Doing");
+    expect(renderActivity(activity, "ja")).toBe("カード「Fix login」を移動しました");
+  });
+
+  test("should render a member leaving a board", () => {
+    const activity = Activity.create({
+      ...baseProps,
+      entityType: "BOARD",
+      entityTitle: "Roadmap",
+      action: "REMOVE_MEMBER",
+      data: { memberUserId: "user-1", removedRole: "MEMBER", selfRemoval: true },
+    });
+
+    expect(renderActivity(activity, "en")).toBe('left board "Roadmap"');
+  });
+});
+
+describe("resolveActivityLocale", () => {
+  test("should default to English", () => {
+    expect(resolveActivityLocale(undefined)).toBe("en");
+    expect(resolveActivityLocale("fr-FR")).toBe("en");
+  });
+
+  test("should honour Accept-Language quality values", () => {
+    expect(resolveActivityLocale("fr;q=0.9, ja-JP;q=0.8, en;q=0.5")).toBe("ja");
+    expect(resolveActivityLocale("ja")).toBe("ja");
+  });
+});
\ No newline at end of file
@@ -3,6 +3,7 @@ import { AddBoardMemberUseCase } from "../../usecases/AddBoardMember";
 import { BoardRepository } from "@kanban/domain-core";
 import { UserRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { NotificationRepository } from "@kanban/domain-core";
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder, LabelBuilder } from "../../test/fixtures/entityFactories";
 
 // Test helpers
@@ -36,6 +37,7 @@ describe("AddBoardMemberUseCase", () => {
   let mockBoardRepository: BoardRepository;
   let mockUserRepository: UserRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockNotificationRepository: NotificationRepository;
 
   beforeEach(() => {
     // Create mock repositories
@@ -69,10 +71,15 @@ describe("AddBoardMemberUseCase", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockNotificationRepository = {
+      createMany: mock(() => Promise.resolve()),
+    } as unknown as NotificationRepository;
+
     useCase = new AddBoardMemberUseCase(
       mockBoardRepository,
       mockUserRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockNotificationRepository
     );
   });
 
@@ -99,6 +106,11 @@ describe("AddBoardMemberUseCase", () => {
       expect(mockBoardRepository.addMember).toHaveBeenCalledWith("board-123", "new-member-456", "MEMBER");
       expect(mockBoardRepository.getMembers).toHaveBeenCalledWith("board-123");
       expect(mockActivityRepository.save).toHaveBeenCalledTimes(1);
+
+      const [notification] = (mockNotificationRepository.createMany as any).mock.calls[0][0];
+      expect(notification.userId).toBe("new-member-456");
+      expect(notification.actorId).toBe("admin-user-123");
+      expect(notification.type).toBe("BOARD_MEMBER_ADDED");
     });
 
     test("should add ADMIN member successfully", async () => {
@@ -0,0 +1,105 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { AddChecklistItemUseCase } from "../../usecases/AddChecklistItem";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { ChecklistItemRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, Checklist, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("AddChecklistItemUseCase", () => {
+  let useCase: AddChecklistItemUseCase;
+  let mockChecklistItemRepository: ChecklistItemRepository;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let testChecklist: Checklist;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testChecklist = Checklist.create({ title: "Subtasks", position: 1, cardId: testCard.id });
+
+    mockChecklistItemRepository = {
+      save: mock(() => Promise.resolve()),
+      getNextPosition: mock(() => Promise.resolve(3)),
+    } as unknown as ChecklistItemRepository;
+
+    mockChecklistRepository = {
+      findById: mock(() => Promise.resolve(testChecklist)),
+    } as unknown as ChecklistRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    useCase = new AddChecklistItemUseCase(
+      mockChecklistItemRepository,
+      mockChecklistRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository
+    );
+  });
+
+  test("should add an open item at the next position", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      userId: "member-1",
+      content: " Write migration ",
+    });
+
+    expect(result.item.content).toBe("Write migration");
+    expect(result.item.position).toBe(3);
+    expect(result.item.isCompleted).toBe(false);
+    expect(result.item.checklistId).toBe(testChecklist.id);
+    expect(mockChecklistItemRepository.save).toHaveBeenCalledTimes(1);
+  });
+
+  test("should reject content longer than a card title", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      userId: "member-1",
+      content: "a".repeat(256),
+    })).rejects.toThrow("Checklist item content is too long");
+  });
+
+  test("should throw error if checklist not found", async () => {
+    mockChecklistRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: "missing",
+      userId: "member-1",
+      content: "Write migration",
+    })).rejects.toThrow("Checklist not found");
+  });
+
+  test("should deny non-members", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      userId: "stranger",
+      content: "Write migration",
+    })).rejects.toThrow("Access denied");
+  });
+});
\ No newline at end of file
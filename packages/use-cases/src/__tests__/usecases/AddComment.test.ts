@@ -0,0 +1,169 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { AddCommentUseCase } from "../../usecases/AddComment";
+import { CommentRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("AddCommentUseCase", () => {
+  let useCase: AddCommentUseCase;
+  let mockCommentRepository: CommentRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockActivityRepository: ActivityRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().withTitle("Commented Card").inList(testList.id).build();
+
+    mockCommentRepository = {
+      findById: mock(() => Promise.resolve(null)),
+      findByCard: mock(() => Promise.resolve([])),
+      countByCard: mock(() => Promise.resolve(0)),
+      save: mock(() => Promise.resolve()),
+      delete: mock(() => Promise.resolve()),
+    } as unknown as CommentRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    useCase = new AddCommentUseCase(
+      mockCommentRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockActivityRepository
+    );
+  });
+
+  test("should add a comment as a board member", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      content: "  Looks good to me  ",
+    });
+
+    expect(result.comment.content).toBe("Looks good to me");
+    expect(result.comment.cardId).toBe(testCard.id);
+    expect(result.comment.userId).toBe("member-1");
+    expect(mockCommentRepository.save).toHaveBeenCalledTimes(1);
+  });
+
+  test("should log a COMMENT activity on the card", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      content: "Ping",
+    });
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.action).toBe("COMMENT");
+    expect(activity.entityType).toBe("CARD");
+    expect(activity.entityId).toBe(testCard.id);
+    expect(activity.entityTitle).toBe("Commented Card");
+    expect(activity.cardId).toBe(testCard.id);
+    expect(activity.boardId).toBe(testBoard.id);
+    expect(activity.data).toEqual({ commentId: result.comment.id });
+  });
+
+  test("should allow the board owner without a membership row", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      userId: "board-owner",
+      content: "Owner note",
+    });
+
+    expect(result.comment.userId).toBe("board-owner");
+  });
+
+  test("should deny VIEWER from commenting", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as BoardRole));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "viewer-1",
+      content: "Can I?",
+    })).rejects.toThrow("Access denied");
+  });
+
+  test("should deny non-members from commenting", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "stranger",
+      content: "Hello",
+    })).rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if card not found", async () => {
+    mockCardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({
+      cardId: "missing",
+      userId: "member-1",
+      content: "Hello",
+    })).rejects.toThrow("Card not found");
+  });
+
+  test("should throw error if list not found", async () => {
+    mockListRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      content: "Hello",
+    })).rejects.toThrow("List not found");
+  });
+
+  test("should throw error if board not found", async () => {
+    mockBoardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      content: "Hello",
+    })).rejects.toThrow("Board not found");
+  });
+
+  test("should reject empty content", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      content: "   ",
+    })).rejects.toThrow("Comment content is required");
+    expect(mockCommentRepository.save).not.toHaveBeenCalled();
+  });
+
+  test("should reject content longer than 5000 characters", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      content: "a".repeat(5001),
+    })).rejects.toThrow("Comment content is too long");
+  });
+});
\ No newline at end of file
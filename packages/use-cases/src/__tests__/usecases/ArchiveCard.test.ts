@@ -6,6 +6,8 @@ import { UserRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { NotificationRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
 
 import type { BoardRole } from "@kanban/domain-core";
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
@@ -17,6 +19,8 @@ describe("ArchiveCard", () => {
   let mockBoardRepository: BoardRepository;
   let mockListRepository: ListRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockNotificationRepository: NotificationRepository;
+  let mockEventPublisher: BoardEventPublisher;
 
   const testUserId = "user-123";
   const testCardId = "card-456";
@@ -95,12 +99,22 @@ describe("ArchiveCard", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
+    mockNotificationRepository = {
+      createMany: mock(() => Promise.resolve()),
+    } as unknown as NotificationRepository;
+
     useCase = new ArchiveCard(
       mockCardRepository,
       mockUserRepository,
       mockBoardRepository,
       mockListRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher,
+      mockNotificationRepository
     );
   });
 
@@ -120,6 +134,36 @@ describe("ArchiveCard", () => {
         description: `archived card "${testCard.title}"`,
       })
     );
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "card.archived",
+        boardId: testBoardId,
+        actorId: testUserId,
+        payload: { cardId: testCard.id, listId: testCard.listId },
+      })
+    );
+  });
+
+  test("should notify the card creator when someone else archives it", async () => {
+    testCard = CardBuilder.valid()
+      .withTitle("Test Card")
+      .inList(testListId)
+      .createdBy("creator-user")
+      .build();
+
+    await useCase.execute(testCardId, testUserId);
+
+    expect(mockNotificationRepository.createMany).toHaveBeenCalledTimes(1);
+    const [notification] = (mockNotificationRepository.createMany as any).mock.calls[0][0];
+    expect(notification.userId).toBe("creator-user");
+    expect(notification.type).toBe("CARD_ARCHIVED");
+    expect(notification.message).toBe('archived your card "Test Card"');
+  });
+
+  test("should not notify the creator about their own archive", async () => {
+    await useCase.execute(testCardId, testUserId);
+
+    expect(mockNotificationRepository.createMany).not.toHaveBeenCalled();
   });
 
   test("should allow board owner to archive card", async () => {
@@ -258,7 +302,7 @@ describe("ArchiveCard", () => {
     expect(result.description).toBe("Important description");
     expect(result.position).toBe(5000);
     expect(result.dueDate).toEqual(new Date("2024-12-31"));
-    expect(result.assigneeId).toBe("assignee-123");
+    expect(result.assigneeIds).toEqual(["assignee-123"]);
   });
 
   test("should handle card in different list", async () => {
@@ -0,0 +1,165 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ConvertChecklistItemToCardUseCase } from "../../usecases/ConvertChecklistItemToCard";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { ChecklistItemRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
+import { Board, BoardRole, Card, Checklist, ChecklistItem, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("ConvertChecklistItemToCardUseCase", () => {
+  let useCase: ConvertChecklistItemToCardUseCase;
+  let mockChecklistItemRepository: ChecklistItemRepository;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockActivityRepository: ActivityRepository;
+  let mockEventPublisher: BoardEventPublisher;
+  let testBoard: Board;
+  let testList: List;
+  let otherList: List;
+  let testCard: Card;
+  let testChecklist: Checklist;
+  let testItem: ChecklistItem;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    otherList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testChecklist = Checklist.create({ title: "Subtasks", position: 1, cardId: testCard.id });
+    testItem = ChecklistItem.create({ content: "Split the API", position: 1, checklistId: testChecklist.id });
+
+    mockChecklistItemRepository = {
+      findById: mock(() => Promise.resolve(testItem)),
+      delete: mock(() => Promise.resolve()),
+    } as unknown as ChecklistItemRepository;
+
+    mockChecklistRepository = {
+      findById: mock(() => Promise.resolve(testChecklist)),
+    } as unknown as ChecklistRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+      save: mock(() => Promise.resolve()),
+      getNextPosition: mock(() => Promise.resolve(5)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock((id: string) => Promise.resolve(
+        id === testList.id ? testList : id === otherList.id ? otherList : null
+      )),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
+    useCase = new ConvertChecklistItemToCardUseCase(
+      mockChecklistItemRepository,
+      mockChecklistRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockActivityRepository,
+      mockEventPublisher
+    );
+  });
+
+  test("should create a card in the parent card's list and remove the item", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemId: testItem.id,
+      userId: "member-1",
+    });
+
+    expect(result.card.title).toBe("Split the API");
+    expect(result.card.listId).toBe(testList.id);
+    expect(result.card.position).toBe(5);
+    expect(result.card.creatorId).toBe("member-1");
+    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockChecklistItemRepository.delete).toHaveBeenCalledWith(testItem.id);
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.action).toBe("CREATE");
+    expect(activity.entityType).toBe("CARD");
+    expect(activity.data).toEqual({ fromChecklistItemId: testItem.id, sourceCardId: testCard.id });
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "card.created",
+        boardId: testBoard.id,
+        payload: { card: expect.objectContaining({ id: result.card.id }) },
+      })
+    );
+  });
+
+  test("should create the card in another list of the same board", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemId: testItem.id,
+      userId: "member-1",
+      listId: otherList.id,
+    });
+
+    expect(result.card.listId).toBe(otherList.id);
+    expect(mockCardRepository.getNextPosition).toHaveBeenCalledWith(otherList.id);
+  });
+
+  test("should keep the item when the target list is at a strict WIP limit", async () => {
+    const fullList = List.fromPersistence({ ...otherList.toJSON(), wipLimit: 3, wipLimitMode: "STRICT" });
+    mockListRepository.findById = mock((id: string) => Promise.resolve(id === fullList.id ? fullList : testList));
+    mockCardRepository.countOpenInList = mock(() => Promise.resolve(3));
+
+    await expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemId: testItem.id,
+      userId: "member-1",
+      listId: fullList.id,
+    })).rejects.toThrow(`List "${fullList.title}" has reached its WIP limit of 3 cards`);
+    expect(mockCardRepository.save).not.toHaveBeenCalled();
+    expect(mockChecklistItemRepository.delete).not.toHaveBeenCalled();
+  });
+
+  test("should reject a list on another board", async () => {
+    const foreignList = ListBuilder.valid().inBoard("other-board").build();
+    mockListRepository.findById = mock((id: string) => Promise.resolve(
+      id === foreignList.id ? foreignList : testList
+    ));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemId: testItem.id,
+      userId: "member-1",
+      listId: foreignList.id,
+    })).rejects.toThrow("Target list must be on the same board");
+  });
+
+  test("should deny VIEWER from converting items", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as BoardRole));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemId: testItem.id,
+      userId: "viewer-1",
+    })).rejects.toThrow("Access denied");
+    expect(mockCardRepository.save).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { CopyBoardUseCase } from "../../usecases/CopyBoard";
+import { BoardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { LabelRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { ChecklistItemRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { Board, BoardContents, Card, Checklist, ChecklistItem, Label, List } from "@kanban/domain-core";
+import { BoardBuilder, CardBuilder, LabelBuilder, ListBuilder } from "../../test/fixtures/entityFactories";
+
+describe("CopyBoardUseCase", () => {
+  let useCase: CopyBoardUseCase;
+  let mockBoardRepository: BoardRepository;
+  let mockListRepository: ListRepository;
+  let mockLabelRepository: LabelRepository;
+  let mockCardRepository: CardRepository;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockChecklistItemRepository: ChecklistItemRepository;
+  let mockActivityRepository: ActivityRepository;
+  let sourceBoard: Board;
+  let todoList: List;
+  let doneList: List;
+  let bugLabel: Label;
+  let testCard: Card;
+  let testChecklist: Checklist;
+  let testItem: ChecklistItem;
+
+  const savedContents = (): BoardContents =>
+    (mockBoardRepository.createWithContents as any).mock.calls[0][0];
+
+  beforeEach(() => {
+    sourceBoard = BoardBuilder.valid()
+      .withTitle("Sprint 12")
+      .withDescription("Two week sprint")
+      .withOwner("board-owner")
+      .public()
+      .build();
+    todoList = ListBuilder.valid().withTitle("To Do").withPosition(1024).inBoard(sourceBoard.id).build();
+    doneList = ListBuilder.valid().withTitle("Done").withPosition(2048).inBoard(sourceBoard.id).build();
+    bugLabel = LabelBuilder.valid().withName("Bug").withColor("#ff0000").inBoard(sourceBoard.id).build();
+    testCard = CardBuilder.valid()
+      .withTitle("Fix login")
+      .inList(todoList.id)
+      .assignedTo("someone-else")
+      .withDueDate(new Date("2026-01-01"))
+      .build();
+    testChecklist = Checklist.create({ title: "Steps", position: 1, cardId: testCard.id });
+    testItem = ChecklistItem.create({ content: "Reproduce", position: 1, checklistId: testChecklist.id });
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(sourceBoard)),
+      getMemberRole: mock(() => Promise.resolve("VIEWER")),
+      createWithContents: mock(() => Promise.resolve()),
+    } as unknown as BoardRepository;
+
+    mockListRepository = {
+      findByBoard: mock(() => Promise.resolve([todoList, doneList])),
+    } as unknown as ListRepository;
+
+    mockLabelRepository = {
+      findByBoard: mock(() => Promise.resolve([bugLabel])),
+      getLabelsByCards: mock(() => Promise.resolve(new Map([[testCard.id, [bugLabel]]]))),
+    } as unknown as LabelRepository;
+
+    mockCardRepository = {
+      findByList: mock((listId: string) => Promise.resolve(listId === todoList.id ? [testCard] : [])),
+    } as unknown as CardRepository;
+
+    mockChecklistRepository = {
+      findByCard: mock(() => Promise.resolve([testChecklist])),
+    } as unknown as ChecklistRepository;
+
+    mockChecklistItemRepository = {
+      findByChecklists: mock(() => Promise.resolve([testItem])),
+    } as unknown as ChecklistItemRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    useCase = new CopyBoardUseCase(
+      mockBoardRepository,
+      mockListRepository,
+      mockLabelRepository,
+      mockCardRepository,
+      mockChecklistRepository,
+      mockChecklistItemRepository,
+      mockActivityRepository
+    );
+  });
+
+  test("should copy lists and labels into a private board owned by the caller", async () => {
+    const result = await useCase.execute({ boardId: sourceBoard.id, userId: "viewer-1" });
+
+    expect(result.board.id).not.toBe(sourceBoard.id);
+    expect(result.board.title).toBe("Sprint 12 (copy)");
+    expect(result.board.description).toBe("Two week sprint");
+    expect(result.board.ownerId).toBe("viewer-1");
+    expect(result.board.isPublic).toBe(false);
+
+    const contents = savedContents();
+    expect(contents.board).toBe(result.board);
+    expect(contents.lists.map(list => [list.title, list.position, list.boardId])).toEqual([
+      ["To Do", 1024, result.board.id],
+      ["Done", 2048, result.board.id],
+    ]);
+    expect(contents.labels.map(label => [label.name, label.color])).toEqual([["Bug", "#ff0000"]]);
+    expect(contents.labels[0]!.id).not.toBe(bugLabel.id);
+    expect(contents.cards).toEqual([]);
+    expect(mockCardRepository.findByList).not.toHaveBeenCalled();
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.action).toBe("CREATE");
+    expect(activity.boardId).toBe(result.board.id);
+    expect(activity.data).toEqual({ copiedFromBoardId: sourceBoard.id });
+  });
+
+  test("should copy open cards with labels and checklists when asked", async () => {
+    const result = await useCase.execute({
+      boardId: sourceBoard.id,
+      userId: "viewer-1",
+      title: "Sprint 13",
+      includeCards: true,
+    });
+
+    expect(result.board.title).toBe("Sprint 13");
+
+    const contents = savedContents();
+    expect(contents.cards).toHaveLength(1);
+    const card = contents.cards[0]!;
+    expect(card.id).not.toBe(testCard.id);
+    expect(card.title).toBe("Fix login");
+    expect(card.listId).toBe(contents.lists[0]!.id);
+    expect(card.creatorId).toBe("viewer-1");
+    expect(card.assigneeIds).toEqual([]);
+    expect(card.dueDate).toBeUndefined();
+    expect(contents.cardLabels).toEqual([{ cardId: card.id, labelId: contents.labels[0]!.id }]);
+    expect(contents.checklists.map(checklist => [checklist.title, checklist.cardId])).toEqual([["Steps", card.id]]);
+    expect(contents.checklistItems.map(item => [item.content, item.isCompleted, item.checklistId])).toEqual([
+      ["Reproduce", false, contents.checklists[0]!.id],
+    ]);
+  });
+
+  test("should deny copying a private board the user cannot view", async () => {
+    sourceBoard = BoardBuilder.valid().withOwner("board-owner").private().build();
+    mockBoardRepository.findById = mock(() => Promise.resolve(sourceBoard));
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ boardId: sourceBoard.id, userId: "stranger" })).rejects.toThrow("Access denied");
+    expect(mockBoardRepository.createWithContents).not.toHaveBeenCalled();
+  });
+
+  test("should throw error when board does not exist", async () => {
+    mockBoardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ boardId: "missing", userId: "viewer-1" })).rejects.toThrow("Board not found");
+  });
+
+  test("should reject a blank title", async () => {
+    expect(useCase.execute({ boardId: sourceBoard.id, userId: "viewer-1", title: "  " }))
+      .rejects.toThrow("Board title is required");
+  });
+});
\ No newline at end of file
@@ -3,6 +3,8 @@ import { CreateBoardUseCase } from "../../usecases/CreateBoard";
 import { BoardRepository } from "@kanban/domain-core";
 import { UserRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardTemplateRepository } from "@kanban/domain-core";
+import { BoardContents, BoardTemplate } from "@kanban/domain-core";
 
 
 describe("CreateBoardUseCase", () => {
@@ -10,12 +12,15 @@ describe("CreateBoardUseCase", () => {
   let mockBoardRepository: BoardRepository;
   let mockUserRepository: UserRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockBoardTemplateRepository: BoardTemplateRepository;
+  let testTemplate: BoardTemplate;
 
   beforeEach(() => {
     // Create mock repositories
     mockBoardRepository = {
       save: mock(() => Promise.resolve()),
       addMember: mock(() => Promise.resolve()),
+      createWithContents: mock(() => Promise.resolve()),
       findById: mock(() => Promise.resolve(null)),
       findByIdWithMembers: mock(() => Promise.resolve(null)),
       findByOwner: mock(() => Promise.resolve([])),
@@ -49,10 +54,27 @@ describe("CreateBoardUseCase", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    testTemplate = BoardTemplate.create({
+      name: "Sprint",
+      ownerId: "user-123",
+      blueprint: {
+        labels: [{ name: "Bug", color: "#ff0000" }],
+        lists: [
+          { title: "Backlog", cards: [{ title: "Plan sprint", labels: ["Bug"], checklists: [] }] },
+          { title: "Done", cards: [] },
+        ],
+      },
+    });
+
+    mockBoardTemplateRepository = {
+      findById: mock(() => Promise.resolve(testTemplate)),
+    } as unknown as BoardTemplateRepository;
+
     useCase = new CreateBoardUseCase(
       mockBoardRepository,
       mockUserRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockBoardTemplateRepository
     );
   });
 
@@ -188,4 +210,39 @@ describe("CreateBoardUseCase", () => {
     expect(activityCall.entityTitle).toBe("Test Board");
     expect(activityCall.userId).toBe("user-123");
   });
+
+  test("should create a board from a template", async () => {
+    const result = await useCase.execute({
+      title: "Sprint 14",
+      ownerId: "user-123",
+      templateId: testTemplate.id,
+    });
+
+    expect(mockBoardRepository.save).not.toHaveBeenCalled();
+    expect(mockBoardRepository.addMember).not.toHaveBeenCalled();
+
+    const contents: BoardContents = (mockBoardRepository.createWithContents as any).mock.calls[0][0];
+    expect(contents.board).toBe(result.board);
+    expect(contents.lists.map(list => list.title)).toEqual(["Backlog", "Done"]);
+    expect(contents.cards.map(card => [card.title, card.listId, card.creatorId])).toEqual([
+      ["Plan sprint", contents.lists[0]!.id, "user-123"],
+    ]);
+    expect(contents.cardLabels).toEqual([{ cardId: contents.cards[0]!.id, labelId: contents.labels[0]!.id }]);
+
+    const activityCall = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activityCall.data).toEqual({ templateId: testTemplate.id });
+  });
+
+  test("should throw error if template not found", async () => {
+    mockBoardTemplateRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ title: "Sprint 14", ownerId: "user-123", templateId: "missing" }))
+      .rejects.toThrow("Template not found");
+  });
+
+  test("should deny using another user's template", async () => {
+    expect(useCase.execute({ title: "Sprint 14", ownerId: "user-456", templateId: testTemplate.id }))
+      .rejects.toThrow("Access denied");
+    expect(mockBoardRepository.createWithContents).not.toHaveBeenCalled();
+  });
 });
\ No newline at end of file
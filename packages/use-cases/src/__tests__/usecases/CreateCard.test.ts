@@ -4,9 +4,15 @@ import { CardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { NotificationRepository } from "@kanban/domain-core";
+import { WatchRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
 import { Card } from "@kanban/domain-core";
 import { List } from "@kanban/domain-core";
 import { Activity } from "@kanban/domain-core";
+import { BusinessRuleViolationError } from "@kanban/domain-core";
+import { UserBuilder } from "../../test/fixtures/entityFactories";
 
 
 describe("CreateCardUseCase", () => {
@@ -15,6 +21,10 @@ describe("CreateCardUseCase", () => {
   let mockListRepository: ListRepository;
   let mockBoardRepository: BoardRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockNotificationRepository: NotificationRepository;
+  let mockWatchRepository: WatchRepository;
+  let mockEventPublisher: BoardEventPublisher;
+  let mockUserRepository: UserRepository;
 
   beforeEach(() => {
     mockCardRepository = {
@@ -67,11 +77,33 @@ describe("CreateCardUseCase", () => {
       findByUser: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
+    mockUserRepository = {
+      findById: mock((id: string) => Promise.resolve(
+        id.startsWith("user-") ? UserBuilder.valid().withName(`Name of ${id}`).build() : null
+      )),
+    } as unknown as UserRepository;
+
+    mockNotificationRepository = {
+      createMany: mock(() => Promise.resolve()),
+    } as unknown as NotificationRepository;
+
+    mockWatchRepository = {
+      watch: mock(() => Promise.resolve()),
+    } as unknown as WatchRepository;
+
     useCase = new CreateCardUseCase(
       mockCardRepository,
       mockListRepository,
       mockBoardRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher,
+      mockUserRepository,
+      mockNotificationRepository,
+      mockWatchRepository
     );
   });
 
@@ -91,7 +123,7 @@ describe("CreateCardUseCase", () => {
       expect(result.card.creatorId).toBe("user-456");
       expect(result.card.position).toBe(1000);
       expect(result.card.isArchived).toBe(false);
-      expect(result.card.assigneeId).toBeUndefined();
+      expect(result.card.assigneeIds).toEqual([]);
       expect(result.card.description).toBeUndefined();
       expect(result.card.dueDate).toBeUndefined();
 
@@ -108,7 +140,7 @@ describe("CreateCardUseCase", () => {
         description: "This is a detailed task description",
         listId: "list-123",
         creatorId: "user-456",
-        assigneeId: "user-789",
+        assigneeIds: ["user-789"],
         dueDate,
         startDate,
       };
@@ -117,7 +149,7 @@ describe("CreateCardUseCase", () => {
 
       expect(result.card.title).toBe("Complex Task");
       expect(result.card.description).toBe("This is a detailed task description");
-      expect(result.card.assigneeId).toBe("user-789");
+      expect(result.card.assigneeIds).toEqual(["user-789"]);
       expect(result.card.dueDate).toEqual(dueDate);
       expect(result.card.startDate).toEqual(startDate);
     });
@@ -168,6 +200,42 @@ describe("CreateCardUseCase", () => {
       expect(activityCall.entityTitle).toBe("Logged Card");
       expect(activityCall.userId).toBe("user-456");
       expect(activityCall.boardId).toBe("board-456");
+      expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "card.created",
+          boardId: "board-456",
+          actorId: "user-456",
+          payload: { card: expect.objectContaining({ title: "Logged Card" }) },
+        })
+      );
+    });
+
+    test("should log an ASSIGN activity for each assignee", async () => {
+      const request = {
+        title: "Paired Card",
+        listId: "list-123",
+        creatorId: "user-456",
+        assigneeIds: ["user-789", "user-790", "user-789"],
+      };
+
+      const result = await useCase.execute(request);
+
+      expect(result.card.assigneeIds).toEqual(["user-789", "user-790"]);
+      const assignActivities = mockActivityRepository.save.mock.calls
+        .map(([activity]: [Activity]) => activity)
+        .filter((activity: Activity) => activity.action === "ASSIGN");
+      expect(assignActivities.map((activity: Activity) => activity.dataFor("ASSIGN"))).toEqual([
+        { assigneeId: expect.any(String), assigneeName: "Name of user-789" },
+        { assigneeId: expect.any(String), assigneeName: "Name of user-790" },
+      ]);
+
+      const notifications = (mockNotificationRepository.createMany as any).mock.calls[0][0];
+      expect(notifications.map((notification: any) => notification.userId)).toEqual(["user-789", "user-790"]);
+      expect(notifications[0].message).toBe('assigned you to "Paired Card"');
+      expect(mockWatchRepository.watch).toHaveBeenCalledWith(
+        ["user-456", "user-789", "user-790"],
+        { type: "CARD", id: result.card.id }
+      );
     });
   });
 
@@ -218,6 +286,18 @@ describe("CreateCardUseCase", () => {
       await expect(useCase.execute(request)).rejects.toThrow("Card title is too long");
       expect(mockCardRepository.save).not.toHaveBeenCalled();
     });
+
+    test("should throw error if an assignee does not exist", async () => {
+      const request = {
+        title: "Valid Title",
+        listId: "list-123",
+        creatorId: "user-456",
+        assigneeIds: ["user-789", "ghost"],
+      };
+
+      await expect(useCase.execute(request)).rejects.toThrow("Assignee not found");
+      expect(mockCardRepository.save).not.toHaveBeenCalled();
+    });
   });
 
   describe("Permission validation", () => {
@@ -263,6 +343,45 @@ describe("CreateCardUseCase", () => {
     });
   });
 
+  describe("WIP limits", () => {
+    const limitedList = (wipLimitMode: "STRICT" | "SOFT") => List.fromPersistence({
+      id: "list-123",
+      boardId: "board-456",
+      title: "Doing",
+      position: 1000,
+      wipLimit: 2,
+      wipLimitMode,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    beforeEach(() => {
+      mockCardRepository.countOpenInList = mock(() => Promise.resolve(2));
+    });
+
+    test("should refuse the card when a strict limit is reached", async () => {
+      mockListRepository.findById = mock(() => Promise.resolve(limitedList("STRICT")));
+
+      const promise = useCase.execute({ title: "One too many", listId: "list-123", creatorId: "user-456" });
+
+      await expect(promise).rejects.toBeInstanceOf(BusinessRuleViolationError);
+      await expect(promise).rejects.toThrow('List "Doing" has reached its WIP limit of 2 cards');
+      expect(mockCardRepository.save).not.toHaveBeenCalled();
+    });
+
+    test("should create the card over a soft limit and note it in the activity", async () => {
+      mockListRepository.findById = mock(() => Promise.resolve(limitedList("SOFT")));
+
+      const result = await useCase.execute({ title: "One too many", listId: "list-123", creatorId: "user-456" });
+
+      expect(result.card.listId).toBe("list-123");
+      expect(result.overWipLimit).toBe(true);
+      expect(mockCardRepository.countOpenInList).toHaveBeenCalledWith("list-123");
+      const activity = (mockActivityRepository.save as any).mock.calls[0][0] as Activity;
+      expect(activity.data).toEqual({ overWipLimit: true });
+    });
+  });
+
   describe("Repository interactions", () => {
     test("should call repositories in correct order", async () => {
       const request = {
@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { CreateChecklistUseCase } from "../../usecases/CreateChecklist";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("CreateChecklistUseCase", () => {
+  let useCase: CreateChecklistUseCase;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockActivityRepository: ActivityRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+
+    mockChecklistRepository = {
+      save: mock(() => Promise.resolve()),
+      getNextPosition: mock(() => Promise.resolve(2)),
+    } as unknown as ChecklistRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    useCase = new CreateChecklistUseCase(
+      mockChecklistRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockActivityRepository
+    );
+  });
+
+  test("should create a checklist at the next position", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      title: "  Definition of done  ",
+    });
+
+    expect(result.checklist.title).toBe("Definition of done");
+    expect(result.checklist.position).toBe(2);
+    expect(result.checklist.cardId).toBe(testCard.id);
+    expect(mockChecklistRepository.save).toHaveBeenCalledTimes(1);
+  });
+
+  test("should log a CREATE activity for the checklist", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      title: "Subtasks",
+    });
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.action).toBe("CREATE");
+    expect(activity.entityType).toBe("CHECKLIST");
+    expect(activity.entityId).toBe(result.checklist.id);
+    expect(activity.cardId).toBe(testCard.id);
+  });
+
+  test("should deny VIEWER from creating checklists", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as BoardRole));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "viewer-1",
+      title: "Subtasks",
+    })).rejects.toThrow("Access denied");
+  });
+
+  test("should reject an empty title", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      title: "   ",
+    })).rejects.toThrow("Checklist title is required");
+  });
+
+  test("should throw error if card not found", async () => {
+    mockCardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({
+      cardId: "missing",
+      userId: "member-1",
+      title: "Subtasks",
+    })).rejects.toThrow("Card not found");
+  });
+});
\ No newline at end of file
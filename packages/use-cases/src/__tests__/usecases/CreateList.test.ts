@@ -3,6 +3,7 @@ import { CreateListUseCase } from "../../usecases/CreateList";
 import { ListRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
 import { List } from "@kanban/domain-core";
 import { Activity } from "@kanban/domain-core";
 
@@ -12,6 +13,7 @@ describe("CreateListUseCase", () => {
   let mockListRepository: ListRepository;
   let mockBoardRepository: BoardRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockEventPublisher: BoardEventPublisher;
   let testBoard: any;
 
   beforeEach(() => {
@@ -50,10 +52,15 @@ describe("CreateListUseCase", () => {
       findByUser: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
     useCase = new CreateListUseCase(
       mockListRepository,
       mockBoardRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher
     );
   });
 
@@ -137,6 +144,13 @@ describe("CreateListUseCase", () => {
       expect(activityCall.entityTitle).toBe("Logged List");
       expect(activityCall.userId).toBe("user-456");
       expect(activityCall.boardId).toBe("board-123");
+      expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "list.created",
+          boardId: "board-123",
+          payload: { list: expect.objectContaining({ title: "Logged List" }) },
+        })
+      );
     });
 
     test("should handle various color formats", async () => {
@@ -0,0 +1,72 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { CreateWebhookUseCase } from "../../usecases/CreateWebhook";
+import { BoardRepository } from "@kanban/domain-core";
+import { WebhookRepository } from "@kanban/domain-core";
+import { Board } from "@kanban/domain-core";
+import { BoardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("CreateWebhookUseCase", () => {
+  let useCase: CreateWebhookUseCase;
+  let mockWebhookRepository: WebhookRepository;
+  let mockBoardRepository: BoardRepository;
+  let testBoard: Board;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("owner-123").private().build();
+
+    mockWebhookRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as WebhookRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("ADMIN")),
+    } as unknown as BoardRepository;
+
+    useCase = new CreateWebhookUseCase(mockWebhookRepository, mockBoardRepository);
+  });
+
+  test("should let a board admin register a webhook", async () => {
+    const result = await useCase.execute({
+      userId: "user-123",
+      boardId: testBoard.id,
+      url: "https://ci.example.com/hooks/kanban",
+      events: ["CREATE", "MOVE"],
+    });
+
+    expect(result.webhook.boardId).toBe(testBoard.id);
+    expect(result.webhook.events).toEqual(["CREATE", "MOVE"]);
+    expect(result.webhook.creatorId).toBe("user-123");
+    expect(mockWebhookRepository.save).toHaveBeenCalledWith(result.webhook);
+  });
+
+  test("should deny members who are not admins", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("MEMBER"));
+
+    expect(useCase.execute({
+      userId: "user-123",
+      boardId: testBoard.id,
+      url: "https://ci.example.com/hooks/kanban",
+      events: ["CREATE"],
+    })).rejects.toThrow("Access denied");
+    expect(mockWebhookRepository.save).not.toHaveBeenCalled();
+  });
+
+  test("should reject URLs that are not http or https", async () => {
+    expect(useCase.execute({
+      userId: "owner-123",
+      boardId: testBoard.id,
+      url: "ftp://ci.example.com/hooks",
+      events: ["CREATE"],
+    })).rejects.toThrow("Webhook URL must use http or https");
+  });
+
+  test("should require at least one event", async () => {
+    expect(useCase.execute({
+      userId: "owner-123",
+      boardId: testBoard.id,
+      url: "https://ci.example.com/hooks/kanban",
+      events: [],
+    })).rejects.toThrow("At least one event is required");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { DeleteAttachmentUseCase } from "../../usecases/DeleteAttachment";
+import { AttachmentRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { FileStorage } from "@kanban/domain-core";
+import { Attachment, Board, BoardRole, Card, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("DeleteAttachmentUseCase", () => {
+  let useCase: DeleteAttachmentUseCase;
+  let mockAttachmentRepository: AttachmentRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockActivityRepository: ActivityRepository;
+  let mockFileStorage: FileStorage;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let testAttachment: Attachment;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testAttachment = Attachment.create({
+      filename: "spec.pdf",
+      url: "cards/card-1/attachment-1",
+      mimeType: "application/pdf",
+      size: 1024,
+      cardId: testCard.id,
+      uploaderId: "uploader-1",
+    });
+
+    mockAttachmentRepository = {
+      findById: mock(() => Promise.resolve(testAttachment)),
+      delete: mock(() => Promise.resolve()),
+    } as unknown as AttachmentRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    mockFileStorage = {
+      delete: mock(() => Promise.resolve()),
+    } as unknown as FileStorage;
+
+    useCase = new DeleteAttachmentUseCase(
+      mockAttachmentRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockActivityRepository,
+      mockFileStorage
+    );
+  });
+
+  test("should let the uploader delete their attachment", async () => {
+    const result = await useCase.execute({ attachmentId: testAttachment.id, userId: "uploader-1" });
+
+    expect(result.success).toBe(true);
+    expect(mockAttachmentRepository.delete).toHaveBeenCalledWith(testAttachment.id);
+    expect(mockFileStorage.delete).toHaveBeenCalledWith("cards/card-1/attachment-1");
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.action).toBe("DETACH");
+    expect(activity.entityType).toBe("CARD");
+    expect(activity.data).toEqual({ attachmentId: testAttachment.id, filename: "spec.pdf" });
+  });
+
+  test("should let the board owner delete any attachment", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    const result = await useCase.execute({ attachmentId: testAttachment.id, userId: "board-owner" });
+
+    expect(result.success).toBe(true);
+  });
+
+  test("should prevent a MEMBER from deleting someone else's attachment", async () => {
+    expect(useCase.execute({ attachmentId: testAttachment.id, userId: "member-2" }))
+      .rejects.toThrow("Access denied");
+    expect(mockFileStorage.delete).not.toHaveBeenCalled();
+  });
+
+  test("should throw error if attachment not found", async () => {
+    mockAttachmentRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ attachmentId: "missing", userId: "uploader-1" }))
+      .rejects.toThrow("Attachment not found");
+  });
+});
\ No newline at end of file
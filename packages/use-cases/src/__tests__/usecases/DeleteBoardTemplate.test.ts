@@ -0,0 +1,42 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { DeleteBoardTemplateUseCase } from "../../usecases/DeleteBoardTemplate";
+import { BoardTemplateRepository } from "@kanban/domain-core";
+import { BoardTemplate } from "@kanban/domain-core";
+
+describe("DeleteBoardTemplateUseCase", () => {
+  let useCase: DeleteBoardTemplateUseCase;
+  let mockBoardTemplateRepository: BoardTemplateRepository;
+  let testTemplate: BoardTemplate;
+
+  beforeEach(() => {
+    testTemplate = BoardTemplate.create({
+      name: "Sprint",
+      ownerId: "user-1",
+      blueprint: { labels: [], lists: [] },
+    });
+
+    mockBoardTemplateRepository = {
+      findById: mock(() => Promise.resolve(testTemplate)),
+      delete: mock(() => Promise.resolve()),
+    } as unknown as BoardTemplateRepository;
+
+    useCase = new DeleteBoardTemplateUseCase(mockBoardTemplateRepository);
+  });
+
+  test("should delete the owner's template", async () => {
+    await useCase.execute({ templateId: testTemplate.id, userId: "user-1" });
+
+    expect(mockBoardTemplateRepository.delete).toHaveBeenCalledWith(testTemplate.id);
+  });
+
+  test("should deny deleting someone else's template", async () => {
+    expect(useCase.execute({ templateId: testTemplate.id, userId: "user-2" })).rejects.toThrow("Access denied");
+    expect(mockBoardTemplateRepository.delete).not.toHaveBeenCalled();
+  });
+
+  test("should throw error when template does not exist", async () => {
+    mockBoardTemplateRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ templateId: "missing", userId: "user-1" })).rejects.toThrow("Template not found");
+  });
+});
\ No newline at end of file
@@ -5,6 +5,7 @@ import { UserRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
 
 import type { BoardRole } from "@kanban/domain-core";
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder, LabelBuilder } from "../../test/fixtures/entityFactories";
@@ -16,6 +17,7 @@ describe("DeleteCard", () => {
   let mockBoardRepository: BoardRepository;
   let mockListRepository: ListRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockEventPublisher: BoardEventPublisher;
 
   const testUserId = "user-123";
   const testCardId = "card-456";
@@ -92,12 +94,17 @@ describe("DeleteCard", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
     useCase = new DeleteCard(
       mockCardRepository,
       mockUserRepository,
       mockBoardRepository,
       mockListRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher
     );
   });
 
@@ -116,6 +123,13 @@ describe("DeleteCard", () => {
         description: 'deleted card "Card to Delete"',
       })
     );
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "card.deleted",
+        boardId: testBoardId,
+        payload: { cardId: testCardId, listId: testList.id },
+      })
+    );
   });
 
   test("should delete card successfully when user is board admin", async () => {
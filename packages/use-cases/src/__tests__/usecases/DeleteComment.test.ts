@@ -0,0 +1,111 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { DeleteCommentUseCase } from "../../usecases/DeleteComment";
+import { CommentRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, Comment, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("DeleteCommentUseCase", () => {
+  let useCase: DeleteCommentUseCase;
+  let mockCommentRepository: CommentRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockActivityRepository: ActivityRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let testComment: Comment;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testComment = Comment.create({
+      content: "To be removed",
+      cardId: testCard.id,
+      userId: "author-1",
+    });
+
+    mockCommentRepository = {
+      findById: mock(() => Promise.resolve(testComment)),
+      delete: mock(() => Promise.resolve()),
+    } as unknown as CommentRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    useCase = new DeleteCommentUseCase(
+      mockCommentRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockActivityRepository
+    );
+  });
+
+  test("should let the author delete their comment", async () => {
+    const result = await useCase.execute({ commentId: testComment.id, userId: "author-1" });
+
+    expect(result.success).toBe(true);
+    expect(mockCommentRepository.delete).toHaveBeenCalledWith(testComment.id);
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.action).toBe("DELETE");
+    expect(activity.entityType).toBe("COMMENT");
+    expect(activity.entityId).toBe(testComment.id);
+  });
+
+  test("should let an ADMIN delete someone else's comment", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("ADMIN" as BoardRole));
+
+    const result = await useCase.execute({ commentId: testComment.id, userId: "admin-1" });
+
+    expect(result.success).toBe(true);
+  });
+
+  test("should let the board owner delete any comment", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    const result = await useCase.execute({ commentId: testComment.id, userId: "board-owner" });
+
+    expect(result.success).toBe(true);
+  });
+
+  test("should prevent a MEMBER from deleting someone else's comment", async () => {
+    expect(useCase.execute({ commentId: testComment.id, userId: "member-2" }))
+      .rejects.toThrow("Access denied");
+    expect(mockCommentRepository.delete).not.toHaveBeenCalled();
+  });
+
+  test("should prevent an author demoted to VIEWER from deleting", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as BoardRole));
+
+    expect(useCase.execute({ commentId: testComment.id, userId: "author-1" }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if comment not found", async () => {
+    mockCommentRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ commentId: "missing", userId: "author-1" }))
+      .rejects.toThrow("Comment not found");
+  });
+});
\ No newline at end of file
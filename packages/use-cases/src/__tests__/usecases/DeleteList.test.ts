@@ -4,6 +4,7 @@ import { List } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
 
 import type { BoardRole } from "@kanban/domain-core";
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder, LabelBuilder } from "../../test/fixtures/entityFactories";
@@ -13,6 +14,7 @@ describe("DeleteListUseCase", () => {
   let mockListRepository: ListRepository;
   let mockBoardRepository: BoardRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockEventPublisher: BoardEventPublisher;
 
   const testUserId = "user-123";
   const testListId = "list-456";
@@ -63,10 +65,15 @@ describe("DeleteListUseCase", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
     useCase = new DeleteListUseCase(
       mockListRepository,
       mockBoardRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher
     );
   });
 
@@ -89,6 +96,13 @@ describe("DeleteListUseCase", () => {
       })
     );
     expect(mockListRepository.delete).toHaveBeenCalledWith(testListId);
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "list.deleted",
+        boardId: testBoardId,
+        payload: { listId: testListId },
+      })
+    );
   });
 
   test("should delete list successfully when user is board owner", async () => {
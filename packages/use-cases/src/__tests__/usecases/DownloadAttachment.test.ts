@@ -0,0 +1,88 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { DownloadAttachmentUseCase } from "../../usecases/DownloadAttachment";
+import { AttachmentRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { FileStorage } from "@kanban/domain-core";
+import { Attachment, Board, BoardRole, Card, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("DownloadAttachmentUseCase", () => {
+  let useCase: DownloadAttachmentUseCase;
+  let mockAttachmentRepository: AttachmentRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockFileStorage: FileStorage;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let testAttachment: Attachment;
+  const fileBytes = new Uint8Array([1, 2, 3]);
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").private().build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testAttachment = Attachment.create({
+      filename: "notes.txt",
+      url: "cards/card-1/attachment-1",
+      mimeType: "text/plain",
+      size: 3,
+      cardId: testCard.id,
+      uploaderId: "uploader-1",
+    });
+
+    mockAttachmentRepository = {
+      findById: mock(() => Promise.resolve(testAttachment)),
+    } as unknown as AttachmentRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("VIEWER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockFileStorage = {
+      get: mock(() => Promise.resolve(fileBytes)),
+    } as unknown as FileStorage;
+
+    useCase = new DownloadAttachmentUseCase(
+      mockAttachmentRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockFileStorage
+    );
+  });
+
+  test("should let a VIEWER download the file", async () => {
+    const result = await useCase.execute({ attachmentId: testAttachment.id, userId: "viewer-1" });
+
+    expect(result.attachment).toBe(testAttachment);
+    expect(result.data).toBe(fileBytes);
+    expect(mockFileStorage.get).toHaveBeenCalledWith("cards/card-1/attachment-1");
+  });
+
+  test("should deny non-members on a private board", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ attachmentId: testAttachment.id, userId: "stranger" }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if the stored file is missing", async () => {
+    mockFileStorage.get = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ attachmentId: testAttachment.id, userId: "viewer-1" }))
+      .rejects.toThrow("Attachment file not found");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { EditCommentUseCase } from "../../usecases/EditComment";
+import { CommentRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, Comment, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("EditCommentUseCase", () => {
+  let useCase: EditCommentUseCase;
+  let mockCommentRepository: CommentRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockActivityRepository: ActivityRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let testComment: Comment;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testComment = Comment.fromPersistence({
+      id: "comment-1",
+      content: "Original",
+      cardId: testCard.id,
+      userId: "author-1",
+      createdAt: new Date("2024-01-01T00:00:00Z"),
+      updatedAt: new Date("2024-01-01T00:00:00Z"),
+    });
+
+    mockCommentRepository = {
+      findById: mock(() => Promise.resolve(testComment)),
+      save: mock(() => Promise.resolve()),
+    } as unknown as CommentRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    useCase = new EditCommentUseCase(
+      mockCommentRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockActivityRepository
+    );
+  });
+
+  test("should let the author edit their comment", async () => {
+    const result = await useCase.execute({
+      commentId: "comment-1",
+      userId: "author-1",
+      content: "Edited",
+    });
+
+    expect(result.comment.content).toBe("Edited");
+    expect(result.comment.isEdited()).toBe(true);
+    expect(mockCommentRepository.save).toHaveBeenCalledTimes(1);
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.action).toBe("UPDATE");
+    expect(activity.entityType).toBe("COMMENT");
+    expect(activity.entityId).toBe("comment-1");
+    expect(activity.cardId).toBe(testCard.id);
+  });
+
+  test("should not save or log when content is unchanged", async () => {
+    await useCase.execute({
+      commentId: "comment-1",
+      userId: "author-1",
+      content: " Original ",
+    });
+
+    expect(mockCommentRepository.save).not.toHaveBeenCalled();
+    expect(mockActivityRepository.save).not.toHaveBeenCalled();
+  });
+
+  test("should prevent other members from editing", async () => {
+    expect(useCase.execute({
+      commentId: "comment-1",
+      userId: "someone-else",
+      content: "Hijacked",
+    })).rejects.toThrow("Only the author can edit this comment");
+  });
+
+  test("should prevent authors demoted to VIEWER from editing", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as BoardRole));
+
+    expect(useCase.execute({
+      commentId: "comment-1",
+      userId: "author-1",
+      content: "Edited",
+    })).rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if comment not found", async () => {
+    mockCommentRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({
+      commentId: "missing",
+      userId: "author-1",
+      content: "Edited",
+    })).rejects.toThrow("Comment not found");
+  });
+
+  test("should reject empty content", async () => {
+    expect(useCase.execute({
+      commentId: "comment-1",
+      userId: "author-1",
+      content: "",
+    })).rejects.toThrow("Comment content is required");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ExportBoardUseCase } from "../../usecases/ExportBoard";
+import { BoardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { LabelRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { ChecklistItemRepository } from "@kanban/domain-core";
+import { CommentRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { Board, Card, Checklist, ChecklistItem, Comment, Label, List, User, parseBoardExport } from "@kanban/domain-core";
+import { BoardBuilder, CardBuilder, LabelBuilder, ListBuilder, UserBuilder } from "../../test/fixtures/entityFactories";
+
+describe("ExportBoardUseCase", () => {
+  let useCase: ExportBoardUseCase;
+  let mockBoardRepository: BoardRepository;
+  let mockListRepository: ListRepository;
+  let mockLabelRepository: LabelRepository;
+  let mockCardRepository: CardRepository;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockChecklistItemRepository: ChecklistItemRepository;
+  let mockCommentRepository: CommentRepository;
+  let mockUserRepository: UserRepository;
+  let owner: User;
+  let member: User;
+  let formerMember: User;
+  let board: Board;
+  let todoList: List;
+  let bugLabel: Label;
+  let openCard: Card;
+  let archivedCard: Card;
+  let checklist: Checklist;
+  let item: ChecklistItem;
+  let comment: Comment;
+
+  beforeEach(() => {
+    owner = UserBuilder.valid().withEmail("owner@example.com").withUsername("owner").build();
+    member = UserBuilder.valid().withEmail("member@example.com").withUsername("member").build();
+    formerMember = UserBuilder.valid().withEmail("former@example.com").withUsername("former").build();
+    board = BoardBuilder.valid().withTitle("Roadmap").withOwner(owner.id).build();
+    todoList = ListBuilder.valid().withTitle("To Do").inBoard(board.id).build();
+    bugLabel = LabelBuilder.valid().withName("Bug").inBoard(board.id).build();
+    openCard = CardBuilder.valid()
+      .withTitle("Fix login")
+      .inList(todoList.id)
+      .createdBy(formerMember.id)
+      .assignedTo(member.id)
+      .withDueDate(new Date("2026-01-01T00:00:00Z"))
+      .build();
+    archivedCard = CardBuilder.valid().withTitle("Old idea").inList(todoList.id).createdBy(owner.id).archived().build();
+    checklist = Checklist.create({ title: "Steps", position: 1, cardId: openCard.id });
+    item = ChecklistItem.create({ content: "Reproduce", position: 1, checklistId: checklist.id });
+    comment = Comment.create({ content: "On it", cardId: openCard.id, userId: formerMember.id });
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(board)),
+      getMemberRole: mock(() => Promise.resolve(null)),
+      getMembers: mock(() => Promise.resolve([
+        { userId: owner.id, role: "OWNER", joinedAt: new Date() },
+        { userId: member.id, role: "MEMBER", joinedAt: new Date() },
+      ])),
+    } as unknown as BoardRepository;
+
+    mockListRepository = {
+      findByBoard: mock(() => Promise.resolve([todoList])),
+    } as unknown as ListRepository;
+
+    mockLabelRepository = {
+      findByBoard: mock(() => Promise.resolve([bugLabel])),
+      getLabelsByCards: mock(() => Promise.resolve(new Map([[openCard.id, [bugLabel]]]))),
+    } as unknown as LabelRepository;
+
+    mockCardRepository = {
+      findByList: mock(() => Promise.resolve([openCard, archivedCard])),
+    } as unknown as CardRepository;
+
+    mockChecklistRepository = {
+      findByCard: mock((cardId: string) => Promise.resolve(cardId === openCard.id ? [checklist] : [])),
+    } as unknown as ChecklistRepository;
+
+    mockChecklistItemRepository = {
+      findByChecklists: mock(() => Promise.resolve([item])),
+    } as unknown as ChecklistItemRepository;
+
+    mockCommentRepository = {
+      findByCard: mock((cardId: string) => Promise.resolve(cardId === openCard.id ? [comment] : [])),
+    } as unknown as CommentRepository;
+
+    mockUserRepository = {
+      findByIds: mock(() => Promise.resolve([owner, member, formerMember])),
+    } as unknown as UserRepository;
+
+    useCase = new ExportBoardUseCase(
+      mockBoardRepository,
+      mockListRepository,
+      mockLabelRepository,
+      mockCardRepository,
+      mockChecklistRepository,
+      mockChecklistItemRepository,
+      mockCommentRepository,
+      mockUserRepository
+    );
+  });
+
+  test("should export the whole board, archived cards included", async () => {
+    const { document } = await useCase.execute({ boardId: board.id, userId: owner.id });
+
+    expect(document.format).toBe("kanban-board-export");
+    expect(document.version).toBe(1);
+    expect(document.board.title).toBe("Roadmap");
+    expect(document.lists.map(list => list.id)).toEqual([todoList.id]);
+    expect(document.cards.map(card => [card.title, card.isArchived])).toEqual([
+      ["Fix login", false],
+      ["Old idea", true],
+    ]);
+    expect(document.cards[0]!.dueDate).toBe("2026-01-01T00:00:00.000Z");
+    expect(document.cardLabels).toEqual([{ cardId: openCard.id, labelId: bugLabel.id }]);
+    expect(document.checklistItems.map(checklistItem => checklistItem.checklistId)).toEqual([checklist.id]);
+    expect(document.comments).toEqual([expect.objectContaining({ authorId: formerMember.id, content: "On it" })]);
+    expect(mockCardRepository.findByList).toHaveBeenCalledWith(todoList.id, expect.objectContaining({ includeArchived: true }));
+  });
+
+  test("should reference members with their roles and other people without one", async () => {
+    const { document } = await useCase.execute({ boardId: board.id, userId: owner.id });
+
+    expect(document.members.map(person => [person.email, person.role])).toEqual([
+      ["owner@example.com", "OWNER"],
+      ["member@example.com", "MEMBER"],
+      ["former@example.com", undefined],
+    ]);
+    const requestedIds = (mockUserRepository.findByIds as any).mock.calls[0][0];
+    expect(requestedIds.sort()).toEqual([owner.id, member.id, formerMember.id].sort());
+  });
+
+  test("should produce a document its own parser accepts", async () => {
+    const { document } = await useCase.execute({ boardId: board.id, userId: owner.id });
+
+    expect(parseBoardExport(JSON.parse(JSON.stringify(document)))).toEqual(
+      JSON.parse(JSON.stringify(document))
+    );
+  });
+
+  test("should only let owners and admins export", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("MEMBER" as const));
+
+    await expect(useCase.execute({ boardId: board.id, userId: member.id })).rejects.toThrow("Access denied");
+    expect(mockListRepository.findByBoard).not.toHaveBeenCalled();
+  });
+
+  test("should throw error when board not found", async () => {
+    mockBoardRepository.findById = mock(() => Promise.resolve(null));
+
+    await expect(useCase.execute({ boardId: "missing", userId: owner.id })).rejects.toThrow("Board not found");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ExportCardsCsvUseCase } from "../../usecases/ExportCardsCsv";
+import { BoardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { LabelRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { Board, Card, Label, List, User, parseCsv } from "@kanban/domain-core";
+import { BoardBuilder, CardBuilder, LabelBuilder, ListBuilder, UserBuilder } from "../../test/fixtures/entityFactories";
+
+describe("ExportCardsCsvUseCase", () => {
+  let useCase: ExportCardsCsvUseCase;
+  let mockBoardRepository: BoardRepository;
+  let mockListRepository: ListRepository;
+  let mockLabelRepository: LabelRepository;
+  let mockCardRepository: CardRepository;
+  let mockUserRepository: UserRepository;
+  let owner: User;
+  let alice: User;
+  let board: Board;
+  let todoList: List;
+  let bugLabel: Label;
+  let openCard: Card;
+  let archivedCard: Card;
+
+  beforeEach(() => {
+    owner = UserBuilder.valid().withUsername("owner").build();
+    alice = UserBuilder.valid().withUsername("alice").build();
+    board = BoardBuilder.valid().withOwner(owner.id).build();
+    todoList = ListBuilder.valid().withTitle("To Do").inBoard(board.id).build();
+    bugLabel = LabelBuilder.valid().withName("Bug").inBoard(board.id).build();
+    openCard = CardBuilder.valid()
+      .withTitle("Fix login, then ship")
+      .inList(todoList.id)
+      .assignedTo(alice.id)
+      .withDueDate(new Date("2026-01-01T00:00:00.000Z"))
+      .build();
+    archivedCard = CardBuilder.valid().withTitle("Old idea").inList(todoList.id).archived().build();
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(board)),
+      getMemberRole: mock(() => Promise.resolve(null)),
+    } as unknown as BoardRepository;
+
+    mockListRepository = {
+      findByBoard: mock(() => Promise.resolve([todoList])),
+    } as unknown as ListRepository;
+
+    mockLabelRepository = {
+      getLabelsByCards: mock(() => Promise.resolve(new Map([[openCard.id, [bugLabel]]]))),
+    } as unknown as LabelRepository;
+
+    mockCardRepository = {
+      findByList: mock(() => Promise.resolve([openCard, archivedCard])),
+    } as unknown as CardRepository;
+
+    mockUserRepository = {
+      findByIds: mock(() => Promise.resolve([alice])),
+    } as unknown as UserRepository;
+
+    useCase = new ExportCardsCsvUseCase(
+      mockBoardRepository,
+      mockListRepository,
+      mockLabelRepository,
+      mockCardRepository,
+      mockUserRepository
+    );
+  });
+
+  test("should write a row per card, archived ones included", async () => {
+    const result = await useCase.execute({ boardId: board.id, userId: owner.id });
+
+    expect(parseCsv(result.csv)).toEqual([
+      ["Title", "List", "Labels", "Assignees", "Start date", "Due date", "Archived", "Created"],
+      ["Fix login, then ship", "To Do", "Bug", "alice", "", "2026-01-01T00:00:00.000Z", "false", openCard.createdAt.toISOString()],
+      ["Old idea", "To Do", "", "", "", "", "true", archivedCard.createdAt.toISOString()],
+    ]);
+    expect(mockCardRepository.findByList).toHaveBeenCalledWith(todoList.id, { includeArchived: true, orderBy: "position", order: "asc" });
+  });
+
+  test("should write only the requested columns, in the requested order", async () => {
+    const result = await useCase.execute({ boardId: board.id, userId: owner.id, columns: ["dueDate", "title"] });
+
+    expect(parseCsv(result.csv)).toEqual([
+      ["Due date", "Title"],
+      ["2026-01-01T00:00:00.000Z", "Fix login, then ship"],
+      ["", "Old idea"],
+    ]);
+    expect(mockLabelRepository.getLabelsByCards).not.toHaveBeenCalled();
+    expect(mockUserRepository.findByIds).not.toHaveBeenCalled();
+  });
+
+  test("should throw error when the user cannot view the board", async () => {
+    await expect(useCase.execute({ boardId: board.id, userId: alice.id }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error when board not found", async () => {
+    mockBoardRepository.findById = mock(() => Promise.resolve(null));
+
+    await expect(useCase.execute({ boardId: "missing", userId: owner.id }))
+      .rejects.toThrow("Board not found");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GetBoardActivityUseCase } from "../../usecases/GetBoardActivity";
+import { ActivityRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { Activity, Board, BoardRole, User } from "@kanban/domain-core";
+import { ActivityBuilder, BoardBuilder, UserBuilder } from "../../test/fixtures/entityFactories";
+
+describe("GetBoardActivityUseCase", () => {
+  let useCase: GetBoardActivityUseCase;
+  let mockActivityRepository: ActivityRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockUserRepository: UserRepository;
+  let testBoard: Board;
+  let testUser: User;
+  let testActivities: Activity[];
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").private().build();
+    testUser = UserBuilder.valid().withUsername("alice").withAvatarUrl("https://example.com/a.png").build();
+    testActivities = [
+      ActivityBuilder.valid().withUserId(testUser.id).inBoard(testBoard.id).build(),
+      ActivityBuilder.valid().withUserId(testUser.id).inBoard(testBoard.id).build(),
+      ActivityBuilder.valid().withUserId("deleted-user").inBoard(testBoard.id).build(),
+    ];
+
+    mockActivityRepository = {
+      findByBoard: mock(() => Promise.resolve(testActivities)),
+    } as unknown as ActivityRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("VIEWER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockUserRepository = {
+      findByIds: mock(() => Promise.resolve([testUser])),
+    } as unknown as UserRepository;
+
+    useCase = new GetBoardActivityUseCase(
+      mockActivityRepository,
+      mockBoardRepository,
+      mockUserRepository
+    );
+  });
+
+  test("should return activities with actor details", async () => {
+    const result = await useCase.execute({ boardId: testBoard.id, userId: "viewer-1" });
+
+    expect(result.entries).toHaveLength(3);
+    expect(result.entries[0]!.actor).toEqual({
+      id: testUser.id,
+      username: "alice",
+      name: testUser.name,
+      avatarUrl: "https://example.com/a.png",
+    });
+    expect(result.entries[2]!.actor).toBeNull();
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  test("should load actors in a single batch", async () => {
+    await useCase.execute({ boardId: testBoard.id, userId: "viewer-1" });
+
+    expect(mockUserRepository.findByIds).toHaveBeenCalledTimes(1);
+    expect(mockUserRepository.findByIds).toHaveBeenCalledWith([testUser.id, "deleted-user"]);
+  });
+
+  test("should fetch one extra row and return a cursor when more pages exist", async () => {
+    const result = await useCase.execute({ boardId: testBoard.id, userId: "viewer-1", limit: 2 });
+
+    expect((mockActivityRepository.findByBoard as any).mock.calls[0][1].limit).toBe(3);
+    expect(result.entries).toHaveLength(2);
+    expect(result.nextCursor).toBe(testActivities[1]!.id);
+  });
+
+  test("should pass cursor and filters to the repository", async () => {
+    const fromDate = new Date("2026-01-01");
+    const toDate = new Date("2026-02-01");
+
+    await useCase.execute({
+      boardId: testBoard.id,
+      userId: "viewer-1",
+      cursor: "activity-10",
+      actorId: testUser.id,
+      entityType: "CARD",
+      action: "MOVE",
+      fromDate,
+      toDate,
+    });
+
+    expect(mockActivityRepository.findByBoard).toHaveBeenCalledWith(testBoard.id, {
+      limit: 21,
+      cursor: "activity-10",
+      userId: testUser.id,
+      entityType: "CARD",
+      action: "MOVE",
+      fromDate,
+      toDate,
+    });
+  });
+
+  test("should cap the page size", async () => {
+    await useCase.execute({ boardId: testBoard.id, userId: "viewer-1", limit: 1000 });
+
+    expect((mockActivityRepository.findByBoard as any).mock.calls[0][1].limit).toBe(101);
+  });
+
+  test("should deny non-members on a private board", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ boardId: testBoard.id, userId: "stranger" }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if board not found", async () => {
+    mockBoardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ boardId: "missing", userId: "viewer-1" }))
+      .rejects.toThrow("Board not found");
+  });
+});
\ No newline at end of file
@@ -50,6 +50,7 @@ describe("GetBoardLabelsUseCase", () => {
       addToCard: mock(() => Promise.resolve()),
       removeFromCard: mock(() => Promise.resolve()),
       getCardLabels: mock(() => Promise.resolve([])),
+      getLabelsByCards: mock(() => Promise.resolve(new Map())),
       isAttachedToCard: mock(() => Promise.resolve(false)),
       existsInBoard: mock(() => Promise.resolve(false)),
     } as unknown as LabelRepository;
@@ -0,0 +1,91 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GetBoardMembersUseCase } from "../../usecases/GetBoardMembers";
+import { BoardRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { Board, BoardMember, BoardRole, User } from "@kanban/domain-core";
+import { BoardBuilder, UserBuilder } from "../../test/fixtures/entityFactories";
+
+describe("GetBoardMembersUseCase", () => {
+  let useCase: GetBoardMembersUseCase;
+  let mockBoardRepository: BoardRepository;
+  let mockUserRepository: UserRepository;
+  let owner: User;
+  let admin: User;
+  let viewer: User;
+  let testBoard: Board;
+  let members: BoardMember[];
+
+  beforeEach(() => {
+    owner = UserBuilder.valid().withUsername("owner").build();
+    admin = UserBuilder.valid().withUsername("admin").build();
+    viewer = UserBuilder.valid().withUsername("viewer").withAvatarUrl("https://example.com/v.png").build();
+    testBoard = BoardBuilder.valid().withOwner(owner.id).private().build();
+    members = [
+      { userId: viewer.id, role: "VIEWER", joinedAt: new Date("2026-01-01") },
+      { userId: admin.id, role: "ADMIN", joinedAt: new Date("2026-01-02") },
+      { userId: owner.id, role: "OWNER", joinedAt: new Date("2025-12-31") },
+    ];
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("VIEWER" as BoardRole)),
+      getMembers: mock(() => Promise.resolve(members)),
+    } as unknown as BoardRepository;
+
+    mockUserRepository = {
+      findByIds: mock((ids: string[]) =>
+        Promise.resolve([owner, admin, viewer].filter(user => ids.includes(user.id)))
+      ),
+    } as unknown as UserRepository;
+
+    useCase = new GetBoardMembersUseCase(mockBoardRepository, mockUserRepository);
+  });
+
+  test("should return members with profiles ordered by role", async () => {
+    const result = await useCase.execute({ boardId: testBoard.id, userId: viewer.id });
+
+    expect(result.members.map(member => member.role)).toEqual(["OWNER", "ADMIN", "VIEWER"]);
+    expect(result.members[2]!.user.username).toBe("viewer");
+    expect(result.members[2]!.user.avatarUrl).toBe("https://example.com/v.png");
+    expect(mockUserRepository.findByIds).toHaveBeenCalledTimes(1);
+  });
+
+  test("should include the owner even without an OWNER membership row", async () => {
+    members = members.filter(member => member.role !== "OWNER");
+
+    const result = await useCase.execute({ boardId: testBoard.id, userId: viewer.id });
+
+    expect(result.members[0]!.userId).toBe(owner.id);
+    expect(result.members[0]!.role).toBe("OWNER");
+    expect(result.members[0]!.joinedAt).toBe(testBoard.createdAt);
+  });
+
+  test("should filter by role", async () => {
+    const result = await useCase.execute({ boardId: testBoard.id, userId: viewer.id, role: "ADMIN" });
+
+    expect(result.members).toHaveLength(1);
+    expect(result.members[0]!.user.username).toBe("admin");
+  });
+
+  test("should skip members whose user no longer exists", async () => {
+    members.push({ userId: "deleted-user", role: "MEMBER", joinedAt: new Date() });
+
+    const result = await useCase.execute({ boardId: testBoard.id, userId: viewer.id });
+
+    expect(result.members).toHaveLength(3);
+  });
+
+  test("should deny non-members on a private board", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ boardId: testBoard.id, userId: "stranger" }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if board not found", async () => {
+    mockBoardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ boardId: "missing", userId: viewer.id }))
+      .rejects.toThrow("Board not found");
+  });
+});
\ No newline at end of file
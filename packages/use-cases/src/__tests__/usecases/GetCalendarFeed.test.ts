@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GetCalendarFeedUseCase } from "../../usecases/GetCalendarFeed";
+import { BoardRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { Board, Card, List, User } from "@kanban/domain-core";
+import { BoardBuilder, CardBuilder, ListBuilder, UserBuilder } from "../../test/fixtures/entityFactories";
+
+describe("GetCalendarFeedUseCase", () => {
+  let useCase: GetCalendarFeedUseCase;
+  let mockUserRepository: UserRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let user: User;
+  let board: Board;
+  let formerBoard: Board;
+  let list: List;
+  let formerList: List;
+  let dueCard: Card;
+  let spanCard: Card;
+  let formerCard: Card;
+
+  const unfold = (calendar: string) => calendar.replace(/\r\n /g, "");
+
+  beforeEach(() => {
+    user = UserBuilder.valid().withName("Alice").build();
+    const token = user.regenerateCalendarToken();
+    board = BoardBuilder.valid().withTitle("Roadmap").withOwner(user.id).build();
+    formerBoard = BoardBuilder.valid().withTitle("Old team").build();
+    list = ListBuilder.valid().withTitle("To Do").inBoard(board.id).build();
+    formerList = ListBuilder.valid().inBoard(formerBoard.id).build();
+    dueCard = CardBuilder.valid()
+      .withTitle("Send invoice")
+      .inList(list.id)
+      .withDueDate(new Date("2026-03-10T12:00:00.000Z"))
+      .build();
+    spanCard = Card.fromPersistence({
+      ...CardBuilder.valid().withTitle("Launch week").inList(list.id).build().toJSON(),
+      startDate: new Date("2026-03-02T09:00:00.000Z"),
+      dueDate: new Date("2026-03-06T17:00:00.000Z"),
+    });
+    formerCard = CardBuilder.valid().inList(formerList.id).withDueDate(new Date("2026-03-01T00:00:00.000Z")).build();
+
+    mockUserRepository = {
+      findByCalendarToken: mock((calendarToken: string) => Promise.resolve(calendarToken === token ? user : null)),
+    } as unknown as UserRepository;
+
+    mockCardRepository = {
+      findByAssignee: mock(() => Promise.resolve([dueCard, spanCard, formerCard])),
+      findByBoard: mock(() => Promise.resolve([dueCard])),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock((id: string) => Promise.resolve([list, formerList].find(candidate => candidate.id === id) ?? null)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock((id: string) => Promise.resolve([board, formerBoard].find(candidate => candidate.id === id) ?? null)),
+      getMemberRole: mock(() => Promise.resolve(null)),
+    } as unknown as BoardRepository;
+
+    useCase = new GetCalendarFeedUseCase(
+      mockUserRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      { appUrl: "https://kanban.example.com" }
+    );
+  });
+
+  test("should list the user's assigned and watched cards, soonest first", async () => {
+    const result = await useCase.execute({ token: user.calendarToken! });
+    const calendar = unfold(result.calendar);
+
+    expect(mockCardRepository.findByAssignee).toHaveBeenCalledWith(user.id, { includeWatched: true, scheduled: true });
+    expect(calendar).toContain("X-WR-CALNAME:Cards for Alice");
+    expect(calendar.match(/SUMMARY:.*/g)).toEqual(["SUMMARY:Launch week", "SUMMARY:Send invoice"]);
+    expect(calendar).toContain("DTSTART:20260302T090000Z\r\nDTEND:20260306T170000Z");
+    expect(calendar).toContain("DTSTART:20260310T120000Z\r\nSUMMARY:Send invoice");
+    expect(calendar).toContain(`URL:https://kanban.example.com/board/${board.id}?card=${dueCard.id}`);
+    expect(calendar).toContain("DESCRIPTION:Roadmap / To Do");
+  });
+
+  test("should leave out cards on boards the user can no longer view", async () => {
+    const result = await useCase.execute({ token: user.calendarToken! });
+
+    expect(result.calendar).not.toContain(formerCard.id);
+  });
+
+  test("should list a board's cards for a board feed", async () => {
+    const result = await useCase.execute({ token: user.calendarToken!, boardId: board.id });
+
+    expect(mockCardRepository.findByBoard).toHaveBeenCalledWith(board.id, { scheduled: true });
+    expect(result.calendar).toContain("X-WR-CALNAME:Roadmap");
+    expect(result.calendar).toContain(`UID:${dueCard.id}@kanban`);
+  });
+
+  test("should throw error when the board feed is for a board the user cannot view", async () => {
+    await expect(useCase.execute({ token: user.calendarToken!, boardId: formerBoard.id }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error for an unknown or revoked token", async () => {
+    await expect(useCase.execute({ token: "not-a-token" })).rejects.toThrow("Calendar feed not found");
+    await expect(useCase.execute({ token: "" })).rejects.toThrow("Calendar feed not found");
+  });
+});
\ No newline at end of file
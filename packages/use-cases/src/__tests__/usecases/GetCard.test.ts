@@ -323,7 +323,7 @@ describe("GetCard", () => {
     const result = await useCase.execute(testCardId, testUserId);
 
     expect(result).toBeDefined();
-    expect(result.assigneeId).toBe(assigneeId);
+    expect(result.assigneeIds).toEqual([assigneeId]);
   });
 
   test("should preserve all card properties in response", async () => {
@@ -347,7 +347,7 @@ describe("GetCard", () => {
     expect(result.description).toBe("A detailed test card");
     expect(result.listId).toBe(testListId);
     expect(result.creatorId).toBe(testUserId);
-    expect(result.assigneeId).toBe("assignee-789");
+    expect(result.assigneeIds).toEqual(["assignee-789"]);
     expect(result.dueDate).toEqual(new Date("2024-12-31"));
     expect(result.startDate).toEqual(new Date("2024-01-01"));
     expect(result.coverUrl).toBe("https://example.com/cover.jpg");
@@ -0,0 +1,97 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GetCardActivityUseCase } from "../../usecases/GetCardActivity";
+import { ActivityRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, List } from "@kanban/domain-core";
+import { ActivityBuilder, BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("GetCardActivityUseCase", () => {
+  let useCase: GetCardActivityUseCase;
+  let mockActivityRepository: ActivityRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockUserRepository: UserRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").private().build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+
+    mockActivityRepository = {
+      findByCard: mock(() => Promise.resolve([
+        ActivityBuilder.valid().withUserId("board-owner").inBoard(testBoard.id).build(),
+      ])),
+    } as unknown as ActivityRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("VIEWER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockUserRepository = {
+      findByIds: mock(() => Promise.resolve([])),
+    } as unknown as UserRepository;
+
+    useCase = new GetCardActivityUseCase(
+      mockActivityRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockUserRepository
+    );
+  });
+
+  test("should let a VIEWER read card activity", async () => {
+    const result = await useCase.execute({ cardId: testCard.id, userId: "viewer-1" });
+
+    expect(result.entries).toHaveLength(1);
+    expect(result.nextCursor).toBeUndefined();
+  });
+
+  test("should pass cursor and filters to the repository", async () => {
+    await useCase.execute({
+      cardId: testCard.id,
+      userId: "viewer-1",
+      cursor: "activity-5",
+      limit: 10,
+      actorId: "board-owner",
+      action: "UPDATE",
+    });
+
+    expect(mockActivityRepository.findByCard).toHaveBeenCalledWith(testCard.id, {
+      limit: 11,
+      cursor: "activity-5",
+      userId: "board-owner",
+      action: "UPDATE",
+    });
+  });
+
+  test("should deny non-members on a private board", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ cardId: testCard.id, userId: "stranger" }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if card not found", async () => {
+    mockCardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ cardId: "missing", userId: "viewer-1" }))
+      .rejects.toThrow("Card not found");
+  });
+});
\ No newline at end of file
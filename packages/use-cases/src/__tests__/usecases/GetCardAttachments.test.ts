@@ -0,0 +1,81 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GetCardAttachmentsUseCase } from "../../usecases/GetCardAttachments";
+import { AttachmentRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { Attachment, Board, BoardRole, Card, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("GetCardAttachmentsUseCase", () => {
+  let useCase: GetCardAttachmentsUseCase;
+  let mockAttachmentRepository: AttachmentRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let testAttachments: Attachment[];
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").private().build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testAttachments = [
+      Attachment.create({
+        filename: "a.png",
+        url: "cards/card-1/a",
+        mimeType: "image/png",
+        size: 10,
+        cardId: testCard.id,
+        uploaderId: "user-1",
+      }),
+    ];
+
+    mockAttachmentRepository = {
+      findByCard: mock(() => Promise.resolve(testAttachments)),
+    } as unknown as AttachmentRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("VIEWER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    useCase = new GetCardAttachmentsUseCase(
+      mockAttachmentRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository
+    );
+  });
+
+  test("should list attachments for a VIEWER", async () => {
+    const result = await useCase.execute({ cardId: testCard.id, userId: "viewer-1" });
+
+    expect(result.attachments).toHaveLength(1);
+    expect(mockAttachmentRepository.findByCard).toHaveBeenCalledWith(testCard.id);
+  });
+
+  test("should deny non-members on a private board", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ cardId: testCard.id, userId: "stranger" }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if card not found", async () => {
+    mockCardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ cardId: "missing", userId: "viewer-1" }))
+      .rejects.toThrow("Card not found");
+  });
+});
\ No newline at end of file
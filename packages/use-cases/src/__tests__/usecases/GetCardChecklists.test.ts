@@ -0,0 +1,86 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GetCardChecklistsUseCase } from "../../usecases/GetCardChecklists";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { ChecklistItemRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, Checklist, ChecklistItem, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("GetCardChecklistsUseCase", () => {
+  let useCase: GetCardChecklistsUseCase;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockChecklistItemRepository: ChecklistItemRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let firstChecklist: Checklist;
+  let secondChecklist: Checklist;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").private().build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    firstChecklist = Checklist.create({ title: "Backend", position: 1, cardId: testCard.id });
+    secondChecklist = Checklist.create({ title: "Frontend", position: 2, cardId: testCard.id });
+
+    const items = [
+      ChecklistItem.create({ content: "API", position: 2, checklistId: firstChecklist.id }),
+      ChecklistItem.create({ content: "Schema", position: 1, checklistId: firstChecklist.id }),
+      ChecklistItem.create({ content: "Page", position: 1, checklistId: secondChecklist.id }),
+    ];
+
+    mockChecklistRepository = {
+      findByCard: mock(() => Promise.resolve([firstChecklist, secondChecklist])),
+    } as unknown as ChecklistRepository;
+
+    mockChecklistItemRepository = {
+      findByChecklists: mock(() => Promise.resolve(items)),
+    } as unknown as ChecklistItemRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("VIEWER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    useCase = new GetCardChecklistsUseCase(
+      mockChecklistRepository,
+      mockChecklistItemRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository
+    );
+  });
+
+  test("should group items under their checklist in position order", async () => {
+    const result = await useCase.execute({ cardId: testCard.id, userId: "viewer-1" });
+
+    expect(result.checklists).toHaveLength(2);
+    expect(result.checklists[0].checklist.title).toBe("Backend");
+    expect(result.checklists[0].items.map(item => item.content)).toEqual(["Schema", "API"]);
+    expect(result.checklists[1].items.map(item => item.content)).toEqual(["Page"]);
+    expect(mockChecklistItemRepository.findByChecklists).toHaveBeenCalledWith([
+      firstChecklist.id,
+      secondChecklist.id,
+    ]);
+  });
+
+  test("should deny non-members on a private board", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ cardId: testCard.id, userId: "stranger" }))
+      .rejects.toThrow("Access denied");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GetCardCommentsUseCase } from "../../usecases/GetCardComments";
+import { CommentRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, Comment, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("GetCardCommentsUseCase", () => {
+  let useCase: GetCardCommentsUseCase;
+  let mockCommentRepository: CommentRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let testComments: Comment[];
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").private().build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testComments = [
+      Comment.create({ content: "First", cardId: testCard.id, userId: "user-1" }),
+      Comment.create({ content: "Second", cardId: testCard.id, userId: "user-2" }),
+    ];
+
+    mockCommentRepository = {
+      findByCard: mock(() => Promise.resolve(testComments)),
+      countByCard: mock(() => Promise.resolve(testComments.length)),
+    } as unknown as CommentRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("VIEWER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    useCase = new GetCardCommentsUseCase(
+      mockCommentRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository
+    );
+  });
+
+  test("should let a VIEWER read comments", async () => {
+    const result = await useCase.execute({ cardId: testCard.id, userId: "viewer-1" });
+
+    expect(result.comments).toHaveLength(2);
+    expect(result.total).toBe(2);
+  });
+
+  test("should pass pagination options to the repository", async () => {
+    await useCase.execute({
+      cardId: testCard.id,
+      userId: "viewer-1",
+      limit: 10,
+      offset: 20,
+      order: "desc",
+    });
+
+    expect(mockCommentRepository.findByCard).toHaveBeenCalledWith(testCard.id, {
+      limit: 10,
+      offset: 20,
+      order: "desc",
+    });
+  });
+
+  test("should deny non-members on a private board", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ cardId: testCard.id, userId: "stranger" }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should allow non-members on a public board", async () => {
+    const publicBoard = BoardBuilder.valid().withOwner("board-owner").public().build();
+    mockBoardRepository.findById = mock(() => Promise.resolve(publicBoard));
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    const result = await useCase.execute({ cardId: testCard.id, userId: "stranger" });
+
+    expect(result.comments).toHaveLength(2);
+  });
+
+  test("should throw error if card not found", async () => {
+    mockCardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ cardId: "missing", userId: "viewer-1" }))
+      .rejects.toThrow("Card not found");
+  });
+});
\ No newline at end of file
@@ -75,6 +75,7 @@ describe("GetCardLabelsUseCase", () => {
       addToCard: mock(() => Promise.resolve()),
       removeFromCard: mock(() => Promise.resolve()),
       getCardLabels: mock(() => Promise.resolve(testLabels)),
+      getLabelsByCards: mock(() => Promise.resolve(new Map())),
       isAttachedToCard: mock(() => Promise.resolve(false)),
       existsInBoard: mock(() => Promise.resolve(false)),
     } as unknown as LabelRepository;
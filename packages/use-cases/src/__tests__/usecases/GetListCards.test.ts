@@ -278,7 +278,7 @@ describe("GetListCards", () => {
     expect(result).toHaveLength(3);
     expect(result[0].title).toBe("Simple Card");
     expect(result[1].title).toBe("Assigned Card");
-    expect(result[1].assigneeId).toBe("assignee-123");
+    expect(result[1].assigneeIds).toEqual(["assignee-123"]);
     expect(result[1].dueDate).toEqual(new Date("2024-12-31"));
     expect(result[2].title).toBe("Detailed Card");
     expect(result[2].description).toBe("Card with description");
@@ -551,10 +551,10 @@ describe("GetListCards", () => {
 
     expect(result).toHaveLength(3);
     expect(result[0].title).toBe("Unassigned Card");
-    expect(result[0].assigneeId).toBeUndefined();
+    expect(result[0].assigneeIds).toEqual([]);
     expect(result[1].title).toBe("Self-assigned Card");
-    expect(result[1].assigneeId).toBe(testUserId);
+    expect(result[1].assigneeIds).toEqual([testUserId]);
     expect(result[2].title).toBe("Other-assigned Card");
-    expect(result[2].assigneeId).toBe("other-user");
+    expect(result[2].assigneeIds).toEqual(["other-user"]);
   });
 });
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GetNotificationsUseCase } from "../../usecases/GetNotifications";
+import { NotificationRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { Notification, User } from "@kanban/domain-core";
+import { UserBuilder } from "../../test/fixtures/entityFactories";
+
+const notificationFor = (userId: string, actorId: string) => Notification.create({
+  type: "CARD_ASSIGNED",
+  userId,
+  actorId,
+  message: 'assigned you to "Fix login"',
+  boardId: "board-123",
+  cardId: "card-123",
+});
+
+describe("GetNotificationsUseCase", () => {
+  let useCase: GetNotificationsUseCase;
+  let mockNotificationRepository: NotificationRepository;
+  let mockUserRepository: UserRepository;
+  let actor: User;
+
+  beforeEach(() => {
+    actor = UserBuilder.valid().withUsername("alice").build();
+
+    mockNotificationRepository = {
+      findByUser: mock(() => Promise.resolve([
+        notificationFor("user-123", actor.id),
+        notificationFor("user-123", actor.id),
+        notificationFor("user-123", actor.id),
+      ])),
+      countUnread: mock(() => Promise.resolve(7)),
+    } as unknown as NotificationRepository;
+
+    mockUserRepository = {
+      findByIds: mock(() => Promise.resolve([actor])),
+    } as unknown as UserRepository;
+
+    useCase = new GetNotificationsUseCase(mockNotificationRepository, mockUserRepository);
+  });
+
+  test("should return a page with actors and the total unread count", async () => {
+    const result = await useCase.execute({ userId: "user-123", limit: 2, unreadOnly: true });
+
+    expect(result.entries).toHaveLength(2);
+    expect(result.entries[0]!.actor?.username).toBe("alice");
+    expect(result.nextCursor).toBe(result.entries[1]!.notification.id);
+    expect(result.unreadCount).toBe(7);
+    expect(mockNotificationRepository.findByUser).toHaveBeenCalledWith("user-123", {
+      unreadOnly: true,
+      cursor: undefined,
+      limit: 3,
+    });
+  });
+
+  test("should not return a cursor on the last page", async () => {
+    const result = await useCase.execute({ userId: "user-123" });
+
+    expect(result.entries).toHaveLength(3);
+    expect(result.nextCursor).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GetUserActivityUseCase } from "../../usecases/GetUserActivity";
+import { ActivityRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { Board, User } from "@kanban/domain-core";
+import { ActivityBuilder, BoardBuilder, UserBuilder } from "../../test/fixtures/entityFactories";
+
+describe("GetUserActivityUseCase", () => {
+  let useCase: GetUserActivityUseCase;
+  let mockActivityRepository: ActivityRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockUserRepository: UserRepository;
+  let testBoard: Board;
+  let testUser: User;
+
+  beforeEach(() => {
+    testUser = UserBuilder.valid().withUsername("alice").build();
+    testBoard = BoardBuilder.valid().withOwner("board-owner").private().build();
+
+    mockActivityRepository = {
+      findByUser: mock(() => Promise.resolve([
+        ActivityBuilder.valid().withUserId(testUser.id).inBoard(testBoard.id).build(),
+      ])),
+    } as unknown as ActivityRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve(null)),
+    } as unknown as BoardRepository;
+
+    mockUserRepository = {
+      findByIds: mock(() => Promise.resolve([testUser])),
+    } as unknown as UserRepository;
+
+    useCase = new GetUserActivityUseCase(
+      mockActivityRepository,
+      mockBoardRepository,
+      mockUserRepository
+    );
+  });
+
+  test("should return the user's own activity without a board check", async () => {
+    const result = await useCase.execute({ userId: testUser.id });
+
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0]!.actor?.username).toBe("alice");
+    expect(mockBoardRepository.findById).not.toHaveBeenCalled();
+  });
+
+  test("should pass cursor and date range to the repository", async () => {
+    const fromDate = new Date("2026-01-01");
+
+    await useCase.execute({ userId: testUser.id, cursor: "activity-3", limit: 5, fromDate });
+
+    expect(mockActivityRepository.findByUser).toHaveBeenCalledWith(testUser.id, {
+      boardId: undefined,
+      limit: 6,
+      cursor: "activity-3",
+      fromDate,
+      toDate: undefined,
+    });
+  });
+
+  test("should deny filtering by a board the user can no longer view", async () => {
+    expect(useCase.execute({ userId: testUser.id, boardId: testBoard.id }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if filtered board not found", async () => {
+    mockBoardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ userId: testUser.id, boardId: "missing" }))
+      .rejects.toThrow("Board not found");
+  });
+});
\ No newline at end of file
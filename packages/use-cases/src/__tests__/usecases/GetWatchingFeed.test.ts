@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { GetWatchingFeedUseCase } from "../../usecases/GetWatchingFeed";
+import { ActivityRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { WatchRepository } from "@kanban/domain-core";
+import { Activity } from "@kanban/domain-core";
+import { ActivityBuilder } from "../../test/fixtures/entityFactories";
+
+const activityAt = (createdAt: Date) =>
+  Activity.fromPersistence({ ...ActivityBuilder.valid().build().toJSON(), createdAt });
+
+describe("GetWatchingFeedUseCase", () => {
+  let useCase: GetWatchingFeedUseCase;
+  let mockActivityRepository: ActivityRepository;
+  let mockWatchRepository: WatchRepository;
+  let mockUserRepository: UserRepository;
+  let newer: Activity;
+  let older: Activity;
+
+  beforeEach(() => {
+    newer = activityAt(new Date("2026-03-02"));
+    older = activityAt(new Date("2026-02-27"));
+
+    mockActivityRepository = {
+      findWatchedBy: mock(() => Promise.resolve([newer, older])),
+      countWatchedBy: mock(() => Promise.resolve(4)),
+    } as unknown as ActivityRepository;
+
+    mockWatchRepository = {
+      getFeedReadAt: mock(() => Promise.resolve(new Date("2026-03-01"))),
+    } as unknown as WatchRepository;
+
+    mockUserRepository = {
+      findByIds: mock(() => Promise.resolve([])),
+    } as unknown as UserRepository;
+
+    useCase = new GetWatchingFeedUseCase(
+      mockActivityRepository,
+      mockWatchRepository,
+      mockUserRepository
+    );
+  });
+
+  test("should flag activity newer than the last read time as unread", async () => {
+    const result = await useCase.execute({ userId: "user-123" });
+
+    expect(result.entries.map(entry => entry.isUnread)).toEqual([true, false]);
+    expect(result.unreadCount).toBe(4);
+    expect(mockActivityRepository.countWatchedBy).toHaveBeenCalledWith("user-123", {
+      since: new Date("2026-03-01"),
+    });
+  });
+
+  test("should treat everything as unread before the feed was ever read", async () => {
+    mockWatchRepository.getFeedReadAt = mock(() => Promise.resolve(null));
+
+    const result = await useCase.execute({ userId: "user-123" });
+
+    expect(result.entries.every(entry => entry.isUnread)).toBe(true);
+    expect(mockActivityRepository.countWatchedBy).toHaveBeenCalledWith("user-123", { since: undefined });
+  });
+
+  test("should page with one extra row", async () => {
+    const result = await useCase.execute({ userId: "user-123", limit: 1, cursor: "activity-9" });
+
+    expect(result.entries).toHaveLength(1);
+    expect(result.nextCursor).toBe(newer.id);
+    expect(mockActivityRepository.findWatchedBy).toHaveBeenCalledWith("user-123", {
+      limit: 2,
+      cursor: "activity-9",
+    });
+  });
+});
\ No newline at end of file
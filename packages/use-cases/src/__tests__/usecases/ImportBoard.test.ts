@@ -0,0 +1,196 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ImportBoardUseCase } from "../../usecases/ImportBoard";
+import { BoardRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { BoardContents, User } from "@kanban/domain-core";
+import { UserBuilder } from "../../test/fixtures/entityFactories";
+
+const timestamp = "2024-06-05T09:30:00.000Z";
+
+const exportDocument = (): any => ({
+  format: "kanban-board-export",
+  version: 1,
+  exportedAt: timestamp,
+  board: {
+    id: "board-1",
+    title: "Roadmap",
+    description: "Next quarter",
+    isPublic: true,
+    isArchived: false,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: timestamp,
+  },
+  members: [
+    { id: "user-1", email: "owner@example.com", username: "owner", role: "OWNER" },
+    { id: "user-2", email: "member@example.com", username: "member", role: "MEMBER" },
+    { id: "user-3", email: "gone@example.com", username: "gone", role: "ADMIN" },
+  ],
+  labels: [{ id: "label-1", name: "Bug", color: "#ff0000", createdAt: timestamp }],
+  lists: [{ id: "list-1", title: "To Do", position: 1024, createdAt: timestamp, updatedAt: timestamp }],
+  cards: [
+    {
+      id: "card-1",
+      listId: "list-1",
+      title: "Fix login",
+      position: 2048,
+      dueDate: "2026-01-01T00:00:00.000Z",
+      isArchived: true,
+      creatorId: "user-3",
+      assigneeIds: ["user-2", "user-3"],
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    },
+  ],
+  cardLabels: [
+    { cardId: "card-1", labelId: "label-1" },
+    { cardId: "card-1", labelId: "label-1" },
+  ],
+  checklists: [{ id: "checklist-1", cardId: "card-1", title: "Steps", position: 1, createdAt: timestamp, updatedAt: timestamp }],
+  checklistItems: [
+    {
+      id: "item-1",
+      checklistId: "checklist-1",
+      content: "Reproduce",
+      isCompleted: true,
+      completedAt: timestamp,
+      position: 1,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    },
+  ],
+  comments: [
+    { id: "comment-1", cardId: "card-1", authorId: "user-2", content: "On it", createdAt: timestamp, updatedAt: timestamp },
+    { id: "comment-2", cardId: "card-1", authorId: "user-3", content: "Thanks", createdAt: timestamp, updatedAt: timestamp },
+  ],
+});
+
+describe("ImportBoardUseCase", () => {
+  let useCase: ImportBoardUseCase;
+  let mockBoardRepository: BoardRepository;
+  let mockUserRepository: UserRepository;
+  let mockActivityRepository: ActivityRepository;
+  let importer: User;
+  let owner: User;
+  let member: User;
+  let stranger: User;
+
+  const savedContents = (): BoardContents =>
+    (mockBoardRepository.createWithContents as any).mock.calls[0][0];
+
+  beforeEach(() => {
+    importer = UserBuilder.valid().withEmail("admin@example.com").build();
+    owner = UserBuilder.valid().withEmail("owner@example.com").build();
+    member = UserBuilder.valid().withEmail("member@example.com").build();
+    // Has an account, but shares no board with the importer
+    stranger = UserBuilder.valid().withEmail("gone@example.com").build();
+    const users = [importer, owner, member, stranger];
+
+    mockBoardRepository = {
+      createWithContents: mock(() => Promise.resolve()),
+      findCoMemberIds: mock(() => Promise.resolve([owner.id, member.id])),
+    } as unknown as BoardRepository;
+
+    mockUserRepository = {
+      findByIds: mock((ids: string[]) => Promise.resolve(users.filter(user => ids.includes(user.id)))),
+    } as unknown as UserRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    useCase = new ImportBoardUseCase(mockBoardRepository, mockUserRepository, mockActivityRepository);
+  });
+
+  test("should recreate the board under fresh ids owned by the importer", async () => {
+    const result = await useCase.execute({ userId: importer.id, document: exportDocument() });
+
+    expect(result.board.id).not.toBe("board-1");
+    expect(result.board.title).toBe("Roadmap");
+    expect(result.board.description).toBe("Next quarter");
+    expect(result.board.isPublic).toBe(true);
+    expect(result.board.ownerId).toBe(importer.id);
+    expect(result.board.createdAt).toEqual(new Date("2024-01-01T00:00:00.000Z"));
+
+    const contents = savedContents();
+    expect(contents.board).toBe(result.board);
+
+    const list = contents.lists[0]!;
+    const label = contents.labels[0]!;
+    const card = contents.cards[0]!;
+    const checklist = contents.checklists[0]!;
+    expect(list.id).not.toBe("list-1");
+    expect(list.boardId).toBe(result.board.id);
+    expect(label.boardId).toBe(result.board.id);
+    expect([card.listId, card.title, card.position, card.isArchived]).toEqual([list.id, "Fix login", 2048, true]);
+    expect(card.dueDate).toEqual(new Date("2026-01-01T00:00:00.000Z"));
+    expect(contents.cardLabels).toEqual([{ cardId: card.id, labelId: label.id }]);
+    expect(checklist.cardId).toBe(card.id);
+    expect(contents.checklistItems[0]!.checklistId).toBe(checklist.id);
+    expect(contents.checklistItems[0]!.isCompleted).toBe(true);
+    expect(contents.comments.map(comment => comment.cardId)).toEqual([card.id, card.id]);
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.action).toBe("CREATE");
+    expect(activity.boardId).toBe(result.board.id);
+    expect(activity.data).toEqual({ importedFromBoardId: "board-1" });
+  });
+
+  test("should attribute everything to the importer and only suggest matched people as invites", async () => {
+    const result = await useCase.execute({ userId: importer.id, document: exportDocument() });
+
+    // A forged export must not put anyone on the board or speak for them
+    const contents = savedContents();
+    expect(contents.members).toEqual([]);
+    expect(contents.cards[0]!.creatorId).toBe(importer.id);
+    expect(contents.cards[0]!.assigneeIds).toEqual([]);
+    expect(contents.comments.map(comment => comment.userId)).toEqual([importer.id, importer.id]);
+    expect(contents.comments.map(comment => comment.content)).toEqual(["member wrote: On it", "gone wrote: Thanks"]);
+
+    expect(result.matchedMembers.map(match => [match.userId, match.suggestedRole])).toEqual([
+      [owner.id, "ADMIN"],
+      [member.id, "MEMBER"],
+    ]);
+    expect(result.unmatchedMembers.map(person => person.email)).toEqual(["gone@example.com"]);
+  });
+
+  test("should only match people who already share a board with the importer", async () => {
+    mockBoardRepository.findCoMemberIds = mock(() => Promise.resolve([member.id]));
+
+    const result = await useCase.execute({ userId: importer.id, document: exportDocument() });
+
+    // The owner and the stranger have accounts, but the importer cannot learn that
+    expect(mockUserRepository.findByIds).toHaveBeenCalledWith([importer.id, member.id]);
+    expect(result.matchedMembers.map(match => match.userId)).toEqual([member.id]);
+    expect(result.unmatchedMembers.map(person => person.email)).toEqual(["owner@example.com", "gone@example.com"]);
+  });
+
+  test("should keep the importer's own comments and assignments as they were", async () => {
+    const document = exportDocument();
+    document.members[1].email = importer.email.toUpperCase();
+    mockBoardRepository.findCoMemberIds = mock(() => Promise.resolve([]));
+
+    const result = await useCase.execute({ userId: importer.id, document });
+
+    const contents = savedContents();
+    expect(contents.cards[0]!.assigneeIds).toEqual([importer.id]);
+    expect(contents.comments[0]!.content).toBe("On it");
+    expect(result.matchedMembers).toEqual([]);
+  });
+
+  test("should reject an invalid document without writing anything", async () => {
+    const document = exportDocument();
+    document.cards[0].listId = "list-9";
+
+    await expect(useCase.execute({ userId: importer.id, document }))
+      .rejects.toThrow('Invalid board export: cards[0].listId refers to a missing list "list-9"');
+    expect(mockBoardRepository.createWithContents).not.toHaveBeenCalled();
+  });
+
+  test("should reject a blank board title", async () => {
+    const document = exportDocument();
+    document.board.title = "   ";
+
+    await expect(useCase.execute({ userId: importer.id, document })).rejects.toThrow("Board title is required");
+  });
+});
\ No newline at end of file
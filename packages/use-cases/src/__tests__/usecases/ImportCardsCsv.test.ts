@@ -0,0 +1,175 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ImportCardsCsvUseCase } from "../../usecases/ImportCardsCsv";
+import { BoardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { LabelRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { WatchRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
+import { Board, Label, List, User } from "@kanban/domain-core";
+import { BoardBuilder, LabelBuilder, ListBuilder, UserBuilder } from "../../test/fixtures/entityFactories";
+
+describe("ImportCardsCsvUseCase", () => {
+  let useCase: ImportCardsCsvUseCase;
+  let mockBoardRepository: BoardRepository;
+  let mockListRepository: ListRepository;
+  let mockLabelRepository: LabelRepository;
+  let mockCardRepository: CardRepository;
+  let mockUserRepository: UserRepository;
+  let mockActivityRepository: ActivityRepository;
+  let mockEventPublisher: BoardEventPublisher;
+  let mockWatchRepository: WatchRepository;
+  let owner: User;
+  let alice: User;
+  let outsider: User;
+  let board: Board;
+  let todoList: List;
+  let doneList: List;
+  let bugLabel: Label;
+
+  beforeEach(() => {
+    owner = UserBuilder.valid().withUsername("owner").build();
+    alice = UserBuilder.valid().withUsername("alice").withEmail("alice@example.com").build();
+    outsider = UserBuilder.valid().withUsername("mallory").withEmail("mallory@example.com").build();
+    board = BoardBuilder.valid().withOwner(owner.id).build();
+    todoList = ListBuilder.valid().withTitle("To Do").inBoard(board.id).build();
+    doneList = ListBuilder.valid().withTitle("Done").inBoard(board.id).build();
+    bugLabel = LabelBuilder.valid().withName("Bug").inBoard(board.id).build();
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(board)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER")),
+      getMembers: mock(() => Promise.resolve([{ userId: alice.id, role: "MEMBER", joinedAt: new Date() }])),
+    } as unknown as BoardRepository;
+
+    mockListRepository = {
+      findByBoard: mock(() => Promise.resolve([todoList, doneList])),
+    } as unknown as ListRepository;
+
+    mockLabelRepository = {
+      findByBoard: mock(() => Promise.resolve([bugLabel])),
+    } as unknown as LabelRepository;
+
+    mockCardRepository = {
+      getNextPosition: mock(() => Promise.resolve(1024)),
+      createWithContents: mock(() => Promise.resolve()),
+    } as unknown as CardRepository;
+
+    mockUserRepository = {
+      findByIds: mock((ids: string[]) => Promise.resolve([owner, alice, outsider].filter(user => ids.includes(user.id)))),
+    } as unknown as UserRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    } as unknown as BoardEventPublisher;
+
+    mockWatchRepository = {
+      watch: mock(() => Promise.resolve()),
+    } as unknown as WatchRepository;
+
+    useCase = new ImportCardsCsvUseCase(
+      mockBoardRepository,
+      mockListRepository,
+      mockLabelRepository,
+      mockCardRepository,
+      mockUserRepository,
+      mockActivityRepository,
+      mockEventPublisher,
+      mockWatchRepository
+    );
+  });
+
+  test("should create cards in the lists their rows name", async () => {
+    const csv = [
+      "Title,List,Labels,Assignees,Due date,Archived,Notes",
+      "Fix login,to do,bug,Alice@example.com,2026-01-01,,ask Bob",
+      "Ship it,Done,,alice,,yes,",
+      "Write docs,To Do,,owner,,,",
+    ].join("\r\n");
+
+    const result = await useCase.execute({ boardId: board.id, userId: owner.id, csv });
+
+    expect(result.errors).toEqual([]);
+    expect(result.cards.map(card => [card.title, card.listId, card.assigneeIds, card.isArchived])).toEqual([
+      ["Fix login", todoList.id, [alice.id], false],
+      ["Ship it", doneList.id, [alice.id], true],
+      ["Write docs", todoList.id, [owner.id], false],
+    ]);
+    // Rows for the same list follow each other
+    expect(result.cards.map(card => card.position)).toEqual([1024, 1024, 2048]);
+    expect(result.cards[0]!.creatorId).toBe(owner.id);
+    expect(result.cards[0]!.dueDate).toEqual(new Date("2026-01-01T00:00:00.000Z"));
+    // Every card is written in one transaction
+    expect(mockCardRepository.createWithContents).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.createWithContents).toHaveBeenCalledWith({
+      cards: result.cards,
+      cardLabels: [{ cardId: result.cards[0]!.id, labelId: bugLabel.id }],
+      checklists: [],
+      checklistItems: [],
+    });
+    expect(mockActivityRepository.save).toHaveBeenCalledTimes(3);
+    // Archived cards are not on the board, so only the open ones are broadcast
+    expect(mockEventPublisher.publish).toHaveBeenCalledTimes(2);
+  });
+
+  test("should report every problem by row and create nothing", async () => {
+    const csv = [
+      "Title,List,Labels,Assignees,Start date",
+      "Fine,To Do,,,",
+      ",Backlog,Urgent;Urgent,nobody,soon",
+      "Audit,To Do,,mallory@example.com,",
+    ].join("\n");
+
+    const result = await useCase.execute({ boardId: board.id, userId: owner.id, csv });
+
+    expect(result.cards).toEqual([]);
+    expect(result.errors).toEqual([
+      { row: 3, message: "Title is required" },
+      { row: 3, message: 'List "Backlog" not found' },
+      { row: 3, message: 'Label "Urgent" not found' },
+      { row: 3, message: 'Assignee "nobody" is not a member of this board' },
+      { row: 3, message: 'Start date "soon" is not a date' },
+      { row: 4, message: 'Assignee "mallory@example.com" is not a member of this board' },
+    ]);
+    expect(mockCardRepository.createWithContents).not.toHaveBeenCalled();
+  });
+
+  test("should report a list that cannot take its rows under a strict WIP limit", async () => {
+    const limitedList = List.fromPersistence({ ...todoList.toJSON(), wipLimit: 3, wipLimitMode: "STRICT" });
+    mockListRepository.findByBoard = mock(() => Promise.resolve([limitedList, doneList]));
+    mockCardRepository.countOpenInList = mock(() => Promise.resolve(2));
+    const csv = [
+      "Title,List,Archived",
+      "Old news,To Do,yes",
+      "First,To Do,",
+      "Second,To Do,",
+    ].join("\n");
+
+    const result = await useCase.execute({ boardId: board.id, userId: owner.id, csv });
+
+    expect(result.cards).toEqual([]);
+    expect(result.errors).toEqual([
+      { row: 3, message: 'List "To Do" only has room for 1 card more under its WIP limit of 3' },
+    ]);
+    expect(mockCardRepository.createWithContents).not.toHaveBeenCalled();
+  });
+
+  test("should throw error when the title or list column is missing", async () => {
+    await expect(useCase.execute({ boardId: board.id, userId: owner.id, csv: "Title,Due date\r\nFix,\r\n" }))
+      .rejects.toThrow('CSV must have a "List" column');
+  });
+
+  test("should throw error when viewer tries to import", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as const));
+
+    await expect(useCase.execute({ boardId: board.id, userId: alice.id, csv: "Title,List\r\nFix,To Do\r\n" }))
+      .rejects.toThrow("Access denied");
+    expect(mockCardRepository.createWithContents).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ImportTrelloBoardUseCase } from "../../usecases/ImportTrelloBoard";
+import { BoardRepository } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { BoardContents, User } from "@kanban/domain-core";
+import { UserBuilder } from "../../test/fixtures/entityFactories";
+
+const trelloExport = (): any => ({
+  id: "t-board",
+  name: "Team board",
+  desc: "Migrated",
+  labels: [
+    { id: "t-label-1", name: "Bug", color: "red" },
+    { id: "t-label-2", name: "", color: "green_light" },
+    { id: "t-label-3", name: "Bug", color: "orange" },
+  ],
+  lists: [
+    { id: "t-list-1", name: "To Do", closed: false, pos: 1 },
+    { id: "t-list-2", name: "Old stuff", closed: true, pos: 2 },
+  ],
+  cards: [
+    {
+      id: "t-card-1",
+      idList: "t-list-1",
+      name: "Fix login",
+      desc: "Details",
+      closed: false,
+      pos: 1,
+      due: "2024-06-05T09:30:00.000Z",
+      idLabels: ["t-label-1", "t-label-2", "t-label-3"],
+      idMembers: ["t-alice", "t-bob"],
+    },
+    { id: "t-card-2", idList: "t-list-1", name: "Done already", closed: true, pos: 2, idLabels: [], idMembers: [] },
+    { id: "t-card-3", idList: "t-list-2", name: "Forgotten", closed: false, pos: 1, idLabels: [], idMembers: [] },
+  ],
+  checklists: [
+    {
+      id: "t-checklist-1",
+      idCard: "t-card-1",
+      name: "Steps",
+      pos: 1,
+      checkItems: [
+        { id: "t-item-1", name: "Reproduce", state: "complete", pos: 1 },
+        { id: "t-item-2", name: "Fix", state: "incomplete", pos: 2 },
+      ],
+    },
+  ],
+  actions: [
+    {
+      id: "t-action-2",
+      type: "commentCard",
+      date: "2024-06-02T00:00:00.000Z",
+      idMemberCreator: "t-bob",
+      data: { text: "Thanks", card: { id: "t-card-1" } },
+    },
+    {
+      id: "t-action-1",
+      type: "commentCard",
+      date: "2024-06-01T00:00:00.000Z",
+      idMemberCreator: "t-alice",
+      data: { text: "On it", card: { id: "t-card-1" } },
+    },
+  ],
+  members: [
+    { id: "t-alice", username: "alice", fullName: "Alice Example" },
+    { id: "t-bob", username: "bob", fullName: "Bob Example" },
+  ],
+  memberships: [
+    { id: "m-1", idMember: "t-alice", memberType: "admin" },
+    { id: "m-2", idMember: "t-bob", memberType: "normal" },
+  ],
+});
+
+describe("ImportTrelloBoardUseCase", () => {
+  let useCase: ImportTrelloBoardUseCase;
+  let mockBoardRepository: BoardRepository;
+  let mockUserRepository: UserRepository;
+  let mockActivityRepository: ActivityRepository;
+  let importer: User;
+  let alice: User;
+  let bob: User;
+
+  const savedContents = (): BoardContents =>
+    (mockBoardRepository.createWithContents as any).mock.calls[0][0];
+
+  beforeEach(() => {
+    importer = UserBuilder.valid().withUsername("importer").build();
+    alice = UserBuilder.valid().withUsername("alice").build();
+    // Has an account, but shares no board with the importer
+    bob = UserBuilder.valid().withUsername("bob").build();
+    const users = [importer, alice, bob];
+
+    mockBoardRepository = {
+      createWithContents: mock(() => Promise.resolve()),
+      findCoMemberIds: mock(() => Promise.resolve([alice.id])),
+    } as unknown as BoardRepository;
+
+    mockUserRepository = {
+      findByIds: mock((ids: string[]) => Promise.resolve(users.filter(user => ids.includes(user.id)))),
+    } as unknown as UserRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    useCase = new ImportTrelloBoardUseCase(mockBoardRepository, mockUserRepository, mockActivityRepository);
+  });
+
+  test("should report what would be imported without creating anything on a dry run", async () => {
+    const result = await useCase.execute({ userId: importer.id, trello: trelloExport(), dryRun: true });
+
+    expect(result.board).toBeUndefined();
+    expect(result.report).toEqual({
+      boardTitle: "Team board",
+      lists: 1,
+      cards: 2,
+      archivedCards: 1,
+      labels: 2,
+      checklists: 1,
+      checklistItems: 2,
+      comments: 2,
+      skippedLists: ["Old stuff"],
+      suggestedMembers: [{ username: "alice", fullName: "Alice Example", userId: alice.id, suggestedRole: "ADMIN" }],
+      unmappedMembers: [{ username: "bob", fullName: "Bob Example" }],
+    });
+    expect(mockBoardRepository.createWithContents).not.toHaveBeenCalled();
+    expect(mockActivityRepository.save).not.toHaveBeenCalled();
+  });
+
+  test("should create a private board with the Trello lists, cards and checklists", async () => {
+    const result = await useCase.execute({ userId: importer.id, trello: trelloExport() });
+
+    expect(result.board!.title).toBe("Team board");
+    expect(result.board!.description).toBe("Migrated");
+    expect(result.board!.ownerId).toBe(importer.id);
+    expect(result.board!.isPublic).toBe(false);
+
+    const contents = savedContents();
+    expect(contents.board).toBe(result.board!);
+    expect(contents.lists.map(list => list.title)).toEqual(["To Do"]);
+    expect(contents.cards.map(card => [card.title, card.isArchived, card.listId])).toEqual([
+      ["Fix login", false, contents.lists[0]!.id],
+      ["Done already", true, contents.lists[0]!.id],
+    ]);
+    expect(contents.cards[0]!.dueDate).toEqual(new Date("2024-06-05T09:30:00.000Z"));
+    expect(contents.cards[0]!.creatorId).toBe(importer.id);
+    expect(contents.checklists[0]!.cardId).toBe(contents.cards[0]!.id);
+    expect(contents.checklistItems.map(item => [item.content, item.isCompleted])).toEqual([
+      ["Reproduce", true],
+      ["Fix", false],
+    ]);
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.entityId).toBe(result.board!.id);
+    expect(activity.data).toEqual({ importedFrom: "trello" });
+  });
+
+  test("should map label colors and merge labels that share a name", async () => {
+    await useCase.execute({ userId: importer.id, trello: trelloExport() });
+
+    const contents = savedContents();
+    expect(contents.labels.map(label => [label.name, label.color])).toEqual([
+      ["Bug", "#EB5A46"],
+      ["Green light", "#61BD4F"],
+    ]);
+    expect(contents.cardLabels.map(link => link.labelId)).toEqual(contents.labels.map(label => label.id));
+  });
+
+  test("should post everything as the importer and add nobody matched by username", async () => {
+    await useCase.execute({ userId: importer.id, trello: trelloExport() });
+
+    const contents = savedContents();
+    expect(contents.members).toEqual([]);
+    expect(contents.cards[0]!.assigneeIds).toEqual([]);
+    expect(contents.comments.map(comment => [comment.userId, comment.content])).toEqual([
+      [importer.id, "Alice Example on Trello: On it"],
+      [importer.id, "Bob Example on Trello: Thanks"],
+    ]);
+    expect(contents.comments[0]!.createdAt).toEqual(new Date("2024-06-01T00:00:00.000Z"));
+  });
+
+  test("should keep the importer's own comments and assignments as they were", async () => {
+    const trelloSelf = User.fromPersistence({ ...importer.toJSON(), username: "alice" });
+    mockBoardRepository.findCoMemberIds = mock(() => Promise.resolve([]));
+    mockUserRepository.findByIds = mock(() => Promise.resolve([trelloSelf]));
+
+    const result = await useCase.execute({ userId: importer.id, trello: trelloExport() });
+
+    expect(result.report.suggestedMembers).toEqual([]);
+    const contents = savedContents();
+    expect(contents.cards[0]!.assigneeIds).toEqual([importer.id]);
+    expect(contents.comments.map(comment => [comment.userId, comment.content])).toEqual([
+      [importer.id, "On it"],
+      [importer.id, "Bob Example on Trello: Thanks"],
+    ]);
+  });
+
+  test("should only suggest people who already share a board with the importer", async () => {
+    mockBoardRepository.findCoMemberIds = mock(() => Promise.resolve([]));
+
+    const result = await useCase.execute({ userId: importer.id, trello: trelloExport(), dryRun: true });
+
+    expect(mockUserRepository.findByIds).toHaveBeenCalledWith([importer.id]);
+    expect(result.report.suggestedMembers).toEqual([]);
+    expect(result.report.unmappedMembers.map(member => member.username)).toEqual(["alice", "bob"]);
+  });
+
+  test("should reject a document that is not a Trello export", async () => {
+    await expect(useCase.execute({ userId: importer.id, trello: { name: "Board" } }))
+      .rejects.toThrow("Invalid Trello export: lists must be an array");
+    expect(mockBoardRepository.createWithContents).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { MarkNotificationReadUseCase } from "../../usecases/MarkNotificationRead";
+import { NotificationRepository } from "@kanban/domain-core";
+import { Notification } from "@kanban/domain-core";
+
+describe("MarkNotificationReadUseCase", () => {
+  let useCase: MarkNotificationReadUseCase;
+  let mockNotificationRepository: NotificationRepository;
+  let notification: Notification;
+
+  beforeEach(() => {
+    notification = Notification.create({
+      type: "CARD_MOVED",
+      userId: "user-123",
+      actorId: "user-456",
+      message: 'moved your card "Fix login" to Done',
+    });
+
+    mockNotificationRepository = {
+      findById: mock(() => Promise.resolve(notification)),
+      save: mock(() => Promise.resolve()),
+      countUnread: mock(() => Promise.resolve(0)),
+    } as unknown as NotificationRepository;
+
+    useCase = new MarkNotificationReadUseCase(mockNotificationRepository);
+  });
+
+  test("should mark the notification as read", async () => {
+    const result = await useCase.execute({ notificationId: notification.id, userId: "user-123" });
+
+    expect(result.notification.isRead).toBe(true);
+    expect(result.unreadCount).toBe(0);
+    expect(mockNotificationRepository.save).toHaveBeenCalledWith(notification);
+  });
+
+  test("should not save a notification that was already read", async () => {
+    notification.markAsRead();
+
+    await useCase.execute({ notificationId: notification.id, userId: "user-123" });
+
+    expect(mockNotificationRepository.save).not.toHaveBeenCalled();
+  });
+
+  test("should deny reading someone else's notification", async () => {
+    expect(useCase.execute({ notificationId: notification.id, userId: "user-456" }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if notification not found", async () => {
+    mockNotificationRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ notificationId: "missing", userId: "user-123" }))
+      .rejects.toThrow("Notification not found");
+  });
+});
\ No newline at end of file
@@ -1,11 +1,15 @@
 import { describe, test, expect, beforeEach, mock } from "bun:test";
 import { MoveCard } from "../../usecases/MoveCard";
 import { Card } from "@kanban/domain-core";
+import { List } from "@kanban/domain-core";
+import { BusinessRuleViolationError } from "@kanban/domain-core";
 import { CardRepository } from "@kanban/domain-core";
 import { UserRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { NotificationRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
 
 import type { BoardRole } from "@kanban/domain-core";
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder, LabelBuilder } from "../../test/fixtures/entityFactories";
@@ -17,6 +21,8 @@ describe("MoveCard", () => {
   let mockBoardRepository: BoardRepository;
   let mockListRepository: ListRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockNotificationRepository: NotificationRepository;
+  let mockEventPublisher: BoardEventPublisher;
 
   const testUserId = "user-123";
   const testCardId = "card-456";
@@ -62,6 +68,9 @@ describe("MoveCard", () => {
     // Create mock repositories
     mockCardRepository = {
       save: mock(() => Promise.resolve()),
+      moveCard: mock(() => Promise.resolve()),
+      findNeighbourPositions: mock(() => Promise.resolve({ before: 0, after: 4096 })),
+      rebalancePositions: mock(() => Promise.resolve([])),
       findById: mock((id: string) => {
         if (id === testCardId) {
           return Promise.resolve(testCard);
@@ -113,12 +122,22 @@ describe("MoveCard", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
+    mockNotificationRepository = {
+      createMany: mock(() => Promise.resolve()),
+    } as unknown as NotificationRepository;
+
     useCase = new MoveCard(
       mockCardRepository,
       mockUserRepository,
       mockBoardRepository,
       mockListRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher,
+      mockNotificationRepository
     );
   });
 
@@ -128,9 +147,11 @@ describe("MoveCard", () => {
     const result = await useCase.execute(testCardId, testUserId, testTargetListId, targetPosition);
 
     expect(result).toBeDefined();
-    expect(result.listId).toBe(testTargetListId);
-    expect(result.position).toBe(targetPosition);
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(result.card.listId).toBe(testTargetListId);
+    expect(result.card.position).toBe(targetPosition);
+    expect(result.overWipLimit).toBe(false);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledWith(testCard.id, testTargetListId, targetPosition);
     expect(mockActivityRepository.create).toHaveBeenCalledWith(
       expect.objectContaining({
         type: "MOVE",
@@ -139,7 +160,28 @@ describe("MoveCard", () => {
         entityType: "CARD",
         entityId: testCard.id,  // Use actual card ID
         entityTitle: "Card to Move",
+        cardId: testCard.id,
         description: "moved card from Source List to Target List",
+        data: expect.objectContaining({
+          fromListId: testSourceListId,
+          fromListTitle: "Source List",
+          toListId: testTargetListId,
+          toListTitle: "Target List",
+          toPosition: targetPosition,
+        }),
+      })
+    );
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "card.moved",
+        boardId: testBoardId,
+        actorId: testUserId,
+        payload: {
+          cardId: testCard.id,
+          fromListId: testSourceListId,
+          toListId: testTargetListId,
+          position: targetPosition,
+        },
       })
     );
   });
@@ -150,7 +192,7 @@ describe("MoveCard", () => {
     const result = await useCase.execute(testCardId, testUserId, testSourceListId, targetPosition);
 
     expect(result).toBeDefined();
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
     expect(mockActivityRepository.create).toHaveBeenCalledWith(
       expect.objectContaining({
         type: "MOVE",
@@ -159,6 +201,66 @@ describe("MoveCard", () => {
     );
   });
 
+  test("should notify the card creator when someone else moves it to another list", async () => {
+    testCard = CardBuilder.valid()
+      .withTitle("Card to Move")
+      .withPosition(1000)
+      .inList(testSourceListId)
+      .createdBy("creator-user")
+      .build();
+
+    await useCase.execute(testCardId, testUserId, testTargetListId, 2000);
+
+    expect(mockNotificationRepository.createMany).toHaveBeenCalledTimes(1);
+    const [notification] = (mockNotificationRepository.createMany as any).mock.calls[0][0];
+    expect(notification.userId).toBe("creator-user");
+    expect(notification.actorId).toBe(testUserId);
+    expect(notification.type).toBe("CARD_MOVED");
+    expect(notification.message).toBe('moved your card "Card to Move" to Target List');
+  });
+
+  test("should not notify anyone for moves within the same list", async () => {
+    testCard = CardBuilder.valid()
+      .withTitle("Card to Move")
+      .withPosition(1000)
+      .inList(testSourceListId)
+      .createdBy("creator-user")
+      .build();
+
+    await useCase.execute(testCardId, testUserId, testSourceListId, 500);
+
+    expect(mockNotificationRepository.createMany).not.toHaveBeenCalled();
+  });
+
+  test("should only write the moved card while its neighbours have room", async () => {
+    await useCase.execute(testCardId, testUserId, testTargetListId, 2048);
+
+    expect(mockCardRepository.findNeighbourPositions).toHaveBeenCalledWith(testTargetListId, 2048, testCard.id);
+    expect(mockCardRepository.rebalancePositions).not.toHaveBeenCalled();
+    expect(mockEventPublisher.publish).toHaveBeenCalledTimes(1);
+  });
+
+  test("should rebalance the target list when the new rank ties a neighbour", async () => {
+    const rebalanced = [
+      { id: "card-a", position: 1024 },
+      { id: testCard.id, position: 2048 },
+    ];
+    mockCardRepository.findNeighbourPositions = mock(() => Promise.resolve({ before: 2048, after: 3072 }));
+    mockCardRepository.rebalancePositions = mock(() => Promise.resolve(rebalanced));
+
+    await useCase.execute(testCardId, testUserId, testTargetListId, 2048);
+
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.rebalancePositions).toHaveBeenCalledWith(testTargetListId);
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "cards.reordered",
+        boardId: testBoardId,
+        payload: { listId: testTargetListId, cards: rebalanced },
+      })
+    );
+  });
+
   test("should allow board owner to move card", async () => {
     const targetPosition = 2000;
 
@@ -221,14 +323,14 @@ describe("MoveCard", () => {
     mockUserRepository.findById = mock(() => Promise.resolve(null));
 
     expect(useCase.execute(testCardId, testUserId, testTargetListId, 2000)).rejects.toThrow("User not found");
-    expect(mockCardRepository.save).not.toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).not.toHaveBeenCalled();
   });
 
   test("should throw error if card not found", async () => {
     mockCardRepository.findById = mock(() => Promise.resolve(null));
 
     expect(useCase.execute(testCardId, testUserId, testTargetListId, 2000)).rejects.toThrow("Card not found");
-    expect(mockCardRepository.save).not.toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).not.toHaveBeenCalled();
   });
 
   test("should throw error if source list not found", async () => {
@@ -238,7 +340,7 @@ describe("MoveCard", () => {
     });
 
     await expect(useCase.execute(testCardId, testUserId, testTargetListId, 2000)).rejects.toThrow("Source list not found");
-    expect(mockCardRepository.save).not.toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).not.toHaveBeenCalled();
   });
 
   test("should throw error if target list not found", async () => {
@@ -248,14 +350,14 @@ describe("MoveCard", () => {
     });
 
     await expect(useCase.execute(testCardId, testUserId, testTargetListId, 2000)).rejects.toThrow("Target list not found");
-    expect(mockCardRepository.save).not.toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).not.toHaveBeenCalled();
   });
 
   test("should throw error if board not found", async () => {
     mockBoardRepository.findById = mock(() => Promise.resolve(null));
 
     expect(useCase.execute(testCardId, testUserId, testTargetListId, 2000)).rejects.toThrow("Board not found");
-    expect(mockCardRepository.save).not.toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).not.toHaveBeenCalled();
   });
 
   test("should throw error when moving card between different boards", async () => {
@@ -272,7 +374,7 @@ describe("MoveCard", () => {
     });
 
     await expect(useCase.execute(testCardId, testUserId, testTargetListId, 2000)).rejects.toThrow("Cannot move card between different boards");
-    expect(mockCardRepository.save).not.toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).not.toHaveBeenCalled();
   });
 
   test("should throw error if user is not board member", async () => {
@@ -292,7 +394,7 @@ describe("MoveCard", () => {
     mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null)); // Not a member
 
     expect(useCase.execute(testCardId, nonMemberUserId, testTargetListId, 2000)).rejects.toThrow("You don't have permission to move this card");
-    expect(mockCardRepository.save).not.toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).not.toHaveBeenCalled();
   });
 
   test("should throw error if user is only viewer", async () => {
@@ -312,7 +414,50 @@ describe("MoveCard", () => {
     mockBoardRepository.getMemberRole = mock(() => Promise.resolve('VIEWER' as BoardRole));
 
     expect(useCase.execute(testCardId, viewerUserId, testTargetListId, 2000)).rejects.toThrow("You don't have permission to move this card");
-    expect(mockCardRepository.save).not.toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).not.toHaveBeenCalled();
+  });
+
+  describe("WIP limits", () => {
+    const limitTargetList = (wipLimitMode: "STRICT" | "SOFT") => {
+      const limitedList = List.fromPersistence({ ...testTargetList.toJSON(), wipLimit: 1, wipLimitMode });
+      mockListRepository.findById = mock((id: string) =>
+        Promise.resolve(id === testSourceListId ? testSourceList : id === limitedList.id ? limitedList : null)
+      );
+      mockCardRepository.countOpenInList = mock(() => Promise.resolve(1));
+      return limitedList;
+    };
+
+    test("should refuse a move into a list at its strict limit", async () => {
+      const limitedList = limitTargetList("STRICT");
+
+      const promise = useCase.execute(testCardId, testUserId, limitedList.id, 2000);
+
+      await expect(promise).rejects.toBeInstanceOf(BusinessRuleViolationError);
+      await expect(promise).rejects.toThrow('List "Target List" has reached its WIP limit of 1 card');
+      expect(mockCardRepository.moveCard).not.toHaveBeenCalled();
+    });
+
+    test("should move the card over a soft limit and note it in the activity", async () => {
+      const limitedList = limitTargetList("SOFT");
+
+      const result = await useCase.execute(testCardId, testUserId, limitedList.id, 2000);
+
+      expect(result.overWipLimit).toBe(true);
+      expect(mockCardRepository.moveCard).toHaveBeenCalledWith(testCard.id, limitedList.id, 2000);
+      expect(mockActivityRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ overWipLimit: true }) })
+      );
+    });
+
+    test("should not check the limit when reordering within a list", async () => {
+      const limitedList = limitTargetList("STRICT");
+      testCard = CardBuilder.valid().withPosition(1000).inList(limitedList.id).createdBy(testUserId).build();
+
+      await useCase.execute(testCardId, testUserId, limitedList.id, 3000);
+
+      expect(mockCardRepository.countOpenInList).not.toHaveBeenCalled();
+      expect(mockCardRepository.moveCard).toHaveBeenCalled();
+    });
   });
 
   test("should handle position at beginning of list", async () => {
@@ -321,7 +466,7 @@ describe("MoveCard", () => {
     const result = await useCase.execute(testCardId, testUserId, testTargetListId, firstPosition);
 
     expect(result).toBeDefined();
-    expect(mockCardRepository.save).toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).toHaveBeenCalled();
   });
 
   test("should handle very large position value", async () => {
@@ -330,7 +475,7 @@ describe("MoveCard", () => {
     const result = await useCase.execute(testCardId, testUserId, testTargetListId, largePosition);
 
     expect(result).toBeDefined();
-    expect(mockCardRepository.save).toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).toHaveBeenCalled();
   });
 
   test("should handle negative position value", async () => {
@@ -339,7 +484,7 @@ describe("MoveCard", () => {
     const result = await useCase.execute(testCardId, testUserId, testTargetListId, negativePosition);
 
     expect(result).toBeDefined();
-    expect(mockCardRepository.save).toHaveBeenCalled();
+    expect(mockCardRepository.moveCard).toHaveBeenCalled();
   });
 
   test("should verify all repository lookups are called for cross-list move", async () => {
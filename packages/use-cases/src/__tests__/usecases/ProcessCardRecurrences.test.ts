@@ -0,0 +1,214 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ProcessCardRecurrencesUseCase } from "../../usecases/ProcessCardRecurrences";
+import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { CardRecurrenceRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ChecklistItemRepository } from "@kanban/domain-core";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { LabelRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { Board, Card, CardRecurrence, Checklist, ChecklistItem, Label, List } from "@kanban/domain-core";
+import { BoardBuilder, CardBuilder, LabelBuilder, ListBuilder } from "../../test/fixtures/entityFactories";
+
+describe("ProcessCardRecurrencesUseCase", () => {
+  let useCase: ProcessCardRecurrencesUseCase;
+  let mockCardRecurrenceRepository: CardRecurrenceRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockLabelRepository: LabelRepository;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockChecklistItemRepository: ChecklistItemRepository;
+  let mockActivityRepository: ActivityRepository;
+  let mockEventPublisher: BoardEventPublisher;
+  let testBoard: Board;
+  let recurringList: List;
+  let todoList: List;
+  let template: Card;
+  let label: Label;
+  let checklist: Checklist;
+  let recurrence: CardRecurrence;
+  // Monday 09:00, when the weekly rule fires
+  const runAt = new Date("2026-03-02T09:00:00Z");
+  const now = new Date("2026-03-02T09:01:00Z");
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withTitle("Ops").build();
+    recurringList = ListBuilder.valid().withTitle("Recurring").inBoard(testBoard.id).build();
+    todoList = ListBuilder.valid().withTitle("To do").inBoard(testBoard.id).build();
+    template = CardBuilder.valid()
+      .withTitle("Rotate on-call")
+      .inList(recurringList.id)
+      .withDueDate(new Date("2026-03-02T17:00:00Z"))
+      .build();
+    label = LabelBuilder.valid().withName("ops").inBoard(testBoard.id).build();
+    checklist = Checklist.create({ title: "Handover", position: 1, cardId: template.id });
+    const item = ChecklistItem.create({ content: "Update the pager schedule", position: 1, checklistId: checklist.id });
+    item.complete();
+
+    recurrence = CardRecurrence.fromPersistence({
+      id: "recurrence-123",
+      cardId: template.id,
+      rule: { frequency: "WEEKLY", hour: 9, minute: 0, weekdays: [1] },
+      targetListId: todoList.id,
+      nextRunAt: runAt,
+      createdAt: new Date("2026-02-01"),
+      updatedAt: new Date("2026-02-01"),
+    });
+
+    mockCardRecurrenceRepository = {
+      findDue: mock(() => Promise.resolve([recurrence])),
+      claimRun: mock(() => Promise.resolve(true)),
+    } as unknown as CardRecurrenceRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(template)),
+      getNextPosition: mock(() => Promise.resolve(2048)),
+      save: mock(() => Promise.resolve()),
+      createWithContents: mock(() => Promise.resolve()),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock((id: string) => Promise.resolve([recurringList, todoList].find(list => list.id === id) ?? null)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+    } as unknown as BoardRepository;
+
+    mockLabelRepository = {
+      getCardLabels: mock(() => Promise.resolve([label])),
+    } as unknown as LabelRepository;
+
+    mockChecklistRepository = {
+      findByCard: mock(() => Promise.resolve([checklist])),
+    } as unknown as ChecklistRepository;
+
+    mockChecklistItemRepository = {
+      findByChecklists: mock(() => Promise.resolve([item])),
+    } as unknown as ChecklistItemRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    } as unknown as BoardEventPublisher;
+
+    useCase = new ProcessCardRecurrencesUseCase(
+      mockCardRecurrenceRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockLabelRepository,
+      mockChecklistRepository,
+      mockChecklistItemRepository,
+      mockActivityRepository,
+      mockEventPublisher
+    );
+  });
+
+  test("should copy the card with its labels and checklists into the target list", async () => {
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ created: 1, skipped: 0 });
+    expect(mockCardRecurrenceRepository.claimRun).toHaveBeenCalledWith(recurrence, runAt);
+    expect(recurrence.nextRunAt).toEqual(new Date("2026-03-09T09:00:00Z"));
+
+    const contents = (mockCardRepository.createWithContents as any).mock.calls[0][0];
+    const copy = contents.cards[0] as Card;
+    expect(copy.id).not.toBe(template.id);
+    expect(copy.title).toBe("Rotate on-call");
+    expect(copy.listId).toBe(todoList.id);
+    expect(copy.position).toBe(2048);
+    expect(copy.dueDate).toEqual(new Date("2026-03-02T17:00:00Z"));
+    expect(contents.cardLabels).toEqual([{ cardId: copy.id, labelId: label.id }]);
+
+    const checklistCopy = contents.checklists[0] as Checklist;
+    expect(checklistCopy.cardId).toBe(copy.id);
+    const itemCopy = contents.checklistItems[0] as ChecklistItem;
+    expect(itemCopy.checklistId).toBe(checklistCopy.id);
+    expect(itemCopy.content).toBe("Update the pager schedule");
+    expect(itemCopy.isCompleted).toBe(false);
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.action).toBe("CREATE");
+    expect(activity.entityId).toBe(copy.id);
+    expect(activity.data).toEqual({ recurringCardId: template.id });
+  });
+
+  test("should move the template's due date forward to the next run", async () => {
+    await useCase.execute({ now });
+
+    expect(template.dueDate).toEqual(new Date("2026-03-09T17:00:00Z"));
+    expect(mockCardRepository.save).toHaveBeenCalledWith(template);
+  });
+
+  test("should move the template's start date forward along with its due date", async () => {
+    template.updateStartDate(new Date("2026-03-02T08:00:00Z"));
+
+    await useCase.execute({ now });
+
+    expect(template.startDate).toEqual(new Date("2026-03-09T08:00:00Z"));
+    expect(template.dueDate).toEqual(new Date("2026-03-09T17:00:00Z"));
+    const copy = (mockCardRepository.createWithContents as any).mock.calls[0][0].cards[0] as Card;
+    expect(copy.startDate).toEqual(new Date("2026-03-02T08:00:00Z"));
+    expect(copy.dueDate).toEqual(new Date("2026-03-02T17:00:00Z"));
+  });
+
+  test("should skip a copy that fails and go on with the other recurrences", async () => {
+    const other = CardRecurrence.fromPersistence({ ...recurrence.toJSON(), id: "recurrence-456" });
+    mockCardRecurrenceRepository.findDue = mock(() => Promise.resolve([recurrence, other]));
+    let calls = 0;
+    mockCardRepository.createWithContents = mock(() =>
+      ++calls === 1 ? Promise.reject(new Error("Connection lost")) : Promise.resolve()
+    );
+
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ created: 1, skipped: 1 });
+    expect(mockCardRepository.createWithContents).toHaveBeenCalledTimes(2);
+  });
+
+  test("should not copy when another run already claimed it", async () => {
+    mockCardRecurrenceRepository.claimRun = mock(() => Promise.resolve(false));
+
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ created: 0, skipped: 0 });
+    expect(mockCardRepository.createWithContents).not.toHaveBeenCalled();
+  });
+
+  test("should skip archived cards but keep the schedule moving", async () => {
+    template.archive();
+
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ created: 0, skipped: 1 });
+    expect(mockCardRecurrenceRepository.claimRun).toHaveBeenCalled();
+    expect(mockCardRepository.createWithContents).not.toHaveBeenCalled();
+  });
+
+  test("should skip the copy while the target list is full under a strict WIP limit", async () => {
+    todoList = List.fromPersistence({ ...todoList.toJSON(), wipLimit: 2, wipLimitMode: "STRICT" });
+    mockCardRepository.countOpenInList = mock(() => Promise.resolve(2));
+
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ created: 0, skipped: 1 });
+    expect(mockCardRecurrenceRepository.claimRun).toHaveBeenCalled();
+    expect(mockCardRepository.createWithContents).not.toHaveBeenCalled();
+  });
+
+  test("should fall back to the template's list when the target list is gone", async () => {
+    mockListRepository.findById = mock((id: string) => Promise.resolve(id === recurringList.id ? recurringList : null));
+
+    await useCase.execute({ now });
+
+    const copy = (mockCardRepository.createWithContents as any).mock.calls[0][0].cards[0] as Card;
+    expect(copy.listId).toBe(recurringList.id);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ProcessWebhookDeliveriesUseCase } from "../../usecases/ProcessWebhookDeliveries";
+import { WebhookDeliveryRepository } from "@kanban/domain-core";
+import { WebhookRepository } from "@kanban/domain-core";
+import { WebhookSender } from "@kanban/domain-core";
+import { Activity, Webhook, WebhookDelivery, webhookRetryDelay } from "@kanban/domain-core";
+
+describe("ProcessWebhookDeliveriesUseCase", () => {
+  let useCase: ProcessWebhookDeliveriesUseCase;
+  let mockWebhookDeliveryRepository: WebhookDeliveryRepository;
+  let mockWebhookRepository: WebhookRepository;
+  let mockWebhookSender: WebhookSender;
+  let webhook: Webhook;
+  let delivery: WebhookDelivery;
+  const now = new Date("2026-01-01T00:00:00Z");
+
+  beforeEach(() => {
+    webhook = Webhook.create({
+      boardId: "board-123",
+      url: "https://ci.example.com/hooks/kanban",
+      events: ["CREATE"],
+      creatorId: "user-123",
+    });
+    delivery = WebhookDelivery.forActivity(webhook.id, Activity.create({
+      action: "CREATE",
+      entityType: "CARD",
+      entityId: "card-123",
+      entityTitle: "Fix login",
+      userId: "user-123",
+      boardId: "board-123",
+    }));
+
+    mockWebhookDeliveryRepository = {
+      findDue: mock(() => Promise.resolve([delivery])),
+      save: mock(() => Promise.resolve()),
+    } as unknown as WebhookDeliveryRepository;
+
+    mockWebhookRepository = {
+      findById: mock(() => Promise.resolve(webhook)),
+    } as unknown as WebhookRepository;
+
+    mockWebhookSender = {
+      send: mock(() => Promise.resolve({ status: 200 })),
+    } as unknown as WebhookSender;
+
+    useCase = new ProcessWebhookDeliveriesUseCase(
+      mockWebhookDeliveryRepository,
+      mockWebhookRepository,
+      mockWebhookSender
+    );
+  });
+
+  test("should sign and send due deliveries with the webhook secret", async () => {
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ attempted: 1, succeeded: 1 });
+    expect(mockWebhookSender.send).toHaveBeenCalledWith({
+      url: webhook.url,
+      secret: webhook.secret,
+      deliveryId: delivery.id,
+      event: "CREATE",
+      payload: delivery.payload,
+    });
+    expect(delivery.status).toBe("SUCCEEDED");
+    expect(mockWebhookDeliveryRepository.save).toHaveBeenCalledWith(delivery);
+  });
+
+  test("should schedule a retry when the receiver fails", async () => {
+    mockWebhookSender.send = mock(() => Promise.resolve({ error: "connect ECONNREFUSED" }));
+
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ attempted: 1, succeeded: 0 });
+    expect(delivery.status).toBe("PENDING");
+    expect(delivery.attempts).toBe(1);
+    expect(delivery.error).toBe("connect ECONNREFUSED");
+    expect(delivery.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(now.getTime() + webhookRetryDelay(1));
+  });
+
+  test("should skip deliveries of disabled webhooks", async () => {
+    webhook.update({ isActive: false });
+
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ attempted: 0, succeeded: 0 });
+    expect(mockWebhookSender.send).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -65,6 +65,7 @@ describe("RemoveLabelFromCardUseCase", () => {
       addToCard: mock(() => Promise.resolve()),
       removeFromCard: mock(() => Promise.resolve()),
       getCardLabels: mock(() => Promise.resolve([])),
+      getLabelsByCards: mock(() => Promise.resolve(new Map())),
       isAttachedToCard: mock(() => Promise.resolve(true)), // Label is attached by default
       existsInBoard: mock(() => Promise.resolve(false)),
     } as unknown as LabelRepository;
@@ -5,6 +5,7 @@ import { UserRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
 
 import type { BoardRole } from "@kanban/domain-core";
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder, LabelBuilder } from "../../test/fixtures/entityFactories";
@@ -16,6 +17,7 @@ describe("ReorderCards", () => {
   let mockBoardRepository: BoardRepository;
   let mockListRepository: ListRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockEventPublisher: BoardEventPublisher;
 
   const testUserId = "user-123";
   const testCardId = "card-456";
@@ -49,6 +51,9 @@ describe("ReorderCards", () => {
     // Create mock repositories
     mockCardRepository = {
       save: mock(() => Promise.resolve()),
+      moveCard: mock(() => Promise.resolve()),
+      findNeighbourPositions: mock(() => Promise.resolve({ before: 0, after: 4096 })),
+      rebalancePositions: mock(() => Promise.resolve([])),
       findById: mock(() => Promise.resolve(testCard)),
       findByList: mock(() => Promise.resolve([])),
       delete: mock(() => Promise.resolve()),
@@ -91,12 +96,17 @@ describe("ReorderCards", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
     useCase = new ReorderCards(
       mockCardRepository,
       mockUserRepository,
       mockBoardRepository,
       mockListRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher
     );
   });
 
@@ -105,7 +115,7 @@ describe("ReorderCards", () => {
 
     await useCase.execute(testListId, testUserId, testCardId, newPosition);
 
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
     expect(mockActivityRepository.create).toHaveBeenCalledWith(
       expect.objectContaining({
         type: "MOVE",
@@ -117,27 +127,32 @@ describe("ReorderCards", () => {
         description: `reordered cards in ${testList.title}`,
       })
     );
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "card.moved",
+        boardId: testBoardId,
+        payload: {
+          cardId: testCardId,
+          fromListId: testList.id,
+          toListId: testList.id,
+          position: newPosition,
+        },
+      })
+    );
   });
 
   test("should update card position correctly", async () => {
     const newPosition = 5000;
-    let updatedCard = testCard;
-
-    mockCardRepository.save = mock((card) => {
-      updatedCard = card;
-      return Promise.resolve();
-    });
-
     await useCase.execute(testListId, testUserId, testCardId, newPosition);
 
-    expect(updatedCard.position).toBe(newPosition);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledWith(testCardId, testListId, newPosition);
   });
 
   test("should allow board owner to reorder cards", async () => {
     await useCase.execute(testListId, testUserId, testCardId, 2000);
 
     expect(mockBoardRepository.getMemberRole).toHaveBeenCalledWith(testBoardId, testUserId);
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
   });
 
   test("should allow board admin to reorder cards", async () => {
@@ -156,7 +171,7 @@ describe("ReorderCards", () => {
 
     await useCase.execute(testListId, adminUserId, testCardId, 2000);
 
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
   });
 
   test("should allow board member to reorder cards", async () => {
@@ -175,49 +190,54 @@ describe("ReorderCards", () => {
 
     await useCase.execute(testListId, memberUserId, testCardId, 2000);
 
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
   });
 
-  test("should handle position zero", async () => {
-    let updatedCard = testCard;
+  test("should rebalance the list once the gap between neighbours is used up", async () => {
+    const rebalanced = [
+      { id: "card-a", position: 1024 },
+      { id: testCardId, position: 2048 },
+      { id: "card-b", position: 3072 },
+    ];
+    mockCardRepository.findNeighbourPositions = mock(() => Promise.resolve({ before: 1024, after: 1024.0000001 }));
+    mockCardRepository.rebalancePositions = mock(() => Promise.resolve(rebalanced));
 
-    mockCardRepository.save = mock((card) => {
-      updatedCard = card;
-      return Promise.resolve();
-    });
+    await useCase.execute(testListId, testUserId, testCardId, 1024.00000005);
 
+    expect(mockCardRepository.rebalancePositions).toHaveBeenCalledWith(testListId);
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "card.moved",
+        payload: expect.objectContaining({ cardId: testCardId, position: 2048 }),
+      })
+    );
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "cards.reordered",
+        payload: { listId: testListId, cards: rebalanced },
+      })
+    );
+  });
+
+  test("should handle position zero", async () => {
     await useCase.execute(testListId, testUserId, testCardId, 0);
 
-    expect(updatedCard.position).toBe(0);
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledWith(testCardId, testListId, 0);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
   });
 
   test("should handle negative position", async () => {
-    let updatedCard = testCard;
-
-    mockCardRepository.save = mock((card) => {
-      updatedCard = card;
-      return Promise.resolve();
-    });
-
     await useCase.execute(testListId, testUserId, testCardId, -1000);
 
-    expect(updatedCard.position).toBe(-1000);
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledWith(testCardId, testListId, -1000);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
   });
 
   test("should handle decimal position", async () => {
-    let updatedCard = testCard;
-
-    mockCardRepository.save = mock((card) => {
-      updatedCard = card;
-      return Promise.resolve();
-    });
-
     await useCase.execute(testListId, testUserId, testCardId, 1500.5);
 
-    expect(updatedCard.position).toBe(1500.5);
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledWith(testCardId, testListId, 1500.5);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
   });
 
   test("should throw error if card does not belong to list", async () => {
@@ -301,7 +321,7 @@ describe("ReorderCards", () => {
 
     await useCase.execute(testListId, testUserId, testCardId, 3000);
 
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
   });
 
   test("should preserve card properties when reordering", async () => {
@@ -314,30 +334,26 @@ describe("ReorderCards", () => {
       .inList(testListId)
       .build();
 
-    let savedCard;
     mockCardRepository.findById = mock(() => Promise.resolve(detailedCard));
-    mockCardRepository.save = mock((card) => {
-      savedCard = card;
-      return Promise.resolve();
-    });
 
     await useCase.execute(testListId, testUserId, testCardId, 5000);
 
-    expect(savedCard.position).toBe(5000);
-    expect(savedCard.title).toBe("Detailed Card");
-    expect(savedCard.description).toBe("Important description");
-    expect(savedCard.dueDate).toEqual(new Date("2024-12-31"));
-    expect(savedCard.assigneeId).toBe("assignee-123");
+    expect(mockCardRepository.moveCard).toHaveBeenCalledWith(testCardId, testListId, 5000);
+    expect(detailedCard.position).toBe(5000);
+    expect(detailedCard.title).toBe("Detailed Card");
+    expect(detailedCard.description).toBe("Important description");
+    expect(detailedCard.dueDate).toEqual(new Date("2024-12-31"));
+    expect(detailedCard.assigneeIds).toEqual(["assignee-123"]);
   });
 
   test("should handle multiple cards reorder", async () => {
     // First reorder
     await useCase.execute(testListId, testUserId, testCardId, 500);
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(1);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(1);
 
     // Second reorder of same card
     await useCase.execute(testListId, testUserId, testCardId, 1500);
-    expect(mockCardRepository.save).toHaveBeenCalledTimes(2);
+    expect(mockCardRepository.moveCard).toHaveBeenCalledTimes(2);
 
     // Activity should be logged for both
     expect(mockActivityRepository.create).toHaveBeenCalledTimes(2);
@@ -0,0 +1,135 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ReorderChecklistItemsUseCase } from "../../usecases/ReorderChecklistItems";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { ChecklistItemRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, Checklist, ChecklistItem, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("ReorderChecklistItemsUseCase", () => {
+  let useCase: ReorderChecklistItemsUseCase;
+  let mockChecklistItemRepository: ChecklistItemRepository;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let testChecklist: Checklist;
+  let testItems: ChecklistItem[];
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testChecklist = Checklist.create({ title: "Subtasks", position: 1, cardId: testCard.id });
+    testItems = [1, 2, 3].map(position =>
+      ChecklistItem.create({ content: `Step ${position}`, position, checklistId: testChecklist.id })
+    );
+
+    mockChecklistItemRepository = {
+      findByChecklist: mock(() => Promise.resolve(testItems)),
+      reorderItems: mock(() => Promise.resolve()),
+    } as unknown as ChecklistItemRepository;
+
+    mockChecklistRepository = {
+      findById: mock(() => Promise.resolve(testChecklist)),
+    } as unknown as ChecklistRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    useCase = new ReorderChecklistItemsUseCase(
+      mockChecklistItemRepository,
+      mockChecklistRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository
+    );
+  });
+
+  test("should reorder items", async () => {
+    const itemPositions = [
+      { id: testItems[0]!.id, position: 2 },
+      { id: testItems[1]!.id, position: 1 },
+      { id: testItems[2]!.id, position: 3 },
+    ];
+
+    await useCase.execute({ cardId: testCard.id, checklistId: testChecklist.id, itemPositions, userId: "member-1" });
+
+    expect(mockChecklistItemRepository.reorderItems).toHaveBeenCalledWith(testChecklist.id, itemPositions);
+  });
+
+  test("should reject items from another checklist", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemPositions: [{ id: "foreign", position: 1 }],
+      userId: "member-1",
+    })).rejects.toThrow(`Checklist item foreign does not belong to checklist ${testChecklist.id}`);
+  });
+
+  test("should reject a request that leaves items out", async () => {
+    // Item 3 keeps position 3, which item 1 would take
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemPositions: [
+        { id: testItems[0]!.id, position: 3 },
+        { id: testItems[1]!.id, position: 1 },
+      ],
+      userId: "member-1",
+    })).rejects.toThrow("Every item of the checklist must be listed");
+    expect(mockChecklistItemRepository.reorderItems).not.toHaveBeenCalled();
+  });
+
+  test("should reject an item listed twice", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemPositions: [
+        { id: testItems[0]!.id, position: 1 },
+        { id: testItems[0]!.id, position: 2 },
+        { id: testItems[1]!.id, position: 3 },
+      ],
+      userId: "member-1",
+    })).rejects.toThrow(`Checklist item ${testItems[0]!.id} is listed more than once`);
+  });
+
+  test("should reject duplicate positions", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemPositions: [
+        { id: testItems[0]!.id, position: 1 },
+        { id: testItems[1]!.id, position: 1 },
+        { id: testItems[2]!.id, position: 2 },
+      ],
+      userId: "member-1",
+    })).rejects.toThrow("Duplicate positions are not allowed");
+  });
+
+  test("should deny VIEWER from reordering", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as BoardRole));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemPositions: [{ id: "item-1", position: 1 }],
+      userId: "viewer-1",
+    })).rejects.toThrow("Access denied");
+  });
+});
\ No newline at end of file
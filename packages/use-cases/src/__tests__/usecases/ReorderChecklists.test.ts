@@ -0,0 +1,97 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ReorderChecklistsUseCase } from "../../usecases/ReorderChecklists";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, Checklist, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("ReorderChecklistsUseCase", () => {
+  let useCase: ReorderChecklistsUseCase;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let testChecklists: Checklist[];
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testChecklists = [1, 2, 3].map(position =>
+      Checklist.create({ title: `Checklist ${position}`, position, cardId: testCard.id })
+    );
+
+    mockChecklistRepository = {
+      findByCard: mock(() => Promise.resolve(testChecklists)),
+      reorderChecklists: mock(() => Promise.resolve()),
+    } as unknown as ChecklistRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    useCase = new ReorderChecklistsUseCase(
+      mockChecklistRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository
+    );
+  });
+
+  test("should reorder checklists", async () => {
+    const checklistPositions = [
+      { id: testChecklists[0]!.id, position: 3 },
+      { id: testChecklists[1]!.id, position: 1 },
+      { id: testChecklists[2]!.id, position: 2 },
+    ];
+
+    await useCase.execute({ cardId: testCard.id, checklistPositions, userId: "member-1" });
+
+    expect(mockChecklistRepository.reorderChecklists).toHaveBeenCalledWith(testCard.id, checklistPositions);
+  });
+
+  test("should reject a request that leaves checklists out", async () => {
+    // Checklist 3 keeps position 3, which checklist 1 would take
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistPositions: [
+        { id: testChecklists[0]!.id, position: 3 },
+        { id: testChecklists[1]!.id, position: 1 },
+      ],
+      userId: "member-1",
+    })).rejects.toThrow("Every checklist of the card must be listed");
+    expect(mockChecklistRepository.reorderChecklists).not.toHaveBeenCalled();
+  });
+
+  test("should reject checklists from another card", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistPositions: [{ id: "foreign", position: 1 }],
+      userId: "member-1",
+    })).rejects.toThrow(`Checklist foreign does not belong to card ${testCard.id}`);
+  });
+
+  test("should deny VIEWER from reordering", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as BoardRole));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistPositions: [{ id: testChecklists[0]!.id, position: 1 }],
+      userId: "viewer-1",
+    })).rejects.toThrow("Access denied");
+  });
+});
\ No newline at end of file
@@ -3,6 +3,7 @@ import { ReorderListsUseCase } from "../../usecases/ReorderLists";
 import { ListRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
 
 import type { BoardRole } from "@kanban/domain-core";
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder, LabelBuilder } from "../../test/fixtures/entityFactories";
@@ -12,6 +13,7 @@ describe("ReorderListsUseCase", () => {
   let mockListRepository: ListRepository;
   let mockBoardRepository: BoardRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockEventPublisher: BoardEventPublisher;
 
   const testUserId = "user-123";
   const testBoardId = "board-456";
@@ -34,6 +36,7 @@ describe("ReorderListsUseCase", () => {
       update: mock(() => Promise.resolve()),
       existsInBoard: mock(() => Promise.resolve(true)),
       reorderLists: mock(() => Promise.resolve()),
+      rebalancePositions: mock(() => Promise.resolve([])),
     } as unknown as ListRepository;
 
     mockBoardRepository = {
@@ -56,10 +59,15 @@ describe("ReorderListsUseCase", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
     useCase = new ReorderListsUseCase(
       mockListRepository,
       mockBoardRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher
     );
   });
 
@@ -88,6 +96,67 @@ describe("ReorderListsUseCase", () => {
         data: { listCount: 3 },
       })
     );
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "lists.reordered",
+        boardId: testBoardId,
+        payload: { lists: [] },
+      })
+    );
+  });
+
+  test("should publish the board's ranks as stored after the reorder", async () => {
+    const lists = [
+      ListBuilder.valid().withPosition(1024).inBoard(testBoardId).build(),
+      ListBuilder.valid().withPosition(1536).inBoard(testBoardId).build(),
+    ];
+    mockListRepository.findByBoard = mock(() => Promise.resolve(lists));
+
+    await useCase.execute({
+      boardId: testBoardId,
+      listPositions: [{ id: lists[1]!.id, position: 1536 }],
+      userId: testUserId,
+    });
+
+    expect(mockListRepository.rebalancePositions).not.toHaveBeenCalled();
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "lists.reordered",
+        payload: {
+          lists: [
+            { id: lists[0]!.id, position: 1024 },
+            { id: lists[1]!.id, position: 1536 },
+          ],
+        },
+      })
+    );
+  });
+
+  test("should rebalance the board when two lists end up sharing a rank", async () => {
+    const lists = [
+      ListBuilder.valid().withPosition(1024).inBoard(testBoardId).build(),
+      ListBuilder.valid().withPosition(1024).inBoard(testBoardId).build(),
+    ];
+    const rebalanced = [
+      { id: lists[0]!.id, position: 1024 },
+      { id: lists[1]!.id, position: 2048 },
+    ];
+    mockListRepository.findByBoard = mock(() => Promise.resolve(lists));
+    mockListRepository.rebalancePositions = mock(() => Promise.resolve(rebalanced));
+
+    await useCase.execute({
+      boardId: testBoardId,
+      listPositions: [{ id: lists[1]!.id, position: 1024 }],
+      userId: testUserId,
+    });
+
+    expect(mockListRepository.rebalancePositions).toHaveBeenCalledWith(testBoardId);
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "lists.reordered",
+        payload: { lists: rebalanced },
+      })
+    );
   });
 
   test("should allow board owner to reorder lists", async () => {
@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { SaveBoardAsTemplateUseCase } from "../../usecases/SaveBoardAsTemplate";
+import { BoardRepository } from "@kanban/domain-core";
+import { BoardTemplateRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { LabelRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { ChecklistItemRepository } from "@kanban/domain-core";
+import { Board, List } from "@kanban/domain-core";
+import { BoardBuilder, CardBuilder, LabelBuilder, ListBuilder } from "../../test/fixtures/entityFactories";
+
+describe("SaveBoardAsTemplateUseCase", () => {
+  let useCase: SaveBoardAsTemplateUseCase;
+  let mockBoardRepository: BoardRepository;
+  let mockBoardTemplateRepository: BoardTemplateRepository;
+  let mockListRepository: ListRepository;
+  let mockLabelRepository: LabelRepository;
+  let mockCardRepository: CardRepository;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockChecklistItemRepository: ChecklistItemRepository;
+  let testBoard: Board;
+  let testList: List;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withTitle("Incident").withOwner("board-owner").private().build();
+    testList = ListBuilder.valid().withTitle("Investigating").inBoard(testBoard.id).build();
+    const card = CardBuilder.valid().withTitle("Open a channel").inList(testList.id).build();
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER")),
+    } as unknown as BoardRepository;
+
+    mockBoardTemplateRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as BoardTemplateRepository;
+
+    mockListRepository = {
+      findByBoard: mock(() => Promise.resolve([testList])),
+    } as unknown as ListRepository;
+
+    mockLabelRepository = {
+      findByBoard: mock(() => Promise.resolve([
+        LabelBuilder.valid().withName("Sev1").withColor("#d32f2f").inBoard(testBoard.id).build(),
+      ])),
+      getLabelsByCards: mock(() => Promise.resolve(new Map())),
+    } as unknown as LabelRepository;
+
+    mockCardRepository = {
+      findByList: mock(() => Promise.resolve([card])),
+    } as unknown as CardRepository;
+
+    mockChecklistRepository = {
+      findByCard: mock(() => Promise.resolve([])),
+    } as unknown as ChecklistRepository;
+
+    mockChecklistItemRepository = {
+      findByChecklists: mock(() => Promise.resolve([])),
+    } as unknown as ChecklistItemRepository;
+
+    useCase = new SaveBoardAsTemplateUseCase(
+      mockBoardRepository,
+      mockBoardTemplateRepository,
+      mockListRepository,
+      mockLabelRepository,
+      mockCardRepository,
+      mockChecklistRepository,
+      mockChecklistItemRepository
+    );
+  });
+
+  test("should save the board's structure as a template owned by the caller", async () => {
+    const result = await useCase.execute({ boardId: testBoard.id, userId: "member-1" });
+
+    expect(result.template.name).toBe("Incident");
+    expect(result.template.ownerId).toBe("member-1");
+    expect(result.template.sourceBoardId).toBe(testBoard.id);
+    expect(result.template.blueprint).toEqual({
+      labels: [{ name: "Sev1", color: "#d32f2f" }],
+      lists: [{ title: "Investigating", color: undefined, cards: [] }],
+    });
+    expect(mockBoardTemplateRepository.save).toHaveBeenCalledWith(result.template);
+  });
+
+  test("should include cards when asked", async () => {
+    const result = await useCase.execute({
+      boardId: testBoard.id,
+      userId: "member-1",
+      name: "  Incident response  ",
+      includeCards: true,
+    });
+
+    expect(result.template.name).toBe("Incident response");
+    expect(result.template.blueprint.lists[0]!.cards).toEqual([
+      { title: "Open a channel", description: undefined, labels: [], checklists: [] },
+    ]);
+  });
+
+  test("should deny users who cannot view the board", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ boardId: testBoard.id, userId: "stranger" })).rejects.toThrow("Access denied");
+    expect(mockBoardTemplateRepository.save).not.toHaveBeenCalled();
+  });
+
+  test("should throw error when board does not exist", async () => {
+    mockBoardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ boardId: "missing", userId: "member-1" })).rejects.toThrow("Board not found");
+  });
+});
\ No newline at end of file
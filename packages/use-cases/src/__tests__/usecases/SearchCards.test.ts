@@ -0,0 +1,137 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { SearchCardsUseCase } from "../../usecases/SearchCards";
+import { BoardRepository } from "@kanban/domain-core";
+import { SearchRepository } from "@kanban/domain-core";
+import { Board, CardSearchHit } from "@kanban/domain-core";
+import { BoardBuilder } from "../../test/fixtures/entityFactories";
+
+function buildHit(cardId: string, boardId: string): CardSearchHit {
+  return {
+    cardId,
+    cardTitle: "Fix login",
+    listId: "list-1",
+    listTitle: "To Do",
+    boardId,
+    boardTitle: "Roadmap",
+    rank: 0.5,
+    snippets: [{ source: "title", text: "Fix login", highlights: [{ start: 4, length: 5 }] }],
+  };
+}
+
+describe("SearchCardsUseCase", () => {
+  let useCase: SearchCardsUseCase;
+  let mockBoardRepository: BoardRepository;
+  let mockSearchRepository: SearchRepository;
+  let ownedBoard: Board;
+  let memberBoard: Board;
+
+  beforeEach(() => {
+    ownedBoard = BoardBuilder.valid().withOwner("user-1").private().build();
+    memberBoard = BoardBuilder.valid().withOwner("board-owner").private().build();
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(memberBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER")),
+      findByOwner: mock(() => Promise.resolve([ownedBoard])),
+      findByMember: mock(() => Promise.resolve([ownedBoard, memberBoard])),
+    } as unknown as BoardRepository;
+
+    mockSearchRepository = {
+      searchCards: mock(() => Promise.resolve([buildHit("card-1", ownedBoard.id)])),
+    } as unknown as SearchRepository;
+
+    useCase = new SearchCardsUseCase(mockBoardRepository, mockSearchRepository);
+  });
+
+  test("should search every board the user owns or belongs to", async () => {
+    const result = await useCase.execute({ userId: "user-1", query: "  login " });
+
+    expect(result.results).toHaveLength(1);
+    expect(result.hasMore).toBe(false);
+    expect(mockSearchRepository.searchCards).toHaveBeenCalledWith(
+      "login",
+      {
+        boardIds: [ownedBoard.id, memberBoard.id],
+        listId: undefined,
+        labelId: undefined,
+        assigneeId: undefined,
+        dueDate: undefined,
+      },
+      { limit: 21, offset: undefined }
+    );
+  });
+
+  test("should pass filters and report another page", async () => {
+    mockSearchRepository.searchCards = mock(() => Promise.resolve([
+      buildHit("card-1", memberBoard.id),
+      buildHit("card-2", memberBoard.id),
+      buildHit("card-3", memberBoard.id),
+    ]));
+    const dueFrom = new Date("2026-01-01");
+
+    const result = await useCase.execute({
+      userId: "user-1",
+      query: "login",
+      boardId: memberBoard.id,
+      labelId: "label-1",
+      assigneeId: "user-2",
+      dueFrom,
+      limit: 2,
+      offset: 4,
+    });
+
+    expect(result.results.map(hit => hit.cardId)).toEqual(["card-1", "card-2"]);
+    expect(result.hasMore).toBe(true);
+    expect(mockBoardRepository.findByOwner).not.toHaveBeenCalled();
+    expect(mockSearchRepository.searchCards).toHaveBeenCalledWith(
+      "login",
+      {
+        boardIds: [memberBoard.id],
+        listId: undefined,
+        labelId: "label-1",
+        assigneeId: "user-2",
+        dueDate: { from: dueFrom, to: undefined },
+      },
+      { limit: 3, offset: 4 }
+    );
+  });
+
+  test("should deny searching a private board the user cannot view", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ userId: "user-1", query: "login", boardId: memberBoard.id }))
+      .rejects.toThrow("Access denied");
+    expect(mockSearchRepository.searchCards).not.toHaveBeenCalled();
+  });
+
+  test("should throw error when board does not exist", async () => {
+    mockBoardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ userId: "user-1", query: "login", boardId: "missing" }))
+      .rejects.toThrow("Board not found");
+  });
+
+  test("should reject a blank query", async () => {
+    expect(useCase.execute({ userId: "user-1", query: "   " }))
+      .rejects.toThrow("Search query is required");
+  });
+
+  test("should reject a due range that ends before it starts", async () => {
+    expect(useCase.execute({
+      userId: "user-1",
+      query: "login",
+      dueFrom: new Date("2026-02-01"),
+      dueTo: new Date("2026-01-01"),
+    })).rejects.toThrow("Due date range is invalid");
+  });
+
+  test("should return nothing without querying when the user has no boards", async () => {
+    mockBoardRepository.findByOwner = mock(() => Promise.resolve([]));
+    mockBoardRepository.findByMember = mock(() => Promise.resolve([]));
+
+    const result = await useCase.execute({ userId: "user-1", query: "login" });
+
+    expect(result).toEqual({ results: [], hasMore: false });
+    expect(mockSearchRepository.searchCards).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { SendDueDateRemindersUseCase } from "../../usecases/SendDueDateReminders";
+import { BoardRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { DueDateReminderRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { Mailer } from "@kanban/domain-core";
+import { UserRepository } from "@kanban/domain-core";
+import { Board, BoardRole, DueDateReminder, List, User } from "@kanban/domain-core";
+import { BoardBuilder, CardBuilder, ListBuilder, UserBuilder } from "../../test/fixtures/entityFactories";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("SendDueDateRemindersUseCase", () => {
+  let useCase: SendDueDateRemindersUseCase;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockUserRepository: UserRepository;
+  let mockDueDateReminderRepository: DueDateReminderRepository;
+  let mockMailer: Mailer;
+  let testBoard: Board;
+  let testList: List;
+  let alice: User;
+  let bob: User;
+  const now = new Date("2026-03-02T09:00:00Z");
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withTitle("Roadmap").build();
+    testList = ListBuilder.valid().withTitle("Doing").inBoard(testBoard.id).build();
+    // Alice wants a day's notice, Bob only an hour's
+    alice = UserBuilder.valid().withName("Alice").withReminderLeadMinutes(24 * 60).build();
+    bob = UserBuilder.valid().withName("Bob").withReminderLeadMinutes(60).build();
+
+    mockCardRepository = {
+      findCardsDueBetween: mock(() => Promise.resolve([])),
+      findOverdueCards: mock(() => Promise.resolve([])),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockUserRepository = {
+      findByIds: mock(() => Promise.resolve([alice, bob])),
+    } as unknown as UserRepository;
+
+    mockDueDateReminderRepository = {
+      claim: mock(() => Promise.resolve(true)),
+      release: mock(() => Promise.resolve()),
+    } as unknown as DueDateReminderRepository;
+
+    mockMailer = {
+      send: mock(() => Promise.resolve()),
+    } as unknown as Mailer;
+
+    useCase = new SendDueDateRemindersUseCase(
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockUserRepository,
+      mockDueDateReminderRepository,
+      mockMailer,
+      { appUrl: "http://localhost:4001" }
+    );
+  });
+
+  test("should remind only assignees whose lead time has been reached", async () => {
+    const card = CardBuilder.valid()
+      .withTitle("Ship release")
+      .inList(testList.id)
+      .withDueDate(new Date(now.getTime() + 3 * HOUR_MS))
+      .assignedTo(alice.id, bob.id)
+      .build();
+    mockCardRepository.findCardsDueBetween = mock(() => Promise.resolve([card]));
+
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ sent: 1, failed: 0 });
+    expect(mockMailer.send).toHaveBeenCalledTimes(1);
+    const [message] = (mockMailer.send as ReturnType<typeof mock>).mock.calls[0]!;
+    expect(message.to).toBe(alice.email);
+    expect(message.subject).toBe('Reminder: "Ship release" is due soon');
+    expect(message.text).toContain(`http://localhost:4001/board/${testBoard.id}?card=${card.id}`);
+
+    const [reminder] = (mockDueDateReminderRepository.claim as ReturnType<typeof mock>).mock.calls[0]!;
+    expect((reminder as DueDateReminder).kind).toBe("DUE_SOON");
+    expect((reminder as DueDateReminder).dueDate).toEqual(card.dueDate!);
+  });
+
+  test("should email every assignee once a card is overdue", async () => {
+    const card = CardBuilder.valid()
+      .inList(testList.id)
+      .withDueDate(new Date(now.getTime() - HOUR_MS))
+      .assignedTo(alice.id, bob.id)
+      .build();
+    mockCardRepository.findOverdueCards = mock(() => Promise.resolve([card]));
+
+    const result = await useCase.execute({ now });
+
+    expect(result.sent).toBe(2);
+    expect(mockCardRepository.findOverdueCards).toHaveBeenCalledWith({
+      dueAfter: new Date(now.getTime() - 24 * HOUR_MS),
+    });
+  });
+
+  test("should not remind an assignee who has left the board", async () => {
+    const card = CardBuilder.valid()
+      .inList(testList.id)
+      .withDueDate(new Date(now.getTime() - HOUR_MS))
+      .assignedTo(alice.id, bob.id)
+      .build();
+    mockCardRepository.findOverdueCards = mock(() => Promise.resolve([card]));
+    // Bob was removed from the board but is still assigned to the card
+    mockBoardRepository.getMemberRole = mock((_boardId: string, userId: string) =>
+      Promise.resolve(userId === bob.id ? null : ("MEMBER" as BoardRole))
+    );
+
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ sent: 1, failed: 0 });
+    const [message] = (mockMailer.send as ReturnType<typeof mock>).mock.calls[0]!;
+    expect(message.to).toBe(alice.email);
+    expect(mockDueDateReminderRepository.claim).toHaveBeenCalledTimes(1);
+  });
+
+  test("should skip reminders that were already sent", async () => {
+    const card = CardBuilder.valid()
+      .inList(testList.id)
+      .withDueDate(new Date(now.getTime() - HOUR_MS))
+      .assignedTo(alice.id)
+      .build();
+    mockCardRepository.findOverdueCards = mock(() => Promise.resolve([card]));
+    mockDueDateReminderRepository.claim = mock(() => Promise.resolve(false));
+
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ sent: 0, failed: 0 });
+    expect(mockMailer.send).not.toHaveBeenCalled();
+  });
+
+  test("should release the claim when the email cannot be sent", async () => {
+    const card = CardBuilder.valid()
+      .inList(testList.id)
+      .withDueDate(new Date(now.getTime() - HOUR_MS))
+      .assignedTo(alice.id)
+      .build();
+    mockCardRepository.findOverdueCards = mock(() => Promise.resolve([card]));
+    mockMailer.send = mock(() => Promise.reject(new Error("connect ECONNREFUSED")));
+
+    const result = await useCase.execute({ now });
+
+    expect(result).toEqual({ sent: 0, failed: 1 });
+    const [reminder] = (mockDueDateReminderRepository.claim as ReturnType<typeof mock>).mock.calls[0]!;
+    expect(mockDueDateReminderRepository.release).toHaveBeenCalledWith((reminder as DueDateReminder).id);
+  });
+
+  test("should not remind users who turned reminders off", async () => {
+    const quiet = UserBuilder.valid().build();
+    const card = CardBuilder.valid()
+      .inList(testList.id)
+      .withDueDate(new Date(now.getTime() - HOUR_MS))
+      .assignedTo(quiet.id)
+      .build();
+    mockCardRepository.findOverdueCards = mock(() => Promise.resolve([card]));
+    mockUserRepository.findByIds = mock(() => Promise.resolve([quiet]));
+
+    const result = await useCase.execute({ now });
+
+    expect(result.sent).toBe(0);
+    expect(mockListRepository.findById).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
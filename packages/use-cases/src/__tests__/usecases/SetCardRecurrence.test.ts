@@ -0,0 +1,97 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { SetCardRecurrenceUseCase } from "../../usecases/SetCardRecurrence";
+import { BoardRepository } from "@kanban/domain-core";
+import { CardRecurrenceRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { Board, Card, CardRecurrence, List } from "@kanban/domain-core";
+import { BoardBuilder, CardBuilder, ListBuilder } from "../../test/fixtures/entityFactories";
+
+describe("SetCardRecurrenceUseCase", () => {
+  let useCase: SetCardRecurrenceUseCase;
+  let mockCardRecurrenceRepository: CardRecurrenceRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let testBoard: Board;
+  let testList: List;
+  let otherBoardList: List;
+  let testCard: Card;
+  const weekly = { frequency: "WEEKLY" as const, hour: 9, minute: 0, weekdays: [1] };
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("owner-123").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    otherBoardList = ListBuilder.valid().inBoard("other-board").build();
+    testCard = CardBuilder.valid().withTitle("Review dependabot").inList(testList.id).build();
+
+    mockCardRecurrenceRepository = {
+      findByCard: mock(() => Promise.resolve(null)),
+      save: mock(() => Promise.resolve()),
+    } as unknown as CardRecurrenceRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock((id: string) => Promise.resolve([testList, otherBoardList].find(list => list.id === id) ?? null)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER")),
+    } as unknown as BoardRepository;
+
+    useCase = new SetCardRecurrenceUseCase(
+      mockCardRecurrenceRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository
+    );
+  });
+
+  test("should make the card recurring", async () => {
+    const result = await useCase.execute({ cardId: testCard.id, userId: "user-123", rule: weekly });
+
+    expect(result.recurrence.cardId).toBe(testCard.id);
+    expect(result.recurrence.rule).toEqual(weekly);
+    expect(result.recurrence.nextRunAt.getUTCDay()).toBe(1);
+    expect(mockCardRecurrenceRepository.save).toHaveBeenCalledWith(result.recurrence);
+  });
+
+  test("should replace the rule of a card that already repeats", async () => {
+    const existing = CardRecurrence.create({ cardId: testCard.id, rule: { frequency: "DAILY", hour: 8, minute: 0 } });
+    mockCardRecurrenceRepository.findByCard = mock(() => Promise.resolve(existing));
+
+    const result = await useCase.execute({ cardId: testCard.id, userId: "user-123", rule: weekly });
+
+    expect(result.recurrence).toBe(existing);
+    expect(existing.rule).toEqual(weekly);
+  });
+
+  test("should reject viewers", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as const));
+
+    await expect(useCase.execute({ cardId: testCard.id, userId: "user-123", rule: weekly }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should reject a target list on another board", async () => {
+    await expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "user-123",
+      rule: weekly,
+      targetListId: otherBoardList.id,
+    })).rejects.toThrow("Target list must be on the same board");
+    expect(mockCardRecurrenceRepository.save).not.toHaveBeenCalled();
+  });
+
+  test("should reject an invalid rule", async () => {
+    await expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "user-123",
+      rule: { frequency: "CRON", cron: "every monday" },
+    })).rejects.toThrow("Cron expression must have five fields");
+  });
+});
\ No newline at end of file
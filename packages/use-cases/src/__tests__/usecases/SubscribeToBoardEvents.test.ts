@@ -0,0 +1,55 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { SubscribeToBoardEventsUseCase } from "../../usecases/SubscribeToBoardEvents";
+import { BoardRepository } from "@kanban/domain-core";
+import { BoardEventSubscriber } from "@kanban/domain-core";
+import { Board } from "@kanban/domain-core";
+import { BoardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("SubscribeToBoardEventsUseCase", () => {
+  let useCase: SubscribeToBoardEventsUseCase;
+  let mockBoardRepository: BoardRepository;
+  let mockSubscriber: BoardEventSubscriber;
+  let testBoard: Board;
+  const unsubscribe = mock(() => {});
+  const listener = mock(() => {});
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("owner-1").build();
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("VIEWER")),
+    } as unknown as BoardRepository;
+
+    mockSubscriber = {
+      subscribe: mock(() => unsubscribe),
+    };
+
+    useCase = new SubscribeToBoardEventsUseCase(mockBoardRepository, mockSubscriber);
+  });
+
+  test("should subscribe a board viewer and hand back the unsubscribe function", async () => {
+    const result = await useCase.execute({ boardId: testBoard.id, userId: "viewer-1", listener });
+
+    expect(mockSubscriber.subscribe).toHaveBeenCalledWith(testBoard.id, listener);
+    expect(result.unsubscribe).toBe(unsubscribe);
+  });
+
+  test("should throw when the board does not exist", async () => {
+    mockBoardRepository.findById = mock(() => Promise.resolve(null));
+
+    await expect(
+      useCase.execute({ boardId: "missing", userId: "viewer-1", listener })
+    ).rejects.toThrow("Board not found");
+    expect(mockSubscriber.subscribe).not.toHaveBeenCalled();
+  });
+
+  test("should deny users who cannot view a private board", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    await expect(
+      useCase.execute({ boardId: testBoard.id, userId: "stranger", listener })
+    ).rejects.toThrow("Access denied");
+    expect(mockSubscriber.subscribe).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { ToggleChecklistItemUseCase } from "../../usecases/ToggleChecklistItem";
+import { ChecklistRepository } from "@kanban/domain-core";
+import { ChecklistItemRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { Board, BoardRole, Card, Checklist, ChecklistItem, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("ToggleChecklistItemUseCase", () => {
+  let useCase: ToggleChecklistItemUseCase;
+  let mockChecklistItemRepository: ChecklistItemRepository;
+  let mockChecklistRepository: ChecklistRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockActivityRepository: ActivityRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  let testChecklist: Checklist;
+  let testItem: ChecklistItem;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+    testChecklist = Checklist.create({ title: "Subtasks", position: 1, cardId: testCard.id });
+    testItem = ChecklistItem.create({ content: "Write tests", position: 1, checklistId: testChecklist.id });
+
+    mockChecklistItemRepository = {
+      findById: mock(() => Promise.resolve(testItem)),
+      save: mock(() => Promise.resolve()),
+    } as unknown as ChecklistItemRepository;
+
+    mockChecklistRepository = {
+      findById: mock(() => Promise.resolve(testChecklist)),
+    } as unknown as ChecklistRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    useCase = new ToggleChecklistItemUseCase(
+      mockChecklistItemRepository,
+      mockChecklistRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockActivityRepository
+    );
+  });
+
+  test("should flip an open item to completed", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemId: testItem.id,
+      userId: "member-1",
+    });
+
+    expect(result.item.isCompleted).toBe(true);
+    expect(result.item.completedAt).toBeInstanceOf(Date);
+    expect(mockChecklistItemRepository.save).toHaveBeenCalledTimes(1);
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.entityType).toBe("CHECKLIST");
+    expect(activity.data).toEqual({
+      isCompleted: { from: false, to: true, subjectId: testItem.id, subjectTitle: "Write tests" },
+    });
+  });
+
+  test("should flip a completed item back to open", async () => {
+    testItem.complete();
+
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemId: testItem.id,
+      userId: "member-1",
+    });
+
+    expect(result.item.isCompleted).toBe(false);
+    expect(result.item.completedAt).toBeUndefined();
+  });
+
+  test("should be a no-op when the explicit state already matches", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemId: testItem.id,
+      userId: "member-1",
+      isCompleted: false,
+    });
+
+    expect(result.item.isCompleted).toBe(false);
+    expect(mockChecklistItemRepository.save).not.toHaveBeenCalled();
+    expect(mockActivityRepository.save).not.toHaveBeenCalled();
+  });
+
+  test("should deny VIEWER from toggling items", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as BoardRole));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemId: testItem.id,
+      userId: "viewer-1",
+    })).rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if item not found", async () => {
+    mockChecklistItemRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: testChecklist.id,
+      itemId: "missing",
+      userId: "member-1",
+    })).rejects.toThrow("Checklist item not found");
+  });
+
+  test("should not find an item addressed through another checklist", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      checklistId: "other-checklist",
+      itemId: testItem.id,
+      userId: "member-1",
+    })).rejects.toThrow("Checklist item not found");
+  });
+});
\ No newline at end of file
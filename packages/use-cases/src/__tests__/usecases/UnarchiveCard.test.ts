@@ -1,11 +1,12 @@
 import { describe, test, expect, beforeEach, mock } from "bun:test";
 import { UnarchiveCard } from "../../usecases/UnarchiveCard";
-import { Card } from "@kanban/domain-core";
+import { BusinessRuleViolationError, Card, List } from "@kanban/domain-core";
 import { CardRepository } from "@kanban/domain-core";
 import { UserRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
 
 import type { BoardRole } from "@kanban/domain-core";
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder, LabelBuilder } from "../../test/fixtures/entityFactories";
@@ -17,6 +18,7 @@ describe("UnarchiveCard", () => {
   let mockBoardRepository: BoardRepository;
   let mockListRepository: ListRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockEventPublisher: BoardEventPublisher;
 
   const testUserId = "user-123";
   const testCardId = "card-456";
@@ -96,12 +98,17 @@ describe("UnarchiveCard", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
     useCase = new UnarchiveCard(
       mockCardRepository,
       mockUserRepository,
       mockBoardRepository,
       mockListRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher
     );
   });
 
@@ -121,6 +128,13 @@ describe("UnarchiveCard", () => {
         description: `unarchived card "${testCard.title}"`,
       })
     );
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "card.unarchived",
+        boardId: testBoardId,
+        payload: { card: expect.objectContaining({ id: testCard.id, isArchived: false }) },
+      })
+    );
   });
 
   test("should allow board owner to unarchive card", async () => {
@@ -180,6 +194,16 @@ describe("UnarchiveCard", () => {
     expect(useCase.execute(testCardId, testUserId)).rejects.toThrow("Card is not archived");
   });
 
+  test("should keep the card archived when its list is full under a strict WIP limit", async () => {
+    const fullList = List.fromPersistence({ ...testList.toJSON(), wipLimit: 1, wipLimitMode: "STRICT" });
+    mockListRepository.findById = mock(() => Promise.resolve(fullList));
+    mockCardRepository.countOpenInList = mock(() => Promise.resolve(1));
+
+    await expect(useCase.execute(testCardId, testUserId)).rejects.toBeInstanceOf(BusinessRuleViolationError);
+    expect(testCard.isArchived).toBe(true);
+    expect(mockCardRepository.save).not.toHaveBeenCalled();
+  });
+
   test("should throw error if user not found", async () => {
     mockUserRepository.findById = mock(() => Promise.resolve(null));
 
@@ -259,7 +283,7 @@ describe("UnarchiveCard", () => {
     expect(result.description).toBe("Important description");
     expect(result.position).toBe(5000);
     expect(result.dueDate).toEqual(new Date("2024-12-31"));
-    expect(result.assigneeId).toBe("assignee-123");
+    expect(result.assigneeIds).toEqual(["assignee-123"]);
   });
 
   test("should handle archived card in different list", async () => {
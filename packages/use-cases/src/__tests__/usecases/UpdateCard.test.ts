@@ -6,6 +6,9 @@ import { UserRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { NotificationRepository } from "@kanban/domain-core";
+import { WatchRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
 import type { BoardRole } from "@kanban/domain-core";
 
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder, LabelBuilder } from "../../test/fixtures/entityFactories";
@@ -17,6 +20,9 @@ describe("UpdateCard", () => {
   let mockBoardRepository: BoardRepository;
   let mockListRepository: ListRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockNotificationRepository: NotificationRepository;
+  let mockWatchRepository: WatchRepository;
+  let mockEventPublisher: BoardEventPublisher;
 
   const testUserId = "user-123";
   const testCardId = "card-456";
@@ -96,12 +102,27 @@ describe("UpdateCard", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
+    mockNotificationRepository = {
+      createMany: mock(() => Promise.resolve()),
+    } as unknown as NotificationRepository;
+
+    mockWatchRepository = {
+      watch: mock(() => Promise.resolve()),
+    } as unknown as WatchRepository;
+
     useCase = new UpdateCard(
       mockCardRepository,
       mockUserRepository,
       mockBoardRepository,
       mockListRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher,
+      mockNotificationRepository,
+      mockWatchRepository
     );
   });
 
@@ -122,6 +143,14 @@ describe("UpdateCard", () => {
         entityType: "CARD",
         entityId: testCard.id,  // Use actual card ID instead of testCardId
         description: expect.stringContaining('changed title from "Original Title" to "Updated Title"'),
+        data: { title: { from: "Original Title", to: "Updated Title" } },
+      })
+    );
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "card.updated",
+        boardId: testBoardId,
+        payload: { card: expect.objectContaining({ title: "Updated Title" }) },
       })
     );
   });
@@ -207,33 +236,88 @@ describe("UpdateCard", () => {
     );
   });
 
-  test("should assign card to user", async () => {
-    const assigneeId = "user-789";
-    const assignee = UserBuilder.valid()
-      .withName("Assignee User")
+  test("should assign card to several users with one activity each", async () => {
+    const assignee = UserBuilder.valid().withName("Assignee User").build();
+    const pair = UserBuilder.valid().withName("Pair User").build();
+
+    mockUserRepository.findById = mock((id: string) => {
+      if (id === testUserId) return Promise.resolve(testUser);
+      if (id === "user-789") return Promise.resolve(assignee);
+      if (id === "user-790") return Promise.resolve(pair);
+      return Promise.resolve(null);
+    });
+
+    const updateData = {
+      assigneeIds: ["user-789", "user-790"],
+    };
+
+    const result = await useCase.execute(testCardId, testUserId, updateData);
+
+    expect(result.assigneeIds).toEqual(["user-789", "user-790"]);
+    expect(mockActivityRepository.create).toHaveBeenCalledTimes(2);
+    expect(mockActivityRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "ASSIGN",
+        description: "assigned Assignee User",
+        data: { assigneeId: "user-789", assigneeName: "Assignee User" },
+      })
+    );
+    expect(mockActivityRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "ASSIGN",
+        data: { assigneeId: "user-790", assigneeName: "Pair User" },
+      })
+    );
+    expect(mockEventPublisher.publish).toHaveBeenCalledTimes(1);
+
+    const notifications = (mockNotificationRepository.createMany as any).mock.calls[0][0];
+    expect(notifications.map((notification: any) => notification.userId)).toEqual(["user-789", "user-790"]);
+    expect(notifications[0].type).toBe("CARD_ASSIGNED");
+    expect(notifications[0].cardId).toBe(testCard.id);
+    expect(mockWatchRepository.watch).toHaveBeenCalledWith(["user-789", "user-790"], { type: "CARD", id: testCard.id });
+  });
+
+  test("should only log the people who changed", async () => {
+    const cardWithAssignees = CardBuilder.valid()
+      .withTitle("Assigned Card")
+      .assignedTo("user-789", "user-790")
+      .inList(testListId)
       .build();
+    const newcomer = UserBuilder.valid().withName("New User").build();
+    const leaver = UserBuilder.valid().withName("Leaving User").build();
 
+    mockCardRepository.findById = mock(() => Promise.resolve(cardWithAssignees));
     mockUserRepository.findById = mock((id: string) => {
       if (id === testUserId) return Promise.resolve(testUser);
-      if (id === assigneeId) return Promise.resolve(assignee);
+      if (id === "user-791") return Promise.resolve(newcomer);
+      if (id === "user-790") return Promise.resolve(leaver);
       return Promise.resolve(null);
     });
 
     const updateData = {
-      assignedToId: assigneeId,
+      assigneeIds: ["user-789", "user-791"],
     };
 
     const result = await useCase.execute(testCardId, testUserId, updateData);
 
-    expect(result.assigneeId).toBe(assigneeId);
+    expect(result.assigneeIds).toEqual(["user-789", "user-791"]);
+    expect(mockActivityRepository.create).toHaveBeenCalledTimes(2);
+    expect(mockActivityRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "ASSIGN",
+        data: { assigneeId: "user-791", assigneeName: "New User" },
+      })
+    );
     expect(mockActivityRepository.create).toHaveBeenCalledWith(
       expect.objectContaining({
-        description: "assigned to Assignee User",
+        type: "UNASSIGN",
+        description: "unassigned Leaving User",
+        data: { assigneeId: "user-790", assigneeName: "Leaving User" },
       })
     );
   });
 
-  test("should unassign card when assignedToId is null", async () => {
+  test("should unassign everyone when assigneeIds is empty", async () => {
     const cardWithAssignee = CardBuilder.valid()
       .withTitle("Assigned Card")
       .assignedTo("user-789")
@@ -243,19 +327,36 @@ describe("UpdateCard", () => {
     mockCardRepository.findById = mock(() => Promise.resolve(cardWithAssignee));
 
     const updateData = {
-      assignedToId: null,
+      assigneeIds: [],
     };
 
     const result = await useCase.execute(testCardId, testUserId, updateData);
 
-    expect(result.assigneeId).toBeUndefined();
+    expect(result.assigneeIds).toEqual([]);
     expect(mockActivityRepository.create).toHaveBeenCalledWith(
       expect.objectContaining({
-        description: "removed assignee",
+        type: "UNASSIGN",
+        data: expect.objectContaining({ assigneeId: "user-789" }),
       })
     );
   });
 
+  test("should not log anything when assignees are unchanged", async () => {
+    const cardWithAssignee = CardBuilder.valid()
+      .withTitle("Assigned Card")
+      .assignedTo("user-789")
+      .inList(testListId)
+      .build();
+
+    mockCardRepository.findById = mock(() => Promise.resolve(cardWithAssignee));
+
+    await useCase.execute(testCardId, testUserId, { assigneeIds: ["user-789", "user-789"] });
+
+    expect(mockActivityRepository.create).not.toHaveBeenCalled();
+    expect(mockEventPublisher.publish).not.toHaveBeenCalled();
+    expect(mockWatchRepository.watch).not.toHaveBeenCalled();
+  });
+
   test("should archive card", async () => {
     const updateData = {
       archived: true,
@@ -324,6 +425,25 @@ describe("UpdateCard", () => {
     expect(mockActivityRepository.create).not.toHaveBeenCalled();
   });
 
+  test("should not log dates that were sent again unchanged", async () => {
+    testCard = CardBuilder.valid()
+      .withTitle("Original Title")
+      .inList(testListId)
+      .createdBy(testUserId)
+      .withStartDate(new Date("2024-12-01T09:00:00Z"))
+      .withDueDate(new Date("2024-12-31T17:00:00Z"))
+      .build();
+    mockCardRepository.findById = mock(() => Promise.resolve(testCard));
+
+    await useCase.execute(testCardId, testUserId, {
+      title: "Original Title",
+      startDate: new Date("2024-12-01T09:00:00Z"),
+      dueDate: new Date("2024-12-31T17:00:00Z"),
+    });
+
+    expect(mockActivityRepository.create).not.toHaveBeenCalled();
+  });
+
   test("should throw error if user not found", async () => {
     mockUserRepository.findById = mock(() => Promise.resolve(null));
 
@@ -363,7 +483,7 @@ describe("UpdateCard", () => {
     });
 
     const updateData = {
-      assignedToId: "non-existent-user",
+      assigneeIds: ["non-existent-user"],
     };
 
     expect(useCase.execute(testCardId, testUserId, updateData)).rejects.toThrow("Assignee not found");
@@ -4,6 +4,7 @@ import { List } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
 
 import type { BoardRole } from "@kanban/domain-core";
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder, LabelBuilder } from "../../test/fixtures/entityFactories";
@@ -13,6 +14,7 @@ describe("UpdateListUseCase", () => {
   let mockListRepository: ListRepository;
   let mockBoardRepository: BoardRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockEventPublisher: BoardEventPublisher;
 
   const testUserId = "user-123";
   const testListId = "list-456";
@@ -63,10 +65,15 @@ describe("UpdateListUseCase", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockEventPublisher = {
+      publish: mock(() => Promise.resolve()),
+    };
+
     useCase = new UpdateListUseCase(
       mockListRepository,
       mockBoardRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockEventPublisher
     );
   });
 
@@ -92,6 +99,13 @@ describe("UpdateListUseCase", () => {
         boardId: testBoardId,
       })
     );
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "list.updated",
+        boardId: testBoardId,
+        payload: { list: expect.objectContaining({ title: "Updated List Title" }) },
+      })
+    );
   });
 
   test("should update list color successfully", async () => {
@@ -405,6 +419,41 @@ describe("UpdateListUseCase", () => {
     expect(result.list.color).toBe("#0079BF"); // Should remain unchanged
   });
 
+  test("should set a WIP limit and its mode", async () => {
+    const result = await useCase.execute({
+      listId: testListId,
+      wipLimit: 3,
+      wipLimitMode: "STRICT",
+      userId: testUserId,
+    });
+
+    expect(result.list.wipLimit).toBe(3);
+    expect(result.list.wipLimitMode).toBe("STRICT");
+    expect(mockActivityRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          wipLimit: { from: null, to: 3 },
+          wipLimitMode: { from: "SOFT", to: "STRICT" },
+        },
+      })
+    );
+  });
+
+  test("should remove the WIP limit when it is null", async () => {
+    testList.updateWipLimit(5, "STRICT");
+
+    const result = await useCase.execute({ listId: testListId, wipLimit: null, userId: testUserId });
+
+    expect(result.list.wipLimit).toBeUndefined();
+    expect(result.list.wipLimitMode).toBe("STRICT");
+  });
+
+  test("should throw error if WIP limit is not a positive whole number", async () => {
+    await expect(useCase.execute({ listId: testListId, wipLimit: 0, userId: testUserId }))
+      .rejects.toThrow("WIP limit must be a positive whole number");
+    expect(mockListRepository.save).not.toHaveBeenCalled();
+  });
+
   test("should create activity with correct structure", async () => {
     const request = {
       listId: testListId,
@@ -3,6 +3,7 @@ import { UpdateMemberRoleUseCase } from "../../usecases/UpdateMemberRole";
 import { BoardRepository } from "@kanban/domain-core";
 import { UserRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { NotificationRepository } from "@kanban/domain-core";
 import { UserBuilder, BoardBuilder, ListBuilder, CardBuilder, LabelBuilder } from "../../test/fixtures/entityFactories";
 
 // Test helpers
@@ -30,6 +31,7 @@ describe("UpdateMemberRoleUseCase", () => {
   let mockBoardRepository: BoardRepository;
   let mockUserRepository: UserRepository;
   let mockActivityRepository: ActivityRepository;
+  let mockNotificationRepository: NotificationRepository;
 
   beforeEach(() => {
     // Create mock repositories
@@ -63,10 +65,15 @@ describe("UpdateMemberRoleUseCase", () => {
       findByEntityId: mock(() => Promise.resolve([])),
     } as unknown as ActivityRepository;
 
+    mockNotificationRepository = {
+      createMany: mock(() => Promise.resolve()),
+    } as unknown as NotificationRepository;
+
     useCase = new UpdateMemberRoleUseCase(
       mockBoardRepository,
       mockUserRepository,
-      mockActivityRepository
+      mockActivityRepository,
+      mockNotificationRepository
     );
   });
 
@@ -103,6 +110,11 @@ describe("UpdateMemberRoleUseCase", () => {
       expect(mockBoardRepository.updateMemberRole).toHaveBeenCalledWith("board-123", "member-456", "ADMIN");
       expect(mockBoardRepository.getMembers).toHaveBeenCalledWith("board-123");
       expect(mockActivityRepository.save).toHaveBeenCalledTimes(1);
+
+      const [notification] = (mockNotificationRepository.createMany as any).mock.calls[0][0];
+      expect(notification.userId).toBe("member-456");
+      expect(notification.type).toBe("BOARD_ROLE_CHANGED");
+      expect(notification.message).toContain("to admin");
     });
 
     test("should update member role from ADMIN to MEMBER", async () => {
@@ -222,9 +234,7 @@ describe("UpdateMemberRoleUseCase", () => {
       expect(activityCall.userId).toBe("admin-user-123");
       expect(activityCall.boardId).toBe(board.id);
       expect(activityCall.data).toEqual({
-        memberUserId: "member-456",
-        oldRole: "VIEWER",
-        newRole: "ADMIN",
+        role: { from: "VIEWER", to: "ADMIN", subjectId: "member-456" },
       });
     });
   });
@@ -0,0 +1,177 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { UploadAttachmentUseCase, MAX_ATTACHMENT_SIZE } from "../../usecases/UploadAttachment";
+import { AttachmentRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { BoardRepository } from "@kanban/domain-core";
+import { ActivityRepository } from "@kanban/domain-core";
+import { FileStorage } from "@kanban/domain-core";
+import { Board, BoardRole, Card, List } from "@kanban/domain-core";
+import { BoardBuilder, ListBuilder, CardBuilder } from "../../test/fixtures/entityFactories";
+
+describe("UploadAttachmentUseCase", () => {
+  let useCase: UploadAttachmentUseCase;
+  let mockAttachmentRepository: AttachmentRepository;
+  let mockCardRepository: CardRepository;
+  let mockListRepository: ListRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockActivityRepository: ActivityRepository;
+  let mockFileStorage: FileStorage;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+  const pngBytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("board-owner").build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().withTitle("Spec Card").inList(testList.id).build();
+
+    mockAttachmentRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as AttachmentRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("MEMBER" as BoardRole)),
+    } as unknown as BoardRepository;
+
+    mockActivityRepository = {
+      save: mock(() => Promise.resolve()),
+    } as unknown as ActivityRepository;
+
+    mockFileStorage = {
+      put: mock((key: string) => Promise.resolve(key)),
+      get: mock(() => Promise.resolve(null)),
+      delete: mock(() => Promise.resolve()),
+    } as unknown as FileStorage;
+
+    useCase = new UploadAttachmentUseCase(
+      mockAttachmentRepository,
+      mockCardRepository,
+      mockListRepository,
+      mockBoardRepository,
+      mockActivityRepository,
+      mockFileStorage
+    );
+  });
+
+  test("should store the file and save the attachment", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      filename: " screenshot.png ",
+      mimeType: "image/png",
+      data: pngBytes,
+    });
+
+    expect(result.attachment.filename).toBe("screenshot.png");
+    expect(result.attachment.size).toBe(4);
+    expect(result.attachment.mimeType).toBe("image/png");
+    expect(result.attachment.uploaderId).toBe("member-1");
+    expect(result.attachment.url).toBe(`cards/${testCard.id}/${result.attachment.id}`);
+    expect(mockFileStorage.put).toHaveBeenCalledWith(
+      `cards/${testCard.id}/${result.attachment.id}`,
+      pngBytes,
+      "image/png"
+    );
+    expect(mockAttachmentRepository.save).toHaveBeenCalledTimes(1);
+  });
+
+  test("should log an ATTACH activity on the card", async () => {
+    const result = await useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      filename: "screenshot.png",
+      mimeType: "image/png",
+      data: pngBytes,
+    });
+
+    const activity = (mockActivityRepository.save as any).mock.calls[0][0];
+    expect(activity.action).toBe("ATTACH");
+    expect(activity.entityType).toBe("CARD");
+    expect(activity.entityId).toBe(testCard.id);
+    expect(activity.boardId).toBe(testBoard.id);
+    expect(activity.data).toEqual({
+      attachmentId: result.attachment.id,
+      filename: "screenshot.png",
+    });
+  });
+
+  test("should reject files over the size limit", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      filename: "huge.pdf",
+      mimeType: "application/pdf",
+      data: new Uint8Array(MAX_ATTACHMENT_SIZE + 1),
+    })).rejects.toThrow("File is too large");
+    expect(mockFileStorage.put).not.toHaveBeenCalled();
+  });
+
+  test("should reject disallowed MIME types", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      filename: "run.sh",
+      mimeType: "application/x-sh",
+      data: pngBytes,
+    })).rejects.toThrow("File type not allowed");
+  });
+
+  test("should reject empty files", async () => {
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      filename: "empty.txt",
+      mimeType: "text/plain",
+      data: new Uint8Array(0),
+    })).rejects.toThrow("File is empty");
+  });
+
+  test("should deny VIEWER from uploading", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve("VIEWER" as BoardRole));
+
+    expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "viewer-1",
+      filename: "screenshot.png",
+      mimeType: "image/png",
+      data: pngBytes,
+    })).rejects.toThrow("Access denied");
+  });
+
+  test("should remove the stored file if saving the record fails", async () => {
+    mockAttachmentRepository.save = mock(() => Promise.reject(new Error("DB down")));
+
+    await expect(useCase.execute({
+      cardId: testCard.id,
+      userId: "member-1",
+      filename: "screenshot.png",
+      mimeType: "image/png",
+      data: pngBytes,
+    })).rejects.toThrow("DB down");
+    expect(mockFileStorage.delete).toHaveBeenCalledTimes(1);
+    expect(mockActivityRepository.save).not.toHaveBeenCalled();
+  });
+
+  test("should throw error if card not found", async () => {
+    mockCardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({
+      cardId: "missing",
+      userId: "member-1",
+      filename: "screenshot.png",
+      mimeType: "image/png",
+      data: pngBytes,
+    })).rejects.toThrow("Card not found");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { describe, test, expect, beforeEach, mock } from "bun:test";
+import { WatchUseCase } from "../../usecases/Watch";
+import { BoardRepository } from "@kanban/domain-core";
+import { CardRepository } from "@kanban/domain-core";
+import { ListRepository } from "@kanban/domain-core";
+import { WatchRepository } from "@kanban/domain-core";
+import { Board, Card, List } from "@kanban/domain-core";
+import { BoardBuilder, CardBuilder, ListBuilder } from "../../test/fixtures/entityFactories";
+
+describe("WatchUseCase", () => {
+  let useCase: WatchUseCase;
+  let mockWatchRepository: WatchRepository;
+  let mockBoardRepository: BoardRepository;
+  let mockListRepository: ListRepository;
+  let mockCardRepository: CardRepository;
+  let testBoard: Board;
+  let testList: List;
+  let testCard: Card;
+
+  beforeEach(() => {
+    testBoard = BoardBuilder.valid().withOwner("owner-123").private().build();
+    testList = ListBuilder.valid().inBoard(testBoard.id).build();
+    testCard = CardBuilder.valid().inList(testList.id).build();
+
+    mockWatchRepository = {
+      watch: mock(() => Promise.resolve()),
+    } as unknown as WatchRepository;
+
+    mockBoardRepository = {
+      findById: mock(() => Promise.resolve(testBoard)),
+      getMemberRole: mock(() => Promise.resolve("VIEWER")),
+    } as unknown as BoardRepository;
+
+    mockListRepository = {
+      findById: mock(() => Promise.resolve(testList)),
+    } as unknown as ListRepository;
+
+    mockCardRepository = {
+      findById: mock(() => Promise.resolve(testCard)),
+    } as unknown as CardRepository;
+
+    useCase = new WatchUseCase(
+      mockWatchRepository,
+      mockBoardRepository,
+      mockListRepository,
+      mockCardRepository
+    );
+  });
+
+  test("should let a viewer watch a card", async () => {
+    const target = { type: "CARD" as const, id: testCard.id };
+
+    const result = await useCase.execute({ userId: "user-123", target });
+
+    expect(result.watching).toBe(true);
+    expect(mockBoardRepository.getMemberRole).toHaveBeenCalledWith(testBoard.id, "user-123");
+    expect(mockWatchRepository.watch).toHaveBeenCalledWith(["user-123"], target);
+  });
+
+  test("should resolve a list to its board", async () => {
+    await useCase.execute({ userId: "user-123", target: { type: "LIST", id: testList.id } });
+
+    expect(mockCardRepository.findById).not.toHaveBeenCalled();
+    expect(mockBoardRepository.findById).toHaveBeenCalledWith(testBoard.id);
+  });
+
+  test("should deny watching a board the user cannot view", async () => {
+    mockBoardRepository.getMemberRole = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ userId: "user-123", target: { type: "BOARD", id: testBoard.id } }))
+      .rejects.toThrow("Access denied");
+  });
+
+  test("should throw error if card not found", async () => {
+    mockCardRepository.findById = mock(() => Promise.resolve(null));
+
+    expect(useCase.execute({ userId: "user-123", target: { type: "CARD", id: "missing" } }))
+      .rejects.toThrow("Card not found");
+  });
+});
\ No newline at end of file
@@ -6,10 +6,23 @@ export * from './usecases/GetBoard';
 export * from './usecases/GetUserBoards';
 export * from './usecases/GetBoardLists';
 export * from './usecases/GetBoardLabels';
+export * from './usecases/SubscribeToBoardEvents';
+export * from './usecases/CopyBoard';
+export * from './usecases/ExportBoard';
+export * from './usecases/ImportBoard';
+export * from './usecases/ImportTrelloBoard';
+export * from './usecases/ExportCardsCsv';
+export * from './usecases/ImportCardsCsv';
+
+// Board template use cases
+export * from './usecases/SaveBoardAsTemplate';
+export * from './usecases/GetUserBoardTemplates';
+export * from './usecases/DeleteBoardTemplate';
 
 // Board member-related use cases
 export * from './usecases/AddBoardMember';
 export * from './usecases/RemoveBoardMember';
+export * from './usecases/GetBoardMembers';
 export * from './usecases/UpdateMemberRole';
 
 // List-related use cases
@@ -37,6 +50,78 @@ export * from './usecases/DeleteLabel';
 export * from './usecases/AddLabelToCard';
 export * from './usecases/RemoveLabelFromCard';
 export * from './usecases/GetCardLabels';
+export * from './usecases/GetLabelsForCards';
+
+// Search use cases
+export * from './usecases/SearchCards';
+
+// Comment-related use cases
+export * from './usecases/AddComment';
+export * from './usecases/EditComment';
+export * from './usecases/DeleteComment';
+export * from './usecases/GetCardComments';
+
+// Attachment-related use cases
+export * from './usecases/UploadAttachment';
+export * from './usecases/GetCardAttachments';
+export * from './usecases/DownloadAttachment';
+export * from './usecases/DeleteAttachment';
+
+// Checklist-related use cases
+export * from './usecases/CreateChecklist';
+export * from './usecases/GetCardChecklists';
+export * from './usecases/UpdateChecklist';
+export * from './usecases/DeleteChecklist';
+export * from './usecases/ReorderChecklists';
+export * from './usecases/AddChecklistItem';
+export * from './usecases/UpdateChecklistItem';
+export * from './usecases/ToggleChecklistItem';
+export * from './usecases/DeleteChecklistItem';
+export * from './usecases/ReorderChecklistItems';
+export * from './usecases/ConvertChecklistItemToCard';
+export * from './usecases/GetChecklistProgress';
+
+// Activity feed use cases
+export * from './usecases/GetBoardActivity';
+export * from './usecases/GetCardActivity';
+export * from './usecases/GetUserActivity';
+export * from './shared/ActivityFeed';
+export * from './shared/ActivityRenderer';
+
+// Notification use cases
+export * from './usecases/GetNotifications';
+export * from './usecases/MarkNotificationRead';
+export * from './usecases/MarkAllNotificationsRead';
+
+// Watching use cases
+export * from './usecases/Watch';
+export * from './usecases/Unwatch';
+export * from './usecases/GetWatchedCards';
+export * from './usecases/GetWatchingFeed';
+export * from './usecases/MarkWatchingFeedRead';
+
+// Webhook use cases
+export * from './usecases/CreateWebhook';
+export * from './usecases/GetBoardWebhooks';
+export * from './usecases/UpdateWebhook';
+export * from './usecases/DeleteWebhook';
+export * from './usecases/GetWebhookDeliveries';
+export * from './usecases/RedeliverWebhookDelivery';
+export * from './usecases/ProcessWebhookDeliveries';
+
+// Reminder use cases
+export * from './usecases/SendDueDateReminders';
+
+// Recurring card use cases
+export * from './usecases/SetCardRecurrence';
+export * from './usecases/GetCardRecurrence';
+export * from './usecases/DeleteCardRecurrence';
+export * from './usecases/ProcessCardRecurrences';
+
+// Calendar feed use cases
+export * from './usecases/GetCalendarFeed';
+export * from './usecases/RegenerateCalendarToken';
+export * from './usecases/RevokeCalendarToken';
 
 // User-related use cases
 export * from './usecases/GetUserProfile';
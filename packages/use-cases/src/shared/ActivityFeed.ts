@@ -0,0 +1,71 @@
+import { Activity } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+
+export const DEFAULT_ACTIVITY_PAGE_SIZE = 20;
+export const MAX_ACTIVITY_PAGE_SIZE = 100;
+
+export interface ActivityActor {
+  id: string;
+  username: string;
+  name?: string;
+  avatarUrl?: string;
+}
+
+export interface ActivityFeedEntry {
+  activity: Activity;
+  // null when the acting user no longer exists
+  actor: ActivityActor | null;
+}
+
+export interface ActivityFeedPage {
+  entries: ActivityFeedEntry[];
+  nextCursor?: string;
+}
+
+export function resolvePageSize(limit?: number): number {
+  if (!limit || limit < 1) {
+    return DEFAULT_ACTIVITY_PAGE_SIZE;
+  }
+  return Math.min(limit, MAX_ACTIVITY_PAGE_SIZE);
+}
+
+/**
+ * Loads every given user in one query, keyed by id.
+ */
+export async function loadActors(
+  userIds: string[],
+  userRepository: UserRepository
+): Promise<Map<string, ActivityActor>> {
+  const users = await userRepository.findByIds([...new Set(userIds)]);
+  return new Map(
+    users.map(user => [user.id, {
+      id: user.id,
+      username: user.username,
+      name: user.name,
+      avatarUrl: user.avatarUrl,
+    }])
+  );
+}
+
+/**
+ * Turns a "limit + 1" fetch into a page: the extra row only signals that
+ * another page exists, and the last returned activity becomes the cursor.
+ */
+export async function buildActivityFeedPage(
+  activities: Activity[],
+  pageSize: number,
+  userRepository: UserRepository
+): Promise<ActivityFeedPage> {
+  const hasMore = activities.length > pageSize;
+  const page = hasMore ? activities.slice(0, pageSize) : activities;
+
+  const actors = await loadActors(page.map(activity => activity.userId), userRepository);
+
+  return {
+    entries: page.map(activity => ({
+      activity,
+      actor: actors.get(activity.userId) ?? null,
+    })),
+    nextCursor: hasMore ? page[page.length - 1]?.id : undefined,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,269 @@
+import { Activity } from '@kanban/domain-core';
+import { ActivityFieldChange } from '@kanban/domain-core';
+import { EntityType } from '@kanban/domain-core';
+
+export type ActivityLocale = 'en' | 'ja';
+
+export const DEFAULT_ACTIVITY_LOCALE: ActivityLocale = 'en';
+export const SUPPORTED_ACTIVITY_LOCALES: ActivityLocale[] = ['en', 'ja'];
+
+interface ActivityMessages {
+  entities: Record<EntityType, string>;
+  fields: Record<string, string>;
+  someone: string;
+  create(entity: string, title: string): string;
+  update(entity: string, title: string, fields: string[]): string;
+  rename(entity: string, from: string, to: string): string;
+  delete(entity: string, title: string): string;
+  move(entity: string, title: string): string;
+  moveBetween(entity: string, title: string, from: string, to: string): string;
+  moveWithin(entity: string, title: string, list: string): string;
+  archive(entity: string, title: string): string;
+  unarchive(entity: string, title: string): string;
+  assign(entity: string, title: string, assignee: string): string;
+  unassign(entity: string, title: string, assignee: string): string;
+  comment(entity: string, title: string): string;
+  attach(entity: string, title: string, filename: string): string;
+  detach(entity: string, title: string, filename: string): string;
+  addMember(entity: string, title: string): string;
+  removeMember(entity: string, title: string): string;
+  leave(entity: string, title: string): string;
+  addLabel(entity: string, title: string, label: string): string;
+  removeLabel(entity: string, title: string, label: string): string;
+  completeItem(title: string, item: string): string;
+  reopenItem(title: string, item: string): string;
+  changeRole(entity: string, title: string, from: string, to: string): string;
+}
+
+const MESSAGES: Record<ActivityLocale, ActivityMessages> = {
+  en: {
+    entities: {
+      BOARD: 'board',
+      LIST: 'list',
+      CARD: 'card',
+      COMMENT: 'comment',
+      ATTACHMENT: 'attachment',
+      CHECKLIST: 'checklist',
+      LABEL: 'label',
+    },
+    fields: {
+      title: 'title',
+      name: 'name',
+      description: 'description',
+      dueDate: 'due date',
+      startDate: 'start date',
+      assigneeId: 'assignee',
+      isArchived: 'archived state',
+      backgroundUrl: 'background',
+      isPublic: 'visibility',
+      color: 'color',
+      role: 'role',
+      isCompleted: 'completion',
+    },
+    someone: 'a member',
+    create: (entity, title) => `created ${entity} "${title}"`,
+    update: (entity, title, fields) => fields.length > 0
+      ? `updated ${fields.join(', ')} on ${entity} "${title}"`
+      : `updated ${entity} "${title}"`,
+    rename: (entity, from, to) => `renamed ${entity} "${from}" to "${to}"`,
+    delete: (entity, title) => `deleted ${entity} "${title}"`,
+    move: (entity, title) => `moved ${entity} "${title}"`,
+    moveBetween: (entity, title, from, to) => `moved ${entity} "${title}" from ${from} to ${to}`,
+    moveWithin: (entity, title, list) => `moved ${entity} "${title}" within ${list}`,
+    archive: (entity, title) => `archived ${entity} "${title}"`,
+    unarchive: (entity, title) => `restored ${entity} "${title}" from the archive`,
+    assign: (entity, title, assignee) => `assigned ${assignee} to ${entity} "${title}"`,
+    unassign: (entity, title, assignee) => `unassigned ${assignee} from ${entity} "${title}"`,
+    comment: (entity, title) => `commented on ${entity} "${title}"`,
+    attach: (entity, title, filename) => `attached ${filename} to ${entity} "${title}"`,
+    detach: (entity, title, filename) => `removed attachment ${filename} from ${entity} "${title}"`,
+    addMember: (entity, title) => `added a member to ${entity} "${title}"`,
+    removeMember: (entity, title) => `removed a member from ${entity} "${title}"`,
+    leave: (entity, title) => `left ${entity} "${title}"`,
+    addLabel: (entity, title, label) => `added label "${label}" to ${entity} "${title}"`,
+    removeLabel: (entity, title, label) => `removed label "${label}" from ${entity} "${title}"`,
+    completeItem: (title, item) => `completed "${item}" on checklist "${title}"`,
+    reopenItem: (title, item) => `marked "${item}" incomplete on checklist "${title}"`,
+    changeRole: (entity, title, from, to) => `changed a member's role from ${from} to ${to} on ${entity} "${title}"`,
+  },
+  ja: {
+    entities: {
+      BOARD: 'ボード',
+      LIST: 'リスト',
+      CARD: 'カード',
+      COMMENT: 'コメント',
+      ATTACHMENT: '添付ファイル',
+      CHECKLIST: 'チェックリスト',
+      LABEL: 'ラベル',
+    },
+    fields: {
+      title: 'タイトル',
+      name: '名前',
+      description: '説明',
+      dueDate: '期日',
+      startDate: '開始日',
+      assigneeId: '担当者',
+      isArchived: 'アーカイブ状態',
+      backgroundUrl: '背景',
+      isPublic: '公開設定',
+      color: '色',
+      role: '権限',
+      isCompleted: '完了状態',
+    },
+    someone: 'メンバー',
+    create: (entity, title) => `${entity}「${title}」を作成しました`,
+    update: (entity, title, fields) => fields.length > 0
+      ? `${entity}「${title}」の${fields.join('、')}を更新しました`
+      : `${entity}「${title}」を更新しました`,
+    rename: (entity, from, to) => `${entity}「${from}」の名前を「${to}」に変更しました`,
+    delete: (entity, title) => `${entity}「${title}」を削除しました`,
+    move: (entity, title) => `${entity}「${title}」を移動しました`,
+    moveBetween: (entity, title, from, to) => `${entity}「${title}」を${from}から${to}へ移動しました`,
+    moveWithin: (entity, title, list) => `${entity}「${title}」を${list}内で移動しました`,
+    archive: (entity, title) => `${entity}「${title}」をアーカイブしました`,
+    unarchive: (entity, title) => `${entity}「${title}」をアーカイブから復元しました`,
+    assign: (entity, title, assignee) => `${assignee}を${entity}「${title}」の担当に割り当てました`,
+    unassign: (entity, title, assignee) => `${assignee}を${entity}「${title}」の担当から外しました`,
+    comment: (entity, title) => `${entity}「${title}」にコメントしました`,
+    attach: (entity, title, filename) => `${entity}「${title}」に${filename}を添付しました`,
+    detach: (entity, title, filename) => `${entity}「${title}」から添付ファイル${filename}を削除しました`,
+    addMember: (entity, title) => `${entity}「${title}」にメンバーを追加しました`,
+    removeMember: (entity, title) => `${entity}「${title}」からメンバーを削除しました`,
+    leave: (entity, title) => `${entity}「${title}」から退出しました`,
+    addLabel: (entity, title, label) => `${entity}「${title}」にラベル「${label}」を追加しました`,
+    removeLabel: (entity, title, label) => `${entity}「${title}」からラベル「${label}」を外しました`,
+    completeItem: (title, item) => `チェックリスト「${title}」の「${item}」を完了にしました`,
+    reopenItem: (title, item) => `チェックリスト「${title}」の「${item}」を未完了に戻しました`,
+    changeRole: (entity, title, from, to) => `${entity}「${title}」でメンバーの権限を${from}から${to}に変更しました`,
+  },
+};
+
+function isSupportedLocale(value: string): value is ActivityLocale {
+  return (SUPPORTED_ACTIVITY_LOCALES as string[]).includes(value);
+}
+
+/**
+ * Picks the best supported locale from an explicit choice or an
+ * Accept-Language header, honouring q-values.
+ */
+export function resolveActivityLocale(preferred?: string | null): ActivityLocale {
+  if (!preferred) {
+    return DEFAULT_ACTIVITY_LOCALE;
+  }
+
+  const candidates = preferred
+    .split(',')
+    .map(part => {
+      const [tag = '', ...params] = part.trim().split(';');
+      const quality = params.find(param => param.trim().startsWith('q='));
+      return {
+        language: tag.split('-')[0]!.toLowerCase(),
+        q: quality ? Number(quality.trim().slice(2)) : 1,
+      };
+    })
+    .filter(candidate => candidate.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  const match = candidates.find(candidate => isSupportedLocale(candidate.language));
+  return match ? (match.language as ActivityLocale) : DEFAULT_ACTIVITY_LOCALE;
+}
+
+/**
+ * Turns an activity into a sentence without the actor, e.g.
+ * `moved card "Fix login" from To Do to Doing`. Activities logged before
+ * `data` was structured fall back to their stored English description.
+ */
+export function renderActivity(activity: Activity, locale: ActivityLocale = DEFAULT_ACTIVITY_LOCALE): string {
+  const messages = MESSAGES[locale];
+  const entity = messages.entities[activity.entityType];
+  const title = activity.entityTitle;
+  const legacy = locale === 'en' && !activity.data ? activity.description : undefined;
+
+  switch (activity.action) {
+    case 'CREATE':
+      return messages.create(entity, title);
+
+    case 'UPDATE': {
+      const changes = activity.dataFor('UPDATE');
+      if (!changes) {
+        return legacy ?? messages.update(entity, title, []);
+      }
+      return renderUpdate(messages, entity, title, changes);
+    }
+
+    case 'DELETE':
+      return messages.delete(entity, title);
+
+    case 'MOVE': {
+      const move = activity.dataFor('MOVE');
+      if (move?.fromListTitle && move.toListTitle) {
+        return move.fromListId === move.toListId
+          ? messages.moveWithin(entity, title, move.toListTitle)
+          : messages.moveBetween(entity, title, move.fromListTitle, move.toListTitle);
+      }
+      return legacy ?? messages.move(entity, title);
+    }
+
+    case 'ARCHIVE':
+      return messages.archive(entity, title);
+
+    case 'UNARCHIVE':
+      return messages.unarchive(entity, title);
+
+    case 'ASSIGN':
+      return messages.assign(entity, title, activity.dataFor('ASSIGN')?.assigneeName ?? messages.someone);
+
+    case 'UNASSIGN':
+      return messages.unassign(entity, title, activity.dataFor('UNASSIGN')?.assigneeName ?? messages.someone);
+
+    case 'COMMENT':
+      return messages.comment(entity, title);
+
+    case 'ATTACH':
+      return messages.attach(entity, title, activity.dataFor('ATTACH')?.filename ?? '');
+
+    case 'DETACH':
+      return messages.detach(entity, title, activity.dataFor('DETACH')?.filename ?? '');
+
+    case 'ADD_MEMBER':
+      return messages.addMember(entity, title);
+
+    case 'REMOVE_MEMBER':
+      return activity.dataFor('REMOVE_MEMBER')?.selfRemoval
+        ? messages.leave(entity, title)
+        : messages.removeMember(entity, title);
+
+    case 'ADD_LABEL':
+      return messages.addLabel(entity, title, activity.dataFor('ADD_LABEL')?.labelName ?? '');
+
+    case 'REMOVE_LABEL':
+      return messages.removeLabel(entity, title, activity.dataFor('REMOVE_LABEL')?.labelName ?? '');
+  }
+}
+
+function renderUpdate(
+  messages: ActivityMessages,
+  entity: string,
+  title: string,
+  changes: Record<string, ActivityFieldChange>
+): string {
+  const fields = Object.keys(changes);
+  const only = fields.length === 1 ? changes[fields[0]!] : undefined;
+
+  // A single change gets a specific sentence; anything else lists the fields
+  if (only && fields[0] === 'isCompleted' && only.subjectTitle) {
+    return only.to
+      ? messages.completeItem(title, only.subjectTitle)
+      : messages.reopenItem(title, only.subjectTitle);
+  }
+
+  if (only && fields[0] === 'role') {
+    return messages.changeRole(entity, title, String(only.from), String(only.to));
+  }
+
+  if (only && (fields[0] === 'title' || fields[0] === 'name') && typeof only.from === 'string') {
+    return messages.rename(entity, only.from, String(only.to));
+  }
+
+  return messages.update(entity, title, fields.map(field => messages.fields[field] ?? field));
+}
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { Board, BoardBlueprint, BoardBlueprintCard, BoardContents } from '@kanban/domain-core';
+import { Card, Checklist, ChecklistItem, Label, List } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { LabelRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { spreadRanks } from '@kanban/domain-core';
+
+export interface BoardBlueprintSources {
+  listRepository: ListRepository;
+  labelRepository: LabelRepository;
+  cardRepository: CardRepository;
+  checklistRepository: ChecklistRepository;
+  checklistItemRepository: ChecklistItemRepository;
+}
+
+/**
+ * Reads a board's lists and labels, and with `includeCards` its open cards
+ * and their checklists, into a blueprint. Archived cards, assignees, dates,
+ * comments and attachments are left behind.
+ */
+export async function captureBoardBlueprint(
+  boardId: string,
+  sources: BoardBlueprintSources,
+  options: { includeCards: boolean }
+): Promise<BoardBlueprint> {
+  const [lists, labels] = await Promise.all([
+    sources.listRepository.findByBoard(boardId, { orderBy: 'position', order: 'asc' }),
+    sources.labelRepository.findByBoard(boardId),
+  ]);
+
+  const cardsByList = options.includeCards
+    ? await Promise.all(lists.map(list => sources.cardRepository.findByList(list.id, { orderBy: 'position', order: 'asc' })))
+    : lists.map(() => []);
+
+  const cards = cardsByList.flat();
+  const cardLabels = cards.length > 0
+    ? await sources.labelRepository.getLabelsByCards(cards.map(card => card.id))
+    : new Map<string, Label[]>();
+  const blueprintCards = new Map(await Promise.all(
+    cards.map(async card => [card.id, await captureCard(card, cardLabels.get(card.id) ?? [], sources)] as const)
+  ));
+
+  return {
+    labels: labels.map(label => ({ name: label.name, color: label.color })),
+    lists: lists.map((list, index) => ({
+      title: list.title,
+      color: list.color,
+      cards: (cardsByList[index] ?? []).map(card => blueprintCards.get(card.id)!),
+    })),
+  };
+}
+
+async function captureCard(
+  card: Card,
+  labels: Label[],
+  sources: BoardBlueprintSources
+): Promise<BoardBlueprintCard> {
+  const checklists = (await sources.checklistRepository.findByCard(card.id))
+    .sort((a, b) => a.position - b.position);
+  const items = checklists.length > 0
+    ? await sources.checklistItemRepository.findByChecklists(checklists.map(checklist => checklist.id))
+    : [];
+
+  return {
+    title: card.title,
+    description: card.description,
+    labels: labels.map(label => label.name),
+    checklists: checklists.map(checklist => ({
+      title: checklist.title,
+      items: items
+        .filter(item => item.checklistId === checklist.id)
+        .sort((a, b) => a.position - b.position)
+        .map(item => item.content),
+    })),
+  };
+}
+
+/**
+ * Turns a blueprint into fresh entities for `board`, ready for
+ * `BoardRepository.createWithContents`. Every card is created by
+ * `creatorId`, and ranks are spread evenly.
+ */
+export function buildBoardContents(board: Board, blueprint: BoardBlueprint, creatorId: string): BoardContents {
+  const labels = blueprint.labels.map(label => Label.create({
+    name: label.name,
+    color: label.color,
+    boardId: board.id,
+  }));
+  const labelIdsByName = new Map(labels.map(label => [label.name, label.id]));
+
+  const contents: BoardContents = {
+    board,
+    lists: [],
+    labels,
+    cards: [],
+    cardLabels: [],
+    checklists: [],
+    checklistItems: [],
+    comments: [],
+    members: [],
+  };
+
+  const listRanks = spreadRanks(blueprint.lists.length);
+  blueprint.lists.forEach((blueprintList, listIndex) => {
+    const list = List.create({
+      title: blueprintList.title,
+      color: blueprintList.color,
+      position: listRanks[listIndex]!,
+      boardId: board.id,
+    });
+    contents.lists.push(list);
+
+    const cardRanks = spreadRanks(blueprintList.cards.length);
+    blueprintList.cards.forEach((blueprintCard, cardIndex) => {
+      const card = Card.create({
+        title: blueprintCard.title,
+        description: blueprintCard.description,
+        position: cardRanks[cardIndex]!,
+        isArchived: false,
+        listId: list.id,
+        creatorId,
+      });
+      contents.cards.push(card);
+
+      new Set(blueprintCard.labels).forEach(name => {
+        const labelId = labelIdsByName.get(name);
+        if (labelId) {
+          contents.cardLabels.push({ cardId: card.id, labelId });
+        }
+      });
+
+      blueprintCard.checklists.forEach((blueprintChecklist, checklistIndex) => {
+        const checklist = Checklist.create({
+          title: blueprintChecklist.title,
+          position: checklistIndex + 1,
+          cardId: card.id,
+        });
+        contents.checklists.push(checklist);
+
+        blueprintChecklist.items.forEach((content, itemIndex) => {
+          contents.checklistItems.push(ChecklistItem.create({
+            content,
+            position: itemIndex + 1,
+            checklistId: checklist.id,
+          }));
+        });
+      });
+    });
+  });
+
+  return contents;
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { Notification, NotificationType } from '@kanban/domain-core';
+import { NotificationRepository } from '@kanban/domain-core';
+
+export interface NotificationDraft {
+  type: NotificationType;
+  message: string;
+  boardId?: string;
+  cardId?: string;
+}
+
+/**
+ * Sends the same notification to each recipient once. Nobody is notified
+ * about their own change, so the actor is always skipped.
+ */
+export async function notifyUsers(
+  notificationRepository: NotificationRepository,
+  actorId: string,
+  recipientIds: string[],
+  draft: NotificationDraft
+): Promise<void> {
+  const notifications = [...new Set(recipientIds)]
+    .filter(recipientId => recipientId !== actorId)
+    .map(userId => Notification.create({ ...draft, userId, actorId }));
+
+  if (notifications.length > 0) {
+    await notificationRepository.createMany(notifications);
+  }
+}
\ No newline at end of file
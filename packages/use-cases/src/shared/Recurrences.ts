@@ -0,0 +1,52 @@
+import { Board, Card, List } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+
+export interface RecurringCardSources {
+  cardRepository: CardRepository;
+  listRepository: ListRepository;
+  boardRepository: BoardRepository;
+}
+
+export interface RecurringCard {
+  card: Card;
+  list: List;
+  board: Board;
+}
+
+/**
+ * Loads a card with its list and board, checking that `userId` may view the
+ * board, or with `edit` that they may add cards to it.
+ */
+export async function findRecurringCard(
+  cardId: string,
+  userId: string,
+  access: 'view' | 'edit',
+  sources: RecurringCardSources
+): Promise<RecurringCard> {
+  const card = await sources.cardRepository.findById(cardId);
+  if (!card) {
+    throw new Error('Card not found');
+  }
+
+  const list = await sources.listRepository.findById(card.listId);
+  if (!list) {
+    throw new Error('List not found');
+  }
+
+  const board = await sources.boardRepository.findById(list.boardId);
+  if (!board) {
+    throw new Error('Board not found');
+  }
+
+  const userRole = await sources.boardRepository.getMemberRole(board.id, userId);
+  const allowed = access === 'view'
+    ? board.canBeViewedBy(userId, userRole || undefined)
+    : board.isOwner(userId) || (!!userRole && userRole !== 'VIEWER');
+  if (!allowed) {
+    throw new Error('Access denied');
+  }
+
+  return { card, list, board };
+}
\ No newline at end of file
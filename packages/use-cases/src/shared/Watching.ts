@@ -0,0 +1,42 @@
+import { Board, WatchTarget } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+
+export interface WatchTargetSources {
+  boardRepository: BoardRepository;
+  listRepository: ListRepository;
+  cardRepository: CardRepository;
+}
+
+/**
+ * Finds the board a watched card, list or board belongs to, so callers can
+ * check that the user may view it.
+ */
+export async function findWatchTargetBoard(target: WatchTarget, sources: WatchTargetSources): Promise<Board> {
+  let boardId = target.id;
+
+  if (target.type === 'CARD') {
+    const card = await sources.cardRepository.findById(target.id);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+    const list = await sources.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+    boardId = list.boardId;
+  } else if (target.type === 'LIST') {
+    const list = await sources.listRepository.findById(target.id);
+    if (!list) {
+      throw new Error('List not found');
+    }
+    boardId = list.boardId;
+  }
+
+  const board = await sources.boardRepository.findById(boardId);
+  if (!board) {
+    throw new Error('Board not found');
+  }
+  return board;
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { ActivityType, Board, Webhook } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { WebhookRepository } from '@kanban/domain-core';
+
+/**
+ * Loads a board whose webhooks `userId` may manage: the owner and admins.
+ */
+export async function findWebhookBoard(
+  boardId: string,
+  userId: string,
+  boardRepository: BoardRepository
+): Promise<Board> {
+  const board = await boardRepository.findById(boardId);
+  if (!board) {
+    throw new Error('Board not found');
+  }
+
+  const userRole = await boardRepository.getMemberRole(boardId, userId);
+  if (!board.canBeEditedBy(userId, userRole || 'VIEWER')) {
+    throw new Error('Access denied');
+  }
+
+  return board;
+}
+
+/**
+ * Loads a webhook together with the access check on its board.
+ */
+export async function findManagedWebhook(
+  webhookId: string,
+  userId: string,
+  repositories: { webhookRepository: WebhookRepository; boardRepository: BoardRepository }
+): Promise<Webhook> {
+  const webhook = await repositories.webhookRepository.findById(webhookId);
+  if (!webhook) {
+    throw new Error('Webhook not found');
+  }
+
+  await findWebhookBoard(webhook.boardId, userId, repositories.boardRepository);
+
+  return webhook;
+}
+
+export function validateWebhookUrl(url: string): void {
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    throw new Error('Webhook URL must be a valid URL');
+  }
+
+  if (protocol !== 'http:' && protocol !== 'https:') {
+    throw new Error('Webhook URL must use http or https');
+  }
+}
+
+export function validateWebhookEvents(events: ActivityType[]): void {
+  if (events.length === 0) {
+    throw new Error('At least one event is required');
+  }
+}
\ No newline at end of file
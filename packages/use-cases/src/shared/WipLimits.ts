@@ -0,0 +1,33 @@
+import { BusinessRuleViolationError, List } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+
+const cards = (count: number) => `${count} ${count === 1 ? 'card' : 'cards'}`;
+
+/**
+ * Checks that the list can take `adding` more open cards. A strict limit
+ * refuses them; a soft one lets them in. Returns whether they take the list
+ * over its limit, so callers can pass the warning on.
+ *
+ * Every path that puts an open card in a list goes through here: creating,
+ * moving, unarchiving, converting a checklist item, CSV imports and
+ * recurring copies.
+ */
+export async function checkWipLimit(cardRepository: CardRepository, list: List, adding = 1): Promise<boolean> {
+  if (list.wipLimit === undefined || adding < 1) {
+    return false;
+  }
+
+  const openCardCount = await cardRepository.countOpenInList(list.id);
+  if (!list.wouldExceedWipLimit(openCardCount + adding - 1)) {
+    return false;
+  }
+
+  if (list.wipLimitMode === 'STRICT') {
+    const room = Math.max(list.wipLimit - openCardCount, 0);
+    throw new BusinessRuleViolationError(adding === 1 || room === 0
+      ? `List "${list.title}" has reached its WIP limit of ${cards(list.wipLimit)}`
+      : `List "${list.title}" only has room for ${cards(room)} more under its WIP limit of ${list.wipLimit}`
+    );
+  }
+  return true;
+}
\ No newline at end of file
@@ -95,6 +95,11 @@ export class UserBuilder {
     return this;
   }
 
+  withReminderLeadMinutes(minutes: number): UserBuilder {
+    (this.props as any).reminderLeadMinutes = minutes;
+    return this;
+  }
+
   active(): UserBuilder {
     this.props.isActive = true;
     return this;
@@ -245,8 +250,8 @@ export class CardBuilder {
     return this;
   }
 
-  assignedTo(assigneeId: string): CardBuilder {
-    (this.props as any).assigneeId = assigneeId;
+  assignedTo(...assigneeIds: string[]): CardBuilder {
+    (this.props as any).assigneeIds = assigneeIds;
     return this;
   }
 
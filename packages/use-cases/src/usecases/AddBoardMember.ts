@@ -3,6 +3,8 @@ import { Activity } from '@kanban/domain-core';
 import { BoardRepository } from '@kanban/domain-core';
 import { UserRepository } from '@kanban/domain-core';
 import { ActivityRepository } from '@kanban/domain-core';
+import { NotificationRepository } from '@kanban/domain-core';
+import { notifyUsers } from '../shared/Notifications';
 
 export interface AddBoardMemberRequest {
   boardId: string;
@@ -19,7 +21,8 @@ export class AddBoardMemberUseCase {
   constructor(
     private boardRepository: BoardRepository,
     private userRepository: UserRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private notificationRepository: NotificationRepository
   ) {}
 
   async execute(request: AddBoardMemberRequest): Promise<AddBoardMemberResponse> {
@@ -84,6 +87,12 @@ export class AddBoardMemberUseCase {
     });
     await this.activityRepository.save(activity);
 
+    await notifyUsers(this.notificationRepository, userId, [memberUserId], {
+      type: 'BOARD_MEMBER_ADDED',
+      message: `added you to "${board.title}" as ${role.toLowerCase()}`,
+      boardId,
+    });
+
     return { member: newMember };
   }
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { ChecklistItem } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+
+export interface AddChecklistItemRequest {
+  cardId: string;
+  checklistId: string;
+  userId: string;
+  content: string;
+}
+
+export interface AddChecklistItemResponse {
+  item: ChecklistItem;
+}
+
+export class AddChecklistItemUseCase {
+  constructor(
+    private checklistItemRepository: ChecklistItemRepository,
+    private checklistRepository: ChecklistRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: AddChecklistItemRequest): Promise<AddChecklistItemResponse> {
+    const { cardId, checklistId, userId, content } = request;
+
+    // Find checklist
+    const checklist = await this.checklistRepository.findById(checklistId);
+    if (!checklist || !checklist.belongsToCard(cardId)) {
+      throw new Error('Checklist not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(checklist.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can add items
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Validate content (items can become card titles, so share the same limit)
+    if (!content.trim()) {
+      throw new Error('Checklist item content is required');
+    }
+
+    if (content.length > 255) {
+      throw new Error('Checklist item content is too long');
+    }
+
+    // Get next position
+    const position = await this.checklistItemRepository.getNextPosition(checklistId);
+
+    // Create item
+    const item = ChecklistItem.create({
+      content: content.trim(),
+      position,
+      checklistId,
+    });
+
+    // Save item
+    await this.checklistItemRepository.save(item);
+
+    return { item };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { Comment } from '@kanban/domain-core';
+import { Activity } from '@kanban/domain-core';
+import { CommentRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+
+export interface AddCommentRequest {
+  cardId: string;
+  userId: string;
+  content: string;
+}
+
+export interface AddCommentResponse {
+  comment: Comment;
+}
+
+export class AddCommentUseCase {
+  constructor(
+    private commentRepository: CommentRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private activityRepository: ActivityRepository
+  ) {}
+
+  async execute(request: AddCommentRequest): Promise<AddCommentResponse> {
+    const { cardId, userId, content } = request;
+
+    // Find card
+    const card = await this.cardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can comment
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Validate content
+    if (!content.trim()) {
+      throw new Error('Comment content is required');
+    }
+
+    if (content.length > 5000) {
+      throw new Error('Comment content is too long');
+    }
+
+    // Create comment
+    const comment = Comment.create({
+      content: content.trim(),
+      cardId,
+      userId,
+    });
+
+    // Save comment
+    await this.commentRepository.save(comment);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'COMMENT',
+      entityType: 'CARD',
+      entityId: card.id,
+      entityTitle: card.title,
+      userId,
+      boardId: board.id,
+      cardId: card.id,
+      data: { commentId: comment.id },
+    });
+    await this.activityRepository.save(activity);
+
+    return { comment };
+  }
+}
\ No newline at end of file
@@ -4,7 +4,11 @@ import { CardRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { NotificationRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
+import { createBoardEvent } from "@kanban/domain-core";
 import { BoardRole } from "@prisma/client";
+import { notifyUsers } from "../shared/Notifications";
 
 export class ArchiveCard {
   constructor(
@@ -12,7 +16,9 @@ export class ArchiveCard {
     private userRepository: UserRepository,
     private boardRepository: BoardRepository,
     private listRepository: ListRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher,
+    private notificationRepository: NotificationRepository
   ) {}
 
   async execute(cardId: string, userId: string): Promise<Card> {
@@ -71,9 +77,21 @@ export class ArchiveCard {
       entityType: "CARD",
       entityId: card.id,
       entityTitle: card.title,
+      cardId: card.id,
       description: `archived card "${card.title}"`,
     });
 
+    await notifyUsers(this.notificationRepository, userId, [card.creatorId], {
+      type: "CARD_ARCHIVED",
+      message: `archived your card "${card.title}"`,
+      boardId: list.boardId,
+      cardId: card.id,
+    });
+
+    await this.eventPublisher.publish(
+      createBoardEvent("card.archived", list.boardId, userId, { cardId: card.id, listId: card.listId })
+    );
+
     return card;
   }
 }
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { Card } from '@kanban/domain-core';
+import { Activity } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+import { BoardEventPublisher } from '@kanban/domain-core';
+import { createBoardEvent } from '@kanban/domain-core';
+import { checkWipLimit } from '../shared/WipLimits';
+
+export interface ConvertChecklistItemToCardRequest {
+  cardId: string;
+  checklistId: string;
+  itemId: string;
+  userId: string;
+  // Target list on the same board; defaults to the list of the parent card
+  listId?: string;
+}
+
+export interface ConvertChecklistItemToCardResponse {
+  card: Card;
+}
+
+export class ConvertChecklistItemToCardUseCase {
+  constructor(
+    private checklistItemRepository: ChecklistItemRepository,
+    private checklistRepository: ChecklistRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher
+  ) {}
+
+  async execute(request: ConvertChecklistItemToCardRequest): Promise<ConvertChecklistItemToCardResponse> {
+    const { cardId, checklistId, itemId, userId, listId } = request;
+
+    // Find item
+    const item = await this.checklistItemRepository.findById(itemId);
+    if (!item || !item.belongsToChecklist(checklistId)) {
+      throw new Error('Checklist item not found');
+    }
+
+    // Find checklist
+    const checklist = await this.checklistRepository.findById(checklistId);
+    if (!checklist || !checklist.belongsToCard(cardId)) {
+      throw new Error('Checklist not found');
+    }
+
+    // Find parent card
+    const sourceCard = await this.cardRepository.findById(checklist.cardId);
+    if (!sourceCard) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const sourceList = await this.listRepository.findById(sourceCard.listId);
+    if (!sourceList) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(sourceList.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can create cards
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Resolve target list
+    const targetList = listId && listId !== sourceList.id
+      ? await this.listRepository.findById(listId)
+      : sourceList;
+    if (!targetList) {
+      throw new Error('List not found');
+    }
+
+    if (targetList.boardId !== board.id) {
+      throw new Error('Target list must be on the same board');
+    }
+
+    const overWipLimit = await checkWipLimit(this.cardRepository, targetList);
+
+    // Get next position
+    const position = await this.cardRepository.getNextPosition(targetList.id);
+
+    // Create card from item
+    const card = Card.create({
+      title: item.content,
+      position,
+      listId: targetList.id,
+      creatorId: userId,
+      isArchived: false,
+    });
+    await this.cardRepository.save(card);
+
+    // The item now lives on as a card
+    await this.checklistItemRepository.delete(item.id);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'CREATE',
+      entityType: 'CARD',
+      entityId: card.id,
+      entityTitle: card.title,
+      userId,
+      boardId: board.id,
+      cardId: card.id,
+      data: {
+        fromChecklistItemId: item.id,
+        sourceCardId: sourceCard.id,
+        ...(overWipLimit && { overWipLimit: true }),
+      },
+    });
+    await this.activityRepository.save(activity);
+
+    await this.eventPublisher.publish(
+      createBoardEvent('card.created', board.id, userId, { card: card.toJSON() })
+    );
+
+    return { card };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { Board } from '@kanban/domain-core';
+import { Activity } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { LabelRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+import { buildBoardContents, captureBoardBlueprint } from '../shared/BoardBlueprint';
+
+export interface CopyBoardRequest {
+  boardId: string;
+  userId: string;
+  title?: string;
+  includeCards?: boolean;
+}
+
+export interface CopyBoardResponse {
+  board: Board;
+}
+
+export class CopyBoardUseCase {
+  constructor(
+    private boardRepository: BoardRepository,
+    private listRepository: ListRepository,
+    private labelRepository: LabelRepository,
+    private cardRepository: CardRepository,
+    private checklistRepository: ChecklistRepository,
+    private checklistItemRepository: ChecklistItemRepository,
+    private activityRepository: ActivityRepository
+  ) {}
+
+  async execute(request: CopyBoardRequest): Promise<CopyBoardResponse> {
+    const { boardId, userId, includeCards = false } = request;
+
+    // Anyone who can see a board may copy it into a board of their own
+    const source = await this.boardRepository.findById(boardId);
+    if (!source) {
+      throw new Error('Board not found');
+    }
+
+    const userRole = await this.boardRepository.getMemberRole(boardId, userId);
+    if (!source.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    const title = request.title !== undefined ? request.title.trim() : `${source.title} (copy)`;
+    if (!title) {
+      throw new Error('Board title is required');
+    }
+
+    if (title.length > 255) {
+      throw new Error('Board title is too long');
+    }
+
+    const blueprint = await captureBoardBlueprint(boardId, {
+      listRepository: this.listRepository,
+      labelRepository: this.labelRepository,
+      cardRepository: this.cardRepository,
+      checklistRepository: this.checklistRepository,
+      checklistItemRepository: this.checklistItemRepository,
+    }, { includeCards });
+
+    // Copies start private, whatever the source's visibility
+    const board = Board.create({
+      title,
+      description: source.description,
+      backgroundUrl: source.backgroundUrl,
+      isPublic: false,
+      isArchived: false,
+      ownerId: userId,
+    });
+
+    await this.boardRepository.createWithContents(buildBoardContents(board, blueprint, userId));
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'CREATE',
+      entityType: 'BOARD',
+      entityId: board.id,
+      entityTitle: board.title,
+      userId,
+      boardId: board.id,
+      data: { copiedFromBoardId: source.id },
+    });
+    await this.activityRepository.save(activity);
+
+    return { board };
+  }
+}
\ No newline at end of file
@@ -3,6 +3,8 @@ import { Activity } from '@kanban/domain-core';
 import { BoardRepository } from '@kanban/domain-core';
 import { UserRepository } from '@kanban/domain-core';
 import { ActivityRepository } from '@kanban/domain-core';
+import { BoardTemplateRepository } from '@kanban/domain-core';
+import { buildBoardContents } from '../shared/BoardBlueprint';
 
 export interface CreateBoardRequest {
   title: string;
@@ -10,6 +12,8 @@ export interface CreateBoardRequest {
   backgroundUrl?: string;
   isPublic?: boolean;
   ownerId: string;
+  // Start from a saved template's lists, labels and cards
+  templateId?: string;
 }
 
 export interface CreateBoardResponse {
@@ -20,11 +24,12 @@ export class CreateBoardUseCase {
   constructor(
     private boardRepository: BoardRepository,
     private userRepository: UserRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private boardTemplateRepository: BoardTemplateRepository
   ) {}
 
   async execute(request: CreateBoardRequest): Promise<CreateBoardResponse> {
-    const { title, description, backgroundUrl, isPublic = false, ownerId } = request;
+    const { title, description, backgroundUrl, isPublic = false, ownerId, templateId } = request;
 
     // Validate owner exists
     const owner = await this.userRepository.findById(ownerId);
@@ -45,6 +50,16 @@ export class CreateBoardUseCase {
       throw new Error('Board title is too long');
     }
 
+    // Templates are private to the user who saved them
+    const template = templateId ? await this.boardTemplateRepository.findById(templateId) : null;
+    if (templateId && !template) {
+      throw new Error('Template not found');
+    }
+
+    if (template && !template.isOwnedBy(ownerId)) {
+      throw new Error('Access denied');
+    }
+
     // Create board
     const board = Board.create({
       title: title.trim(),
@@ -55,11 +70,16 @@ export class CreateBoardUseCase {
       ownerId,
     });
 
-    // Save board
-    await this.boardRepository.save(board);
+    if (template) {
+      // Save board with the template's contents and the owner's membership
+      await this.boardRepository.createWithContents(buildBoardContents(board, template.blueprint, ownerId));
+    } else {
+      // Save board
+      await this.boardRepository.save(board);
 
-    // Add owner as board member with OWNER role
-    await this.boardRepository.addMember(board.id, ownerId, 'OWNER');
+      // Add owner as board member with OWNER role
+      await this.boardRepository.addMember(board.id, ownerId, 'OWNER');
+    }
 
     // Log activity
     const activity = Activity.create({
@@ -69,6 +89,7 @@ export class CreateBoardUseCase {
       entityTitle: board.title,
       userId: ownerId,
       boardId: board.id,
+      data: template ? { templateId: template.id } : undefined,
     });
     await this.activityRepository.save(activity);
 
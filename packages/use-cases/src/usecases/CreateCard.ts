@@ -1,22 +1,32 @@
 import { Card } from '@kanban/domain-core';
+import { User } from '@kanban/domain-core';
 import { Activity } from '@kanban/domain-core';
 import { CardRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
 import { ListRepository } from '@kanban/domain-core';
 import { BoardRepository } from '@kanban/domain-core';
 import { ActivityRepository } from '@kanban/domain-core';
+import { NotificationRepository } from '@kanban/domain-core';
+import { WatchRepository } from '@kanban/domain-core';
+import { BoardEventPublisher } from '@kanban/domain-core';
+import { createBoardEvent } from '@kanban/domain-core';
+import { notifyUsers } from '../shared/Notifications';
+import { checkWipLimit } from '../shared/WipLimits';
 
 export interface CreateCardRequest {
   title: string;
   description?: string;
   listId: string;
   creatorId: string;
-  assigneeId?: string;
+  assigneeIds?: string[];
   dueDate?: Date;
   startDate?: Date;
 }
 
 export interface CreateCardResponse {
   card: Card;
+  // The list has a soft WIP limit that this card goes over
+  overWipLimit: boolean;
 }
 
 export class CreateCardUseCase {
@@ -24,11 +34,15 @@ export class CreateCardUseCase {
     private cardRepository: CardRepository,
     private listRepository: ListRepository,
     private boardRepository: BoardRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher,
+    private userRepository: UserRepository,
+    private notificationRepository: NotificationRepository,
+    private watchRepository: WatchRepository
   ) {}
 
   async execute(request: CreateCardRequest): Promise<CreateCardResponse> {
-    const { title, description, listId, creatorId, assigneeId, dueDate, startDate } = request;
+    const { title, description, listId, creatorId, assigneeIds = [], dueDate, startDate } = request;
 
     // Validate list exists
     const list = await this.listRepository.findById(listId);
@@ -51,6 +65,17 @@ export class CreateCardUseCase {
       throw new Error('Card title is too long');
     }
 
+    // Validate assignees
+    const uniqueAssigneeIds = [...new Set(assigneeIds)];
+    const assignees = (await Promise.all(uniqueAssigneeIds.map(id => this.userRepository.findById(id))))
+      .filter((assignee): assignee is User => assignee !== null);
+    if (assignees.length !== uniqueAssigneeIds.length) {
+      throw new Error('Assignee not found');
+    }
+
+    // A strict limit refuses the card; a soft one is noted in the activity
+    const overWipLimit = await checkWipLimit(this.cardRepository, list);
+
     // Get next position
     const position = await this.cardRepository.getNextPosition(listId);
 
@@ -61,7 +86,7 @@ export class CreateCardUseCase {
       position,
       listId,
       creatorId,
-      assigneeId,
+      assigneeIds: uniqueAssigneeIds,
       dueDate,
       startDate,
       isArchived: false,
@@ -70,6 +95,9 @@ export class CreateCardUseCase {
     // Save card
     await this.cardRepository.save(card);
 
+    // The creator and assignees follow the card from the start
+    await this.watchRepository.watch([creatorId, ...uniqueAssigneeIds], { type: 'CARD', id: card.id });
+
     // Log activity
     const activity = Activity.create({
       action: 'CREATE',
@@ -79,9 +107,38 @@ export class CreateCardUseCase {
       userId: creatorId,
       boardId: list.boardId,
       cardId: card.id,
+      ...(overWipLimit && { data: { overWipLimit: true } }),
     });
     await this.activityRepository.save(activity);
 
-    return { card };
+    // One ASSIGN per person, as if they had been assigned after creation
+    for (const assignee of assignees) {
+      await this.activityRepository.save(Activity.create({
+        action: 'ASSIGN',
+        entityType: 'CARD',
+        entityId: card.id,
+        entityTitle: card.title,
+        data: {
+          assigneeId: assignee.id,
+          assigneeName: assignee.name ?? assignee.username,
+        },
+        userId: creatorId,
+        boardId: list.boardId,
+        cardId: card.id,
+      }));
+    }
+
+    await notifyUsers(this.notificationRepository, creatorId, uniqueAssigneeIds, {
+      type: 'CARD_ASSIGNED',
+      message: `assigned you to "${card.title}"`,
+      boardId: list.boardId,
+      cardId: card.id,
+    });
+
+    await this.eventPublisher.publish(
+      createBoardEvent('card.created', list.boardId, creatorId, { card: card.toJSON() })
+    );
+
+    return { card, overWipLimit };
   }
 }
\ No newline at end of file
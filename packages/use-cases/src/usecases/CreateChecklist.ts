@@ -0,0 +1,91 @@
+import { Checklist } from '@kanban/domain-core';
+import { Activity } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+
+export interface CreateChecklistRequest {
+  cardId: string;
+  userId: string;
+  title: string;
+}
+
+export interface CreateChecklistResponse {
+  checklist: Checklist;
+}
+
+export class CreateChecklistUseCase {
+  constructor(
+    private checklistRepository: ChecklistRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private activityRepository: ActivityRepository
+  ) {}
+
+  async execute(request: CreateChecklistRequest): Promise<CreateChecklistResponse> {
+    const { cardId, userId, title } = request;
+
+    // Find card
+    const card = await this.cardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can add checklists
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Validate title
+    if (!title.trim()) {
+      throw new Error('Checklist title is required');
+    }
+
+    if (title.length > 255) {
+      throw new Error('Checklist title is too long');
+    }
+
+    // Get next position
+    const position = await this.checklistRepository.getNextPosition(cardId);
+
+    // Create checklist
+    const checklist = Checklist.create({
+      title: title.trim(),
+      position,
+      cardId,
+    });
+
+    // Save checklist
+    await this.checklistRepository.save(checklist);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'CREATE',
+      entityType: 'CHECKLIST',
+      entityId: checklist.id,
+      entityTitle: checklist.title,
+      userId,
+      boardId: board.id,
+      cardId: card.id,
+    });
+    await this.activityRepository.save(activity);
+
+    return { checklist };
+  }
+}
\ No newline at end of file
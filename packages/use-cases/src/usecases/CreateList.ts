@@ -3,6 +3,8 @@ import { Activity } from '@kanban/domain-core';
 import { ListRepository } from '@kanban/domain-core';
 import { BoardRepository } from '@kanban/domain-core';
 import { ActivityRepository } from '@kanban/domain-core';
+import { BoardEventPublisher } from '@kanban/domain-core';
+import { createBoardEvent } from '@kanban/domain-core';
 
 export interface CreateListRequest {
   title: string;
@@ -19,7 +21,8 @@ export class CreateListUseCase {
   constructor(
     private listRepository: ListRepository,
     private boardRepository: BoardRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher
   ) {}
 
   async execute(request: CreateListRequest): Promise<CreateListResponse> {
@@ -71,6 +74,10 @@ export class CreateListUseCase {
     });
     await this.activityRepository.save(activity);
 
+    await this.eventPublisher.publish(
+      createBoardEvent('list.created', boardId, userId, { list: list.toJSON() })
+    );
+
     return { list };
   }
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { ActivityType, Webhook } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { WebhookRepository } from '@kanban/domain-core';
+import { findWebhookBoard, validateWebhookEvents, validateWebhookUrl } from '../shared/Webhooks';
+
+export interface CreateWebhookRequest {
+  userId: string;
+  boardId: string;
+  url: string;
+  events: ActivityType[];
+}
+
+export interface CreateWebhookResponse {
+  webhook: Webhook;
+}
+
+export class CreateWebhookUseCase {
+  constructor(
+    private webhookRepository: WebhookRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: CreateWebhookRequest): Promise<CreateWebhookResponse> {
+    const { userId, boardId, url, events } = request;
+
+    const board = await findWebhookBoard(boardId, userId, this.boardRepository);
+    if (board.isArchived) {
+      throw new Error('Cannot add webhooks to an archived board');
+    }
+
+    validateWebhookUrl(url);
+    validateWebhookEvents(events);
+
+    const webhook = Webhook.create({
+      boardId,
+      url,
+      events,
+      creatorId: userId,
+    });
+    await this.webhookRepository.save(webhook);
+
+    return { webhook };
+  }
+}
\ No newline at end of file
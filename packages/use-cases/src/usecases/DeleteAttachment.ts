@@ -0,0 +1,82 @@
+import { Activity } from '@kanban/domain-core';
+import { AttachmentRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+import { FileStorage } from '@kanban/domain-core';
+
+export interface DeleteAttachmentRequest {
+  attachmentId: string;
+  userId: string;
+}
+
+export interface DeleteAttachmentResponse {
+  success: boolean;
+}
+
+export class DeleteAttachmentUseCase {
+  constructor(
+    private attachmentRepository: AttachmentRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private activityRepository: ActivityRepository,
+    private fileStorage: FileStorage
+  ) {}
+
+  async execute(request: DeleteAttachmentRequest): Promise<DeleteAttachmentResponse> {
+    const { attachmentId, userId } = request;
+
+    // Find attachment
+    const attachment = await this.attachmentRepository.findById(attachmentId);
+    if (!attachment) {
+      throw new Error('Attachment not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(attachment.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Uploaders may remove their own files; board owner and admins may remove any file
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    const isModerator = board.isOwner(userId) || userRole === 'ADMIN';
+    const isUploaderWithWriteAccess = attachment.isUploadedBy(userId) && userRole !== null && userRole !== 'VIEWER';
+    if (!isModerator && !isUploaderWithWriteAccess) {
+      throw new Error('Access denied');
+    }
+
+    // Delete record first so a storage failure never leaves a dangling reference
+    await this.attachmentRepository.delete(attachmentId);
+    await this.fileStorage.delete(attachment.url);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'DETACH',
+      entityType: 'CARD',
+      entityId: card.id,
+      entityTitle: card.title,
+      userId,
+      boardId: board.id,
+      cardId: card.id,
+      data: { attachmentId: attachment.id, filename: attachment.filename },
+    });
+    await this.activityRepository.save(activity);
+
+    return { success: true };
+  }
+}
\ No newline at end of file
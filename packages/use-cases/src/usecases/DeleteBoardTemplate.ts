@@ -0,0 +1,27 @@
+import { BoardTemplateRepository } from '@kanban/domain-core';
+
+export interface DeleteBoardTemplateRequest {
+  templateId: string;
+  userId: string;
+}
+
+export class DeleteBoardTemplateUseCase {
+  constructor(
+    private boardTemplateRepository: BoardTemplateRepository
+  ) {}
+
+  async execute(request: DeleteBoardTemplateRequest): Promise<void> {
+    const { templateId, userId } = request;
+
+    const template = await this.boardTemplateRepository.findById(templateId);
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    if (!template.isOwnedBy(userId)) {
+      throw new Error('Access denied');
+    }
+
+    await this.boardTemplateRepository.delete(templateId);
+  }
+}
\ No newline at end of file
@@ -3,6 +3,8 @@ import { CardRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
+import { createBoardEvent } from "@kanban/domain-core";
 import { BoardRole } from "@prisma/client";
 
 export class DeleteCard {
@@ -11,7 +13,8 @@ export class DeleteCard {
     private userRepository: UserRepository,
     private boardRepository: BoardRepository,
     private listRepository: ListRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher
   ) {}
 
   async execute(cardId: string, userId: string): Promise<void> {
@@ -70,5 +73,9 @@ export class DeleteCard {
       entityTitle: cardTitle,
       description: `deleted card "${cardTitle}"`,
     });
+
+    await this.eventPublisher.publish(
+      createBoardEvent("card.deleted", boardId, userId, { cardId, listId: list.id })
+    );
   }
 }
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { CardRecurrenceRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { findRecurringCard } from '../shared/Recurrences';
+
+export interface DeleteCardRecurrenceRequest {
+  cardId: string;
+  userId: string;
+}
+
+/**
+ * Stops a card from repeating. Copies made so far stay on the board.
+ */
+export class DeleteCardRecurrenceUseCase {
+  constructor(
+    private cardRecurrenceRepository: CardRecurrenceRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: DeleteCardRecurrenceRequest): Promise<void> {
+    const { card } = await findRecurringCard(request.cardId, request.userId, 'edit', {
+      cardRepository: this.cardRepository,
+      listRepository: this.listRepository,
+      boardRepository: this.boardRepository,
+    });
+
+    const recurrence = await this.cardRecurrenceRepository.findByCard(card.id);
+    if (!recurrence) {
+      throw new Error('Recurrence not found');
+    }
+
+    await this.cardRecurrenceRepository.delete(recurrence.id);
+  }
+}
\ No newline at end of file
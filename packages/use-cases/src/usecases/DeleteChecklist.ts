@@ -0,0 +1,77 @@
+import { Activity } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+
+export interface DeleteChecklistRequest {
+  cardId: string;
+  checklistId: string;
+  userId: string;
+}
+
+export interface DeleteChecklistResponse {
+  success: boolean;
+}
+
+export class DeleteChecklistUseCase {
+  constructor(
+    private checklistRepository: ChecklistRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private activityRepository: ActivityRepository
+  ) {}
+
+  async execute(request: DeleteChecklistRequest): Promise<DeleteChecklistResponse> {
+    const { cardId, checklistId, userId } = request;
+
+    // Find checklist
+    const checklist = await this.checklistRepository.findById(checklistId);
+    if (!checklist || !checklist.belongsToCard(cardId)) {
+      throw new Error('Checklist not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(checklist.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can delete checklists
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Delete checklist (items are removed by cascade)
+    await this.checklistRepository.delete(checklistId);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'DELETE',
+      entityType: 'CHECKLIST',
+      entityId: checklist.id,
+      entityTitle: checklist.title,
+      userId,
+      boardId: board.id,
+      cardId: card.id,
+    });
+    await this.activityRepository.save(activity);
+
+    return { success: true };
+  }
+}
\ No newline at end of file
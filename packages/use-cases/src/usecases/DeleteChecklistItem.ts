@@ -0,0 +1,71 @@
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+
+export interface DeleteChecklistItemRequest {
+  cardId: string;
+  checklistId: string;
+  itemId: string;
+  userId: string;
+}
+
+export interface DeleteChecklistItemResponse {
+  success: boolean;
+}
+
+export class DeleteChecklistItemUseCase {
+  constructor(
+    private checklistItemRepository: ChecklistItemRepository,
+    private checklistRepository: ChecklistRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: DeleteChecklistItemRequest): Promise<DeleteChecklistItemResponse> {
+    const { cardId, checklistId, itemId, userId } = request;
+
+    // Find item
+    const item = await this.checklistItemRepository.findById(itemId);
+    if (!item || !item.belongsToChecklist(checklistId)) {
+      throw new Error('Checklist item not found');
+    }
+
+    // Find checklist
+    const checklist = await this.checklistRepository.findById(checklistId);
+    if (!checklist || !checklist.belongsToCard(cardId)) {
+      throw new Error('Checklist not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(checklist.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can delete items
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Delete item
+    await this.checklistItemRepository.delete(itemId);
+
+    return { success: true };
+  }
+}
\ No newline at end of file
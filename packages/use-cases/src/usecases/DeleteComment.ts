@@ -0,0 +1,78 @@
+import { Activity } from '@kanban/domain-core';
+import { CommentRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+
+export interface DeleteCommentRequest {
+  commentId: string;
+  userId: string;
+}
+
+export interface DeleteCommentResponse {
+  success: boolean;
+}
+
+export class DeleteCommentUseCase {
+  constructor(
+    private commentRepository: CommentRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private activityRepository: ActivityRepository
+  ) {}
+
+  async execute(request: DeleteCommentRequest): Promise<DeleteCommentResponse> {
+    const { commentId, userId } = request;
+
+    // Find comment
+    const comment = await this.commentRepository.findById(commentId);
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(comment.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Authors may delete their own comments; board owner and admins may moderate any comment
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    const isModerator = board.isOwner(userId) || userRole === 'ADMIN';
+    const isAuthorWithWriteAccess = comment.isAuthoredBy(userId) && userRole !== null && userRole !== 'VIEWER';
+    if (!isModerator && !isAuthorWithWriteAccess) {
+      throw new Error('Access denied');
+    }
+
+    // Delete comment
+    await this.commentRepository.delete(commentId);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'DELETE',
+      entityType: 'COMMENT',
+      entityId: comment.id,
+      entityTitle: card.title,
+      userId,
+      boardId: board.id,
+      cardId: card.id,
+    });
+    await this.activityRepository.save(activity);
+
+    return { success: true };
+  }
+}
\ No newline at end of file
@@ -2,6 +2,8 @@ import { Activity } from '@kanban/domain-core';
 import { ListRepository } from '@kanban/domain-core';
 import { BoardRepository } from '@kanban/domain-core';
 import { ActivityRepository } from '@kanban/domain-core';
+import { BoardEventPublisher } from '@kanban/domain-core';
+import { createBoardEvent } from '@kanban/domain-core';
 
 export interface DeleteListRequest {
   listId: string;
@@ -12,7 +14,8 @@ export class DeleteListUseCase {
   constructor(
     private listRepository: ListRepository,
     private boardRepository: BoardRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher
   ) {}
 
   async execute(request: DeleteListRequest): Promise<void> {
@@ -43,5 +46,9 @@ export class DeleteListUseCase {
 
     // Delete list (cards will be cascade deleted due to database constraint)
     await this.listRepository.delete(listId);
+
+    await this.eventPublisher.publish(
+      createBoardEvent('list.deleted', list.boardId, userId, { listId })
+    );
   }
 }
\ No newline at end of file
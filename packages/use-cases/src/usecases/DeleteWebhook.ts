@@ -0,0 +1,26 @@
+import { BoardRepository } from '@kanban/domain-core';
+import { WebhookRepository } from '@kanban/domain-core';
+import { findManagedWebhook } from '../shared/Webhooks';
+
+export interface DeleteWebhookRequest {
+  userId: string;
+  webhookId: string;
+}
+
+export class DeleteWebhookUseCase {
+  constructor(
+    private webhookRepository: WebhookRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: DeleteWebhookRequest): Promise<void> {
+    const { userId, webhookId } = request;
+
+    await findManagedWebhook(webhookId, userId, {
+      webhookRepository: this.webhookRepository,
+      boardRepository: this.boardRepository,
+    });
+
+    await this.webhookRepository.delete(webhookId);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { Attachment } from '@kanban/domain-core';
+import { AttachmentRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { FileStorage } from '@kanban/domain-core';
+
+export interface DownloadAttachmentRequest {
+  attachmentId: string;
+  userId: string;
+}
+
+export interface DownloadAttachmentResponse {
+  attachment: Attachment;
+  data: Uint8Array;
+}
+
+export class DownloadAttachmentUseCase {
+  constructor(
+    private attachmentRepository: AttachmentRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private fileStorage: FileStorage
+  ) {}
+
+  async execute(request: DownloadAttachmentRequest): Promise<DownloadAttachmentResponse> {
+    const { attachmentId, userId } = request;
+
+    // Find attachment
+    const attachment = await this.attachmentRepository.findById(attachmentId);
+    if (!attachment) {
+      throw new Error('Attachment not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(attachment.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Check if user can view the board
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    // Read file contents
+    const data = await this.fileStorage.get(attachment.url);
+    if (!data) {
+      throw new Error('Attachment file not found');
+    }
+
+    return { attachment, data };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { Comment } from '@kanban/domain-core';
+import { Activity } from '@kanban/domain-core';
+import { CommentRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+
+export interface EditCommentRequest {
+  commentId: string;
+  userId: string;
+  content: string;
+}
+
+export interface EditCommentResponse {
+  comment: Comment;
+}
+
+export class EditCommentUseCase {
+  constructor(
+    private commentRepository: CommentRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private activityRepository: ActivityRepository
+  ) {}
+
+  async execute(request: EditCommentRequest): Promise<EditCommentResponse> {
+    const { commentId, userId, content } = request;
+
+    // Find comment
+    const comment = await this.commentRepository.findById(commentId);
+    if (!comment) {
+      throw new Error('Comment not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(comment.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only the author can edit, and only while they can still write on the board
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    if (!comment.isAuthoredBy(userId)) {
+      throw new Error('Only the author can edit this comment');
+    }
+
+    // Validate content
+    if (!content.trim()) {
+      throw new Error('Comment content is required');
+    }
+
+    if (content.length > 5000) {
+      throw new Error('Comment content is too long');
+    }
+
+    const newContent = content.trim();
+    if (newContent === comment.content) {
+      return { comment };
+    }
+
+    // Update comment
+    comment.updateContent(newContent);
+    await this.commentRepository.save(comment);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'UPDATE',
+      entityType: 'COMMENT',
+      entityId: comment.id,
+      entityTitle: card.title,
+      userId,
+      boardId: board.id,
+      cardId: card.id,
+    });
+    await this.activityRepository.save(activity);
+
+    return { comment };
+  }
+}
\ No newline at end of file
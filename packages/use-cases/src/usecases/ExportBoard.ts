@@ -0,0 +1,164 @@
+import { BOARD_EXPORT_FORMAT, BOARD_EXPORT_VERSION, BoardExportDocument, Label } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { LabelRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { CommentRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+
+export interface ExportBoardRequest {
+  boardId: string;
+  userId: string;
+}
+
+export interface ExportBoardResponse {
+  document: BoardExportDocument;
+}
+
+export class ExportBoardUseCase {
+  constructor(
+    private boardRepository: BoardRepository,
+    private listRepository: ListRepository,
+    private labelRepository: LabelRepository,
+    private cardRepository: CardRepository,
+    private checklistRepository: ChecklistRepository,
+    private checklistItemRepository: ChecklistItemRepository,
+    private commentRepository: CommentRepository,
+    private userRepository: UserRepository
+  ) {}
+
+  async execute(request: ExportBoardRequest): Promise<ExportBoardResponse> {
+    const { boardId, userId } = request;
+
+    const board = await this.boardRepository.findById(boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // The export carries archived cards and everyone's email, so it is for admins
+    const userRole = await this.boardRepository.getMemberRole(boardId, userId);
+    if (!board.canBeEditedBy(userId, userRole || 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    const [lists, labels, members] = await Promise.all([
+      this.listRepository.findByBoard(boardId, { orderBy: 'position', order: 'asc' }),
+      this.labelRepository.findByBoard(boardId),
+      this.boardRepository.getMembers(boardId),
+    ]);
+
+    const cards = (await Promise.all(
+      lists.map(list => this.cardRepository.findByList(list.id, { includeArchived: true, orderBy: 'position', order: 'asc' }))
+    )).flat();
+    const cardIds = cards.map(card => card.id);
+
+    const [cardLabels, checklists, comments] = await Promise.all([
+      cardIds.length > 0 ? this.labelRepository.getLabelsByCards(cardIds) : Promise.resolve(new Map<string, Label[]>()),
+      Promise.all(cardIds.map(cardId => this.checklistRepository.findByCard(cardId))).then(found => found.flat()),
+      Promise.all(cardIds.map(cardId => this.commentRepository.findByCard(cardId, { order: 'asc' }))).then(found => found.flat()),
+    ]);
+    const checklistItems = checklists.length > 0
+      ? await this.checklistItemRepository.findByChecklists(checklists.map(checklist => checklist.id))
+      : [];
+
+    // Members keep their role; anyone else the content mentions is listed without one
+    const roles = new Map(members.map(member => [member.userId, member.role]));
+    roles.set(board.ownerId, 'OWNER');
+    const userIds = new Set([
+      ...roles.keys(),
+      ...cards.flatMap(card => [card.creatorId, ...card.assigneeIds]),
+      ...comments.map(comment => comment.userId),
+    ]);
+    const users = await this.userRepository.findByIds([...userIds]);
+
+    const boardData = board.toJSON();
+    const document: BoardExportDocument = {
+      format: BOARD_EXPORT_FORMAT,
+      version: BOARD_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      board: {
+        id: boardData.id,
+        title: boardData.title,
+        description: boardData.description,
+        backgroundUrl: boardData.backgroundUrl,
+        isPublic: boardData.isPublic,
+        isArchived: boardData.isArchived,
+        createdAt: boardData.createdAt.toISOString(),
+        updatedAt: boardData.updatedAt.toISOString(),
+      },
+      members: users.map(user => ({
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        name: user.name,
+        role: roles.get(user.id),
+      })),
+      labels: labels.map(label => ({
+        id: label.id,
+        name: label.name,
+        color: label.color,
+        createdAt: label.createdAt.toISOString(),
+      })),
+      lists: lists.map(list => ({
+        id: list.id,
+        title: list.title,
+        position: list.position,
+        color: list.color,
+        createdAt: list.createdAt.toISOString(),
+        updatedAt: list.updatedAt.toISOString(),
+      })),
+      cards: cards.map(card => {
+        const cardData = card.toJSON();
+        return {
+          id: cardData.id,
+          listId: cardData.listId,
+          title: cardData.title,
+          description: cardData.description,
+          position: cardData.position,
+          dueDate: cardData.dueDate?.toISOString(),
+          startDate: cardData.startDate?.toISOString(),
+          isArchived: cardData.isArchived,
+          coverUrl: cardData.coverUrl,
+          creatorId: cardData.creatorId,
+          assigneeIds: cardData.assigneeIds,
+          createdAt: cardData.createdAt.toISOString(),
+          updatedAt: cardData.updatedAt.toISOString(),
+        };
+      }),
+      cardLabels: cardIds.flatMap(cardId => (cardLabels.get(cardId) ?? []).map(label => ({ cardId, labelId: label.id }))),
+      checklists: checklists.map(checklist => ({
+        id: checklist.id,
+        cardId: checklist.cardId,
+        title: checklist.title,
+        position: checklist.position,
+        createdAt: checklist.createdAt.toISOString(),
+        updatedAt: checklist.updatedAt.toISOString(),
+      })),
+      checklistItems: checklistItems.map(item => {
+        const itemData = item.toJSON();
+        return {
+          id: itemData.id,
+          checklistId: itemData.checklistId,
+          content: itemData.content,
+          isCompleted: itemData.isCompleted,
+          completedAt: itemData.completedAt?.toISOString(),
+          position: itemData.position,
+          createdAt: itemData.createdAt.toISOString(),
+          updatedAt: itemData.updatedAt.toISOString(),
+        };
+      }),
+      comments: comments.map(comment => ({
+        id: comment.id,
+        cardId: comment.cardId,
+        authorId: comment.userId,
+        content: comment.content,
+        createdAt: comment.createdAt.toISOString(),
+        updatedAt: comment.updatedAt.toISOString(),
+      })),
+    };
+
+    return { document };
+  }
+}
\ No newline at end of file
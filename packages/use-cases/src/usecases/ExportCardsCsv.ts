@@ -0,0 +1,91 @@
+import { CARD_CSV_COLUMNS, CARD_CSV_HEADERS, CardCsvColumn, Card, Label, formatCsv, joinCsvList } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { LabelRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+
+export interface ExportCardsCsvRequest {
+  boardId: string;
+  userId: string;
+  // Which columns to write, in order; all of them when absent
+  columns?: CardCsvColumn[];
+}
+
+export interface ExportCardsCsvResponse {
+  csv: string;
+}
+
+export class ExportCardsCsvUseCase {
+  constructor(
+    private boardRepository: BoardRepository,
+    private listRepository: ListRepository,
+    private labelRepository: LabelRepository,
+    private cardRepository: CardRepository,
+    private userRepository: UserRepository
+  ) {}
+
+  async execute(request: ExportCardsCsvRequest): Promise<ExportCardsCsvResponse> {
+    const { boardId, userId, columns = [...CARD_CSV_COLUMNS] } = request;
+
+    const board = await this.boardRepository.findById(boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    const userRole = await this.boardRepository.getMemberRole(boardId, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    if (columns.length === 0) {
+      throw new Error('At least one column is required');
+    }
+
+    const lists = await this.listRepository.findByBoard(boardId, { orderBy: 'position', order: 'asc' });
+
+    // Archived cards are included; the archived column tells them apart
+    const cards = (await Promise.all(
+      lists.map(list => this.cardRepository.findByList(list.id, { includeArchived: true, orderBy: 'position', order: 'asc' }))
+    )).flat();
+
+    const [cardLabels, assignees] = await Promise.all([
+      cards.length > 0 && columns.includes('labels')
+        ? this.labelRepository.getLabelsByCards(cards.map(card => card.id))
+        : Promise.resolve(new Map<string, Label[]>()),
+      columns.includes('assignees')
+        ? this.userRepository.findByIds([...new Set(cards.flatMap(card => card.assigneeIds))])
+        : Promise.resolve([]),
+    ]);
+    const listTitles = new Map(lists.map(list => [list.id, list.title]));
+    const usernames = new Map(assignees.map(user => [user.id, user.username]));
+
+    const cell = (card: Card, column: CardCsvColumn): string => {
+      switch (column) {
+        case 'title':
+          return card.title;
+        case 'list':
+          return listTitles.get(card.listId) ?? '';
+        case 'labels':
+          return joinCsvList((cardLabels.get(card.id) ?? []).map(label => label.name));
+        case 'assignees':
+          return joinCsvList(card.assigneeIds.flatMap(id => usernames.get(id) ?? []));
+        case 'startDate':
+          return card.startDate?.toISOString() ?? '';
+        case 'dueDate':
+          return card.dueDate?.toISOString() ?? '';
+        case 'archived':
+          return card.isArchived ? 'true' : 'false';
+        case 'createdAt':
+          return card.createdAt.toISOString();
+      }
+    };
+
+    const csv = formatCsv([
+      columns.map(column => CARD_CSV_HEADERS[column]),
+      ...cards.map(card => columns.map(column => cell(card, column))),
+    ]);
+
+    return { csv };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { ActivityType, EntityType } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+import { ActivityFeedPage, buildActivityFeedPage, resolvePageSize } from '../shared/ActivityFeed';
+
+export interface GetBoardActivityRequest {
+  boardId: string;
+  userId: string;
+  cursor?: string;
+  limit?: number;
+  actorId?: string;
+  entityType?: EntityType;
+  action?: ActivityType;
+  fromDate?: Date;
+  toDate?: Date;
+}
+
+export type GetBoardActivityResponse = ActivityFeedPage;
+
+export class GetBoardActivityUseCase {
+  constructor(
+    private activityRepository: ActivityRepository,
+    private boardRepository: BoardRepository,
+    private userRepository: UserRepository
+  ) {}
+
+  async execute(request: GetBoardActivityRequest): Promise<GetBoardActivityResponse> {
+    const { boardId, userId, cursor, limit, actorId, entityType, action, fromDate, toDate } = request;
+
+    // Find board
+    const board = await this.boardRepository.findById(boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Check if user can view the board
+    const userRole = await this.boardRepository.getMemberRole(boardId, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const pageSize = resolvePageSize(limit);
+    const activities = await this.activityRepository.findByBoard(boardId, {
+      limit: pageSize + 1,
+      cursor,
+      userId: actorId,
+      entityType,
+      action,
+      fromDate,
+      toDate,
+    });
+
+    return buildActivityFeedPage(activities, pageSize, this.userRepository);
+  }
+}
\ No newline at end of file
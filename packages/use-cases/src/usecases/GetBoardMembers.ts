@@ -0,0 +1,69 @@
+import { BoardMember, BoardRole } from '@kanban/domain-core';
+import { User } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+
+export interface GetBoardMembersRequest {
+  boardId: string;
+  userId: string;
+  role?: BoardRole;
+}
+
+export interface BoardMemberWithUser extends BoardMember {
+  user: User;
+}
+
+export interface GetBoardMembersResponse {
+  members: BoardMemberWithUser[];
+}
+
+const ROLE_ORDER: Record<BoardRole, number> = {
+  OWNER: 0,
+  ADMIN: 1,
+  MEMBER: 2,
+  VIEWER: 3,
+};
+
+export class GetBoardMembersUseCase {
+  constructor(
+    private boardRepository: BoardRepository,
+    private userRepository: UserRepository
+  ) {}
+
+  async execute(request: GetBoardMembersRequest): Promise<GetBoardMembersResponse> {
+    const { boardId, userId, role } = request;
+
+    // Find board
+    const board = await this.boardRepository.findById(boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Anyone who can view the board can see who is on it
+    const userRole = await this.boardRepository.getMemberRole(boardId, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    // Boards created before owners were stored as members have no OWNER row
+    const members: BoardMember[] = [...await this.boardRepository.getMembers(boardId)];
+    if (!members.some(member => member.userId === board.ownerId)) {
+      members.push({ userId: board.ownerId, role: 'OWNER', joinedAt: board.createdAt });
+    }
+
+    const filtered = role ? members.filter(member => member.role === role) : members;
+
+    // Join user profiles in one query
+    const users = await this.userRepository.findByIds(filtered.map(member => member.userId));
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    const withUsers = filtered
+      .filter(member => usersById.has(member.userId))
+      .map(member => ({ ...member, user: usersById.get(member.userId)! }))
+      .sort((a, b) =>
+        ROLE_ORDER[a.role] - ROLE_ORDER[b.role] || a.joinedAt.getTime() - b.joinedAt.getTime()
+      );
+
+    return { members: withUsers };
+  }
+}
\ No newline at end of file
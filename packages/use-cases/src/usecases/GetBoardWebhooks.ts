@@ -0,0 +1,30 @@
+import { Webhook } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { WebhookRepository } from '@kanban/domain-core';
+import { findWebhookBoard } from '../shared/Webhooks';
+
+export interface GetBoardWebhooksRequest {
+  userId: string;
+  boardId: string;
+}
+
+export interface GetBoardWebhooksResponse {
+  webhooks: Webhook[];
+}
+
+export class GetBoardWebhooksUseCase {
+  constructor(
+    private webhookRepository: WebhookRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: GetBoardWebhooksRequest): Promise<GetBoardWebhooksResponse> {
+    const { userId, boardId } = request;
+
+    await findWebhookBoard(boardId, userId, this.boardRepository);
+
+    const webhooks = await this.webhookRepository.findByBoard(boardId);
+
+    return { webhooks };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { Board, CalendarEvent, Card, List, formatICalendar } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+
+export interface GetCalendarFeedRequest {
+  // The secret from the feed URL; it stands in for the user's login
+  token: string;
+  // Feed of one board's cards instead of the user's own
+  boardId?: string;
+  now?: Date;
+}
+
+export interface GetCalendarFeedResponse {
+  calendar: string;
+}
+
+export interface CalendarFeedOptions {
+  // Frontend base URL used for card links
+  appUrl: string;
+}
+
+/**
+ * Builds an iCalendar feed of the open cards with a start or due date that
+ * the token's owner is assigned to or watches, or of every such card on one
+ * board they can view. A card with both dates spans from start to due.
+ */
+export class GetCalendarFeedUseCase {
+  constructor(
+    private userRepository: UserRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private options: CalendarFeedOptions
+  ) {}
+
+  async execute(request: GetCalendarFeedRequest): Promise<GetCalendarFeedResponse> {
+    const { token, boardId, now } = request;
+
+    const user = token ? await this.userRepository.findByCalendarToken(token) : null;
+    if (!user || !user.isActive) {
+      throw new Error('Calendar feed not found');
+    }
+
+    let name: string;
+    let cards: Card[];
+    if (boardId) {
+      const board = await this.boardRepository.findById(boardId);
+      if (!board) {
+        throw new Error('Board not found');
+      }
+
+      const userRole = await this.boardRepository.getMemberRole(boardId, user.id);
+      if (!board.canBeViewedBy(user.id, userRole || undefined)) {
+        throw new Error('Access denied');
+      }
+
+      name = board.title;
+      cards = await this.cardRepository.findByBoard(boardId, { scheduled: true });
+    } else {
+      name = `Cards for ${user.name ?? user.username}`;
+      cards = await this.cardRepository.findByAssignee(user.id, { includeWatched: true, scheduled: true });
+    }
+
+    const lists = new Map<string, List>();
+    for (const listId of new Set(cards.map(card => card.listId))) {
+      const list = await this.listRepository.findById(listId);
+      if (list) {
+        lists.set(listId, list);
+      }
+    }
+
+    // People keep their assignments and watches after leaving a board; those cards are left out
+    const boards = new Map<string, Board>();
+    for (const listBoardId of new Set([...lists.values()].map(list => list.boardId))) {
+      const board = await this.boardRepository.findById(listBoardId);
+      const userRole = board ? await this.boardRepository.getMemberRole(board.id, user.id) : null;
+      if (board && board.canBeViewedBy(user.id, userRole || undefined)) {
+        boards.set(board.id, board);
+      }
+    }
+
+    const events = cards.flatMap((card): CalendarEvent[] => {
+      const list = lists.get(card.listId);
+      const board = list && boards.get(list.boardId);
+      const start = card.startDate ?? card.dueDate;
+      if (!list || !board || !start) {
+        return [];
+      }
+
+      return [{
+        uid: `${card.id}@kanban`,
+        summary: card.title,
+        description: `${board.title} / ${list.title}`,
+        url: `${this.options.appUrl}/board/${board.id}?card=${encodeURIComponent(card.id)}`,
+        start,
+        end: card.startDate ? card.dueDate : undefined,
+        lastModified: card.updatedAt,
+      }];
+    });
+    events.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    return { calendar: formatICalendar({ name, events }, now) };
+  }
+}
\ No newline at end of file
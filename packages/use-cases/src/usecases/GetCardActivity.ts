@@ -0,0 +1,67 @@
+import { ActivityType } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+import { ActivityFeedPage, buildActivityFeedPage, resolvePageSize } from '../shared/ActivityFeed';
+
+export interface GetCardActivityRequest {
+  cardId: string;
+  userId: string;
+  cursor?: string;
+  limit?: number;
+  actorId?: string;
+  action?: ActivityType;
+}
+
+export type GetCardActivityResponse = ActivityFeedPage;
+
+export class GetCardActivityUseCase {
+  constructor(
+    private activityRepository: ActivityRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private userRepository: UserRepository
+  ) {}
+
+  async execute(request: GetCardActivityRequest): Promise<GetCardActivityResponse> {
+    const { cardId, userId, cursor, limit, actorId, action } = request;
+
+    // Find card
+    const card = await this.cardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Check if user can view the board
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const pageSize = resolvePageSize(limit);
+    const activities = await this.activityRepository.findByCard(cardId, {
+      limit: pageSize + 1,
+      cursor,
+      userId: actorId,
+      action,
+    });
+
+    return buildActivityFeedPage(activities, pageSize, this.userRepository);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { Attachment } from '@kanban/domain-core';
+import { AttachmentRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+
+export interface GetCardAttachmentsRequest {
+  cardId: string;
+  userId: string;
+}
+
+export interface GetCardAttachmentsResponse {
+  attachments: Attachment[];
+}
+
+export class GetCardAttachmentsUseCase {
+  constructor(
+    private attachmentRepository: AttachmentRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: GetCardAttachmentsRequest): Promise<GetCardAttachmentsResponse> {
+    const { cardId, userId } = request;
+
+    // Find card
+    const card = await this.cardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Check if user can view the board
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    const attachments = await this.attachmentRepository.findByCard(cardId);
+
+    return { attachments };
+  }
+}
\ No newline at end of file
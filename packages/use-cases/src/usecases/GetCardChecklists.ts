@@ -0,0 +1,72 @@
+import { Checklist } from '@kanban/domain-core';
+import { ChecklistItem } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+
+export interface GetCardChecklistsRequest {
+  cardId: string;
+  userId: string;
+}
+
+export interface ChecklistWithItems {
+  checklist: Checklist;
+  items: ChecklistItem[];
+}
+
+export interface GetCardChecklistsResponse {
+  checklists: ChecklistWithItems[];
+}
+
+export class GetCardChecklistsUseCase {
+  constructor(
+    private checklistRepository: ChecklistRepository,
+    private checklistItemRepository: ChecklistItemRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: GetCardChecklistsRequest): Promise<GetCardChecklistsResponse> {
+    const { cardId, userId } = request;
+
+    // Find card
+    const card = await this.cardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Check if user can view the board
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    // Load checklists and all of their items in one go
+    const checklists = await this.checklistRepository.findByCard(cardId);
+    const items = await this.checklistItemRepository.findByChecklists(checklists.map(checklist => checklist.id));
+
+    return {
+      checklists: checklists.map(checklist => ({
+        checklist,
+        items: items
+          .filter(item => item.belongsToChecklist(checklist.id))
+          .sort((a, b) => a.position - b.position),
+      })),
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { Comment } from '@kanban/domain-core';
+import { CommentRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+
+export interface GetCardCommentsRequest {
+  cardId: string;
+  userId: string;
+  limit?: number;
+  offset?: number;
+  order?: 'asc' | 'desc';
+}
+
+export interface GetCardCommentsResponse {
+  comments: Comment[];
+  total: number;
+}
+
+export class GetCardCommentsUseCase {
+  constructor(
+    private commentRepository: CommentRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: GetCardCommentsRequest): Promise<GetCardCommentsResponse> {
+    const { cardId, userId, limit, offset, order } = request;
+
+    // Find card
+    const card = await this.cardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Anyone who can view the board (including viewers) can read comments
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    const [comments, total] = await Promise.all([
+      this.commentRepository.findByCard(cardId, { limit, offset, order }),
+      this.commentRepository.countByCard(cardId),
+    ]);
+
+    return { comments, total };
+  }
+}
\ No newline at end of file
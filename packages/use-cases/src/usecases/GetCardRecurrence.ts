@@ -0,0 +1,37 @@
+import { CardRecurrence } from '@kanban/domain-core';
+import { CardRecurrenceRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { findRecurringCard } from '../shared/Recurrences';
+
+export interface GetCardRecurrenceRequest {
+  cardId: string;
+  userId: string;
+}
+
+export interface GetCardRecurrenceResponse {
+  // Null when the card does not repeat
+  recurrence: CardRecurrence | null;
+}
+
+export class GetCardRecurrenceUseCase {
+  constructor(
+    private cardRecurrenceRepository: CardRecurrenceRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: GetCardRecurrenceRequest): Promise<GetCardRecurrenceResponse> {
+    const { card } = await findRecurringCard(request.cardId, request.userId, 'view', {
+      cardRepository: this.cardRepository,
+      listRepository: this.listRepository,
+      boardRepository: this.boardRepository,
+    });
+
+    const recurrence = await this.cardRecurrenceRepository.findByCard(card.id);
+
+    return { recurrence };
+  }
+}
\ No newline at end of file
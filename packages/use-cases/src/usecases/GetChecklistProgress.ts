@@ -0,0 +1,32 @@
+import { ChecklistProgress } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+
+export interface GetChecklistProgressRequest {
+  cardIds: string[];
+}
+
+export interface GetChecklistProgressResponse {
+  progress: Map<string, ChecklistProgress>;
+}
+
+/**
+ * Aggregates checklist completion per card for card listings.
+ * Callers are expected to have already authorized access to the cards.
+ */
+export class GetChecklistProgressUseCase {
+  constructor(
+    private checklistRepository: ChecklistRepository
+  ) {}
+
+  async execute(request: GetChecklistProgressRequest): Promise<GetChecklistProgressResponse> {
+    const { cardIds } = request;
+
+    if (cardIds.length === 0) {
+      return { progress: new Map() };
+    }
+
+    const progress = await this.checklistRepository.getProgressByCards(cardIds);
+
+    return { progress };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { Label } from '@kanban/domain-core';
+import { LabelRepository } from '@kanban/domain-core';
+
+export interface GetLabelsForCardsRequest {
+  cardIds: string[];
+}
+
+export interface GetLabelsForCardsResponse {
+  labels: Map<string, Label[]>;
+}
+
+/**
+ * Loads the labels of many cards at once for card listings.
+ * Callers are expected to have already authorized access to the cards.
+ */
+export class GetLabelsForCardsUseCase {
+  constructor(
+    private labelRepository: LabelRepository
+  ) {}
+
+  async execute(request: GetLabelsForCardsRequest): Promise<GetLabelsForCardsResponse> {
+    const { cardIds } = request;
+
+    if (cardIds.length === 0) {
+      return { labels: new Map() };
+    }
+
+    const labels = await this.labelRepository.getLabelsByCards(cardIds);
+
+    return { labels };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { Notification } from '@kanban/domain-core';
+import { NotificationRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+import { ActivityActor, loadActors, resolvePageSize } from '../shared/ActivityFeed';
+
+export interface GetNotificationsRequest {
+  userId: string;
+  unreadOnly?: boolean;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface NotificationEntry {
+  notification: Notification;
+  // null when the actor no longer exists
+  actor: ActivityActor | null;
+}
+
+export interface GetNotificationsResponse {
+  entries: NotificationEntry[];
+  nextCursor?: string;
+  // Across all of the user's notifications, not just this page
+  unreadCount: number;
+}
+
+export class GetNotificationsUseCase {
+  constructor(
+    private notificationRepository: NotificationRepository,
+    private userRepository: UserRepository
+  ) {}
+
+  async execute(request: GetNotificationsRequest): Promise<GetNotificationsResponse> {
+    const { userId, unreadOnly, cursor, limit } = request;
+
+    // Fetch one extra row to know whether another page exists
+    const pageSize = resolvePageSize(limit);
+    const [notifications, unreadCount] = await Promise.all([
+      this.notificationRepository.findByUser(userId, { unreadOnly, cursor, limit: pageSize + 1 }),
+      this.notificationRepository.countUnread(userId),
+    ]);
+
+    const hasMore = notifications.length > pageSize;
+    const page = hasMore ? notifications.slice(0, pageSize) : notifications;
+
+    const actorIds = page.flatMap(notification => notification.actorId ?? []);
+    const actors = await loadActors(actorIds, this.userRepository);
+
+    return {
+      entries: page.map(notification => ({
+        notification,
+        actor: notification.actorId ? actors.get(notification.actorId) ?? null : null,
+      })),
+      nextCursor: hasMore ? page[page.length - 1]?.id : undefined,
+      unreadCount,
+    };
+  }
+}
\ No newline at end of file
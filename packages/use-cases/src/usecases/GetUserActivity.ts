@@ -0,0 +1,52 @@
+import { ActivityRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+import { ActivityFeedPage, buildActivityFeedPage, resolvePageSize } from '../shared/ActivityFeed';
+
+export interface GetUserActivityRequest {
+  userId: string;
+  boardId?: string;
+  cursor?: string;
+  limit?: number;
+  fromDate?: Date;
+  toDate?: Date;
+}
+
+export type GetUserActivityResponse = ActivityFeedPage;
+
+export class GetUserActivityUseCase {
+  constructor(
+    private activityRepository: ActivityRepository,
+    private boardRepository: BoardRepository,
+    private userRepository: UserRepository
+  ) {}
+
+  async execute(request: GetUserActivityRequest): Promise<GetUserActivityResponse> {
+    const { userId, boardId, cursor, limit, fromDate, toDate } = request;
+
+    // When narrowing to a board, the user must still be able to view it
+    if (boardId) {
+      const board = await this.boardRepository.findById(boardId);
+      if (!board) {
+        throw new Error('Board not found');
+      }
+
+      const userRole = await this.boardRepository.getMemberRole(boardId, userId);
+      if (!board.canBeViewedBy(userId, userRole || undefined)) {
+        throw new Error('Access denied');
+      }
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const pageSize = resolvePageSize(limit);
+    const activities = await this.activityRepository.findByUser(userId, {
+      boardId,
+      limit: pageSize + 1,
+      cursor,
+      fromDate,
+      toDate,
+    });
+
+    return buildActivityFeedPage(activities, pageSize, this.userRepository);
+  }
+}
\ No newline at end of file
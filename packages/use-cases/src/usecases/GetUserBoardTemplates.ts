@@ -0,0 +1,21 @@
+import { BoardTemplate } from '@kanban/domain-core';
+import { BoardTemplateRepository } from '@kanban/domain-core';
+
+export interface GetUserBoardTemplatesRequest {
+  userId: string;
+}
+
+export interface GetUserBoardTemplatesResponse {
+  templates: BoardTemplate[];
+}
+
+export class GetUserBoardTemplatesUseCase {
+  constructor(
+    private boardTemplateRepository: BoardTemplateRepository
+  ) {}
+
+  async execute(request: GetUserBoardTemplatesRequest): Promise<GetUserBoardTemplatesResponse> {
+    const templates = await this.boardTemplateRepository.findByOwner(request.userId);
+    return { templates };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { WatchRepository } from '@kanban/domain-core';
+
+export interface GetWatchedCardsRequest {
+  userId: string;
+  cardIds: string[];
+}
+
+export interface GetWatchedCardsResponse {
+  watchedCardIds: Set<string>;
+}
+
+/**
+ * Tells which of many cards the user watches directly, for card listings.
+ * Callers are expected to have already authorized access to the cards.
+ */
+export class GetWatchedCardsUseCase {
+  constructor(
+    private watchRepository: WatchRepository
+  ) {}
+
+  async execute(request: GetWatchedCardsRequest): Promise<GetWatchedCardsResponse> {
+    const { userId, cardIds } = request;
+
+    if (cardIds.length === 0) {
+      return { watchedCardIds: new Set() };
+    }
+
+    const watchedCardIds = await this.watchRepository.findWatchedIds(userId, 'CARD', cardIds);
+
+    return { watchedCardIds };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { ActivityRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+import { WatchRepository } from '@kanban/domain-core';
+import { ActivityFeedEntry, buildActivityFeedPage, resolvePageSize } from '../shared/ActivityFeed';
+
+export interface GetWatchingFeedRequest {
+  userId: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface WatchingFeedEntry extends ActivityFeedEntry {
+  // Happened after the user last marked the feed as read
+  isUnread: boolean;
+}
+
+export interface GetWatchingFeedResponse {
+  entries: WatchingFeedEntry[];
+  nextCursor?: string;
+  // Across the whole feed, not just this page
+  unreadCount: number;
+}
+
+export class GetWatchingFeedUseCase {
+  constructor(
+    private activityRepository: ActivityRepository,
+    private watchRepository: WatchRepository,
+    private userRepository: UserRepository
+  ) {}
+
+  async execute(request: GetWatchingFeedRequest): Promise<GetWatchingFeedResponse> {
+    const { userId, cursor, limit } = request;
+
+    const readAt = await this.watchRepository.getFeedReadAt(userId);
+
+    // Fetch one extra row to know whether another page exists
+    const pageSize = resolvePageSize(limit);
+    const [activities, unreadCount] = await Promise.all([
+      this.activityRepository.findWatchedBy(userId, { limit: pageSize + 1, cursor }),
+      this.activityRepository.countWatchedBy(userId, { since: readAt ?? undefined }),
+    ]);
+
+    const page = await buildActivityFeedPage(activities, pageSize, this.userRepository);
+
+    return {
+      entries: page.entries.map(entry => ({
+        ...entry,
+        isUnread: !readAt || entry.activity.createdAt > readAt,
+      })),
+      nextCursor: page.nextCursor,
+      unreadCount,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { WebhookDelivery } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { WebhookDeliveryRepository } from '@kanban/domain-core';
+import { WebhookRepository } from '@kanban/domain-core';
+import { resolvePageSize } from '../shared/ActivityFeed';
+import { findManagedWebhook } from '../shared/Webhooks';
+
+export interface GetWebhookDeliveriesRequest {
+  userId: string;
+  webhookId: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface GetWebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+  nextCursor?: string;
+}
+
+export class GetWebhookDeliveriesUseCase {
+  constructor(
+    private webhookDeliveryRepository: WebhookDeliveryRepository,
+    private webhookRepository: WebhookRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: GetWebhookDeliveriesRequest): Promise<GetWebhookDeliveriesResponse> {
+    const { userId, webhookId, cursor, limit } = request;
+
+    await findManagedWebhook(webhookId, userId, {
+      webhookRepository: this.webhookRepository,
+      boardRepository: this.boardRepository,
+    });
+
+    // Fetch one extra row to know whether another page exists
+    const pageSize = resolvePageSize(limit);
+    const deliveries = await this.webhookDeliveryRepository.findByWebhook(webhookId, {
+      cursor,
+      limit: pageSize + 1,
+    });
+
+    const hasMore = deliveries.length > pageSize;
+    const page = hasMore ? deliveries.slice(0, pageSize) : deliveries;
+
+    return {
+      deliveries: page,
+      nextCursor: hasMore ? page[page.length - 1]?.id : undefined,
+    };
+  }
+}
\ No newline at end of file
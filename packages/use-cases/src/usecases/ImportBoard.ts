@@ -0,0 +1,199 @@
+import { Board, BoardContents, BoardExportMember, BoardRole, parseBoardExport } from '@kanban/domain-core';
+import { Activity, Card, Checklist, ChecklistItem, Comment, Label, List } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+
+export interface ImportBoardRequest {
+  userId: string;
+  // Parsed JSON of a board export, validated here
+  document: unknown;
+}
+
+// An exported member who already shares a board with the importer, offered as an invite
+export interface ImportBoardMemberMatch {
+  member: BoardExportMember;
+  userId: string;
+  // The exported role, with the owner coming back as an admin
+  suggestedRole: Exclude<BoardRole, 'OWNER'>;
+}
+
+export interface ImportBoardResponse {
+  board: Board;
+  // Exported members matched by email among the people who share a board
+  // with the importer. The document can be forged, so none of them are added
+  // to the board, and nobody else is looked up, so an import cannot reveal
+  // who has an account
+  matchedMembers: ImportBoardMemberMatch[];
+  // Exported people who share no board with the importer
+  unmatchedMembers: BoardExportMember[];
+}
+
+export class ImportBoardUseCase {
+  constructor(
+    private boardRepository: BoardRepository,
+    private userRepository: UserRepository,
+    private activityRepository: ActivityRepository
+  ) {}
+
+  async execute(request: ImportBoardRequest): Promise<ImportBoardResponse> {
+    const { userId } = request;
+    const document = parseBoardExport(request.document);
+
+    const title = document.board.title.trim();
+    if (!title) {
+      throw new Error('Board title is required');
+    }
+
+    if (title.length > 255) {
+      throw new Error('Board title is too long');
+    }
+
+    const connectedIds = await this.boardRepository.findCoMemberIds(userId);
+    const connectedUsers = await this.userRepository.findByIds([userId, ...connectedIds]);
+    const usersByEmail = new Map(connectedUsers.map(user => [user.email.toLowerCase(), user]));
+
+    const matchedMembers: ImportBoardMemberMatch[] = [];
+    const unmatchedMembers: BoardExportMember[] = [];
+    const importerIds = new Set<string>();
+    document.members.forEach(member => {
+      const user = usersByEmail.get(member.email.toLowerCase());
+      if (!user) {
+        unmatchedMembers.push(member);
+      } else if (user.id === userId) {
+        importerIds.add(member.id);
+      } else if (member.role) {
+        matchedMembers.push({
+          member,
+          userId: user.id,
+          suggestedRole: member.role === 'OWNER' ? 'ADMIN' : member.role,
+        });
+      }
+    });
+
+    // Everything is created and posted by the importer; comments name the
+    // person the export says wrote them
+    const membersById = new Map(document.members.map(member => [member.id, member]));
+    const commentContent = (authorId: string, content: string) => {
+      if (importerIds.has(authorId)) {
+        return content;
+      }
+      const author = membersById.get(authorId);
+      return `${author?.name || author?.username || 'Someone'} wrote: ${content}`;
+    };
+
+    // The importer owns the new board and is its only member
+    const board = Board.fromPersistence({
+      id: crypto.randomUUID(),
+      title,
+      description: document.board.description,
+      backgroundUrl: document.board.backgroundUrl,
+      isPublic: document.board.isPublic,
+      isArchived: document.board.isArchived,
+      ownerId: userId,
+      createdAt: new Date(document.board.createdAt),
+      updatedAt: new Date(document.board.updatedAt),
+    });
+
+    // Every record gets a fresh id; these maps follow the document's links
+    const labelIds = new Map<string, string>();
+    const listIds = new Map<string, string>();
+    const cardIds = new Map<string, string>();
+    const checklistIds = new Map<string, string>();
+    const freshId = (ids: Map<string, string>, exportedId: string) => {
+      const id = crypto.randomUUID();
+      ids.set(exportedId, id);
+      return id;
+    };
+
+    const contents: BoardContents = {
+      board,
+      members: [],
+      labels: document.labels.map(label => Label.fromPersistence({
+        id: freshId(labelIds, label.id),
+        name: label.name,
+        color: label.color,
+        boardId: board.id,
+        createdAt: new Date(label.createdAt),
+      })),
+      lists: document.lists.map(list => List.fromPersistence({
+        id: freshId(listIds, list.id),
+        title: list.title,
+        position: list.position,
+        color: list.color,
+        boardId: board.id,
+        createdAt: new Date(list.createdAt),
+        updatedAt: new Date(list.updatedAt),
+      })),
+      cards: document.cards.map(card => Card.fromPersistence({
+        id: freshId(cardIds, card.id),
+        title: card.title,
+        description: card.description,
+        position: card.position,
+        dueDate: card.dueDate ? new Date(card.dueDate) : undefined,
+        startDate: card.startDate ? new Date(card.startDate) : undefined,
+        isArchived: card.isArchived,
+        coverUrl: card.coverUrl,
+        listId: listIds.get(card.listId)!,
+        creatorId: userId,
+        // Only members can be assigned, and nobody else has joined yet
+        assigneeIds: card.assigneeIds.some(id => importerIds.has(id)) ? [userId] : [],
+        createdAt: new Date(card.createdAt),
+        updatedAt: new Date(card.updatedAt),
+      })),
+      cardLabels: [],
+      checklists: document.checklists.map(checklist => Checklist.fromPersistence({
+        id: freshId(checklistIds, checklist.id),
+        title: checklist.title,
+        position: checklist.position,
+        cardId: cardIds.get(checklist.cardId)!,
+        createdAt: new Date(checklist.createdAt),
+        updatedAt: new Date(checklist.updatedAt),
+      })),
+      checklistItems: document.checklistItems.map(item => ChecklistItem.fromPersistence({
+        id: crypto.randomUUID(),
+        content: item.content,
+        isCompleted: item.isCompleted,
+        position: item.position,
+        completedAt: item.completedAt ? new Date(item.completedAt) : undefined,
+        checklistId: checklistIds.get(item.checklistId)!,
+        createdAt: new Date(item.createdAt),
+        updatedAt: new Date(item.updatedAt),
+      })),
+      comments: document.comments.map(comment => Comment.fromPersistence({
+        id: crypto.randomUUID(),
+        content: commentContent(comment.authorId, comment.content),
+        cardId: cardIds.get(comment.cardId)!,
+        userId,
+        createdAt: new Date(comment.createdAt),
+        updatedAt: new Date(comment.updatedAt),
+      })),
+    };
+
+    // A link listed twice would break the card-label primary key
+    const seenLinks = new Set<string>();
+    document.cardLabels.forEach(link => {
+      const key = `${link.cardId}:${link.labelId}`;
+      if (!seenLinks.has(key)) {
+        seenLinks.add(key);
+        contents.cardLabels.push({ cardId: cardIds.get(link.cardId)!, labelId: labelIds.get(link.labelId)! });
+      }
+    });
+
+    await this.boardRepository.createWithContents(contents);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'CREATE',
+      entityType: 'BOARD',
+      entityId: board.id,
+      entityTitle: board.title,
+      userId,
+      boardId: board.id,
+      data: { importedFromBoardId: document.board.id },
+    });
+    await this.activityRepository.save(activity);
+
+    return { board, matchedMembers, unmatchedMembers };
+  }
+}
\ No newline at end of file
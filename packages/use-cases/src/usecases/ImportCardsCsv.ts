@@ -0,0 +1,289 @@
+import { Activity, BusinessRuleViolationError, Card, rankAfter, CardCsvColumn, cardCsvColumn, CARD_CSV_HEADERS, Label, List, parseCsv, splitCsvList } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { LabelRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+import { WatchRepository } from '@kanban/domain-core';
+import { BoardEventPublisher } from '@kanban/domain-core';
+import { createBoardEvent } from '@kanban/domain-core';
+import { checkWipLimit } from '../shared/WipLimits';
+
+const MAX_ROWS = 1000;
+const MAX_TITLE_LENGTH = 255;
+
+const TRUE_VALUES = ['true', 'yes', '1'];
+const FALSE_VALUES = ['', 'false', 'no', '0'];
+
+export interface ImportCardsCsvRequest {
+  boardId: string;
+  userId: string;
+  csv: string;
+}
+
+export interface CardCsvRowError {
+  // The spreadsheet row, counting the header as row 1
+  row: number;
+  message: string;
+}
+
+export interface ImportCardsCsvResponse {
+  // Empty when any row has errors: nothing is created until every row is fixed
+  cards: Card[];
+  errors: CardCsvRowError[];
+}
+
+interface CardRow {
+  // The spreadsheet row, for errors found once every row is read
+  row: number;
+  title: string;
+  list: List;
+  labels: Label[];
+  assigneeIds: string[];
+  startDate?: Date;
+  dueDate?: Date;
+  isArchived: boolean;
+}
+
+export class ImportCardsCsvUseCase {
+  constructor(
+    private boardRepository: BoardRepository,
+    private listRepository: ListRepository,
+    private labelRepository: LabelRepository,
+    private cardRepository: CardRepository,
+    private userRepository: UserRepository,
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher,
+    private watchRepository: WatchRepository
+  ) {}
+
+  async execute(request: ImportCardsCsvRequest): Promise<ImportCardsCsvResponse> {
+    const { boardId, userId } = request;
+
+    const board = await this.boardRepository.findById(boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Same rule as creating a card by hand
+    const userRole = await this.boardRepository.getMemberRole(boardId, userId);
+    if (!userRole || userRole === 'VIEWER') {
+      throw new Error('Access denied');
+    }
+
+    const [header, ...rows] = parseCsv(request.csv);
+    if (!header) {
+      throw new Error('CSV file is empty');
+    }
+    if (rows.length > MAX_ROWS) {
+      throw new Error(`CSV has more than ${MAX_ROWS} cards`);
+    }
+
+    // Columns this app does not know, such as notes kept next to the cards, are ignored
+    const columnIndexes = new Map<CardCsvColumn, number>();
+    header.forEach((name, index) => {
+      const column = cardCsvColumn(name);
+      if (column && columnIndexes.has(column)) {
+        throw new Error(`Column "${CARD_CSV_HEADERS[column]}" appears more than once`);
+      }
+      if (column) {
+        columnIndexes.set(column, index);
+      }
+    });
+    for (const column of ['title', 'list'] as const) {
+      if (!columnIndexes.has(column)) {
+        throw new Error(`CSV must have a "${CARD_CSV_HEADERS[column]}" column`);
+      }
+    }
+
+    const [lists, labels] = await Promise.all([
+      this.listRepository.findByBoard(boardId, { orderBy: 'position', order: 'asc' }),
+      this.labelRepository.findByBoard(boardId),
+    ]);
+
+    // Names match ignoring case; with duplicates the first one wins
+    const listsByTitle = new Map<string, List>();
+    lists.forEach(list => {
+      if (!listsByTitle.has(list.title.toLowerCase())) {
+        listsByTitle.set(list.title.toLowerCase(), list);
+      }
+    });
+    const labelsByName = new Map<string, Label>();
+    labels.forEach(label => {
+      if (!labelsByName.has(label.name.toLowerCase())) {
+        labelsByName.set(label.name.toLowerCase(), label);
+      }
+    });
+
+    // Assignees are given by username or email, ignoring case, and only the
+    // board's members can be assigned; nobody else is looked up
+    const members = await this.boardRepository.getMembers(boardId);
+    const memberUsers = await this.userRepository.findByIds([
+      ...new Set([board.ownerId, ...members.map(member => member.userId)]),
+    ]);
+    const assigneeIds = new Map<string, string>();
+    memberUsers.forEach(user => {
+      assigneeIds.set(user.username.toLowerCase(), user.id);
+      assigneeIds.set(user.email.toLowerCase(), user.id);
+    });
+
+    const errors: CardCsvRowError[] = [];
+    const cardRows: CardRow[] = [];
+    rows.forEach((row, index) => {
+      const rowNumber = index + 2;
+      // A name repeated in a cell is reported once
+      const fail = (message: string) => {
+        if (!errors.some(error => error.row === rowNumber && error.message === message)) {
+          errors.push({ row: rowNumber, message });
+        }
+      };
+      const errorCount = errors.length;
+
+      const title = this.cell(row, columnIndexes, 'title').trim();
+      if (!title) {
+        fail('Title is required');
+      } else if (title.length > MAX_TITLE_LENGTH) {
+        fail('Title is too long');
+      }
+
+      const listTitle = this.cell(row, columnIndexes, 'list').trim();
+      const list = listsByTitle.get(listTitle.toLowerCase());
+      if (!listTitle) {
+        fail('List is required');
+      } else if (!list) {
+        fail(`List "${listTitle}" not found`);
+      }
+
+      const rowLabels = splitCsvList(this.cell(row, columnIndexes, 'labels')).flatMap(name => {
+        const label = labelsByName.get(name.toLowerCase());
+        if (!label) {
+          fail(`Label "${name}" not found`);
+        }
+        return label ? [label] : [];
+      });
+
+      const rowAssigneeIds = splitCsvList(this.cell(row, columnIndexes, 'assignees')).flatMap(name => {
+        const assigneeId = assigneeIds.get(name.toLowerCase());
+        if (!assigneeId) {
+          fail(`Assignee "${name}" is not a member of this board`);
+        }
+        return assigneeId ? [assigneeId] : [];
+      });
+
+      const date = (column: 'startDate' | 'dueDate'): Date | undefined => {
+        const value = this.cell(row, columnIndexes, column).trim();
+        const time = Date.parse(value);
+        if (value && Number.isNaN(time)) {
+          fail(`${CARD_CSV_HEADERS[column]} "${value}" is not a date`);
+        }
+        return value && !Number.isNaN(time) ? new Date(time) : undefined;
+      };
+      const startDate = date('startDate');
+      const dueDate = date('dueDate');
+
+      const archived = this.cell(row, columnIndexes, 'archived').trim().toLowerCase();
+      if (!TRUE_VALUES.includes(archived) && !FALSE_VALUES.includes(archived)) {
+        fail(`Archived must be true or false, not "${archived}"`);
+      }
+
+      if (errors.length === errorCount && list) {
+        cardRows.push({
+          row: rowNumber,
+          title,
+          list,
+          labels: [...new Set(rowLabels)],
+          assigneeIds: [...new Set(rowAssigneeIds)],
+          startDate,
+          dueDate,
+          isArchived: TRUE_VALUES.includes(archived),
+        });
+      }
+    });
+
+    // Strict WIP limits apply to the whole file; a list that cannot take all
+    // of its open rows is reported on the first of them
+    const openRowsByList = new Map<List, CardRow[]>();
+    cardRows.filter(cardRow => !cardRow.isArchived).forEach(cardRow => {
+      openRowsByList.set(cardRow.list, [...openRowsByList.get(cardRow.list) ?? [], cardRow]);
+    });
+    for (const [list, listRows] of openRowsByList) {
+      try {
+        await checkWipLimit(this.cardRepository, list, listRows.length);
+      } catch (error) {
+        if (!(error instanceof BusinessRuleViolationError)) {
+          throw error;
+        }
+        errors.push({ row: listRows[0]!.row, message: error.message });
+      }
+    }
+
+    if (errors.length > 0) {
+      errors.sort((a, b) => a.row - b.row);
+      return { cards: [], errors };
+    }
+
+    // Rows land below the cards already in their list, in file order
+    const positions = new Map<string, number>();
+    const cards: Card[] = [];
+    for (const cardRow of cardRows) {
+      const previous = positions.get(cardRow.list.id);
+      const position = previous === undefined
+        ? await this.cardRepository.getNextPosition(cardRow.list.id)
+        : rankAfter(previous);
+      positions.set(cardRow.list.id, position);
+
+      cards.push(Card.create({
+        title: cardRow.title,
+        position,
+        listId: cardRow.list.id,
+        creatorId: userId,
+        assigneeIds: cardRow.assigneeIds,
+        startDate: cardRow.startDate,
+        dueDate: cardRow.dueDate,
+        isArchived: cardRow.isArchived,
+      }));
+    }
+
+    // The file is imported whole or not at all
+    await this.cardRepository.createWithContents({
+      cards,
+      cardLabels: cards.flatMap((card, index) =>
+        cardRows[index]!.labels.map(label => ({ cardId: card.id, labelId: label.id }))
+      ),
+      checklists: [],
+      checklistItems: [],
+    });
+
+    for (const [index, card] of cards.entries()) {
+      const cardRow = cardRows[index]!;
+      await this.watchRepository.watch([userId, ...cardRow.assigneeIds], { type: 'CARD', id: card.id });
+
+      // Log activity
+      const activity = Activity.create({
+        action: 'CREATE',
+        entityType: 'CARD',
+        entityId: card.id,
+        entityTitle: card.title,
+        userId,
+        boardId,
+        cardId: card.id,
+        data: { importedFrom: 'csv' },
+      });
+      await this.activityRepository.save(activity);
+
+      if (!card.isArchived) {
+        await this.eventPublisher.publish(
+          createBoardEvent('card.created', boardId, userId, { card: card.toJSON() })
+        );
+      }
+    }
+
+    return { cards, errors };
+  }
+
+  private cell(row: string[], columnIndexes: Map<CardCsvColumn, number>, column: CardCsvColumn): string {
+    const index = columnIndexes.get(column);
+    return index === undefined ? '' : row[index] ?? '';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,251 @@
+import { Board, BoardContents, BoardRole, TrelloMember, parseTrelloBoard, trelloLabelColor } from '@kanban/domain-core';
+import { Activity, Card, Checklist, ChecklistItem, Comment, Label, List } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+import { spreadRanks } from '@kanban/domain-core';
+
+// The same limits the create use cases enforce; longer Trello text is cut
+const MAX_TITLE_LENGTH = 255;
+const MAX_LABEL_NAME_LENGTH = 50;
+const MAX_ITEM_LENGTH = 255;
+const MAX_COMMENT_LENGTH = 5000;
+
+export interface ImportTrelloBoardRequest {
+  userId: string;
+  // Parsed JSON of a Trello board export
+  trello: unknown;
+  // Report what would be imported without creating anything
+  dryRun?: boolean;
+}
+
+export interface TrelloImportReport {
+  boardTitle: string;
+  lists: number;
+  cards: number;
+  archivedCards: number;
+  labels: number;
+  checklists: number;
+  checklistItems: number;
+  comments: number;
+  // Archived Trello lists have no counterpart here, so they are left out with their cards
+  skippedLists: string[];
+  // Trello members whose username belongs to someone who shares a board with
+  // the importer; nobody else is looked up, so an import cannot reveal who
+  // has an account. A matching username does not make them the same person,
+  // so they are not added to the board; the importer can invite them with
+  // the suggested role
+  suggestedMembers: { username: string; fullName?: string; userId: string; suggestedRole: Exclude<BoardRole, 'OWNER'> }[];
+  // Trello members whose username nobody on the importer's boards has
+  unmappedMembers: { username: string; fullName?: string }[];
+}
+
+export interface ImportTrelloBoardResponse {
+  report: TrelloImportReport;
+  // Absent on a dry run
+  board?: Board;
+}
+
+function clip(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+export class ImportTrelloBoardUseCase {
+  constructor(
+    private boardRepository: BoardRepository,
+    private userRepository: UserRepository,
+    private activityRepository: ActivityRepository
+  ) {}
+
+  async execute(request: ImportTrelloBoardRequest): Promise<ImportTrelloBoardResponse> {
+    const { userId, dryRun = false } = request;
+    const trello = parseTrelloBoard(request.trello);
+
+    const title = clip(trello.name.trim(), MAX_TITLE_LENGTH);
+    if (!title) {
+      throw new Error('Board title is required');
+    }
+
+    const connectedIds = await this.boardRepository.findCoMemberIds(userId);
+    const connectedUsers = await this.userRepository.findByIds([userId, ...connectedIds]);
+    const usersByUsername = new Map(connectedUsers.map(user => [user.username, user]));
+
+    const suggestedMembers: TrelloImportReport['suggestedMembers'] = [];
+    const unmappedMembers: TrelloImportReport['unmappedMembers'] = [];
+    const importerIds = new Set<string>();
+    trello.members.forEach(member => {
+      const user = usersByUsername.get(member.username);
+      if (!user) {
+        unmappedMembers.push({ username: member.username, fullName: member.fullName });
+      } else if (user.id === userId) {
+        importerIds.add(member.id);
+      } else if (member.role) {
+        suggestedMembers.push({
+          username: member.username,
+          fullName: member.fullName,
+          userId: user.id,
+          suggestedRole: member.role === 'OWNER' ? 'ADMIN' : member.role,
+        });
+      }
+    });
+    const trelloMembers = new Map<string, TrelloMember>(trello.members.map(member => [member.id, member]));
+
+    // Imports start private, with the importer as owner and only member, like copies
+    const board = Board.create({
+      title,
+      description: trello.description,
+      isPublic: false,
+      isArchived: false,
+      ownerId: userId,
+    });
+
+    const contents: BoardContents = {
+      board,
+      members: [],
+      lists: [],
+      labels: [],
+      cards: [],
+      cardLabels: [],
+      checklists: [],
+      checklistItems: [],
+      comments: [],
+    };
+
+    // Trello allows unnamed and repeated label names; here a name is unique per board
+    const labelIds = new Map<string, string>();
+    const labelsByName = new Map<string, Label>();
+    trello.labels.forEach(trelloLabel => {
+      const color = trelloLabelColor(trelloLabel.color);
+      const fallbackName = (trelloLabel.color ?? 'label').replace(/_/g, ' ');
+      const name = clip(trelloLabel.name.trim() || fallbackName.charAt(0).toUpperCase() + fallbackName.slice(1), MAX_LABEL_NAME_LENGTH);
+      let label = labelsByName.get(name);
+      if (!label) {
+        label = Label.create({ name, color, boardId: board.id });
+        labelsByName.set(name, label);
+        contents.labels.push(label);
+      }
+      labelIds.set(trelloLabel.id, label.id);
+    });
+
+    const openLists = trello.lists.filter(list => !list.closed);
+    const listRanks = spreadRanks(openLists.length);
+    const cardIds = new Map<string, string>();
+    openLists.forEach((trelloList, listIndex) => {
+      const list = List.create({
+        title: clip(trelloList.name.trim() || 'Untitled list', MAX_TITLE_LENGTH),
+        position: listRanks[listIndex]!,
+        boardId: board.id,
+      });
+      contents.lists.push(list);
+
+      const trelloCards = trello.cards.filter(card => card.listId === trelloList.id);
+      const cardRanks = spreadRanks(trelloCards.length);
+      trelloCards.forEach((trelloCard, cardIndex) => {
+        const card = Card.create({
+          title: clip(trelloCard.name.trim() || 'Untitled card', MAX_TITLE_LENGTH),
+          description: trelloCard.description,
+          position: cardRanks[cardIndex]!,
+          dueDate: trelloCard.due,
+          startDate: trelloCard.start,
+          isArchived: trelloCard.closed,
+          listId: list.id,
+          creatorId: userId,
+          // Only members can be assigned, and nobody else has joined yet
+          assigneeIds: trelloCard.memberIds.some(id => importerIds.has(id)) ? [userId] : [],
+        });
+        contents.cards.push(card);
+        cardIds.set(trelloCard.id, card.id);
+
+        new Set(trelloCard.labelIds.map(id => labelIds.get(id)!)).forEach(labelId => {
+          contents.cardLabels.push({ cardId: card.id, labelId });
+        });
+      });
+    });
+
+    const checklistCounts = new Map<string, number>();
+    trello.checklists.forEach(trelloChecklist => {
+      const cardId = cardIds.get(trelloChecklist.cardId);
+      if (!cardId) {
+        return;
+      }
+
+      const position = (checklistCounts.get(cardId) ?? 0) + 1;
+      checklistCounts.set(cardId, position);
+      const checklist = Checklist.create({
+        title: clip(trelloChecklist.name.trim() || 'Checklist', MAX_TITLE_LENGTH),
+        position,
+        cardId,
+      });
+      contents.checklists.push(checklist);
+
+      trelloChecklist.items.forEach((trelloItem, itemIndex) => {
+        const item = ChecklistItem.create({
+          content: clip(trelloItem.name.trim() || 'Untitled item', MAX_ITEM_LENGTH),
+          position: itemIndex + 1,
+          checklistId: checklist.id,
+        });
+        if (trelloItem.complete) {
+          item.complete();
+        }
+        contents.checklistItems.push(item);
+      });
+    });
+
+    trello.comments.forEach(trelloComment => {
+      const cardId = cardIds.get(trelloComment.cardId);
+      if (!cardId) {
+        return;
+      }
+
+      // The importer posts every comment, keeping the Trello author's name
+      const memberId = trelloComment.memberId;
+      const author = memberId ? trelloMembers.get(memberId) : undefined;
+      const content = memberId && importerIds.has(memberId)
+        ? trelloComment.text
+        : `${author?.fullName || author?.username || 'Someone'} on Trello: ${trelloComment.text}`;
+
+      contents.comments.push(Comment.fromPersistence({
+        id: crypto.randomUUID(),
+        content: clip(content, MAX_COMMENT_LENGTH),
+        cardId,
+        userId,
+        createdAt: trelloComment.date,
+        updatedAt: trelloComment.date,
+      }));
+    });
+
+    const report: TrelloImportReport = {
+      boardTitle: title,
+      lists: contents.lists.length,
+      cards: contents.cards.length,
+      archivedCards: contents.cards.filter(card => card.isArchived).length,
+      labels: contents.labels.length,
+      checklists: contents.checklists.length,
+      checklistItems: contents.checklistItems.length,
+      comments: contents.comments.length,
+      skippedLists: trello.lists.filter(list => list.closed).map(list => list.name),
+      suggestedMembers,
+      unmappedMembers,
+    };
+
+    if (dryRun) {
+      return { report };
+    }
+
+    await this.boardRepository.createWithContents(contents);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'CREATE',
+      entityType: 'BOARD',
+      entityId: board.id,
+      entityTitle: board.title,
+      userId,
+      boardId: board.id,
+      data: { importedFrom: 'trello' },
+    });
+    await this.activityRepository.save(activity);
+
+    return { report, board };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { NotificationRepository } from '@kanban/domain-core';
+
+export interface MarkAllNotificationsReadRequest {
+  userId: string;
+}
+
+export interface MarkAllNotificationsReadResponse {
+  updatedCount: number;
+}
+
+export class MarkAllNotificationsReadUseCase {
+  constructor(
+    private notificationRepository: NotificationRepository
+  ) {}
+
+  async execute(request: MarkAllNotificationsReadRequest): Promise<MarkAllNotificationsReadResponse> {
+    const updatedCount = await this.notificationRepository.markAllAsRead(request.userId);
+    return { updatedCount };
+  }
+}
\ No newline at end of file
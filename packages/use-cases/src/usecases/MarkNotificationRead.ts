@@ -0,0 +1,41 @@
+import { Notification } from '@kanban/domain-core';
+import { NotificationRepository } from '@kanban/domain-core';
+
+export interface MarkNotificationReadRequest {
+  notificationId: string;
+  userId: string;
+}
+
+export interface MarkNotificationReadResponse {
+  notification: Notification;
+  unreadCount: number;
+}
+
+export class MarkNotificationReadUseCase {
+  constructor(
+    private notificationRepository: NotificationRepository
+  ) {}
+
+  async execute(request: MarkNotificationReadRequest): Promise<MarkNotificationReadResponse> {
+    const { notificationId, userId } = request;
+
+    const notification = await this.notificationRepository.findById(notificationId);
+    if (!notification) {
+      throw new Error('Notification not found');
+    }
+
+    if (!notification.isFor(userId)) {
+      throw new Error('Access denied');
+    }
+
+    // Reading twice is harmless; the first read time is kept
+    if (!notification.isRead) {
+      notification.markAsRead();
+      await this.notificationRepository.save(notification);
+    }
+
+    const unreadCount = await this.notificationRepository.countUnread(userId);
+
+    return { notification, unreadCount };
+  }
+}
\ No newline at end of file
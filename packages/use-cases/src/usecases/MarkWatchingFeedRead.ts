@@ -0,0 +1,21 @@
+import { WatchRepository } from '@kanban/domain-core';
+
+export interface MarkWatchingFeedReadRequest {
+  userId: string;
+}
+
+export interface MarkWatchingFeedReadResponse {
+  readAt: Date;
+}
+
+export class MarkWatchingFeedReadUseCase {
+  constructor(
+    private watchRepository: WatchRepository
+  ) {}
+
+  async execute(request: MarkWatchingFeedReadRequest): Promise<MarkWatchingFeedReadResponse> {
+    const readAt = new Date();
+    await this.watchRepository.setFeedReadAt(request.userId, readAt);
+    return { readAt };
+  }
+}
\ No newline at end of file
@@ -4,7 +4,19 @@ import { CardRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { NotificationRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
+import { createBoardEvent } from "@kanban/domain-core";
+import { isRankCrowded } from "@kanban/domain-core";
 import { BoardRole } from "@prisma/client";
+import { notifyUsers } from "../shared/Notifications";
+import { checkWipLimit } from "../shared/WipLimits";
+
+export interface MoveCardResponse {
+  card: Card;
+  // The target list has a soft WIP limit that this card goes over
+  overWipLimit: boolean;
+}
 
 export class MoveCard {
   constructor(
@@ -12,7 +24,9 @@ export class MoveCard {
     private userRepository: UserRepository,
     private boardRepository: BoardRepository,
     private listRepository: ListRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher,
+    private notificationRepository: NotificationRepository
   ) {}
 
   async execute(
@@ -20,7 +34,7 @@ export class MoveCard {
     userId: string,
     targetListId: string,
     position: number
-  ): Promise<Card> {
+  ): Promise<MoveCardResponse> {
     // Verify user exists
     const user = await this.userRepository.findById(userId);
     if (!user) {
@@ -71,12 +85,25 @@ export class MoveCard {
 
     // Move the card
     const isMovingToSameList = card.listId === targetListId;
+    const previousListId = card.listId;
     const previousListTitle = sourceList.title;
+    const previousPosition = card.position;
+
+    // Reordering within a list or moving an archived card leaves the open card count alone
+    const overWipLimit = !isMovingToSameList && !card.isArchived
+      ? await checkWipLimit(this.cardRepository, targetList)
+      : false;
     
     card.moveToList(targetListId, position);
 
-    // Save the updated card regardless of whether it's moving within same list or not
-    await this.cardRepository.save(card);
+    // Only the moved card is written; its rank already sits between its new neighbours
+    await this.cardRepository.moveCard(card.id, targetListId, position);
+
+    // Spread the list out again once this gap can no longer be split
+    const neighbours = await this.cardRepository.findNeighbourPositions(targetListId, position, card.id);
+    const rebalanced = isRankCrowded(position, neighbours.before, neighbours.after)
+      ? await this.cardRepository.rebalancePositions(targetListId)
+      : null;
 
     // Get the updated card
     const updatedCard = await this.cardRepository.findById(cardId);
@@ -96,9 +123,43 @@ export class MoveCard {
       entityType: "CARD",
       entityId: card.id,
       entityTitle: card.title,
+      cardId: card.id,
       description: activityDescription,
+      data: {
+        fromListId: previousListId,
+        fromListTitle: previousListTitle,
+        toListId: targetListId,
+        toListTitle: targetList.title,
+        fromPosition: previousPosition,
+        toPosition: position,
+        ...(overWipLimit && { overWipLimit: true }),
+      },
     });
 
-    return updatedCard;
+    if (!isMovingToSameList) {
+      await notifyUsers(this.notificationRepository, userId, [card.creatorId], {
+        type: "CARD_MOVED",
+        message: `moved your card "${card.title}" to ${targetList.title}`,
+        boardId: sourceList.boardId,
+        cardId: card.id,
+      });
+    }
+
+    await this.eventPublisher.publish(
+      createBoardEvent("card.moved", sourceList.boardId, userId, {
+        cardId: card.id,
+        fromListId: previousListId,
+        toListId: targetListId,
+        position: updatedCard.position,
+      })
+    );
+
+    if (rebalanced) {
+      await this.eventPublisher.publish(
+        createBoardEvent("cards.reordered", sourceList.boardId, userId, { listId: targetListId, cards: rebalanced })
+      );
+    }
+
+    return { card: updatedCard, overWipLimit };
   }
 }
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { Activity, BusinessRuleViolationError, Card, CardRecurrence, Checklist, ChecklistItem } from '@kanban/domain-core';
+import { CardRecurrenceRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { LabelRepository } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+import { BoardEventPublisher } from '@kanban/domain-core';
+import { createBoardEvent } from '@kanban/domain-core';
+import { checkWipLimit } from '../shared/WipLimits';
+
+export interface ProcessCardRecurrencesRequest {
+  now?: Date;
+  limit?: number;
+}
+
+export interface ProcessCardRecurrencesResponse {
+  created: number;
+  // Runs that fired for an archived card or board, whose card is gone, whose
+  // list is full under a strict WIP limit, or whose copy failed
+  skipped: number;
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * Copies every recurring card whose rule has fired, with its labels and
+ * checklists, to the end of the target list, then moves the template's dates
+ * forward by as much as the rule moved. Each copy is written in one
+ * transaction, and one that fails is skipped without stopping the others.
+ * Run periodically by the recurrence job.
+ */
+export class ProcessCardRecurrencesUseCase {
+  constructor(
+    private cardRecurrenceRepository: CardRecurrenceRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private labelRepository: LabelRepository,
+    private checklistRepository: ChecklistRepository,
+    private checklistItemRepository: ChecklistItemRepository,
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher
+  ) {}
+
+  async execute(request: ProcessCardRecurrencesRequest = {}): Promise<ProcessCardRecurrencesResponse> {
+    const now = request.now ?? new Date();
+    const recurrences = await this.cardRecurrenceRepository.findDue(now, request.limit ?? DEFAULT_BATCH_SIZE);
+
+    let created = 0;
+    let skipped = 0;
+
+    for (const recurrence of recurrences) {
+      const runAt = recurrence.nextRunAt;
+      recurrence.advance(now);
+
+      // Schedule the next run before copying, so a run is never repeated
+      if (!await this.cardRecurrenceRepository.claimRun(recurrence, runAt)) {
+        continue;
+      }
+
+      let copied = false;
+      try {
+        copied = await this.copyCard(recurrence, runAt);
+      } catch {
+        // The next run tries again
+      }
+
+      if (copied) {
+        created++;
+      } else {
+        skipped++;
+      }
+    }
+
+    return { created, skipped };
+  }
+
+  private async copyCard(recurrence: CardRecurrence, runAt: Date): Promise<boolean> {
+    const template = await this.cardRepository.findById(recurrence.cardId);
+    if (!template || template.isArchived) {
+      return false;
+    }
+
+    const templateList = await this.listRepository.findById(template.listId);
+    const board = templateList && await this.boardRepository.findById(templateList.boardId);
+    if (!templateList || !board || board.isArchived) {
+      return false;
+    }
+
+    // A target list that has since moved away falls back to the template's list
+    const targetList = recurrence.targetListId && recurrence.targetListId !== templateList.id
+      ? await this.listRepository.findById(recurrence.targetListId)
+      : templateList;
+    const list = targetList && targetList.boardId === board.id ? targetList : templateList;
+
+    // A full strict list skips this copy; the next run tries again
+    try {
+      await checkWipLimit(this.cardRepository, list);
+    } catch (error) {
+      if (error instanceof BusinessRuleViolationError) {
+        return false;
+      }
+      throw error;
+    }
+
+    const card = Card.create({
+      title: template.title,
+      description: template.description,
+      position: await this.cardRepository.getNextPosition(list.id),
+      dueDate: template.dueDate,
+      startDate: template.startDate,
+      isArchived: false,
+      listId: list.id,
+      creatorId: template.creatorId,
+    });
+
+    const labels = await this.labelRepository.getCardLabels(template.id);
+    const checklists = await this.checklistRepository.findByCard(template.id);
+    const items = checklists.length > 0
+      ? await this.checklistItemRepository.findByChecklists(checklists.map(checklist => checklist.id))
+      : [];
+
+    const checklistCopies: Checklist[] = [];
+    const itemCopies: ChecklistItem[] = [];
+    for (const checklist of checklists) {
+      const copy = Checklist.create({ title: checklist.title, position: checklist.position, cardId: card.id });
+      checklistCopies.push(copy);
+
+      // Items start unchecked on every copy
+      for (const item of items.filter(item => item.belongsToChecklist(checklist.id))) {
+        itemCopies.push(ChecklistItem.create({
+          content: item.content,
+          position: item.position,
+          checklistId: copy.id,
+        }));
+      }
+    }
+
+    // A copy is written whole or not at all
+    await this.cardRepository.createWithContents({
+      cards: [card],
+      cardLabels: labels.map(label => ({ cardId: card.id, labelId: label.id })),
+      checklists: checklistCopies,
+      checklistItems: itemCopies,
+    });
+
+    await this.activityRepository.save(Activity.create({
+      action: 'CREATE',
+      entityType: 'CARD',
+      entityId: card.id,
+      entityTitle: card.title,
+      userId: template.creatorId,
+      boardId: board.id,
+      cardId: card.id,
+      data: { recurringCardId: template.id },
+    }));
+
+    await this.eventPublisher.publish(
+      createBoardEvent('card.created', board.id, template.creatorId, { card: card.toJSON() })
+    );
+
+    // The next copy starts and is due as much later as the next run is
+    if (template.dueDate || template.startDate) {
+      const shift = recurrence.nextRunAt.getTime() - runAt.getTime();
+      if (template.dueDate) {
+        template.updateDueDate(new Date(template.dueDate.getTime() + shift));
+      }
+      if (template.startDate) {
+        template.updateStartDate(new Date(template.startDate.getTime() + shift));
+      }
+      await this.cardRepository.save(template);
+
+      await this.eventPublisher.publish(
+        createBoardEvent('card.updated', board.id, template.creatorId, { card: template.toJSON() })
+      );
+    }
+
+    return true;
+  }
+}
\ No newline at end of file
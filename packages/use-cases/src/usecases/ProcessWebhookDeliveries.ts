@@ -0,0 +1,61 @@
+import { WebhookDeliveryRepository } from '@kanban/domain-core';
+import { WebhookRepository } from '@kanban/domain-core';
+import { WebhookSender } from '@kanban/domain-core';
+
+export interface ProcessWebhookDeliveriesRequest {
+  now?: Date;
+  limit?: number;
+}
+
+export interface ProcessWebhookDeliveriesResponse {
+  attempted: number;
+  succeeded: number;
+}
+
+const DEFAULT_BATCH_SIZE = 20;
+
+/**
+ * Sends every delivery that is due, recording each attempt. Run
+ * periodically by the delivery worker; deliveries are attempted one at a
+ * time so a batch never floods a single receiver.
+ */
+export class ProcessWebhookDeliveriesUseCase {
+  constructor(
+    private webhookDeliveryRepository: WebhookDeliveryRepository,
+    private webhookRepository: WebhookRepository,
+    private webhookSender: WebhookSender
+  ) {}
+
+  async execute(request: ProcessWebhookDeliveriesRequest = {}): Promise<ProcessWebhookDeliveriesResponse> {
+    const now = request.now ?? new Date();
+    const deliveries = await this.webhookDeliveryRepository.findDue(now, request.limit ?? DEFAULT_BATCH_SIZE);
+
+    let attempted = 0;
+    let succeeded = 0;
+
+    for (const delivery of deliveries) {
+      const webhook = await this.webhookRepository.findById(delivery.webhookId);
+      if (!webhook || !webhook.isActive) {
+        continue;
+      }
+
+      const result = await this.webhookSender.send({
+        url: webhook.url,
+        secret: webhook.secret,
+        deliveryId: delivery.id,
+        event: delivery.event,
+        payload: delivery.payload,
+      });
+
+      delivery.recordAttempt(result);
+      await this.webhookDeliveryRepository.save(delivery);
+
+      attempted++;
+      if (delivery.status === 'SUCCEEDED') {
+        succeeded++;
+      }
+    }
+
+    return { attempted, succeeded };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,46 @@
+import { WebhookDelivery } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { WebhookDeliveryRepository } from '@kanban/domain-core';
+import { WebhookRepository } from '@kanban/domain-core';
+import { findManagedWebhook } from '../shared/Webhooks';
+
+export interface RedeliverWebhookDeliveryRequest {
+  userId: string;
+  deliveryId: string;
+}
+
+export interface RedeliverWebhookDeliveryResponse {
+  delivery: WebhookDelivery;
+}
+
+export class RedeliverWebhookDeliveryUseCase {
+  constructor(
+    private webhookDeliveryRepository: WebhookDeliveryRepository,
+    private webhookRepository: WebhookRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: RedeliverWebhookDeliveryRequest): Promise<RedeliverWebhookDeliveryResponse> {
+    const { userId, deliveryId } = request;
+
+    const original = await this.webhookDeliveryRepository.findById(deliveryId);
+    if (!original) {
+      throw new Error('Webhook delivery not found');
+    }
+
+    const webhook = await findManagedWebhook(original.webhookId, userId, {
+      webhookRepository: this.webhookRepository,
+      boardRepository: this.boardRepository,
+    });
+    if (!webhook.isActive) {
+      throw new Error('Cannot redeliver to an inactive webhook');
+    }
+
+    // Queued for the delivery worker rather than sent inline, so a slow
+    // receiver never holds up the request
+    const delivery = original.redeliver();
+    await this.webhookDeliveryRepository.save(delivery);
+
+    return { delivery };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { UserRepository } from '@kanban/domain-core';
+
+export interface RegenerateCalendarTokenRequest {
+  userId: string;
+}
+
+export interface RegenerateCalendarTokenResponse {
+  calendarToken: string;
+}
+
+/**
+ * Turns the user's calendar feeds on, or gives them new URLs when they
+ * already were; the old URLs stop working.
+ */
+export class RegenerateCalendarTokenUseCase {
+  constructor(private userRepository: UserRepository) {}
+
+  async execute(request: RegenerateCalendarTokenRequest): Promise<RegenerateCalendarTokenResponse> {
+    const user = await this.userRepository.findById(request.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (!user.isActive) {
+      throw new Error('Cannot update profile for inactive user');
+    }
+
+    const calendarToken = user.regenerateCalendarToken();
+    await this.userRepository.save(user);
+
+    return { calendarToken };
+  }
+}
\ No newline at end of file
@@ -3,6 +3,9 @@ import { CardRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
+import { createBoardEvent } from "@kanban/domain-core";
+import { isRankCrowded } from "@kanban/domain-core";
 import { BoardRole } from "@prisma/client";
 
 export class ReorderCards {
@@ -11,7 +14,8 @@ export class ReorderCards {
     private userRepository: UserRepository,
     private boardRepository: BoardRepository,
     private listRepository: ListRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher
   ) {}
 
   async execute(
@@ -64,8 +68,15 @@ export class ReorderCards {
     }
 
     // Update the card position
+    const previousPosition = card.position;
     card.updatePosition(newPosition);
-    await this.cardRepository.save(card);
+    await this.cardRepository.moveCard(cardId, listId, newPosition);
+
+    // Spread the list out again once this gap can no longer be split
+    const neighbours = await this.cardRepository.findNeighbourPositions(listId, newPosition, cardId);
+    const rebalanced = isRankCrowded(newPosition, neighbours.before, neighbours.after)
+      ? await this.cardRepository.rebalancePositions(listId)
+      : null;
 
     // Log activity
     await this.activityRepository.create({
@@ -75,7 +86,31 @@ export class ReorderCards {
       entityType: "CARD",
       entityId: cardId,
       entityTitle: card.title,
+      cardId,
       description: `reordered cards in ${list.title}`,
+      data: {
+        fromListId: list.id,
+        fromListTitle: list.title,
+        toListId: list.id,
+        toListTitle: list.title,
+        fromPosition: previousPosition,
+        toPosition: newPosition,
+      },
     });
+
+    await this.eventPublisher.publish(
+      createBoardEvent("card.moved", list.boardId, userId, {
+        cardId,
+        fromListId: list.id,
+        toListId: list.id,
+        position: rebalanced?.find(item => item.id === cardId)?.position ?? newPosition,
+      })
+    );
+
+    if (rebalanced) {
+      await this.eventPublisher.publish(
+        createBoardEvent("cards.reordered", list.boardId, userId, { listId, cards: rebalanced })
+      );
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+
+export interface ReorderChecklistItemsRequest {
+  cardId: string;
+  checklistId: string;
+  itemPositions: { id: string; position: number }[];
+  userId: string;
+}
+
+export class ReorderChecklistItemsUseCase {
+  constructor(
+    private checklistItemRepository: ChecklistItemRepository,
+    private checklistRepository: ChecklistRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: ReorderChecklistItemsRequest): Promise<void> {
+    const { cardId, checklistId, itemPositions, userId } = request;
+
+    // Find checklist
+    const checklist = await this.checklistRepository.findById(checklistId);
+    if (!checklist || !checklist.belongsToCard(cardId)) {
+      throw new Error('Checklist not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(checklist.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can reorder items
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Validate the request lists every item of the checklist exactly once, so no
+    // new position can collide with an item that was left where it was
+    const items = await this.checklistItemRepository.findByChecklist(checklistId);
+    const itemIds = new Set(items.map(item => item.id));
+    const listedIds = new Set<string>();
+    for (const { id } of itemPositions) {
+      if (!itemIds.has(id)) {
+        throw new Error(`Checklist item ${id} does not belong to checklist ${checklistId}`);
+      }
+      if (listedIds.has(id)) {
+        throw new Error(`Checklist item ${id} is listed more than once`);
+      }
+      listedIds.add(id);
+    }
+    if (listedIds.size !== itemIds.size) {
+      throw new Error('Every item of the checklist must be listed');
+    }
+
+    // Validate positions are unique
+    const positions = itemPositions.map(ip => ip.position).sort((a, b) => a - b);
+    for (let i = 1; i < positions.length; i++) {
+      if (positions[i] === positions[i - 1]) {
+        throw new Error('Duplicate positions are not allowed');
+      }
+    }
+
+    // Reorder items
+    await this.checklistItemRepository.reorderItems(checklistId, itemPositions);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { ChecklistRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+
+export interface ReorderChecklistsRequest {
+  cardId: string;
+  checklistPositions: { id: string; position: number }[];
+  userId: string;
+}
+
+export class ReorderChecklistsUseCase {
+  constructor(
+    private checklistRepository: ChecklistRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: ReorderChecklistsRequest): Promise<void> {
+    const { cardId, checklistPositions, userId } = request;
+
+    // Find card
+    const card = await this.cardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can reorder checklists
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Validate the request lists every checklist of the card exactly once, so no
+    // new position can collide with a checklist that was left where it was
+    const checklists = await this.checklistRepository.findByCard(cardId);
+    const checklistIds = new Set(checklists.map(checklist => checklist.id));
+    const listedIds = new Set<string>();
+    for (const { id } of checklistPositions) {
+      if (!checklistIds.has(id)) {
+        throw new Error(`Checklist ${id} does not belong to card ${cardId}`);
+      }
+      if (listedIds.has(id)) {
+        throw new Error(`Checklist ${id} is listed more than once`);
+      }
+      listedIds.add(id);
+    }
+    if (listedIds.size !== checklistIds.size) {
+      throw new Error('Every checklist of the card must be listed');
+    }
+
+    // Validate positions are unique
+    const positions = checklistPositions.map(cp => cp.position).sort((a, b) => a - b);
+    for (let i = 1; i < positions.length; i++) {
+      if (positions[i] === positions[i - 1]) {
+        throw new Error('Duplicate positions are not allowed');
+      }
+    }
+
+    // Reorder checklists
+    await this.checklistRepository.reorderChecklists(cardId, checklistPositions);
+  }
+}
\ No newline at end of file
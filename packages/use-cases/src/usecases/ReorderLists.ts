@@ -2,6 +2,9 @@ import { Activity } from '@kanban/domain-core';
 import { ListRepository } from '@kanban/domain-core';
 import { BoardRepository } from '@kanban/domain-core';
 import { ActivityRepository } from '@kanban/domain-core';
+import { BoardEventPublisher } from '@kanban/domain-core';
+import { createBoardEvent } from '@kanban/domain-core';
+import { isRankCrowded } from '@kanban/domain-core';
 
 export interface ReorderListsRequest {
   boardId: string;
@@ -13,7 +16,8 @@ export class ReorderListsUseCase {
   constructor(
     private listRepository: ListRepository,
     private boardRepository: BoardRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher
   ) {}
 
   async execute(request: ReorderListsRequest): Promise<void> {
@@ -47,9 +51,18 @@ export class ReorderListsUseCase {
       }
     }
 
-    // Reorder lists
+    // Reorder lists; only the lists sent are written
     await this.listRepository.reorderLists(boardId, listPositions);
 
+    // Spread the board out again once any gap can no longer be split
+    const lists = await this.listRepository.findByBoard(boardId, { orderBy: 'position', order: 'asc' });
+    const crowded = lists.some((list, index) =>
+      isRankCrowded(list.position, lists[index - 1]?.position, lists[index + 1]?.position)
+    );
+    const ranks = crowded
+      ? await this.listRepository.rebalancePositions(boardId)
+      : lists.map(({ id, position }) => ({ id, position }));
+
     // Log activity
     const activity = Activity.create({
       action: 'MOVE',
@@ -61,5 +74,9 @@ export class ReorderListsUseCase {
       data: { listCount: listPositions.length },
     });
     await this.activityRepository.save(activity);
+
+    await this.eventPublisher.publish(
+      createBoardEvent('lists.reordered', boardId, userId, { lists: ranks })
+    );
   }
 }
\ No newline at end of file
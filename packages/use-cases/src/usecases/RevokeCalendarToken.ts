@@ -0,0 +1,23 @@
+import { UserRepository } from '@kanban/domain-core';
+
+export interface RevokeCalendarTokenRequest {
+  userId: string;
+}
+
+/**
+ * Turns the user's calendar feeds off; every feed URL they handed out stops
+ * working.
+ */
+export class RevokeCalendarTokenUseCase {
+  constructor(private userRepository: UserRepository) {}
+
+  async execute(request: RevokeCalendarTokenRequest): Promise<void> {
+    const user = await this.userRepository.findById(request.userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    user.revokeCalendarToken();
+    await this.userRepository.save(user);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,77 @@
+import { BoardTemplate } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { BoardTemplateRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { LabelRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { captureBoardBlueprint } from '../shared/BoardBlueprint';
+
+export interface SaveBoardAsTemplateRequest {
+  boardId: string;
+  userId: string;
+  name?: string;
+  description?: string;
+  includeCards?: boolean;
+}
+
+export interface SaveBoardAsTemplateResponse {
+  template: BoardTemplate;
+}
+
+export class SaveBoardAsTemplateUseCase {
+  constructor(
+    private boardRepository: BoardRepository,
+    private boardTemplateRepository: BoardTemplateRepository,
+    private listRepository: ListRepository,
+    private labelRepository: LabelRepository,
+    private cardRepository: CardRepository,
+    private checklistRepository: ChecklistRepository,
+    private checklistItemRepository: ChecklistItemRepository
+  ) {}
+
+  async execute(request: SaveBoardAsTemplateRequest): Promise<SaveBoardAsTemplateResponse> {
+    const { boardId, userId, includeCards = false } = request;
+
+    const board = await this.boardRepository.findById(boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    const userRole = await this.boardRepository.getMemberRole(boardId, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    const name = request.name !== undefined ? request.name.trim() : board.title;
+    if (!name) {
+      throw new Error('Template name is required');
+    }
+
+    if (name.length > 255) {
+      throw new Error('Template name is too long');
+    }
+
+    // The template is a snapshot; later changes to the board don't reach it
+    const blueprint = await captureBoardBlueprint(boardId, {
+      listRepository: this.listRepository,
+      labelRepository: this.labelRepository,
+      cardRepository: this.cardRepository,
+      checklistRepository: this.checklistRepository,
+      checklistItemRepository: this.checklistItemRepository,
+    }, { includeCards });
+
+    const template = BoardTemplate.create({
+      name,
+      description: request.description?.trim() || board.description,
+      ownerId: userId,
+      sourceBoardId: board.id,
+      blueprint,
+    });
+
+    await this.boardTemplateRepository.save(template);
+
+    return { template };
+  }
+}
\ No newline at end of file
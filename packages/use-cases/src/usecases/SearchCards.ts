@@ -0,0 +1,96 @@
+import { BoardRepository } from '@kanban/domain-core';
+import { CardSearchHit, SearchRepository } from '@kanban/domain-core';
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+export interface SearchCardsRequest {
+  userId: string;
+  query: string;
+  boardId?: string;
+  listId?: string;
+  labelId?: string;
+  assigneeId?: string;
+  dueFrom?: Date;
+  dueTo?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchCardsResponse {
+  results: CardSearchHit[];
+  hasMore: boolean;
+}
+
+export class SearchCardsUseCase {
+  constructor(
+    private boardRepository: BoardRepository,
+    private searchRepository: SearchRepository
+  ) {}
+
+  async execute(request: SearchCardsRequest): Promise<SearchCardsResponse> {
+    const { userId, boardId, listId, labelId, assigneeId, dueFrom, dueTo, offset } = request;
+
+    const query = request.query.trim();
+    if (!query) {
+      throw new Error('Search query is required');
+    }
+
+    if (dueFrom && dueTo && dueFrom > dueTo) {
+      throw new Error('Due date range is invalid');
+    }
+
+    const boardIds = boardId
+      ? await this.resolveBoard(boardId, userId)
+      : await this.resolveUserBoards(userId);
+
+    if (boardIds.length === 0) {
+      return { results: [], hasMore: false };
+    }
+
+    // Fetch one extra hit to know whether another page exists
+    const pageSize = !request.limit || request.limit < 1
+      ? DEFAULT_SEARCH_PAGE_SIZE
+      : Math.min(request.limit, MAX_SEARCH_PAGE_SIZE);
+
+    const hits = await this.searchRepository.searchCards(query, {
+      boardIds,
+      listId,
+      labelId,
+      assigneeId,
+      dueDate: dueFrom || dueTo ? { from: dueFrom, to: dueTo } : undefined,
+    }, {
+      limit: pageSize + 1,
+      offset,
+    });
+
+    return {
+      results: hits.slice(0, pageSize),
+      hasMore: hits.length > pageSize,
+    };
+  }
+
+  // Narrowing to one board also covers public boards the user is not a member of
+  private async resolveBoard(boardId: string, userId: string): Promise<string[]> {
+    const board = await this.boardRepository.findById(boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    const userRole = await this.boardRepository.getMemberRole(boardId, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    return [board.id];
+  }
+
+  private async resolveUserBoards(userId: string): Promise<string[]> {
+    const [ownedBoards, memberBoards] = await Promise.all([
+      this.boardRepository.findByOwner(userId),
+      this.boardRepository.findByMember(userId),
+    ]);
+
+    return [...new Set([...ownedBoards, ...memberBoards].map(board => board.id))];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { Board, Card, DueDateReminder, DueDateReminderKind, List, MailMessage, User } from '@kanban/domain-core';
+import { MAX_REMINDER_LEAD_MINUTES } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { DueDateReminderRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { Mailer } from '@kanban/domain-core';
+import { UserRepository } from '@kanban/domain-core';
+
+export interface SendDueDateRemindersRequest {
+  now?: Date;
+}
+
+export interface SendDueDateRemindersResponse {
+  sent: number;
+  // Left unrecorded so the next run tries them again
+  failed: number;
+}
+
+export interface DueDateReminderOptions {
+  // Frontend base URL used for card links
+  appUrl: string;
+}
+
+const MINUTE_MS = 60_000;
+
+// Overdue reminders only go out for cards that passed their due date this
+// recently, so the first run does not email every card that was ever late
+const OVERDUE_WINDOW_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Emails each assignee who can still view the board once when a card comes
+ * within their reminder lead time and once more when it becomes overdue.
+ * Run periodically by the reminder scheduler.
+ */
+export class SendDueDateRemindersUseCase {
+  constructor(
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private userRepository: UserRepository,
+    private dueDateReminderRepository: DueDateReminderRepository,
+    private mailer: Mailer,
+    private options: DueDateReminderOptions
+  ) {}
+
+  async execute(request: SendDueDateRemindersRequest = {}): Promise<SendDueDateRemindersResponse> {
+    const now = request.now ?? new Date();
+
+    const [dueSoonCards, overdueCards] = await Promise.all([
+      this.cardRepository.findCardsDueBetween(now, new Date(now.getTime() + MAX_REMINDER_LEAD_MINUTES * MINUTE_MS)),
+      this.cardRepository.findOverdueCards({ dueAfter: new Date(now.getTime() - OVERDUE_WINDOW_MS) }),
+    ]);
+    const candidates = [
+      ...dueSoonCards.map(card => ({ card, kind: 'DUE_SOON' as const })),
+      ...overdueCards.map(card => ({ card, kind: 'OVERDUE' as const })),
+    ];
+
+    const users = await this.userRepository.findByIds([
+      ...new Set(candidates.flatMap(({ card }) => card.assigneeIds)),
+    ]);
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    const lists = new Map<string, List | null>();
+    const boards = new Map<string, Board | null>();
+    let sent = 0;
+    let failed = 0;
+
+    for (const { card, kind } of candidates) {
+      const recipients = card.assigneeIds
+        .map(id => usersById.get(id))
+        .filter((user): user is User => user !== undefined && this.wantsReminder(user, card, kind, now));
+      if (recipients.length === 0) {
+        continue;
+      }
+
+      const list = await this.findCached(lists, card.listId, id => this.listRepository.findById(id));
+      const board = list ? await this.findCached(boards, list.boardId, id => this.boardRepository.findById(id)) : null;
+      if (!list || !board || board.isArchived) {
+        continue;
+      }
+
+      for (const user of recipients) {
+        // People keep their assignments after leaving a board; they get no reminders for it
+        const userRole = await this.boardRepository.getMemberRole(board.id, user.id);
+        if (!board.canBeViewedBy(user.id, userRole || undefined)) {
+          continue;
+        }
+
+        const reminder = DueDateReminder.create({ kind, cardId: card.id, userId: user.id, dueDate: card.dueDate! });
+        if (!await this.dueDateReminderRepository.claim(reminder)) {
+          continue;
+        }
+
+        try {
+          await this.mailer.send(this.composeMessage(user, card, list, board, kind));
+          sent++;
+        } catch {
+          await this.dueDateReminderRepository.release(reminder.id);
+          failed++;
+        }
+      }
+    }
+
+    return { sent, failed };
+  }
+
+  private wantsReminder(user: User, card: Card, kind: DueDateReminderKind, now: Date): boolean {
+    if (!user.isActive || user.reminderLeadMinutes === undefined) {
+      return false;
+    }
+    if (kind === 'OVERDUE') {
+      return true;
+    }
+    return card.dueDate!.getTime() - now.getTime() <= user.reminderLeadMinutes * MINUTE_MS;
+  }
+
+  private async findCached<T>(cache: Map<string, T | null>, id: string, load: (id: string) => Promise<T | null>): Promise<T | null> {
+    if (!cache.has(id)) {
+      cache.set(id, await load(id));
+    }
+    return cache.get(id) ?? null;
+  }
+
+  private composeMessage(user: User, card: Card, list: List, board: Board, kind: DueDateReminderKind): MailMessage {
+    const dueDate = card.dueDate!.toUTCString();
+    const cardUrl = `${this.options.appUrl}/board/${board.id}?card=${encodeURIComponent(card.id)}`;
+
+    return {
+      to: user.email,
+      subject: kind === 'OVERDUE'
+        ? `Overdue: "${card.title}"`
+        : `Reminder: "${card.title}" is due soon`,
+      text: [
+        `Hi ${user.name || user.username},`,
+        '',
+        kind === 'OVERDUE'
+          ? `"${card.title}" in ${list.title} on ${board.title} was due ${dueDate}.`
+          : `"${card.title}" in ${list.title} on ${board.title} is due ${dueDate}.`,
+        '',
+        `Open the card: ${cardUrl}`,
+        '',
+        'You are receiving this because you are assigned to the card. You can change or turn off reminders on your profile page.',
+      ].join('\n'),
+    };
+  }
+}
\ No newline at end of file
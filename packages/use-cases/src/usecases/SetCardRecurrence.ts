@@ -0,0 +1,65 @@
+import { CardRecurrence, RecurrenceRule } from '@kanban/domain-core';
+import { CardRecurrenceRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { findRecurringCard } from '../shared/Recurrences';
+
+export interface SetCardRecurrenceRequest {
+  cardId: string;
+  userId: string;
+  rule: RecurrenceRule;
+  // List on the same board that copies go to; defaults to the card's own list
+  targetListId?: string;
+}
+
+export interface SetCardRecurrenceResponse {
+  recurrence: CardRecurrence;
+}
+
+/**
+ * Makes a card recurring, or replaces the rule of one that already is.
+ */
+export class SetCardRecurrenceUseCase {
+  constructor(
+    private cardRecurrenceRepository: CardRecurrenceRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: SetCardRecurrenceRequest): Promise<SetCardRecurrenceResponse> {
+    const { cardId, userId, rule, targetListId } = request;
+
+    const { card, board } = await findRecurringCard(cardId, userId, 'edit', {
+      cardRepository: this.cardRepository,
+      listRepository: this.listRepository,
+      boardRepository: this.boardRepository,
+    });
+
+    if (card.isArchived) {
+      throw new Error('Cannot repeat an archived card');
+    }
+
+    // Validate target list
+    if (targetListId && targetListId !== card.listId) {
+      const targetList = await this.listRepository.findById(targetListId);
+      if (!targetList) {
+        throw new Error('List not found');
+      }
+      if (targetList.boardId !== board.id) {
+        throw new Error('Target list must be on the same board');
+      }
+    }
+
+    const existing = await this.cardRecurrenceRepository.findByCard(card.id);
+    const recurrence = existing ?? CardRecurrence.create({ cardId: card.id, rule, targetListId });
+    if (existing) {
+      existing.update({ rule, targetListId });
+    }
+
+    await this.cardRecurrenceRepository.save(recurrence);
+
+    return { recurrence };
+  }
+}
\ No newline at end of file
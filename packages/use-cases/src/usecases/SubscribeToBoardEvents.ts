@@ -0,0 +1,40 @@
+import { BoardRepository } from '@kanban/domain-core';
+import { BoardEventSubscriber } from '@kanban/domain-core';
+import { BoardEventListener } from '@kanban/domain-core';
+
+export interface SubscribeToBoardEventsRequest {
+  boardId: string;
+  userId: string;
+  listener: BoardEventListener;
+}
+
+export interface SubscribeToBoardEventsResponse {
+  unsubscribe: () => void;
+}
+
+export class SubscribeToBoardEventsUseCase {
+  constructor(
+    private boardRepository: BoardRepository,
+    private boardEventSubscriber: BoardEventSubscriber
+  ) {}
+
+  async execute(request: SubscribeToBoardEventsRequest): Promise<SubscribeToBoardEventsResponse> {
+    const { boardId, userId, listener } = request;
+
+    // Find board
+    const board = await this.boardRepository.findById(boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Anyone who can view the board may follow its changes
+    const userRole = await this.boardRepository.getMemberRole(boardId, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    const unsubscribe = this.boardEventSubscriber.subscribe(boardId, listener);
+
+    return { unsubscribe };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { ChecklistItem } from '@kanban/domain-core';
+import { Activity } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+
+export interface ToggleChecklistItemRequest {
+  cardId: string;
+  checklistId: string;
+  itemId: string;
+  userId: string;
+  // Explicit target state; flips the current state when omitted
+  isCompleted?: boolean;
+}
+
+export interface ToggleChecklistItemResponse {
+  item: ChecklistItem;
+}
+
+export class ToggleChecklistItemUseCase {
+  constructor(
+    private checklistItemRepository: ChecklistItemRepository,
+    private checklistRepository: ChecklistRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private activityRepository: ActivityRepository
+  ) {}
+
+  async execute(request: ToggleChecklistItemRequest): Promise<ToggleChecklistItemResponse> {
+    const { cardId, checklistId, itemId, userId, isCompleted } = request;
+
+    // Find item
+    const item = await this.checklistItemRepository.findById(itemId);
+    if (!item || !item.belongsToChecklist(checklistId)) {
+      throw new Error('Checklist item not found');
+    }
+
+    // Find checklist
+    const checklist = await this.checklistRepository.findById(checklistId);
+    if (!checklist || !checklist.belongsToCard(cardId)) {
+      throw new Error('Checklist not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(checklist.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can complete items
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    const targetState = isCompleted ?? !item.isCompleted;
+    if (targetState === item.isCompleted) {
+      return { item };
+    }
+
+    // Update item
+    if (targetState) {
+      item.complete();
+    } else {
+      item.uncomplete();
+    }
+    await this.checklistItemRepository.save(item);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'UPDATE',
+      entityType: 'CHECKLIST',
+      entityId: checklist.id,
+      entityTitle: checklist.title,
+      userId,
+      boardId: board.id,
+      cardId: card.id,
+      data: {
+        isCompleted: {
+          from: !item.isCompleted,
+          to: item.isCompleted,
+          subjectId: item.id,
+          subjectTitle: item.content,
+        },
+      },
+    });
+    await this.activityRepository.save(activity);
+
+    return { item };
+  }
+}
\ No newline at end of file
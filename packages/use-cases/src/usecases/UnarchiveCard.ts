@@ -4,7 +4,10 @@ import { CardRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
+import { createBoardEvent } from "@kanban/domain-core";
 import { BoardRole } from "@prisma/client";
+import { checkWipLimit } from "../shared/WipLimits";
 
 export class UnarchiveCard {
   constructor(
@@ -12,7 +15,8 @@ export class UnarchiveCard {
     private userRepository: UserRepository,
     private boardRepository: BoardRepository,
     private listRepository: ListRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher
   ) {}
 
   async execute(cardId: string, userId: string): Promise<Card> {
@@ -58,6 +62,9 @@ export class UnarchiveCard {
       throw new Error("You don't have permission to unarchive this card");
     }
 
+    // The card counts towards its list's WIP limit again
+    await checkWipLimit(this.cardRepository, list);
+
     // Unarchive the card
     card.unarchive();
     
@@ -71,9 +78,14 @@ export class UnarchiveCard {
       entityType: "CARD",
       entityId: card.id,
       entityTitle: card.title,
+      cardId: card.id,
       description: `unarchived card "${card.title}"`,
     });
 
+    await this.eventPublisher.publish(
+      createBoardEvent("card.unarchived", list.boardId, userId, { card: card.toJSON() })
+    );
+
     return card;
   }
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { WatchTarget } from '@kanban/domain-core';
+import { WatchRepository } from '@kanban/domain-core';
+
+export interface UnwatchRequest {
+  userId: string;
+  target: WatchTarget;
+}
+
+export interface UnwatchResponse {
+  watching: boolean;
+}
+
+/**
+ * Stops watching a card, list or board. No access check, so users who have
+ * lost access to a board can still clean up, and unwatching twice is harmless.
+ */
+export class UnwatchUseCase {
+  constructor(
+    private watchRepository: WatchRepository
+  ) {}
+
+  async execute(request: UnwatchRequest): Promise<UnwatchResponse> {
+    const { userId, target } = request;
+
+    await this.watchRepository.unwatch(userId, target);
+
+    return { watching: false };
+  }
+}
\ No newline at end of file
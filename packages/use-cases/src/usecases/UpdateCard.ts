@@ -1,10 +1,17 @@
 import { Card } from "@kanban/domain-core";
+import { User } from "@kanban/domain-core";
 import { UserRepository } from "@kanban/domain-core";
 import { CardRepository } from "@kanban/domain-core";
 import { BoardRepository } from "@kanban/domain-core";
 import { ListRepository } from "@kanban/domain-core";
 import { ActivityRepository } from "@kanban/domain-core";
+import { NotificationRepository } from "@kanban/domain-core";
+import { WatchRepository } from "@kanban/domain-core";
+import { BoardEventPublisher } from "@kanban/domain-core";
+import { createBoardEvent } from "@kanban/domain-core";
+import { UpdateActivityData } from "@kanban/domain-core";
 import { BoardRole } from "@prisma/client";
+import { notifyUsers } from "../shared/Notifications";
 
 interface UpdateCardData {
   title?: string;
@@ -12,7 +19,8 @@ interface UpdateCardData {
   position?: number;
   dueDate?: Date | null;
   startDate?: Date | null;
-  assignedToId?: string | null;
+  // Replaces the whole set; people not listed are unassigned
+  assigneeIds?: string[];
   archived?: boolean;
 }
 
@@ -22,7 +30,10 @@ export class UpdateCard {
     private userRepository: UserRepository,
     private boardRepository: BoardRepository,
     private listRepository: ListRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher,
+    private notificationRepository: NotificationRepository,
+    private watchRepository: WatchRepository
   ) {}
 
   async execute(
@@ -70,15 +81,18 @@ export class UpdateCard {
 
     // Track changes for activity log
     const changes: string[] = [];
+    const fieldChanges: UpdateActivityData = {};
 
     // Update card properties using entity methods
     if (data.title !== undefined && data.title !== card.title) {
       changes.push(`changed title from "${card.title}" to "${data.title}"`);
+      fieldChanges.title = { from: card.title, to: data.title };
       card.updateTitle(data.title);
     }
 
     if (data.description !== undefined && data.description !== card.description) {
       changes.push("updated description");
+      fieldChanges.description = { from: card.description ?? null, to: data.description };
       card.updateDescription(data.description);
     }
 
@@ -86,44 +100,66 @@ export class UpdateCard {
       card.updatePosition(data.position);
     }
 
+    // Dates are compared by value, so sending the current date again changes nothing
     if (data.dueDate !== undefined) {
-      if (data.dueDate !== card.dueDate) {
+      if (data.dueDate?.getTime() !== card.dueDate?.getTime()) {
         changes.push(
           data.dueDate
             ? `set due date to ${data.dueDate.toLocaleDateString()}`
             : "removed due date"
         );
+        fieldChanges.dueDate = {
+          from: card.dueDate?.toISOString() ?? null,
+          to: data.dueDate?.toISOString() ?? null,
+        };
         card.updateDueDate(data.dueDate || undefined);
       }
     }
 
     if (data.startDate !== undefined) {
-      if (data.startDate !== card.startDate) {
+      if (data.startDate?.getTime() !== card.startDate?.getTime()) {
         changes.push(
           data.startDate
             ? `set start date to ${data.startDate.toLocaleDateString()}`
             : "removed start date"
         );
+        fieldChanges.startDate = {
+          from: card.startDate?.toISOString() ?? null,
+          to: data.startDate?.toISOString() ?? null,
+        };
         card.updateStartDate(data.startDate || undefined);
       }
     }
 
-    if (data.assignedToId !== undefined) {
-      if (data.assignedToId !== card.assigneeId) {
-        if (data.assignedToId) {
-          const assignee = await this.userRepository.findById(data.assignedToId);
-          if (!assignee) {
-            throw new Error("Assignee not found");
-          }
-          changes.push(`assigned to ${assignee.name}`);
+    // Each person added or removed gets an ASSIGN/UNASSIGN activity of their own
+    const assigneeChanges: { type: "ASSIGN" | "UNASSIGN"; assigneeId: string; assignee: User | null }[] = [];
+    if (data.assigneeIds !== undefined) {
+      const assigneeIds = [...new Set(data.assigneeIds)];
+
+      for (const assigneeId of assigneeIds.filter(id => !card.isAssignedTo(id))) {
+        const assignee = await this.userRepository.findById(assigneeId);
+        if (!assignee) {
+          throw new Error("Assignee not found");
+        }
+        assigneeChanges.push({ type: "ASSIGN", assigneeId, assignee });
+      }
+
+      for (const assigneeId of card.assigneeIds.filter(id => !assigneeIds.includes(id))) {
+        const assignee = await this.userRepository.findById(assigneeId);
+        assigneeChanges.push({ type: "UNASSIGN", assigneeId, assignee });
+      }
+
+      for (const change of assigneeChanges) {
+        if (change.type === "ASSIGN") {
+          card.assign(change.assigneeId);
         } else {
-          changes.push("removed assignee");
+          card.unassign(change.assigneeId);
         }
-        card.assignTo(data.assignedToId || undefined);
       }
     }
 
     if (data.archived !== undefined && data.archived !== card.isArchived) {
+      fieldChanges.isArchived = { from: card.isArchived, to: data.archived };
       if (data.archived) {
         card.archive();
         changes.push("archived card");
@@ -141,7 +177,7 @@ export class UpdateCard {
     // Update the card
     await this.cardRepository.save(card);
 
-    // Log activity if there were changes
+    // Log field changes as a single activity
     if (changes.length > 0) {
       await this.activityRepository.create({
         type: "UPDATE",
@@ -150,10 +186,56 @@ export class UpdateCard {
         entityType: "CARD",
         entityId: card.id,
         entityTitle: card.title,
+        cardId: card.id,
         description: changes.join(", "),
+        data: fieldChanges,
+      });
+    }
+
+    for (const { type, assigneeId, assignee } of assigneeChanges) {
+      const assigneeName = assignee ? assignee.name ?? assignee.username : undefined;
+      await this.activityRepository.create({
+        type,
+        userId,
+        boardId: list.boardId,
+        entityType: "CARD",
+        entityId: card.id,
+        entityTitle: card.title,
+        cardId: card.id,
+        description: `${type === "ASSIGN" ? "assigned" : "unassigned"} ${assigneeName ?? "someone"}`,
+        data: { assigneeId, assigneeName },
       });
     }
 
+    const newAssigneeIds = assigneeChanges
+      .filter(change => change.type === "ASSIGN")
+      .map(change => change.assigneeId);
+    if (newAssigneeIds.length > 0) {
+      await this.watchRepository.watch(newAssigneeIds, { type: "CARD", id: card.id });
+    }
+    await notifyUsers(this.notificationRepository, userId, newAssigneeIds, {
+      type: "CARD_ASSIGNED",
+      message: `assigned you to "${card.title}"`,
+      boardId: list.boardId,
+      cardId: card.id,
+    });
+
+    if (fieldChanges.isArchived?.to === true) {
+      await notifyUsers(this.notificationRepository, userId, [card.creatorId], {
+        type: "CARD_ARCHIVED",
+        message: `archived your card "${card.title}"`,
+        boardId: list.boardId,
+        cardId: card.id,
+      });
+    }
+
+    // Notify viewers if anything changed
+    if (changes.length > 0 || assigneeChanges.length > 0) {
+      await this.eventPublisher.publish(
+        createBoardEvent("card.updated", list.boardId, userId, { card: card.toJSON() })
+      );
+    }
+
     return card;
   }
 }
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { Checklist } from '@kanban/domain-core';
+import { Activity } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+
+export interface UpdateChecklistRequest {
+  cardId: string;
+  checklistId: string;
+  userId: string;
+  title: string;
+}
+
+export interface UpdateChecklistResponse {
+  checklist: Checklist;
+}
+
+export class UpdateChecklistUseCase {
+  constructor(
+    private checklistRepository: ChecklistRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private activityRepository: ActivityRepository
+  ) {}
+
+  async execute(request: UpdateChecklistRequest): Promise<UpdateChecklistResponse> {
+    const { cardId, checklistId, userId, title } = request;
+
+    // Find checklist
+    const checklist = await this.checklistRepository.findById(checklistId);
+    if (!checklist || !checklist.belongsToCard(cardId)) {
+      throw new Error('Checklist not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(checklist.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can edit checklists
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Validate title
+    if (!title.trim()) {
+      throw new Error('Checklist title is required');
+    }
+
+    if (title.length > 255) {
+      throw new Error('Checklist title is too long');
+    }
+
+    const newTitle = title.trim();
+    if (newTitle === checklist.title) {
+      return { checklist };
+    }
+
+    // Update checklist
+    const oldTitle = checklist.title;
+    checklist.updateTitle(newTitle);
+    await this.checklistRepository.save(checklist);
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'UPDATE',
+      entityType: 'CHECKLIST',
+      entityId: checklist.id,
+      entityTitle: checklist.title,
+      userId,
+      boardId: board.id,
+      cardId: card.id,
+      data: { title: { from: oldTitle, to: checklist.title } },
+    });
+    await this.activityRepository.save(activity);
+
+    return { checklist };
+  }
+}
\ No newline at end of file
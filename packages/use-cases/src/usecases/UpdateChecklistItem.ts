@@ -0,0 +1,83 @@
+import { ChecklistItem } from '@kanban/domain-core';
+import { ChecklistRepository } from '@kanban/domain-core';
+import { ChecklistItemRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+
+export interface UpdateChecklistItemRequest {
+  cardId: string;
+  checklistId: string;
+  itemId: string;
+  userId: string;
+  content: string;
+}
+
+export interface UpdateChecklistItemResponse {
+  item: ChecklistItem;
+}
+
+export class UpdateChecklistItemUseCase {
+  constructor(
+    private checklistItemRepository: ChecklistItemRepository,
+    private checklistRepository: ChecklistRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: UpdateChecklistItemRequest): Promise<UpdateChecklistItemResponse> {
+    const { cardId, checklistId, itemId, userId, content } = request;
+
+    // Find item
+    const item = await this.checklistItemRepository.findById(itemId);
+    if (!item || !item.belongsToChecklist(checklistId)) {
+      throw new Error('Checklist item not found');
+    }
+
+    // Find checklist
+    const checklist = await this.checklistRepository.findById(checklistId);
+    if (!checklist || !checklist.belongsToCard(cardId)) {
+      throw new Error('Checklist not found');
+    }
+
+    // Find card
+    const card = await this.cardRepository.findById(checklist.cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can edit items
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Validate content
+    if (!content.trim()) {
+      throw new Error('Checklist item content is required');
+    }
+
+    if (content.length > 255) {
+      throw new Error('Checklist item content is too long');
+    }
+
+    // Update item
+    item.updateContent(content.trim());
+    await this.checklistItemRepository.save(item);
+
+    return { item };
+  }
+}
\ No newline at end of file
@@ -1,13 +1,18 @@
-import { List } from '@kanban/domain-core';
+import { List, WipLimitMode } from '@kanban/domain-core';
 import { Activity } from '@kanban/domain-core';
 import { ListRepository } from '@kanban/domain-core';
 import { BoardRepository } from '@kanban/domain-core';
 import { ActivityRepository } from '@kanban/domain-core';
+import { BoardEventPublisher } from '@kanban/domain-core';
+import { createBoardEvent } from '@kanban/domain-core';
 
 export interface UpdateListRequest {
   listId: string;
   title?: string;
   color?: string;
+  // null removes the limit
+  wipLimit?: number | null;
+  wipLimitMode?: WipLimitMode;
   userId: string;
 }
 
@@ -19,11 +24,12 @@ export class UpdateListUseCase {
   constructor(
     private listRepository: ListRepository,
     private boardRepository: BoardRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private eventPublisher: BoardEventPublisher
   ) {}
 
   async execute(request: UpdateListRequest): Promise<UpdateListResponse> {
-    const { listId, title, color, userId } = request;
+    const { listId, title, color, wipLimit, wipLimitMode, userId } = request;
 
     // Find list
     const list = await this.listRepository.findById(listId);
@@ -65,6 +71,19 @@ export class UpdateListUseCase {
       }
     }
 
+    // Update WIP limit and its mode if provided; each can change without the other
+    if (wipLimit !== undefined || wipLimitMode !== undefined) {
+      const oldLimit = list.wipLimit;
+      const oldMode = list.wipLimitMode;
+      list.updateWipLimit(wipLimit === undefined ? oldLimit : wipLimit ?? undefined, wipLimitMode ?? oldMode);
+      if (list.wipLimit !== oldLimit) {
+        changes.wipLimit = { from: oldLimit ?? null, to: list.wipLimit ?? null };
+      }
+      if (list.wipLimitMode !== oldMode) {
+        changes.wipLimitMode = { from: oldMode, to: list.wipLimitMode };
+      }
+    }
+
     // Save updated list
     await this.listRepository.save(list);
 
@@ -80,6 +99,10 @@ export class UpdateListUseCase {
         data: changes,
       });
       await this.activityRepository.save(activity);
+
+      await this.eventPublisher.publish(
+        createBoardEvent('list.updated', list.boardId, userId, { list: list.toJSON() })
+      );
     }
 
     return { list };
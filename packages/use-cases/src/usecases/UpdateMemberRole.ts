@@ -3,6 +3,8 @@ import { Activity } from '@kanban/domain-core';
 import { BoardRepository } from '@kanban/domain-core';
 import { UserRepository } from '@kanban/domain-core';
 import { ActivityRepository } from '@kanban/domain-core';
+import { NotificationRepository } from '@kanban/domain-core';
+import { notifyUsers } from '../shared/Notifications';
 
 export interface UpdateMemberRoleRequest {
   boardId: string;
@@ -19,7 +21,8 @@ export class UpdateMemberRoleUseCase {
   constructor(
     private boardRepository: BoardRepository,
     private userRepository: UserRepository,
-    private activityRepository: ActivityRepository
+    private activityRepository: ActivityRepository,
+    private notificationRepository: NotificationRepository
   ) {}
 
   async execute(request: UpdateMemberRoleRequest): Promise<UpdateMemberRoleResponse> {
@@ -91,10 +94,16 @@ export class UpdateMemberRoleUseCase {
       entityTitle: board.title,
       userId,
       boardId,
-      data: { memberUserId, oldRole: currentRole, newRole },
+      data: { role: { from: currentRole, to: newRole, subjectId: memberUserId } },
     });
     await this.activityRepository.save(activity);
 
+    await notifyUsers(this.notificationRepository, userId, [memberUserId], {
+      type: 'BOARD_ROLE_CHANGED',
+      message: `changed your role on "${board.title}" to ${newRole.toLowerCase()}`,
+      boardId,
+    });
+
     return { member: updatedMember };
   }
 }
\ No newline at end of file
@@ -5,6 +5,8 @@ export interface UpdateUserProfileRequest {
   userId: string;
   name?: string;
   avatarUrl?: string;
+  // Minutes before a due date to send reminders; null turns them off
+  reminderLeadMinutes?: number | null;
 }
 
 export interface UpdateUserProfileResponse {
@@ -16,7 +18,7 @@ export class UpdateUserProfileUseCase {
   constructor(private userRepository: UserRepository) {}
 
   async execute(request: UpdateUserProfileRequest): Promise<UpdateUserProfileResponse> {
-    const { userId, name, avatarUrl } = request;
+    const { userId, name, avatarUrl, reminderLeadMinutes } = request;
 
     // Find the user
     const user = await this.userRepository.findById(userId);
@@ -29,8 +31,13 @@ export class UpdateUserProfileUseCase {
       throw new Error('Cannot update profile for inactive user');
     }
 
-    // Update the user profile
-    user.updateProfile(name, avatarUrl);
+    // Update the user profile; a request that only changes reminders keeps it as is
+    if (name !== undefined || avatarUrl !== undefined) {
+      user.updateProfile(name, avatarUrl);
+    }
+    if (reminderLeadMinutes !== undefined) {
+      user.updateReminderLeadTime(reminderLeadMinutes ?? undefined);
+    }
 
     // Save the updated user
     await this.userRepository.save(user);
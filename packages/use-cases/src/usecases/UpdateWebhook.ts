@@ -0,0 +1,49 @@
+import { ActivityType, Webhook } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { WebhookRepository } from '@kanban/domain-core';
+import { findManagedWebhook, validateWebhookEvents, validateWebhookUrl } from '../shared/Webhooks';
+
+export interface UpdateWebhookRequest {
+  userId: string;
+  webhookId: string;
+  url?: string;
+  events?: ActivityType[];
+  isActive?: boolean;
+  // Issues a new signing secret; the old one stops working immediately
+  rotateSecret?: boolean;
+}
+
+export interface UpdateWebhookResponse {
+  webhook: Webhook;
+}
+
+export class UpdateWebhookUseCase {
+  constructor(
+    private webhookRepository: WebhookRepository,
+    private boardRepository: BoardRepository
+  ) {}
+
+  async execute(request: UpdateWebhookRequest): Promise<UpdateWebhookResponse> {
+    const { userId, webhookId, url, events, isActive, rotateSecret } = request;
+
+    const webhook = await findManagedWebhook(webhookId, userId, {
+      webhookRepository: this.webhookRepository,
+      boardRepository: this.boardRepository,
+    });
+
+    if (url !== undefined) {
+      validateWebhookUrl(url);
+    }
+    if (events !== undefined) {
+      validateWebhookEvents(events);
+    }
+
+    webhook.update({ url, events, isActive });
+    if (rotateSecret) {
+      webhook.rotateSecret();
+    }
+    await this.webhookRepository.save(webhook);
+
+    return { webhook };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { Attachment } from '@kanban/domain-core';
+import { Activity } from '@kanban/domain-core';
+import { AttachmentRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { ActivityRepository } from '@kanban/domain-core';
+import { FileStorage } from '@kanban/domain-core';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+export const ALLOWED_ATTACHMENT_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/json',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+];
+
+export interface UploadAttachmentRequest {
+  cardId: string;
+  userId: string;
+  filename: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface UploadAttachmentResponse {
+  attachment: Attachment;
+}
+
+export class UploadAttachmentUseCase {
+  constructor(
+    private attachmentRepository: AttachmentRepository,
+    private cardRepository: CardRepository,
+    private listRepository: ListRepository,
+    private boardRepository: BoardRepository,
+    private activityRepository: ActivityRepository,
+    private fileStorage: FileStorage
+  ) {}
+
+  async execute(request: UploadAttachmentRequest): Promise<UploadAttachmentResponse> {
+    const { cardId, userId, filename, mimeType, data } = request;
+
+    // Find card
+    const card = await this.cardRepository.findById(cardId);
+    if (!card) {
+      throw new Error('Card not found');
+    }
+
+    // Get the list to find the board
+    const list = await this.listRepository.findById(card.listId);
+    if (!list) {
+      throw new Error('List not found');
+    }
+
+    // Find board
+    const board = await this.boardRepository.findById(list.boardId);
+    if (!board) {
+      throw new Error('Board not found');
+    }
+
+    // Only board owner, admin, or members can attach files
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.isOwner(userId) && (!userRole || userRole === 'VIEWER')) {
+      throw new Error('Access denied');
+    }
+
+    // Validate file
+    if (!filename.trim()) {
+      throw new Error('Filename is required');
+    }
+
+    if (data.byteLength === 0) {
+      throw new Error('File is empty');
+    }
+
+    if (data.byteLength > MAX_ATTACHMENT_SIZE) {
+      throw new Error('File is too large');
+    }
+
+    if (!ALLOWED_ATTACHMENT_MIME_TYPES.includes(mimeType)) {
+      throw new Error('File type not allowed');
+    }
+
+    // Store file, then persist the record
+    const attachmentId = crypto.randomUUID();
+    const url = await this.fileStorage.put(`cards/${cardId}/${attachmentId}`, data, mimeType);
+
+    const attachment = Attachment.create({
+      id: attachmentId,
+      filename: filename.trim(),
+      url,
+      mimeType,
+      size: data.byteLength,
+      cardId,
+      uploaderId: userId,
+    });
+
+    try {
+      await this.attachmentRepository.save(attachment);
+    } catch (error) {
+      // Do not leave orphaned files behind
+      await this.fileStorage.delete(url);
+      throw error;
+    }
+
+    // Log activity
+    const activity = Activity.create({
+      action: 'ATTACH',
+      entityType: 'CARD',
+      entityId: card.id,
+      entityTitle: card.title,
+      userId,
+      boardId: board.id,
+      cardId: card.id,
+      data: { attachmentId: attachment.id, filename: attachment.filename },
+    });
+    await this.activityRepository.save(activity);
+
+    return { attachment };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { WatchTarget } from '@kanban/domain-core';
+import { BoardRepository } from '@kanban/domain-core';
+import { CardRepository } from '@kanban/domain-core';
+import { ListRepository } from '@kanban/domain-core';
+import { WatchRepository } from '@kanban/domain-core';
+import { findWatchTargetBoard } from '../shared/Watching';
+
+export interface WatchRequest {
+  userId: string;
+  target: WatchTarget;
+}
+
+export interface WatchResponse {
+  watching: boolean;
+}
+
+export class WatchUseCase {
+  constructor(
+    private watchRepository: WatchRepository,
+    private boardRepository: BoardRepository,
+    private listRepository: ListRepository,
+    private cardRepository: CardRepository
+  ) {}
+
+  async execute(request: WatchRequest): Promise<WatchResponse> {
+    const { userId, target } = request;
+
+    const board = await findWatchTargetBoard(target, {
+      boardRepository: this.boardRepository,
+      listRepository: this.listRepository,
+      cardRepository: this.cardRepository,
+    });
+
+    const userRole = await this.boardRepository.getMemberRole(board.id, userId);
+    if (!board.canBeViewedBy(userId, userRole || undefined)) {
+      throw new Error('Access denied');
+    }
+
+    await this.watchRepository.watch([userId], target);
+
+    return { watching: true };
+  }
+}
\ No newline at end of file